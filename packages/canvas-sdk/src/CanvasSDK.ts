@@ -4,10 +4,16 @@
  */
 
 import { ICanvasManager } from './managers/CanvasManager'
+import { IDocumentManager } from './managers/DocumentManager'
 import { ISceneManager } from './managers/SceneManager'
+import { ITimelineManager } from './managers/TimelineManager'
 import { IToolManager } from './managers/ToolManager'
 import type { LogLevel } from './services'
 import { ILogService } from './services'
+import { IAutosaveService } from './services/autosave/autosaveService'
+import { ICollaborationService } from './services/collaboration/collaborationService'
+import { IExportService } from './services/export/exportService'
+import { IShortcutService } from './services/shortcut/shortcutService'
 
 /**
  * SDK 配置选项
@@ -37,6 +43,12 @@ export class CanvasSDK {
     @ICanvasManager private canvasManager: ICanvasManager,
     @ISceneManager private sceneManager: ISceneManager,
     @IToolManager private toolManager: IToolManager,
+    @IDocumentManager private documentManager: IDocumentManager,
+    @ITimelineManager private timelineManager: ITimelineManager,
+    @IAutosaveService private autosaveService: IAutosaveService,
+    @ICollaborationService private collaborationService: ICollaborationService,
+    @IShortcutService private shortcutService: IShortcutService,
+    @IExportService private exportService: IExportService,
     @ILogService private logger: ILogService
   ) {
     this.logger.info('Canvas SDK instance created via DI container')
@@ -76,6 +88,48 @@ export class CanvasSDK {
     return this.toolManager
   }
 
+  /**
+   * 获取 Document Manager - 文档保存与加载
+   */
+  getDocumentManager(): IDocumentManager {
+    return this.documentManager
+  }
+
+  /**
+   * 获取 Timeline Manager - 关键帧动画与播放
+   */
+  getTimelineManager(): ITimelineManager {
+    return this.timelineManager
+  }
+
+  /**
+   * 获取自动保存服务 - 会话恢复与还原点
+   */
+  getAutosaveService(): IAutosaveService {
+    return this.autosaveService
+  }
+
+  /**
+   * 获取协作服务 - 多人实时协作与在线状态
+   */
+  getCollaborationService(): ICollaborationService {
+    return this.collaborationService
+  }
+
+  /**
+   * 获取快捷键服务 - 键位表、和弦与 when 条件
+   */
+  getShortcutService(): IShortcutService {
+    return this.shortcutService
+  }
+
+  /**
+   * 获取导出服务 - 按格式导出，创建插件系统时传给 PluginManager
+   */
+  getExportService(): IExportService {
+    return this.exportService
+  }
+
   /**
    * 销毁 SDK
    */
@@ -84,6 +138,22 @@ export class CanvasSDK {
       return
     }
 
+    if (this.collaborationService) {
+      this.collaborationService.dispose()
+    }
+
+    if (this.autosaveService) {
+      this.autosaveService.dispose()
+    }
+
+    if (this.documentManager) {
+      this.documentManager.dispose()
+    }
+
+    if (this.timelineManager) {
+      this.timelineManager.dispose()
+    }
+
     if (this.sceneManager) {
       this.sceneManager.dispose()
     }
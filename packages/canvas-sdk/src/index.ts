@@ -24,67 +24,217 @@ export type { SDKConfig } from './main'
 export { createCanvasSDK } from './main'
 export type {
   CanvasStats,
+  IDocumentLoadResult,
+  IDocumentSaveOptions,
+  IExternalShapeChanges,
+  IKeyframeInput,
   ILayerInfo,
   ISceneManager,
   ISceneManagerState,
+  ITimelineState,
   IToolManager,
   ITransactionManager,
 } from './managers'
 
-export { ICanvasManager } from './managers'
+export { ICanvasManager, IDocumentManager, ITimelineManager } from './managers'
 export type {
+  IDocumentAsset,
+  IDocumentMigration,
+  ISerializedLayer,
+  ISkyCanvasDocument,
+  SerializedShapeEntity,
+} from './models/document/SkyCanvasDocument'
+export {
+  DocumentFormatError,
+  SKY_CANVAS_DOCUMENT_VERSION,
+  SKY_CANVAS_FILE_EXTENSION,
+  SKY_CANVAS_MIME_TYPE,
+} from './models/document/SkyCanvasDocument'
+export type {
+  AnimatableProperty,
+  IKeyframe,
+  IKeyframeTrack,
+  ITimelineSettings,
+  KeyframeEasing,
+  KeyframeValue,
+} from './models/entities/Animation'
+export {
+  ANIMATABLE_PROPERTIES,
+  AnimationError,
+  evaluateTrack,
+  getAnimatedShape,
+} from './models/entities/Animation'
+export type { BlendMode } from './models/entities/Layer'
+export { BLEND_MODES } from './models/entities/Layer'
+export type { TextRunToggle } from './models/entities/RichText'
+export { getTextRuns, isRunStyleActive } from './models/entities/RichText'
+export type {
+  ConnectorArrowhead,
+  ConnectorRouting,
+  CustomShapeType,
+  IBlurEffect,
   ICircleEntity,
+  IColorAdjustEffect,
+  IConnectorEndpoint,
+  IConnectorEntity,
+  IConnectorLabel,
+  ICustomShapeEntity,
+  IDiamondEntity,
   IEllipseEntity,
+  IFrameEntity,
+  IFreehandBrush,
+  IFreehandEntity,
+  IFreehandPoint,
+  IGlowEffect,
   IGroupEntity,
   IImageDataLike,
   IImageEntity,
+  ILinkEntity,
   IPathEntity,
   IPolygonEntity,
   IRectangleEntity,
+  IShadowEffect,
   IShapeEntity,
   IStarEntity,
+  IStickyEntity,
+  IStyleGradient,
+  IStyleGradientStop,
+  IStylePattern,
   ITextEntity,
+  ITextRun,
+  ITextRunStyle,
+  ShapeEffect,
+  ShapeEffectInit,
   ShapeEntity,
+  StylePaint,
 } from './models/entities/Shape'
+export { createGradientStop, createShapeEffect, isCustomShape } from './models/entities/Shape'
+export type {
+  IShapeDataField,
+  IShapeResizeResult,
+  IShapeTypeDefinition,
+  ShapeDataSchema,
+  ShapeResizeHandle,
+} from './models/entities/ShapeTypeRegistry'
+export {
+  ShapeTypeError,
+  ShapeTypeRegistry,
+  shapeTypeRegistry,
+} from './models/entities/ShapeTypeRegistry'
 export type {
   IInteractionTool,
   IMouseEvent,
   InteractionMode,
 } from './models/types/ToolTypes'
 export type {
+  DependencyDiagnostic,
+  DependencyResolution,
   ExtensionPoint,
   ExtensionProvider,
+  IsolatedPluginOptions,
+  PluginHostEndpoint,
   PluginManifest,
   PluginPermission,
   PluginStatus,
 } from './plugins'
 
 export {
+  createInProcessEndpoint,
   ExtensionManager,
   PermissionManager,
   PluginContextImpl as PluginContext,
+  PluginDependencyError,
   PluginManager,
+  PluginPermissionError,
+  PluginTimeoutError,
 } from './plugins'
 export type {
+  AutosaveStoreName,
+  AutosaveWriteOperation,
+  CrdtFields,
+  FormatExportResult,
+  FormatOptions,
+  FormatOptionsSchema,
+  ICollaborationUser,
+  ICommand,
+  ICommandContext,
+  ICrdtChange,
+  ICrdtOperation,
+  IFileFormat,
+  IFormatExportInput,
+  IFormatOptionSchema,
+  IFormatSource,
+  IHistoryStore,
+  IKeybindingConflict,
+  IKeybindingRule,
+  IPresenceState,
+  IResolvedKeybinding,
+  ISerializedCommand,
+  ISerializedHistory,
+  IShortcutConfig,
+  ISyncTransport,
+  IWebSocketLike,
   IZIndexChangeEvent,
+  KeybindingPlatform,
   LogLevel,
+  StateVector,
+  SyncMessage,
   ZIndexOperation,
 } from './services'
 export {
+  CommandRegistry,
+  CommandSerializationError,
+  CrdtDocument,
+  commandRegistry,
+  createInMemoryTransportPair,
+  FormatError,
+  FormatRegistry,
+  formatKeybinding,
+  formatRegistry,
+  IAutosaveStorage,
   ICanvasRenderingService,
   IClipboardService,
+  IColorHistoryService,
   IConfigurationService,
+  IExportService,
   IHistoryService,
   IInteractionService,
   ILogService,
+  IndexedDBAutosaveStorage,
   ISelectionService,
   IShapeService,
   IShortcutService,
   IThemeService,
   IZIndexService,
   IZoomService,
+  KeybindingError,
+  LocalStorageHistoryStore,
+  MemoryAutosaveStorage,
+  MemoryHistoryStore,
+  SyncServer,
+  WebSocketSyncTransport,
 } from './services'
+export {
+  AutosaveService,
+  IAutosaveService,
+  type IAutosaveSessionInfo,
+  type IRestorePointInfo,
+} from './services/autosave/autosaveService'
+export {
+  CollaborationService,
+  ICollaborationService,
+  type IRemotePeer,
+} from './services/collaboration/collaborationService'
 export type {
   ICanvasMouseEvent,
+  IPointerSample,
   IToolViewModel,
 } from './viewmodels/interfaces/IViewModel'
+export type {
+  IEyedropperLoupe,
+  IEyedropperToolState,
+  ITextSelection,
+  ITextToolState,
+  ITextToolViewModel,
+  TextCaretUnit,
+} from './viewmodels/tools'
@@ -11,17 +11,23 @@ import { ServiceCollection } from './di/ServiceCollection'
 
 // 管理器
 import { CanvasManager, ICanvasManager } from './managers/CanvasManager'
+import { DocumentManager, IDocumentManager } from './managers/DocumentManager'
 import { ISceneManager, SceneManager } from './managers/SceneManager'
+import { ITimelineManager, TimelineManager } from './managers/TimelineManager'
 import { IToolManager, ToolManager } from './managers/ToolManager'
 // 服务
 import {
   CanvasRenderingService,
   ClipboardService,
+  ColorHistoryService,
   ConfigurationService,
+  ExportService,
   HistoryService,
   ICanvasRenderingService,
   IClipboardService,
+  IColorHistoryService,
   IConfigurationService,
+  IExportService,
   IHistoryService,
   IInteractionService,
   ILogService,
@@ -37,9 +43,19 @@ import {
   ShortcutService,
   ZIndexService,
 } from './services'
+import { AutosaveService, IAutosaveService } from './services/autosave/autosaveService'
+import { IAutosaveStorage, IndexedDBAutosaveStorage } from './services/autosave/autosaveStorage'
+import {
+  CollaborationService,
+  ICollaborationService,
+} from './services/collaboration/collaborationService'
 // ViewModels
 import { ArrowToolViewModel, IArrowToolViewModel } from './viewmodels/tools/ArrowToolViewModel'
 import { CircleToolViewModel, ICircleToolViewModel } from './viewmodels/tools/CircleToolViewModel'
+import {
+  DiamondToolViewModel,
+  IDiamondToolViewModel,
+} from './viewmodels/tools/DiamondToolViewModel'
 import { DrawToolViewModel, IDrawToolViewModel } from './viewmodels/tools/DrawToolViewModel'
 import {
   EllipseToolViewModel,
@@ -50,9 +66,11 @@ import {
   EyedropperToolViewModel,
   IEyedropperToolViewModel,
 } from './viewmodels/tools/EyedropperToolViewModel'
+import { FrameToolViewModel, IFrameToolViewModel } from './viewmodels/tools/FrameToolViewModel'
 import { HandToolViewModel, IHandToolViewModel } from './viewmodels/tools/HandToolViewModel'
 import { IImageToolViewModel, ImageToolViewModel } from './viewmodels/tools/ImageToolViewModel'
 import { ILineToolViewModel, LineToolViewModel } from './viewmodels/tools/LineToolViewModel'
+import { ILinkToolViewModel, LinkToolViewModel } from './viewmodels/tools/LinkToolViewModel'
 import {
   IPolygonToolViewModel,
   PolygonToolViewModel,
@@ -63,6 +81,7 @@ import {
 } from './viewmodels/tools/RectangleToolViewModel'
 import { ISelectToolViewModel, SelectToolViewModel } from './viewmodels/tools/SelectToolViewModel'
 import { IStarToolViewModel, StarToolViewModel } from './viewmodels/tools/StarToolViewModel'
+import { IStickyToolViewModel, StickyToolViewModel } from './viewmodels/tools/StickyToolViewModel'
 import { ITextToolViewModel, TextToolViewModel } from './viewmodels/tools/TextToolViewModel'
 
 /**
@@ -74,6 +93,8 @@ export interface SDKConfig {
   logLevel?: LogLevel
   enableHistory?: boolean
   enableInteraction?: boolean
+  /** 是否自动保存到 IndexedDB，默认 true */
+  enableAutosave?: boolean
 }
 
 /**
@@ -148,6 +169,7 @@ class CanvasSDKBootstrap {
       logLevel: 'info',
       enableHistory: true,
       enableInteraction: true,
+      enableAutosave: true,
       ...this.config,
     }
   }
@@ -207,6 +229,10 @@ class CanvasSDKBootstrap {
     )
     void sceneManager
 
+    if (this.config.enableAutosave) {
+      this.instantiationService.invokeFunction((accessor) => accessor.get(IAutosaveService)).start()
+    }
+
     // 初始化Canvas和核心服务连接
     if (this.config.canvas) {
       await this.initializeCanvasServices()
@@ -319,6 +345,12 @@ class CanvasSDKBootstrap {
     // 剪贴板服务
     services.set(IClipboardService, new SyncDescriptor(ClipboardService))
 
+    // 最近使用颜色
+    services.set(IColorHistoryService, new SyncDescriptor(ColorHistoryService))
+
+    // 导出服务，插件系统的 file.export 也使用它
+    services.set(IExportService, new SyncDescriptor(ExportService))
+
     // ViewModels
     services.set(ISelectToolViewModel, new SyncDescriptor(SelectToolViewModel))
     services.set(IRectangleToolViewModel, new SyncDescriptor(RectangleToolViewModel))
@@ -334,6 +366,10 @@ class CanvasSDKBootstrap {
     services.set(IHandToolViewModel, new SyncDescriptor(HandToolViewModel))
     services.set(IEraserToolViewModel, new SyncDescriptor(EraserToolViewModel))
     services.set(IEyedropperToolViewModel, new SyncDescriptor(EyedropperToolViewModel))
+    services.set(IDiamondToolViewModel, new SyncDescriptor(DiamondToolViewModel))
+    services.set(IStickyToolViewModel, new SyncDescriptor(StickyToolViewModel))
+    services.set(ILinkToolViewModel, new SyncDescriptor(LinkToolViewModel))
+    services.set(IFrameToolViewModel, new SyncDescriptor(FrameToolViewModel))
 
     // 工具管理器
     services.set(IToolManager, new SyncDescriptor(ToolManager))
@@ -343,6 +379,19 @@ class CanvasSDKBootstrap {
 
     // 场景管理器
     services.set(ISceneManager, new SyncDescriptor(SceneManager))
+
+    // 时间轴管理器
+    services.set(ITimelineManager, new SyncDescriptor(TimelineManager))
+
+    // 文档管理器
+    services.set(IDocumentManager, new SyncDescriptor(DocumentManager))
+
+    // 自动保存
+    services.set(IAutosaveStorage, new SyncDescriptor(IndexedDBAutosaveStorage))
+    services.set(IAutosaveService, new SyncDescriptor(AutosaveService))
+
+    // 多人协作
+    services.set(ICollaborationService, new SyncDescriptor(CollaborationService))
   }
 
   /**
@@ -7,17 +7,24 @@ import type { IRenderable } from '@sky-canvas/render-engine'
 import { proxy } from 'valtio'
 import {
   type ICircleEntity,
+  type IConnectorEntity,
+  type IDiamondEntity,
   type IEllipseEntity,
+  type IFrameEntity,
   type IGroupEntity,
   type IImageEntity,
+  type ILinkEntity,
   type IPolygonEntity,
   type IRectangleEntity,
   type IShapeEntity,
   type IStarEntity,
+  type IStickyEntity,
   type ITextEntity,
+  isCustomShape,
   type ShapeEntity,
   ShapeEntityFactory,
 } from '../models/entities/Shape'
+import { shapeTypeRegistry } from '../models/entities/ShapeTypeRegistry'
 import {
   ICanvasRenderingService,
   IClipboardService,
@@ -27,7 +34,33 @@ import {
   IShapeService,
   IZIndexService,
 } from '../services'
-import type { CanvasStats, ICanvasManager } from './ICanvasManager'
+import { CompositeCommand, MultiPropertyChangeCommand } from '../services/history/commands'
+import {
+  describeShapeAdd,
+  describeShapeRemove,
+  describeShapeUpdate,
+} from '../services/history/historyLabels'
+import type { ICommand } from '../services/history/historyService'
+import type { IHistoryStore, ISerializedHistory } from '../services/history/historyStore'
+import {
+  AddShapeCommand,
+  createShapeCommandContext,
+  getShapeRef,
+  RemoveShapeCommand,
+} from '../services/shape/shapeCommands'
+import { getStickySize } from '../views/CardLayout'
+import { getConnectorBounds } from '../views/ConnectorGeometry'
+import { getBoundConnectors, routeConnector } from '../views/ConnectorRouting'
+import {
+  canJoinFrame,
+  findFrameAt,
+  getParentFrameId,
+  getShapeWorldCenter,
+  isPointInFrame,
+} from '../views/FrameGeometry'
+import { DEFAULT_HIT_TOLERANCE, getFreehandBounds } from '../views/ShapeGeometry'
+import { getTextBounds } from '../views/TextLayout'
+import type { CanvasStats, ICanvasManager, IExternalShapeChanges } from './ICanvasManager'
 import * as ClipboardMixin from './mixins/CanvasClipboardMixin'
 import * as ZIndexMixin from './mixins/CanvasZIndexMixin'
 
@@ -61,9 +94,13 @@ export interface CanvasState {
   canRedo: boolean
   /** 剪贴板是否有数据 */
   hasClipboardData: boolean
+  /** 历史记录标签，按执行顺序 */
+  historyLabels: string[]
+  /** 当前所在的历史位置，-1 表示已全部撤销 */
+  historyIndex: number
 }
 
-export type { CanvasStats } from './ICanvasManager'
+export type { CanvasStats, IExternalShapeChanges } from './ICanvasManager'
 // 重新导出接口
 export { ICanvasManager } from './ICanvasManager'
 
@@ -80,13 +117,23 @@ export class CanvasManager implements ICanvasManager {
     canUndo: false,
     canRedo: false,
     hasClipboardData: false,
+    historyLabels: [],
+    historyIndex: -1,
   })
 
   private unsubscribeHistory?: () => void
+  private unsubscribeShapeTypes?: () => void
   private syncStateScheduled = false
   private snapToGrid = false
   private gridSize = 10
+  private hitTolerance = DEFAULT_HIT_TOLERANCE
   private eventListeners = new Map<string, Set<(...args: unknown[]) => void>>()
+  private pendingBatch: CompositeCommand | null = null
+  /** 批次未指定描述时沿用首条命令的描述 */
+  private pendingBatchLabeled = false
+  private batchDepth = 0
+  /** 随画框移动子形状时不重新判断子形状所属画框 */
+  private frameMoveDepth = 0
 
   constructor(
     @ILogService private logService: ILogService,
@@ -99,6 +146,10 @@ export class CanvasManager implements ICanvasManager {
   ) {
     this.logService.info('CanvasManager initialized')
     this.setupHistorySubscription()
+    // 形状类型注册或注销后重绘，占位框与插件渲染相互切换
+    this.unsubscribeShapeTypes = shapeTypeRegistry.onDidChange(() =>
+      this.renderingService?.render()
+    )
   }
 
   private setupHistorySubscription(): void {
@@ -189,16 +240,35 @@ export class CanvasManager implements ICanvasManager {
     this.state.canUndo = this.historyService.canUndo()
     this.state.canRedo = this.historyService.canRedo()
     this.state.hasClipboardData = this.clipboardService.hasData()
+    this.state.historyLabels = this.getHistoryLabels()
+    this.state.historyIndex = this.historyService.getCurrentIndex()
   }
 
   // === 形状管理 ===
 
   addShape(entity: ShapeEntity): void {
-    this.shapeService.addShape(entity)
-    this.historyService.execute({
-      execute: () => {},
-      undo: () => this.shapeService.removeShape(entity.id),
-    })
+    // 落在画框内的新形状加入画框（复制来的形状不沿用原画框）；新建的空画框收纳范围内尚无画框的形状
+    const frame =
+      canJoinFrame(entity) && !this.getParentFrame(entity)
+        ? findFrameAt(this.shapeService.getAllShapeEntities(), getShapeWorldCenter(entity))
+        : undefined
+    const enclosed =
+      entity.type === 'frame' && entity.childrenIds.length === 0
+        ? this.getShapesInFrame(entity)
+        : []
+    if (enclosed.length > 0) {
+      // 画框绘制在子形状之下
+      entity.zIndex = Math.min(entity.zIndex, ...enclosed.map((shape) => shape.zIndex - 1))
+    }
+    const description = describeShapeAdd(entity)
+    const batched = !!frame || enclosed.length > 0
+    if (batched) this.beginBatch(description)
+
+    this.recordCommand(new AddShapeCommand(this.shapeService, entity, description))
+    if (frame) this.setParentFrame(entity.id, frame.id)
+    for (const shape of enclosed) this.setParentFrame(shape.id, entity.id)
+
+    if (batched) this.endBatch()
     this.logService.debug(`Shape added: ${entity.id}`)
     this.syncState()
     this.emit('shape:added', entity)
@@ -210,11 +280,35 @@ export class CanvasManager implements ICanvasManager {
     const entity = this.shapeService.getShapeEntity(id)
     if (!entity) return
 
-    this.shapeService.removeShape(id)
-    this.historyService.execute({
-      execute: () => {},
-      undo: () => this.shapeService.addShape(entity),
-    })
+    const connectors = this.getConnectorsBoundTo(new Set([id]))
+    const parentFrame = this.getParentFrame(entity)
+    const children = entity.type === 'frame' ? [...entity.childrenIds] : []
+    const description = describeShapeRemove(entity)
+    const batched = connectors.length > 0 || !!parentFrame || children.length > 0
+    if (batched) this.beginBatch(description)
+
+    // 画框连同其子形状一起删除
+    for (const childId of children) this.removeShape(childId)
+
+    // 解除绑定到该形状的连接线端点，端点停留在当前位置
+    if (connectors.length > 0) {
+      for (const connector of connectors) {
+        const detach = (endpoint: IConnectorEntity['start']) =>
+          endpoint.shapeId === id ? { point: endpoint.point } : endpoint
+        this.updateShape(connector.id, {
+          start: detach(connector.start),
+          end: detach(connector.end),
+        } as Partial<IConnectorEntity>)
+      }
+    }
+    if (parentFrame) {
+      this.updateShape(parentFrame.id, {
+        childrenIds: parentFrame.childrenIds.filter((childId) => childId !== id),
+      } as Partial<IFrameEntity>)
+    }
+
+    this.recordCommand(new RemoveShapeCommand(this.shapeService, entity, description))
+    if (batched) this.endBatch()
     this.logService.debug(`Shape removed: ${id}`)
     this.syncState()
     this.emit('shape:removed', entity)
@@ -226,19 +320,42 @@ export class CanvasManager implements ICanvasManager {
     const oldEntity = this.shapeService.getShapeEntity(id)
     if (!oldEntity) return
 
+    // 连接线随绑定的形状（编组时含其子形状）重新路由，与本次更新合并为一条历史记录
+    const movedIds = new Set([id])
     if (oldEntity.type === 'group') {
-      this.applyGroupUpdates(oldEntity as IGroupEntity, updates as Partial<IGroupEntity>)
+      for (const childId of oldEntity.childrenIds) movedIds.add(childId)
     }
+    const connectors = this.getConnectorsBoundTo(movedIds).filter((c) => c.id !== id)
+    const reroute = oldEntity.type === 'connector' || connectors.length > 0
+    // 画框移动时子形状随之移动（缩放画框时保持原位）；其他形状移动后按新位置加入或移出画框
+    const frameDelta =
+      oldEntity.type === 'frame' && !('size' in updates)
+        ? this.getMoveDelta(oldEntity, updates)
+        : null
+    const reparent = this.getFrameReparent(oldEntity, updates)
+    // 编组的变换与尺寸更新会同时改变子形状
+    const groupChange = oldEntity.type === 'group' && ('transform' in updates || 'size' in updates)
+    const description = describeShapeUpdate(oldEntity, updates)
+    const batched = reroute || !!frameDelta || !!reparent || groupChange
+    if (batched) this.beginBatch(description)
 
-    this.shapeService.updateShape(id, updates)
-    const oldValues = {
-      transform: { ...oldEntity.transform },
-      style: { ...oldEntity.style },
+    if (oldEntity.type === 'group') {
+      this.applyGroupUpdates(
+        oldEntity as IGroupEntity,
+        updates as Partial<IGroupEntity>,
+        description
+      )
     }
-    this.historyService.execute({
-      execute: () => {},
-      undo: () => this.shapeService.updateShape(id, oldValues),
-    })
+
+    this.recordShapeChange(oldEntity, updates, description)
+
+    if (oldEntity.type === 'frame' && frameDelta) {
+      this.moveFrameChildren(oldEntity, frameDelta)
+    }
+    if (reparent) this.setParentFrame(id, reparent.frameId)
+    if (oldEntity.type === 'connector') this.rerouteConnector(id)
+    for (const connector of connectors) this.rerouteConnector(connector.id)
+    if (batched) this.endBatch()
     this.logService.debug(`Shape updated: ${id}`)
     this.syncState()
     this.emit('shape:updated', { id, updates })
@@ -246,12 +363,235 @@ export class CanvasManager implements ICanvasManager {
     this.emit('history:executed')
   }
 
+  applyExternalChanges(changes: IExternalShapeChanges): void {
+    for (const entity of changes.added ?? []) {
+      this.shapeService.addShape(entity)
+      this.emit('shape:added', entity)
+      this.emit('canvas:shapeAdded', entity)
+    }
+    for (const { id, updates } of changes.updated ?? []) {
+      if (!this.shapeService.getShapeEntity(id)) continue
+      this.shapeService.updateShape(id, updates)
+      this.emit('shape:updated', { id, updates })
+      this.emit('canvas:shapeUpdated', { id, updates })
+    }
+    for (const id of changes.removed ?? []) {
+      const entity = this.shapeService.getShapeEntity(id)
+      if (!entity) continue
+      if (this.selectionService.isSelected(entity)) {
+        this.selectionService.deselect(entity)
+        this.emit('shape:deselected', entity)
+      }
+      this.shapeService.removeShape(id)
+      this.emit('shape:removed', entity)
+      this.emit('canvas:shapeRemoved', entity)
+    }
+    this.syncState()
+  }
+
+  /**
+   * 开始批量记录：直到匹配的 endBatch 之前的形状变更合并为一条历史记录，可嵌套
+   */
+  beginBatch(description?: string): void {
+    if (this.batchDepth++ === 0) {
+      this.pendingBatch = new CompositeCommand(description)
+      this.pendingBatchLabeled = !!description
+    }
+  }
+
+  endBatch(): void {
+    if (this.batchDepth === 0) return
+    if (--this.batchDepth > 0) return
+
+    const batch = this.pendingBatch
+    this.pendingBatch = null
+    if (!batch || batch.isEmpty()) return
+    // 子命令均已生效且可重复执行，入栈时再次执行不会产生副作用
+    this.historyService.execute(batch)
+    this.syncState()
+  }
+
+  /**
+   * 在一个批次中执行，产生的形状变更记为一条历史记录
+   */
+  private withBatch<T>(description: string, run: () => T): T {
+    this.beginBatch(description)
+    try {
+      return run()
+    } finally {
+      this.endBatch()
+    }
+  }
+
+  /**
+   * 结束当前合并窗口：每次指针按下开始新的操作，连续两次拖拽不合并为一步
+   */
+  stopHistoryMerging(): void {
+    this.historyService.stopMerging()
+  }
+
+  /**
+   * 执行命令并记录到历史；批量模式下先执行再暂存到当前批次
+   */
+  private recordCommand(command: ICommand): void {
+    if (this.pendingBatch) {
+      command.execute()
+      if (!this.pendingBatchLabeled && this.pendingBatch.isEmpty() && command.description) {
+        this.pendingBatch.description = command.description
+      }
+      this.pendingBatch.add(command)
+      return
+    }
+    this.historyService.execute(command)
+  }
+
+  /**
+   * 以属性差异记录形状更新：只保存实际变化的属性，值未变化时不产生历史记录
+   */
+  private recordShapeChange(
+    shape: ShapeEntity,
+    updates: Partial<ShapeEntity>,
+    description: string
+  ): void {
+    const command = new MultiPropertyChangeCommand<ShapeEntity>(shape, description, (values) =>
+      this.shapeService.updateShape(shape.id, values)
+    ).withRef(getShapeRef(shape.id))
+    for (const key of Object.keys(updates) as Array<keyof ShapeEntity>) {
+      if (!isSameValue(shape[key], updates[key])) command.addChange(key, updates[key])
+    }
+    if (!command.isEmpty()) this.recordCommand(command)
+  }
+
+  /**
+   * 按当前形状位置重新计算连接线路由
+   */
+  private rerouteConnector(id: string): void {
+    const connector = this.shapeService.getShapeEntity(id)
+    if (connector?.type !== 'connector') return
+
+    const route = routeConnector(connector, (shapeId) => this.shapeService.getShapeEntity(shapeId))
+    this.recordShapeChange(connector, route as Partial<ShapeEntity>, 'Route connector')
+    this.emit('shape:updated', { id, updates: route })
+  }
+
+  private getConnectorsBoundTo(shapeIds: Set<string>): IConnectorEntity[] {
+    return getBoundConnectors(this.shapeService.getAllShapeEntities(), shapeIds)
+  }
+
+  /**
+   * 所属画框，画框的 childrenIds 中没有该形状时（如复制来的形状）视为不属于画框
+   */
+  private getParentFrame(shape: ShapeEntity): IFrameEntity | undefined {
+    const frameId = getParentFrameId(shape)
+    const frame = frameId ? this.shapeService.getShapeEntity(frameId) : undefined
+    return frame?.type === 'frame' && frame.childrenIds.includes(shape.id) ? frame : undefined
+  }
+
+  /**
+   * 中心落在画框内、尚未属于任何画框的形状
+   */
+  private getShapesInFrame(frame: IFrameEntity): ShapeEntity[] {
+    return this.shapeService
+      .getAllShapeEntities()
+      .filter(
+        (shape) =>
+          shape.id !== frame.id &&
+          canJoinFrame(shape) &&
+          !getParentFrameId(shape) &&
+          isPointInFrame(frame, getShapeWorldCenter(shape))
+      )
+  }
+
+  private getMoveDelta(
+    shape: ShapeEntity,
+    updates: Partial<ShapeEntity>
+  ): { x: number; y: number } | null {
+    const position = updates.transform?.position
+    if (!position) return null
+    const x = position.x - shape.transform.position.x
+    const y = position.y - shape.transform.position.y
+    return x !== 0 || y !== 0 ? { x, y } : null
+  }
+
+  /**
+   * 形状移动后所属画框的变化，没有变化时返回 null
+   */
+  private getFrameReparent(
+    shape: ShapeEntity,
+    updates: Partial<ShapeEntity>
+  ): { frameId: string | undefined } | null {
+    if (!updates.transform || this.frameMoveDepth > 0 || !canJoinFrame(shape)) return null
+    const moved = { ...shape, ...updates } as ShapeEntity
+    const frame = findFrameAt(this.shapeService.getAllShapeEntities(), getShapeWorldCenter(moved))
+    return frame?.id === getParentFrameId(shape) ? null : { frameId: frame?.id }
+  }
+
+  private moveFrameChildren(frame: IFrameEntity, delta: { x: number; y: number }): void {
+    this.frameMoveDepth++
+    try {
+      for (const childId of frame.childrenIds) {
+        const child = this.shapeService.getShapeEntity(childId)
+        if (!child) continue
+        const { position } = child.transform
+        this.updateShape(childId, {
+          transform: {
+            ...child.transform,
+            position: { x: position.x + delta.x, y: position.y + delta.y },
+          },
+        })
+      }
+    } finally {
+      this.frameMoveDepth--
+    }
+  }
+
+  /**
+   * 修改形状所属画框，同步画框的 childrenIds 与形状的 metadata.frameId；子形状绘制在画框之上
+   */
+  private setParentFrame(shapeId: string, frameId: string | undefined): void {
+    const shape = this.shapeService.getShapeEntity(shapeId)
+    if (!shape) return
+
+    const previous = this.getParentFrame(shape)
+    if (previous) {
+      this.updateShape(previous.id, {
+        childrenIds: previous.childrenIds.filter((id) => id !== shapeId),
+      } as Partial<IFrameEntity>)
+    }
+
+    const { frameId: _frameId, ...metadata } = (shape.metadata ?? {}) as Record<string, unknown>
+    const frame = frameId ? this.shapeService.getShapeEntity(frameId) : undefined
+    if (frame?.type !== 'frame') {
+      this.updateShape(shapeId, { metadata })
+      return
+    }
+    this.updateShape(frame.id, {
+      childrenIds: [...frame.childrenIds, shapeId],
+    } as Partial<IFrameEntity>)
+    this.updateShape(shapeId, {
+      metadata: { ...metadata, frameId: frame.id },
+      ...(shape.zIndex <= frame.zIndex ? { zIndex: frame.zIndex + 1 } : {}),
+    })
+  }
+
   getRenderables(): IRenderable[] {
     return this.shapeService.getRenderables()
   }
 
+  /**
+   * 命中测试（世界坐标），容差以屏幕像素配置，按当前缩放换算
+   */
   hitTest(x: number, y: number): string | null {
-    return this.shapeService.hitTest(x, y)
+    const zoom = this.getViewportState()?.zoom || 1
+    return this.shapeService.hitTest(x, y, this.hitTolerance / zoom)
+  }
+
+  setHitTolerance(pixels: number): void {
+    this.hitTolerance = Math.max(0, pixels)
+  }
+
+  getHitTolerance(): number {
+    return this.hitTolerance
   }
 
   // === 选择管理 ===
@@ -303,6 +643,7 @@ export class CanvasManager implements ICanvasManager {
       addShape: (shape) => this.addShape(shape),
       clearSelection: () => this.clearSelection(),
       selectShape: (id) => this.selectShape(id),
+      withBatch: (description, run) => this.withBatch(description, run),
     }
   }
 
@@ -336,34 +677,69 @@ export class CanvasManager implements ICanvasManager {
     this.emit('history:redone')
   }
 
+  goToHistory(index: number): void {
+    const previous = this.historyService.getCurrentIndex()
+    this.historyService.goTo(index)
+    this.syncState()
+    const current = this.historyService.getCurrentIndex()
+    if (current !== previous) this.emit(current < previous ? 'history:undone' : 'history:redone')
+  }
+
+  serializeHistory(): ISerializedHistory {
+    return this.historyService.serialize()
+  }
+
+  restoreHistory(history: ISerializedHistory): boolean {
+    const restored = this.historyService.restore(
+      history,
+      createShapeCommandContext(this.shapeService)
+    )
+    this.syncState()
+    return restored
+  }
+
+  async setHistoryStore(store: IHistoryStore | null): Promise<boolean> {
+    this.historyService.setStore(store)
+    const restored = await this.historyService.loadFromStore(
+      createShapeCommandContext(this.shapeService)
+    )
+    this.syncState()
+    return restored
+  }
+
   // === Z轴管理 (委托给 mixin) ===
 
   private get zIndexDeps(): ZIndexMixin.IZIndexDeps {
     return {
-      shapeService: this.shapeService,
+      // 层级变更经 updateShape 记录到历史
+      shapeService: {
+        getShapeEntity: (id) => this.shapeService.getShapeEntity(id),
+        getAllShapeEntities: () => this.shapeService.getAllShapeEntities(),
+        updateShape: (id, updates) => this.updateShape(id, updates as Partial<ShapeEntity>),
+      },
       zIndexService: this.zIndexService,
       logService: this.logService,
     }
   }
 
   bringToFront(shapeIds: string[]): void {
-    ZIndexMixin.bringToFront(this.zIndexDeps, shapeIds)
+    this.withBatch('Bring to front', () => ZIndexMixin.bringToFront(this.zIndexDeps, shapeIds))
   }
 
   sendToBack(shapeIds: string[]): void {
-    ZIndexMixin.sendToBack(this.zIndexDeps, shapeIds)
+    this.withBatch('Send to back', () => ZIndexMixin.sendToBack(this.zIndexDeps, shapeIds))
   }
 
   bringForward(shapeIds: string[]): void {
-    ZIndexMixin.bringForward(this.zIndexDeps, shapeIds)
+    this.withBatch('Bring forward', () => ZIndexMixin.bringForward(this.zIndexDeps, shapeIds))
   }
 
   sendBackward(shapeIds: string[]): void {
-    ZIndexMixin.sendBackward(this.zIndexDeps, shapeIds)
+    this.withBatch('Send backward', () => ZIndexMixin.sendBackward(this.zIndexDeps, shapeIds))
   }
 
   setZIndex(shapeIds: string[], zIndex: number): void {
-    ZIndexMixin.setZIndex(this.zIndexDeps, shapeIds, zIndex)
+    this.withBatch('Reorder', () => ZIndexMixin.setZIndex(this.zIndexDeps, shapeIds, zIndex))
   }
 
   getShapesByZOrder(): IShapeEntity[] {
@@ -488,10 +864,12 @@ export class CanvasManager implements ICanvasManager {
       { x: bounds.x, y: bounds.y },
       { width: bounds.width, height: bounds.height }
     )
-    this.addShape(group)
-    shapes.forEach((shape) => {
-      this.updateShape(shape.id, {
-        metadata: { ...(shape.metadata ?? {}), groupId: group.id },
+    this.withBatch('Group', () => {
+      this.addShape(group)
+      shapes.forEach((shape) => {
+        this.updateShape(shape.id, {
+          metadata: { ...(shape.metadata ?? {}), groupId: group.id },
+        })
       })
     })
     this.clearSelection()
@@ -503,21 +881,31 @@ export class CanvasManager implements ICanvasManager {
     const groups = this.getSelectedShapes().filter(
       (shape) => shape.type === 'group'
     ) as IGroupEntity[]
-    groups.forEach((group) => {
-      group.childrenIds.forEach((id) => {
-        const child = this.shapeService.getShapeEntity(id)
-        if (!child) return
-        const metadata = { ...(child.metadata ?? {}) }
-        const { groupId: _groupId, ...rest } = metadata as Record<string, unknown>
-        this.updateShape(id, { metadata: rest })
+    if (groups.length === 0) return
+    this.withBatch('Ungroup', () => {
+      groups.forEach((group) => {
+        group.childrenIds.forEach((id) => {
+          const child = this.shapeService.getShapeEntity(id)
+          if (!child) return
+          const metadata = { ...(child.metadata ?? {}) }
+          const { groupId: _groupId, ...rest } = metadata as Record<string, unknown>
+          this.updateShape(id, { metadata: rest })
+        })
+        this.removeShape(group.id)
       })
-      this.removeShape(group.id)
     })
   }
 
   alignSelectedShapes(mode: 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom'): void {
     const shapes = this.getSelectedShapes() as unknown as ShapeEntity[]
     if (shapes.length < 2) return
+    this.withBatch(`Align ${mode}`, () => this.alignShapes(shapes, mode))
+  }
+
+  private alignShapes(
+    shapes: ShapeEntity[],
+    mode: 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom'
+  ): void {
     const bounds = this.getBoundsFromShapes(shapes)
     shapes.forEach((shape) => {
       const shapeBounds = this.getShapeBounds(shape)
@@ -546,6 +934,10 @@ export class CanvasManager implements ICanvasManager {
   distributeSelectedShapes(mode: 'horizontal' | 'vertical'): void {
     const shapes = this.getSelectedShapes() as unknown as ShapeEntity[]
     if (shapes.length < 3) return
+    this.withBatch(`Distribute ${mode}ly`, () => this.distributeShapes(shapes, mode))
+  }
+
+  private distributeShapes(shapes: ShapeEntity[], mode: 'horizontal' | 'vertical'): void {
     const bounds = this.getBoundsFromShapes(shapes)
     const sorted = [...shapes].sort((a, b) => {
       const ab = this.getShapeBounds(a)
@@ -591,7 +983,11 @@ export class CanvasManager implements ICanvasManager {
     }
   }
 
-  private applyGroupUpdates(group: IGroupEntity, updates: Partial<IGroupEntity>): void {
+  private applyGroupUpdates(
+    group: IGroupEntity,
+    updates: Partial<IGroupEntity>,
+    description: string
+  ): void {
     const originalPosition = group.transform.position
     const newPosition = updates.transform?.position || originalPosition
     const deltaX = newPosition.x - originalPosition.x
@@ -646,7 +1042,7 @@ export class CanvasManager implements ICanvasManager {
         }))
         childUpdates.points = points
       }
-      this.shapeService.updateShape(childId, childUpdates)
+      this.recordShapeChange(child, childUpdates, description)
     })
   }
 
@@ -725,6 +1121,16 @@ export class CanvasManager implements ICanvasManager {
           height: group.size.height,
         }
       }
+      case 'diamond':
+      case 'link':
+      case 'frame': {
+        const { size } = shape as IDiamondEntity | ILinkEntity | IFrameEntity
+        return { x: pos.x, y: pos.y, width: size.width, height: size.height }
+      }
+      case 'sticky': {
+        const size = getStickySize(shape as IStickyEntity)
+        return { x: pos.x, y: pos.y, width: size.width, height: size.height }
+      }
       case 'circle': {
         const circle = shape as ICircleEntity
         return {
@@ -764,13 +1170,25 @@ export class CanvasManager implements ICanvasManager {
         const r = Math.max(star.outerRadius, star.innerRadius)
         return { x: pos.x - r, y: pos.y - r, width: r * 2, height: r * 2 }
       }
+      case 'freehand': {
+        const bounds = getFreehandBounds(shape)
+        return { ...bounds, x: pos.x + bounds.x, y: pos.y + bounds.y }
+      }
+      case 'connector': {
+        const bounds = getConnectorBounds(shape)
+        return { ...bounds, x: pos.x + bounds.x, y: pos.y + bounds.y }
+      }
       case 'text': {
-        const text = shape as ITextEntity
-        const width = text.content.length * text.fontSize * 0.6
-        return { x: pos.x, y: pos.y, width, height: text.fontSize }
+        const bounds = getTextBounds(shape as ITextEntity)
+        return { ...bounds, x: pos.x + bounds.x, y: pos.y + bounds.y }
       }
-      default:
+      default: {
+        if (isCustomShape(shape)) {
+          const bounds = shapeTypeRegistry.getLocalBounds(shape)
+          return { ...bounds, x: pos.x + bounds.x, y: pos.y + bounds.y }
+        }
         return { x: pos.x, y: pos.y, width: 0, height: 0 }
+      }
     }
   }
 
@@ -786,10 +1204,18 @@ export class CanvasManager implements ICanvasManager {
       history: {
         canUndo: this.historyService.canUndo(),
         canRedo: this.historyService.canRedo(),
+        labels: this.getHistoryLabels(),
+        currentIndex: this.historyService.getCurrentIndex(),
       },
     }
   }
 
+  private getHistoryLabels(): string[] {
+    return this.historyService
+      .getHistory()
+      .map((command) => command.description || 'Unknown command')
+  }
+
   clear(): void {
     this.shapeService.clear()
     this.selectionService.clearSelection()
@@ -801,6 +1227,8 @@ export class CanvasManager implements ICanvasManager {
   }
 
   dispose(): void {
+    this.unsubscribeShapeTypes?.()
+    this.unsubscribeShapeTypes = undefined
     if (this.unsubscribeHistory) {
       this.unsubscribeHistory()
       this.unsubscribeHistory = undefined
@@ -809,3 +1237,16 @@ export class CanvasManager implements ICanvasManager {
     this.logService.info('CanvasManager disposed')
   }
 }
+
+/**
+ * 属性值是否相同：对象与数组按结构比较
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  try {
+    return JSON.stringify(a) === JSON.stringify(b)
+  } catch {
+    return false
+  }
+}
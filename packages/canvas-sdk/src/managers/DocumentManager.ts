@@ -0,0 +1,521 @@
+/**
+ * 文档管理器 - 负责 .skycanvas 原生文档的保存与加载
+ * 协调 CanvasManager、SceneManager 与渲染视口，完整还原场景状态
+ */
+
+import { createDecorator } from '../di'
+import {
+  createDocumentMigrations,
+  createSerializedLayer,
+  DocumentFormatError,
+  decodeImageData,
+  encodeImageData,
+  type IDocumentAsset,
+  type IDocumentMigration,
+  type ISerializedLayer,
+  type ISkyCanvasDocument,
+  type SerializedShapeEntity,
+  SKY_CANVAS_DOCUMENT_FORMAT,
+  SKY_CANVAS_DOCUMENT_VERSION,
+  validateDocument,
+} from '../models/document/SkyCanvasDocument'
+import { BLEND_MODES } from '../models/entities/Layer'
+import {
+  type CustomShapeType,
+  type ICustomShapeEntity,
+  type IImageEntity,
+  isCustomShape,
+  type ShapeEntity,
+} from '../models/entities/Shape'
+import { shapeTypeRegistry } from '../models/entities/ShapeTypeRegistry'
+import {
+  ICanvasRenderingService,
+  IExportService,
+  IHistoryService,
+  ILogService,
+  IShapeService,
+} from '../services'
+import { ICanvasManager } from './CanvasManager'
+import { type ILayerInfo, ISceneManager } from './SceneManager'
+import { ITimelineManager } from './TimelineManager'
+
+/**
+ * 文档保存选项
+ */
+export interface IDocumentSaveOptions {
+  /** 是否内嵌图片资源（blob/http 地址转为 data URL），默认 true */
+  embedAssets?: boolean
+  /** 是否保存撤销栈，默认 true */
+  includeHistory?: boolean
+  /** 附加到文档的元数据 */
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * 文档加载结果
+ */
+export interface IDocumentLoadResult {
+  success: boolean
+  document?: ISkyCanvasDocument
+  /** 文档原始版本，未迁移时为 null */
+  migratedFrom: number | null
+  shapeCount: number
+  /** 文档中的撤销栈是否已完整恢复，文档未保存撤销栈时为 false */
+  historyRestored: boolean
+  errors: string[]
+}
+
+/**
+ * 文档 SVG 导出选项
+ */
+export interface IDocumentSVGExportOptions {
+  /** 仅导出当前选中的形状 */
+  selectionOnly?: boolean
+  /** 内容四周留白 */
+  padding?: number
+  /** 背景色，默认使用场景背景色 */
+  backgroundColor?: string
+}
+
+/**
+ * 文档管理器接口
+ */
+export interface IDocumentManager {
+  readonly _serviceBrand: undefined
+
+  // 保存
+  createDocument(options?: IDocumentSaveOptions): Promise<ISkyCanvasDocument>
+  save(options?: IDocumentSaveOptions): Promise<string>
+  /** 序列化场景设置与图层，不含形状 */
+  createSceneSnapshot(): Pick<ISkyCanvasDocument, 'scene' | 'layers'>
+  /** 序列化单个形状，图片放入以形状 id 命名的独立资源 */
+  serializeShapeEntity(
+    shape: ShapeEntity,
+    options?: IDocumentSaveOptions
+  ): Promise<{ shape: SerializedShapeEntity; asset?: IDocumentAsset }>
+
+  // 加载，可传入 JSON 文本、已解析的对象或内存中的文档快照
+  load(source: string | ISkyCanvasDocument | Record<string, unknown>): Promise<IDocumentLoadResult>
+  loadFile(file: File): Promise<IDocumentLoadResult>
+
+  // 导出
+  exportToSVG(options?: IDocumentSVGExportOptions): string
+
+  // 格式迁移
+  registerMigration(migration: IDocumentMigration): () => void
+
+  /** 文档保存或整体导出后通知，返回取消订阅函数 */
+  onDidSave(listener: () => void): () => void
+
+  dispose(): void
+}
+
+/**
+ * 文档管理器服务标识符
+ */
+export const IDocumentManager = createDecorator<IDocumentManager>('DocumentManager')
+
+/**
+ * 文档管理器实现
+ */
+export class DocumentManager implements IDocumentManager {
+  readonly _serviceBrand: undefined
+
+  private saveListeners = new Set<() => void>()
+  /** 注册的迁移只作用于当前实例 */
+  private migrations = createDocumentMigrations()
+  /** 加载时类型尚未注册、data 仍是 JSON 形式的自定义形状，类型注册后再恢复 */
+  private unresolvedShapes = new Map<string, CustomShapeType>()
+  private disposeShapeTypeListener: () => void
+
+  constructor(
+    @ICanvasManager private canvasManager: ICanvasManager,
+    @ISceneManager private sceneManager: ISceneManager,
+    @IShapeService private shapeService: IShapeService,
+    @IHistoryService private historyService: IHistoryService,
+    @ICanvasRenderingService private renderingService: ICanvasRenderingService,
+    @ITimelineManager private timelineManager: ITimelineManager,
+    @IExportService private exportService: IExportService,
+    @ILogService private logService: ILogService
+  ) {
+    this.disposeShapeTypeListener = shapeTypeRegistry.onDidChange((type) =>
+      this.resolveShapeType(type)
+    )
+    this.logService.info('DocumentManager initialized')
+  }
+
+  // === 保存 ===
+
+  async createDocument(options?: IDocumentSaveOptions): Promise<ISkyCanvasDocument> {
+    const embedAssets = options?.embedAssets !== false
+    const assets: Record<string, IDocumentAsset> = {}
+    const assetIdsBySrc = new Map<string, string>()
+
+    const shapes: SerializedShapeEntity[] = []
+    for (const shape of this.shapeService.getAllShapeEntities()) {
+      const serialized = this.serializeShape(shape)
+      if (shape.type === 'image') {
+        const asset = await this.createImageAsset(shape, assetIdsBySrc, assets, embedAssets)
+        serialized.assetId = asset.id
+      }
+      shapes.push(serialized)
+    }
+
+    return {
+      format: SKY_CANVAS_DOCUMENT_FORMAT,
+      version: SKY_CANVAS_DOCUMENT_VERSION,
+      savedAt: new Date().toISOString(),
+      ...this.createSceneSnapshot(),
+      shapes,
+      assets,
+      history:
+        options?.includeHistory === false ? undefined : this.canvasManager.serializeHistory(),
+      timeline: this.timelineManager.getSettings(),
+      metadata: options?.metadata,
+    }
+  }
+
+  createSceneSnapshot(): Pick<ISkyCanvasDocument, 'scene' | 'layers'> {
+    const sceneState = this.sceneManager.getSceneState()
+    const viewport = this.renderingService.getRenderEngine()?.getViewport()
+
+    return {
+      scene: {
+        backgroundColor: sceneState.backgroundColor,
+        gridEnabled: sceneState.gridEnabled,
+        gridSize: sceneState.gridSize,
+        guidesEnabled: sceneState.guidesEnabled,
+        activeLayerId: sceneState.activeLayerId,
+        guides: sceneState.guides
+          .filter((guide) => !guide.temporary)
+          .map((guide) => ({ ...guide })),
+        viewport: viewport ? { x: viewport.x, y: viewport.y, zoom: viewport.zoom } : undefined,
+      },
+      layers: sceneState.layers.map((layer) => this.serializeLayer(layer, sceneState.layers)),
+    }
+  }
+
+  async serializeShapeEntity(
+    shape: ShapeEntity,
+    options?: IDocumentSaveOptions
+  ): Promise<{ shape: SerializedShapeEntity; asset?: IDocumentAsset }> {
+    const serialized = this.serializeShape(shape)
+    if (shape.type !== 'image') return { shape: serialized }
+
+    const asset = await this.createImageAsset(shape, new Map(), {}, options?.embedAssets !== false)
+    asset.id = `asset_${shape.id}`
+    serialized.assetId = asset.id
+    return { shape: serialized, asset }
+  }
+
+  async save(options?: IDocumentSaveOptions): Promise<string> {
+    const document = await this.createDocument(options)
+    this.logService.debug(
+      `Document saved: ${document.shapes.length} shapes, ${document.layers.length} layers`
+    )
+    const json = JSON.stringify(document)
+    this.notifySaved()
+    return json
+  }
+
+  // === 加载 ===
+
+  async load(
+    source: string | ISkyCanvasDocument | Record<string, unknown>
+  ): Promise<IDocumentLoadResult> {
+    let document: ISkyCanvasDocument
+    let migratedFrom: number | null
+
+    try {
+      const raw = typeof source === 'string' ? (JSON.parse(source) as unknown) : source
+      if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new DocumentFormatError('Document root must be an object')
+      }
+      const migrated = this.migrations.migrate(raw as Record<string, unknown>)
+      document = validateDocument(migrated.document)
+      migratedFrom = migrated.migratedFrom
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.logService.warn(`Failed to load document: ${message}`)
+      return {
+        success: false,
+        migratedFrom: null,
+        shapeCount: 0,
+        historyRestored: false,
+        errors: [message],
+      }
+    }
+
+    const errors: string[] = []
+    const shapes: ShapeEntity[] = []
+    this.unresolvedShapes.clear()
+    for (const data of document.shapes) {
+      try {
+        shapes.push(this.deserializeShape(data, document.assets))
+      } catch (error) {
+        errors.push(`Error restoring shape ${data.id}: ${error}`)
+      }
+    }
+
+    // 先停止播放，避免预览画面停留在旧文档的形状上
+    this.timelineManager.restoreSettings(document.timeline)
+    this.canvasManager.clear()
+    for (const shape of shapes.slice().sort((a, b) => a.zIndex - b.zIndex)) {
+      this.canvasManager.addShape(shape)
+    }
+    this.historyService.clear()
+    // 撤销栈对应保存时的形状，只有形状全部恢复时才恢复撤销栈
+    const historyRestored =
+      !!document.history &&
+      errors.length === 0 &&
+      this.canvasManager.restoreHistory(document.history)
+
+    this.sceneManager.restoreSceneState({
+      layers: document.layers.map((layer) => this.deserializeLayer(layer)),
+      activeLayerId: document.scene.activeLayerId,
+      backgroundColor: document.scene.backgroundColor,
+      gridEnabled: document.scene.gridEnabled,
+      gridSize: document.scene.gridSize,
+      guidesEnabled: document.scene.guidesEnabled,
+      guides: Array.isArray(document.scene.guides) ? document.scene.guides : [],
+    })
+
+    const viewport = document.scene.viewport
+    if (viewport) {
+      this.renderingService.getRenderEngine()?.setViewport(viewport)
+    }
+
+    this.logService.info(
+      `Document loaded: ${shapes.length} shapes${migratedFrom !== null ? ` (migrated from v${migratedFrom})` : ''}`
+    )
+
+    return {
+      success: errors.length === 0,
+      document,
+      migratedFrom,
+      shapeCount: shapes.length,
+      historyRestored,
+      errors,
+    }
+  }
+
+  async loadFile(file: File): Promise<IDocumentLoadResult> {
+    try {
+      const content = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsText(file)
+      })
+      return this.load(content)
+    } catch (error) {
+      return {
+        success: false,
+        migratedFrom: null,
+        shapeCount: 0,
+        historyRestored: false,
+        errors: [`File reading error: ${error}`],
+      }
+    }
+  }
+
+  // === 导出 ===
+
+  exportToSVG(options?: IDocumentSVGExportOptions): string {
+    const sceneState = this.sceneManager.getSceneState()
+    const selectedIds = options?.selectionOnly
+      ? this.canvasManager.getSelectedShapes().map((shape) => shape.id)
+      : undefined
+
+    const svg = this.exportService.exportToSVG(this.shapeService.getAllShapeEntities(), {
+      padding: options?.padding,
+      backgroundColor: options?.backgroundColor ?? sceneState.backgroundColor,
+      layers: sceneState.layers,
+      shapeIds: selectedIds,
+    })
+    // 只导出选中内容时不算保存了整个画布
+    if (!selectedIds) this.notifySaved()
+    return svg
+  }
+
+  registerMigration(migration: IDocumentMigration): () => void {
+    return this.migrations.register(migration)
+  }
+
+  onDidSave(listener: () => void): () => void {
+    this.saveListeners.add(listener)
+    return () => this.saveListeners.delete(listener)
+  }
+
+  dispose(): void {
+    this.saveListeners.clear()
+    this.disposeShapeTypeListener()
+    this.unresolvedShapes.clear()
+    this.logService.info('DocumentManager disposed')
+  }
+
+  // === 私有方法 ===
+
+  private notifySaved(): void {
+    for (const listener of this.saveListeners) {
+      try {
+        listener()
+      } catch (error) {
+        this.logService.warn('Document save listener failed', error)
+      }
+    }
+  }
+
+  private serializeShape(shape: ShapeEntity): SerializedShapeEntity {
+    const { imageData: _imageData, ...rest } = shape as ShapeEntity & { imageData?: unknown }
+    // 未注册的自定义类型原样保存，没有插件时打开再保存不丢失数据
+    const data = isCustomShape(shape) ? { data: this.serializeCustomData(shape) } : {}
+    return JSON.parse(JSON.stringify({ ...rest, ...data })) as SerializedShapeEntity
+  }
+
+  /**
+   * 插件的 toJSON 出错时保存原始 data，不让一个形状导致整个文档无法保存
+   */
+  private serializeCustomData(shape: ICustomShapeEntity): Record<string, unknown> {
+    if (this.unresolvedShapes.has(shape.id)) return shape.data
+    try {
+      return shapeTypeRegistry.serializeData(shape)
+    } catch (error) {
+      this.logService.warn(`Failed to serialize data of shape ${shape.id} (${shape.type})`, error)
+      return shape.data
+    }
+  }
+
+  /**
+   * 类型注册后用 fromJSON 恢复加载时未能恢复的形状数据，不记录撤销
+   */
+  private resolveShapeType(type: CustomShapeType): void {
+    if (!shapeTypeRegistry.has(type)) return
+    const updated: Array<{ id: string; updates: Partial<ShapeEntity> }> = []
+    for (const [id, shapeType] of this.unresolvedShapes) {
+      if (shapeType !== type) continue
+      this.unresolvedShapes.delete(id)
+      const shape = this.shapeService.getShapeEntity(id)
+      if (!shape || !isCustomShape(shape)) continue
+      try {
+        updated.push({ id, updates: { data: shapeTypeRegistry.deserializeData(type, shape.data) } })
+      } catch (error) {
+        this.logService.warn(`Failed to restore data of shape ${id} (${type})`, error)
+      }
+    }
+    if (updated.length > 0) this.canvasManager.applyExternalChanges({ updated })
+  }
+
+  private deserializeShape(
+    data: SerializedShapeEntity,
+    assets: Record<string, IDocumentAsset>
+  ): ShapeEntity {
+    const { assetId, ...rest } = JSON.parse(JSON.stringify(data)) as SerializedShapeEntity
+    const shape = {
+      ...rest,
+      createdAt: new Date(data.createdAt),
+      updatedAt: new Date(data.updatedAt),
+    } as ShapeEntity
+
+    if (isCustomShape(shape)) {
+      shape.data = shapeTypeRegistry.deserializeData(shape.type, shape.data ?? {})
+      if (!shapeTypeRegistry.has(shape.type)) this.unresolvedShapes.set(shape.id, shape.type)
+    }
+
+    if (shape.type === 'image' && assetId) {
+      const asset = assets[assetId]
+      if (!asset) {
+        throw new DocumentFormatError(`Missing asset ${assetId}`)
+      }
+      const image = shape as IImageEntity
+      image.src = asset.dataUrl ?? asset.src ?? image.src ?? ''
+      if (asset.imageData) {
+        image.imageData = decodeImageData(asset.imageData)
+      }
+    }
+
+    return shape
+  }
+
+  private async createImageAsset(
+    shape: IImageEntity,
+    assetIdsBySrc: Map<string, string>,
+    assets: Record<string, IDocumentAsset>,
+    embed: boolean
+  ): Promise<IDocumentAsset> {
+    const existingId = shape.imageData ? undefined : assetIdsBySrc.get(shape.src)
+    if (existingId) {
+      return assets[existingId]
+    }
+
+    const asset: IDocumentAsset = { id: `asset_${Object.keys(assets).length + 1}`, kind: 'image' }
+    if (shape.src.startsWith('data:')) {
+      asset.dataUrl = shape.src
+    } else if (embed && shape.src) {
+      const dataUrl = await this.fetchAsDataUrl(shape.src)
+      if (dataUrl) {
+        asset.dataUrl = dataUrl
+      } else {
+        asset.src = shape.src
+      }
+    } else if (shape.src) {
+      asset.src = shape.src
+    }
+    if (shape.imageData) {
+      asset.imageData = encodeImageData(shape.imageData)
+    } else {
+      assetIdsBySrc.set(shape.src, asset.id)
+    }
+
+    assets[asset.id] = asset
+    return asset
+  }
+
+  private async fetchAsDataUrl(src: string): Promise<string | null> {
+    if (typeof fetch === 'undefined' || typeof FileReader === 'undefined') return null
+    try {
+      const response = await fetch(src)
+      if (!response.ok) return null
+      const blob = await response.blob()
+      return await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsDataURL(blob)
+      })
+    } catch (error) {
+      this.logService.warn(`Failed to embed image asset ${src}`, error)
+      return null
+    }
+  }
+
+  private serializeLayer(layer: ILayerInfo, layers: ILayerInfo[]): ISerializedLayer {
+    return {
+      ...createSerializedLayer(layer.id, layer.name),
+      visible: layer.visible,
+      locked: layer.locked,
+      opacity: layer.opacity,
+      zIndex: layer.zIndex,
+      blendMode: layer.blendMode,
+      shapes: [...layer.shapes],
+      parentId: layer.parentId,
+      childrenIds: layers.filter((child) => child.parentId === layer.id).map((child) => child.id),
+      isGroup: layer.isGroup === true,
+    }
+  }
+
+  private deserializeLayer(layer: ISerializedLayer): ILayerInfo {
+    return {
+      id: layer.id,
+      name: layer.name,
+      visible: layer.visible !== false,
+      locked: layer.locked === true,
+      opacity: typeof layer.opacity === 'number' ? layer.opacity : 1,
+      zIndex: typeof layer.zIndex === 'number' ? layer.zIndex : 0,
+      blendMode: BLEND_MODES.includes(layer.blendMode) ? layer.blendMode : 'normal',
+      shapes: Array.isArray(layer.shapes) ? [...layer.shapes] : [],
+      parentId: typeof layer.parentId === 'string' ? layer.parentId : undefined,
+      isGroup: layer.isGroup === true,
+    }
+  }
+}
@@ -5,6 +5,7 @@
 import type { IRenderable } from '@sky-canvas/render-engine'
 import { createDecorator } from '../di'
 import type { IShapeEntity, ShapeEntity } from '../models/entities/Shape'
+import type { IHistoryStore, ISerializedHistory } from '../services/history/historyStore'
 
 export interface CanvasState {
   shapeCount: number
@@ -12,6 +13,19 @@ export interface CanvasState {
   canUndo: boolean
   canRedo: boolean
   hasClipboardData: boolean
+  /** 历史记录标签，按执行顺序 */
+  historyLabels: string[]
+  /** 当前所在的历史位置，-1 表示已全部撤销 */
+  historyIndex: number
+}
+
+/**
+ * 外部来源的形状变更
+ */
+export interface IExternalShapeChanges {
+  added?: ShapeEntity[]
+  updated?: Array<{ id: string; updates: Partial<ShapeEntity> }>
+  removed?: string[]
 }
 
 /**
@@ -25,8 +39,15 @@ export interface ICanvasManager {
   addShape(entity: ShapeEntity): void
   removeShape(id: string): void
   updateShape(id: string, updates: Partial<ShapeEntity>): void
+  /** 开始批量记录，期间的形状变更在 endBatch 时合并为一次撤销 */
+  beginBatch(description?: string): void
+  endBatch(): void
+  /** 应用外部来源（如协作同步）的形状变更：不记录历史，也不联动画框与连接线 */
+  applyExternalChanges(changes: IExternalShapeChanges): void
   getRenderables(): IRenderable[]
   hitTest(x: number, y: number): string | null
+  setHitTolerance(pixels: number): void
+  getHitTolerance(): number
 
   // 选择管理
   selectShape(id: string): void
@@ -43,6 +64,16 @@ export interface ICanvasManager {
   // 历史操作
   undo(): void
   redo(): void
+  /** 撤销或重做到指定的历史位置 */
+  goToHistory(index: number): void
+  /** 结束当前合并窗口，之后的变更记为新的一步 */
+  stopHistoryMerging(): void
+  /** 序列化撤销栈，可保存到文档或存储中 */
+  serializeHistory(): ISerializedHistory
+  /** 恢复撤销栈，画布内容需与序列化时一致 */
+  restoreHistory(history: ISerializedHistory): boolean
+  /** 设置历史存储并从中恢复撤销栈，之后的变更自动保存；传入 null 停止保存 */
+  setHistoryStore(store: IHistoryStore | null): Promise<boolean>
 
   // Z轴管理
   bringToFront(shapeIds: string[]): void
@@ -97,6 +128,10 @@ export interface CanvasStats {
   history: {
     canUndo: boolean
     canRedo: boolean
+    /** 历史记录标签，按执行顺序 */
+    labels: string[]
+    /** 当前所在的历史位置，-1 表示已全部撤销 */
+    currentIndex: number
   }
 }
 
@@ -6,7 +6,10 @@
 import type { IRenderable } from '@sky-canvas/render-engine'
 import { subscribe } from 'valtio/vanilla'
 import { createDecorator } from '../di'
+import type { BlendMode } from '../models/entities/Layer'
 import { ICanvasRenderingService, IConfigurationService, ILogService } from '../services'
+import { GuideOverlayView } from '../views/GuideOverlayView'
+import type { IGuide } from '../views/GuideView'
 import { ICanvasManager } from './CanvasManager'
 
 /**
@@ -19,7 +22,10 @@ export interface ILayerInfo {
   locked: boolean
   opacity: number
   zIndex: number
+  blendMode: BlendMode
   shapes: string[] // 形状ID列表
+  parentId?: string // 所属图层组ID
+  isGroup?: boolean
 }
 
 /**
@@ -32,6 +38,7 @@ export interface ISceneManagerState {
   gridEnabled: boolean
   gridSize: number
   guidesEnabled: boolean
+  guides: IGuide[]
 }
 
 /**
@@ -42,11 +49,19 @@ export interface ISceneManager {
 
   // 图层管理
   createLayer(name: string): ILayerInfo
+  createLayerGroup(name: string, layerIds?: string[]): ILayerInfo
+  setLayerParent(layerId: string, parentId: string | null): boolean
   removeLayer(layerId: string): boolean
   setActiveLayer(layerId: string): boolean
   getActiveLayer(): ILayerInfo | null
   getAllLayers(): ILayerInfo[]
   updateLayer(layerId: string, updates: Partial<ILayerInfo>): boolean
+  /** 用外部来源（如协作同步）的图层整体替换当前图层 */
+  setLayers(layers: ILayerInfo[]): void
+  /** 新建图层 id 的前缀，多人协作时避免不同客户端生成相同的 id */
+  setLayerIdPrefix(prefix: string): void
+  /** 图层或图层中的形状变化时通知，返回取消订阅函数 */
+  onDidChangeLayers(listener: () => void): () => void
 
   // 形状到图层的映射
   addShapeToLayer(shapeId: string, layerId?: string): boolean
@@ -60,12 +75,18 @@ export interface ISceneManager {
   setGridSize(size: number): void
   toggleGuides(): void
 
+  // 辅助线
+  addGuide(guide: IGuide): void
+  removeGuide(guideId: string): boolean
+  getGuides(): IGuide[]
+
   // 渲染控制
   render(): void
   refreshScene(): void
 
   // 状态查询
   getSceneState(): ISceneManagerState
+  restoreSceneState(state: ISceneManagerState): void
   clear(): void
   dispose(): void
 }
@@ -83,8 +104,24 @@ export class SceneManager implements ISceneManager {
 
   private state: ISceneManagerState
   private nextLayerId = 1
+  private layerIdPrefix = ''
+  private layerListeners = new Set<() => void>()
   private unsubscribe?: () => void
   private trackedShapeIds = new Set<string>()
+  private readonly guideOverlay = new GuideOverlayView({
+    getGuides: () => (this.state.guidesEnabled ? this.state.guides : []),
+    getVisibleBounds: () => {
+      const viewport = this.renderingService.getRenderEngine()?.getViewport()
+      if (!viewport) return { x: 0, y: 0, width: 0, height: 0 }
+      return {
+        x: viewport.x,
+        y: viewport.y,
+        width: viewport.width / viewport.zoom,
+        height: viewport.height / viewport.zoom,
+      }
+    },
+    getZoom: () => this.renderingService.getRenderEngine()?.getViewport().zoom ?? 1,
+  })
 
   constructor(
     @ICanvasManager private canvasManager: ICanvasManager,
@@ -99,11 +136,13 @@ export class SceneManager implements ISceneManager {
       gridEnabled: this.configService.get('scene.gridEnabled') || false,
       gridSize: this.configService.get('scene.gridSize') || 20,
       guidesEnabled: this.configService.get('scene.guidesEnabled') || false,
+      guides: [],
     }
 
     this.createDefaultLayer()
     this.setupCanvasManagerSubscription()
     this.syncShapesWithLayers()
+    this.renderingService.addOverlay(this.guideOverlay)
     this.logService.info('SceneManager initialized')
   }
 
@@ -118,6 +157,8 @@ export class SceneManager implements ISceneManager {
     const currentShapeIds = new Set<string>()
     const renderableMap = new Map<string, IRenderable>()
 
+    let changed = false
+
     renderables.forEach((renderable) => {
       const shapeId = renderable.id
       if (shapeId) {
@@ -125,7 +166,9 @@ export class SceneManager implements ISceneManager {
         renderableMap.set(shapeId, renderable)
 
         if (!this.trackedShapeIds.has(shapeId)) {
-          this.addShapeToLayer(shapeId)
+          // 已由外部来源放入图层的形状保持原位
+          if (!this.getShapeLayer(shapeId)) this.placeShape(shapeId)
+          changed = true
           this.renderingService.addRenderable(renderable)
           this.trackedShapeIds.add(shapeId)
           this.logService.debug(`Shape ${shapeId} added to layer and rendering`)
@@ -137,23 +180,45 @@ export class SceneManager implements ISceneManager {
       (id) => !currentShapeIds.has(id)
     )
     removedShapeIds.forEach((shapeId) => {
-      this.removeShapeFromLayer(shapeId)
+      this.detachShape(shapeId)
+      changed = true
       this.renderingService.removeRenderable(shapeId)
       this.trackedShapeIds.delete(shapeId)
       this.logService.debug(`Shape ${shapeId} removed from layer and rendering`)
     })
+
+    if (changed) this.syncRenderLayers()
+  }
+
+  /**
+   * 将图层的可见性、透明度、混合模式与层级同步到渲染服务
+   */
+  private syncRenderLayers(): void {
+    this.renderingService.setLayers(
+      this.state.layers.map((layer) => ({
+        id: layer.id,
+        visible: layer.visible,
+        opacity: layer.opacity,
+        zIndex: layer.zIndex,
+        blendMode: layer.blendMode,
+        parentId: layer.parentId,
+        renderableIds: layer.shapes,
+      }))
+    )
+    for (const listener of this.layerListeners) listener()
   }
 
   // === 图层管理 ===
 
   createLayer(name: string): ILayerInfo {
     const layer: ILayerInfo = {
-      id: `layer_${this.nextLayerId++}`,
+      id: `${this.layerIdPrefix}layer_${this.nextLayerId++}`,
       name: name || `图层 ${this.nextLayerId - 1}`,
       visible: true,
       locked: false,
       opacity: 1,
       zIndex: this.state.layers.length,
+      blendMode: 'normal',
       shapes: [],
     }
 
@@ -163,11 +228,37 @@ export class SceneManager implements ISceneManager {
       this.state.activeLayerId = layer.id
     }
 
+    this.syncRenderLayers()
     this.logService.debug(`Layer created: ${layer.name} (${layer.id})`)
 
     return layer
   }
 
+  /**
+   * 创建图层组，并将指定图层移入组内
+   * 组内图层先相互合成，再按组的透明度与混合模式整体合成到下层
+   */
+  createLayerGroup(name: string, layerIds: string[] = []): ILayerInfo {
+    const group = this.createLayer(name || `图层组 ${this.nextLayerId}`)
+    group.isGroup = true
+    for (const layerId of layerIds) {
+      this.setLayerParent(layerId, group.id)
+    }
+    this.syncRenderLayers()
+    return group
+  }
+
+  /**
+   * 设置图层所属的图层组，parentId 为 null 时移到顶层
+   */
+  setLayerParent(layerId: string, parentId: string | null): boolean {
+    const layer = this.state.layers.find((l) => l.id === layerId)
+    if (!layer || !this.canSetParent(layerId, parentId)) return false
+
+    layer.parentId = parentId ?? undefined
+    this.syncRenderLayers()
+    return true
+  }
   removeLayer(layerId: string): boolean {
     if (this.state.layers.length <= 1) {
       this.logService.warn('Cannot remove last layer')
@@ -188,10 +279,16 @@ export class SceneManager implements ISceneManager {
 
     this.state.layers.splice(layerIndex, 1)
 
+    // 组内图层移到上一级
+    for (const child of this.state.layers) {
+      if (child.parentId === layerId) child.parentId = layer.parentId
+    }
+
     if (this.state.activeLayerId === layerId) {
       this.state.activeLayerId = this.state.layers.length > 0 ? this.state.layers[0].id : null
     }
 
+    this.syncRenderLayers()
     this.logService.debug(`Layer removed: ${layer.name} (${layerId})`)
 
     return true
@@ -220,43 +317,49 @@ export class SceneManager implements ISceneManager {
   updateLayer(layerId: string, updates: Partial<ILayerInfo>): boolean {
     const layer = this.state.layers.find((l) => l.id === layerId)
     if (!layer) return false
+    if ('parentId' in updates && !this.canSetParent(layerId, updates.parentId ?? null)) {
+      return false
+    }
 
     Object.assign(layer, updates)
+    this.syncRenderLayers()
 
     this.logService.debug(`Layer updated: ${layer.name} (${layerId})`)
 
     return true
   }
 
-  // === 形状到图层的映射 ===
-
-  addShapeToLayer(shapeId: string, layerId?: string): boolean {
-    const targetLayerId = layerId || this.state.activeLayerId
-    if (!targetLayerId) return false
-
-    const layer = this.state.layers.find((l) => l.id === targetLayerId)
-    if (!layer) return false
+  setLayers(layers: ILayerInfo[]): void {
+    if (layers.length === 0) return
+    this.state.layers = layers.map((layer) => ({ ...layer, shapes: [...layer.shapes] }))
+    if (!this.state.layers.some((layer) => layer.id === this.state.activeLayerId)) {
+      this.state.activeLayerId = this.state.layers[0].id
+    }
+    this.syncRenderLayers()
+  }
 
-    this.removeShapeFromLayer(shapeId)
+  setLayerIdPrefix(prefix: string): void {
+    this.layerIdPrefix = prefix
+  }
 
-    if (!layer.shapes.includes(shapeId)) {
-      layer.shapes.push(shapeId)
-      this.logService.debug(`Shape ${shapeId} added to layer ${layer.name}`)
+  onDidChangeLayers(listener: () => void): () => void {
+    this.layerListeners.add(listener)
+    return () => {
+      this.layerListeners.delete(listener)
     }
+  }
 
-    return true
+  // === 形状到图层的映射 ===
+
+  addShapeToLayer(shapeId: string, layerId?: string): boolean {
+    const added = this.placeShape(shapeId, layerId)
+    if (added) this.syncRenderLayers()
+    return added
   }
 
   removeShapeFromLayer(shapeId: string): boolean {
-    let removed = false
-    for (const layer of this.state.layers) {
-      const index = layer.shapes.indexOf(shapeId)
-      if (index !== -1) {
-        layer.shapes.splice(index, 1)
-        removed = true
-        this.logService.debug(`Shape ${shapeId} removed from layer ${layer.name}`)
-      }
-    }
+    const removed = this.detachShape(shapeId)
+    if (removed) this.syncRenderLayers()
     return removed
   }
 
@@ -264,8 +367,9 @@ export class SceneManager implements ISceneManager {
     const targetLayer = this.state.layers.find((l) => l.id === targetLayerId)
     if (!targetLayer) return false
 
-    this.removeShapeFromLayer(shapeId)
+    this.detachShape(shapeId)
     targetLayer.shapes.push(shapeId)
+    this.syncRenderLayers()
 
     this.logService.debug(`Shape ${shapeId} moved to layer ${targetLayer.name}`)
 
@@ -301,6 +405,26 @@ export class SceneManager implements ISceneManager {
   toggleGuides(): void {
     this.state.guidesEnabled = !this.state.guidesEnabled
     this.configService.set('scene.guidesEnabled', this.state.guidesEnabled)
+    this.renderingService.render()
+  }
+
+  // === 辅助线 ===
+
+  addGuide(guide: IGuide): void {
+    this.state.guides = [...this.state.guides.filter((g) => g.id !== guide.id), guide]
+    this.renderingService.render()
+  }
+
+  removeGuide(guideId: string): boolean {
+    const count = this.state.guides.length
+    this.state.guides = this.state.guides.filter((g) => g.id !== guideId)
+    if (this.state.guides.length === count) return false
+    this.renderingService.render()
+    return true
+  }
+
+  getGuides(): IGuide[] {
+    return [...this.state.guides]
   }
 
   // === 渲染控制 ===
@@ -310,6 +434,7 @@ export class SceneManager implements ISceneManager {
     renderables.forEach((renderable) => {
       this.renderingService.addRenderable(renderable)
     })
+    this.syncRenderLayers()
   }
 
   refreshScene(): void {
@@ -323,6 +448,51 @@ export class SceneManager implements ISceneManager {
     this.state.activeLayerId = defaultLayer.id
   }
 
+  private placeShape(shapeId: string, layerId?: string): boolean {
+    const targetLayerId = layerId || this.state.activeLayerId
+    if (!targetLayerId) return false
+
+    const layer = this.state.layers.find((l) => l.id === targetLayerId)
+    if (!layer) return false
+
+    this.detachShape(shapeId)
+
+    if (!layer.shapes.includes(shapeId)) {
+      layer.shapes.push(shapeId)
+      this.logService.debug(`Shape ${shapeId} added to layer ${layer.name}`)
+    }
+
+    return true
+  }
+
+  private detachShape(shapeId: string): boolean {
+    let removed = false
+    for (const layer of this.state.layers) {
+      const index = layer.shapes.indexOf(shapeId)
+      if (index !== -1) {
+        layer.shapes.splice(index, 1)
+        removed = true
+        this.logService.debug(`Shape ${shapeId} removed from layer ${layer.name}`)
+      }
+    }
+    return removed
+  }
+
+  /**
+   * 图层组不能包含自身或其上级，目标必须是图层组
+   */
+  private canSetParent(layerId: string, parentId: string | null): boolean {
+    if (parentId === null) return true
+    let current = this.state.layers.find((l) => l.id === parentId)
+    if (!current?.isGroup) return false
+    while (current) {
+      if (current.id === layerId) return false
+      const nextId: string | undefined = current.parentId
+      current = nextId ? this.state.layers.find((l) => l.id === nextId) : undefined
+    }
+    return true
+  }
+
   private getRenderablesInLayerOrder(): IRenderable[] {
     const allRenderables = this.canvasManager.getRenderables()
     const renderableMap = new Map<string, IRenderable>()
@@ -334,9 +504,8 @@ export class SceneManager implements ISceneManager {
     const orderedRenderables: IRenderable[] = []
     const sortedLayers = this.getAllLayers()
 
+    // 隐藏图层的形状同样交给渲染服务，由引擎图层控制可见性
     for (const layer of sortedLayers) {
-      if (!layer.visible) continue
-
       for (const shapeId of layer.shapes) {
         const renderable = renderableMap.get(shapeId)
         if (renderable) {
@@ -354,8 +523,46 @@ export class SceneManager implements ISceneManager {
     return { ...this.state }
   }
 
+  /**
+   * 用快照替换场景状态（文档加载时使用）
+   * 画布中未被任何图层引用的形状会放入激活图层
+   */
+  restoreSceneState(state: ISceneManagerState): void {
+    this.syncShapesWithLayers()
+
+    const layers = state.layers.map((layer) => ({
+      ...layer,
+      blendMode: layer.blendMode ?? 'normal',
+      shapes: layer.shapes.filter((id) => this.trackedShapeIds.has(id)),
+    }))
+    if (layers.length === 0) {
+      this.state.layers = []
+      this.nextLayerId = 1
+      this.createDefaultLayer()
+      layers.push(...this.state.layers)
+    }
+
+    const assigned = new Set(layers.flatMap((layer) => layer.shapes))
+    const activeLayer = layers.find((l) => l.id === state.activeLayerId) ?? layers[0]
+    activeLayer.shapes.push(...Array.from(this.trackedShapeIds).filter((id) => !assigned.has(id)))
+
+    this.state.layers = layers
+    this.state.activeLayerId = activeLayer.id
+    this.state.backgroundColor = state.backgroundColor
+    this.state.gridEnabled = state.gridEnabled
+    this.state.gridSize = Math.max(1, state.gridSize)
+    this.state.guidesEnabled = state.guidesEnabled
+    this.state.guides = [...state.guides]
+    this.nextLayerId =
+      Math.max(0, ...layers.map((l) => Number(/layer_(\d+)$/.exec(l.id)?.[1] ?? 0))) + 1
+
+    this.syncRenderLayers()
+    this.logService.info(`Scene state restored with ${layers.length} layers`)
+  }
+
   clear(): void {
     this.state.layers = []
+    this.state.guides = []
     this.nextLayerId = 1
     this.createDefaultLayer()
 
@@ -367,7 +574,10 @@ export class SceneManager implements ISceneManager {
       this.unsubscribe()
       this.unsubscribe = undefined
     }
+    this.renderingService.removeOverlay(GuideOverlayView.ID)
+    this.guideOverlay.dispose()
     this.trackedShapeIds.clear()
+    this.layerListeners.clear()
     this.logService.info('SceneManager disposed')
   }
 }
@@ -0,0 +1,291 @@
+/**
+ * 时间轴管理器 - 文档级关键帧动画的播放、拖动与关键帧编辑
+ * 由 AnimationManager 的 tick 驱动；预览只替换形状视图的实体，不修改模型，
+ * 因此播放不会产生撤销记录、自动保存或协作同步
+ */
+
+import { AnimationManager } from '@sky-canvas/render-engine'
+import { proxy } from 'valtio'
+import { createDecorator } from '../di'
+import {
+  type AnimatableProperty,
+  AnimationError,
+  DEFAULT_TIMELINE_SETTINGS,
+  getAnimatableValue,
+  getAnimatedShape,
+  type IKeyframe,
+  type IKeyframeTrack,
+  type ITimelineSettings,
+  isAnimatableProperty,
+  type KeyframeEasing,
+  type KeyframeValue,
+  removeKeyframeAt,
+  upsertKeyframe,
+} from '../models/entities/Animation'
+import { ICanvasRenderingService, ILogService, IShapeService } from '../services'
+import { ICanvasManager } from './CanvasManager'
+
+/**
+ * 时间轴状态
+ */
+export interface ITimelineState extends ITimelineSettings {
+  currentTime: number
+  playing: boolean
+}
+
+/**
+ * 添加关键帧的参数，time 缺省为当前时间，value 缺省为形状当前的属性值
+ */
+export interface IKeyframeInput {
+  time?: number
+  value?: KeyframeValue
+  easing?: KeyframeEasing
+}
+
+/**
+ * 时间轴管理器接口
+ */
+export interface ITimelineManager {
+  readonly _serviceBrand: undefined
+  readonly state: ITimelineState
+
+  // 播放控制
+  play(): void
+  pause(): void
+  /** 暂停并回到开头，形状恢复为模型中的状态 */
+  stop(): void
+  /** 跳转到指定时间并预览该时刻的画面 */
+  seek(time: number): void
+  setDuration(duration: number): void
+  setLoop(loop: boolean): void
+
+  // 关键帧
+  setKeyframe(shapeId: string, property: AnimatableProperty, keyframe?: IKeyframeInput): IKeyframe
+  removeKeyframe(shapeId: string, property: AnimatableProperty, time: number): boolean
+  getTracks(shapeId: string): IKeyframeTrack[]
+
+  // 持久化
+  getSettings(): ITimelineSettings
+  restoreSettings(settings?: Partial<ITimelineSettings>): void
+
+  getAnimationManager(): AnimationManager
+  dispose(): void
+}
+
+/**
+ * 时间轴管理器服务标识符
+ */
+export const ITimelineManager = createDecorator<ITimelineManager>('TimelineManager')
+
+/**
+ * 时间轴管理器实现
+ */
+export class TimelineManager implements ITimelineManager {
+  readonly _serviceBrand: undefined
+
+  readonly state: ITimelineState = proxy({
+    ...DEFAULT_TIMELINE_SETTINGS,
+    currentTime: 0,
+    playing: false,
+  })
+
+  private animationManager = new AnimationManager()
+  /** 当前有预览画面的形状 */
+  private previewedIds = new Set<string>()
+
+  constructor(
+    @ICanvasManager private canvasManager: ICanvasManager,
+    @IShapeService private shapeService: IShapeService,
+    @ICanvasRenderingService private renderingService: ICanvasRenderingService,
+    @ILogService private logService: ILogService
+  ) {
+    this.animationManager.on('tick', this.handleTick)
+    this.logService.info('TimelineManager initialized')
+  }
+
+  // === 播放控制 ===
+
+  play(): void {
+    if (this.state.playing) return
+    // 播放到结尾后再次播放时从头开始
+    if (this.state.currentTime >= this.state.duration) this.state.currentTime = 0
+    this.state.playing = true
+    this.animationManager.start()
+    this.applyPreview()
+  }
+
+  pause(): void {
+    if (!this.state.playing) return
+    this.state.playing = false
+    this.animationManager.stop()
+  }
+
+  stop(): void {
+    this.pause()
+    this.state.currentTime = 0
+    this.clearPreview()
+  }
+
+  seek(time: number): void {
+    this.state.currentTime = Math.min(Math.max(time, 0), this.state.duration)
+    this.applyPreview()
+  }
+
+  setDuration(duration: number): void {
+    if (!Number.isFinite(duration) || duration <= 0) {
+      throw new AnimationError(`Timeline duration must be a positive number, got ${duration}`)
+    }
+    this.state.duration = duration
+    if (this.state.currentTime > duration) this.seek(duration)
+  }
+
+  setLoop(loop: boolean): void {
+    this.state.loop = loop
+  }
+
+  // === 关键帧 ===
+
+  setKeyframe(
+    shapeId: string,
+    property: AnimatableProperty,
+    input: IKeyframeInput = {}
+  ): IKeyframe {
+    const shape = this.shapeService.getShapeEntity(shapeId)
+    if (!shape) {
+      throw new AnimationError(`Shape ${shapeId} does not exist`)
+    }
+    if (!isAnimatableProperty(shape, property)) {
+      throw new AnimationError(`Property '${property}' cannot be animated on ${shape.type} shapes`)
+    }
+    const value = input.value ?? getAnimatableValue(shape, property)
+    if (value === undefined) {
+      throw new AnimationError(`Shape ${shapeId} has no ${property} to record`)
+    }
+    const time = Math.max(input.time ?? this.state.currentTime, 0)
+    const keyframe: IKeyframe = { time, value }
+    if (input.easing) keyframe.easing = input.easing
+
+    const tracks = shape.animationTracks ?? []
+    const track = tracks.find((existing) => existing.property === property) ?? {
+      property,
+      keyframes: [],
+    }
+    const updated = upsertKeyframe(track, keyframe)
+    this.canvasManager.beginBatch('Add keyframe')
+    try {
+      this.canvasManager.updateShape(shapeId, {
+        animationTracks: [...tracks.filter((existing) => existing !== track), updated],
+      })
+    } finally {
+      this.canvasManager.endBatch()
+    }
+
+    if (time > this.state.duration) this.state.duration = time
+    this.applyPreview()
+    return keyframe
+  }
+
+  removeKeyframe(shapeId: string, property: AnimatableProperty, time: number): boolean {
+    const tracks = this.getTracks(shapeId)
+    const track = tracks.find((existing) => existing.property === property)
+    if (!track?.keyframes.some((keyframe) => keyframe.time === time)) return false
+
+    const updated = removeKeyframeAt(track, time)
+    const animationTracks = tracks.filter((existing) => existing !== track)
+    if (updated.keyframes.length > 0) animationTracks.push(updated)
+
+    this.canvasManager.beginBatch('Remove keyframe')
+    try {
+      this.canvasManager.updateShape(shapeId, {
+        animationTracks: animationTracks.length > 0 ? animationTracks : undefined,
+      })
+    } finally {
+      this.canvasManager.endBatch()
+    }
+    this.applyPreview()
+    return true
+  }
+
+  getTracks(shapeId: string): IKeyframeTrack[] {
+    return this.shapeService.getShapeEntity(shapeId)?.animationTracks ?? []
+  }
+
+  // === 持久化 ===
+
+  getSettings(): ITimelineSettings {
+    return { duration: this.state.duration, loop: this.state.loop }
+  }
+
+  restoreSettings(settings?: Partial<ITimelineSettings>): void {
+    this.stop()
+    const duration = settings?.duration
+    this.state.duration =
+      typeof duration === 'number' && Number.isFinite(duration) && duration > 0
+        ? duration
+        : DEFAULT_TIMELINE_SETTINGS.duration
+    this.state.loop = settings?.loop === true
+  }
+
+  getAnimationManager(): AnimationManager {
+    return this.animationManager
+  }
+
+  dispose(): void {
+    this.stop()
+    this.animationManager.off('tick', this.handleTick)
+    this.animationManager.dispose()
+    this.logService.info('TimelineManager disposed')
+  }
+
+  // === 私有方法 ===
+
+  private handleTick = (deltaTime: number): void => {
+    if (!this.state.playing) return
+
+    const { duration, loop } = this.state
+    const time = this.state.currentTime + deltaTime
+    if (time < duration) {
+      this.state.currentTime = time
+    } else if (loop) {
+      this.state.currentTime = time % duration
+    } else {
+      this.state.currentTime = duration
+      this.pause()
+    }
+    this.applyPreview()
+  }
+
+  /**
+   * 用当前时刻的快照替换有动画的形状视图
+   */
+  private applyPreview(): void {
+    const time = this.state.currentTime
+    const previewed = new Set<string>()
+    for (const shape of this.shapeService.getAllShapeEntities()) {
+      const view = this.shapeService.getShapeView(shape.id)
+      if (!view) continue
+      if (shape.animationTracks?.length) {
+        view.updateEntity(getAnimatedShape(shape, time))
+        previewed.add(shape.id)
+      } else if (this.previewedIds.has(shape.id)) {
+        // 轨道已被删除的形状恢复为模型状态
+        view.updateEntity(shape)
+      }
+    }
+    this.previewedIds = previewed
+    this.renderingService.render()
+  }
+
+  /**
+   * 恢复模型中的形状状态
+   */
+  private clearPreview(): void {
+    if (this.previewedIds.size === 0) return
+    for (const id of this.previewedIds) {
+      const shape = this.shapeService.getShapeEntity(id)
+      if (shape) this.shapeService.getShapeView(id)?.updateEntity(shape)
+    }
+    this.previewedIds.clear()
+    this.renderingService.render()
+  }
+}
@@ -9,17 +9,21 @@ import type { ICanvasMouseEvent, IToolViewModel } from '../viewmodels/interfaces
 import {
   IArrowToolViewModel,
   ICircleToolViewModel,
+  IDiamondToolViewModel,
   IDrawToolViewModel,
   IEllipseToolViewModel,
   IEraserToolViewModel,
   IEyedropperToolViewModel,
+  IFrameToolViewModel,
   IHandToolViewModel,
   IImageToolViewModel,
   ILineToolViewModel,
+  ILinkToolViewModel,
   IPolygonToolViewModel,
   IRectangleToolViewModel,
   ISelectToolViewModel,
   IStarToolViewModel,
+  IStickyToolViewModel,
   ITextToolViewModel,
 } from '../viewmodels/tools'
 import { ICanvasManager } from './CanvasManager'
@@ -32,6 +36,7 @@ export interface IToolManager {
   activateTool(toolName: string): boolean
   getCurrentToolName(): string | null
   getAvailableTools(): string[]
+  getToolViewModel(toolName: string): IToolViewModel | undefined
 
   // 事件处理
   handleMouseDown(event: ICanvasMouseEvent): void
@@ -74,6 +79,10 @@ export class ToolManager implements IToolManager {
     @IHandToolViewModel private handToolViewModel: IHandToolViewModel,
     @IEraserToolViewModel private eraserToolViewModel: IEraserToolViewModel,
     @IEyedropperToolViewModel private eyedropperToolViewModel: IEyedropperToolViewModel,
+    @IDiamondToolViewModel private diamondToolViewModel: IDiamondToolViewModel,
+    @IStickyToolViewModel private stickyToolViewModel: IStickyToolViewModel,
+    @ILinkToolViewModel private linkToolViewModel: ILinkToolViewModel,
+    @IFrameToolViewModel private frameToolViewModel: IFrameToolViewModel,
     @IShortcutService private shortcutService: IShortcutService,
     @ILogService private logService: ILogService
   ) {
@@ -101,12 +110,10 @@ export class ToolManager implements IToolManager {
     this.toolViewModels.set('hand', this.handToolViewModel)
     this.toolViewModels.set('eraser', this.eraserToolViewModel)
     this.toolViewModels.set('eyedropper', this.eyedropperToolViewModel)
-
-    // 注册占位符工具 - 暂时未实现的工具
-    const placeholderTools = ['diamond', 'sticky', 'link', 'frame']
-    placeholderTools.forEach((toolName) => {
-      this.toolViewModels.set(toolName, this.createPlaceholderTool(toolName))
-    })
+    this.toolViewModels.set('diamond', this.diamondToolViewModel)
+    this.toolViewModels.set('sticky', this.stickyToolViewModel)
+    this.toolViewModels.set('link', this.linkToolViewModel)
+    this.toolViewModels.set('frame', this.frameToolViewModel)
 
     // 默认激活选择工具
     this.activateTool('select')
@@ -116,101 +123,139 @@ export class ToolManager implements IToolManager {
    * 注册工具快捷键
    */
   private registerShortcuts(): void {
+    // when 条件使用的上下文键，按键时读取
+    this.shortcutService.setContext('activeTool', () => this.currentToolName)
+    this.shortcutService.setContext('textEditing', () =>
+      this.textToolViewModel.isCurrentlyEditing()
+    )
+    this.shortcutService.setContext(
+      'hasSelection',
+      () => this.canvasManager.getSelectedShapes().length > 0
+    )
+    this.shortcutService.setContext(
+      'selectionCount',
+      () => this.canvasManager.getSelectedShapes().length
+    )
+
     // 工具切换快捷键
-    this.shortcutService.register('tool-select', { key: 's' }, () => {
+    this.shortcutService.register('tool-select', { key: 's', when: '!textEditing' }, () => {
       this.activateTool('select')
     })
 
-    this.shortcutService.register('tool-rectangle', { key: 'r' }, () => {
+    this.shortcutService.register('tool-rectangle', { key: 'r', when: '!textEditing' }, () => {
       this.activateTool('rectangle')
     })
 
-    this.shortcutService.register('tool-circle', { key: 'c' }, () => {
+    this.shortcutService.register('tool-circle', { key: 'c', when: '!textEditing' }, () => {
       this.activateTool('circle')
     })
 
-    this.shortcutService.register('tool-ellipse', { key: 'e' }, () => {
+    this.shortcutService.register('tool-ellipse', { key: 'e', when: '!textEditing' }, () => {
       this.activateTool('ellipse')
     })
 
-    this.shortcutService.register('tool-line', { key: 'l' }, () => {
+    this.shortcutService.register('tool-line', { key: 'l', when: '!textEditing' }, () => {
       this.activateTool('line')
     })
 
-    this.shortcutService.register('tool-polygon', { key: 'p' }, () => {
+    this.shortcutService.register('tool-polygon', { key: 'p', when: '!textEditing' }, () => {
       this.activateTool('polygon')
     })
 
-    this.shortcutService.register('tool-star', { key: 'g' }, () => {
+    this.shortcutService.register('tool-star', { key: 'g', when: '!textEditing' }, () => {
       this.activateTool('star')
     })
 
-    this.shortcutService.register('tool-text', { key: 't' }, () => {
+    this.shortcutService.register('tool-text', { key: 't', when: '!textEditing' }, () => {
       this.activateTool('text')
     })
 
-    this.shortcutService.register('tool-arrow', { key: 'a' }, () => {
+    this.shortcutService.register('tool-arrow', { key: 'a', when: '!textEditing' }, () => {
       this.activateTool('arrow')
     })
 
-    this.shortcutService.register('tool-draw', { key: 'd' }, () => {
+    this.shortcutService.register('tool-draw', { key: 'd', when: '!textEditing' }, () => {
       this.activateTool('draw')
     })
 
-    this.shortcutService.register('tool-image', { key: 'i' }, () => {
+    this.shortcutService.register('tool-image', { key: 'i', when: '!textEditing' }, () => {
       this.activateTool('image')
     })
 
-    this.shortcutService.register('tool-hand', { key: 'h' }, () => {
+    this.shortcutService.register('tool-hand', { key: 'h', when: '!textEditing' }, () => {
       this.activateTool('hand')
     })
 
-    this.shortcutService.register('tool-eraser', { key: 'q' }, () => {
+    this.shortcutService.register('tool-eraser', { key: 'q', when: '!textEditing' }, () => {
       this.activateTool('eraser')
     })
 
-    this.shortcutService.register('tool-eyedropper', { key: 'y' }, () => {
+    this.shortcutService.register('tool-eyedropper', { key: 'y', when: '!textEditing' }, () => {
       this.activateTool('eyedropper')
     })
 
-    // 通用操作快捷键
-    this.shortcutService.register('copy', { key: 'c', ctrlKey: true }, () => {
-      this.canvasManager.copySelectedShapes()
+    this.shortcutService.register('tool-sticky', { key: 'n', when: '!textEditing' }, () => {
+      this.activateTool('sticky')
     })
 
-    this.shortcutService.register('cut', { key: 'x', ctrlKey: true }, () => {
-      this.canvasManager.cutSelectedShapes()
+    this.shortcutService.register('tool-link', { key: 'k', when: '!textEditing' }, () => {
+      this.activateTool('link')
     })
 
-    this.shortcutService.register('paste', { key: 'v', ctrlKey: true }, () => {
+    this.shortcutService.register('tool-frame', { key: 'f', when: '!textEditing' }, () => {
+      this.activateTool('frame')
+    })
+
+    // 通用操作快捷键
+    this.shortcutService.register(
+      'copy',
+      { key: 'mod+c', when: 'hasSelection && !textEditing' },
+      () => {
+        this.canvasManager.copySelectedShapes()
+      }
+    )
+
+    this.shortcutService.register(
+      'cut',
+      { key: 'mod+x', when: 'hasSelection && !textEditing' },
+      () => {
+        this.canvasManager.cutSelectedShapes()
+      }
+    )
+
+    this.shortcutService.register('paste', { key: 'mod+v', when: '!textEditing' }, () => {
       void this.canvasManager.paste()
     })
 
-    this.shortcutService.register('undo', { key: 'z', ctrlKey: true }, () => {
+    this.shortcutService.register('undo', { key: 'mod+z', when: '!textEditing' }, () => {
       this.canvasManager.undo()
     })
 
-    this.shortcutService.register('redo', { key: 'y', ctrlKey: true }, () => {
+    this.shortcutService.register('redo', { key: 'mod+y', when: '!textEditing' }, () => {
       this.canvasManager.redo()
     })
 
-    this.shortcutService.register('zoom-in', { key: '=', ctrlKey: true }, () => {
+    this.shortcutService.register('redo-alt', { key: 'mod+shift+z', when: '!textEditing' }, () => {
+      this.canvasManager.redo()
+    })
+
+    this.shortcutService.register('zoom-in', { key: 'mod+=' }, () => {
       this.canvasManager.zoomIn()
     })
 
-    this.shortcutService.register('zoom-out', { key: '-', ctrlKey: true }, () => {
+    this.shortcutService.register('zoom-out', { key: 'mod+-' }, () => {
       this.canvasManager.zoomOut()
     })
 
-    this.shortcutService.register('zoom-reset', { key: '0', ctrlKey: true }, () => {
+    this.shortcutService.register('zoom-reset', { key: 'mod+0' }, () => {
       this.canvasManager.zoomToActualSize()
     })
 
-    this.shortcutService.register('group', { key: 'g', ctrlKey: true }, () => {
+    this.shortcutService.register('group', { key: 'mod+g', when: 'hasSelection' }, () => {
       this.canvasManager.groupSelectedShapes()
     })
 
-    this.shortcutService.register('ungroup', { key: 'g', ctrlKey: true, shiftKey: true }, () => {
+    this.shortcutService.register('ungroup', { key: 'mod+shift+g', when: 'hasSelection' }, () => {
       this.canvasManager.ungroupSelectedShapes()
     })
 
@@ -260,16 +305,26 @@ export class ToolManager implements IToolManager {
     return Array.from(this.toolViewModels.keys())
   }
 
+  /**
+   * 获取工具 ViewModel，供界面读取工具状态（如取色器放大镜）
+   */
+  getToolViewModel(toolName: string): IToolViewModel | undefined {
+    return this.toolViewModels.get(toolName)
+  }
+
   /**
    * 处理鼠标按下事件
    */
   handleMouseDown(event: ICanvasMouseEvent): void {
     if (!this.currentToolName) return
 
+    // 每次按下开始新的操作，不与上一次拖拽合并为一步
+    this.canvasManager.stopHistoryMerging()
+
     const currentTool = this.toolViewModels.get(this.currentToolName)
     if (currentTool?.handleMouseDown) {
       const point = this.canvasManager.snapPoint(event.point)
-      currentTool.handleMouseDown(point.x, point.y, event.originalEvent)
+      currentTool.handleMouseDown(point.x, point.y, event.originalEvent, event.samples)
     }
   }
 
@@ -282,7 +337,7 @@ export class ToolManager implements IToolManager {
     const currentTool = this.toolViewModels.get(this.currentToolName)
     if (currentTool?.handleMouseMove) {
       const point = this.canvasManager.snapPoint(event.point)
-      currentTool.handleMouseMove(point.x, point.y, event.originalEvent)
+      currentTool.handleMouseMove(point.x, point.y, event.originalEvent, event.samples)
     }
   }
 
@@ -295,7 +350,7 @@ export class ToolManager implements IToolManager {
     const currentTool = this.toolViewModels.get(this.currentToolName)
     if (currentTool?.handleMouseUp) {
       const point = this.canvasManager.snapPoint(event.point)
-      currentTool.handleMouseUp(point.x, point.y, event.originalEvent)
+      currentTool.handleMouseUp(point.x, point.y, event.originalEvent, event.samples)
     }
   }
 
@@ -333,65 +388,6 @@ export class ToolManager implements IToolManager {
     return currentTool?.state?.cursor || 'default'
   }
 
-  /**
-   * 创建占位符工具
-   */
-  private createPlaceholderTool(toolName: string): IToolViewModel {
-    const cursor = this.getCursorForTool(toolName)
-    return {
-      state: {
-        enabled: false,
-        cursor,
-      },
-      activate: () => {
-        this.logService.info(`Placeholder tool '${toolName}' activated - not implemented yet`)
-      },
-      deactivate: () => {
-        this.logService.debug(`Placeholder tool '${toolName}' deactivated`)
-      },
-      handleMouseDown: () => {
-        this.logService.debug(`Tool '${toolName}' mouse down - not implemented`)
-      },
-      handleMouseMove: () => {
-        this.logService.debug(`Tool '${toolName}' mouse move - not implemented`)
-      },
-      handleMouseUp: () => {
-        this.logService.debug(`Tool '${toolName}' mouse up - not implemented`)
-      },
-      handleKeyDown: () => {
-        this.logService.debug(`Tool '${toolName}' key down - not implemented`)
-      },
-      handleKeyUp: () => {
-        this.logService.debug(`Tool '${toolName}' key up - not implemented`)
-      },
-      initialize: async () => {},
-      dispose: () => {},
-      getSnapshot: () => ({ enabled: false, cursor }),
-    }
-  }
-
-  /**
-   * 获取工具对应的鼠标样式
-   */
-  private getCursorForTool(toolName: string): string {
-    const cursorMap: Record<string, string> = {
-      select: 'default',
-      hand: 'grab',
-      rectangle: 'crosshair',
-      diamond: 'crosshair',
-      circle: 'crosshair',
-      arrow: 'crosshair',
-      line: 'crosshair',
-      draw: 'crosshair',
-      text: 'text',
-      image: 'crosshair',
-      sticky: 'crosshair',
-      link: 'pointer',
-      frame: 'crosshair',
-    }
-    return cursorMap[toolName] || 'default'
-  }
-
   /**
    * 销毁管理器
    */
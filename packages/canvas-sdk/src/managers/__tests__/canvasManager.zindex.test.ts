@@ -57,6 +57,8 @@ describe('CanvasManager Z轴管理', () => {
       redo: vi.fn(),
       canUndo: vi.fn(() => false),
       canRedo: vi.fn(() => false),
+      getHistory: vi.fn(() => []),
+      getCurrentIndex: vi.fn(() => -1),
       onDidChange: vi.fn(() => () => {}),
     }
 
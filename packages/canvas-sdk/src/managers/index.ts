@@ -4,9 +4,17 @@
  */
 
 export { CanvasManager, ICanvasManager } from './CanvasManager'
-export type { CanvasStats } from './ICanvasManager'
+export type {
+  IDocumentLoadResult,
+  IDocumentSaveOptions,
+  IDocumentSVGExportOptions,
+} from './DocumentManager'
+export { DocumentManager, IDocumentManager } from './DocumentManager'
+export type { CanvasStats, IExternalShapeChanges } from './ICanvasManager'
 export type { ILayerInfo, ISceneManagerState } from './SceneManager'
 export { ISceneManager, SceneManager } from './SceneManager'
+export type { IKeyframeInput, ITimelineState } from './TimelineManager'
+export { ITimelineManager, TimelineManager } from './TimelineManager'
 export type { IToolManager } from './ToolManager'
 export { ToolManager } from './ToolManager'
 export type { ITransactionManager } from './TransactionManager'
@@ -16,6 +16,8 @@ export interface IClipboardDeps {
   addShape: (shape: ShapeEntity) => void
   clearSelection: () => void
   selectShape: (id: string) => void
+  /** 批量执行，期间的形状变更合并为一条历史记录 */
+  withBatch: <T>(description: string, run: () => T) => T
 }
 
 export function copySelectedShapes(deps: IClipboardDeps): void {
@@ -32,8 +34,10 @@ export function cutSelectedShapes(deps: IClipboardDeps): void {
 
   deps.clipboardService.cut(selectedShapes)
 
-  selectedShapes.forEach((shape) => {
-    deps.removeShape(shape.id)
+  deps.withBatch('Cut', () => {
+    selectedShapes.forEach((shape) => {
+      deps.removeShape(shape.id)
+    })
   })
 
   deps.logService.debug(`Cut ${selectedShapes.length} shapes`)
@@ -43,8 +47,10 @@ export async function paste(deps: IClipboardDeps): Promise<ShapeEntity[]> {
   const pastedShapes = (await deps.clipboardService.paste()) as ShapeEntity[]
   if (!pastedShapes || pastedShapes.length === 0) return []
 
-  pastedShapes.forEach((shape) => {
-    deps.addShape(shape)
+  deps.withBatch('Paste', () => {
+    pastedShapes.forEach((shape) => {
+      deps.addShape(shape)
+    })
   })
 
   deps.clearSelection()
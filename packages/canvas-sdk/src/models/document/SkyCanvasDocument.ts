@@ -0,0 +1,465 @@
+/**
+ * 原生文档格式 (.skycanvas)
+ * 描述完整场景的持久化结构：图层、形状、辅助线、视口以及内嵌资源
+ */
+
+import type { ISerializedHistory } from '../../services/history/historyStore'
+import type { IGuide } from '../../views/GuideView'
+import type { ITimelineSettings } from '../entities/Animation'
+import type { BlendMode, LayerType } from '../entities/Layer'
+import type { IImageDataLike, ShapeEntity } from '../entities/Shape'
+
+/**
+ * 文档格式标识
+ */
+export const SKY_CANVAS_DOCUMENT_FORMAT = 'skycanvas'
+
+/**
+ * 当前文档版本
+ */
+export const SKY_CANVAS_DOCUMENT_VERSION = 3
+
+/**
+ * 文件扩展名与 MIME 类型
+ */
+export const SKY_CANVAS_FILE_EXTENSION = 'skycanvas'
+export const SKY_CANVAS_MIME_TYPE = 'application/vnd.skycanvas+json'
+
+/**
+ * 序列化后的形状 - 日期转为 ISO 字符串，图片像素数据移入资源表
+ */
+export type SerializedShapeEntity = ShapeEntity extends infer T
+  ? T extends ShapeEntity
+    ? Omit<T, 'createdAt' | 'updatedAt' | 'imageData'> & {
+        createdAt: string
+        updatedAt: string
+        assetId?: string
+      }
+    : never
+  : never
+
+/**
+ * 序列化后的图层 - 与 ILayerEntity 字段保持一致
+ */
+export interface ISerializedLayer {
+  id: string
+  name: string
+  type: LayerType
+  visible: boolean
+  locked: boolean
+  opacity: number
+  zIndex: number
+  blendMode: BlendMode
+  shapes: string[]
+  parentId?: string
+  childrenIds: string[]
+  isGroup: boolean
+  expanded: boolean
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * 内嵌资源
+ */
+export interface IDocumentAsset {
+  id: string
+  kind: 'image'
+  /** 原始引用地址（无法内嵌时保留） */
+  src?: string
+  /** 内嵌的 data URL */
+  dataUrl?: string
+  /** 内嵌的像素数据，data 为 base64 编码 */
+  imageData?: {
+    width: number
+    height: number
+    data: string
+  }
+}
+
+/**
+ * 场景设置
+ */
+export interface IDocumentScene {
+  backgroundColor: string
+  gridEnabled: boolean
+  gridSize: number
+  guidesEnabled: boolean
+  activeLayerId: string | null
+  guides: IGuide[]
+  viewport?: {
+    x: number
+    y: number
+    zoom: number
+  }
+}
+
+/**
+ * 原生文档
+ */
+export interface ISkyCanvasDocument {
+  format: typeof SKY_CANVAS_DOCUMENT_FORMAT
+  version: number
+  savedAt: string
+  scene: IDocumentScene
+  layers: ISerializedLayer[]
+  shapes: SerializedShapeEntity[]
+  assets: Record<string, IDocumentAsset>
+  /** 撤销栈，重新打开文档后仍可撤销 */
+  history?: ISerializedHistory
+  /** 动画时间轴设置，关键帧保存在各形状的 animationTracks 中 */
+  timeline?: ITimelineSettings
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * 文档迁移 - 将 from 版本的原始数据升级为 to 版本
+ */
+export interface IDocumentMigration {
+  from: number
+  to: number
+  migrate(document: Record<string, unknown>): Record<string, unknown>
+}
+
+/**
+ * 文档格式错误
+ */
+export class DocumentFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DocumentFormatError'
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null
+
+/**
+ * 读取原始数据的版本号
+ * 没有 format 字段但包含 shapes 数组的数据视为 exportToJSON 导出的 1.x 版本
+ */
+export function getDocumentVersion(raw: Record<string, unknown>): number {
+  if (raw.format === SKY_CANVAS_DOCUMENT_FORMAT) {
+    if (typeof raw.version === 'number' && Number.isInteger(raw.version)) {
+      return raw.version
+    }
+    throw new DocumentFormatError('Invalid document: version must be an integer')
+  }
+
+  if (Array.isArray(raw.shapes)) {
+    return 1
+  }
+
+  throw new DocumentFormatError('Unrecognized document format')
+}
+
+/**
+ * 文档迁移注册表
+ */
+export class DocumentMigrationRegistry {
+  private migrations = new Map<number, IDocumentMigration>()
+
+  /**
+   * 注册迁移，同一起始版本只保留最后注册的迁移
+   */
+  register(migration: IDocumentMigration): () => void {
+    if (migration.to <= migration.from) {
+      throw new DocumentFormatError(
+        `Invalid migration: target version ${migration.to} must be greater than ${migration.from}`
+      )
+    }
+    this.migrations.set(migration.from, migration)
+    return () => {
+      if (this.migrations.get(migration.from) === migration) {
+        this.migrations.delete(migration.from)
+      }
+    }
+  }
+
+  /**
+   * 将原始数据逐级迁移到目标版本
+   */
+  migrate(
+    raw: Record<string, unknown>,
+    targetVersion: number = SKY_CANVAS_DOCUMENT_VERSION
+  ): { document: Record<string, unknown>; migratedFrom: number | null } {
+    const initialVersion = getDocumentVersion(raw)
+    if (initialVersion > targetVersion) {
+      throw new DocumentFormatError(
+        `Document version ${initialVersion} is newer than supported version ${targetVersion}`
+      )
+    }
+
+    let document = raw
+    let version = initialVersion
+    while (version < targetVersion) {
+      const migration = this.migrations.get(version)
+      if (!migration) {
+        throw new DocumentFormatError(`No migration registered from version ${version}`)
+      }
+      document = migration.migrate(document)
+      version = migration.to
+    }
+
+    return {
+      document: { ...document, format: SKY_CANVAS_DOCUMENT_FORMAT, version },
+      migratedFrom: initialVersion === targetVersion ? null : initialVersion,
+    }
+  }
+}
+
+/**
+ * 1.x (exportToJSON) -> 2：形状放入默认图层，补齐场景设置
+ */
+const migrateLegacyJSON: IDocumentMigration = {
+  from: 1,
+  to: 2,
+  migrate(document) {
+    const now = new Date().toISOString()
+    const shapes = (document.shapes as unknown[]).filter(isRecord).map(
+      (shape): Record<string, unknown> => ({
+        ...shape,
+        visible: shape.visible !== false,
+        locked: shape.locked === true,
+        zIndex: typeof shape.zIndex === 'number' ? shape.zIndex : 0,
+        createdAt: typeof shape.createdAt === 'string' ? shape.createdAt : now,
+        updatedAt: typeof shape.updatedAt === 'string' ? shape.updatedAt : now,
+      })
+    )
+    const layerId = 'layer_1'
+
+    return {
+      format: SKY_CANVAS_DOCUMENT_FORMAT,
+      version: 2,
+      savedAt: typeof document.timestamp === 'string' ? document.timestamp : now,
+      scene: {
+        backgroundColor: '#ffffff',
+        gridEnabled: false,
+        gridSize: 20,
+        guidesEnabled: false,
+        activeLayerId: layerId,
+        guides: [],
+      },
+      layers: [
+        {
+          ...createSerializedLayer(layerId, '默认图层'),
+          shapes: shapes
+            .map((shape) => shape.id)
+            .filter((id): id is string => typeof id === 'string'),
+        },
+      ],
+      shapes,
+      assets: {},
+    }
+  },
+}
+
+/**
+ * 渐变色标补齐标识，已有标识的色标保持不变
+ */
+const withStopIds = (paint: unknown): unknown =>
+  isRecord(paint) && Array.isArray(paint.stops)
+    ? {
+        ...paint,
+        stops: paint.stops.map((stop, index) =>
+          isRecord(stop) && typeof stop.id !== 'string' ? { ...stop, id: `stop_${index}` } : stop
+        ),
+      }
+    : paint
+
+/**
+ * 效果补齐标识，已有标识的效果保持不变
+ */
+const withEffectIds = (effects: unknown): unknown =>
+  Array.isArray(effects)
+    ? effects.map((effect, index) =>
+        isRecord(effect) && typeof effect.id !== 'string'
+          ? { ...effect, id: `effect_${index}` }
+          : effect
+      )
+    : effects
+
+/**
+ * 2 -> 3：渐变色标与效果增加标识
+ */
+const migrateStopAndEffectIds: IDocumentMigration = {
+  from: 2,
+  to: 3,
+  migrate(document) {
+    const shapes = Array.isArray(document.shapes) ? document.shapes : []
+    return {
+      ...document,
+      version: 3,
+      shapes: shapes.map((shape) =>
+        isRecord(shape)
+          ? {
+              ...shape,
+              style: isRecord(shape.style)
+                ? {
+                    ...shape.style,
+                    fillPaint: withStopIds(shape.style.fillPaint),
+                    strokePaint: withStopIds(shape.style.strokePaint),
+                  }
+                : shape.style,
+              effects: withEffectIds(shape.effects),
+            }
+          : shape
+      ),
+    }
+  },
+}
+
+/**
+ * 创建内置所有官方版本之间迁移的注册表，每个文档管理器持有各自的实例
+ */
+export function createDocumentMigrations(): DocumentMigrationRegistry {
+  const registry = new DocumentMigrationRegistry()
+  registry.register(migrateLegacyJSON)
+  registry.register(migrateStopAndEffectIds)
+  return registry
+}
+
+/**
+ * 创建默认字段的序列化图层
+ */
+export function createSerializedLayer(id: string, name: string): ISerializedLayer {
+  return {
+    id,
+    name,
+    type: 'normal',
+    visible: true,
+    locked: false,
+    opacity: 1,
+    zIndex: 0,
+    blendMode: 'normal',
+    shapes: [],
+    childrenIds: [],
+    isGroup: false,
+    expanded: true,
+  }
+}
+
+// 结构守卫只检查加载依赖的字段，其余字段按文档格式信任
+const isDocumentScene = (value: unknown): value is IDocumentScene => isRecord(value)
+
+const isSerializedLayer = (value: unknown): value is ISerializedLayer =>
+  isRecord(value) && typeof value.id === 'string'
+
+const isSerializedShape = (value: unknown): value is SerializedShapeEntity =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.type === 'string'
+
+const isDocumentAsset = (value: unknown): value is IDocumentAsset =>
+  isRecord(value) && value.kind === 'image'
+
+const isSerializedHistory = (value: unknown): value is ISerializedHistory =>
+  isRecord(value) && Array.isArray(value.entries) && typeof value.currentIndex === 'number'
+
+const isTimelineSettings = (value: unknown): value is ITimelineSettings =>
+  isRecord(value) && typeof value.duration === 'number' && typeof value.loop === 'boolean'
+
+/**
+ * 校验形状的标识、效果与动画轨道
+ */
+function validateShape(shape: unknown, index: number): SerializedShapeEntity {
+  if (!isSerializedShape(shape)) {
+    throw new DocumentFormatError(`Invalid document: shape at index ${index} has no id or type`)
+  }
+  if (
+    shape.effects !== undefined &&
+    !(
+      Array.isArray(shape.effects) &&
+      shape.effects.every(
+        (effect) =>
+          isRecord(effect) && typeof effect.id === 'string' && typeof effect.type === 'string'
+      )
+    )
+  ) {
+    throw new DocumentFormatError(`Invalid document: shape ${shape.id} has malformed effects`)
+  }
+  if (
+    shape.animationTracks !== undefined &&
+    !(
+      Array.isArray(shape.animationTracks) &&
+      shape.animationTracks.every(
+        (track) =>
+          isRecord(track) && typeof track.property === 'string' && Array.isArray(track.keyframes)
+      )
+    )
+  ) {
+    throw new DocumentFormatError(
+      `Invalid document: shape ${shape.id} has malformed animation tracks`
+    )
+  }
+  return shape
+}
+
+/**
+ * 校验迁移后的文档结构，逐字段构建文档
+ */
+export function validateDocument(document: Record<string, unknown>): ISkyCanvasDocument {
+  const { scene, layers, shapes, assets, history, timeline, metadata } = document
+  if (!isDocumentScene(scene)) {
+    throw new DocumentFormatError('Invalid document: missing scene settings')
+  }
+  if (!Array.isArray(layers)) {
+    throw new DocumentFormatError('Invalid document: missing layers array')
+  }
+  if (!layers.every(isSerializedLayer)) {
+    throw new DocumentFormatError('Invalid document: layer without id')
+  }
+  if (!Array.isArray(shapes)) {
+    throw new DocumentFormatError('Invalid document: missing shapes array')
+  }
+  if (assets !== undefined && !isRecord(assets)) {
+    throw new DocumentFormatError('Invalid document: assets must be an object')
+  }
+  if (timeline !== undefined && !isTimelineSettings(timeline)) {
+    throw new DocumentFormatError('Invalid document: malformed timeline settings')
+  }
+
+  const documentAssets: Record<string, IDocumentAsset> = {}
+  for (const [id, asset] of Object.entries(assets ?? {})) {
+    if (!isDocumentAsset(asset)) {
+      throw new DocumentFormatError(`Invalid document: asset ${id} is malformed`)
+    }
+    documentAssets[id] = asset
+  }
+
+  return {
+    format: SKY_CANVAS_DOCUMENT_FORMAT,
+    version: typeof document.version === 'number' ? document.version : SKY_CANVAS_DOCUMENT_VERSION,
+    savedAt: typeof document.savedAt === 'string' ? document.savedAt : new Date().toISOString(),
+    scene,
+    layers,
+    shapes: shapes.map(validateShape),
+    assets: documentAssets,
+    // 撤销栈损坏时只放弃撤销栈，不影响文档加载
+    history: isSerializedHistory(history) ? history : undefined,
+    timeline,
+    metadata: isRecord(metadata) ? metadata : undefined,
+  }
+}
+
+/**
+ * 像素数据编码为 base64
+ */
+export function encodeImageData(imageData: IImageDataLike): IDocumentAsset['imageData'] {
+  const bytes = imageData.data
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return { width: imageData.width, height: imageData.height, data: btoa(binary) }
+}
+
+/**
+ * base64 解码为像素数据
+ */
+export function decodeImageData(encoded: NonNullable<IDocumentAsset['imageData']>): IImageDataLike {
+  const binary = atob(encoded.data)
+  const data = new Uint8ClampedArray(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    data[i] = binary.charCodeAt(i)
+  }
+  return { width: encoded.width, height: encoded.height, data }
+}
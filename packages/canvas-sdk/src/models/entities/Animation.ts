@@ -0,0 +1,299 @@
+/**
+ * 形状关键帧动画
+ * 纯函数：按时间求关键帧轨道的值，并生成某一时刻的形状快照；时间单位均为毫秒
+ */
+
+import {
+  colorToHex,
+  EasingFunctions,
+  type EasingType,
+  lerpColorOklab,
+  parseColor,
+} from '@sky-canvas/render-engine'
+import type { ShapeEntity } from './Shape'
+
+/**
+ * 可动画的属性：变换、透明度、颜色、描边宽度与几何尺寸
+ */
+export type AnimatableProperty =
+  | 'x'
+  | 'y'
+  | 'rotation'
+  | 'scaleX'
+  | 'scaleY'
+  | 'opacity'
+  | 'fillColor'
+  | 'strokeColor'
+  | 'strokeWidth'
+  | 'width'
+  | 'height'
+  | 'radius'
+  | 'radiusX'
+  | 'radiusY'
+  | 'outerRadius'
+  | 'innerRadius'
+  | 'borderRadius'
+
+export const ANIMATABLE_PROPERTIES: readonly AnimatableProperty[] = [
+  'x',
+  'y',
+  'rotation',
+  'scaleX',
+  'scaleY',
+  'opacity',
+  'fillColor',
+  'strokeColor',
+  'strokeWidth',
+  'width',
+  'height',
+  'radius',
+  'radiusX',
+  'radiusY',
+  'outerRadius',
+  'innerRadius',
+  'borderRadius',
+]
+
+const COLOR_PROPERTIES: readonly AnimatableProperty[] = ['fillColor', 'strokeColor']
+
+/** 形状自身的几何字段，只有带该字段的形状类型可以动画 */
+const GEOMETRY_FIELDS: readonly AnimatableProperty[] = [
+  'radius',
+  'radiusX',
+  'radiusY',
+  'outerRadius',
+  'innerRadius',
+  'borderRadius',
+]
+
+export type KeyframeValue = number | string
+
+/**
+ * 关键帧缓动：缓动类型、'step'（保持到下一关键帧）或三次贝塞尔控制点 [x1, y1, x2, y2]
+ */
+export type KeyframeEasing = `${EasingType}` | 'step' | [number, number, number, number]
+
+/**
+ * 关键帧，easing 作用于到下一关键帧的区间，缺省为线性
+ */
+export interface IKeyframe {
+  time: number
+  value: KeyframeValue
+  easing?: KeyframeEasing
+}
+
+/**
+ * 单个属性的关键帧轨道，关键帧按时间升序
+ */
+export interface IKeyframeTrack {
+  property: AnimatableProperty
+  keyframes: IKeyframe[]
+}
+
+/**
+ * 文档时间轴设置
+ */
+export interface ITimelineSettings {
+  duration: number
+  loop: boolean
+}
+
+export const DEFAULT_TIMELINE_SETTINGS: Readonly<ITimelineSettings> = {
+  duration: 5000,
+  loop: false,
+}
+
+/**
+ * 动画参数错误
+ */
+export class AnimationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AnimationError'
+  }
+}
+
+const hasSize = (
+  shape: ShapeEntity
+): shape is ShapeEntity & { size: { width: number; height: number } } =>
+  'size' in shape && typeof shape.size === 'object' && shape.size !== null
+
+/**
+ * 读取形状自身的数值几何字段，形状类型没有该字段时为 undefined
+ */
+const getGeometryField = (shape: ShapeEntity, property: AnimatableProperty): number | undefined => {
+  const value: unknown = Reflect.get(shape, property)
+  return typeof value === 'number' ? value : undefined
+}
+
+/**
+ * 属性是否适用于该形状
+ */
+export function isAnimatableProperty(shape: ShapeEntity, property: AnimatableProperty): boolean {
+  if (property === 'width' || property === 'height') return hasSize(shape)
+  if (GEOMETRY_FIELDS.includes(property)) {
+    return getGeometryField(shape, property) !== undefined
+  }
+  return ANIMATABLE_PROPERTIES.includes(property)
+}
+
+/**
+ * 读取形状当前的属性值，属性不适用时为 undefined
+ */
+export function getAnimatableValue(
+  shape: ShapeEntity,
+  property: AnimatableProperty
+): KeyframeValue | undefined {
+  const { transform, style } = shape
+  switch (property) {
+    case 'x':
+      return transform.position.x
+    case 'y':
+      return transform.position.y
+    case 'rotation':
+      return transform.rotation
+    case 'scaleX':
+      return transform.scale.x
+    case 'scaleY':
+      return transform.scale.y
+    case 'opacity':
+      return style.opacity ?? 1
+    case 'fillColor':
+    case 'strokeColor':
+      return style[property]
+    case 'strokeWidth':
+      return style.strokeWidth ?? style.lineWidth ?? 1
+    case 'width':
+    case 'height':
+      return hasSize(shape) ? shape.size[property] : undefined
+    default:
+      return getGeometryField(shape, property)
+  }
+}
+
+/**
+ * 返回设置了属性值的新形状，原形状不变；属性不适用或值类型不符时原样返回
+ */
+export function setAnimatableValue<T extends ShapeEntity>(
+  shape: T,
+  property: AnimatableProperty,
+  value: KeyframeValue
+): T {
+  if (!isAnimatableProperty(shape, property)) return shape
+  if (COLOR_PROPERTIES.includes(property)) {
+    return typeof value === 'string'
+      ? { ...shape, style: { ...shape.style, [property]: value } }
+      : shape
+  }
+  if (typeof value !== 'number') return shape
+
+  const { transform } = shape
+  switch (property) {
+    case 'x':
+    case 'y':
+      return {
+        ...shape,
+        transform: { ...transform, position: { ...transform.position, [property]: value } },
+      }
+    case 'rotation':
+      return { ...shape, transform: { ...transform, rotation: value } }
+    case 'scaleX':
+    case 'scaleY':
+      return {
+        ...shape,
+        transform: {
+          ...transform,
+          scale: { ...transform.scale, [property === 'scaleX' ? 'x' : 'y']: value },
+        },
+      }
+    case 'opacity':
+    case 'strokeWidth':
+      return { ...shape, style: { ...shape.style, [property]: value } }
+    case 'width':
+    case 'height':
+      return hasSize(shape) ? { ...shape, size: { ...shape.size, [property]: value } } : shape
+    default:
+      return { ...shape, [property]: value }
+  }
+}
+
+/**
+ * 解析关键帧缓动，未知类型按线性处理
+ */
+export function resolveKeyframeEasing(easing: KeyframeEasing = 'linear'): (t: number) => number {
+  if (Array.isArray(easing)) return EasingFunctions.createBezier(...easing)
+  if (easing === 'step') return () => 0
+  return EasingFunctions.get(easing as EasingType)
+}
+
+/**
+ * 两个关键帧值之间插值：数值线性插值，颜色在 Oklab 空间插值，类型不同时保持起始值
+ */
+export function interpolateKeyframeValue(
+  from: KeyframeValue,
+  to: KeyframeValue,
+  t: number
+): KeyframeValue {
+  if (typeof from === 'number' && typeof to === 'number') {
+    return from + (to - from) * t
+  }
+  if (typeof from === 'string' && typeof to === 'string') {
+    if (t <= 0 || from === to) return from
+    if (t >= 1) return to
+    return colorToHex(lerpColorOklab(parseColor(from), parseColor(to), t), true)
+  }
+  return t >= 1 ? to : from
+}
+
+/**
+ * 求轨道在某一时刻的值：第一个关键帧之前与最后一个关键帧之后保持端点值
+ */
+export function evaluateTrack(track: IKeyframeTrack, time: number): KeyframeValue | undefined {
+  const { keyframes } = track
+  if (keyframes.length === 0) return undefined
+
+  const first = keyframes[0]
+  const last = keyframes[keyframes.length - 1]
+  if (time <= first.time) return first.value
+  if (time >= last.time) return last.value
+
+  let index = 0
+  while (keyframes[index + 1].time <= time) index++
+  const from = keyframes[index]
+  const to = keyframes[index + 1]
+  const progress = (time - from.time) / (to.time - from.time)
+  return interpolateKeyframeValue(
+    from.value,
+    to.value,
+    resolveKeyframeEasing(from.easing)(progress)
+  )
+}
+
+/**
+ * 在轨道中插入关键帧，同一时刻已有关键帧时替换；返回新轨道
+ */
+export function upsertKeyframe(track: IKeyframeTrack, keyframe: IKeyframe): IKeyframeTrack {
+  const keyframes = track.keyframes.filter((existing) => existing.time !== keyframe.time)
+  keyframes.push({ ...keyframe })
+  keyframes.sort((a, b) => a.time - b.time)
+  return { ...track, keyframes }
+}
+
+/**
+ * 删除轨道中指定时刻的关键帧，返回新轨道
+ */
+export function removeKeyframeAt(track: IKeyframeTrack, time: number): IKeyframeTrack {
+  return { ...track, keyframes: track.keyframes.filter((keyframe) => keyframe.time !== time) }
+}
+
+/**
+ * 形状在某一时刻的快照，没有动画轨道时返回原形状
+ */
+export function getAnimatedShape<T extends ShapeEntity>(shape: T, time: number): T {
+  let animated = shape
+  for (const track of shape.animationTracks ?? []) {
+    const value = evaluateTrack(track, time)
+    if (value !== undefined) animated = setAnimatableValue(animated, track.property, value)
+  }
+  return animated
+}
@@ -0,0 +1,144 @@
+/**
+ * 富文本片段操作
+ * 纯函数：输入片段数组返回新的片段数组，偏移量均为 content 中的字符下标
+ */
+
+import type { ITextEntity, ITextRun, ITextRunStyle } from './Shape'
+
+const STYLE_KEYS: Array<keyof ITextRunStyle> = ['bold', 'italic', 'underline', 'color', 'fontSize']
+
+/**
+ * 可切换的布尔样式
+ */
+export type TextRunToggle = 'bold' | 'italic' | 'underline'
+
+/**
+ * 文本实体的片段，没有 runs 时整段内容为一个无样式片段
+ */
+export function getTextRuns(text: Pick<ITextEntity, 'content' | 'runs'>): ITextRun[] {
+  if (text.runs && text.runs.length > 0) return text.runs
+  return text.content ? [{ text: text.content }] : []
+}
+
+export function getRunsText(runs: ITextRun[]): string {
+  return runs.map((run) => run.text).join('')
+}
+
+export function getRunStyle(run: ITextRunStyle): ITextRunStyle {
+  const style: ITextRunStyle = {}
+  for (const key of STYLE_KEYS) {
+    if (run[key] !== undefined) Object.assign(style, { [key]: run[key] })
+  }
+  return style
+}
+
+export function isSameRunStyle(a: ITextRunStyle, b: ITextRunStyle): boolean {
+  return STYLE_KEYS.every((key) => a[key] === b[key])
+}
+
+/**
+ * 去掉空片段并合并样式相同的相邻片段
+ */
+export function normalizeRuns(runs: ITextRun[]): ITextRun[] {
+  const result: ITextRun[] = []
+  for (const run of runs) {
+    if (!run.text) continue
+    const previous = result[result.length - 1]
+    if (previous && isSameRunStyle(previous, run)) {
+      previous.text += run.text
+    } else {
+      result.push({ ...getRunStyle(run), text: run.text })
+    }
+  }
+  return result
+}
+
+/**
+ * 截取 [start, end) 范围内的片段
+ */
+export function sliceRuns(runs: ITextRun[], start: number, end: number): ITextRun[] {
+  const result: ITextRun[] = []
+  let offset = 0
+  for (const run of runs) {
+    const runEnd = offset + run.text.length
+    const from = Math.max(start, offset)
+    const to = Math.min(end, runEnd)
+    if (from < to) result.push({ ...run, text: run.text.slice(from - offset, to - offset) })
+    offset = runEnd
+  }
+  return result
+}
+
+/**
+ * 在 offset 处插入文本
+ */
+export function insertRunText(
+  runs: ITextRun[],
+  offset: number,
+  text: string,
+  style: ITextRunStyle = {}
+): ITextRun[] {
+  const length = getRunsText(runs).length
+  return normalizeRuns([
+    ...sliceRuns(runs, 0, offset),
+    { ...getRunStyle(style), text },
+    ...sliceRuns(runs, offset, length),
+  ])
+}
+
+/**
+ * 删除 [start, end) 范围内的文本
+ */
+export function deleteRunText(runs: ITextRun[], start: number, end: number): ITextRun[] {
+  const length = getRunsText(runs).length
+  return normalizeRuns([...sliceRuns(runs, 0, start), ...sliceRuns(runs, end, length)])
+}
+
+/**
+ * 对 [start, end) 范围设置样式，值为 undefined 的属性恢复为实体默认值
+ */
+export function applyRunStyle(
+  runs: ITextRun[],
+  start: number,
+  end: number,
+  style: ITextRunStyle
+): ITextRun[] {
+  const length = getRunsText(runs).length
+  const styled = sliceRuns(runs, start, end).map((run) => {
+    const next: ITextRun = { ...run }
+    for (const key of STYLE_KEYS) {
+      if (!(key in style)) continue
+      if (style[key] === undefined) delete next[key]
+      else Object.assign(next, { [key]: style[key] })
+    }
+    return next
+  })
+  return normalizeRuns([...sliceRuns(runs, 0, start), ...styled, ...sliceRuns(runs, end, length)])
+}
+
+/**
+ * 光标处的样式：取光标前一个字符的片段，位于开头时取第一个片段
+ */
+export function getRunStyleAt(runs: ITextRun[], offset: number): ITextRunStyle {
+  let position = 0
+  for (const run of runs) {
+    position += run.text.length
+    if (offset <= position && run.text.length > 0) return getRunStyle(run)
+  }
+  const last = runs[runs.length - 1]
+  return last ? getRunStyle(last) : {}
+}
+
+/**
+ * [start, end) 范围内的文本是否全部具有该样式；defaultValue 为实体默认值（如实体整体加粗）
+ */
+export function isRunStyleActive(
+  runs: ITextRun[],
+  start: number,
+  end: number,
+  key: TextRunToggle,
+  defaultValue = false
+): boolean {
+  if (start === end) return getRunStyleAt(runs, start)[key] ?? defaultValue
+  return sliceRuns(runs, start, end).every((run) => run[key] ?? defaultValue)
+}
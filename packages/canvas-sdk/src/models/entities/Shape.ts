@@ -3,6 +3,8 @@
  * MVVM架构中的Model层 - 纯数据模型，不包含渲染逻辑
  */
 
+import type { IKeyframeTrack } from './Animation'
+
 export interface IPoint {
   x: number
   y: number
@@ -19,15 +21,108 @@ export interface ITransform {
   scale: IPoint
 }
 
+export interface IStyleGradientStop {
+  /** 色标标识，在同一渐变内唯一 */
+  id: string
+  /** 0-1 */
+  offset: number
+  color: string
+}
+
+/**
+ * 渐变填充，几何参数相对形状本地边界框
+ */
+export interface IStyleGradient {
+  type: 'linear-gradient' | 'radial-gradient' | 'conic-gradient'
+  stops: IStyleGradientStop[]
+  /** 线性渐变方向/锥形渐变起始角（弧度），默认 0 即从左到右 */
+  angle?: number
+  /** 径向/锥形渐变中心（0-1），默认 { x: 0.5, y: 0.5 } */
+  center?: IPoint
+  /** 径向渐变半径，相对边界框较大边，默认 0.5 */
+  radius?: number
+}
+
+/**
+ * 图案填充，图片按 width x height 平铺，起点为本地边界框左上角
+ */
+export interface IStylePattern {
+  type: 'pattern'
+  src: string
+  width: number
+  height: number
+  repetition?: 'repeat' | 'repeat-x' | 'repeat-y' | 'no-repeat'
+}
+
+export type StylePaint = IStyleGradient | IStylePattern
+
 export interface IStyle {
   fillColor?: string
   strokeColor?: string
+  /** 渐变/图案填充，优先于 fillColor；图案未加载时回退到 fillColor */
+  fillPaint?: StylePaint
+  /** 渐变/图案描边，优先于 strokeColor */
+  strokePaint?: StylePaint
   strokeWidth?: number
   lineWidth?: number // 兼容旧代码
   opacity?: number
   lineDash?: number[]
 }
 
+/**
+ * 阴影效果（投影/内阴影），偏移与模糊半径为本地坐标
+ */
+export interface IShadowEffect {
+  id: string
+  type: 'drop-shadow' | 'inner-shadow'
+  offsetX: number
+  offsetY: number
+  blur: number
+  color: string
+  opacity?: number
+  enabled?: boolean
+}
+
+export interface IBlurEffect {
+  id: string
+  type: 'blur'
+  radius: number
+  enabled?: boolean
+}
+
+export interface IGlowEffect {
+  id: string
+  type: 'glow'
+  color: string
+  blur: number
+  strength: number
+  enabled?: boolean
+}
+
+/**
+ * 颜色调整：亮度/对比度/饱和度取 -100~100，色相旋转为角度，灰度取 0~1
+ */
+export interface IColorAdjustEffect {
+  id: string
+  type: 'brightness' | 'contrast' | 'saturation' | 'hue-rotate' | 'grayscale'
+  value: number
+  enabled?: boolean
+}
+
+/**
+ * 形状效果，id 在同一形状内唯一
+ */
+export type ShapeEffect = IShadowEffect | IBlurEffect | IGlowEffect | IColorAdjustEffect
+
+/**
+ * 创建效果所需的参数，标识由 createShapeEffect 生成
+ */
+export type ShapeEffectInit = ShapeEffect extends infer T
+  ? T extends ShapeEffect
+    ? Omit<T, 'id'>
+    : never
+  : never
+
 export interface IImageDataLike {
   width: number
   height: number
@@ -42,10 +137,14 @@ export interface IShapeEntity {
   type: string
   transform: ITransform
   style: IStyle
+  /** 形状效果，按顺序依次作用 */
+  effects?: ShapeEffect[]
   visible: boolean
   zIndex: number
   locked: boolean
   metadata?: Record<string, unknown>
+  /** 关键帧动画轨道，每个属性一条 */
+  animationTracks?: IKeyframeTrack[]
   createdAt: Date
   updatedAt: Date
 }
@@ -97,15 +196,89 @@ export interface IPathEntity extends IShapeEntity {
 }
 
 /**
- * 文本实体
+ * 自由绘制采样点（相对形状位置）
+ */
+export interface IFreehandPoint extends IPoint {
+  /** 压力 0-1 */
+  pressure: number
+  tiltX?: number
+  tiltY?: number
+}
+
+/**
+ * 自由绘制笔刷参数
+ */
+export interface IFreehandBrush {
+  /** 压力为 0.5 时的笔触直径 */
+  size: number
+  /** 压力对粗细的影响 0-1 */
+  thinning: number
+  /** 输入平滑 0-1 */
+  smoothing: number
+  /** 起笔、收笔渐细长度（像素） */
+  taperStart: number
+  taperEnd: number
+  /** 按速度模拟压力（无压感设备） */
+  simulatePressure?: boolean
+  /** 倾斜使笔触变宽的比例 0-1 */
+  tiltInfluence?: number
+}
+
+/**
+ * 默认笔刷：中等粗细、适度压感与平滑
+ */
+export const DEFAULT_FREEHAND_BRUSH: IFreehandBrush = {
+  size: 8,
+  thinning: 0.6,
+  smoothing: 0.5,
+  taperStart: 0,
+  taperEnd: 0,
+}
+
+/**
+ * 自由绘制实体：保存原始采样与笔刷，以填充色绘制生成的可变宽度轮廓
+ */
+export interface IFreehandEntity extends IShapeEntity {
+  type: 'freehand'
+  points: IFreehandPoint[]
+  brush: IFreehandBrush
+  /** 由采样点与笔刷生成的闭合轮廓（SVG path data） */
+  pathData: string
+}
+
+/**
+ * 富文本片段的样式，未设置的属性沿用文本实体的默认值
+ */
+export interface ITextRunStyle {
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  color?: string
+  fontSize?: number
+}
+
+/**
+ * 富文本片段
+ */
+export interface ITextRun extends ITextRunStyle {
+  text: string
+}
+
+/**
+ * 文本实体：position 为首行基线的左端
  */
 export interface ITextEntity extends IShapeEntity {
   type: 'text'
+  /** 纯文本内容，有 runs 时与各片段文本拼接结果一致 */
   content: string
+  /** 分段样式，缺省时整段使用实体样式 */
+  runs?: ITextRun[]
   fontSize: number
   fontFamily: string
   fontWeight: 'normal' | 'bold'
-  textAlign: 'left' | 'center' | 'right'
+  textAlign: 'left' | 'center' | 'right' | 'justify'
+  /** 固定宽度，设置后按宽度自动换行；缺省时宽度随内容 */
+  width?: number
 }
 
 export interface IImageEntity extends IShapeEntity {
@@ -121,6 +294,141 @@ export interface IGroupEntity extends IShapeEntity {
   childrenIds: string[]
 }
 
+/**
+ * 连接线路由方式：直线、正交折线、三次曲线
+ */
+export type ConnectorRouting = 'straight' | 'elbow' | 'curved'
+
+/**
+ * 连接线端点箭头样式
+ */
+export type ConnectorArrowhead = 'none' | 'arrow' | 'triangle' | 'circle' | 'diamond' | 'bar'
+
+/**
+ * 连接线端点
+ */
+export interface IConnectorEndpoint {
+  /** 绑定的形状 id，未绑定时端点自由 */
+  shapeId?: string
+  /** 固定锚点，相对形状本地边界框（0-1）；绑定但缺省时为浮动锚点，取朝向另一端的边界 */
+  anchor?: IPoint
+  /** 端点位置（相对连线原点），绑定时由路由更新 */
+  point: IPoint
+}
+
+export interface IConnectorLabel {
+  text: string
+  /** 沿路径的位置 0-1，默认 0.5 */
+  position?: number
+  fontSize?: number
+  color?: string
+  /** 标签底色，遮住下方线段 */
+  background?: string
+}
+
+/**
+ * 连接线实体：两端可绑定到形状，被绑定形状移动或缩放时由 CanvasManager 重新路由
+ */
+export interface IConnectorEntity extends IShapeEntity {
+  type: 'connector'
+  start: IConnectorEndpoint
+  end: IConnectorEndpoint
+  routing: ConnectorRouting
+  startArrowhead: ConnectorArrowhead
+  endArrowhead: ConnectorArrowhead
+  label?: IConnectorLabel
+  /** 路由结果（本地坐标）：折线顶点，曲线时为起点、两个控制点、终点 */
+  waypoints: IPoint[]
+  /** 由路由结果生成的路径（SVG path data） */
+  pathData: string
+}
+
+/**
+ * 菱形实体：顶点位于边界框四边中点
+ */
+export interface IDiamondEntity extends IShapeEntity {
+  type: 'diamond'
+  size: ISize
+}
+
+/**
+ * 便签实体：文本按宽度自动换行，超出 size.height 时高度随内容增长
+ */
+export interface IStickyEntity extends IShapeEntity {
+  type: 'sticky'
+  /** 宽度与最小高度 */
+  size: ISize
+  content: string
+  fontSize: number
+  fontFamily: string
+  textAlign: 'left' | 'center' | 'right'
+}
+
+/**
+ * 链接卡片实体：展示链接的标题、描述与预览图，可嵌入的链接以嵌入形式展示
+ */
+export interface ILinkEntity extends IShapeEntity {
+  type: 'link'
+  size: ISize
+  url: string
+  title?: string
+  description?: string
+  /** 预览图地址 */
+  thumbnail?: string
+  /** 嵌入地址（视频、设计稿等），存在时以嵌入形式展示 */
+  embedUrl?: string
+}
+
+/**
+ * 画框实体：拥有并裁剪其子形状，移动画框时子形状随之移动，可单独导出为画板
+ */
+export interface IFrameEntity extends IShapeEntity {
+  type: 'frame'
+  size: ISize
+  name: string
+  /** 子形状 id，子形状通过 metadata.frameId 指回画框 */
+  childrenIds: string[]
+  /** 是否裁剪超出画框的内容 */
+  clipContent: boolean
+}
+
+/**
+ * 自定义形状的类型，形如 '命名空间:名称'（如 'db:table'），不会与内置类型冲突
+ */
+export type CustomShapeType = `${string}:${string}`
+
+/**
+ * 自定义形状实体：由形状类型注册表描述其数据结构、渲染与序列化；
+ * 类型未注册时原样保留，渲染为占位框
+ */
+export interface ICustomShapeEntity extends IShapeEntity {
+  type: CustomShapeType
+  size: ISize
+  /** 类型自定义的数据，结构由注册的 schema 描述 */
+  data: Record<string, unknown>
+}
+
+/**
+ * 是否为自定义形状
+ */
+export function isCustomShape(shape: { type: string }): shape is ICustomShapeEntity {
+  return shape.type.includes(':')
+}
+
+/**
+ * 创建带标识的渐变色标
+ */
+export function createGradientStop(offset: number, color: string): IStyleGradientStop {
+  return { id: `stop_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`, offset, color }
+}
+
+/**
+ * 创建带标识的效果
+ */
+export function createShapeEffect(effect: ShapeEffectInit): ShapeEffect {
+  return { ...effect, id: `effect_${Date.now()}_${Math.random().toString(36).substring(2, 11)}` }
+}
+
 /**
  * 联合类型
  */
@@ -131,9 +439,16 @@ export type ShapeEntity =
   | IPolygonEntity
   | IStarEntity
   | IPathEntity
+  | IFreehandEntity
   | ITextEntity
   | IImageEntity
   | IGroupEntity
+  | IConnectorEntity
+  | IDiamondEntity
+  | IStickyEntity
+  | ILinkEntity
+  | IFrameEntity
+  | ICustomShapeEntity
 
 /**
  * 形状工厂函数
@@ -292,6 +607,33 @@ export class ShapeEntityFactory {
     }
   }
 
+  static createFreehand(
+    points: IFreehandPoint[],
+    brush: IFreehandBrush,
+    pathData: string,
+    position: IPoint = { x: 0, y: 0 },
+    style: IStyle = {}
+  ): IFreehandEntity {
+    return {
+      id: ShapeEntityFactory.generateId(),
+      type: 'freehand',
+      transform: {
+        position,
+        rotation: 0,
+        scale: { x: 1, y: 1 },
+      },
+      style,
+      points,
+      brush,
+      pathData,
+      visible: true,
+      zIndex: 0,
+      locked: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+  }
+
   static createText(
     content: string,
     position: IPoint = { x: 0, y: 0 },
@@ -370,4 +712,173 @@ export class ShapeEntityFactory {
       updatedAt: new Date(),
     }
   }
+
+  /**
+   * 创建连接线，端点为世界坐标；绑定形状后的路由由调用方完成
+   */
+  static createConnector(
+    start: IPoint,
+    end: IPoint,
+    style: IStyle = {},
+    routing: ConnectorRouting = 'straight',
+    startArrowhead: ConnectorArrowhead = 'none',
+    endArrowhead: ConnectorArrowhead = 'arrow'
+  ): IConnectorEntity {
+    const point = { x: end.x - start.x, y: end.y - start.y }
+    return {
+      id: ShapeEntityFactory.generateId(),
+      type: 'connector',
+      transform: {
+        position: { x: start.x, y: start.y },
+        rotation: 0,
+        scale: { x: 1, y: 1 },
+      },
+      style,
+      start: { point: { x: 0, y: 0 } },
+      end: { point },
+      routing,
+      startArrowhead,
+      endArrowhead,
+      waypoints: [{ x: 0, y: 0 }, point],
+      pathData: `M0,0 L${point.x},${point.y}`,
+      visible: true,
+      zIndex: 0,
+      locked: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+  }
+
+  static createDiamond(
+    position: IPoint = { x: 0, y: 0 },
+    size: ISize = { width: 100, height: 100 },
+    style: IStyle = {}
+  ): IDiamondEntity {
+    return {
+      id: ShapeEntityFactory.generateId(),
+      type: 'diamond',
+      transform: {
+        position,
+        rotation: 0,
+        scale: { x: 1, y: 1 },
+      },
+      style,
+      size,
+      visible: true,
+      zIndex: 0,
+      locked: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+  }
+
+  static createSticky(
+    content: string,
+    position: IPoint = { x: 0, y: 0 },
+    size: ISize = { width: 200, height: 200 },
+    style: IStyle = {}
+  ): IStickyEntity {
+    return {
+      id: ShapeEntityFactory.generateId(),
+      type: 'sticky',
+      transform: {
+        position,
+        rotation: 0,
+        scale: { x: 1, y: 1 },
+      },
+      style,
+      size,
+      content,
+      fontSize: 16,
+      fontFamily: 'Arial',
+      textAlign: 'left',
+      visible: true,
+      zIndex: 0,
+      locked: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+  }
+
+  static createLink(
+    url: string,
+    position: IPoint = { x: 0, y: 0 },
+    size: ISize = { width: 320, height: 96 },
+    style: IStyle = {}
+  ): ILinkEntity {
+    return {
+      id: ShapeEntityFactory.generateId(),
+      type: 'link',
+      transform: {
+        position,
+        rotation: 0,
+        scale: { x: 1, y: 1 },
+      },
+      style,
+      size,
+      url,
+      visible: true,
+      zIndex: 0,
+      locked: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+  }
+
+  static createFrame(
+    name: string,
+    position: IPoint = { x: 0, y: 0 },
+    size: ISize = { width: 400, height: 300 },
+    style: IStyle = {},
+    childrenIds: string[] = []
+  ): IFrameEntity {
+    return {
+      id: ShapeEntityFactory.generateId(),
+      type: 'frame',
+      transform: {
+        position,
+        rotation: 0,
+        scale: { x: 1, y: 1 },
+      },
+      style,
+      size,
+      name,
+      childrenIds,
+      clipContent: true,
+      visible: true,
+      zIndex: 0,
+      locked: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+  }
+
+  /**
+   * 创建自定义形状，默认值与数据校验由形状类型注册表负责
+   */
+  static createCustom(
+    type: CustomShapeType,
+    position: IPoint = { x: 0, y: 0 },
+    size: ISize = { width: 100, height: 100 },
+    data: Record<string, unknown> = {},
+    style: IStyle = {}
+  ): ICustomShapeEntity {
+    return {
+      id: ShapeEntityFactory.generateId(),
+      type,
+      transform: {
+        position,
+        rotation: 0,
+        scale: { x: 1, y: 1 },
+      },
+      style,
+      size,
+      data,
+      visible: true,
+      zIndex: 0,
+      locked: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+  }
 }
@@ -0,0 +1,269 @@
+/**
+ * 形状类型注册表
+ * 插件为 '命名空间:名称' 形式的自定义类型登记数据结构、默认值、渲染、边界与命中测试、
+ * 缩放行为以及 SVG/JSON 序列化；未注册的类型原样保留，渲染与导出为占位框
+ */
+
+import type { IGraphicsContext, IRect } from '@sky-canvas/render-engine'
+import {
+  type CustomShapeType,
+  type ICustomShapeEntity,
+  type IPoint,
+  type ISize,
+  type IStyle,
+  isCustomShape,
+  ShapeEntityFactory,
+} from './Shape'
+
+/**
+ * data 中单个字段的结构描述
+ */
+export interface IShapeDataField {
+  type: 'string' | 'number' | 'boolean' | 'array' | 'object'
+  description?: string
+  default?: unknown
+  /** 必填字段缺失且没有默认值时创建失败 */
+  required?: boolean
+}
+
+/**
+ * 自定义形状 data 的结构，键为字段名
+ */
+export type ShapeDataSchema = Record<string, IShapeDataField>
+
+/**
+ * 缩放手柄
+ */
+export type ShapeResizeHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w'
+
+/**
+ * 缩放结果：约束后的尺寸，以及随尺寸变化的数据
+ */
+export interface IShapeResizeResult {
+  size: ISize
+  data?: Record<string, unknown>
+}
+
+/**
+ * 自定义形状类型
+ */
+export interface IShapeTypeDefinition {
+  type: CustomShapeType
+  name: string
+  schema?: ShapeDataSchema
+  /** 新建形状的默认尺寸、样式与数据 */
+  defaults?: {
+    size?: ISize
+    style?: IStyle
+    data?: Record<string, unknown>
+  }
+  /** 在形状的本地坐标系中绘制，变换、透明度与填充描边样式已经应用 */
+  render(context: IGraphicsContext, shape: ICustomShapeEntity): void
+  /** 本地边界框，缺省为 (0, 0) 起的 size */
+  getBounds?(shape: ICustomShapeEntity): IRect
+  /** 本地坐标的命中测试，缺省按边界框判断 */
+  hitTest?(shape: ICustomShapeEntity, point: IPoint, tolerance: number): boolean
+  /** 约束选择工具拖拽手柄得到的尺寸，缺省直接使用 */
+  resize?(shape: ICustomShapeEntity, size: ISize, handle: ShapeResizeHandle): IShapeResizeResult
+  /** 本地坐标的 SVG 片段，导出时放在已应用变换与样式的 <g> 中 */
+  toSVG?(shape: ICustomShapeEntity): string
+  /** 把 data 转为可 JSON 序列化的对象，缺省原样保存 */
+  toJSON?(shape: ICustomShapeEntity): Record<string, unknown>
+  /** 从 toJSON 的结果恢复 data */
+  fromJSON?(json: Record<string, unknown>): Record<string, unknown>
+  /** 注册该类型的插件 */
+  pluginId?: string
+}
+
+/**
+ * 形状类型注册或数据校验错误
+ */
+export class ShapeTypeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ShapeTypeError'
+  }
+}
+
+const DEFAULT_SIZE: ISize = { width: 100, height: 100 }
+
+const matchesField = (value: unknown, field: IShapeDataField): boolean => {
+  switch (field.type) {
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+    default:
+      return typeof value === field.type
+  }
+}
+
+/**
+ * 形状类型注册表
+ */
+export class ShapeTypeRegistry {
+  private definitions = new Map<string, IShapeTypeDefinition>()
+  private listeners = new Set<(type: CustomShapeType) => void>()
+
+  /**
+   * 注册形状类型，类型必须带命名空间且不能重复；返回注销函数
+   */
+  register(definition: IShapeTypeDefinition): () => void {
+    if (!isCustomShape(definition)) {
+      throw new ShapeTypeError(
+        `Shape type '${definition.type}' must be namespaced, e.g. 'plugin:${definition.type}'`
+      )
+    }
+    if (typeof definition.render !== 'function') {
+      throw new ShapeTypeError(`Shape type '${definition.type}' must implement render()`)
+    }
+    const existing = this.definitions.get(definition.type)
+    if (existing) {
+      const owner = existing.pluginId ? `plugin '${existing.pluginId}'` : 'the editor'
+      throw new ShapeTypeError(`Shape type '${definition.type}' is already registered by ${owner}`)
+    }
+
+    this.definitions.set(definition.type, definition)
+    this.notify(definition.type)
+    return () => {
+      if (this.definitions.get(definition.type) === definition) this.unregister(definition.type)
+    }
+  }
+
+  /**
+   * 注销形状类型，已有的该类型形状保留数据并显示为占位框
+   */
+  unregister(type: string): void {
+    if (this.definitions.delete(type)) this.notify(type as CustomShapeType)
+  }
+
+  /**
+   * 注销插件注册的所有形状类型
+   */
+  unregisterPlugin(pluginId: string): void {
+    for (const definition of this.getDefinitions()) {
+      if (definition.pluginId === pluginId) this.unregister(definition.type)
+    }
+  }
+
+  get(type: string): IShapeTypeDefinition | undefined {
+    return this.definitions.get(type)
+  }
+
+  has(type: string): boolean {
+    return this.definitions.has(type)
+  }
+
+  getDefinitions(): IShapeTypeDefinition[] {
+    return Array.from(this.definitions.values())
+  }
+
+  /**
+   * 按类型的默认值创建形状
+   */
+  create(
+    type: CustomShapeType,
+    options: {
+      position?: IPoint
+      size?: ISize
+      style?: IStyle
+      data?: Record<string, unknown>
+    } = {}
+  ): ICustomShapeEntity {
+    const definition = this.definitions.get(type)
+    if (!definition) {
+      throw new ShapeTypeError(`Shape type '${type}' is not registered`)
+    }
+    const { defaults } = definition
+    return ShapeEntityFactory.createCustom(
+      type,
+      options.position,
+      { ...(options.size ?? defaults?.size ?? DEFAULT_SIZE) },
+      this.normalizeData(type, { ...cloneValue(defaults?.data), ...options.data }),
+      { ...defaults?.style, ...options.style }
+    )
+  }
+
+  /**
+   * 按 schema 补全默认值并校验字段类型；类型未注册或没有 schema 时原样返回
+   */
+  normalizeData(type: string, data: Record<string, unknown>): Record<string, unknown> {
+    const schema = this.definitions.get(type)?.schema
+    if (!schema) return data
+
+    const normalized = { ...data }
+    for (const [key, field] of Object.entries(schema)) {
+      const value = normalized[key] ?? cloneValue(field.default)
+      if (value === undefined) {
+        if (field.required) {
+          throw new ShapeTypeError(`Shape type '${type}' requires data field '${key}'`)
+        }
+        continue
+      }
+      if (!matchesField(value, field)) {
+        throw new ShapeTypeError(
+          `Data field '${key}' of shape type '${type}' must be ${field.type}`
+        )
+      }
+      normalized[key] = value
+    }
+    return normalized
+  }
+
+  /**
+   * 本地边界框，类型未注册时为 (0, 0) 起的 size
+   */
+  getLocalBounds(shape: ICustomShapeEntity): IRect {
+    const definition = this.definitions.get(shape.type)
+    if (definition?.getBounds) {
+      try {
+        return definition.getBounds(shape)
+      } catch {}
+    }
+    const size = shape.size ?? DEFAULT_SIZE
+    return { x: 0, y: 0, width: size.width, height: size.height }
+  }
+
+  /**
+   * 序列化 data，类型未注册时原样保留，保证没有插件时打开再保存不丢失数据
+   */
+  serializeData(shape: ICustomShapeEntity): Record<string, unknown> {
+    const definition = this.definitions.get(shape.type)
+    return definition?.toJSON ? definition.toJSON(shape) : shape.data
+  }
+
+  deserializeData(type: string, json: Record<string, unknown>): Record<string, unknown> {
+    const definition = this.definitions.get(type)
+    return definition?.fromJSON ? definition.fromJSON(json) : json
+  }
+
+  /**
+   * 监听形状类型的注册与注销
+   */
+  onDidChange(listener: (type: CustomShapeType) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private notify(type: CustomShapeType): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(type)
+      } catch {}
+    }
+  }
+}
+
+/**
+ * 默认值为对象或数组时复制一份，避免形状之间共享
+ */
+function cloneValue<T>(value: T): T {
+  return typeof value === 'object' && value !== null
+    ? (JSON.parse(JSON.stringify(value)) as T)
+    : value
+}
+
+/**
+ * 默认的形状类型注册表
+ */
+export const shapeTypeRegistry = new ShapeTypeRegistry()
@@ -2,10 +2,17 @@
  * MVVM架构 - Model层导出
  */
 
+export * from './document/SkyCanvasDocument'
+// 关键帧动画
+export * from './entities/Animation'
 export * from './entities/Layer'
+// 富文本片段操作
+export * from './entities/RichText'
 export * from './entities/Scene'
 // 实体类型
 export * from './entities/Shape'
+// 自定义形状类型
+export * from './entities/ShapeTypeRegistry'
 
 // 仓储接口
 export * from './repositories/IShapeRepository'
@@ -0,0 +1,261 @@
+/**
+ * 插件依赖解析器 - 根据清单的 dependencies、peerDependencies 与 minEngineVersion 构建依赖图，
+ * 检查循环依赖与版本冲突，并给出依赖在前的激活顺序
+ * dependencies 必须已加载且版本满足；peerDependencies 未加载时只给出警告，已加载则同样检查版本
+ */
+
+import {
+  compareVersions,
+  isValidVersionRange,
+  satisfiesVersionRange,
+} from '@sky-canvas/render-engine'
+import type { PluginManifest } from '../types/PluginTypes'
+
+/**
+ * 插件 API 的版本，插件清单的 minEngineVersion 与之比较
+ */
+export const PLUGIN_ENGINE_VERSION = '1.0.0'
+
+export type DependencyDiagnosticKind = 'engine' | 'missing' | 'version' | 'invalid-range' | 'cycle'
+
+/**
+ * 依赖诊断信息
+ */
+export interface DependencyDiagnostic {
+  pluginId: string
+  kind: DependencyDiagnosticKind
+  severity: 'error' | 'warning'
+  message: string
+  dependency?: string
+  required?: string
+  actual?: string
+  /** 循环依赖的路径，首尾相同 */
+  cycle?: string[]
+}
+
+/**
+ * 依赖解析结果
+ */
+export interface DependencyResolution {
+  /** 可以激活的插件，依赖在前 */
+  order: string[]
+  /** 自身或依赖存在错误、无法激活的插件 */
+  blocked: string[]
+  diagnostics: DependencyDiagnostic[]
+}
+
+/**
+ * 插件依赖无法满足
+ */
+export class PluginDependencyError extends Error {
+  constructor(
+    message: string,
+    public readonly diagnostics: DependencyDiagnostic[]
+  ) {
+    super(message)
+    this.name = 'PluginDependencyError'
+  }
+}
+
+/**
+ * 把诊断信息拼成错误消息
+ */
+export function formatDependencyDiagnostics(
+  summary: string,
+  diagnostics: DependencyDiagnostic[]
+): string {
+  return [summary, ...diagnostics.map((diagnostic) => `  - ${diagnostic.message}`)].join('\n')
+}
+
+export class DependencyResolver {
+  constructor(private readonly engineVersion: string = PLUGIN_ENGINE_VERSION) {}
+
+  getEngineVersion(): string {
+    return this.engineVersion
+  }
+
+  /**
+   * 检查插件要求的最低引擎版本
+   */
+  checkEngine(manifest: PluginManifest): DependencyDiagnostic | null {
+    if (!manifest.minEngineVersion) return null
+    if (compareVersions(this.engineVersion, manifest.minEngineVersion) >= 0) return null
+    return {
+      pluginId: manifest.id,
+      kind: 'engine',
+      severity: 'error',
+      required: manifest.minEngineVersion,
+      actual: this.engineVersion,
+      message: `Plugin '${manifest.id}' requires engine ${manifest.minEngineVersion} or later, but the engine is ${this.engineVersion}`,
+    }
+  }
+
+  /**
+   * 解析插件的依赖；指定 targets 时只解析这些插件及其传递依赖
+   */
+  resolve(manifests: Iterable<PluginManifest>, targets?: string[]): DependencyResolution {
+    const graph = new Map<string, PluginManifest>()
+    for (const manifest of manifests) graph.set(manifest.id, manifest)
+
+    const roots = targets ?? Array.from(graph.keys())
+    const order: string[] = []
+    const blocked = new Set<string>()
+    const diagnostics: DependencyDiagnostic[] = []
+    const state = new Map<string, 'visiting' | 'done'>()
+    const path: string[] = []
+
+    const visit = (pluginId: string): void => {
+      const manifest = graph.get(pluginId)
+      if (!manifest || state.get(pluginId) === 'done') return
+
+      if (state.get(pluginId) === 'visiting') {
+        const cycle = [...path.slice(path.indexOf(pluginId)), pluginId]
+        diagnostics.push({
+          pluginId,
+          kind: 'cycle',
+          severity: 'error',
+          cycle,
+          message: `Circular plugin dependency: ${cycle.join(' → ')}`,
+        })
+        for (const member of cycle) blocked.add(member)
+        return
+      }
+
+      state.set(pluginId, 'visiting')
+      path.push(pluginId)
+
+      const issues = this.checkManifest(manifest, graph)
+      diagnostics.push(...issues)
+      if (issues.some((issue) => issue.severity === 'error')) blocked.add(pluginId)
+
+      for (const dependency of this.getEdges(manifest, graph)) {
+        visit(dependency)
+        if (blocked.has(dependency)) blocked.add(pluginId)
+      }
+
+      path.pop()
+      state.set(pluginId, 'done')
+      order.push(pluginId)
+    }
+
+    for (const root of roots) visit(root)
+
+    // 环上的插件在回溯前已加入 order，这里统一剔除
+    return {
+      order: order.filter((pluginId) => !blocked.has(pluginId)),
+      blocked: order.filter((pluginId) => blocked.has(pluginId)),
+      diagnostics,
+    }
+  }
+
+  /**
+   * 直接或间接依赖该插件的插件，越靠外层的依赖方越靠前，即可按此顺序停用
+   */
+  getDependents(manifests: Iterable<PluginManifest>, pluginId: string): string[] {
+    const graph = new Map<string, PluginManifest>()
+    for (const manifest of manifests) graph.set(manifest.id, manifest)
+
+    const dependents = new Map<string, string[]>()
+    for (const manifest of graph.values()) {
+      for (const dependency of this.getEdges(manifest, graph)) {
+        if (!dependents.has(dependency)) dependents.set(dependency, [])
+        dependents.get(dependency)?.push(manifest.id)
+      }
+    }
+
+    const result: string[] = []
+    const visited = new Set<string>([pluginId])
+    const visit = (id: string): void => {
+      for (const dependent of dependents.get(id) ?? []) {
+        if (visited.has(dependent)) continue
+        visited.add(dependent)
+        visit(dependent)
+        result.push(dependent)
+      }
+    }
+    visit(pluginId)
+    return result
+  }
+
+  /**
+   * 已加载的依赖，包括已加载的 peerDependencies
+   */
+  private getEdges(manifest: PluginManifest, graph: Map<string, PluginManifest>): string[] {
+    const peers = Object.keys(manifest.peerDependencies ?? {}).filter((id) => graph.has(id))
+    return [...Object.keys(manifest.dependencies ?? {}), ...peers].filter((id) => graph.has(id))
+  }
+
+  private checkManifest(
+    manifest: PluginManifest,
+    graph: Map<string, PluginManifest>
+  ): DependencyDiagnostic[] {
+    const diagnostics: DependencyDiagnostic[] = []
+    const engine = this.checkEngine(manifest)
+    if (engine) diagnostics.push(engine)
+
+    const requirements: Array<[string, string, boolean]> = [
+      ...Object.entries(manifest.dependencies ?? {}).map(
+        ([id, range]): [string, string, boolean] => [id, range, false]
+      ),
+      ...Object.entries(manifest.peerDependencies ?? {}).map(
+        ([id, range]): [string, string, boolean] => [id, range, true]
+      ),
+    ]
+
+    for (const [dependency, required, peer] of requirements) {
+      const kind = peer ? 'peer dependency' : 'dependency'
+      const base = { pluginId: manifest.id, dependency, required }
+
+      if (!isValidVersionRange(required)) {
+        diagnostics.push({
+          ...base,
+          kind: 'invalid-range',
+          severity: 'error',
+          message: `Plugin '${manifest.id}' declares an invalid version range '${required}' for ${kind} '${dependency}'`,
+        })
+        continue
+      }
+
+      const installed = graph.get(dependency)
+      if (!installed) {
+        diagnostics.push({
+          ...base,
+          kind: 'missing',
+          severity: peer ? 'warning' : 'error',
+          message: `Plugin '${manifest.id}' requires ${kind} '${dependency}@${required}', which is not loaded`,
+        })
+        continue
+      }
+
+      if (!satisfiesVersionRange(installed.version, required)) {
+        const others = this.describeOtherRequirements(dependency, manifest.id, graph)
+        diagnostics.push({
+          ...base,
+          kind: 'version',
+          severity: 'error',
+          actual: installed.version,
+          message: `Plugin '${manifest.id}' requires ${kind} '${dependency}@${required}', but ${installed.version} is loaded${others}`,
+        })
+      }
+    }
+
+    return diagnostics
+  }
+
+  /**
+   * 列出其他插件对同一依赖的版本要求，便于定位冲突
+   */
+  private describeOtherRequirements(
+    dependency: string,
+    exclude: string,
+    graph: Map<string, PluginManifest>
+  ): string {
+    const others: string[] = []
+    for (const manifest of graph.values()) {
+      if (manifest.id === exclude) continue
+      const range = manifest.dependencies?.[dependency] ?? manifest.peerDependencies?.[dependency]
+      if (range) others.push(`'${manifest.id}' requires ${range}`)
+    }
+    return others.length > 0 ? ` (${others.join(', ')})` : ''
+  }
+}
@@ -350,4 +350,11 @@ export const DEFAULT_EXTENSION_POINTS: ExtensionPointDeclaration[] = [
     description: '注册图像滤镜',
     required: false,
   },
+  {
+    id: 'canvas.shapes',
+    type: ExtensionPointType.SHAPE,
+    name: '形状类型',
+    description: '注册自定义形状类型',
+    required: false,
+  },
 ]
@@ -271,7 +271,7 @@ export class PermissionManager {
   /**
    * 获取API所需权限
    */
-  private getRequiredPermissionForAPI(apiPath: string): PluginPermission | null {
+  getRequiredPermissionForAPI(apiPath: string): PluginPermission | null {
     const apiPermissionMap: Record<string, PluginPermission> = {
       // 画布API
       'canvas.addShape': PluginPermission.CANVAS_MODIFY,
@@ -321,10 +321,38 @@ export class PermissionManager {
       'tools.register': PluginPermission.CANVAS_MODIFY,
       'tools.unregister': PluginPermission.CANVAS_MODIFY,
       'tools.setActive': PluginPermission.CANVAS_MODIFY,
+      'tools.getActive': PluginPermission.READ_ONLY,
 
       // 渲染器API
       'renderers.register': PluginPermission.CANVAS_MODIFY,
       'renderers.unregister': PluginPermission.CANVAS_MODIFY,
+      'renderers.getAvailable': PluginPermission.READ_ONLY,
+
+      // 形状类型API
+      'shapes.register': PluginPermission.CANVAS_MODIFY,
+      'shapes.unregister': PluginPermission.CANVAS_MODIFY,
+
+      // 插件自身的配置，保存在插件独占的存储键下
+      'config.get': PluginPermission.READ_ONLY,
+      'config.set': PluginPermission.READ_ONLY,
+      'config.has': PluginPermission.READ_ONLY,
+      'config.delete': PluginPermission.READ_ONLY,
+      'config.clear': PluginPermission.READ_ONLY,
+      'config.getAll': PluginPermission.READ_ONLY,
+
+      // 依赖插件导出的 API
+      'dependencies.get': PluginPermission.READ_ONLY,
+      'dependencies.has': PluginPermission.READ_ONLY,
+
+      // 插件资源，加载资源会发起网络请求
+      'resources.loadAsset': PluginPermission.NETWORK_ACCESS,
+      'resources.preloadAssets': PluginPermission.NETWORK_ACCESS,
+      'resources.getAssetUrl': PluginPermission.READ_ONLY,
+      'resources.register': PluginPermission.READ_ONLY,
+      'resources.get': PluginPermission.READ_ONLY,
+      'resources.has': PluginPermission.READ_ONLY,
+      'resources.release': PluginPermission.READ_ONLY,
+      'resources.releaseAll': PluginPermission.READ_ONLY,
     }
 
     return apiPermissionMap[apiPath] || null
@@ -2,6 +2,9 @@
  * 插件上下文实现 - 为插件提供API访问和服务
  */
 
+import type { ShapeEntity } from '../../models/entities/Shape'
+import { type IShapeTypeDefinition, ShapeTypeError } from '../../models/entities/ShapeTypeRegistry'
+import type { FormatExportResult, FormatOptions } from '../../services/format/formatRegistry'
 import type {
   CustomRenderer,
   Dialog,
@@ -12,6 +15,7 @@ import type {
   PluginAPI,
   PluginConfig,
   PluginContext,
+  PluginDependencies,
   PluginEventEmitter,
   PluginLogger,
   PluginManifest,
@@ -24,6 +28,7 @@ import type { PluginManager } from './PluginManager'
 type PluginWindow = Window & {
   currentRenderer?: CustomRenderer | null
   currentShapes?: unknown[]
+  currentCanvas?: HTMLCanvasElement | null
   currentTool?: Tool | null
   currentViewport?: { x: number; y: number; width: number; height: number; zoom: number } | null
   availableRenderers?: CustomRenderer[]
@@ -38,6 +43,7 @@ export class PluginContextImpl implements PluginContext {
   public readonly events: PluginEventEmitter
   public readonly resources: PluginResourceManager
   public readonly logger: PluginLogger
+  public readonly dependencies: PluginDependencies
 
   constructor(manifest: PluginManifest, pluginManager: PluginManager) {
     this.manifest = manifest
@@ -46,6 +52,7 @@ export class PluginContextImpl implements PluginContext {
     this.events = new PluginEventEmitterImpl()
     this.resources = new PluginResourceManagerImpl(manifest.id)
     this.logger = new PluginLoggerImpl(manifest.id)
+    this.dependencies = new PluginDependenciesImpl(manifest.id, pluginManager)
   }
 
   /**
@@ -329,14 +336,18 @@ class PluginAPIImpl implements PluginAPI {
       window.dispatchEvent(event)
     },
 
-    export: async (format: string): Promise<unknown> => {
+    export: async (format: string, options?: FormatOptions): Promise<FormatExportResult> => {
       this.checkPermission('file.export')
-      return new Promise((resolve) => {
-        const event = new CustomEvent('plugin:exportData', {
-          detail: { format, pluginId: this.pluginId, callback: resolve },
-        })
-        window.dispatchEvent(event)
-      })
+      // 按格式注册表分发，插件贡献的格式同样可用
+      const pluginWindow = getPluginWindow()
+      return this.pluginManager.getExportService().export(
+        format,
+        {
+          shapes: (pluginWindow.currentShapes || []) as ShapeEntity[],
+          canvas: pluginWindow.currentCanvas || undefined,
+        },
+        options
+      )
     },
   }
 
@@ -441,6 +452,35 @@ class PluginAPIImpl implements PluginAPI {
     },
   }
 
+  shapes = {
+    register: (definition: IShapeTypeDefinition) => {
+      this.checkPermission('shapes.register')
+      const extensionManager = this.pluginManager.getExtensionManager()
+      extensionManager.registerProvider('canvas.shapes', {
+        pluginId: this.pluginId,
+        extensionId: definition.type,
+        implementation: definition,
+        config: {},
+      })
+      // 登记失败的原因已通过 plugin:error 报告
+      if (
+        this.pluginManager.getShapeTypeRegistry().get(definition.type)?.pluginId !== this.pluginId
+      ) {
+        extensionManager.unregisterProvider('canvas.shapes', this.pluginId, definition.type)
+        throw new ShapeTypeError(
+          `Shape type '${definition.type}' could not be registered by plugin '${this.pluginId}'`
+        )
+      }
+    },
+
+    unregister: (type: string) => {
+      this.checkPermission('shapes.unregister')
+      this.pluginManager
+        .getExtensionManager()
+        .unregisterProvider('canvas.shapes', this.pluginId, type)
+    },
+  }
+
   private checkPermission(apiPath: string): void {
     const permissionManager = this.pluginManager.getPermissionManager()
     if (!permissionManager.validateAPICall(this.pluginId, apiPath)) {
@@ -515,7 +555,7 @@ class PluginConfigImpl implements PluginConfig {
 /**
  * 插件事件发射器实现
  */
-class PluginEventEmitterImpl implements PluginEventEmitter {
+export class PluginEventEmitterImpl implements PluginEventEmitter {
   private listeners = new Map<string, Set<(...args: unknown[]) => void>>()
 
   on(event: string, listener: (...args: unknown[]) => void): void {
@@ -659,3 +699,26 @@ class PluginLoggerImpl implements PluginLogger {
 
   error(_message: string, ..._args: unknown[]): void {}
 }
+
+/**
+ * 依赖插件访问器实现
+ */
+class PluginDependenciesImpl implements PluginDependencies {
+  constructor(
+    private pluginId: string,
+    private pluginManager: PluginManager
+  ) {}
+
+  get<T = unknown>(pluginId: string): T {
+    return this.pluginManager.getPluginExports(this.pluginId, pluginId) as T
+  }
+
+  has(pluginId: string): boolean {
+    try {
+      this.pluginManager.getPluginExports(this.pluginId, pluginId)
+      return true
+    } catch {
+      return false
+    }
+  }
+}
@@ -3,27 +3,125 @@
  */
 
 import {
+  type IShapeTypeDefinition,
+  type ShapeTypeRegistry,
+  shapeTypeRegistry,
+} from '../../models/entities/ShapeTypeRegistry'
+import { ExportService, type IExportService } from '../../services/export/exportService'
+import {
+  FormatError,
+  type FormatRegistry,
+  formatRegistry,
+  type IFileFormat,
+} from '../../services/format/formatRegistry'
+import { createWorkerEndpoint } from '../host/PluginEndpoints'
+import { PluginHost, type PluginHostOptions } from '../host/PluginHost'
+import { type PluginHostEndpoint, PluginPermissionError } from '../host/PluginHostProtocol'
+import {
+  type ExtensionProvider,
   type Plugin,
   type PluginContext,
   type PluginInstance,
   type PluginManagerEvents,
   type PluginManifest,
+  PluginPermission,
   PluginStatus,
 } from '../types/PluginTypes'
+import {
+  type DependencyResolution,
+  DependencyResolver,
+  formatDependencyDiagnostics,
+  PLUGIN_ENGINE_VERSION,
+  PluginDependencyError,
+} from './DependencyResolver'
 import { ExtensionManager } from './ExtensionManager'
 import { PermissionManager } from './PermissionManager'
 import { PluginContextImpl } from './PluginContext'
 
+/**
+ * 插件管理器选项
+ */
+export interface PluginManagerOptions {
+  /** 插件 API 版本，与清单的 minEngineVersion 比较 */
+  engineVersion?: string
+  /** 插件贡献的文件格式登记到的注册表，缺省为默认注册表 */
+  formatRegistry?: FormatRegistry
+  /** 插件贡献的形状类型登记到的注册表，缺省为默认注册表 */
+  shapeTypeRegistry?: ShapeTypeRegistry
+  /** 插件 file.export 使用的导出服务，通常传入 DI 容器中的 IExportService；缺省按 formatRegistry 创建 */
+  exportService?: IExportService
+}
+
+/**
+ * 格式扩展点的提供者
+ */
+interface FormatProvider {
+  pluginId: string
+  method: 'import' | 'export'
+  format: IFileFormat
+}
+
+/** 插件贡献文件格式的扩展点及提供者必须实现的方法 */
+const FORMAT_EXTENSION_POINTS: Record<string, 'import' | 'export'> = {
+  'file.importers': 'import',
+  'file.exporters': 'export',
+}
+
+/** 插件贡献形状类型的扩展点 */
+const SHAPE_EXTENSION_POINT = 'canvas.shapes'
+
+/**
+ * 隔离加载插件的选项
+ */
+export interface IsolatedPluginOptions extends PluginHostOptions {
+  /** 插件模块源码，在 Worker 中以 Blob URL 加载 */
+  source?: string
+  /** 插件模块地址，与 source 都缺省时使用 manifest.main */
+  moduleUrl?: string
+  /** 宿主通道，缺省时创建 Worker；测试中可传入 createInProcessEndpoint 的结果 */
+  endpoint?: PluginHostEndpoint
+}
+
 export class PluginManager {
   private plugins = new Map<string, PluginInstance>()
+  private hosts = new Map<string, PluginHost>()
+  /** 隔离插件的宿主选项，更新时按同样的选项重新隔离加载 */
+  private isolatedOptions = new Map<string, PluginHostOptions>()
   private extensionManager: ExtensionManager
   private permissionManager: PermissionManager
+  private dependencyResolver: DependencyResolver
+  private formatRegistry: FormatRegistry
+  /** 格式扩展点的提供者，键为 扩展点/插件:扩展 */
+  private formatProviders = new Map<string, FormatProvider>()
+  private exportService: IExportService
+  private shapeTypeRegistry: ShapeTypeRegistry
+  /** 形状扩展点的提供者（插件:扩展）到其形状类型的注销函数 */
+  private shapeProviders = new Map<string, () => void>()
   private listeners = new Map<string, Set<Function>>()
   private loadingPromises = new Map<string, Promise<void>>()
 
-  constructor() {
+  constructor(options: PluginManagerOptions = {}) {
     this.extensionManager = new ExtensionManager()
     this.permissionManager = new PermissionManager()
+    this.dependencyResolver = new DependencyResolver(options.engineVersion ?? PLUGIN_ENGINE_VERSION)
+    this.formatRegistry = options.formatRegistry ?? formatRegistry
+    this.shapeTypeRegistry = options.shapeTypeRegistry ?? shapeTypeRegistry
+    this.exportService = options.exportService ?? new ExportService(this.formatRegistry)
+
+    this.extensionManager.on(
+      'provider:registered',
+      (extensionPointId: string, provider: ExtensionProvider) => {
+        this.registerFormatProvider(extensionPointId, provider)
+        this.registerShapeProvider(extensionPointId, provider)
+      }
+    )
+    this.extensionManager.on(
+      'provider:unregistered',
+      (extensionPointId: string, providerId: string) => {
+        this.unregisterFormatProvider(`${extensionPointId}/${providerId}`)
+        if (extensionPointId === SHAPE_EXTENSION_POINT) this.unregisterShapeProvider(providerId)
+      }
+    )
   }
 
   /**
@@ -33,6 +131,27 @@ export class PluginManager {
     return this.extensionManager
   }
 
+  /**
+   * 获取文件格式注册表
+   */
+  getFormatRegistry(): FormatRegistry {
+    return this.formatRegistry
+  }
+
+  /**
+   * 获取插件导出使用的导出服务
+   */
+  getExportService(): IExportService {
+    return this.exportService
+  }
+
+  /**
+   * 获取形状类型注册表
+   */
+  getShapeTypeRegistry(): ShapeTypeRegistry {
+    return this.shapeTypeRegistry
+  }
+
   /**
    * 获取权限管理器
    */
@@ -44,8 +163,52 @@ export class PluginManager {
    * 加载插件
    */
   async loadPlugin(manifest: PluginManifest, pluginModule: any): Promise<void> {
-    const pluginId = manifest.id
+    return this.trackLoading(manifest.id, () =>
+      this._loadPluginInternal(manifest, async () => {
+        const plugin: Plugin = new pluginModule.default()
+        if (!plugin.activate || typeof plugin.activate !== 'function') {
+          throw new Error(`Plugin '${manifest.id}' must implement activate method`)
+        }
+        return plugin
+      })
+    )
+  }
+
+  /**
+   * 在隔离宿主中加载插件，插件只能通过消息调用清单声明且已授予权限的 API
+   */
+  async loadIsolatedPlugin(
+    manifest: PluginManifest,
+    options: IsolatedPluginOptions = {}
+  ): Promise<void> {
+    await this.trackLoading(manifest.id, () =>
+      this._loadPluginInternal(manifest, (context, permitted) =>
+        this.startIsolatedPlugin(context, permitted, options)
+      )
+    )
+    // 通道与模块只用于本次加载
+    const { endpoint: _endpoint, source: _source, moduleUrl: _moduleUrl, ...hostOptions } = options
+    this.isolatedOptions.set(manifest.id, hostOptions)
+  }
+
+  /**
+   * 终止隔离插件，插件进入错误状态
+   */
+  terminatePlugin(pluginId: string): void {
+    this.hosts.get(pluginId)?.terminate()
+  }
+
+  /**
+   * 检查插件是否运行在隔离宿主中
+   */
+  isPluginIsolated(pluginId: string): boolean {
+    return this.hosts.has(pluginId)
+  }
 
+  /**
+   * 合并同一插件的并发加载
+   */
+  private async trackLoading(pluginId: string, load: () => Promise<void>): Promise<void> {
     // 检查是否已经在加载中
     if (this.loadingPromises.has(pluginId)) {
       return this.loadingPromises.get(pluginId)!
@@ -56,7 +219,7 @@ export class PluginManager {
       throw new Error(`Plugin '${pluginId}' is already loaded`)
     }
 
-    const loadPromise = this._loadPluginInternal(manifest, pluginModule)
+    const loadPromise = load()
     this.loadingPromises.set(pluginId, loadPromise)
 
     try {
@@ -69,7 +232,10 @@ export class PluginManager {
   /**
    * 内部加载插件实现
    */
-  private async _loadPluginInternal(manifest: PluginManifest, pluginModule: any): Promise<void> {
+  private async _loadPluginInternal(
+    manifest: PluginManifest,
+    createPlugin: (context: PluginContextImpl, permitted: boolean) => Promise<Plugin>
+  ): Promise<void> {
     const pluginId = manifest.id
     const startTime = performance.now()
 
@@ -79,18 +245,21 @@ export class PluginManager {
       // 验证插件清单
       this.validateManifest(manifest)
 
-      // 检查权限
-      await this.permissionManager.checkPermissions(manifest.permissions)
-
-      // 创建插件实例
-      const plugin: Plugin = new pluginModule.default()
-      if (!plugin.activate || typeof plugin.activate !== 'function') {
-        throw new Error(`Plugin '${pluginId}' must implement activate method`)
+      // 检查引擎版本，依赖在激活时检查
+      const engineIssue = this.dependencyResolver.checkEngine(manifest)
+      if (engineIssue) {
+        throw new PluginDependencyError(engineIssue.message, [engineIssue])
       }
 
+      // 检查权限
+      const permitted = await this.permissionManager.checkPermissions(manifest.permissions)
+
       // 创建插件上下文
       const context = new PluginContextImpl(manifest, this)
 
+      // 创建插件实例
+      const plugin = await createPlugin(context, permitted)
+
       // 创建插件实例信息
       const instance: PluginInstance = {
         manifest,
@@ -109,6 +278,11 @@ export class PluginManager {
 
       this.emit('plugin:loaded', pluginId, instance)
     } catch (error) {
+      const reported = this.plugins.get(pluginId)?.error === error
+      const host = this.hosts.get(pluginId)
+      this.hosts.delete(pluginId)
+      host?.terminate()
+
       const instance: PluginInstance = {
         manifest,
         plugin: {} as Plugin,
@@ -119,11 +293,192 @@ export class PluginManager {
       }
 
       this.plugins.set(pluginId, instance)
-      this.emit('plugin:error', pluginId, error as Error)
+      if (!reported) {
+        this.emit('plugin:error', pluginId, error as Error)
+      }
       throw error
     }
   }
 
+  /**
+   * 创建隔离宿主并在插件一端实例化插件
+   */
+  private async startIsolatedPlugin(
+    context: PluginContextImpl,
+    permitted: boolean,
+    options: IsolatedPluginOptions
+  ): Promise<Plugin> {
+    const { manifest } = context
+    if (!permitted) {
+      throw new PluginPermissionError(
+        `Plugin '${manifest.id}' requests permissions that cannot be granted`
+      )
+    }
+
+    // 只读权限自动授予，其余权限由安装流程通过 PermissionManager 授予
+    if (manifest.permissions.includes(PluginPermission.READ_ONLY)) {
+      await this.permissionManager.requestPermission(
+        manifest.id,
+        PluginPermission.READ_ONLY,
+        'Declared in plugin manifest'
+      )
+    }
+
+    const sourceUrl =
+      options.source !== undefined
+        ? URL.createObjectURL(new Blob([options.source], { type: 'text/javascript' }))
+        : undefined
+    const host = new PluginHost(
+      context,
+      this.permissionManager,
+      options.endpoint ?? createWorkerEndpoint(),
+      options
+    )
+
+    try {
+      await host.start(sourceUrl ?? options.moduleUrl)
+    } catch (error) {
+      host.terminate()
+      throw error
+    } finally {
+      if (sourceUrl) URL.revokeObjectURL(sourceUrl)
+    }
+
+    host.onDidTerminate((reason) => {
+      // 卸载或重新加载后，旧宿主的终止不影响新实例
+      if (this.hosts.get(manifest.id) === host) {
+        this.handleHostTerminated(manifest.id, reason)
+      }
+    })
+    this.hosts.set(manifest.id, host)
+    return host.createPlugin()
+  }
+
+  /**
+   * 把格式扩展点的提供者登记为文件格式；同一插件为同一格式提供的导入与导出合并为一个格式，
+   * 同一格式的同一方向只能有一个提供者，已被编辑器或其他插件登记的格式 ID 会被拒绝
+   */
+  private registerFormatProvider(extensionPointId: string, provider: ExtensionProvider): void {
+    const method = FORMAT_EXTENSION_POINTS[extensionPointId]
+    if (!method) return
+
+    const format = provider.implementation as IFileFormat
+    const key = `${extensionPointId}/${provider.pluginId}:${provider.extensionId}`
+    try {
+      if (typeof format?.[method] !== 'function') {
+        throw new FormatError(
+          `Format '${provider.extensionId}' contributed to '${extensionPointId}' must implement ${method}()`
+        )
+      }
+      const providers = this.getFormatProviders(format.id)
+      const owner = providers[0]?.pluginId
+      if (owner !== undefined && owner !== provider.pluginId) {
+        throw new FormatError(`Format '${format.id}' is already registered by plugin '${owner}'`)
+      }
+      if (providers.some((other) => other.method === method)) {
+        throw new FormatError(
+          `Format '${format.id}' is already contributed to '${extensionPointId}' by plugin '${owner}'`
+        )
+      }
+
+      this.formatProviders.set(key, { pluginId: provider.pluginId, method, format })
+      try {
+        this.syncFormat(format.id, provider.pluginId)
+      } catch (error) {
+        this.formatProviders.delete(key)
+        throw error
+      }
+    } catch (error) {
+      this.emit('plugin:error', provider.pluginId, error)
+    }
+  }
+
+  private unregisterFormatProvider(key: string): void {
+    const provider = this.formatProviders.get(key)
+    if (!provider) return
+    this.formatProviders.delete(key)
+    this.syncFormat(provider.format.id, provider.pluginId)
+  }
+
+  private getFormatProviders(formatId: string): FormatProvider[] {
+    return Array.from(this.formatProviders.values()).filter(
+      (provider) => provider.format.id === formatId
+    )
+  }
+
+  /**
+   * 按当前的提供者重新登记格式：导入取自导入提供者，导出取自导出提供者，没有提供者时注销
+   */
+  private syncFormat(formatId: string, pluginId: string): void {
+    if (this.formatRegistry.get(formatId)?.pluginId === pluginId) {
+      this.formatRegistry.unregister(formatId)
+    }
+    const providers = this.getFormatProviders(formatId)
+    if (providers.length === 0) return
+
+    const importer = providers.find((provider) => provider.method === 'import')?.format
+    const exporter = providers.find((provider) => provider.method === 'export')?.format
+    this.formatRegistry.register({
+      ...providers[0].format,
+      import: importer?.import,
+      importOptions: importer?.importOptions,
+      export: exporter?.export,
+      exportOptions: exporter?.exportOptions,
+      pluginId,
+    })
+  }
+
+  /**
+   * 把形状扩展点的提供者登记为形状类型，插件停用时随提供者一起注销
+   */
+  private registerShapeProvider(extensionPointId: string, provider: ExtensionProvider): void {
+    if (extensionPointId !== SHAPE_EXTENSION_POINT) return
+
+    const definition = provider.implementation as IShapeTypeDefinition
+    try {
+      const unregister = this.shapeTypeRegistry.register({
+        ...definition,
+        pluginId: provider.pluginId,
+      })
+      this.shapeProviders.set(`${provider.pluginId}:${provider.extensionId}`, unregister)
+    } catch (error) {
+      this.emit('plugin:error', provider.pluginId, error)
+    }
+  }
+
+  private unregisterShapeProvider(providerId: string): void {
+    const unregister = this.shapeProviders.get(providerId)
+    if (!unregister) return
+    this.shapeProviders.delete(providerId)
+    unregister()
+  }
+
+  /**
+   * 隔离插件被终止（超时、Worker 出错或手动终止）后进入错误状态
+   */
+  private handleHostTerminated(pluginId: string, reason: Error): void {
+    const instance = this.plugins.get(pluginId)
+    if (!instance) return
+
+    this.extensionManager.unregisterPluginProviders(pluginId)
+    instance.exports = undefined
+    this.reportError(pluginId, instance, reason)
+
+    // 依赖它的插件失去了导出的 API，一并停用，停用失败已通过 plugin:error 报告
+    this.deactivateDependents(pluginId).catch(() => {})
+  }
+
+  /**
+   * 记录插件错误；隔离插件超时时宿主终止与调用失败会先后报告同一错误，只通知一次
+   */
+  private reportError(pluginId: string, instance: PluginInstance, error: Error): void {
+    if (instance.status === PluginStatus.ERROR && instance.error === error) return
+
+    instance.status = PluginStatus.ERROR
+    instance.error = error
+    this.emit('plugin:error', pluginId, error)
+  }
+
   /**
    * 激活插件
    */
@@ -137,25 +492,146 @@ export class PluginManager {
       return // 已经激活
     }
 
+    this.assertActivatable(pluginId, instance)
+
+    // 先按依赖顺序激活依赖
+    const resolution = this.resolveDependencies([pluginId])
+    const errors = resolution.diagnostics.filter((diagnostic) => diagnostic.severity === 'error')
+    if (errors.length > 0) {
+      const error = new PluginDependencyError(
+        formatDependencyDiagnostics(`Cannot activate plugin '${pluginId}':`, errors),
+        errors
+      )
+      this.emit('plugin:error', pluginId, error)
+      throw error
+    }
+
+    for (const id of resolution.order) {
+      await this.activateInstance(id)
+    }
+  }
+
+  /**
+   * 按依赖顺序激活所有已加载的插件，依赖无法满足的插件跳过并触发错误事件
+   * @returns 解析结果，包含全部诊断信息
+   */
+  async activateAllPlugins(): Promise<DependencyResolution> {
+    const resolution = this.resolveDependencies()
+
+    for (const pluginId of resolution.blocked) {
+      const diagnostics = resolution.diagnostics.filter(
+        (diagnostic) => diagnostic.pluginId === pluginId || diagnostic.cycle?.includes(pluginId)
+      )
+      const summary = `Cannot activate plugin '${pluginId}':`
+      this.emit(
+        'plugin:error',
+        pluginId,
+        new PluginDependencyError(
+          diagnostics.length > 0
+            ? formatDependencyDiagnostics(summary, diagnostics)
+            : `${summary} one of its dependencies cannot be activated`,
+          diagnostics
+        )
+      )
+    }
+
+    for (const pluginId of resolution.order) {
+      const instance = this.plugins.get(pluginId)
+      if (!instance || instance.status === PluginStatus.ACTIVE) continue
+
+      // 依赖已按顺序处理过，未激活说明被禁用或激活失败
+      const inactive = this.getLoadedDependencies(instance.manifest).find(
+        (dependency) => !this.isPluginActive(dependency)
+      )
+      if (inactive) {
+        this.emit(
+          'plugin:error',
+          pluginId,
+          new PluginDependencyError(
+            `Cannot activate plugin '${pluginId}': dependency '${inactive}' is not active`,
+            []
+          )
+        )
+        continue
+      }
+
+      if (instance.status === PluginStatus.LOADED || instance.status === PluginStatus.INACTIVE) {
+        // 激活失败已通过 plugin:error 报告
+        await this.activateInstance(pluginId).catch(() => {})
+      }
+    }
+
+    return resolution
+  }
+
+  /**
+   * 解析已加载插件的依赖；指定 pluginIds 时只解析这些插件及其传递依赖
+   */
+  resolveDependencies(pluginIds?: string[]): DependencyResolution {
+    const manifests = Array.from(this.plugins.values(), (instance) => instance.manifest)
+    return this.dependencyResolver.resolve(manifests, pluginIds)
+  }
+
+  /**
+   * 获取依赖插件导出的 API，只能访问清单中声明的依赖
+   */
+  getPluginExports(requesterId: string, pluginId: string): unknown {
+    const requester = this.plugins.get(requesterId)?.manifest
+    const declared =
+      requester?.dependencies?.[pluginId] !== undefined ||
+      requester?.peerDependencies?.[pluginId] !== undefined
+    if (!declared) {
+      throw new Error(`Plugin '${requesterId}' does not declare a dependency on '${pluginId}'`)
+    }
+
+    const instance = this.plugins.get(pluginId)
+    if (instance?.status !== PluginStatus.ACTIVE) {
+      throw new Error(`Dependency '${pluginId}' of plugin '${requesterId}' is not active`)
+    }
+    return instance.exports
+  }
+
+  private getLoadedDependencies(manifest: PluginManifest): string[] {
+    return Object.keys({ ...manifest.dependencies, ...manifest.peerDependencies }).filter((id) =>
+      this.plugins.has(id)
+    )
+  }
+
+  private assertActivatable(
+    pluginId: string,
+    instance: PluginInstance | undefined
+  ): asserts instance is PluginInstance {
+    if (!instance) {
+      throw new Error(`Plugin '${pluginId}' not found`)
+    }
+
     if (instance.status !== PluginStatus.LOADED && instance.status !== PluginStatus.INACTIVE) {
       throw new Error(`Plugin '${pluginId}' cannot be activated (status: ${instance.status})`)
     }
+  }
+
+  /**
+   * 激活单个插件，不处理依赖
+   */
+  private async activateInstance(pluginId: string): Promise<void> {
+    const instance = this.plugins.get(pluginId)
+    if (instance?.status === PluginStatus.ACTIVE) {
+      return
+    }
+    this.assertActivatable(pluginId, instance)
 
     try {
       const startTime = performance.now()
 
-      // 激活插件
-      await instance.plugin.activate(instance.context)
+      // 激活插件，返回值作为导出的 API
+      instance.exports = await instance.plugin.activate(instance.context)
 
       instance.status = PluginStatus.ACTIVE
       instance.activateTime = performance.now() - startTime
 
       this.emit('plugin:activated', pluginId)
     } catch (error) {
-      instance.status = PluginStatus.ERROR
-      instance.error = error as Error
-
-      this.emit('plugin:error', pluginId, error as Error)
+      this.reportError(pluginId, instance, error as Error)
       throw error
     }
   }
@@ -173,6 +649,28 @@ export class PluginManager {
       return // 已经停用
     }
 
+    // 先停用依赖它的插件
+    await this.deactivateDependents(pluginId)
+    await this.deactivateInstance(pluginId, instance)
+  }
+
+  /**
+   * 停用直接或间接依赖该插件的插件，外层依赖方先停用
+   */
+  private async deactivateDependents(pluginId: string): Promise<void> {
+    const manifests = Array.from(this.plugins.values(), (instance) => instance.manifest)
+    for (const dependentId of this.dependencyResolver.getDependents(manifests, pluginId)) {
+      const dependent = this.plugins.get(dependentId)
+      if (dependent?.status === PluginStatus.ACTIVE) {
+        await this.deactivateInstance(dependentId, dependent)
+      }
+    }
+  }
+
+  /**
+   * 停用单个插件，不处理依赖方
+   */
+  private async deactivateInstance(pluginId: string, instance: PluginInstance): Promise<void> {
     try {
       // 停用插件
       await instance.plugin.deactivate()
@@ -181,13 +679,11 @@ export class PluginManager {
       this.extensionManager.unregisterPluginProviders(pluginId)
 
       instance.status = PluginStatus.INACTIVE
+      instance.exports = undefined
 
       this.emit('plugin:deactivated', pluginId)
     } catch (error) {
-      instance.status = PluginStatus.ERROR
-      instance.error = error as Error
-
-      this.emit('plugin:error', pluginId, error as Error)
+      this.reportError(pluginId, instance, error as Error)
       throw error
     }
   }
@@ -207,8 +703,9 @@ export class PluginManager {
         await this.deactivatePlugin(pluginId)
       }
 
-      // 调用卸载钩子
-      if (instance.plugin.onUninstall) {
+      // 调用卸载钩子，已终止的隔离插件不再调用
+      const host = this.hosts.get(pluginId)
+      if (instance.plugin.onUninstall && !host?.isTerminated()) {
         await instance.plugin.onUninstall()
       }
 
@@ -219,22 +716,24 @@ export class PluginManager {
 
       // 移除插件
       this.plugins.delete(pluginId)
+      this.hosts.delete(pluginId)
+      this.isolatedOptions.delete(pluginId)
+      host?.terminate()
     } catch (error) {
-      instance.status = PluginStatus.ERROR
-      instance.error = error as Error
-
-      this.emit('plugin:error', pluginId, error as Error)
+      this.reportError(pluginId, instance, error as Error)
       throw error
     }
   }
 
   /**
-   * 更新插件
+   * 更新插件；隔离插件的新版本仍在隔离宿主中加载，模块来自 isolatedOptions 的 source、moduleUrl
+   * 或新清单的 main，newPluginModule 不会在宿主中执行
    */
   async updatePlugin(
     pluginId: string,
     newManifest: PluginManifest,
-    newPluginModule: any
+    newPluginModule?: any,
+    isolatedOptions: IsolatedPluginOptions = {}
   ): Promise<void> {
     const instance = this.plugins.get(pluginId)
     if (!instance) {
@@ -245,17 +744,32 @@ export class PluginManager {
     const newVersion = newManifest.version
 
     try {
-      // 停用旧插件
+      // 停用旧插件，依赖它的插件会一并停用
       const wasActive = instance.status === PluginStatus.ACTIVE
+      const manifests = Array.from(this.plugins.values(), (plugin) => plugin.manifest)
+      const activeDependents = wasActive
+        ? this.dependencyResolver
+            .getDependents(manifests, pluginId)
+            .filter((id) => this.isPluginActive(id))
+        : []
       if (wasActive) {
         await this.deactivatePlugin(pluginId)
       }
 
+      // 卸载前记下隔离方式，卸载会清除宿主与选项
+      const hostOptions = this.isPluginIsolated(pluginId)
+        ? this.isolatedOptions.get(pluginId)
+        : undefined
+
       // 卸载旧插件
       await this.unloadPlugin(pluginId)
 
       // 加载新插件
-      await this.loadPlugin(newManifest, newPluginModule)
+      if (hostOptions) {
+        await this.loadIsolatedPlugin(newManifest, { ...hostOptions, ...isolatedOptions })
+      } else {
+        await this.loadPlugin(newManifest, newPluginModule)
+      }
 
       // 如果之前是激活状态，重新激活
       if (wasActive) {
@@ -267,6 +781,11 @@ export class PluginManager {
       if (newInstance.plugin.onUpdate) {
         await newInstance.plugin.onUpdate(oldVersion, newVersion)
       }
+
+      // 重新激活依赖方，新版本不再满足其版本要求时通过 plugin:error 报告
+      for (const dependentId of activeDependents.reverse()) {
+        await this.activatePlugin(dependentId).catch(() => {})
+      }
     } catch (error) {
       this.emit('plugin:error', pluginId, error as Error)
       throw error
@@ -465,6 +984,19 @@ export class PluginManager {
       } catch {}
     }
 
+    for (const host of this.hosts.values()) {
+      host.terminate()
+    }
+
+    for (const key of Array.from(this.formatProviders.keys())) {
+      this.unregisterFormatProvider(key)
+    }
+    for (const providerId of Array.from(this.shapeProviders.keys())) {
+      this.unregisterShapeProvider(providerId)
+    }
+
+    this.hosts.clear()
+    this.isolatedOptions.clear()
     this.plugins.clear()
     this.listeners.clear()
     this.loadingPromises.clear()
@@ -0,0 +1,96 @@
+/**
+ * 插件宿主通道 - Worker 通道与测试用的进程内通道
+ */
+
+import { type PluginModule, startPluginGuest } from './PluginGuest'
+import type {
+  GuestToHostMessage,
+  HostToGuestMessage,
+  PluginEndpoint,
+  PluginGuestEndpoint,
+  PluginHostEndpoint,
+} from './PluginHostProtocol'
+
+/**
+ * 创建运行插件的 Worker，入口为 pluginWorker
+ * 引用 tsc 输出到 dist 的 .js 文件；Vite 从源码构建时会把 .js 解析到同名的 .ts
+ */
+export function createPluginWorker(): Worker {
+  return new Worker(new URL('./pluginWorker.js', import.meta.url), {
+    type: 'module',
+    name: 'sky-canvas-plugin',
+  })
+}
+
+/**
+ * 把 Worker 包装为宿主一端，terminate 会直接结束 Worker 线程
+ */
+export function createWorkerEndpoint(worker: Worker = createPluginWorker()): PluginHostEndpoint {
+  return {
+    postMessage: (message) => worker.postMessage(message),
+    onMessage: (listener) => {
+      const handler = (event: MessageEvent<GuestToHostMessage>) => listener(event.data)
+      worker.addEventListener('message', handler)
+      return () => worker.removeEventListener('message', handler)
+    },
+    onError: (listener) => {
+      const handler = (event: ErrorEvent) => {
+        event.preventDefault()
+        listener(new Error(event.message || 'Plugin worker error'))
+      }
+      worker.addEventListener('error', handler)
+      return () => worker.removeEventListener('error', handler)
+    },
+    terminate: () => worker.terminate(),
+  }
+}
+
+/**
+ * 创建一对进程内通道，消息异步投递并经过结构化克隆，与 Worker 的语义一致
+ * 任一端 terminate 后通道关闭，之后的消息被丢弃；插件代码仍在宿主线程中运行，无法真正中断同步死循环
+ */
+export function createInProcessChannel(): {
+  host: PluginHostEndpoint
+  guest: PluginGuestEndpoint
+} {
+  const hostListeners = new Set<(message: GuestToHostMessage) => void>()
+  const guestListeners = new Set<(message: HostToGuestMessage) => void>()
+  let closed = false
+
+  const createEnd = <TSend, TReceive>(
+    own: Set<(message: TReceive) => void>,
+    peer: Set<(message: TSend) => void>
+  ): PluginEndpoint<TSend, TReceive> => ({
+    postMessage: (message) => {
+      if (closed) return
+      const cloned = structuredClone(message)
+      queueMicrotask(() => {
+        if (closed) return
+        for (const listener of peer) listener(cloned)
+      })
+    },
+    onMessage: (listener) => {
+      own.add(listener)
+      return () => own.delete(listener)
+    },
+    terminate: () => {
+      closed = true
+      hostListeners.clear()
+      guestListeners.clear()
+    },
+  })
+
+  return {
+    host: createEnd(hostListeners, guestListeners),
+    guest: createEnd(guestListeners, hostListeners),
+  }
+}
+
+/**
+ * 在进程内启动插件运行时，返回宿主一端；用于测试与不支持 Worker 的环境
+ */
+export function createInProcessEndpoint(pluginModule: PluginModule): PluginHostEndpoint {
+  const { host, guest } = createInProcessChannel()
+  startPluginGuest(guest, async () => pluginModule)
+  return host
+}
@@ -0,0 +1,212 @@
+/**
+ * 插件侧运行时 - 在 Worker（或测试用的进程内通道）中实例化插件
+ * 插件拿到的上下文中，api、config、logger、dependencies 的每次调用都转成发往宿主的消息并返回 Promise；
+ * events 只在插件内部分发；函数等不可克隆的参数无法跨越边界，activate 的返回值（插件导出）也必须可克隆
+ */
+
+import { PluginEventEmitterImpl } from '../core/PluginContext'
+import type { Plugin, PluginAPI, PluginContext, PluginManifest } from '../types/PluginTypes'
+import {
+  deserializeError,
+  type HostToGuestMessage,
+  type PluginGuestEndpoint,
+  type PluginLifecycleMethod,
+  PluginPermissionError,
+  serializeError,
+} from './PluginHostProtocol'
+
+/**
+ * 插件模块，默认导出插件类
+ */
+export interface PluginModule {
+  default: new () => Plugin
+}
+
+/**
+ * 按 init 消息加载插件模块
+ */
+export type PluginModuleLoader = (
+  moduleUrl: string | undefined,
+  manifest: PluginManifest
+) => Promise<PluginModule>
+
+type RemoteCall = (path: string, args: unknown[]) => Promise<unknown>
+
+/** 插件线程中不可直接使用的网络与存储全局对象，插件只能通过宿主授予的 API 访问 */
+const RESTRICTED_GLOBALS = [
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'EventSource',
+  'BroadcastChannel',
+  'indexedDB',
+  'caches',
+  'importScripts',
+]
+
+/**
+ * 屏蔽插件线程的网络与存储全局对象：删除原型链上的定义，再在全局对象上放置不可改写的替身，
+ * 调用替身得到 PluginPermissionError；须在加载插件模块之前调用
+ */
+export function restrictGlobals(scope: object = globalThis): void {
+  for (const name of RESTRICTED_GLOBALS) {
+    for (let target: object | null = scope; target; target = Object.getPrototypeOf(target)) {
+      if (Object.getOwnPropertyDescriptor(target, name)?.configurable) {
+        Reflect.deleteProperty(target, name)
+      }
+    }
+    if (Object.getOwnPropertyDescriptor(scope, name)) continue
+    Object.defineProperty(scope, name, {
+      value: () => {
+        throw new PluginPermissionError(
+          `'${name}' is not available to isolated plugins, use the plugin API instead`
+        )
+      },
+      writable: false,
+      configurable: false,
+    })
+  }
+}
+
+/**
+ * 把属性访问转成远程调用的命名空间对象
+ */
+function createRemoteNamespace<T>(prefix: string, call: RemoteCall): T {
+  return new Proxy(
+    {},
+    {
+      get: (_target, property) => {
+        // 不能被当作 thenable，否则 await 命名空间对象会发出调用
+        if (typeof property !== 'string' || property === 'then') return undefined
+        return (...args: unknown[]) => call(`${prefix}.${property}`, args)
+      },
+    }
+  ) as T
+}
+
+function createRemoteContext(manifest: PluginManifest, call: RemoteCall): PluginContext {
+  const api: PluginAPI = {
+    canvas: createRemoteNamespace('api.canvas', call),
+    ui: createRemoteNamespace('api.ui', call),
+    file: createRemoteNamespace('api.file', call),
+    fileSystem: createRemoteNamespace('api.fileSystem', call),
+    tools: createRemoteNamespace('api.tools', call),
+    renderers: createRemoteNamespace('api.renderers', call),
+    // 渲染等函数无法跨线程传递，隔离插件只能注销形状类型
+    shapes: createRemoteNamespace('api.shapes', call),
+  }
+  return {
+    manifest,
+    api,
+    config: createRemoteNamespace('config', call),
+    events: new PluginEventEmitterImpl(),
+    resources: createRemoteNamespace('resources', call),
+    logger: createRemoteNamespace('logger', call),
+    dependencies: createRemoteNamespace('dependencies', call),
+  }
+}
+
+/**
+ * 插件导出经结构化克隆发回宿主，函数、类实例方法等无法传递时给出明确的错误
+ */
+function assertCloneableExports(plugin: Plugin, context: PluginContext | null, exports: unknown) {
+  if (exports === undefined || typeof structuredClone !== 'function') return
+  try {
+    structuredClone(exports)
+  } catch {
+    const id = context?.manifest.id ?? plugin.constructor.name
+    throw new Error(
+      `Plugin '${id}' exports from activate() must be structured-cloneable to cross the isolation boundary`
+    )
+  }
+}
+
+/**
+ * 在通道的插件一端启动运行时，返回停止函数
+ */
+export function startPluginGuest(
+  endpoint: PluginGuestEndpoint,
+  loadModule: PluginModuleLoader
+): () => void {
+  let plugin: Plugin | null = null
+  let context: PluginContext | null = null
+  let nextId = 1
+  const pending = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void }
+  >()
+
+  const call: RemoteCall = (path, args) =>
+    new Promise((resolve, reject) => {
+      const id = nextId++
+      pending.set(id, { resolve, reject })
+      try {
+        endpoint.postMessage({ type: 'call', id, path, args })
+      } catch (error) {
+        // 参数不可克隆
+        pending.delete(id)
+        reject(error)
+      }
+    })
+
+  const reply = async (id: number, run: () => Promise<unknown>) => {
+    try {
+      const value = await run()
+      endpoint.postMessage({ type: 'result', id, value })
+    } catch (error) {
+      endpoint.postMessage({ type: 'error', id, error: serializeError(error) })
+    }
+  }
+
+  const invoke = async (method: PluginLifecycleMethod, args: unknown[]) => {
+    if (!plugin) throw new Error('Plugin is not initialized')
+    const hook = plugin[method] as ((...hookArgs: unknown[]) => Promise<unknown>) | undefined
+    if (typeof hook !== 'function') return undefined
+    const result = await hook.apply(plugin, method === 'activate' ? [context] : args)
+    if (method !== 'activate') return undefined
+    assertCloneableExports(plugin, context, result)
+    return result
+  }
+
+  const stopListening = endpoint.onMessage((message: HostToGuestMessage) => {
+    switch (message.type) {
+      case 'init':
+        void reply(message.id, async () => {
+          const module = await loadModule(message.moduleUrl, message.manifest)
+          if (typeof module?.default !== 'function') {
+            throw new Error(`Plugin '${message.manifest.id}' has no default export`)
+          }
+          const instance = new module.default()
+          if (typeof instance.activate !== 'function') {
+            throw new Error(`Plugin '${message.manifest.id}' must implement activate method`)
+          }
+          plugin = instance
+          context = createRemoteContext(message.manifest, call)
+          return undefined
+        })
+        break
+      case 'invoke':
+        void reply(message.id, () => invoke(message.method, message.args))
+        break
+      case 'ping':
+        endpoint.postMessage({ type: 'result', id: message.id, value: undefined })
+        break
+      case 'result':
+        pending.get(message.id)?.resolve(message.value)
+        pending.delete(message.id)
+        break
+      case 'error':
+        pending.get(message.id)?.reject(deserializeError(message.error))
+        pending.delete(message.id)
+        break
+    }
+  })
+
+  return () => {
+    stopListening()
+    for (const { reject } of pending.values()) {
+      reject(new Error('Plugin guest stopped'))
+    }
+    pending.clear()
+  }
+}
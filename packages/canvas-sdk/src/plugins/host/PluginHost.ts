@@ -0,0 +1,298 @@
+/**
+ * 隔离插件宿主 - 在编辑器一端执行插件发来的 API 调用
+ * 每次调用都在边界处按清单声明的权限与 PermissionManager 的授予情况检查；
+ * 初始化与生命周期调用超时、或心跳未按时应答（如插件陷入死循环）则终止插件，不影响编辑器
+ */
+
+import type { PermissionManager } from '../core/PermissionManager'
+import type { Plugin, PluginContext } from '../types/PluginTypes'
+import {
+  deserializeError,
+  type GuestToHostMessage,
+  type HostToGuestMessage,
+  type PluginHostEndpoint,
+  type PluginLifecycleMethod,
+  PluginPermissionError,
+  PluginTerminatedError,
+  PluginTimeoutError,
+  serializeError,
+} from './PluginHostProtocol'
+
+export interface PluginHostOptions {
+  /** 初始化、单次生命周期调用与心跳应答的超时时间（毫秒） */
+  timeout?: number
+  /** 插件启动后发送心跳的间隔（毫秒） */
+  heartbeatInterval?: number
+}
+
+export type PluginTerminateListener = (reason: Error) => void
+
+type Callable = (...args: unknown[]) => unknown
+
+const DEFAULT_TIMEOUT = 5000
+const DEFAULT_HEARTBEAT_INTERVAL = 2000
+
+/** 插件可调用的非 API 方法，除 logger 外同样按权限表检查 */
+const CONTEXT_METHODS: Record<string, ReadonlySet<string>> = {
+  config: new Set(['get', 'set', 'has', 'delete', 'clear', 'getAll']),
+  logger: new Set(['debug', 'info', 'warn', 'error']),
+  dependencies: new Set(['get', 'has']),
+  // cleanup 由宿主在插件卸载时调用
+  resources: new Set([
+    'loadAsset',
+    'getAssetUrl',
+    'preloadAssets',
+    'register',
+    'get',
+    'has',
+    'release',
+    'releaseAll',
+  ]),
+}
+
+/**
+ * 读取目标上的成员，包括类原型上的方法，但不包括 Object.prototype 上的成员
+ */
+const getMember = (target: object, key: string): unknown =>
+  key in target && !(key in Object.prototype) ? Reflect.get(target, key) : undefined
+
+export class PluginHost {
+  private nextId = 1
+  private pending = new Map<
+    number,
+    {
+      resolve: (value: unknown) => void
+      reject: (error: Error) => void
+      timer: ReturnType<typeof setTimeout>
+    }
+  >()
+  private terminationReason: Error | null = null
+  private terminateListeners = new Set<PluginTerminateListener>()
+  private disposers: Array<() => void> = []
+  private readonly timeout: number
+  private readonly heartbeatInterval: number
+
+  constructor(
+    private readonly context: PluginContext,
+    private readonly permissionManager: PermissionManager,
+    private readonly endpoint: PluginHostEndpoint,
+    options: PluginHostOptions = {}
+  ) {
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT
+    this.heartbeatInterval = options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL
+    this.disposers.push(endpoint.onMessage((message) => this.handleMessage(message)))
+    if (endpoint.onError) {
+      this.disposers.push(endpoint.onError((error) => this.terminate(error)))
+    }
+  }
+
+  get pluginId(): string {
+    return this.context.manifest.id
+  }
+
+  /**
+   * 在插件一端加载模块并实例化插件
+   */
+  async start(moduleUrl?: string): Promise<void> {
+    const manifest = this.context.manifest
+    await this.request('initialization', (id) => ({ type: 'init', id, manifest, moduleUrl }))
+    this.startHeartbeat()
+  }
+
+  /**
+   * 调用插件的生命周期方法，插件未实现的方法直接返回
+   */
+  invoke(method: PluginLifecycleMethod, args: unknown[] = []): Promise<unknown> {
+    return this.request(method, (id) => ({ type: 'invoke', id, method, args }))
+  }
+
+  /**
+   * 供 PluginManager 使用的插件代理
+   */
+  createPlugin(): Plugin {
+    return {
+      // 插件导出随 activate 的结果返回，已在插件一端经结构化克隆
+      activate: () => this.invoke('activate'),
+      deactivate: async () => {
+        await this.invoke('deactivate')
+      },
+      onInstall: async () => {
+        await this.invoke('onInstall')
+      },
+      onUninstall: async () => {
+        await this.invoke('onUninstall')
+      },
+      onUpdate: async (oldVersion, newVersion) => {
+        await this.invoke('onUpdate', [oldVersion, newVersion])
+      },
+      onConfigChange: async (config) => {
+        await this.invoke('onConfigChange', [config])
+      },
+    }
+  }
+
+  isTerminated(): boolean {
+    return this.terminationReason !== null
+  }
+
+  /**
+   * 终止插件，未完成的调用以 reason 拒绝
+   */
+  terminate(reason: Error = new PluginTerminatedError(`Plugin '${this.pluginId}' was terminated`)) {
+    if (this.terminationReason) return
+    this.terminationReason = reason
+
+    for (const dispose of this.disposers) dispose()
+    this.disposers = []
+    this.endpoint.terminate()
+
+    for (const { reject, timer } of this.pending.values()) {
+      clearTimeout(timer)
+      reject(reason)
+    }
+    this.pending.clear()
+
+    for (const listener of this.terminateListeners) {
+      try {
+        listener(reason)
+      } catch {}
+    }
+    this.terminateListeners.clear()
+  }
+
+  onDidTerminate(listener: PluginTerminateListener): () => void {
+    this.terminateListeners.add(listener)
+    return () => this.terminateListeners.delete(listener)
+  }
+
+  /**
+   * 定期发送心跳，插件线程被同步代码占住时无法应答，超时后终止插件
+   */
+  private startHeartbeat(): void {
+    let waiting = false
+    const timer = setInterval(() => {
+      // 上一次心跳尚未应答时由它自己的超时处理
+      if (waiting || this.terminationReason) return
+      waiting = true
+      this.request('heartbeat', (id) => ({ type: 'ping', id })).then(
+        () => {
+          waiting = false
+        },
+        () => {}
+      )
+    }, this.heartbeatInterval)
+    this.disposers.push(() => clearInterval(timer))
+  }
+
+  private request(label: string, build: (id: number) => HostToGuestMessage): Promise<unknown> {
+    if (this.terminationReason) {
+      return Promise.reject(
+        new PluginTerminatedError(`Plugin '${this.pluginId}' has been terminated`)
+      )
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++
+      const timer = setTimeout(() => {
+        this.terminate(
+          new PluginTimeoutError(
+            `Plugin '${this.pluginId}' did not complete ${label} within ${this.timeout}ms`
+          )
+        )
+      }, this.timeout)
+      this.pending.set(id, { resolve, reject, timer })
+
+      try {
+        this.endpoint.postMessage(build(id))
+      } catch (error) {
+        clearTimeout(timer)
+        this.pending.delete(id)
+        reject(error)
+      }
+    })
+  }
+
+  private handleMessage(message: GuestToHostMessage): void {
+    if (message.type === 'call') {
+      void this.handleCall(message.id, message.path, message.args)
+      return
+    }
+
+    const request = this.pending.get(message.id)
+    if (!request) return
+    clearTimeout(request.timer)
+    this.pending.delete(message.id)
+    if (message.type === 'result') request.resolve(message.value)
+    else request.reject(deserializeError(message.error))
+  }
+
+  private async handleCall(id: number, path: string, args: unknown[]): Promise<void> {
+    try {
+      const method = this.resolveCall(path)
+      const value = await method(...args)
+      this.reply({ type: 'result', id, value })
+    } catch (error) {
+      this.reply({ type: 'error', id, error: serializeError(error) })
+    }
+  }
+
+  private reply(message: HostToGuestMessage & { type: 'result' | 'error' }): void {
+    if (this.terminationReason) return
+    try {
+      this.endpoint.postMessage(message)
+    } catch (error) {
+      // 返回值不可克隆
+      this.endpoint.postMessage({ type: 'error', id: message.id, error: serializeError(error) })
+    }
+  }
+
+  /**
+   * 把调用路径解析为宿主上下文中的方法，只允许 api.<命名空间>.<方法> 与 config、logger、dependencies、resources 的方法
+   */
+  private resolveCall(path: string): Callable {
+    const [scope, name, method, ...rest] = path.split('.')
+
+    if (scope === 'api' && method && rest.length === 0) {
+      const namespace = getMember(this.context.api, name)
+      const target =
+        typeof namespace === 'object' && namespace !== null
+          ? getMember(namespace, method)
+          : undefined
+      if (typeof target === 'function') {
+        this.checkPermission(`${name}.${method}`)
+        return (target as Callable).bind(namespace)
+      }
+    }
+
+    if (method === undefined && CONTEXT_METHODS[scope]?.has(name)) {
+      if (scope !== 'logger') this.checkPermission(`${scope}.${name}`)
+      const target = (this.context as unknown as Record<string, Record<string, Callable>>)[scope]
+      return (...args) => target[name](...args)
+    }
+
+    throw new PluginPermissionError(`Plugin '${this.pluginId}' called unknown API '${path}'`)
+  }
+
+  /**
+   * 调用所需的权限必须在清单中声明并已被授予；没有登记权限的 API 一律拒绝
+   */
+  private checkPermission(apiPath: string): void {
+    const required = this.permissionManager.getRequiredPermissionForAPI(apiPath)
+
+    if (!required) {
+      throw new PluginPermissionError(
+        `Plugin '${this.pluginId}' called '${apiPath}', which has no registered permission`
+      )
+    }
+    if (!this.context.manifest.permissions.includes(required)) {
+      throw new PluginPermissionError(
+        `Plugin '${this.pluginId}' did not declare the '${required}' permission required by '${apiPath}'`
+      )
+    }
+    if (!this.permissionManager.hasPermission(this.pluginId, required)) {
+      throw new PluginPermissionError(
+        `Plugin '${this.pluginId}' has not been granted the '${required}' permission required by '${apiPath}'`
+      )
+    }
+  }
+}
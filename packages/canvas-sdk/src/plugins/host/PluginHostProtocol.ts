@@ -0,0 +1,116 @@
+/**
+ * 隔离插件宿主的消息协议
+ * 宿主与插件之间只交换可结构化克隆的数据：宿主发送 init、生命周期调用与心跳，插件把 PluginAPI 调用
+ * 以 call 消息发回宿主，双方都以 result / error 按 id 应答
+ */
+
+import type { PluginManifest } from '../types/PluginTypes'
+
+/**
+ * 可跨边界调用的插件生命周期方法
+ */
+export type PluginLifecycleMethod =
+  | 'activate'
+  | 'deactivate'
+  | 'onInstall'
+  | 'onUninstall'
+  | 'onUpdate'
+  | 'onConfigChange'
+
+/**
+ * 序列化后的错误
+ */
+export interface SerializedPluginError {
+  name: string
+  message: string
+  stack?: string
+}
+
+type ReplyMessage =
+  | { type: 'result'; id: number; value: unknown }
+  | { type: 'error'; id: number; error: SerializedPluginError }
+
+/**
+ * 宿主发往插件的消息
+ */
+export type HostToGuestMessage =
+  | { type: 'init'; id: number; manifest: PluginManifest; moduleUrl?: string }
+  | { type: 'invoke'; id: number; method: PluginLifecycleMethod; args: unknown[] }
+  /** 心跳，插件立即以 result 应答 */
+  | { type: 'ping'; id: number }
+  | ReplyMessage
+
+/**
+ * 插件发往宿主的消息，path 形如 'api.canvas.addShape'、'config.get'、'logger.info'
+ */
+export type GuestToHostMessage =
+  | { type: 'call'; id: number; path: string; args: unknown[] }
+  | ReplyMessage
+
+/**
+ * 消息通道的一端
+ */
+export interface PluginEndpoint<TSend, TReceive> {
+  postMessage(message: TSend): void
+  onMessage(listener: (message: TReceive) => void): () => void
+  /** 通道自身出错（如 Worker 脚本抛出未捕获异常） */
+  onError?(listener: (error: Error) => void): () => void
+  terminate(): void
+}
+
+export type PluginHostEndpoint = PluginEndpoint<HostToGuestMessage, GuestToHostMessage>
+export type PluginGuestEndpoint = PluginEndpoint<GuestToHostMessage, HostToGuestMessage>
+
+/**
+ * 插件调用了未声明或未授予权限的 API
+ */
+export class PluginPermissionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PluginPermissionError'
+  }
+}
+
+/**
+ * 插件调用超时，插件已被终止
+ */
+export class PluginTimeoutError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PluginTimeoutError'
+  }
+}
+
+/**
+ * 插件宿主已终止
+ */
+export class PluginTerminatedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PluginTerminatedError'
+  }
+}
+
+const ERROR_TYPES: Record<string, new (message: string) => Error> = {
+  PluginPermissionError,
+  PluginTimeoutError,
+  PluginTerminatedError,
+}
+
+export function serializeError(error: unknown): SerializedPluginError {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack }
+  }
+  return { name: 'Error', message: String(error) }
+}
+
+/**
+ * 还原错误，插件系统自身的错误类型保持 instanceof 可用
+ */
+export function deserializeError(serialized: SerializedPluginError): Error {
+  const ErrorType = ERROR_TYPES[serialized.name] ?? Error
+  const error = new ErrorType(serialized.message)
+  error.name = serialized.name
+  if (serialized.stack) error.stack = serialized.stack
+  return error
+}
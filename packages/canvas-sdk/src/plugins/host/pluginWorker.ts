@@ -0,0 +1,40 @@
+/**
+ * 插件 Worker 入口 - 按 init 消息中的模块地址加载插件，Worker 中没有 DOM 与 localStorage，
+ * 网络与存储全局对象也被屏蔽，插件只能通过消息调用宿主授予的 API
+ */
+
+import { type PluginModule, restrictGlobals, startPluginGuest } from './PluginGuest'
+import type { GuestToHostMessage, HostToGuestMessage } from './PluginHostProtocol'
+
+interface WorkerScope {
+  postMessage(message: GuestToHostMessage): void
+  addEventListener(
+    type: 'message',
+    listener: (event: MessageEvent<HostToGuestMessage>) => void
+  ): void
+  removeEventListener(
+    type: 'message',
+    listener: (event: MessageEvent<HostToGuestMessage>) => void
+  ): void
+  close(): void
+}
+
+const scope = self as unknown as WorkerScope
+
+restrictGlobals(self)
+
+startPluginGuest(
+  {
+    postMessage: (message) => scope.postMessage(message),
+    onMessage: (listener) => {
+      const handler = (event: MessageEvent<HostToGuestMessage>) => listener(event.data)
+      scope.addEventListener('message', handler)
+      return () => scope.removeEventListener('message', handler)
+    },
+    terminate: () => scope.close(),
+  },
+  async (moduleUrl, manifest) => {
+    const url = moduleUrl ?? manifest.main
+    return (await import(/* @vite-ignore */ url)) as PluginModule
+  }
+)
@@ -2,14 +2,42 @@
  * 插件系统主入口文件
  */
 
+export {
+  type DependencyDiagnostic,
+  type DependencyDiagnosticKind,
+  type DependencyResolution,
+  DependencyResolver,
+  PLUGIN_ENGINE_VERSION,
+  PluginDependencyError,
+} from './core/DependencyResolver'
 export { DEFAULT_EXTENSION_POINTS, ExtensionManager } from './core/ExtensionManager'
 export { PermissionManager } from './core/PermissionManager'
 export { PluginContextImpl } from './core/PluginContext'
 // 核心组件
-export { PluginManager } from './core/PluginManager'
+export {
+  type IsolatedPluginOptions,
+  PluginManager,
+  type PluginManagerOptions,
+} from './core/PluginManager'
 // 示例插件
 export { default as CircleToolPlugin } from './examples/CircleToolPlugin'
 export { default as TextToolPlugin } from './examples/TextToolPlugin'
+// 隔离宿主
+export {
+  createInProcessChannel,
+  createInProcessEndpoint,
+  createPluginWorker,
+  createWorkerEndpoint,
+} from './host/PluginEndpoints'
+export { type PluginModule, startPluginGuest } from './host/PluginGuest'
+export { PluginHost, type PluginHostOptions } from './host/PluginHost'
+export {
+  type PluginGuestEndpoint,
+  type PluginHostEndpoint,
+  PluginPermissionError,
+  PluginTerminatedError,
+  PluginTimeoutError,
+} from './host/PluginHostProtocol'
 
 // 市场
 export { LocalPluginStore, PluginMarketplace } from './marketplace/PluginMarketplace'
@@ -20,13 +48,13 @@ export * from './types/PluginTypes'
 
 import { DEFAULT_EXTENSION_POINTS } from './core/ExtensionManager'
 // 插件系统工厂
-import { PluginManager } from './core/PluginManager'
+import { PluginManager, type PluginManagerOptions } from './core/PluginManager'
 
 /**
  * 创建插件系统实例
  */
-export function createPluginSystem(): PluginManager {
-  const pluginManager = new PluginManager()
+export function createPluginSystem(options: PluginManagerOptions = {}): PluginManager {
+  const pluginManager = new PluginManager(options)
   const extensionManager = pluginManager.getExtensionManager()
 
   // 注册默认扩展点
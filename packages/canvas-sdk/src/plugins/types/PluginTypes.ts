@@ -2,6 +2,8 @@
  * 插件系统核心类型定义
  */
 
+import type { IShapeTypeDefinition } from '../../models/entities/ShapeTypeRegistry'
+
 // 插件状态枚举
 export enum PluginStatus {
   UNLOADED = 'unloaded',
@@ -34,6 +36,7 @@ export enum ExtensionPointType {
   FILTER = 'filter',
   EXPORTER = 'exporter',
   IMPORTER = 'importer',
+  SHAPE = 'shape',
 }
 
 // 插件元数据
@@ -100,6 +103,16 @@ export interface PluginContext {
 
   // 日志记录
   logger: PluginLogger
+
+  // 依赖插件导出的 API
+  dependencies: PluginDependencies
+}
+
+// 依赖插件访问器，只能访问清单中声明的依赖
+export interface PluginDependencies {
+  // 获取依赖插件 activate 的返回值，依赖未声明或未激活时抛出错误
+  get<T = unknown>(pluginId: string): T
+  has(pluginId: string): boolean
 }
 
 // 插件API接口
@@ -144,7 +157,8 @@ export interface PluginAPI {
     open(filters?: FileFilter[]): Promise<File | null>
     save(data: any, filename?: string): Promise<void>
     import(data: any): Promise<void>
-    export(format: string): Promise<any>
+    /** 按格式注册表中的格式导出当前画布内容 */
+    export(format: string, options?: Record<string, unknown>): Promise<any>
   }
 
   // 文件系统操作
@@ -170,6 +184,12 @@ export interface PluginAPI {
     unregister(id: string): void
     getAvailable(): CustomRenderer[]
   }
+
+  // 自定义形状类型，通过 canvas.shapes 扩展点登记，插件停用时注销
+  shapes: {
+    register(definition: IShapeTypeDefinition): void
+    unregister(type: string): void
+  }
 }
 
 // 插件配置管理
@@ -307,8 +327,8 @@ export interface CustomRenderer {
 
 // 插件生命周期接口
 export interface Plugin {
-  // 插件激活
-  activate(context: PluginContext): Promise<void>
+  // 插件激活，返回值作为插件导出的 API 提供给依赖它的插件
+  activate(context: PluginContext): Promise<unknown>
 
   // 插件停用
   deactivate(): Promise<void>
@@ -329,6 +349,8 @@ export interface PluginInstance {
   error?: Error
   loadTime?: number
   activateTime?: number
+  // activate 的返回值，停用后清空
+  exports?: unknown
 }
 
 // 扩展点注册信息
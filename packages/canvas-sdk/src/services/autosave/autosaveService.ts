@@ -0,0 +1,440 @@
+/**
+ * 自动保存服务
+ * 画布变更后防抖写入当前会话，只重写变化的形状；页面意外关闭后可恢复上次未保存的会话，
+ * 并可创建命名还原点
+ */
+
+import { createDecorator } from '../../di'
+import { ICanvasManager } from '../../managers/CanvasManager'
+import { type IDocumentLoadResult, IDocumentManager } from '../../managers/DocumentManager'
+import {
+  type IDocumentAsset,
+  type ISkyCanvasDocument,
+  type SerializedShapeEntity,
+  SKY_CANVAS_DOCUMENT_FORMAT,
+  SKY_CANVAS_DOCUMENT_VERSION,
+} from '../../models/document/SkyCanvasDocument'
+import type { ShapeEntity } from '../../models/entities/Shape'
+import { IConfigurationService } from '../configuration/configurationService'
+import type { ISerializedHistory } from '../history/historyStore'
+import { ILogService } from '../logging/logService'
+import { IShapeService } from '../shape/shapeService'
+import { type AutosaveWriteOperation, IAutosaveStorage } from './autosaveStorage'
+
+/**
+ * 自动保存会话摘要
+ */
+export interface IAutosaveSessionInfo {
+  id: string
+  createdAt: string
+  updatedAt: string
+  /** 最近一次写入后是否有尚未保存为文档的变更 */
+  unsaved: boolean
+  shapeCount: number
+}
+
+/**
+ * 还原点摘要
+ */
+export interface IRestorePointInfo {
+  id: string
+  name: string
+  createdAt: string
+  shapeCount: number
+}
+
+/**
+ * 会话记录：场景与撤销栈随每次写入整体覆盖，形状按 `会话 id/形状 id` 单独保存
+ */
+interface IAutosaveSessionRecord extends IAutosaveSessionInfo {
+  scene: ISkyCanvasDocument['scene']
+  layers: ISkyCanvasDocument['layers']
+  history?: ISerializedHistory
+}
+
+interface IAutosaveShapeRecord {
+  shape: SerializedShapeEntity
+  asset?: IDocumentAsset
+}
+
+interface IRestorePointRecord extends IRestorePointInfo {
+  document: ISkyCanvasDocument
+}
+
+/**
+ * 自动保存服务接口
+ */
+export interface IAutosaveService {
+  readonly _serviceBrand: undefined
+  /** 当前会话 id */
+  readonly sessionId: string
+  /** 开始监听画布变更 */
+  start(): void
+  /** 停止监听，未写入的变更立即写入 */
+  stop(): Promise<void>
+  isRunning(): boolean
+  /** 立即写入待保存的变更 */
+  flush(): Promise<void>
+  /** 当前内容已保存为文档，会话不再需要恢复 */
+  markSaved(): Promise<void>
+
+  // 会话恢复
+  /** 最近一个有未保存变更的其他会话 */
+  getRecoverableSession(): Promise<IAutosaveSessionInfo | null>
+  /** 将会话载入画布，成功后删除该会话 */
+  recoverSession(sessionId: string): Promise<IDocumentLoadResult>
+  discardSession(sessionId: string): Promise<void>
+
+  // 还原点
+  createRestorePoint(name: string): Promise<IRestorePointInfo>
+  /** 按创建时间倒序列出还原点 */
+  listRestorePoints(): Promise<IRestorePointInfo[]>
+  restoreRestorePoint(id: string): Promise<IDocumentLoadResult>
+  deleteRestorePoint(id: string): Promise<void>
+
+  dispose(): void
+}
+
+/**
+ * 自动保存服务标识符
+ */
+export const IAutosaveService = createDecorator<IAutosaveService>('AutosaveService')
+
+/** 防抖延迟（毫秒） */
+const DEFAULT_DELAY = 1000
+/** 保留的还原点数量 */
+const DEFAULT_MAX_RESTORE_POINTS = 20
+
+/**
+ * 自动保存服务实现
+ */
+export class AutosaveService implements IAutosaveService {
+  readonly _serviceBrand: undefined
+  readonly sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+
+  private readonly createdAt = new Date().toISOString()
+  private running = false
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private dirtyIds = new Set<string>()
+  /** 撤销、重做、清空不逐个报告形状，下次写入时与已写入内容整体比较 */
+  private fullScan = false
+  private changed = false
+  /** 已写入形状的内容摘要，内容未变化时跳过写入 */
+  private writtenHashes = new Map<string, number>()
+  private pending: Promise<void> = Promise.resolve()
+  private pruned: Promise<void> | null = null
+  private unsubscribeSave: (() => void) | null = null
+
+  private readonly onShapeChanged = (entity: unknown) => {
+    const id = (entity as { id?: unknown } | undefined)?.id
+    if (typeof id === 'string') this.dirtyIds.add(id)
+    this.schedule()
+  }
+
+  private readonly onHistoryChanged = () => {
+    this.fullScan = true
+    this.schedule()
+  }
+
+  private readonly onDocumentSaved = () => {
+    this.markSaved().catch((error) => {
+      this.logService.warn('Failed to mark autosave session as saved', error)
+    })
+  }
+
+  constructor(
+    @ICanvasManager private canvasManager: ICanvasManager,
+    @IDocumentManager private documentManager: IDocumentManager,
+    @IShapeService private shapeService: IShapeService,
+    @IAutosaveStorage private storage: IAutosaveStorage,
+    @IConfigurationService private configurationService: IConfigurationService,
+    @ILogService private logService: ILogService
+  ) {}
+
+  start(): void {
+    if (this.running) return
+    this.running = true
+    for (const event of ['shape:added', 'shape:removed', 'shape:updated']) {
+      this.canvasManager.on(event, this.onShapeChanged)
+    }
+    for (const event of ['history:undone', 'history:redone', 'history:cleared']) {
+      this.canvasManager.on(event, this.onHistoryChanged)
+    }
+    this.unsubscribeSave = this.documentManager.onDidSave(this.onDocumentSaved)
+    void this.pruneSessions()
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return
+    this.running = false
+    for (const event of ['shape:added', 'shape:removed', 'shape:updated']) {
+      this.canvasManager.off(event, this.onShapeChanged)
+    }
+    for (const event of ['history:undone', 'history:redone', 'history:cleared']) {
+      this.canvasManager.off(event, this.onHistoryChanged)
+    }
+    this.unsubscribeSave?.()
+    this.unsubscribeSave = null
+    await this.flush()
+  }
+
+  isRunning(): boolean {
+    return this.running
+  }
+
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    if (!this.changed) return this.pending
+    this.changed = false
+    // 写入串行执行，避免较早的写入覆盖较新的会话记录
+    this.pending = this.pending.then(() =>
+      this.writeSession().catch((error) => {
+        this.logService.warn('Autosave failed', error)
+      })
+    )
+    return this.pending
+  }
+
+  async markSaved(): Promise<void> {
+    await this.flush()
+    const session = await this.storage.get<IAutosaveSessionRecord>('sessions', this.sessionId)
+    if (!session?.unsaved) return
+    await this.storage.write([
+      {
+        type: 'put',
+        store: 'sessions',
+        key: this.sessionId,
+        value: { ...session, unsaved: false },
+      },
+    ])
+  }
+
+  // === 会话恢复 ===
+
+  async getRecoverableSession(): Promise<IAutosaveSessionInfo | null> {
+    await this.pruned
+    const sessions = await this.storage.getAll<IAutosaveSessionRecord>('sessions')
+    const latest = sessions
+      .filter((session) => session.id !== this.sessionId && session.unsaved)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]
+    return latest ? toSessionInfo(latest) : null
+  }
+
+  async recoverSession(sessionId: string): Promise<IDocumentLoadResult> {
+    const session = await this.storage.get<IAutosaveSessionRecord>('sessions', sessionId)
+    if (!session) {
+      return failedLoad(`Autosave session not found: ${sessionId}`)
+    }
+
+    const records = await this.storage.getAll<IAutosaveShapeRecord>('shapes', `${sessionId}/`)
+    const assets: Record<string, IDocumentAsset> = {}
+    for (const record of records) {
+      if (record.asset) assets[record.asset.id] = record.asset
+    }
+    const document: ISkyCanvasDocument = {
+      format: SKY_CANVAS_DOCUMENT_FORMAT,
+      version: SKY_CANVAS_DOCUMENT_VERSION,
+      savedAt: session.updatedAt,
+      scene: session.scene,
+      layers: session.layers,
+      shapes: records.map((record) => record.shape),
+      assets,
+      history: session.history,
+    }
+
+    const result = await this.documentManager.load(document)
+    if (result.success) {
+      await this.discardSession(sessionId)
+      this.logService.info(`Recovered autosave session ${sessionId}`)
+    }
+    return result
+  }
+
+  async discardSession(sessionId: string): Promise<void> {
+    const keys = await this.storage.keys('shapes', `${sessionId}/`)
+    await this.storage.write([
+      { type: 'delete', store: 'sessions', key: sessionId },
+      ...keys.map((key): AutosaveWriteOperation => ({ type: 'delete', store: 'shapes', key })),
+    ])
+  }
+
+  // === 还原点 ===
+
+  async createRestorePoint(name: string): Promise<IRestorePointInfo> {
+    const document = await this.documentManager.createDocument()
+    const record: IRestorePointRecord = {
+      id: `restore_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      name,
+      createdAt: new Date().toISOString(),
+      shapeCount: document.shapes.length,
+      document,
+    }
+
+    const points = await this.listRestorePoints()
+    const max = this.configurationService.get<number>('autosave.maxRestorePoints')
+    const expired = points.slice(Math.max((max ?? DEFAULT_MAX_RESTORE_POINTS) - 1, 0))
+    await this.storage.write([
+      { type: 'put', store: 'restorePoints', key: record.id, value: record },
+      ...expired.map(
+        (point): AutosaveWriteOperation => ({
+          type: 'delete',
+          store: 'restorePoints',
+          key: point.id,
+        })
+      ),
+    ])
+    return toRestorePointInfo(record)
+  }
+
+  async listRestorePoints(): Promise<IRestorePointInfo[]> {
+    const records = await this.storage.getAll<IRestorePointRecord>('restorePoints')
+    return records
+      .map(toRestorePointInfo)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id))
+  }
+
+  async restoreRestorePoint(id: string): Promise<IDocumentLoadResult> {
+    const record = await this.storage.get<IRestorePointRecord>('restorePoints', id)
+    if (!record) {
+      return failedLoad(`Restore point not found: ${id}`)
+    }
+    return this.documentManager.load(record.document)
+  }
+
+  async deleteRestorePoint(id: string): Promise<void> {
+    await this.storage.write([{ type: 'delete', store: 'restorePoints', key: id }])
+  }
+
+  dispose(): void {
+    void this.stop()
+  }
+
+  // === 写入 ===
+
+  private schedule(): void {
+    this.changed = true
+    if (this.timer) clearTimeout(this.timer)
+    const delay = this.configurationService.get<number>('autosave.delay') ?? DEFAULT_DELAY
+    this.timer = setTimeout(() => {
+      this.timer = null
+      void this.flush()
+    }, delay)
+  }
+
+  private async writeSession(): Promise<void> {
+    const dirtyIds = this.dirtyIds
+    const fullScan = this.fullScan
+    this.dirtyIds = new Set()
+    this.fullScan = false
+
+    const shapes = new Map<string, ShapeEntity>()
+    for (const shape of this.shapeService.getAllShapeEntities()) shapes.set(shape.id, shape)
+    const candidates = fullScan
+      ? new Set([...shapes.keys(), ...this.writtenHashes.keys()])
+      : dirtyIds
+
+    const operations: AutosaveWriteOperation[] = []
+    const hashes = new Map<string, number | null>()
+    for (const id of candidates) {
+      const shape = shapes.get(id)
+      const key = `${this.sessionId}/${id}`
+      if (!shape) {
+        if (this.writtenHashes.has(id)) {
+          operations.push({ type: 'delete', store: 'shapes', key })
+          hashes.set(id, null)
+        }
+        continue
+      }
+      const record: IAutosaveShapeRecord = await this.documentManager.serializeShapeEntity(shape)
+      const hash = hashString(JSON.stringify(record))
+      if (this.writtenHashes.get(id) === hash) continue
+      operations.push({ type: 'put', store: 'shapes', key, value: record })
+      hashes.set(id, hash)
+    }
+
+    const session: IAutosaveSessionRecord = {
+      id: this.sessionId,
+      createdAt: this.createdAt,
+      updatedAt: new Date().toISOString(),
+      unsaved: true,
+      shapeCount: shapes.size,
+      ...this.documentManager.createSceneSnapshot(),
+      history: this.canvasManager.serializeHistory(),
+    }
+    operations.push({ type: 'put', store: 'sessions', key: this.sessionId, value: session })
+
+    try {
+      await this.storage.write(operations)
+    } catch (error) {
+      // 写入失败时保留这些形状，下次写入时重试
+      for (const id of candidates) this.dirtyIds.add(id)
+      this.fullScan ||= fullScan
+      throw error
+    }
+    // 写入成功后再记录摘要
+    for (const [id, hash] of hashes) {
+      if (hash === null) {
+        this.writtenHashes.delete(id)
+      } else {
+        this.writtenHashes.set(id, hash)
+      }
+    }
+    this.logService.debug(`Autosaved ${operations.length - 1} shape changes`)
+  }
+
+  /**
+   * 清理旧会话：只保留最近一个有未保存变更的会话供恢复
+   */
+  private pruneSessions(): Promise<void> {
+    this.pruned ??= (async () => {
+      try {
+        const sessions = await this.storage.getAll<IAutosaveSessionRecord>('sessions')
+        const others = sessions
+          .filter((session) => session.id !== this.sessionId)
+          .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        const keep = others.find((session) => session.unsaved)
+        for (const session of others) {
+          if (session !== keep) await this.discardSession(session.id)
+        }
+      } catch (error) {
+        this.logService.warn('Failed to clean up autosave sessions', error)
+      }
+    })()
+    return this.pruned
+  }
+}
+
+function toSessionInfo(session: IAutosaveSessionRecord): IAutosaveSessionInfo {
+  const { id, createdAt, updatedAt, unsaved, shapeCount } = session
+  return { id, createdAt, updatedAt, unsaved, shapeCount }
+}
+
+function toRestorePointInfo(record: IRestorePointRecord): IRestorePointInfo {
+  const { id, name, createdAt, shapeCount } = record
+  return { id, name, createdAt, shapeCount }
+}
+
+function failedLoad(message: string): IDocumentLoadResult {
+  return {
+    success: false,
+    migratedFrom: null,
+    shapeCount: 0,
+    historyRestored: false,
+    errors: [message],
+  }
+}
+
+/**
+ * FNV-1a 字符串摘要
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
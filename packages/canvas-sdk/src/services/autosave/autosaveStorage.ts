@@ -0,0 +1,200 @@
+/**
+ * 自动保存存储
+ * 以键值对象仓库的形式保存会话与还原点，浏览器中使用 IndexedDB，测试中使用内存实现
+ */
+
+import { createDecorator } from '../../di'
+
+/**
+ * 对象仓库名称
+ */
+export type AutosaveStoreName = 'sessions' | 'shapes' | 'restorePoints'
+
+export const AUTOSAVE_STORES: readonly AutosaveStoreName[] = ['sessions', 'shapes', 'restorePoints']
+
+/**
+ * 批量写入中的单个操作
+ */
+export type AutosaveWriteOperation =
+  | { type: 'put'; store: AutosaveStoreName; key: string; value: unknown }
+  | { type: 'delete'; store: AutosaveStoreName; key: string }
+
+/**
+ * 自动保存存储接口
+ */
+export interface IAutosaveStorage {
+  readonly _serviceBrand: undefined
+  get<T>(store: AutosaveStoreName, key: string): Promise<T | undefined>
+  /** 读取键以 prefix 开头的全部记录，按键排序 */
+  getAll<T>(store: AutosaveStoreName, prefix?: string): Promise<T[]>
+  /** 列出键以 prefix 开头的全部键，按键排序 */
+  keys(store: AutosaveStoreName, prefix?: string): Promise<string[]>
+  /** 在同一事务中执行全部写入，要么全部生效要么全部失败 */
+  write(operations: AutosaveWriteOperation[]): Promise<void>
+  dispose(): void
+}
+
+/**
+ * 自动保存存储服务标识符
+ */
+export const IAutosaveStorage = createDecorator<IAutosaveStorage>('AutosaveStorage')
+
+/**
+ * 数据库结构版本，新增对象仓库时递增
+ */
+const AUTOSAVE_DB_VERSION = 1
+
+/**
+ * IndexedDB 存储：记录使用外部键，前缀查询转换为键范围
+ */
+export class IndexedDBAutosaveStorage implements IAutosaveStorage {
+  readonly _serviceBrand: undefined
+  private database: Promise<IDBDatabase> | null = null
+
+  constructor(
+    private readonly databaseName = 'sky-canvas-autosave',
+    private readonly factory?: IDBFactory
+  ) {}
+
+  async get<T>(store: AutosaveStoreName, key: string): Promise<T | undefined> {
+    const database = await this.open()
+    const request = database.transaction(store).objectStore(store).get(key)
+    return (await requestToPromise(request)) as T | undefined
+  }
+
+  async getAll<T>(store: AutosaveStoreName, prefix?: string): Promise<T[]> {
+    const database = await this.open()
+    const request = database.transaction(store).objectStore(store).getAll(prefixRange(prefix))
+    return (await requestToPromise(request)) as T[]
+  }
+
+  async keys(store: AutosaveStoreName, prefix?: string): Promise<string[]> {
+    const database = await this.open()
+    const request = database.transaction(store).objectStore(store).getAllKeys(prefixRange(prefix))
+    return (await requestToPromise(request)) as string[]
+  }
+
+  async write(operations: AutosaveWriteOperation[]): Promise<void> {
+    if (operations.length === 0) return
+    const database = await this.open()
+    const stores = [...new Set(operations.map((operation) => operation.store))]
+    const transaction = database.transaction(stores, 'readwrite')
+    for (const operation of operations) {
+      const store = transaction.objectStore(operation.store)
+      if (operation.type === 'put') {
+        store.put(operation.value, operation.key)
+      } else {
+        store.delete(operation.key)
+      }
+    }
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'))
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  dispose(): void {
+    const database = this.database
+    this.database = null
+    void database?.then((db) => db.close()).catch(() => {})
+  }
+
+  /**
+   * 首次访问时打开数据库，打开失败后允许重试
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const factory = this.factory ?? globalThis.indexedDB
+        if (!factory) {
+          reject(new Error('IndexedDB is not available'))
+          return
+        }
+        const request = factory.open(this.databaseName, AUTOSAVE_DB_VERSION)
+        request.onupgradeneeded = () => {
+          const database = request.result
+          for (const name of AUTOSAVE_STORES) {
+            if (!database.objectStoreNames.contains(name)) database.createObjectStore(name)
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      this.database.catch(() => {
+        this.database = null
+      })
+    }
+    return this.database
+  }
+}
+
+/**
+ * 内存存储：保存结构化副本，行为与 IndexedDB 一致，用于测试或不支持 IndexedDB 的环境
+ */
+export class MemoryAutosaveStorage implements IAutosaveStorage {
+  readonly _serviceBrand: undefined
+  private stores = new Map<AutosaveStoreName, Map<string, unknown>>(
+    AUTOSAVE_STORES.map((name) => [name, new Map()])
+  )
+
+  async get<T>(store: AutosaveStoreName, key: string): Promise<T | undefined> {
+    const value = this.getStore(store).get(key)
+    return value === undefined ? undefined : (clone(value) as T)
+  }
+
+  async getAll<T>(store: AutosaveStoreName, prefix?: string): Promise<T[]> {
+    const records = this.getStore(store)
+    return (await this.keys(store, prefix)).map((key) => clone(records.get(key)) as T)
+  }
+
+  async keys(store: AutosaveStoreName, prefix?: string): Promise<string[]> {
+    return [...this.getStore(store).keys()]
+      .filter((key) => prefix === undefined || key.startsWith(prefix))
+      .sort()
+  }
+
+  async write(operations: AutosaveWriteOperation[]): Promise<void> {
+    // 先复制全部值，复制失败时不写入任何记录
+    const values = operations.map((operation) =>
+      operation.type === 'put' ? clone(operation.value) : undefined
+    )
+    operations.forEach((operation, index) => {
+      const records = this.getStore(operation.store)
+      if (operation.type === 'put') {
+        records.set(operation.key, values[index])
+      } else {
+        records.delete(operation.key)
+      }
+    })
+  }
+
+  dispose(): void {
+    for (const records of this.stores.values()) records.clear()
+  }
+
+  private getStore(store: AutosaveStoreName): Map<string, unknown> {
+    const records = this.stores.get(store)
+    if (!records) {
+      throw new Error(`Unknown autosave store: ${store}`)
+    }
+    return records
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function prefixRange(prefix?: string): IDBKeyRange | undefined {
+  return prefix === undefined ? undefined : IDBKeyRange.bound(prefix, `${prefix}\uffff`)
+}
+
+function clone<T>(value: T): T {
+  return typeof structuredClone === 'function'
+    ? structuredClone(value)
+    : (JSON.parse(JSON.stringify(value)) as T)
+}
@@ -0,0 +1,553 @@
+/**
+ * 协作服务
+ * 把 CanvasManager 的形状与 SceneManager 的图层绑定到 CRDT 文档：本地变更转换为操作发送给其他客户端，
+ * 远程操作直接写入画布而不进入撤销栈，因此撤销只回退自己的操作；同时同步光标与选择等在线状态，
+ * 本地光标取自画布上的指针移动，其他协作者的光标与选择框绘制在渲染覆盖层中
+ */
+
+import { createDecorator } from '../../di'
+import { ICanvasManager, type IExternalShapeChanges } from '../../managers/CanvasManager'
+import { type ILayerInfo, ISceneManager } from '../../managers/SceneManager'
+import { decodeImageData, encodeImageData } from '../../models/document/SkyCanvasDocument'
+import type { IImageDataLike, ShapeEntity } from '../../models/entities/Shape'
+import { PresenceView } from '../../views/PresenceView'
+import { IConfigurationService } from '../configuration/configurationService'
+import { IInteractionService } from '../interaction/interactionService'
+import { ILogService } from '../logging/logService'
+import { ICanvasRenderingService } from '../rendering/renderingService'
+import { IShapeService } from '../shape/shapeService'
+import {
+  CrdtDocument,
+  type CrdtFields,
+  type ICrdtChange,
+  type ICrdtOperation,
+} from './crdtDocument'
+import type {
+  ICollaborationUser,
+  IPresenceState,
+  ISyncTransport,
+  SyncMessage,
+} from './syncProtocol'
+
+/**
+ * 远程协作者
+ */
+export interface IRemotePeer extends IPresenceState {
+  clientId: string
+}
+
+/**
+ * 协作服务接口
+ */
+export interface ICollaborationService {
+  readonly _serviceBrand: undefined
+  readonly clientId: string
+  /** 共享的 CRDT 文档 */
+  readonly document: CrdtDocument
+  /** 连接到同步服务器；首次连接时开始绑定画布，断开后本地变更在重连时补发 */
+  connect(transport: ISyncTransport, user?: Partial<Omit<ICollaborationUser, 'id'>>): void
+  disconnect(): void
+  isConnected(): boolean
+  getUser(): ICollaborationUser
+  /** 更新本地光标（世界坐标），null 表示光标离开画布 */
+  setCursor(point: { x: number; y: number } | null): void
+  getPeers(): IRemotePeer[]
+  onDidChangePeers(listener: (peers: IRemotePeer[]) => void): () => void
+  dispose(): void
+}
+
+/**
+ * 协作服务标识符
+ */
+export const ICollaborationService = createDecorator<ICollaborationService>('CollaborationService')
+
+/** CRDT 集合：形状、图层，以及形状所属的图层 */
+const SHAPES = 'shapes'
+const LAYERS = 'layers'
+const PLACEMENTS = 'placements'
+
+/** 只在本地有意义的形状字段，不参与同步 */
+const LOCAL_SHAPE_FIELDS = new Set(['id', 'updatedAt'])
+
+const LAYER_FIELDS = [
+  'name',
+  'visible',
+  'locked',
+  'opacity',
+  'zIndex',
+  'blendMode',
+  'parentId',
+  'isGroup',
+] as const
+
+/** 在线状态的最小发送间隔（毫秒） */
+const DEFAULT_PRESENCE_INTERVAL = 50
+
+const PEER_COLORS = ['#e8590c', '#2f9e44', '#1971c2', '#9c36b5', '#c2255c', '#0c8599', '#f08c00']
+
+/**
+ * 协作服务实现
+ */
+export class CollaborationService implements ICollaborationService {
+  readonly _serviceBrand: undefined
+  readonly clientId = `client_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+  readonly document: CrdtDocument
+
+  private user: ICollaborationUser
+  private transport: ISyncTransport | null = null
+  private transportDisposers: Array<() => void> = []
+  private bound = false
+  /** 正在把远程变更写入画布，期间的画布事件不再转换为操作 */
+  private applying = false
+  private outgoing: ICrdtOperation[] = []
+  private flushScheduled = false
+  private peers = new Map<string, IRemotePeer>()
+  private peerListeners = new Set<(peers: IRemotePeer[]) => void>()
+  private cursor: { x: number; y: number } | null = null
+  private presenceTimer: ReturnType<typeof setTimeout> | null = null
+  private disposeLayerListener?: () => void
+  private disposePointerListener?: () => void
+  private readonly presenceView = new PresenceView({
+    getPeers: () => this.getPeers(),
+    getShapes: () => this.shapeService.getAllShapeEntities(),
+    getZoom: () => this.renderingService.getRenderEngine()?.getViewport().zoom ?? 1,
+  })
+
+  private readonly onShapeChanged = (entity: unknown) => {
+    const id = (entity as { id?: unknown } | undefined)?.id
+    if (this.applying || typeof id !== 'string') return
+    this.syncShape(id, false)
+  }
+
+  private readonly onHistoryMoved = () => {
+    if (!this.applying) this.syncAllShapes(true)
+  }
+
+  private readonly onCanvasCleared = () => {
+    if (!this.applying) this.syncAllShapes(false)
+  }
+
+  private readonly onLayersChanged = () => {
+    if (!this.applying) this.syncLayers()
+  }
+
+  private readonly onSelectionChanged = () => {
+    this.schedulePresence()
+  }
+
+  constructor(
+    @ICanvasManager private canvasManager: ICanvasManager,
+    @ISceneManager private sceneManager: ISceneManager,
+    @IShapeService private shapeService: IShapeService,
+    @IConfigurationService private configurationService: IConfigurationService,
+    @IInteractionService private interactionService: IInteractionService,
+    @ICanvasRenderingService private renderingService: ICanvasRenderingService,
+    @ILogService private logService: ILogService
+  ) {
+    this.document = new CrdtDocument(this.clientId)
+    this.user = {
+      id: this.clientId,
+      name: `用户 ${this.clientId.slice(-4)}`,
+      color: PEER_COLORS[hashString(this.clientId) % PEER_COLORS.length],
+    }
+  }
+
+  connect(transport: ISyncTransport, user?: Partial<Omit<ICollaborationUser, 'id'>>): void {
+    if (this.transport) this.disconnect()
+    this.user = { ...this.user, ...user, id: this.clientId }
+    this.bind()
+
+    this.transport = transport
+    this.transportDisposers = [
+      transport.onMessage((message) => this.handleMessage(message)),
+      transport.onClose(() => this.detachTransport()),
+    ]
+    transport.send({
+      type: 'sync',
+      clientId: this.clientId,
+      stateVector: this.document.getStateVector(),
+      reply: false,
+    })
+    this.sendPresence()
+    this.logService.info(`Collaboration connected as ${this.clientId}`)
+  }
+
+  disconnect(): void {
+    const transport = this.transport
+    if (!transport) return
+    transport.send({ type: 'presence', clientId: this.clientId, presence: null })
+    this.detachTransport()
+    transport.close()
+  }
+
+  isConnected(): boolean {
+    return this.transport !== null
+  }
+
+  getUser(): ICollaborationUser {
+    return { ...this.user }
+  }
+
+  setCursor(point: { x: number; y: number } | null): void {
+    this.cursor = point ? { x: point.x, y: point.y } : null
+    this.schedulePresence()
+  }
+
+  getPeers(): IRemotePeer[] {
+    return [...this.peers.values()]
+  }
+
+  onDidChangePeers(listener: (peers: IRemotePeer[]) => void): () => void {
+    this.peerListeners.add(listener)
+    return () => {
+      this.peerListeners.delete(listener)
+    }
+  }
+
+  dispose(): void {
+    this.disconnect()
+    if (this.presenceTimer) clearTimeout(this.presenceTimer)
+    this.presenceTimer = null
+    if (this.bound) {
+      for (const event of ['shape:added', 'shape:removed', 'shape:updated']) {
+        this.canvasManager.off(event, this.onShapeChanged)
+      }
+      this.canvasManager.off('history:undone', this.onHistoryMoved)
+      this.canvasManager.off('history:redone', this.onHistoryMoved)
+      this.canvasManager.off('history:cleared', this.onCanvasCleared)
+      for (const event of ['shape:selected', 'shape:deselected', 'selection:cleared']) {
+        this.canvasManager.off(event, this.onSelectionChanged)
+      }
+      this.disposeLayerListener?.()
+      this.disposePointerListener?.()
+      this.renderingService.removeOverlay(PresenceView.ID)
+      this.bound = false
+    }
+    this.peerListeners.clear()
+  }
+
+  // === 绑定画布 ===
+
+  private bind(): void {
+    if (this.bound) return
+    this.bound = true
+    this.sceneManager.setLayerIdPrefix(`${this.clientId}:`)
+    for (const event of ['shape:added', 'shape:removed', 'shape:updated']) {
+      this.canvasManager.on(event, this.onShapeChanged)
+    }
+    this.canvasManager.on('history:undone', this.onHistoryMoved)
+    this.canvasManager.on('history:redone', this.onHistoryMoved)
+    this.canvasManager.on('history:cleared', this.onCanvasCleared)
+    for (const event of ['shape:selected', 'shape:deselected', 'selection:cleared']) {
+      this.canvasManager.on(event, this.onSelectionChanged)
+    }
+    this.disposeLayerListener = this.sceneManager.onDidChangeLayers(this.onLayersChanged)
+    this.disposePointerListener = this.interactionService.onDidMovePointer((point) =>
+      this.setCursor(point)
+    )
+    this.renderingService.addOverlay(this.presenceView)
+
+    // 连接前已有的内容并入共享文档
+    this.syncAllShapes(false)
+    this.syncLayers()
+  }
+
+  /**
+   * 比较所有形状与共享文档
+   * @param ownOnly 撤销或重做后只提交最后由自己写入的字段，其他人之后写入的字段恢复为共享文档中的值
+   */
+  private syncAllShapes(ownOnly: boolean): void {
+    const ids = new Set(this.shapeService.getAllShapeEntities().map((shape) => shape.id))
+    for (const [id] of this.document.entries(SHAPES)) ids.add(id)
+    const reverts: IExternalShapeChanges = { updated: [], removed: [] }
+    for (const id of ids) this.syncShape(id, ownOnly, reverts)
+    if (reverts.updated?.length || reverts.removed?.length) {
+      this.withApplying(() => this.canvasManager.applyExternalChanges(reverts))
+    }
+  }
+
+  private syncShape(id: string, ownOnly: boolean, reverts?: IExternalShapeChanges): void {
+    const shape = this.shapeService.getShapeEntity(id)
+    const stored = this.document.get(SHAPES, id)
+    if (!shape) {
+      if (stored) this.push(this.document.delete(SHAPES, id))
+      return
+    }
+    if (!stored) {
+      // 撤销恢复了其他人删除的形状时保持删除
+      const deletedBy = this.document.getWriter(SHAPES, id)
+      if (ownOnly && deletedBy && deletedBy !== this.clientId) {
+        reverts?.removed?.push(id)
+        return
+      }
+      this.push(this.document.create(SHAPES, id, toShapeFields(shape)))
+      return
+    }
+
+    const changed = diffFields(stored, toShapeFields(shape))
+    if (ownOnly) {
+      const restored: CrdtFields = {}
+      for (const key of Object.keys(changed)) {
+        if (this.document.getWriter(SHAPES, id, key) === this.clientId) continue
+        restored[key] = stored[key] ?? null
+        delete changed[key]
+      }
+      if (Object.keys(restored).length > 0) {
+        reverts?.updated?.push({ id, updates: toShapeUpdates(restored) })
+      }
+    }
+    if (Object.keys(changed).length > 0) this.push(this.document.update(SHAPES, id, changed))
+  }
+
+  private syncLayers(): void {
+    const layers = this.sceneManager.getAllLayers()
+    const ids = new Set<string>()
+    for (const layer of layers) {
+      ids.add(layer.id)
+      const fields = toLayerFields(layer)
+      const stored = this.document.get(LAYERS, layer.id)
+      if (!stored) {
+        this.push(this.document.create(LAYERS, layer.id, fields))
+      } else {
+        const changed = diffFields(stored, fields)
+        if (Object.keys(changed).length > 0) {
+          this.push(this.document.update(LAYERS, layer.id, changed))
+        }
+      }
+      for (const shapeId of layer.shapes) {
+        if (this.document.get(PLACEMENTS, shapeId)?.layerId !== layer.id) {
+          this.push(this.document.create(PLACEMENTS, shapeId, { layerId: layer.id }))
+        }
+      }
+    }
+    for (const [id] of this.document.entries(LAYERS)) {
+      if (!ids.has(id)) this.push(this.document.delete(LAYERS, id))
+    }
+  }
+
+  // === 远程变更 ===
+
+  private handleMessage(message: SyncMessage): void {
+    switch (message.type) {
+      case 'sync':
+        this.transport?.send({
+          type: 'ops',
+          ops: this.document.getOperationsSince(message.stateVector),
+        })
+        if (!message.reply) {
+          this.transport?.send({
+            type: 'sync',
+            clientId: this.clientId,
+            stateVector: this.document.getStateVector(),
+            reply: true,
+          })
+        }
+        break
+      case 'ops': {
+        const { changes } = this.document.apply(message.ops)
+        if (changes.length > 0) this.applyChanges(changes)
+        break
+      }
+      case 'presence':
+        if (message.clientId === this.clientId) break
+        if (message.presence) {
+          this.peers.set(message.clientId, { ...message.presence, clientId: message.clientId })
+        } else {
+          this.peers.delete(message.clientId)
+        }
+        this.notifyPeers()
+        break
+    }
+  }
+
+  /**
+   * 把共享文档的变化写入画布与图层
+   */
+  private applyChanges(changes: ICrdtChange[]): void {
+    const external: IExternalShapeChanges = { added: [], updated: [], removed: [] }
+    let layersChanged = false
+    for (const change of changes) {
+      if (change.collection !== SHAPES) {
+        layersChanged = true
+        continue
+      }
+      if (change.type === 'removed') {
+        external.removed?.push(change.id)
+        layersChanged = true
+        continue
+      }
+      const fields = this.document.get(SHAPES, change.id)
+      if (!fields) continue
+      if (this.shapeService.getShapeEntity(change.id)) {
+        const updates: CrdtFields = {}
+        for (const key of change.fields) updates[key] = fields[key] ?? null
+        external.updated?.push({ id: change.id, updates: toShapeUpdates(updates) })
+        if ('zIndex' in updates) layersChanged = true
+      } else {
+        external.added?.push(fromShapeFields(change.id, fields))
+        layersChanged = true
+      }
+    }
+
+    this.withApplying(() => {
+      this.canvasManager.applyExternalChanges(external)
+      if (layersChanged) this.applyLayers()
+    })
+  }
+
+  /**
+   * 按共享文档重建图层：没有有效所属图层的形状放入最底层的图层
+   */
+  private applyLayers(): void {
+    const layers: ILayerInfo[] = this.document.entries(LAYERS).map(([id, fields]) => ({
+      id,
+      name: String(fields.name ?? id),
+      visible: fields.visible !== false,
+      locked: fields.locked === true,
+      opacity: typeof fields.opacity === 'number' ? fields.opacity : 1,
+      zIndex: typeof fields.zIndex === 'number' ? fields.zIndex : 0,
+      blendMode: (fields.blendMode ?? 'normal') as ILayerInfo['blendMode'],
+      parentId: typeof fields.parentId === 'string' ? fields.parentId : undefined,
+      isGroup: fields.isGroup === true ? true : undefined,
+      shapes: [],
+    }))
+    if (layers.length === 0) return
+
+    const byId = new Map(layers.map((layer) => [layer.id, layer]))
+    const fallback = [...layers].sort((a, b) => a.zIndex - b.zIndex || a.id.localeCompare(b.id))[0]
+    const zIndex = new Map<string, number>()
+    for (const [id, fields] of this.document.entries(SHAPES)) {
+      zIndex.set(id, typeof fields.zIndex === 'number' ? fields.zIndex : 0)
+      const layerId = this.document.get(PLACEMENTS, id)?.layerId
+      const layer = (typeof layerId === 'string' && byId.get(layerId)) || fallback
+      layer.shapes.push(id)
+    }
+    for (const layer of layers) {
+      layer.shapes.sort((a, b) => (zIndex.get(a) ?? 0) - (zIndex.get(b) ?? 0))
+    }
+    this.sceneManager.setLayers(layers)
+  }
+
+  private withApplying(apply: () => void): void {
+    const applying = this.applying
+    this.applying = true
+    try {
+      apply()
+    } finally {
+      this.applying = applying
+    }
+  }
+
+  // === 发送 ===
+
+  /**
+   * 同一轮事件中的操作合并为一条消息发送；未连接时操作保留在文档日志中，重连后补发
+   */
+  private push(operation: ICrdtOperation): void {
+    this.outgoing.push(operation)
+    if (this.flushScheduled) return
+    this.flushScheduled = true
+    queueMicrotask(() => {
+      this.flushScheduled = false
+      const ops = this.outgoing.splice(0)
+      if (ops.length > 0) this.transport?.send({ type: 'ops', ops })
+    })
+  }
+
+  private schedulePresence(): void {
+    if (!this.transport || this.presenceTimer) return
+    const interval =
+      this.configurationService.get<number>('collaboration.presenceInterval') ??
+      DEFAULT_PRESENCE_INTERVAL
+    this.presenceTimer = setTimeout(() => {
+      this.presenceTimer = null
+      this.sendPresence()
+    }, interval)
+  }
+
+  private sendPresence(): void {
+    this.transport?.send({
+      type: 'presence',
+      clientId: this.clientId,
+      presence: {
+        user: this.user,
+        cursor: this.cursor,
+        selection: this.canvasManager.getSelectedShapes().map((shape) => shape.id),
+      },
+    })
+  }
+
+  private detachTransport(): void {
+    for (const dispose of this.transportDisposers.splice(0)) dispose()
+    this.transport = null
+    if (this.presenceTimer) clearTimeout(this.presenceTimer)
+    this.presenceTimer = null
+    if (this.peers.size > 0) {
+      this.peers.clear()
+      this.notifyPeers()
+    }
+  }
+
+  private notifyPeers(): void {
+    const peers = this.getPeers()
+    for (const listener of this.peerListeners) listener(peers)
+    this.renderingService.render()
+  }
+}
+
+/**
+ * 形状转换为可同步的字段：日期转为 ISO 字符串，像素数据编码为 base64
+ */
+function toShapeFields(shape: ShapeEntity): CrdtFields {
+  const { imageData, ...rest } = shape as ShapeEntity & { imageData?: IImageDataLike }
+  const fields = JSON.parse(JSON.stringify(rest)) as CrdtFields
+  for (const key of LOCAL_SHAPE_FIELDS) delete fields[key]
+  if (imageData) fields.imageData = encodeImageData(imageData)
+  return fields
+}
+
+function toShapeUpdates(fields: CrdtFields): Partial<ShapeEntity> {
+  const updates: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === null) {
+      updates[key] = undefined
+    } else if (key === 'createdAt') {
+      updates[key] = new Date(value as string)
+    } else if (key === 'imageData') {
+      updates[key] = decodeImageData(value as Parameters<typeof decodeImageData>[0])
+    } else {
+      updates[key] = value
+    }
+  }
+  return updates as Partial<ShapeEntity>
+}
+
+function fromShapeFields(id: string, fields: CrdtFields): ShapeEntity {
+  return { ...toShapeUpdates(fields), id, updatedAt: new Date() } as ShapeEntity
+}
+
+function toLayerFields(layer: ILayerInfo): CrdtFields {
+  const fields: CrdtFields = {}
+  for (const key of LAYER_FIELDS) {
+    if (layer[key] !== undefined) fields[key] = layer[key]
+  }
+  return fields
+}
+
+/**
+ * 找出变化的字段，被移除的字段记为 null
+ */
+function diffFields(stored: CrdtFields, next: CrdtFields): CrdtFields {
+  const changed: CrdtFields = {}
+  for (const key of new Set([...Object.keys(stored), ...Object.keys(next)])) {
+    const value = next[key] ?? null
+    if (JSON.stringify(stored[key] ?? null) !== JSON.stringify(value)) changed[key] = value
+  }
+  return changed
+}
+
+function hashString(value: string): number {
+  let hash = 0
+  for (let i = 0; i < value.length; i++) hash = (hash * 31 + value.charCodeAt(i)) >>> 0
+  return hash
+}
@@ -0,0 +1,283 @@
+/**
+ * CRDT 文档
+ * 按集合保存实体，每个字段是一个最后写入者胜出的寄存器（Lamport 时钟 + 客户端 id 决胜），
+ * 删除同样是寄存器，因此任意顺序、重复地应用操作后所有副本收敛到相同状态
+ */
+
+/**
+ * 实体字段
+ */
+export type CrdtFields = Record<string, unknown>
+
+/**
+ * 单个操作：设置实体的若干字段，或删除 / 恢复实体
+ */
+export interface ICrdtOperation {
+  clientId: string
+  /** 该客户端的操作序号，从 1 开始连续递增 */
+  seq: number
+  /** Lamport 时钟 */
+  clock: number
+  collection: string
+  id: string
+  fields?: CrdtFields
+  /** true 删除实体，false 创建或恢复实体 */
+  deleted?: boolean
+}
+
+/**
+ * 状态向量：每个客户端已应用的最大操作序号
+ */
+export type StateVector = Record<string, number>
+
+/**
+ * 应用操作后实体的变化
+ */
+export interface ICrdtChange {
+  collection: string
+  id: string
+  type: 'added' | 'updated' | 'removed'
+  /** 值发生变化的字段 */
+  fields: string[]
+}
+
+interface IRegister<T = unknown> {
+  value: T
+  clock: number
+  clientId: string
+}
+
+interface IEntityState {
+  fields: Map<string, IRegister>
+  deleted?: IRegister<boolean>
+}
+
+/**
+ * CRDT 文档实现
+ */
+export class CrdtDocument {
+  private collections = new Map<string, Map<string, IEntityState>>()
+  /** 按客户端保存的操作日志，下标为 seq - 1，用于向其他副本补发缺失的操作 */
+  private log = new Map<string, ICrdtOperation[]>()
+  /** 序号不连续时暂存，等待缺失的操作到达 */
+  private pending = new Map<string, Map<number, ICrdtOperation>>()
+  private clock = 0
+
+  constructor(readonly clientId: string) {}
+
+  // === 本地操作 ===
+
+  /**
+   * 创建实体或恢复已删除的实体
+   */
+  create(collection: string, id: string, fields: CrdtFields): ICrdtOperation {
+    return this.local({ collection, id, fields, deleted: false })
+  }
+
+  /**
+   * 设置实体的部分字段
+   */
+  update(collection: string, id: string, fields: CrdtFields): ICrdtOperation {
+    return this.local({ collection, id, fields })
+  }
+
+  delete(collection: string, id: string): ICrdtOperation {
+    return this.local({ collection, id, deleted: true })
+  }
+
+  // === 远程操作 ===
+
+  /**
+   * 应用其他副本的操作，已应用过的操作被忽略
+   * @returns 新应用的操作（按应用顺序）与实体变化
+   */
+  apply(operations: ICrdtOperation[]): {
+    applied: ICrdtOperation[]
+    changes: ICrdtChange[]
+  } {
+    const applied: ICrdtOperation[] = []
+    const changes: ICrdtChange[] = []
+    for (const operation of operations) {
+      if (operation.seq <= this.getSeq(operation.clientId)) continue
+      let queue = this.pending.get(operation.clientId)
+      if (!queue) {
+        queue = new Map()
+        this.pending.set(operation.clientId, queue)
+      }
+      queue.set(operation.seq, operation)
+
+      // 按序号依次应用，保证同一客户端的操作因果有序
+      let next = queue.get(this.getSeq(operation.clientId) + 1)
+      while (next) {
+        queue.delete(next.seq)
+        const change = this.integrate(next)
+        applied.push(next)
+        if (change) changes.push(change)
+        next = queue.get(this.getSeq(operation.clientId) + 1)
+      }
+      if (queue.size === 0) this.pending.delete(operation.clientId)
+    }
+    return { applied, changes: mergeChanges(changes) }
+  }
+
+  // === 查询 ===
+
+  /**
+   * 获取实体的字段，实体不存在或已删除时返回 undefined
+   */
+  get(collection: string, id: string): CrdtFields | undefined {
+    const entity = this.collections.get(collection)?.get(id)
+    return entity && isVisible(entity) ? materialize(entity) : undefined
+  }
+
+  /**
+   * 列出集合中未删除的实体，按 id 排序
+   */
+  entries(collection: string): Array<[string, CrdtFields]> {
+    const entities = this.collections.get(collection)
+    if (!entities) return []
+    return [...entities.entries()]
+      .filter(([, entity]) => isVisible(entity))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([id, entity]) => [id, materialize(entity)])
+  }
+
+  /**
+   * 字段最后一次写入来自哪个客户端；字段为 undefined 时查询实体的删除状态
+   */
+  getWriter(collection: string, id: string, field?: string): string | undefined {
+    const entity = this.collections.get(collection)?.get(id)
+    if (!entity) return undefined
+    return field === undefined ? entity.deleted?.clientId : entity.fields.get(field)?.clientId
+  }
+
+  getStateVector(): StateVector {
+    const vector: StateVector = {}
+    for (const [clientId, operations] of this.log) vector[clientId] = operations.length
+    return vector
+  }
+
+  /**
+   * 对方状态向量之后的全部操作
+   */
+  getOperationsSince(vector: StateVector): ICrdtOperation[] {
+    const operations: ICrdtOperation[] = []
+    for (const [clientId, log] of this.log) {
+      operations.push(...log.slice(vector[clientId] ?? 0))
+    }
+    return operations
+  }
+
+  // === 私有方法 ===
+
+  private local(operation: Omit<ICrdtOperation, 'clientId' | 'seq' | 'clock'>): ICrdtOperation {
+    const full: ICrdtOperation = {
+      ...operation,
+      ...(operation.fields ? { fields: cloneFields(operation.fields) } : {}),
+      clientId: this.clientId,
+      seq: this.getSeq(this.clientId) + 1,
+      clock: this.clock + 1,
+    }
+    this.integrate(full)
+    return full
+  }
+
+  private getSeq(clientId: string): number {
+    return this.log.get(clientId)?.length ?? 0
+  }
+
+  /**
+   * 合并单个操作并写入日志
+   */
+  private integrate(operation: ICrdtOperation): ICrdtChange | null {
+    this.clock = Math.max(this.clock, operation.clock)
+    let log = this.log.get(operation.clientId)
+    if (!log) {
+      log = []
+      this.log.set(operation.clientId, log)
+    }
+    log.push(operation)
+
+    let entities = this.collections.get(operation.collection)
+    if (!entities) {
+      entities = new Map()
+      this.collections.set(operation.collection, entities)
+    }
+    let entity = entities.get(operation.id)
+    if (!entity) {
+      entity = { fields: new Map() }
+      entities.set(operation.id, entity)
+    }
+
+    const wasVisible = isVisible(entity)
+    const changed: string[] = []
+    for (const [key, value] of Object.entries(operation.fields ?? {})) {
+      const current = entity.fields.get(key)
+      if (current && !wins(operation, current)) continue
+      entity.fields.set(key, { value, clock: operation.clock, clientId: operation.clientId })
+      if (!current || JSON.stringify(current.value) !== JSON.stringify(value)) changed.push(key)
+    }
+    if (operation.deleted !== undefined && (!entity.deleted || wins(operation, entity.deleted))) {
+      entity.deleted = {
+        value: operation.deleted,
+        clock: operation.clock,
+        clientId: operation.clientId,
+      }
+    }
+
+    const visible = isVisible(entity)
+    const base = { collection: operation.collection, id: operation.id }
+    if (!wasVisible && visible) return { ...base, type: 'added', fields: [...entity.fields.keys()] }
+    if (wasVisible && !visible) return { ...base, type: 'removed', fields: [] }
+    if (visible && changed.length > 0) return { ...base, type: 'updated', fields: changed }
+    return null
+  }
+}
+
+/**
+ * 寄存器比较：时钟大者胜，时钟相同时客户端 id 大者胜
+ */
+function wins(operation: ICrdtOperation, register: IRegister): boolean {
+  if (operation.clock !== register.clock) return operation.clock > register.clock
+  return operation.clientId > register.clientId
+}
+
+function isVisible(entity: IEntityState): boolean {
+  return entity.deleted?.value === false
+}
+
+function materialize(entity: IEntityState): CrdtFields {
+  const fields: CrdtFields = {}
+  for (const [key, register] of entity.fields) fields[key] = cloneValue(register.value)
+  return fields
+}
+
+/**
+ * 同一实体的多次变化合并为一次
+ */
+function mergeChanges(changes: ICrdtChange[]): ICrdtChange[] {
+  const merged = new Map<string, ICrdtChange>()
+  for (const change of changes) {
+    const key = `${change.collection}\u0000${change.id}`
+    const previous = merged.get(key)
+    if (!previous) {
+      merged.set(key, change)
+    } else if (change.type === 'removed') {
+      if (previous.type === 'added') merged.delete(key)
+      else merged.set(key, change)
+    } else if (previous.type === 'removed') {
+      merged.set(key, { ...change, type: 'updated', fields: change.fields })
+    } else {
+      previous.fields = [...new Set([...previous.fields, ...change.fields])]
+    }
+  }
+  return [...merged.values()]
+}
+
+function cloneFields(fields: CrdtFields): CrdtFields {
+  return JSON.parse(JSON.stringify(fields)) as CrdtFields
+}
+
+function cloneValue<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T)
+}
@@ -0,0 +1,255 @@
+/**
+ * 协作同步协议
+ * 与传输方式无关：双方交换状态向量后补发对方缺失的操作，之后实时转发新操作与在线状态。
+ * 提供内存传输（同一进程内测试）与 WebSocket 传输，以及转发消息的同步服务器
+ */
+
+import { CrdtDocument, type ICrdtOperation, type StateVector } from './crdtDocument'
+
+/**
+ * 协作用户
+ */
+export interface ICollaborationUser {
+  id: string
+  name: string
+  color: string
+}
+
+/**
+ * 在线状态：光标位置为世界坐标，null 表示光标不在画布内
+ */
+export interface IPresenceState {
+  user: ICollaborationUser
+  cursor: { x: number; y: number } | null
+  selection: string[]
+}
+
+/**
+ * 同步消息
+ */
+export type SyncMessage =
+  /** 发送己方状态向量，对方回复缺失的操作；reply 为 false 时对方也发送自己的状态向量 */
+  | { type: 'sync'; clientId: string; stateVector: StateVector; reply: boolean }
+  | { type: 'ops'; ops: ICrdtOperation[] }
+  /** presence 为 null 表示客户端离开 */
+  | { type: 'presence'; clientId: string; presence: IPresenceState | null }
+
+/**
+ * 同步传输接口
+ */
+export interface ISyncTransport {
+  send(message: SyncMessage): void
+  onMessage(listener: (message: SyncMessage) => void): () => void
+  onClose(listener: () => void): () => void
+  close(): void
+}
+
+/**
+ * 内存传输的一端：消息经 JSON 复制后在微任务中送达，行为与网络传输一致
+ */
+class InMemorySyncTransport implements ISyncTransport {
+  peer: InMemorySyncTransport | null = null
+  private messageListeners = new Set<(message: SyncMessage) => void>()
+  private closeListeners = new Set<() => void>()
+  private closed = false
+
+  send(message: SyncMessage): void {
+    const peer = this.peer
+    if (this.closed || !peer) return
+    const data = JSON.stringify(message)
+    queueMicrotask(() => peer.deliver(JSON.parse(data) as SyncMessage))
+  }
+
+  onMessage(listener: (message: SyncMessage) => void): () => void {
+    this.messageListeners.add(listener)
+    return () => this.messageListeners.delete(listener)
+  }
+
+  onClose(listener: () => void): () => void {
+    this.closeListeners.add(listener)
+    return () => this.closeListeners.delete(listener)
+  }
+
+  close(): void {
+    if (this.closed) return
+    this.closed = true
+    const peer = this.peer
+    this.peer = null
+    for (const listener of this.closeListeners) listener()
+    if (peer) queueMicrotask(() => peer.close())
+  }
+
+  private deliver(message: SyncMessage): void {
+    if (this.closed) return
+    for (const listener of this.messageListeners) listener(message)
+  }
+}
+
+/**
+ * 创建一对相连的内存传输
+ */
+export function createInMemoryTransportPair(): [ISyncTransport, ISyncTransport] {
+  const a = new InMemorySyncTransport()
+  const b = new InMemorySyncTransport()
+  a.peer = b
+  b.peer = a
+  return [a, b]
+}
+
+/**
+ * 浏览器 WebSocket 与常见服务端实现共有的最小接口
+ */
+export interface IWebSocketLike {
+  readonly readyState: number
+  send(data: string): void
+  close(): void
+  addEventListener(type: 'open' | 'close', listener: () => void): void
+  addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void
+  removeEventListener(type: 'open' | 'close', listener: () => void): void
+  removeEventListener(type: 'message', listener: (event: { data: unknown }) => void): void
+}
+
+const WEBSOCKET_CONNECTING = 0
+const WEBSOCKET_OPEN = 1
+
+/**
+ * WebSocket 传输：消息以 JSON 文本发送，连接建立前的消息排队等待
+ */
+export class WebSocketSyncTransport implements ISyncTransport {
+  private queue: string[] = []
+  private readonly flushQueue = () => {
+    for (const data of this.queue.splice(0)) this.socket.send(data)
+  }
+
+  constructor(private readonly socket: IWebSocketLike) {
+    socket.addEventListener('open', this.flushQueue)
+  }
+
+  send(message: SyncMessage): void {
+    const data = JSON.stringify(message)
+    if (this.socket.readyState === WEBSOCKET_OPEN) {
+      this.socket.send(data)
+    } else if (this.socket.readyState === WEBSOCKET_CONNECTING) {
+      this.queue.push(data)
+    }
+  }
+
+  onMessage(listener: (message: SyncMessage) => void): () => void {
+    const handler = (event: { data: unknown }) => {
+      if (typeof event.data !== 'string') return
+      try {
+        listener(JSON.parse(event.data) as SyncMessage)
+      } catch {
+        // 忽略无法解析的消息
+      }
+    }
+    this.socket.addEventListener('message', handler)
+    return () => this.socket.removeEventListener('message', handler)
+  }
+
+  onClose(listener: () => void): () => void {
+    this.socket.addEventListener('close', listener)
+    return () => this.socket.removeEventListener('close', listener)
+  }
+
+  close(): void {
+    this.socket.removeEventListener('open', this.flushQueue)
+    this.queue = []
+    this.socket.close()
+  }
+}
+
+/**
+ * 同步服务器：保存一份文档副本用于给新加入或重连的客户端补发操作，
+ * 并把每个客户端的新操作与在线状态转发给其他客户端
+ */
+export class SyncServer {
+  readonly document = new CrdtDocument('server')
+  private connections = new Map<ISyncTransport, { clientId: string | null; dispose: () => void }>()
+  private presence = new Map<string, IPresenceState>()
+
+  /**
+   * 接入一个客户端连接，返回断开函数
+   */
+  accept(transport: ISyncTransport): () => void {
+    const connection = { clientId: null as string | null, dispose: () => {} }
+    const offMessage = transport.onMessage((message) => this.handleMessage(transport, message))
+    const offClose = transport.onClose(() => this.disconnect(transport))
+    connection.dispose = () => {
+      offMessage()
+      offClose()
+    }
+    this.connections.set(transport, connection)
+    return () => {
+      this.disconnect(transport)
+      transport.close()
+    }
+  }
+
+  getConnectionCount(): number {
+    return this.connections.size
+  }
+
+  dispose(): void {
+    for (const transport of [...this.connections.keys()]) {
+      this.disconnect(transport)
+      transport.close()
+    }
+  }
+
+  private handleMessage(transport: ISyncTransport, message: SyncMessage): void {
+    const connection = this.connections.get(transport)
+    if (!connection) return
+
+    switch (message.type) {
+      case 'sync': {
+        connection.clientId = message.clientId
+        transport.send({ type: 'ops', ops: this.document.getOperationsSince(message.stateVector) })
+        if (!message.reply) {
+          transport.send({
+            type: 'sync',
+            clientId: this.document.clientId,
+            stateVector: this.document.getStateVector(),
+            reply: true,
+          })
+        }
+        for (const [clientId, presence] of this.presence) {
+          if (clientId !== message.clientId)
+            transport.send({ type: 'presence', clientId, presence })
+        }
+        break
+      }
+      case 'ops': {
+        const { applied } = this.document.apply(message.ops)
+        if (applied.length > 0) this.broadcast(transport, { type: 'ops', ops: applied })
+        break
+      }
+      case 'presence': {
+        if (message.presence) {
+          this.presence.set(message.clientId, message.presence)
+        } else {
+          this.presence.delete(message.clientId)
+        }
+        this.broadcast(transport, message)
+        break
+      }
+    }
+  }
+
+  private broadcast(source: ISyncTransport, message: SyncMessage): void {
+    for (const transport of this.connections.keys()) {
+      if (transport !== source) transport.send(message)
+    }
+  }
+
+  private disconnect(transport: ISyncTransport): void {
+    const connection = this.connections.get(transport)
+    if (!connection) return
+    connection.dispose()
+    this.connections.delete(transport)
+    const clientId = connection.clientId
+    if (clientId && this.presence.delete(clientId)) {
+      this.broadcast(transport, { type: 'presence', clientId, presence: null })
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * 最近使用颜色服务
+ * 记录取色器等拾取到的颜色，最新的排在最前，保存在配置中
+ */
+
+import { createDecorator } from '../../di'
+import { IConfigurationService } from '../configuration/configurationService'
+
+/**
+ * 最近颜色变更监听器
+ */
+export type ColorHistoryChangeListener = (colors: string[]) => void
+
+/**
+ * 最近使用颜色服务接口
+ */
+export interface IColorHistoryService {
+  readonly _serviceBrand: undefined
+  /** 记录颜色；已存在的颜色移到最前 */
+  add(color: string): void
+  getColors(): string[]
+  clear(): void
+  onDidChange(listener: ColorHistoryChangeListener): () => void
+  dispose(): void
+}
+
+/**
+ * 最近使用颜色服务标识符
+ */
+export const IColorHistoryService = createDecorator<IColorHistoryService>('ColorHistoryService')
+
+const CONFIG_KEY = 'colors.recent'
+const MAX_COLORS = 16
+
+/**
+ * 最近使用颜色服务实现
+ */
+export class ColorHistoryService implements IColorHistoryService {
+  readonly _serviceBrand: undefined
+  private colors: string[]
+  private listeners: ColorHistoryChangeListener[] = []
+
+  constructor(@IConfigurationService private configService: IConfigurationService) {
+    this.colors = [...(this.configService.get<string[]>(CONFIG_KEY) ?? [])]
+  }
+
+  add(color: string): void {
+    const normalized = color.trim().toLowerCase()
+    if (!normalized) return
+    if (this.colors[0] === normalized) return
+
+    this.colors = [normalized, ...this.colors.filter((c) => c !== normalized)].slice(0, MAX_COLORS)
+    this.save()
+  }
+
+  getColors(): string[] {
+    return [...this.colors]
+  }
+
+  clear(): void {
+    if (this.colors.length === 0) return
+    this.colors = []
+    this.save()
+  }
+
+  onDidChange(listener: ColorHistoryChangeListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index !== -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  dispose(): void {
+    this.listeners = []
+  }
+
+  private save(): void {
+    this.configService.set(CONFIG_KEY, [...this.colors])
+    const colors = this.getColors()
+    for (const listener of this.listeners) {
+      try {
+        listener(colors)
+      } catch {}
+    }
+  }
+}
@@ -2,18 +2,51 @@
  * 导出服务 - 单一职责：处理各种格式的导出功能
  */
 
+import { type IRect, SVGPathData } from '@sky-canvas/render-engine'
 import { createDecorator } from '../../di'
-import type {
-  ICircleEntity,
-  IEllipseEntity,
-  IImageEntity,
-  IPathEntity,
-  IPolygonEntity,
-  IRectangleEntity,
-  IStarEntity,
-  ITextEntity,
-  ShapeEntity,
+import type { BlendMode } from '../../models/entities/Layer'
+import {
+  type IConnectorEntity,
+  type ICustomShapeEntity,
+  type IFrameEntity,
+  type IImageEntity,
+  type ILinkEntity,
+  type IStarEntity,
+  type IStickyEntity,
+  type IStyleGradientStop,
+  type ITextEntity,
+  isCustomShape,
+  type ShapeEffect,
+  type ShapeEntity,
+  type StylePaint,
 } from '../../models/entities/Shape'
+import { shapeTypeRegistry } from '../../models/entities/ShapeTypeRegistry'
+import {
+  getCardLineOrigins,
+  getLinkCardLayout,
+  getStickyLayout,
+  type ICardText,
+} from '../../views/CardLayout'
+import {
+  getConnectorArrowheads,
+  getConnectorLabelBox,
+  getConnectorLabelFontSize,
+  getConnectorPathData,
+} from '../../views/ConnectorGeometry'
+import { RenderableShapeView } from '../../views/RenderableShapeView'
+import { getActiveEffects, getEffectBounds } from '../../views/ShapeEffects'
+import { getDiamondPoints, getFreehandPathData } from '../../views/ShapeGeometry'
+import { getPatternTile, resolveGradientPaint } from '../../views/ShapePaint'
+import { getTextLayout } from '../../views/TextLayout'
+import {
+  FormatError,
+  type FormatExportResult,
+  type FormatOptions,
+  type FormatRegistry,
+  formatRegistry,
+  type IFileFormat,
+  type IFormatExportInput,
+} from '../format/formatRegistry'
 
 /**
  * 导出选项接口
@@ -26,6 +59,40 @@ export interface IExportOptions {
   scale?: number // 缩放因子
 }
 
+/**
+ * SVG 导出图层，对应场景中的图层信息
+ */
+export interface ISVGExportLayer {
+  id: string
+  name: string
+  visible: boolean
+  opacity: number
+  zIndex: number
+  blendMode?: BlendMode
+  shapes: string[]
+  /** 所属图层组，组输出为包含子图层的 <g> */
+  parentId?: string
+}
+
+/**
+ * SVG 导出选项
+ */
+export interface ISVGExportOptions {
+  /** 输出宽高，缺省时等于内容 viewBox 的尺寸 */
+  width?: number
+  height?: number
+  /** 内容包围盒四周的留白 */
+  padding?: number
+  /** 背景色，'none' 或 'transparent' 时不输出背景 */
+  backgroundColor?: string
+  /** 图层，按 zIndex 输出为带透明度与混合模式的 <g> */
+  layers?: ISVGExportLayer[]
+  /** 仅导出这些形状（如当前选区），编组与画框会连同子形状一起导出 */
+  shapeIds?: string[]
+  /** 将该画框导出为画板：仅包含画框及其子形状，视图框为画框区域 */
+  frameId?: string
+}
+
 /**
  * 导出服务接口
  */
@@ -33,7 +100,7 @@ export interface IExportService {
   readonly _serviceBrand: undefined
 
   // SVG 导出
-  exportToSVG(shapes: ShapeEntity[], options?: { width?: number; height?: number }): string
+  exportToSVG(shapes: ShapeEntity[], options?: ISVGExportOptions): string
 
   // 图片导出
   exportToPNG(canvas: HTMLCanvasElement, options?: IExportOptions): Promise<Blob>
@@ -42,12 +109,25 @@ export interface IExportService {
   // JSON 导出
   exportToJSON(shapes: ShapeEntity[]): string
 
+  // 按格式 ID 导出，包括插件贡献的格式
+  export(
+    format: string,
+    input: IFormatExportInput,
+    options?: FormatOptions
+  ): Promise<FormatExportResult>
+
+  // 可导出的格式
+  getExportFormats(): IFileFormat[]
+
   // 下载文件
   downloadFile(content: string | Blob, filename: string, mimeType?: string): void
 
   dispose(): void
 }
 
+/** 由 ExportService 自身实现导出的内置格式 */
+const BUILTIN_EXPORT_FORMATS = ['json', 'svg', 'png', 'jpeg']
+
 export const IExportService = createDecorator<IExportService>('ExportService')
 
 /**
@@ -56,29 +136,86 @@ export const IExportService = createDecorator<IExportService>('ExportService')
 export class ExportService implements IExportService {
   readonly _serviceBrand: undefined
 
+  constructor(private readonly formats: FormatRegistry = formatRegistry) {}
+
   /**
    * 导出到SVG
+   * 按 zIndex 输出，保留变换、样式、编组与图层结构，viewBox 由内容包围盒计算
    */
-  exportToSVG(shapes: ShapeEntity[], options?: { width?: number; height?: number }): string {
-    const width = options?.width || 800
-    const height = options?.height || 600
+  exportToSVG(shapes: ShapeEntity[], options?: ISVGExportOptions): string {
+    const artboard = options?.frameId
+      ? shapes.find(
+          (shape): shape is IFrameEntity => shape.type === 'frame' && shape.id === options.frameId
+        )
+      : undefined
+    const layers = options?.layers ?? []
+    const exported = this.filterDrawnShapes(
+      this.collectExportedShapes(shapes, artboard ? [artboard.id] : options?.shapeIds),
+      layers
+    )
+    const childIds = new Set(
+      exported.flatMap((shape) =>
+        shape.type === 'group' || shape.type === 'frame' ? shape.childrenIds : []
+      )
+    )
+    const byId = new Map(exported.map((shape) => [shape.id, shape]))
+    const roots = exported.filter((shape) => !childIds.has(shape.id))
+
+    const padding = options?.padding ?? 0
+    const content = artboard
+      ? new RenderableShapeView(artboard).bounds
+      : this.getContentBounds(exported.filter((shape) => shape.type !== 'group'))
+    const viewBox = content
+      ? {
+          x: content.x - padding,
+          y: content.y - padding,
+          width: content.width + padding * 2,
+          height: content.height + padding * 2,
+        }
+      : { x: 0, y: 0, width: options?.width || 800, height: options?.height || 600 }
+    const width = options?.width || viewBox.width
+    const height = options?.height || viewBox.height
 
     let svg = `<?xml version="1.0" encoding="UTF-8"?>\n`
-    svg += `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">\n`
+    svg += `<svg width="${formatNumber(width)}" height="${formatNumber(height)}" viewBox="${[viewBox.x, viewBox.y, viewBox.width, viewBox.height].map(formatNumber).join(' ')}" xmlns="http://www.w3.org/2000/svg">\n`
 
     // 添加背景
-    svg += `  <rect width="100%" height="100%" fill="white"/>\n`
+    const background = options?.backgroundColor ?? 'white'
+    if (background !== 'none' && background !== 'transparent') {
+      svg += `  <rect x="${formatNumber(viewBox.x)}" y="${formatNumber(viewBox.y)}" width="${formatNumber(viewBox.width)}" height="${formatNumber(viewBox.height)}" fill="${escapeXML(background)}"/>\n`
+    }
 
-    // 导出每个形状
-    shapes.forEach((shape) => {
-      if (shape.visible) {
-        const shapeSVG = this.shapeToSVG(shape)
-        if (shapeSVG) {
-          svg += `  ${shapeSVG}\n`
-        }
-      }
-    })
+    // 渐变与图案定义在遍历形状时收集
+    const defs: string[] = []
+    let body = ''
+
+    const layerShapeIds = new Set(layers.flatMap((layer) => layer.shapes))
+    const layerIds = new Set(layers.map((layer) => layer.id))
 
+    // 不属于任何图层的形状与顶层图层按 zIndex 合并排序，同层级时形状在前
+    const entries: Array<{ order: number; render: () => string }> = [
+      ...roots
+        .filter((shape) => !layerShapeIds.has(shape.id))
+        .map((shape) => ({
+          order: this.getPaintOrder(shape, byId),
+          render: () => this.nodesToSVG([shape], byId, '  ', defs),
+        })),
+      // 父图层不存在时按顶层输出
+      ...layers
+        .filter((layer) => !layer.parentId || !layerIds.has(layer.parentId))
+        .map((layer) => ({
+          order: layer.zIndex,
+          render: () => this.layerToSVG(layer, layers, roots, byId, '  ', defs),
+        })),
+    ]
+    for (const entry of entries.sort((a, b) => a.order - b.order)) {
+      body += entry.render()
+    }
+
+    if (defs.length > 0) {
+      svg += `  <defs>\n${defs.map((def) => `    ${def}\n`).join('')}  </defs>\n`
+    }
+    svg += body
     svg += `</svg>`
     return svg
   }
@@ -144,6 +281,47 @@ export class ExportService implements IExportService {
     return JSON.stringify(exportData, null, 2)
   }
 
+  /**
+   * 按格式 ID 导出，选项先按格式声明的结构补全默认值并校验
+   */
+  async export(
+    format: string,
+    input: IFormatExportInput,
+    options?: FormatOptions
+  ): Promise<FormatExportResult> {
+    const exporter = this.formats.get(format)
+    if (!exporter || !this.canExport(exporter)) {
+      throw new FormatError(`Format '${format}' cannot be exported`)
+    }
+
+    const resolved = this.formats.resolveOptions(exporter.exportOptions, options)
+    if (exporter.export) {
+      return exporter.export(input, resolved)
+    }
+
+    switch (exporter.id) {
+      case 'json':
+        return this.exportToJSON(input.shapes)
+      case 'svg':
+        return this.exportToSVG(input.shapes, resolved as ISVGExportOptions)
+      default: {
+        if (!input.canvas) {
+          throw new FormatError(`Format '${format}' requires a canvas to export`)
+        }
+        return exporter.id === 'png'
+          ? this.exportToPNG(input.canvas, resolved as IExportOptions)
+          : this.exportToJPEG(input.canvas, resolved as IExportOptions)
+      }
+    }
+  }
+
+  /**
+   * 可导出的格式
+   */
+  getExportFormats(): IFileFormat[] {
+    return this.formats.getFormats().filter((format) => this.canExport(format))
+  }
+
   /**
    * 下载文件
    */
@@ -174,82 +352,556 @@ export class ExportService implements IExportService {
 
   // === 私有方法 ===
 
+  private canExport(format: IFileFormat): boolean {
+    return (
+      typeof format.export === 'function' ||
+      (!format.pluginId && BUILTIN_EXPORT_FORMATS.includes(format.id))
+    )
+  }
+
+  /**
+   * 选出需要导出的形状：可见形状，限定 ID 时连同编组与画框的子形状
+   */
+  private collectExportedShapes(shapes: ShapeEntity[], shapeIds?: string[]): ShapeEntity[] {
+    if (!shapeIds) return shapes
+    const byId = new Map(shapes.map((shape) => [shape.id, shape]))
+    const included = new Set<string>()
+    const include = (id: string) => {
+      const shape = byId.get(id)
+      if (!shape || included.has(id)) return
+      included.add(id)
+      if (shape.type === 'group' || shape.type === 'frame') shape.childrenIds.forEach(include)
+    }
+    shapeIds.forEach(include)
+    return shapes.filter((shape) => included.has(shape.id))
+  }
+
+  /**
+   * 去掉不会绘制的形状：自身隐藏、位于隐藏的图层或图层组中，以及隐藏的编组与画框的子形状
+   */
+  private filterDrawnShapes(shapes: ShapeEntity[], layers: ISVGExportLayer[]): ShapeEntity[] {
+    const byId = new Map(shapes.map((shape) => [shape.id, shape]))
+    const layerById = new Map(layers.map((layer) => [layer.id, layer]))
+    const isLayerHidden = (layer: ISVGExportLayer): boolean => {
+      const visited = new Set<string>()
+      for (let current: ISVGExportLayer | undefined = layer; current; ) {
+        if (!current.visible) return true
+        visited.add(current.id)
+        const parentId: string | undefined = current.parentId
+        current = parentId && !visited.has(parentId) ? layerById.get(parentId) : undefined
+      }
+      return false
+    }
+
+    const hidden = new Set<string>()
+    const hide = (id: string) => {
+      const shape = byId.get(id)
+      if (!shape || hidden.has(id)) return
+      hidden.add(id)
+      if (shape.type === 'group' || shape.type === 'frame') shape.childrenIds.forEach(hide)
+    }
+    for (const layer of layers) {
+      if (isLayerHidden(layer)) layer.shapes.forEach(hide)
+    }
+    for (const shape of shapes) {
+      if (!shape.visible) hide(shape.id)
+    }
+    return hidden.size > 0 ? shapes.filter((shape) => !hidden.has(shape.id)) : shapes
+  }
+
+  /**
+   * 输出图层及其子图层为带透明度与混合模式的 <g>，隐藏或为空的图层不输出
+   */
+  private layerToSVG(
+    layer: ISVGExportLayer,
+    layers: ISVGExportLayer[],
+    roots: ShapeEntity[],
+    byId: Map<string, ShapeEntity>,
+    indent: string,
+    defs: string[]
+  ): string {
+    if (!layer.visible) return ''
+
+    const members = roots.filter((shape) => layer.shapes.includes(shape.id))
+    let content = this.nodesToSVG(members, byId, `${indent}  `, defs)
+    const children = layers
+      .filter((child) => child.parentId === layer.id)
+      .sort((a, b) => a.zIndex - b.zIndex)
+    for (const child of children) {
+      content += this.layerToSVG(child, layers, roots, byId, `${indent}  `, defs)
+    }
+    if (!content) return ''
+
+    const attrs = [`id="${escapeXML(layer.id)}"`, `data-name="${escapeXML(layer.name)}"`]
+    if (layer.opacity < 1) attrs.push(`opacity="${formatNumber(layer.opacity)}"`)
+    if (layer.blendMode && layer.blendMode !== 'normal') {
+      attrs.push(`style="mix-blend-mode:${layer.blendMode}"`)
+    }
+    return `${indent}<g ${attrs.join(' ')}>\n${content}${indent}</g>\n`
+  }
+
+  /**
+   * 按绘制顺序输出节点，编组与画框递归输出为 <g>
+   */
+  private nodesToSVG(
+    nodes: ShapeEntity[],
+    byId: Map<string, ShapeEntity>,
+    indent: string,
+    defs: string[]
+  ): string {
+    let svg = ''
+    const ordered = nodes
+      .map((shape) => ({ shape, order: this.getPaintOrder(shape, byId) }))
+      .sort((a, b) => a.order - b.order)
+
+    for (const { shape } of ordered) {
+      if (!shape.visible) continue
+      if (shape.type === 'group') {
+        const children = shape.childrenIds
+          .map((id) => byId.get(id))
+          .filter((child): child is ShapeEntity => !!child)
+        const inner = this.nodesToSVG(children, byId, `${indent}  `, defs)
+        if (inner) {
+          svg += `${indent}<g id="${escapeXML(shape.id)}">\n${inner}${indent}</g>\n`
+        }
+      } else if (shape.type === 'frame') {
+        svg += this.frameToSVG(shape, byId, indent, defs)
+      } else {
+        const shapeSVG = this.shapeToSVG(shape, defs)
+        if (shapeSVG) {
+          svg += `${indent}${shapeSVG}\n`
+        }
+      }
+    }
+    return svg
+  }
+
+  /**
+   * 编组按其最先绘制的子形状排序
+   */
+  private getPaintOrder(shape: ShapeEntity, byId: Map<string, ShapeEntity>): number {
+    if (shape.type !== 'group') return shape.zIndex
+    const orders = shape.childrenIds
+      .map((id) => byId.get(id))
+      .filter((child): child is ShapeEntity => !!child)
+      .map((child) => this.getPaintOrder(child, byId))
+    return orders.length > 0 ? Math.min(...orders) : shape.zIndex
+  }
+
+  /**
+   * 内容的包围盒（含描边），形状已按可见性筛选
+   */
+  private getContentBounds(shapes: ShapeEntity[]): IRect | null {
+    let minX = Infinity
+    let minY = Infinity
+    let maxX = -Infinity
+    let maxY = -Infinity
+    for (const shape of shapes) {
+      const view = new RenderableShapeView(shape)
+      if (getActiveEffects(shape).length > 0) {
+        // 效果范围已包含描边
+        const visual = view.getBounds()
+        minX = Math.min(minX, visual.x)
+        minY = Math.min(minY, visual.y)
+        maxX = Math.max(maxX, visual.x + visual.width)
+        maxY = Math.max(maxY, visual.y + visual.height)
+        continue
+      }
+      const bounds = view.bounds
+      const { scale } = shape.transform
+      const halfStroke =
+        shape.style.strokeColor || shape.style.strokePaint
+          ? ((shape.style.strokeWidth || shape.style.lineWidth || 1) / 2) *
+            Math.max(Math.abs(scale.x), Math.abs(scale.y))
+          : 0
+      minX = Math.min(minX, bounds.x - halfStroke)
+      minY = Math.min(minY, bounds.y - halfStroke)
+      maxX = Math.max(maxX, bounds.x + bounds.width + halfStroke)
+      maxY = Math.max(maxY, bounds.y + bounds.height + halfStroke)
+    }
+    if (minX === Infinity) return null
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+  }
+
   /**
    * 形状转SVG
+   * 几何使用形状本地坐标，变换与渲染一致：平移 → 旋转 → 缩放
    */
-  private shapeToSVG(shape: ShapeEntity): string | null {
-    const { transform, style } = shape
-    const fill = style.fillColor || 'black'
-    const stroke = style.strokeColor || 'none'
-    const strokeWidth = style.strokeWidth || 0
+  private shapeToSVG(shape: ShapeEntity, defs: string[]): string | null {
+    const attrs = `${this.transformToSVG(shape)}${this.styleToSVG(shape, defs)}${this.effectsToSVG(shape, defs)}`
 
     switch (shape.type) {
       case 'rectangle': {
-        const rectShape = shape as IRectangleEntity
-        return `<rect x="${transform.position.x}" y="${transform.position.y}" width="${rectShape.size?.width || 100}" height="${rectShape.size?.height || 100}" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}"/>`
+        const { width, height } = shape.size
+        const radius = Math.min(shape.borderRadius || 0, width / 2, height / 2)
+        const corner =
+          radius > 0 ? ` rx="${formatNumber(radius)}" ry="${formatNumber(radius)}"` : ''
+        return `<rect width="${formatNumber(width)}" height="${formatNumber(height)}"${corner}${attrs}/>`
       }
 
-      case 'circle': {
-        const circleShape = shape as ICircleEntity
-        const cx = transform.position.x
-        const cy = transform.position.y
-        return `<circle cx="${cx}" cy="${cy}" r="${circleShape.radius || 50}" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}"/>`
-      }
+      case 'circle':
+        return `<circle r="${formatNumber(shape.radius)}"${attrs}/>`
 
-      case 'ellipse': {
-        const ellipseShape = shape as IEllipseEntity
-        return `<ellipse cx="${transform.position.x}" cy="${transform.position.y}" rx="${ellipseShape.radiusX || 50}" ry="${ellipseShape.radiusY || 30}" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}"/>`
-      }
+      case 'ellipse':
+        return `<ellipse rx="${formatNumber(shape.radiusX)}" ry="${formatNumber(shape.radiusY)}"${attrs}/>`
 
       case 'polygon': {
-        const polygonShape = shape as IPolygonEntity
-        const polygonPoints = (polygonShape.points || [])
-          .map((p) => `${p.x + transform.position.x},${p.y + transform.position.y}`)
-          .join(' ')
-        return `<polygon points="${polygonPoints}" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}"/>`
+        const points = formatPoints(shape.points || [])
+        return shape.closed
+          ? `<polygon points="${points}"${attrs}/>`
+          : `<polyline points="${points}"${attrs}/>`
       }
 
-      case 'star': {
-        const starShape = shape as IStarEntity
-        const starPoints = this.buildStarPoints(starShape)
-          .map((p) => `${p.x + transform.position.x},${p.y + transform.position.y}`)
-          .join(' ')
-        return `<polygon points="${starPoints}" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}"/>`
-      }
+      case 'star':
+        return `<polygon points="${formatPoints(this.buildStarPoints(shape))}"${attrs}/>`
 
       case 'path': {
-        const pathShape = shape as IPathEntity
-        return `<path d="${pathShape.pathData || 'M 0 0'}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}"/>`
+        const segments = [...SVGPathData.normalize(shape.pathData || 'M 0 0')]
+        if (shape.closed && segments[segments.length - 1]?.type !== 'Z') {
+          segments.push({ type: 'Z' })
+        }
+        return `<path d="${SVGPathData.serialize(segments)}"${attrs}/>`
       }
 
+      case 'freehand': {
+        const segments = SVGPathData.normalize(getFreehandPathData(shape))
+        return `<path d="${SVGPathData.serialize(segments)}"${attrs}/>`
+      }
+
+      case 'connector':
+        return `<g${attrs}>${this.connectorToSVG(shape)}</g>`
+
+      case 'diamond':
+        return `<polygon points="${formatPoints(getDiamondPoints(shape))}"${attrs}/>`
+
+      case 'sticky':
+        return `<g${attrs}>${this.stickyToSVG(shape)}</g>`
+
+      case 'link':
+        // 只保留 http(s) 与 mailto 链接，其余协议（如 javascript:）不输出 <a>
+        return isSafeLinkURL(shape.url)
+          ? `<a href="${escapeXML(shape.url)}" target="_blank"><g${attrs}>${this.linkToSVG(shape)}</g></a>`
+          : `<g${attrs}>${this.linkToSVG(shape)}</g>`
+
+      case 'frame':
+        return `<rect width="${formatNumber(shape.size.width)}" height="${formatNumber(shape.size.height)}"${attrs}/>`
+
       case 'text': {
-        const textShape = shape as ITextEntity
-        return `<text x="${transform.position.x}" y="${transform.position.y + (textShape.fontSize || 16)}" font-family="${textShape.fontFamily || 'Arial'}" font-size="${textShape.fontSize || 16}" fill="${fill}">${textShape.content || ''}</text>`
+        const font = ` font-family="${escapeXML(shape.fontFamily || 'Arial')}" font-size="${formatNumber(shape.fontSize || 16)}" font-weight="${shape.fontWeight || 'normal'}"`
+        return `<text${font} xml:space="preserve"${attrs}>${this.textSpansToSVG(shape)}</text>`
       }
 
-      case 'image': {
-        const imageShape = shape as IImageEntity
-        return `<image x="${transform.position.x}" y="${transform.position.y}" width="${imageShape.size?.width || 100}" height="${imageShape.size?.height || 100}" href="${imageShape.src || ''}"/>`
+      case 'image':
+        return `<image width="${formatNumber(shape.size.width)}" height="${formatNumber(shape.size.height)}" href="${escapeXML(shape.src || '')}" preserveAspectRatio="none"${attrs}/>`
+
+      default:
+        return isCustomShape(shape)
+          ? `<g${attrs} data-shape-type="${escapeXML(shape.type)}">${this.customShapeToSVG(shape)}</g>`
+          : null
+    }
+  }
+
+  /**
+   * 自定义形状内容：类型未注册或未实现 toSVG 时导出与画布一致的虚线占位框
+   */
+  private customShapeToSVG(shape: ICustomShapeEntity): string {
+    const toSVG = shapeTypeRegistry.get(shape.type)?.toSVG
+    if (toSVG) {
+      try {
+        return toSVG(shape)
+      } catch {
+        // 回退到占位框
       }
+    }
+    const { x, y, width, height } = shapeTypeRegistry.getLocalBounds(shape)
+    return `<rect x="${formatNumber(x)}" y="${formatNumber(y)}" width="${formatNumber(width)}" height="${formatNumber(height)}" fill="none" stroke="#9ca3af" stroke-dasharray="6 4"/>`
+  }
 
-      case 'group':
-        return null
+  private transformToSVG(shape: ShapeEntity): string {
+    const { position, rotation, scale } = shape.transform
+    const parts = [`translate(${formatNumber(position.x)} ${formatNumber(position.y)})`]
+    if (rotation) parts.push(`rotate(${formatNumber((rotation * 180) / Math.PI)})`)
+    if (scale.x !== 1 || scale.y !== 1) {
+      parts.push(`scale(${formatNumber(scale.x)} ${formatNumber(scale.y)})`)
+    }
+    return ` transform="${parts.join(' ')}"`
+  }
 
+  /**
+   * 样式转 SVG 表现属性，与 RenderableShapeView 的填充/描边规则一致
+   */
+  private styleToSVG(shape: ShapeEntity, defs: string[]): string {
+    const { style } = shape
+    if (shape.type === 'image') {
+      return style.opacity !== undefined && style.opacity < 1
+        ? ` opacity="${formatNumber(style.opacity)}"`
+        : ''
+    }
+
+    const fill =
+      (style.fillPaint && this.paintToSVG(shape, style.fillPaint, `${shape.id}-fill`, defs)) ||
+      style.fillColor
+    const stroke =
+      (style.strokePaint &&
+        this.paintToSVG(shape, style.strokePaint, `${shape.id}-stroke`, defs)) ||
+      style.strokeColor
+
+    let attrs = ` fill="${escapeXML(fill || 'none')}"`
+    if (stroke) {
+      attrs += ` stroke="${escapeXML(stroke)}" stroke-width="${formatNumber(style.strokeWidth || 1)}"`
+      if (style.lineDash && style.lineDash.length > 0) {
+        attrs += ` stroke-dasharray="${style.lineDash.map(formatNumber).join(' ')}"`
+      }
+    }
+    if (style.opacity !== undefined && style.opacity < 1) {
+      attrs += ` opacity="${formatNumber(style.opacity)}"`
+    }
+    return attrs
+  }
+
+  /**
+   * 渐变/图案写入 defs 并返回引用；几何与渲染一致，使用形状本地坐标（userSpaceOnUse）。
+   * SVG 没有锥形渐变，退化为首个色标颜色
+   */
+  private paintToSVG(
+    shape: ShapeEntity,
+    paint: StylePaint,
+    id: string,
+    defs: string[]
+  ): string | null {
+    const bounds = new RenderableShapeView(shape).localBounds
+    const ref = `url(#${id})`
+    const idAttr = `id="${escapeXML(id)}"`
+
+    if (paint.type === 'pattern') {
+      const tile = getPatternTile(paint, bounds)
+      const repetition = paint.repetition ?? 'repeat'
+      // SVG 图案总是双向平铺，不重复的方向把图块扩展到覆盖整个形状
+      const width =
+        repetition === 'repeat' || repetition === 'repeat-x'
+          ? tile.width
+          : Math.max(tile.width, bounds.width)
+      const height =
+        repetition === 'repeat' || repetition === 'repeat-y'
+          ? tile.height
+          : Math.max(tile.height, bounds.height)
+      defs.push(
+        `<pattern ${idAttr} patternUnits="userSpaceOnUse" x="${formatNumber(tile.x)}" y="${formatNumber(tile.y)}" width="${formatNumber(width)}" height="${formatNumber(height)}"><image width="${formatNumber(tile.width)}" height="${formatNumber(tile.height)}" href="${escapeXML(paint.src)}" preserveAspectRatio="none"/></pattern>`
+      )
+      return ref
+    }
+
+    if (paint.stops.length === 0) return null
+    const gradient = resolveGradientPaint(paint, bounds)
+    switch (gradient.type) {
+      case 'linear-gradient':
+        defs.push(
+          `<linearGradient ${idAttr} gradientUnits="userSpaceOnUse" x1="${formatNumber(gradient.x0)}" y1="${formatNumber(gradient.y0)}" x2="${formatNumber(gradient.x1)}" y2="${formatNumber(gradient.y1)}">${stopsToSVG(paint.stops)}</linearGradient>`
+        )
+        return ref
+      case 'radial-gradient':
+        defs.push(
+          `<radialGradient ${idAttr} gradientUnits="userSpaceOnUse" cx="${formatNumber(gradient.x1)}" cy="${formatNumber(gradient.y1)}" r="${formatNumber(gradient.r1)}" fx="${formatNumber(gradient.x0)}" fy="${formatNumber(gradient.y0)}">${stopsToSVG(paint.stops)}</radialGradient>`
+        )
+        return ref
       default:
-        // 默认矩形
-        return `<rect x="${transform.position.x}" y="${transform.position.y}" width="100" height="100" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}"/>`
+        return [...paint.stops].sort((a, b) => a.offset - b.offset)[0].color
     }
   }
 
+  /**
+   * 形状效果写入 defs 的 <filter> 并返回引用，各效果按顺序串联，参数与滤镜管线一致
+   */
+  private effectsToSVG(shape: ShapeEntity, defs: string[]): string {
+    const effects = getActiveEffects(shape)
+    if (effects.length === 0) return ''
+
+    const id = `${shape.id}-effects`
+    const region = getEffectBounds(shape, new RenderableShapeView(shape).localBounds)
+    let input = 'SourceGraphic'
+    const primitives = effects.map((effect, index) => {
+      const result = `e${index}`
+      const primitive = effectToSVG(effect, input, result)
+      input = result
+      return primitive
+    })
+    defs.push(
+      `<filter id="${escapeXML(id)}" filterUnits="userSpaceOnUse" x="${formatNumber(region.x)}" y="${formatNumber(region.y)}" width="${formatNumber(region.width)}" height="${formatNumber(region.height)}">${primitives.join('')}</filter>`
+    )
+    return ` filter="url(#${escapeXML(id)})"`
+  }
+
   private serializeShape(shape: ShapeEntity): ShapeEntity {
     const cloned = JSON.parse(JSON.stringify(shape)) as ShapeEntity
     if (cloned.type === 'image') {
       const imageShape = cloned as IImageEntity & { imageData?: unknown }
       delete imageShape.imageData
     }
+    if (isCustomShape(shape)) {
+      const customShape = cloned as ICustomShapeEntity
+      customShape.data = JSON.parse(JSON.stringify(shapeTypeRegistry.serializeData(shape)))
+    }
     return cloned
   }
 
+  /**
+   * 连接线内容：路径继承外层描边，封闭箭头以描边色填充，标签为底色框加居中文本
+   */
+  private connectorToSVG(connector: IConnectorEntity): string {
+    const segments = SVGPathData.normalize(getConnectorPathData(connector))
+    const parts = [`<path d="${SVGPathData.serialize(segments)}"/>`]
+    const headColor = escapeXML(connector.style.strokeColor || '#000000')
+    for (const head of getConnectorArrowheads(connector)) {
+      const points = formatPoints(head.points)
+      parts.push(
+        head.closed
+          ? `<polygon points="${points}" fill="${headColor}" stroke-dasharray="none"/>`
+          : `<polyline points="${points}" fill="none" stroke-dasharray="none"/>`
+      )
+    }
+
+    const box = getConnectorLabelBox(connector)
+    if (box && connector.label) {
+      const { label } = connector
+      const color = escapeXML(label.color || connector.style.strokeColor || '#000000')
+      parts.push(
+        `<rect x="${formatNumber(box.x)}" y="${formatNumber(box.y)}" width="${formatNumber(box.width)}" height="${formatNumber(box.height)}" fill="${escapeXML(label.background || '#ffffff')}" stroke="none"/>`,
+        `<text x="${formatNumber(box.x + box.width / 2)}" y="${formatNumber(box.y + box.height / 2)}" font-family="Arial" font-size="${formatNumber(getConnectorLabelFontSize(connector))}" text-anchor="middle" dominant-baseline="middle" fill="${color}" stroke="none">${escapeXML(label.text)}</text>`
+      )
+    }
+    return parts.join('')
+  }
+
+  /**
+   * 画框输出为 <g>：背景矩形在下，子形状按画框区域裁剪
+   */
+  private frameToSVG(
+    frame: IFrameEntity,
+    byId: Map<string, ShapeEntity>,
+    indent: string,
+    defs: string[]
+  ): string {
+    const children = frame.childrenIds
+      .map((id) => byId.get(id))
+      .filter((child): child is ShapeEntity => !!child)
+    let svg = `${indent}<g id="${escapeXML(frame.id)}" data-name="${escapeXML(frame.name)}">\n`
+    svg += `${indent}  ${this.shapeToSVG(frame, defs)}\n`
+
+    if (frame.clipContent) {
+      const clipId = `${frame.id}-clip`
+      defs.push(
+        `<clipPath id="${escapeXML(clipId)}"><rect width="${formatNumber(frame.size.width)}" height="${formatNumber(frame.size.height)}"${this.transformToSVG(frame)}/></clipPath>`
+      )
+      const inner = this.nodesToSVG(children, byId, `${indent}    `, defs)
+      if (inner) {
+        svg += `${indent}  <g clip-path="url(#${escapeXML(clipId)})">\n${inner}${indent}  </g>\n`
+      }
+    } else {
+      svg += this.nodesToSVG(children, byId, `${indent}  `, defs)
+    }
+    return `${svg}${indent}</g>\n`
+  }
+
+  /**
+   * 便签内容：底板继承外层样式，文本逐行输出
+   */
+  private stickyToSVG(sticky: IStickyEntity): string {
+    const layout = getStickyLayout(sticky)
+    const { width, height } = layout.size
+    return `<rect width="${formatNumber(width)}" height="${formatNumber(height)}"/>${this.cardTextToSVG(
+      layout,
+      width,
+      sticky.textAlign || 'left',
+      `font-family="${escapeXML(sticky.fontFamily || 'Arial')}"`,
+      '#1f2937'
+    )}`
+  }
+
+  /**
+   * 链接卡片内容：圆角底板、预览图（嵌入链接输出 iframe）、标题、描述与域名
+   */
+  private linkToSVG(link: ILinkEntity): string {
+    const { width, height } = link.size
+    const layout = getLinkCardLayout(link)
+    const radius = formatNumber(Math.min(8, width / 2, height / 2))
+    const parts = [
+      `<rect width="${formatNumber(width)}" height="${formatNumber(height)}" rx="${radius}" ry="${radius}"/>`,
+    ]
+    const { media } = layout
+    if (media && media.width > 0 && media.height > 0) {
+      const box = `x="${formatNumber(media.x)}" y="${formatNumber(media.y)}" width="${formatNumber(media.width)}" height="${formatNumber(media.height)}"`
+      if (link.embedUrl) {
+        parts.push(
+          `<foreignObject ${box}><iframe xmlns="http://www.w3.org/1999/xhtml" src="${escapeXML(link.embedUrl)}" width="100%" height="100%" style="border:0" allowfullscreen="true"></iframe></foreignObject>`
+        )
+      } else if (link.thumbnail) {
+        parts.push(
+          `<image ${box} href="${escapeXML(link.thumbnail)}" preserveAspectRatio="xMidYMid slice"/>`
+        )
+      }
+    }
+    parts.push(
+      this.cardTextToSVG(
+        layout.title,
+        width,
+        'left',
+        'font-family="Arial" font-weight="bold"',
+        '#1f2937'
+      )
+    )
+    if (layout.description) {
+      parts.push(
+        this.cardTextToSVG(layout.description, width, 'left', 'font-family="Arial"', '#6b7280')
+      )
+    }
+    parts.push(this.cardTextToSVG(layout.domain, width, 'left', 'font-family="Arial"', '#6b7280'))
+    return parts.join('')
+  }
+
+  /**
+   * 多行文本输出为带 <tspan> 的 <text>，行顶对齐与渲染一致
+   */
+  private cardTextToSVG(
+    text: ICardText,
+    width: number,
+    align: 'left' | 'center' | 'right',
+    font: string,
+    color: string
+  ): string {
+    if (text.lines.length === 0) return ''
+    const anchor = { left: 'start', center: 'middle', right: 'end' }[align]
+    const spans = getCardLineOrigins(text, width, align)
+      .map(
+        (origin, index) =>
+          `<tspan x="${formatNumber(origin.x)}" y="${formatNumber(origin.y)}">${escapeXML(text.lines[index])}</tspan>`
+      )
+      .join('')
+    return `<text ${font} font-size="${formatNumber(text.fontSize)}" text-anchor="${anchor}" dominant-baseline="text-before-edge" fill="${color}" stroke="none">${spans}</text>`
+  }
+
+  /**
+   * 富文本按排版结果逐段输出 <tspan>，与实体默认值不同的样式写在片段上
+   */
+  private textSpansToSVG(text: ITextEntity): string {
+    const parts: string[] = []
+    for (const line of getTextLayout(text).lines) {
+      for (const span of line.spans) {
+        const { style } = span
+        let attrs = ` x="${formatNumber(line.x + span.x)}" y="${formatNumber(line.baseline)}"`
+        if (style.fontSize !== text.fontSize)
+          attrs += ` font-size="${formatNumber(style.fontSize)}"`
+        if (style.bold !== (text.fontWeight === 'bold')) {
+          attrs += ` font-weight="${style.bold ? 'bold' : 'normal'}"`
+        }
+        if (style.italic) attrs += ' font-style="italic"'
+        if (style.underline) attrs += ' text-decoration="underline"'
+        if (style.color) attrs += ` fill="${escapeXML(style.color)}"`
+        parts.push(`<tspan${attrs}>${escapeXML(span.text)}</tspan>`)
+      }
+    }
+    return parts.join('')
+  }
+
   private buildStarPoints(starShape: IStarEntity): Array<{ x: number; y: number }> {
     const points: Array<{ x: number; y: number }> = []
     const count = Math.max(2, Math.floor(starShape.points || 5))
@@ -297,3 +949,88 @@ export class ExportService implements IExportService {
     return exportCanvas
   }
 }
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(3)))
+}
+
+function formatPoints(points: Array<{ x: number; y: number }>): string {
+  return points.map((p) => `${formatNumber(p.x)},${formatNumber(p.y)}`).join(' ')
+}
+
+/**
+ * 单个效果转为滤镜原语，滤镜中的模糊半径约为 3 倍标准差
+ */
+function effectToSVG(effect: ShapeEffect, input: string, result: string): string {
+  const io = `in="${input}" result="${result}"`
+  switch (effect.type) {
+    case 'drop-shadow':
+      return `<feDropShadow ${io} dx="${formatNumber(effect.offsetX)}" dy="${formatNumber(effect.offsetY)}" stdDeviation="${formatNumber(effect.blur / 3)}" flood-color="${escapeXML(effect.color)}" flood-opacity="${formatNumber(effect.opacity ?? 1)}"/>`
+    case 'inner-shadow':
+      // 偏移模糊后的轮廓之外即为内阴影区域，再裁剪到形状内部
+      return [
+        `<feGaussianBlur in="${input}" stdDeviation="${formatNumber(effect.blur / 3)}" result="${result}-blur"/>`,
+        `<feOffset in="${result}-blur" dx="${formatNumber(effect.offsetX)}" dy="${formatNumber(effect.offsetY)}" result="${result}-offset"/>`,
+        `<feComposite in="${input}" in2="${result}-offset" operator="out" result="${result}-mask"/>`,
+        `<feFlood flood-color="${escapeXML(effect.color)}" flood-opacity="${formatNumber(effect.opacity ?? 1)}"/>`,
+        `<feComposite in2="${result}-mask" operator="in" result="${result}-shadow"/>`,
+        `<feComposite in="${result}-shadow" in2="${input}" operator="atop" result="${result}"/>`,
+      ].join('')
+    case 'blur':
+      return `<feGaussianBlur ${io} stdDeviation="${formatNumber(effect.radius / 3)}"/>`
+    case 'glow':
+      return [
+        `<feGaussianBlur in="${input}" stdDeviation="${formatNumber(effect.blur / 3)}" result="${result}-blur"/>`,
+        `<feFlood flood-color="${escapeXML(effect.color)}"/>`,
+        `<feComposite in2="${result}-blur" operator="in"/>`,
+        `<feComponentTransfer result="${result}-glow"><feFuncA type="linear" slope="${formatNumber(Math.max(0, effect.strength))}"/></feComponentTransfer>`,
+        `<feMerge result="${result}"><feMergeNode in="${result}-glow"/><feMergeNode in="${input}"/></feMerge>`,
+      ].join('')
+    case 'brightness':
+      return componentTransferToSVG(io, 1, effect.value / 100)
+    case 'contrast': {
+      const slope = (100 + effect.value) / 100
+      return componentTransferToSVG(io, slope, 0.5 - 0.5 * slope)
+    }
+    case 'saturation':
+      return `<feColorMatrix ${io} type="saturate" values="${formatNumber(Math.max(0, 1 + effect.value / 100))}"/>`
+    case 'hue-rotate':
+      return `<feColorMatrix ${io} type="hueRotate" values="${formatNumber(effect.value)}"/>`
+    default:
+      return `<feColorMatrix ${io} type="saturate" values="${formatNumber(1 - Math.min(1, Math.max(0, effect.value)))}"/>`
+  }
+}
+
+function componentTransferToSVG(io: string, slope: number, intercept: number): string {
+  const func = `type="linear" slope="${formatNumber(slope)}" intercept="${formatNumber(intercept)}"`
+  return `<feComponentTransfer ${io}><feFuncR ${func}/><feFuncG ${func}/><feFuncB ${func}/></feComponentTransfer>`
+}
+
+function stopsToSVG(stops: IStyleGradientStop[]): string {
+  return [...stops]
+    .sort((a, b) => a.offset - b.offset)
+    .map(
+      (stop) =>
+        `<stop offset="${formatNumber(Math.min(1, Math.max(0, stop.offset)))}" stop-color="${escapeXML(stop.color)}"/>`
+    )
+    .join('')
+}
+
+/**
+ * 转义 XML 文本与属性值
+ */
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * 链接地址是否为可安全输出的 http(s) 或 mailto 协议
+ */
+function isSafeLinkURL(url: string): boolean {
+  return /^(https?|mailto):/i.test(url.trim())
+}
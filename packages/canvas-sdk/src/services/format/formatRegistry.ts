@@ -0,0 +1,322 @@
+/**
+ * 文件格式注册表
+ * 登记格式的扩展名、MIME 类型、内容嗅探函数以及导入导出函数与选项结构；
+ * 导入时按内容识别格式，导出时按格式 ID 分发。内置的 JSON、SVG、PNG、JPEG 只登记描述与嗅探，
+ * 导入导出由 ImportService 与 ExportService 实现；插件通过 file.importers / file.exporters 扩展点贡献格式
+ */
+
+import type { ShapeEntity } from '../../models/entities/Shape'
+import type { IImportResult } from '../import/importService'
+
+/**
+ * 单个选项的结构描述
+ */
+export interface IFormatOptionSchema {
+  type: 'string' | 'number' | 'boolean'
+  description?: string
+  default?: string | number | boolean
+  /** 可选值 */
+  enum?: Array<string | number>
+  minimum?: number
+  maximum?: number
+}
+
+/**
+ * 导入或导出选项的结构，键为选项名
+ */
+export type FormatOptionsSchema = Record<string, IFormatOptionSchema>
+
+export type FormatOptions = Record<string, unknown>
+
+/**
+ * 待识别与导入的文件内容
+ */
+export interface IFormatSource {
+  file: File
+  name: string
+  mimeType: string
+  bytes: Uint8Array
+  /** 按 UTF-8 解码的内容 */
+  text(): string
+}
+
+/**
+ * 导出的内容
+ */
+export interface IFormatExportInput {
+  shapes: ShapeEntity[]
+  /** 位图格式从画布导出 */
+  canvas?: HTMLCanvasElement
+}
+
+export type FormatExportResult = string | Blob
+
+/**
+ * 文件格式
+ */
+export interface IFileFormat {
+  /** 格式 ID，如 'svg' */
+  id: string
+  name: string
+  /** 小写、不带点的扩展名，第一个为导出时的默认扩展名 */
+  extensions: string[]
+  /** 第一个为导出时的 MIME 类型 */
+  mimeTypes: string[]
+  /** 根据内容判断是否为该格式 */
+  sniff?(source: IFormatSource): boolean
+  import?(source: IFormatSource, options: FormatOptions): IImportResult | Promise<IImportResult>
+  export?(
+    input: IFormatExportInput,
+    options: FormatOptions
+  ): FormatExportResult | Promise<FormatExportResult>
+  importOptions?: FormatOptionsSchema
+  exportOptions?: FormatOptionsSchema
+  /** 贡献该格式的插件，内置格式缺省 */
+  pluginId?: string
+}
+
+/**
+ * 格式注册、识别或选项校验错误
+ */
+export class FormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FormatError'
+  }
+}
+
+const startsWithBytes = (bytes: Uint8Array, signature: number[]) =>
+  signature.every((byte, index) => bytes[index] === byte)
+
+/** 去掉 BOM、XML 声明、注释与 DOCTYPE 后的文本开头 */
+const XML_PROLOG = /^\uFEFF?\s*(<\?xml[\s\S]*?\?>\s*)?((<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)\s*)*/i
+
+/**
+ * 内置格式，导入导出由 ImportService 与 ExportService 实现
+ */
+export const BUILTIN_FORMATS: readonly IFileFormat[] = [
+  {
+    id: 'json',
+    name: 'Sky Canvas JSON',
+    extensions: ['json'],
+    mimeTypes: ['application/json'],
+    sniff: (source) => /^\uFEFF?\s*\{[\s\S]*"shapes"\s*:/.test(source.text()),
+  },
+  {
+    id: 'svg',
+    name: 'SVG',
+    extensions: ['svg'],
+    mimeTypes: ['image/svg+xml', 'text/svg+xml'],
+    sniff: (source) => {
+      const text = source.text()
+      const prolog = XML_PROLOG.exec(text)?.[0].length ?? 0
+      return /^<svg[\s>/]/i.test(text.slice(prolog))
+    },
+    exportOptions: {
+      width: { type: 'number', minimum: 0, description: '输出宽度' },
+      height: { type: 'number', minimum: 0, description: '输出高度' },
+      padding: { type: 'number', minimum: 0, default: 0, description: '内容四周的留白' },
+      backgroundColor: { type: 'string', description: '背景色' },
+      frameId: { type: 'string', description: '作为画板导出的画框' },
+    },
+  },
+  {
+    id: 'png',
+    name: 'PNG',
+    extensions: ['png'],
+    mimeTypes: ['image/png'],
+    sniff: (source) =>
+      startsWithBytes(source.bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    exportOptions: {
+      scale: { type: 'number', minimum: 0, default: 1, description: '缩放因子' },
+      backgroundColor: { type: 'string', description: '背景色' },
+    },
+  },
+  {
+    id: 'jpeg',
+    name: 'JPEG',
+    extensions: ['jpg', 'jpeg'],
+    mimeTypes: ['image/jpeg', 'image/jpg'],
+    sniff: (source) => startsWithBytes(source.bytes, [0xff, 0xd8, 0xff]),
+    exportOptions: {
+      quality: { type: 'number', minimum: 0, maximum: 1, default: 0.8, description: '图片质量' },
+      scale: { type: 'number', minimum: 0, default: 1, description: '缩放因子' },
+      backgroundColor: { type: 'string', description: '背景色' },
+    },
+  },
+]
+
+/**
+ * 文件格式注册表
+ */
+export class FormatRegistry {
+  private formats = new Map<string, IFileFormat>()
+  private listeners = new Set<() => void>()
+
+  constructor(formats: readonly IFileFormat[] = BUILTIN_FORMATS) {
+    for (const format of formats) this.formats.set(format.id, format)
+  }
+
+  /**
+   * 注册格式，格式 ID 不能重复；返回注销函数
+   */
+  register(format: IFileFormat): () => void {
+    if (!format.id) {
+      throw new FormatError('Format id is required')
+    }
+    const existing = this.formats.get(format.id)
+    if (existing) {
+      const owner = existing.pluginId ? `plugin '${existing.pluginId}'` : 'the editor'
+      throw new FormatError(`Format '${format.id}' is already registered by ${owner}`)
+    }
+
+    this.formats.set(format.id, {
+      ...format,
+      extensions: format.extensions.map((extension) => extension.replace(/^\./, '').toLowerCase()),
+      mimeTypes: format.mimeTypes.map((mimeType) => mimeType.toLowerCase()),
+    })
+    this.notify()
+
+    const registered = this.formats.get(format.id)
+    return () => {
+      if (this.formats.get(format.id) === registered) this.unregister(format.id)
+    }
+  }
+
+  unregister(id: string): void {
+    if (this.formats.delete(id)) this.notify()
+  }
+
+  /**
+   * 注销插件贡献的所有格式
+   */
+  unregisterPlugin(pluginId: string): void {
+    let changed = false
+    for (const [id, format] of this.formats) {
+      if (format.pluginId === pluginId) {
+        this.formats.delete(id)
+        changed = true
+      }
+    }
+    if (changed) this.notify()
+  }
+
+  get(id: string): IFileFormat | undefined {
+    return this.formats.get(id)
+  }
+
+  has(id: string): boolean {
+    return this.formats.has(id)
+  }
+
+  /**
+   * 所有格式，按注册顺序
+   */
+  getFormats(): IFileFormat[] {
+    return Array.from(this.formats.values())
+  }
+
+  findByExtension(extension: string): IFileFormat | undefined {
+    const normalized = extension.replace(/^\./, '').toLowerCase()
+    return this.findLatest((format) => format.extensions.includes(normalized))
+  }
+
+  findByMimeType(mimeType: string): IFileFormat | undefined {
+    const normalized = mimeType.toLowerCase()
+    return this.findLatest((format) => format.mimeTypes.includes(normalized))
+  }
+
+  /**
+   * 识别内容的格式：先按内容嗅探，后注册的格式优先，使插件可以识别内置格式的变体；
+   * 都不匹配时依次按扩展名与 MIME 类型查找
+   */
+  detect(
+    source: IFormatSource,
+    accept: (format: IFileFormat) => boolean = () => true
+  ): IFileFormat | undefined {
+    const sniffed = this.findLatest((format) => {
+      if (!format.sniff || !accept(format)) return false
+      try {
+        return format.sniff(source)
+      } catch {
+        return false
+      }
+    })
+    if (sniffed) return sniffed
+
+    const extension = source.name.includes('.') ? source.name.split('.').pop() : undefined
+    const byExtension = extension
+      ? this.findLatest(
+          (format) => accept(format) && format.extensions.includes(extension.toLowerCase())
+        )
+      : undefined
+    if (byExtension) return byExtension
+
+    const mimeType = source.mimeType.toLowerCase()
+    return mimeType
+      ? this.findLatest((format) => accept(format) && format.mimeTypes.includes(mimeType))
+      : undefined
+  }
+
+  /**
+   * 按选项结构补全默认值并校验类型与取值范围，结构中未声明的选项原样保留
+   */
+  resolveOptions(
+    schema: FormatOptionsSchema | undefined,
+    options: FormatOptions = {}
+  ): FormatOptions {
+    const resolved: FormatOptions = { ...options }
+    for (const [key, option] of Object.entries(schema ?? {})) {
+      const value = resolved[key] ?? option.default
+      if (value === undefined) {
+        delete resolved[key]
+        continue
+      }
+      if (typeof value !== option.type) {
+        throw new FormatError(`Option '${key}' must be a ${option.type}`)
+      }
+      if (option.enum && !option.enum.includes(value as string | number)) {
+        throw new FormatError(`Option '${key}' must be one of ${option.enum.join(', ')}`)
+      }
+      if (typeof value === 'number') {
+        if (option.minimum !== undefined && value < option.minimum) {
+          throw new FormatError(`Option '${key}' must be at least ${option.minimum}`)
+        }
+        if (option.maximum !== undefined && value > option.maximum) {
+          throw new FormatError(`Option '${key}' must be at most ${option.maximum}`)
+        }
+      }
+      resolved[key] = value
+    }
+    return resolved
+  }
+
+  /**
+   * 监听格式的注册与注销
+   */
+  onDidChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private findLatest(predicate: (format: IFileFormat) => boolean): IFileFormat | undefined {
+    const formats = this.getFormats()
+    for (let index = formats.length - 1; index >= 0; index--) {
+      if (predicate(formats[index])) return formats[index]
+    }
+    return undefined
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener()
+      } catch {}
+    }
+  }
+}
+
+/**
+ * 默认的格式注册表
+ */
+export const formatRegistry = new FormatRegistry()
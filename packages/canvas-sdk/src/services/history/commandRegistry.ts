@@ -0,0 +1,108 @@
+/**
+ * 命令序列化注册表
+ * 按类型登记命令的反序列化函数，使历史记录可以保存到存储或文档中并在重新加载后恢复
+ */
+
+import type { ICommand } from './historyService'
+
+/**
+ * 序列化后的命令
+ */
+export interface ISerializedCommand {
+  /** 注册表中的命令类型 */
+  type: string
+  description?: string
+  data: unknown
+}
+
+/**
+ * 反序列化上下文：命令只保存目标的引用，恢复时由上下文解析为实际对象
+ */
+export interface ICommandContext {
+  /** 按引用解析命令的目标，如属性命令的对象、集合命令的数组 */
+  resolve(ref: string): unknown
+  /** 写回目标的属性；未提供时直接赋值到 resolve 得到的对象 */
+  update?(ref: string, values: Record<string, unknown>): void
+}
+
+/**
+ * 命令反序列化函数
+ */
+export type CommandDeserializer = (json: ISerializedCommand, context: ICommandContext) => ICommand
+
+/**
+ * 命令序列化错误
+ */
+export class CommandSerializationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CommandSerializationError'
+  }
+}
+
+/**
+ * 命令类型注册表
+ */
+export class CommandRegistry {
+  private deserializers = new Map<string, CommandDeserializer>()
+
+  /**
+   * 注册命令类型，同一类型只保留最后注册的反序列化函数
+   */
+  register(type: string, fromJSON: CommandDeserializer): () => void {
+    this.deserializers.set(type, fromJSON)
+    return () => {
+      if (this.deserializers.get(type) === fromJSON) {
+        this.deserializers.delete(type)
+      }
+    }
+  }
+
+  has(type: string): boolean {
+    return this.deserializers.has(type)
+  }
+
+  /**
+   * 序列化命令；命令不支持序列化（没有 toJSON、缺少目标引用或类型未注册）时返回 null
+   */
+  serialize(command: ICommand): ISerializedCommand | null {
+    if (!command.toJSON) return null
+    try {
+      const json = command.toJSON()
+      return this.has(json.type) ? json : null
+    } catch (error) {
+      if (error instanceof CommandSerializationError) return null
+      throw error
+    }
+  }
+
+  /**
+   * 按类型恢复命令
+   */
+  deserialize(json: ISerializedCommand, context: ICommandContext): ICommand {
+    if (typeof json !== 'object' || json === null || typeof json.type !== 'string') {
+      throw new CommandSerializationError('Invalid command: missing type')
+    }
+    const fromJSON = this.deserializers.get(json.type)
+    if (!fromJSON) {
+      throw new CommandSerializationError(`Unknown command type: ${json.type}`)
+    }
+    return fromJSON(json, context)
+  }
+}
+
+/**
+ * 默认命令注册表，内置命令在定义处注册
+ */
+export const commandRegistry = new CommandRegistry()
+
+/**
+ * 解析命令目标，目标不存在时抛出错误
+ */
+export function resolveCommandTarget<T>(context: ICommandContext, ref: string): T {
+  const target = context.resolve(ref)
+  if (target === undefined || target === null) {
+    throw new CommandSerializationError(`Cannot resolve command target: ${ref}`)
+  }
+  return target as T
+}
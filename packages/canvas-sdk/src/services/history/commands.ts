@@ -2,32 +2,88 @@
  * 历史记录命令实现
  */
 
-import type { ICommand } from './historyService'
+import {
+  CommandSerializationError,
+  commandRegistry,
+  type ICommandContext,
+  type ISerializedCommand,
+  resolveCommandTarget,
+} from './commandRegistry'
+import { DEFAULT_COMMAND_MEMORY_SIZE, type ICommand } from './historyService'
 
 /**
  * 属性更改命令 - 最常用的命令类型
+ * 通过 withRef 设置目标引用后可以序列化
  */
 export class PropertyChangeCommand<T, K extends keyof T> implements ICommand {
-  private target: T
+  static readonly TYPE = 'property-change'
+
+  private apply: (property: K, value: T[K]) => void
   private property: K
   private oldValue: T[K]
   private newValue: T[K]
+  private ref?: string
   public description: string
 
   constructor(target: T, property: K, newValue: T[K], description?: string) {
-    this.target = target
+    this.apply = (key, value) => {
+      target[key] = value
+    }
     this.property = property
     this.oldValue = target[property]
     this.newValue = newValue
     this.description = description || `Change ${String(property)}`
   }
 
+  /**
+   * 设置目标的引用，反序列化时经 ICommandContext 解析
+   */
+  withRef(ref: string): this {
+    this.ref = ref
+    return this
+  }
+
   execute(): void {
-    this.target[this.property] = this.newValue
+    this.apply(this.property, this.newValue)
   }
 
   undo(): void {
-    this.target[this.property] = this.oldValue
+    this.apply(this.property, this.oldValue)
+  }
+
+  toJSON(): ISerializedCommand {
+    return {
+      type: PropertyChangeCommand.TYPE,
+      description: this.description,
+      data: {
+        ref: requireRef(this.ref, this.description),
+        property: this.property,
+        oldValue: this.oldValue,
+        newValue: this.newValue,
+      },
+    }
+  }
+
+  static fromJSON(
+    json: ISerializedCommand,
+    context: ICommandContext
+  ): PropertyChangeCommand<Record<string, unknown>, string> {
+    const data = json.data as {
+      ref: string
+      property: string
+      oldValue: unknown
+      newValue: unknown
+    }
+    const command = new PropertyChangeCommand<Record<string, unknown>, string>(
+      {},
+      data.property,
+      data.newValue,
+      json.description
+    )
+    const apply = createApplier<Record<string, unknown>>(context, data.ref)
+    command.oldValue = data.oldValue
+    command.apply = (property, value) => apply({ [property]: value })
+    return command.withRef(data.ref)
   }
 
   toString(): string {
@@ -37,73 +93,193 @@ export class PropertyChangeCommand<T, K extends keyof T> implements ICommand {
 
 /**
  * 多属性更改命令
+ * 只记录变更属性的旧值与新值（差异），同一属性多次变更时保留最早的旧值与最新的新值
  */
 export class MultiPropertyChangeCommand<T> implements ICommand {
+  static readonly TYPE = 'multi-property-change'
+
   private target: T
   private changes: Array<{
     property: keyof T
     oldValue: T[keyof T]
     newValue: T[keyof T]
   }> = []
+  private apply: (values: Partial<T>) => void
+  private memorySize: number | null = null
+  private ref?: string
   public description: string
 
-  constructor(target: T, description?: string) {
+  /**
+   * @param apply 写回属性值，默认直接赋值到目标对象；目标需经服务更新时传入
+   */
+  constructor(target: T, description?: string, apply?: (values: Partial<T>) => void) {
     this.target = target
     this.description = description || 'Change multiple properties'
+    this.apply = apply ?? ((values) => Object.assign(target as object, values))
+  }
+
+  /**
+   * 设置目标的引用，反序列化时经 ICommandContext 解析
+   */
+  withRef(ref: string): this {
+    this.ref = ref
+    return this
   }
 
   /**
    * 添加属性更改
    */
   addChange<K extends keyof T>(property: K, newValue: T[K]): void {
-    this.changes.push({
-      property,
-      oldValue: this.target[property],
-      newValue,
-    })
+    const existing = this.changes.find((change) => change.property === property)
+    if (existing) {
+      existing.newValue = newValue
+    } else {
+      this.changes.push({
+        property,
+        oldValue: this.target[property],
+        newValue,
+      })
+    }
+    this.memorySize = null
   }
 
   execute(): void {
-    for (const change of this.changes) {
-      this.target[change.property] = change.newValue
-    }
+    this.apply(this.collect('newValue'))
   }
 
   undo(): void {
-    // 按相反顺序恢复
-    for (let i = this.changes.length - 1; i >= 0; i--) {
-      const change = this.changes[i]
-      this.target[change.property] = change.oldValue
+    this.apply(this.collect('oldValue'))
+  }
+
+  /**
+   * 同一目标、同一描述的属性更改合并为一条记录
+   */
+  mergeWith(next: ICommand): boolean {
+    if (!(next instanceof MultiPropertyChangeCommand) || next.description !== this.description) {
+      return false
     }
+    return this.absorb(next)
+  }
+
+  /**
+   * 并入同一目标（同一对象或同一引用）的后续更改（不比较描述），目标不同时返回 false
+   */
+  absorb(next: MultiPropertyChangeCommand<unknown>): boolean {
+    const sameRef = this.ref !== undefined && next.ref === this.ref
+    if (next.target !== this.target && !sameRef) return false
+    for (const change of (next as MultiPropertyChangeCommand<T>).changes) {
+      const existing = this.changes.find((item) => item.property === change.property)
+      if (existing) {
+        existing.newValue = change.newValue
+      } else {
+        this.changes.push({ ...change })
+      }
+    }
+    this.memorySize = null
+    return true
+  }
+
+  isEmpty(): boolean {
+    return this.changes.length === 0
+  }
+
+  getMemorySize(): number {
+    this.memorySize ??= estimateMemorySize(this.changes)
+    return this.memorySize
+  }
+
+  toJSON(): ISerializedCommand {
+    return {
+      type: MultiPropertyChangeCommand.TYPE,
+      description: this.description,
+      data: {
+        ref: requireRef(this.ref, this.description),
+        changes: this.changes,
+      },
+    }
+  }
+
+  static fromJSON(
+    json: ISerializedCommand,
+    context: ICommandContext
+  ): MultiPropertyChangeCommand<Record<string, unknown>> {
+    const data = json.data as {
+      ref: string
+      changes: Array<{ property: string; oldValue: unknown; newValue: unknown }>
+    }
+    const command = new MultiPropertyChangeCommand<Record<string, unknown>>(
+      {},
+      json.description,
+      createApplier(context, data.ref)
+    )
+    command.changes = data.changes.map((change) => ({ ...change }))
+    return command.withRef(data.ref)
   }
 
   toString(): string {
     return `${this.description} (${this.changes.length} properties)`
   }
+
+  private collect(key: 'oldValue' | 'newValue'): Partial<T> {
+    const values: Partial<T> = {}
+    for (const change of this.changes) {
+      values[change.property] = change[key]
+    }
+    return values
+  }
 }
 
 /**
  * 集合添加命令
  */
 export class CollectionAddCommand<T> implements ICommand {
-  private collection: T[]
+  static readonly TYPE = 'collection-add'
+
+  private getCollection: () => T[]
   private item: T
   private index: number
+  private ref?: string
   public description: string
 
   constructor(collection: T[], item: T, index?: number, description?: string) {
-    this.collection = collection
+    this.getCollection = () => collection
     this.item = item
     this.index = index ?? collection.length
     this.description = description || 'Add item to collection'
   }
 
+  /**
+   * 设置集合的引用，反序列化时经 ICommandContext 解析
+   */
+  withRef(ref: string): this {
+    this.ref = ref
+    return this
+  }
+
   execute(): void {
-    this.collection.splice(this.index, 0, this.item)
+    this.getCollection().splice(this.index, 0, this.item)
   }
 
   undo(): void {
-    this.collection.splice(this.index, 1)
+    this.getCollection().splice(this.index, 1)
+  }
+
+  toJSON(): ISerializedCommand {
+    return {
+      type: CollectionAddCommand.TYPE,
+      description: this.description,
+      data: { ref: requireRef(this.ref, this.description), item: this.item, index: this.index },
+    }
+  }
+
+  static fromJSON(
+    json: ISerializedCommand,
+    context: ICommandContext
+  ): CollectionAddCommand<unknown> {
+    const data = json.data as { ref: string; item: unknown; index: number }
+    const command = new CollectionAddCommand<unknown>([], data.item, data.index, json.description)
+    command.getCollection = () => resolveCommandTarget<unknown[]>(context, data.ref)
+    return command.withRef(data.ref)
   }
 
   toString(): string {
@@ -115,13 +291,16 @@ export class CollectionAddCommand<T> implements ICommand {
  * 集合删除命令
  */
 export class CollectionRemoveCommand<T> implements ICommand {
-  private collection: T[]
+  static readonly TYPE = 'collection-remove'
+
+  private getCollection: () => T[]
   private item: T
   private index: number
+  private ref?: string
   public description: string
 
   constructor(collection: T[], item: T, description?: string) {
-    this.collection = collection
+    this.getCollection = () => collection
     this.item = item
     this.index = collection.indexOf(item)
     this.description = description || 'Remove item from collection'
@@ -131,12 +310,39 @@ export class CollectionRemoveCommand<T> implements ICommand {
     }
   }
 
+  /**
+   * 设置集合的引用，反序列化时经 ICommandContext 解析
+   */
+  withRef(ref: string): this {
+    this.ref = ref
+    return this
+  }
+
   execute(): void {
-    this.collection.splice(this.index, 1)
+    this.getCollection().splice(this.index, 1)
   }
 
   undo(): void {
-    this.collection.splice(this.index, 0, this.item)
+    this.getCollection().splice(this.index, 0, this.item)
+  }
+
+  toJSON(): ISerializedCommand {
+    return {
+      type: CollectionRemoveCommand.TYPE,
+      description: this.description,
+      data: { ref: requireRef(this.ref, this.description), item: this.item, index: this.index },
+    }
+  }
+
+  static fromJSON(
+    json: ISerializedCommand,
+    context: ICommandContext
+  ): CollectionRemoveCommand<unknown> {
+    const data = json.data as { ref: string; item: unknown; index: number }
+    const command = new CollectionRemoveCommand<unknown>([data.item], data.item, json.description)
+    command.index = data.index
+    command.getCollection = () => resolveCommandTarget<unknown[]>(context, data.ref)
+    return command.withRef(data.ref)
   }
 
   toString(): string {
@@ -148,33 +354,75 @@ export class CollectionRemoveCommand<T> implements ICommand {
  * 集合移动命令
  */
 export class CollectionMoveCommand<T> implements ICommand {
-  private collection: T[]
+  static readonly TYPE = 'collection-move'
+
+  private getCollection: () => T[]
   private fromIndex: number
   private toIndex: number
   private item: T
+  private ref?: string
   public description: string
 
   constructor(collection: T[], fromIndex: number, toIndex: number, description?: string) {
-    this.collection = collection
+    this.getCollection = () => collection
     this.fromIndex = fromIndex
     this.toIndex = toIndex
     this.item = collection[fromIndex]
     this.description = description || `Move item from ${fromIndex} to ${toIndex}`
   }
 
+  /**
+   * 设置集合的引用，反序列化时经 ICommandContext 解析
+   */
+  withRef(ref: string): this {
+    this.ref = ref
+    return this
+  }
+
   execute(): void {
+    const collection = this.getCollection()
     // 先移除
-    this.collection.splice(this.fromIndex, 1)
+    collection.splice(this.fromIndex, 1)
     // 再插入（注意索引可能需要调整）
     const adjustedToIndex = this.toIndex > this.fromIndex ? this.toIndex - 1 : this.toIndex
-    this.collection.splice(adjustedToIndex, 0, this.item)
+    collection.splice(adjustedToIndex, 0, this.item)
   }
 
   undo(): void {
+    const collection = this.getCollection()
     // 先移除
-    this.collection.splice(this.toIndex, 1)
+    collection.splice(this.toIndex, 1)
     // 再插入到原位置
-    this.collection.splice(this.fromIndex, 0, this.item)
+    collection.splice(this.fromIndex, 0, this.item)
+  }
+
+  toJSON(): ISerializedCommand {
+    return {
+      type: CollectionMoveCommand.TYPE,
+      description: this.description,
+      data: {
+        ref: requireRef(this.ref, this.description),
+        item: this.item,
+        fromIndex: this.fromIndex,
+        toIndex: this.toIndex,
+      },
+    }
+  }
+
+  static fromJSON(
+    json: ISerializedCommand,
+    context: ICommandContext
+  ): CollectionMoveCommand<unknown> {
+    const data = json.data as { ref: string; item: unknown; fromIndex: number; toIndex: number }
+    const command = new CollectionMoveCommand<unknown>(
+      [],
+      data.fromIndex,
+      data.toIndex,
+      json.description
+    )
+    command.item = data.item
+    command.getCollection = () => resolveCommandTarget<unknown[]>(context, data.ref)
+    return command.withRef(data.ref)
   }
 
   toString(): string {
@@ -257,6 +505,8 @@ export class AsyncCommandWrapper implements ICommand {
  * 复合命令 - 包含多个子命令的命令
  */
 export class CompositeCommand implements ICommand {
+  static readonly TYPE = 'composite'
+
   private commands: ICommand[] = []
   public description: string
 
@@ -289,6 +539,32 @@ export class CompositeCommand implements ICommand {
     }
   }
 
+  /**
+   * 同一描述的复合命令合并：后续复合命令的属性更改并入同一目标最近的子命令，
+   * 其余追加到末尾；包含属性更改以外的子命令时不合并
+   */
+  mergeWith(next: ICommand): boolean {
+    if (!(next instanceof CompositeCommand) || next.description !== this.description) return false
+    if (!next.commands.every((command) => command instanceof MultiPropertyChangeCommand)) {
+      return false
+    }
+    for (const command of next.commands as MultiPropertyChangeCommand<unknown>[]) {
+      const merged = this.commands
+        .slice()
+        .reverse()
+        .some((own) => own instanceof MultiPropertyChangeCommand && own.absorb(command))
+      if (!merged) this.commands.push(command)
+    }
+    return true
+  }
+
+  getMemorySize(): number {
+    return this.commands.reduce(
+      (total, command) => total + (command.getMemorySize?.() ?? DEFAULT_COMMAND_MEMORY_SIZE),
+      0
+    )
+  }
+
   /**
    * 获取子命令数量
    */
@@ -310,6 +586,31 @@ export class CompositeCommand implements ICommand {
     this.commands = []
   }
 
+  /**
+   * 子命令全部可序列化时才能序列化
+   */
+  toJSON(): ISerializedCommand {
+    const commands = this.commands.map((command) => {
+      const json = commandRegistry.serialize(command)
+      if (!json) {
+        throw new CommandSerializationError(
+          `Command "${command.description ?? 'Unknown command'}" is not serializable`
+        )
+      }
+      return json
+    })
+    return { type: CompositeCommand.TYPE, description: this.description, data: { commands } }
+  }
+
+  static fromJSON(json: ISerializedCommand, context: ICommandContext): CompositeCommand {
+    const data = json.data as { commands: ISerializedCommand[] }
+    const composite = new CompositeCommand(json.description)
+    for (const command of data.commands) {
+      composite.add(commandRegistry.deserialize(command, context))
+    }
+    return composite
+  }
+
   toString(): string {
     return `${this.description} (${this.commands.length} commands)`
   }
@@ -327,8 +628,12 @@ export const CommandBuilder = {
   ): PropertyChangeCommand<T, K> {
     return new PropertyChangeCommand(target, property, newValue, description)
   },
-  changeMultipleProperties<T>(target: T, description?: string): MultiPropertyChangeCommand<T> {
-    return new MultiPropertyChangeCommand(target, description)
+  changeMultipleProperties<T>(
+    target: T,
+    description?: string,
+    apply?: (values: Partial<T>) => void
+  ): MultiPropertyChangeCommand<T> {
+    return new MultiPropertyChangeCommand(target, description, apply)
   },
   addToCollection<T>(
     collection: T[],
@@ -364,3 +669,44 @@ export const CommandBuilder = {
     return new CompositeCommand(description)
   },
 }
+
+commandRegistry.register(PropertyChangeCommand.TYPE, PropertyChangeCommand.fromJSON)
+commandRegistry.register(MultiPropertyChangeCommand.TYPE, MultiPropertyChangeCommand.fromJSON)
+commandRegistry.register(CollectionAddCommand.TYPE, CollectionAddCommand.fromJSON)
+commandRegistry.register(CollectionRemoveCommand.TYPE, CollectionRemoveCommand.fromJSON)
+commandRegistry.register(CollectionMoveCommand.TYPE, CollectionMoveCommand.fromJSON)
+commandRegistry.register(CompositeCommand.TYPE, CompositeCommand.fromJSON)
+
+/**
+ * 反序列化后的属性命令经上下文写回目标
+ */
+function createApplier<T>(context: ICommandContext, ref: string): (values: Partial<T>) => void {
+  return (values) => {
+    if (context.update) {
+      context.update(ref, values as Record<string, unknown>)
+    } else {
+      Object.assign(resolveCommandTarget<object>(context, ref), values)
+    }
+  }
+}
+
+/**
+ * 只有设置了目标引用的命令才能序列化
+ */
+function requireRef(ref: string | undefined, description: string): string {
+  if (ref === undefined) {
+    throw new CommandSerializationError(`Command "${description}" has no target reference`)
+  }
+  return ref
+}
+
+/**
+ * 按 JSON 长度估算值占用的内存（字节），无法序列化时返回默认大小
+ */
+function estimateMemorySize(value: unknown): number {
+  try {
+    return (JSON.stringify(value)?.length ?? 0) * 2
+  } catch {
+    return DEFAULT_COMMAND_MEMORY_SIZE
+  }
+}
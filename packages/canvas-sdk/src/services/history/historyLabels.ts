@@ -0,0 +1,78 @@
+/**
+ * 历史记录标签
+ * 为形状操作生成可读的撤销记录名称，如 "Move rectangle"、"Change text font size"
+ */
+
+import type { ShapeEntity } from '../../models/entities/Shape'
+
+/** 改变形状几何尺寸的属性，与变换一起更新时视为缩放尺寸 */
+const RESIZE_KEYS = new Set([
+  'size',
+  'radius',
+  'radiusX',
+  'radiusY',
+  'outerRadius',
+  'innerRadius',
+  'points',
+])
+
+const SHAPE_NAMES: Partial<Record<ShapeEntity['type'], string>> = {
+  freehand: 'drawing',
+  sticky: 'sticky note',
+  link: 'link card',
+}
+
+/**
+ * 形状的可读名称
+ */
+export function getShapeLabel(shape: Pick<ShapeEntity, 'type'>): string {
+  return SHAPE_NAMES[shape.type] ?? shape.type
+}
+
+export function describeShapeAdd(shape: ShapeEntity): string {
+  return `Add ${getShapeLabel(shape)}`
+}
+
+export function describeShapeRemove(shape: ShapeEntity): string {
+  return `Delete ${getShapeLabel(shape)}`
+}
+
+/**
+ * 按更新内容描述形状更改：几何变化优先（缩放尺寸、移动、旋转），其次为单个属性
+ */
+export function describeShapeUpdate(shape: ShapeEntity, updates: Partial<ShapeEntity>): string {
+  const name = getShapeLabel(shape)
+  const keys = Object.keys(updates)
+
+  if (keys.some((key) => RESIZE_KEYS.has(key))) return `Resize ${name}`
+  if (updates.transform) {
+    const { position, rotation, scale } = shape.transform
+    const next = updates.transform
+    if (next.rotation !== rotation) return `Rotate ${name}`
+    if (next.scale.x !== scale.x || next.scale.y !== scale.y) return `Scale ${name}`
+    if (next.position.x !== position.x || next.position.y !== position.y) return `Move ${name}`
+  }
+  if ('visible' in updates) return `${updates.visible ? 'Show' : 'Hide'} ${name}`
+  if ('locked' in updates) return `${updates.locked ? 'Lock' : 'Unlock'} ${name}`
+  if ('zIndex' in updates) return `Reorder ${name}`
+  if ('content' in updates) return `Edit ${name}`
+
+  if (updates.style) {
+    const changed = Object.keys(updates.style).filter(
+      (key) =>
+        updates.style?.[key as keyof typeof updates.style] !==
+        shape.style[key as keyof typeof shape.style]
+    )
+    return changed.length === 1 ? `Change ${name} ${humanize(changed[0])}` : `Change ${name} style`
+  }
+
+  const property = keys.find((key) => key !== 'transform' && key !== 'updatedAt')
+  return property ? `Change ${name} ${humanize(property)}` : `Edit ${name}`
+}
+
+/**
+ * 驼峰属性名转为小写单词，如 fontSize -> font size
+ */
+function humanize(key: string): string {
+  return key.replace(/([a-z\d])([A-Z])/g, '$1 $2').toLowerCase()
+}
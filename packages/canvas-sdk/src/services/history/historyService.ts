@@ -4,6 +4,18 @@
 
 import { createDecorator } from '../../di'
 import { ILogService } from '../logging/logService'
+import {
+  CommandSerializationError,
+  commandRegistry,
+  type ICommandContext,
+  type ISerializedCommand,
+} from './commandRegistry'
+import {
+  type IHistoryStore,
+  type ISerializedHistory,
+  isSerializedHistory,
+  SERIALIZED_HISTORY_VERSION,
+} from './historyStore'
 
 /**
  * 命令接口
@@ -12,8 +24,20 @@ export interface ICommand {
   execute(): void
   undo(): void
   description?: string
+  /**
+   * 合并窗口内紧随其后的命令：返回 true 表示已并入本命令，不再单独入栈；
+   * 返回 false 时不得修改自身
+   */
+  mergeWith?(next: ICommand): boolean
+  /** 估算占用的内存（字节），用于限制历史记录总大小 */
+  getMemorySize?(): number
+  /** 序列化命令，类型需在 commandRegistry 中注册；无法序列化时抛出 CommandSerializationError */
+  toJSON?(): ISerializedCommand
 }
 
+/** 未提供 getMemorySize 的命令按此大小估算 */
+export const DEFAULT_COMMAND_MEMORY_SIZE = 256
+
 /**
  * 历史变更监听器
  */
@@ -30,9 +54,25 @@ export interface IHistoryService {
   canUndo(): boolean
   canRedo(): boolean
   clear(): void
+  /** 撤销或重做到指定位置，-1 表示撤销全部 */
+  goTo(index: number): void
+  /** 结束当前合并窗口，之后的命令不再并入已有记录 */
+  stopMerging(): void
   getHistory(): ICommand[]
   getCurrentIndex(): number
   onDidChange(listener: HistoryChangeListener): () => void
+
+  // 持久化
+  /** 序列化撤销栈，无法序列化的记录及其另一侧无法到达的记录被丢弃 */
+  serialize(): ISerializedHistory
+  /** 恢复撤销栈，不重新执行命令；画布内容需与序列化时一致。全部记录恢复成功时返回 true */
+  restore(history: ISerializedHistory, context: ICommandContext): boolean
+  /** 设置存储，之后每次变更自动保存；传入 null 停止保存 */
+  setStore(store: IHistoryStore | null): void
+  /** 从存储恢复撤销栈，存储中没有记录时返回 false */
+  loadFromStore(context: ICommandContext): Promise<boolean>
+  /** 立即保存尚未写入存储的变更 */
+  flush(): Promise<void>
 }
 
 /**
@@ -48,7 +88,15 @@ export class HistoryService implements IHistoryService {
   private history: ICommand[] = []
   private currentIndex = -1
   private maxHistorySize = 100
+  private maxHistoryMemory = 32 * 1024 * 1024
+  /** 合并窗口（毫秒），窗口内可合并的命令并入上一条记录 */
+  private mergeWindow = 1000
+  private lastExecutedAt = Number.NEGATIVE_INFINITY
   private listeners: HistoryChangeListener[] = []
+  private store: IHistoryStore | null = null
+  /** 变更后延迟保存（毫秒），连续变更只保存一次 */
+  private persistDelay = 300
+  private persistTimer: ReturnType<typeof setTimeout> | null = null
 
   constructor(@ILogService private logger: ILogService) {}
 
@@ -70,23 +118,27 @@ export class HistoryService implements IHistoryService {
         this.logger.error('Error in history change listener', error)
       }
     })
+    this.schedulePersist()
   }
 
   execute(command: ICommand): void {
     try {
       command.execute()
 
-      this.history.splice(this.currentIndex + 1)
-
-      this.history.push(command)
-      this.currentIndex++
-
-      if (this.history.length > this.maxHistorySize) {
-        this.history.shift()
-        this.currentIndex--
+      const now = Date.now()
+      const merged = this.tryMerge(command, now)
+      if (!merged) {
+        this.history.splice(this.currentIndex + 1)
+        this.history.push(command)
+        this.currentIndex++
       }
+      this.lastExecutedAt = now
+      this.trimHistory()
 
-      this.logger.debug('Command executed', command.description || 'Unknown command')
+      this.logger.debug(
+        merged ? 'Command merged' : 'Command executed',
+        command.description || 'Unknown command'
+      )
       this.notifyListeners()
     } catch (error) {
       this.logger.error('Failed to execute command', error)
@@ -101,15 +153,9 @@ export class HistoryService implements IHistoryService {
     }
 
     try {
-      const command = this.history[this.currentIndex]
-      command.undo()
-      this.currentIndex--
-
-      this.logger.debug('Command undone', command.description || 'Unknown command')
+      this.undoStep()
+    } finally {
       this.notifyListeners()
-    } catch (error) {
-      this.logger.error('Failed to undo command', error)
-      throw error
     }
   }
 
@@ -120,17 +166,152 @@ export class HistoryService implements IHistoryService {
     }
 
     try {
-      this.currentIndex++
-      const command = this.history[this.currentIndex]
-      command.execute()
+      this.redoStep()
+    } finally {
+      this.notifyListeners()
+    }
+  }
 
-      this.logger.debug('Command redone', command.description || 'Unknown command')
+  goTo(index: number): void {
+    const target = Math.max(-1, Math.min(Math.trunc(index), this.history.length - 1))
+    if (target === this.currentIndex) return
+
+    try {
+      while (this.currentIndex > target) this.undoStep()
+      while (this.currentIndex < target) this.redoStep()
+    } finally {
+      // 跨越多步只通知一次
       this.notifyListeners()
+    }
+  }
+
+  stopMerging(): void {
+    this.lastExecutedAt = Number.NEGATIVE_INFINITY
+  }
+
+  /**
+   * 尝试将命令并入当前记录：仅在没有可重做的记录且处于合并窗口内时合并
+   */
+  private tryMerge(command: ICommand, now: number): boolean {
+    const last = this.history[this.currentIndex]
+    if (!last?.mergeWith || this.currentIndex !== this.history.length - 1) return false
+    if (this.mergeWindow <= 0 || now - this.lastExecutedAt > this.mergeWindow) return false
+    return last.mergeWith(command)
+  }
+
+  private undoStep(): void {
+    const command = this.history[this.currentIndex]
+    try {
+      command.undo()
+    } catch (error) {
+      this.logger.error('Failed to undo command', error)
+      throw error
+    }
+    this.currentIndex--
+    this.stopMerging()
+    this.logger.debug('Command undone', command.description || 'Unknown command')
+  }
+
+  private redoStep(): void {
+    const command = this.history[this.currentIndex + 1]
+    try {
+      command.execute()
     } catch (error) {
-      this.currentIndex--
       this.logger.error('Failed to redo command', error)
       throw error
     }
+    this.currentIndex++
+    this.stopMerging()
+    this.logger.debug('Command redone', command.description || 'Unknown command')
+  }
+
+  /**
+   * 超出条数或内存上限时丢弃最早的记录，始终保留最近一条
+   */
+  private trimHistory(): void {
+    let memory = this.getMemorySize()
+    while (
+      this.history.length > this.maxHistorySize ||
+      (this.history.length > 1 && memory > this.maxHistoryMemory)
+    ) {
+      const dropped = this.history.shift()
+      memory -= dropped ? getCommandMemorySize(dropped) : 0
+      this.currentIndex = Math.max(-1, this.currentIndex - 1)
+    }
+  }
+
+  serialize(): ISerializedHistory {
+    const entries = this.history.map((command) => commandRegistry.serialize(command))
+    const { start, end } = getReachableRange(entries, this.currentIndex)
+    return {
+      version: SERIALIZED_HISTORY_VERSION,
+      entries: entries.slice(start, end) as ISerializedCommand[],
+      currentIndex: this.currentIndex - start,
+    }
+  }
+
+  restore(history: ISerializedHistory, context: ICommandContext): boolean {
+    if (!isSerializedHistory(history)) {
+      this.logger.warn('Cannot restore history: unrecognized format')
+      return false
+    }
+
+    const commands = history.entries.map((json) => {
+      try {
+        return commandRegistry.deserialize(json, context)
+      } catch (error) {
+        if (!(error instanceof CommandSerializationError)) throw error
+        this.logger.warn(`Skipped history entry: ${error.message}`)
+        return null
+      }
+    })
+    const index = Math.max(-1, Math.min(Math.trunc(history.currentIndex), commands.length - 1))
+    const { start, end } = getReachableRange(commands, index)
+
+    this.history = commands.slice(start, end) as ICommand[]
+    this.currentIndex = index - start
+    this.stopMerging()
+    this.trimHistory()
+    this.logger.debug(`History restored: ${this.history.length} entries`)
+    this.notifyListeners()
+    return commands.every(Boolean)
+  }
+
+  setStore(store: IHistoryStore | null): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer)
+      this.persistTimer = null
+    }
+    this.store = store
+  }
+
+  async loadFromStore(context: ICommandContext): Promise<boolean> {
+    if (!this.store) return false
+    const history = await this.store.load()
+    if (!history) return false
+    this.restore(history, context)
+    return true
+  }
+
+  async flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer)
+      this.persistTimer = null
+    }
+    if (!this.store) return
+    try {
+      await this.store.save(this.serialize())
+    } catch (error) {
+      this.logger.warn('Failed to persist history', error)
+    }
+  }
+
+  private schedulePersist(): void {
+    if (!this.store || this.persistTimer) return
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null
+      void this.flush()
+    }, this.persistDelay)
   }
 
   canUndo(): boolean {
@@ -144,6 +325,7 @@ export class HistoryService implements IHistoryService {
   clear(): void {
     this.history = []
     this.currentIndex = -1
+    this.stopMerging()
     this.logger.debug('History cleared')
     this.notifyListeners()
   }
@@ -161,13 +343,7 @@ export class HistoryService implements IHistoryService {
    */
   setMaxHistorySize(size: number): void {
     this.maxHistorySize = Math.max(1, size)
-
-    while (this.history.length > this.maxHistorySize) {
-      this.history.shift()
-      if (this.currentIndex >= 0) {
-        this.currentIndex--
-      }
-    }
+    this.trimHistory()
   }
 
   /**
@@ -176,4 +352,52 @@ export class HistoryService implements IHistoryService {
   getMaxHistorySize(): number {
     return this.maxHistorySize
   }
+
+  /**
+   * 设置历史记录占用内存上限（字节）
+   */
+  setMaxHistoryMemory(bytes: number): void {
+    this.maxHistoryMemory = Math.max(0, bytes)
+    this.trimHistory()
+  }
+
+  /**
+   * 估算历史记录当前占用的内存（字节）
+   */
+  getMemorySize(): number {
+    return this.history.reduce((total, command) => total + getCommandMemorySize(command), 0)
+  }
+
+  /**
+   * 设置合并窗口（毫秒），0 表示不合并
+   */
+  setMergeWindow(ms: number): void {
+    this.mergeWindow = Math.max(0, ms)
+  }
+}
+
+/**
+ * 可到达的记录范围：撤销侧无法恢复的记录之前的记录无法再撤销到，
+ * 重做侧从第一条无法恢复的记录起无法再重做
+ */
+function getReachableRange(
+  entries: ReadonlyArray<unknown>,
+  currentIndex: number
+): { start: number; end: number } {
+  let start = 0
+  for (let i = 0; i <= currentIndex; i++) {
+    if (!entries[i]) start = i + 1
+  }
+  let end = entries.length
+  for (let i = currentIndex + 1; i < entries.length; i++) {
+    if (!entries[i]) {
+      end = i
+      break
+    }
+  }
+  return { start, end }
+}
+
+function getCommandMemorySize(command: ICommand): number {
+  return command.getMemorySize?.() ?? DEFAULT_COMMAND_MEMORY_SIZE
 }
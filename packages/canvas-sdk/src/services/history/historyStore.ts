@@ -0,0 +1,91 @@
+/**
+ * 历史记录存储
+ * 序列化后的撤销栈可以保存到任意存储，页面重新加载后恢复
+ */
+
+import type { ISerializedCommand } from './commandRegistry'
+
+/**
+ * 当前历史记录格式版本
+ */
+export const SERIALIZED_HISTORY_VERSION = 1
+
+/**
+ * 序列化后的历史记录
+ */
+export interface ISerializedHistory {
+  version: number
+  entries: ISerializedCommand[]
+  /** 最近一次执行的记录下标，-1 表示全部已撤销 */
+  currentIndex: number
+}
+
+/**
+ * 历史记录存储接口
+ */
+export interface IHistoryStore {
+  load(): Promise<ISerializedHistory | null>
+  save(history: ISerializedHistory): Promise<void>
+  clear(): Promise<void>
+}
+
+/**
+ * 检查数据是否为可识别的历史记录
+ */
+export function isSerializedHistory(value: unknown): value is ISerializedHistory {
+  if (typeof value !== 'object' || value === null) return false
+  const history = value as Record<string, unknown>
+  return (
+    history.version === SERIALIZED_HISTORY_VERSION &&
+    Array.isArray(history.entries) &&
+    typeof history.currentIndex === 'number'
+  )
+}
+
+/**
+ * 内存存储：保存副本，用于测试或同一页面内切换文档
+ */
+export class MemoryHistoryStore implements IHistoryStore {
+  private data: string | null = null
+
+  async load(): Promise<ISerializedHistory | null> {
+    return this.data ? (JSON.parse(this.data) as ISerializedHistory) : null
+  }
+
+  async save(history: ISerializedHistory): Promise<void> {
+    this.data = JSON.stringify(history)
+  }
+
+  async clear(): Promise<void> {
+    this.data = null
+  }
+}
+
+/**
+ * localStorage 存储：按键保存，页面重新加载后仍可撤销
+ */
+export class LocalStorageHistoryStore implements IHistoryStore {
+  constructor(
+    private readonly key: string,
+    private readonly storage: Storage = globalThis.localStorage
+  ) {}
+
+  async load(): Promise<ISerializedHistory | null> {
+    const raw = this.storage.getItem(this.key)
+    if (!raw) return null
+    try {
+      const history = JSON.parse(raw) as unknown
+      return isSerializedHistory(history) ? history : null
+    } catch {
+      return null
+    }
+  }
+
+  async save(history: ISerializedHistory): Promise<void> {
+    this.storage.setItem(this.key, JSON.stringify(history))
+  }
+
+  async clear(): Promise<void> {
+    this.storage.removeItem(this.key)
+  }
+}
@@ -4,7 +4,32 @@
 
 // 导入服务不需要DI注册，作为工具类使用
 import { createDecorator } from '../../di'
-import { type ShapeEntity, ShapeEntityFactory } from '../../models/entities/Shape'
+import { getRunsText, normalizeRuns } from '../../models/entities/RichText'
+import {
+  type ConnectorArrowhead,
+  type ConnectorRouting,
+  DEFAULT_FREEHAND_BRUSH,
+  type IConnectorEndpoint,
+  type IConnectorLabel,
+  type IFreehandBrush,
+  type IFreehandPoint,
+  type ITextEntity,
+  type ITextRun,
+  isCustomShape,
+  type ShapeEntity,
+  ShapeEntityFactory,
+} from '../../models/entities/Shape'
+import { shapeTypeRegistry } from '../../models/entities/ShapeTypeRegistry'
+import { createConnectorPathData } from '../../views/ConnectorGeometry'
+import { createFreehandPathData } from '../../views/ShapeGeometry'
+import {
+  type FormatOptions,
+  type FormatRegistry,
+  formatRegistry,
+  type IFileFormat,
+  type IFormatSource,
+} from '../format/formatRegistry'
+import { SVGImporter } from './svgImporter'
 
 /**
  * 导入结果接口
@@ -30,10 +55,10 @@ export interface IImportService {
   // JSON 导入
   importFromJSON(jsonString: string): Promise<IImportResult>
 
-  // 文件导入
-  importFromFile(file: File): Promise<IImportResult>
+  // 文件导入，按内容识别格式
+  importFromFile(file: File, options?: FormatOptions): Promise<IImportResult>
 
-  // SVG 导入 (基础支持)
+  // SVG 导入
   importFromSVG(svgString: string): Promise<IImportResult>
 
   // 图片导入 (转换为背景形状)
@@ -42,6 +67,9 @@ export interface IImportService {
   // 验证文件格式
   validateFileFormat(file: File): boolean
 
+  // 可导入的格式，包括插件贡献的格式
+  getImportFormats(): IFileFormat[]
+
   dispose(): void
 }
 
@@ -54,7 +82,8 @@ type ShapeData = {
   radius?: number
   radiusX?: number
   radiusY?: number
-  points?: Array<{ x: number; y: number }>
+  points?: Array<{ x: number; y: number; pressure?: number }>
+  brush?: Partial<IFreehandBrush>
   childrenIds?: string[]
   closed?: boolean
   outerRadius?: number
@@ -62,9 +91,28 @@ type ShapeData = {
   startAngle?: number
   pathData?: string
   content?: string
+  runs?: ITextRun[]
   fontSize?: number
   fontFamily?: string
+  fontWeight?: 'normal' | 'bold'
+  textAlign?: ITextEntity['textAlign']
+  width?: number
   src?: string
+  start?: IConnectorEndpoint
+  end?: IConnectorEndpoint
+  routing?: ConnectorRouting
+  startArrowhead?: ConnectorArrowhead
+  endArrowhead?: ConnectorArrowhead
+  label?: IConnectorLabel
+  waypoints?: Array<{ x: number; y: number }>
+  name?: string
+  clipContent?: boolean
+  url?: string
+  title?: string
+  description?: string
+  data?: Record<string, unknown>
+  thumbnail?: string
+  embedUrl?: string
 }
 
 type ImportPayload = {
@@ -78,16 +126,8 @@ const isRecord = (value: unknown): value is Record<string, unknown> =>
 
 export const IImportService = createDecorator<IImportService>('ImportService')
 
-/**
- * 支持的文件格式
- */
-export enum SupportedFormat {
-  JSON = 'json',
-  SVG = 'svg',
-  PNG = 'png',
-  JPEG = 'jpeg',
-  JPG = 'jpg',
-}
+/** 由 ImportService 自身实现导入的内置格式 */
+const BUILTIN_IMPORT_FORMATS = ['json', 'svg', 'png', 'jpeg']
 
 /**
  * 导入服务实现
@@ -95,6 +135,8 @@ export enum SupportedFormat {
 export class ImportService implements IImportService {
   readonly _serviceBrand: undefined
 
+  constructor(private readonly formats: FormatRegistry = formatRegistry) {}
+
   /**
    * 从JSON导入
    */
@@ -112,6 +154,7 @@ export class ImportService implements IImportService {
 
       const shapes: ShapeEntity[] = []
       const errors: string[] = []
+      const idMap = new Map<string, string>()
 
       data.shapes.forEach((shapeData, index: number) => {
         try {
@@ -120,6 +163,7 @@ export class ImportService implements IImportService {
             : null
           if (shape) {
             shapes.push(shape)
+            idMap.set((shapeData as ShapeData).id, shape.id)
           } else {
             errors.push(`Failed to create shape at index ${index}`)
           }
@@ -128,6 +172,8 @@ export class ImportService implements IImportService {
         }
       })
 
+      this.remapShapeReferences(shapes, idMap)
+
       return {
         success: errors.length === 0,
         shapes,
@@ -149,62 +195,50 @@ export class ImportService implements IImportService {
 
   /**
    * 从文件导入
+   * 先按内容嗅探识别格式，无法识别时才依据扩展名与 MIME 类型，再分发给格式的导入函数
    */
-  async importFromFile(file: File): Promise<IImportResult> {
-    if (!this.validateFileFormat(file)) {
-      return {
-        success: false,
-        shapes: [],
-        errors: [`Unsupported file format: ${file.type}`],
-      }
-    }
-
-    const extension = file.name.split('.').pop()?.toLowerCase()
-
+  async importFromFile(file: File, options?: FormatOptions): Promise<IImportResult> {
     try {
-      switch (extension) {
-        case 'json': {
-          const jsonContent = await this.readFileAsText(file)
-          return this.importFromJSON(jsonContent)
-        }
-
-        case 'svg': {
-          const svgContent = await this.readFileAsText(file)
-          return this.importFromSVG(svgContent)
+      const source = await this.readFileSource(file)
+      const format = this.formats.detect(source, (candidate) => this.canImport(candidate))
+      if (!format) {
+        return {
+          success: false,
+          shapes: [],
+          errors: [`Unsupported file format: ${file.name}`],
         }
+      }
 
-        case 'png':
-        case 'jpg':
-        case 'jpeg':
-          return this.importImage(file)
+      const resolved = this.formats.resolveOptions(format.importOptions, options)
+      const result = format.import
+        ? await format.import(source, resolved)
+        : await this.importBuiltinFormat(format.id, source)
 
-        default:
-          return {
-            success: false,
-            shapes: [],
-            errors: [`Unsupported file extension: ${extension}`],
-          }
+      return {
+        ...result,
+        metadata: { originalFormat: format.id, ...result.metadata, fileName: file.name },
       }
     } catch (error) {
       return {
         success: false,
         shapes: [],
-        errors: [`File reading error: ${error}`],
+        errors: [`File import error: ${error}`],
       }
     }
   }
 
   /**
-   * 从SVG导入 (基础支持)
+   * 从SVG导入
+   * 按文档顺序遍历元素树，解析变换、继承样式、CSS 规则与 viewBox，<g> 映射为编组；
+   * 不支持的特性不会被静默丢弃，而是记录在 errors 中
    */
   async importFromSVG(svgString: string): Promise<IImportResult> {
     try {
-      // 基础的SVG解析，可以扩展更复杂的解析逻辑
       const parser = new DOMParser()
       const svgDoc = parser.parseFromString(svgString, 'image/svg+xml')
       const svgElement = svgDoc.querySelector('svg')
 
-      if (!svgElement) {
+      if (!svgElement || svgDoc.querySelector('parsererror')) {
         return {
           success: false,
           shapes: [],
@@ -212,73 +246,7 @@ export class ImportService implements IImportService {
         }
       }
 
-      const shapes: ShapeEntity[] = []
-      const errors: string[] = []
-
-      // 解析基本形状
-      const rects = svgElement.querySelectorAll('rect')
-      const circles = svgElement.querySelectorAll('circle')
-      const paths = svgElement.querySelectorAll('path')
-      const ellipses = svgElement.querySelectorAll('ellipse')
-      const polygons = svgElement.querySelectorAll('polygon')
-      const images = svgElement.querySelectorAll('image')
-
-      // 转换矩形
-      rects.forEach((rect, index) => {
-        try {
-          const shape = this.createRectangleFromSVG(rect)
-          if (shape) shapes.push(shape)
-        } catch (error) {
-          errors.push(`Error parsing rectangle ${index}: ${error}`)
-        }
-      })
-
-      // 转换圆形
-      circles.forEach((circle, index) => {
-        try {
-          const shape = this.createCircleFromSVG(circle)
-          if (shape) shapes.push(shape)
-        } catch (error) {
-          errors.push(`Error parsing circle ${index}: ${error}`)
-        }
-      })
-
-      ellipses.forEach((ellipse, index) => {
-        try {
-          const shape = this.createEllipseFromSVG(ellipse)
-          if (shape) shapes.push(shape)
-        } catch (error) {
-          errors.push(`Error parsing ellipse ${index}: ${error}`)
-        }
-      })
-
-      polygons.forEach((polygon, index) => {
-        try {
-          const shape = this.createPolygonFromSVG(polygon)
-          if (shape) shapes.push(shape)
-        } catch (error) {
-          errors.push(`Error parsing polygon ${index}: ${error}`)
-        }
-      })
-
-      // 转换路径
-      paths.forEach((path, index) => {
-        try {
-          const shape = this.createPathFromSVG(path)
-          if (shape) shapes.push(shape)
-        } catch (error) {
-          errors.push(`Error parsing path ${index}: ${error}`)
-        }
-      })
-
-      images.forEach((image, index) => {
-        try {
-          const shape = this.createImageFromSVG(image)
-          if (shape) shapes.push(shape)
-        } catch (error) {
-          errors.push(`Error parsing image ${index}: ${error}`)
-        }
-      })
+      const { shapes, errors } = new SVGImporter().import(svgElement)
 
       return {
         success: true,
@@ -332,28 +300,54 @@ export class ImportService implements IImportService {
   }
 
   /**
-   * 验证文件格式
+   * 验证文件格式，只检查扩展名与 MIME 类型
    */
   validateFileFormat(file: File): boolean {
-    const supportedTypes = [
-      'application/json',
-      'image/svg+xml',
-      'text/svg+xml',
-      'image/png',
-      'image/jpeg',
-      'image/jpg',
-    ]
-
-    const supportedExtensions = ['json', 'svg', 'png', 'jpg', 'jpeg']
-    const extension = file.name.split('.').pop()?.toLowerCase()
+    const extension = file.name.includes('.')
+      ? file.name.split('.').pop()?.toLowerCase()
+      : undefined
+    const mimeType = file.type.toLowerCase()
+
+    return this.getImportFormats().some(
+      (format) =>
+        (extension !== undefined && format.extensions.includes(extension)) ||
+        (mimeType !== '' && format.mimeTypes.includes(mimeType))
+    )
+  }
+
+  /**
+   * 可导入的格式
+   */
+  getImportFormats(): IFileFormat[] {
+    return this.formats.getFormats().filter((format) => this.canImport(format))
+  }
+
+  // === 私有方法 ===
 
+  private canImport(format: IFileFormat): boolean {
     return (
-      supportedTypes.includes(file.type) ||
-      (extension ? supportedExtensions.includes(extension) : false)
+      typeof format.import === 'function' ||
+      (!format.pluginId && BUILTIN_IMPORT_FORMATS.includes(format.id))
     )
   }
 
-  // === 私有方法 ===
+  private importBuiltinFormat(id: string, source: IFormatSource): Promise<IImportResult> {
+    switch (id) {
+      case 'json':
+        return this.importFromJSON(source.text())
+      case 'svg':
+        return this.importFromSVG(source.text())
+      case 'png':
+      case 'jpeg':
+        return this.importImage(source.file)
+      default:
+        return Promise.resolve({
+          success: false,
+          shapes: [],
+          errors: [`Format '${id}' cannot be imported`],
+        })
+    }
+  }
 
   /**
    * 从数据创建形状
@@ -414,12 +408,38 @@ export class ImportService implements IImportService {
             data.style || {}
           )
 
-        case 'text':
-          return ShapeEntityFactory.createText(
-            data.content || '',
+        case 'freehand': {
+          const samples: IFreehandPoint[] = (Array.isArray(data.points) ? data.points : []).map(
+            (point) => ({ ...point, pressure: point.pressure ?? 0.5 })
+          )
+          const brush = { ...DEFAULT_FREEHAND_BRUSH, ...data.brush }
+          return ShapeEntityFactory.createFreehand(
+            samples,
+            brush,
+            data.pathData || createFreehandPathData(samples, brush),
             data.transform?.position || { x: 0, y: 0 },
             data.style || {}
           )
+        }
+
+        case 'text': {
+          // 内容以片段为准，保持与 runs 一致
+          const runs = Array.isArray(data.runs) ? normalizeRuns(data.runs) : undefined
+          const text = ShapeEntityFactory.createText(
+            runs ? getRunsText(runs) : data.content || '',
+            data.transform?.position || { x: 0, y: 0 },
+            data.style || {}
+          )
+          return {
+            ...text,
+            runs,
+            fontSize: data.fontSize || text.fontSize,
+            fontFamily: data.fontFamily || text.fontFamily,
+            fontWeight: data.fontWeight || text.fontWeight,
+            textAlign: data.textAlign || text.textAlign,
+            width: data.width,
+          }
+        }
 
         case 'image':
           return ShapeEntityFactory.createImage(
@@ -437,8 +457,97 @@ export class ImportService implements IImportService {
             data.style || {}
           )
 
-        default:
-          return null
+        case 'connector': {
+          const position = data.transform?.position || { x: 0, y: 0 }
+          const connector = ShapeEntityFactory.createConnector(
+            position,
+            position,
+            data.style || {},
+            data.routing,
+            data.startArrowhead,
+            data.endArrowhead
+          )
+          const start = data.start ?? connector.start
+          const end = data.end ?? connector.end
+          const waypoints = Array.isArray(data.waypoints)
+            ? data.waypoints
+            : [{ ...start.point }, { ...end.point }]
+          return {
+            ...connector,
+            start,
+            end,
+            label: data.label,
+            waypoints,
+            pathData: data.pathData || createConnectorPathData(waypoints, connector.routing),
+          }
+        }
+
+        case 'diamond':
+          return ShapeEntityFactory.createDiamond(
+            data.transform?.position || { x: 0, y: 0 },
+            data.size || { width: 100, height: 100 },
+            data.style || {}
+          )
+
+        case 'sticky': {
+          const sticky = ShapeEntityFactory.createSticky(
+            data.content || '',
+            data.transform?.position || { x: 0, y: 0 },
+            data.size || { width: 200, height: 200 },
+            data.style || {}
+          )
+          return {
+            ...sticky,
+            fontSize: data.fontSize || sticky.fontSize,
+            fontFamily: data.fontFamily || sticky.fontFamily,
+            textAlign:
+              data.textAlign && data.textAlign !== 'justify' ? data.textAlign : sticky.textAlign,
+          }
+        }
+
+        case 'link': {
+          const link = ShapeEntityFactory.createLink(
+            data.url || '',
+            data.transform?.position || { x: 0, y: 0 },
+            data.size || { width: 320, height: 96 },
+            data.style || {}
+          )
+          return {
+            ...link,
+            title: data.title,
+            description: data.description,
+            thumbnail: data.thumbnail,
+            embedUrl: data.embedUrl,
+          }
+        }
+
+        case 'frame':
+          return {
+            ...ShapeEntityFactory.createFrame(
+              data.name || 'Frame',
+              data.transform?.position || { x: 0, y: 0 },
+              data.size || { width: 400, height: 300 },
+              data.style || {},
+              data.childrenIds || []
+            ),
+            clipContent: data.clipContent !== false,
+          }
+
+        default: {
+          // 未注册的自定义类型原样保留数据
+          if (!isCustomShape(data)) return null
+          const json = data.data ?? {}
+          return ShapeEntityFactory.createCustom(
+            data.type,
+            data.transform?.position || { x: 0, y: 0 },
+            data.size || { width: 100, height: 100 },
+            shapeTypeRegistry.normalizeData(
+              data.type,
+              shapeTypeRegistry.deserializeData(data.type, json)
+            ),
+            data.style || {}
+          )
+        }
       }
     } catch {
       return null
@@ -446,110 +555,33 @@ export class ImportService implements IImportService {
   }
 
   /**
-   * 从SVG矩形创建形状
-   */
-  private createRectangleFromSVG(rect: SVGRectElement): ShapeEntity | null {
-    const x = parseFloat(rect.getAttribute('x') || '0')
-    const y = parseFloat(rect.getAttribute('y') || '0')
-    const width = parseFloat(rect.getAttribute('width') || '100')
-    const height = parseFloat(rect.getAttribute('height') || '100')
-    const fill = rect.getAttribute('fill') || 'black'
-    const stroke = rect.getAttribute('stroke') || 'none'
-    const strokeWidth = parseFloat(rect.getAttribute('stroke-width') || '0')
-
-    return ShapeEntityFactory.createRectangle(
-      { x, y },
-      { width, height },
-      {
-        fillColor: fill,
-        strokeColor: stroke,
-        strokeWidth,
-      }
-    )
-  }
-
-  /**
-   * 从SVG圆形创建形状
+   * 导入的形状使用新 id，连接线的绑定与画框的子形状改为指向新 id；
+   * 绑定目标不在导入内容中时端点改为自由，画框只保留导入的子形状
    */
-  private createCircleFromSVG(circle: SVGCircleElement): ShapeEntity | null {
-    const cx = parseFloat(circle.getAttribute('cx') || '0')
-    const cy = parseFloat(circle.getAttribute('cy') || '0')
-    const r = parseFloat(circle.getAttribute('r') || '50')
-    const fill = circle.getAttribute('fill') || 'black'
-    const stroke = circle.getAttribute('stroke') || 'none'
-    const strokeWidth = parseFloat(circle.getAttribute('stroke-width') || '0')
-
-    return ShapeEntityFactory.createCircle({ x: cx, y: cy }, r, {
-      fillColor: fill,
-      strokeColor: stroke,
-      strokeWidth,
-    })
-  }
-
-  /**
-   * 从SVG路径创建形状
-   */
-  private createPathFromSVG(path: SVGPathElement): ShapeEntity | null {
-    const pathData = path.getAttribute('d') || 'M 0 0'
-    const fill = path.getAttribute('fill') || 'none'
-    const stroke = path.getAttribute('stroke') || 'black'
-    const strokeWidth = parseFloat(path.getAttribute('stroke-width') || '1')
-
-    return ShapeEntityFactory.createPath(
-      pathData,
-      { x: 0, y: 0 },
-      {
-        fillColor: fill,
-        strokeColor: stroke,
-        strokeWidth,
+  private remapShapeReferences(shapes: ShapeEntity[], idMap: Map<string, string>): void {
+    const byId = new Map(shapes.map((shape) => [shape.id, shape]))
+    const remap = (endpoint: IConnectorEndpoint): IConnectorEndpoint => {
+      if (!endpoint.shapeId) return endpoint
+      const shapeId = idMap.get(endpoint.shapeId)
+      return shapeId ? { ...endpoint, shapeId } : { point: endpoint.point }
+    }
+    for (const shape of shapes) {
+      if (shape.type === 'connector') {
+        shape.start = remap(shape.start)
+        shape.end = remap(shape.end)
+      } else if (shape.type === 'frame') {
+        shape.childrenIds = shape.childrenIds
+          .map((id) => idMap.get(id))
+          .filter((id): id is string => !!id)
+        for (const id of shape.childrenIds) {
+          const child = byId.get(id)
+          if (!child) continue
+          child.metadata = { ...(child.metadata ?? {}), frameId: shape.id }
+          // 画框绘制在子形状之下
+          shape.zIndex = Math.min(shape.zIndex, child.zIndex - 1)
+        }
       }
-    )
-  }
-
-  private createEllipseFromSVG(ellipse: SVGEllipseElement): ShapeEntity | null {
-    const cx = parseFloat(ellipse.getAttribute('cx') || '0')
-    const cy = parseFloat(ellipse.getAttribute('cy') || '0')
-    const rx = parseFloat(ellipse.getAttribute('rx') || '50')
-    const ry = parseFloat(ellipse.getAttribute('ry') || '30')
-    const fill = ellipse.getAttribute('fill') || 'black'
-    const stroke = ellipse.getAttribute('stroke') || 'none'
-    const strokeWidth = parseFloat(ellipse.getAttribute('stroke-width') || '0')
-    return ShapeEntityFactory.createEllipse({ x: cx, y: cy }, rx, ry, {
-      fillColor: fill,
-      strokeColor: stroke,
-      strokeWidth,
-    })
-  }
-
-  private createPolygonFromSVG(polygon: SVGPolygonElement): ShapeEntity | null {
-    const pointsAttr = polygon.getAttribute('points') || ''
-    const points = pointsAttr
-      .trim()
-      .split(/\s+/)
-      .map((pair) => pair.split(',').map(Number))
-      .filter((arr) => arr.length === 2 && !Number.isNaN(arr[0]) && !Number.isNaN(arr[1]))
-      .map(([x, y]) => ({ x, y }))
-    if (points.length < 3) return null
-    const bounds = this.getPointsBounds(points)
-    const normalized = points.map((p) => ({ x: p.x - bounds.x, y: p.y - bounds.y }))
-    const fill = polygon.getAttribute('fill') || 'black'
-    const stroke = polygon.getAttribute('stroke') || 'none'
-    const strokeWidth = parseFloat(polygon.getAttribute('stroke-width') || '0')
-    return ShapeEntityFactory.createPolygon(
-      normalized,
-      { x: bounds.x, y: bounds.y },
-      { fillColor: fill, strokeColor: stroke, strokeWidth },
-      true
-    )
-  }
-
-  private createImageFromSVG(image: SVGImageElement): ShapeEntity | null {
-    const x = parseFloat(image.getAttribute('x') || '0')
-    const y = parseFloat(image.getAttribute('y') || '0')
-    const width = parseFloat(image.getAttribute('width') || '100')
-    const height = parseFloat(image.getAttribute('height') || '100')
-    const href = image.getAttribute('href') || image.getAttribute('xlink:href') || ''
-    return ShapeEntityFactory.createImage(href, { x, y }, { width, height }, { opacity: 1 })
+    }
   }
 
   private getImageSize(url: string): Promise<{ width: number; height: number }> {
@@ -565,35 +597,31 @@ export class ImportService implements IImportService {
   }
 
   /**
-   * 读取文件为文本
+   * 读取文件内容供格式识别与导入，文本按需解码
    */
-  private readFileAsText(file: File): Promise<string> {
+  private async readFileSource(file: File): Promise<IFormatSource> {
+    const bytes = new Uint8Array(await this.readFileAsArrayBuffer(file))
+    let text: string | undefined
+    return {
+      file,
+      name: file.name,
+      mimeType: file.type,
+      bytes,
+      text: () => {
+        if (text === undefined) text = new TextDecoder().decode(bytes)
+        return text
+      },
+    }
+  }
+
+  private readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader()
-      reader.onload = () => resolve(reader.result as string)
+      reader.onload = () => resolve(reader.result as ArrayBuffer)
       reader.onerror = () => reject(reader.error)
-      reader.readAsText(file)
+      reader.readAsArrayBuffer(file)
     })
   }
 
-  private getPointsBounds(points: Array<{ x: number; y: number }>): {
-    x: number
-    y: number
-    width: number
-    height: number
-  } {
-    let minX = Infinity
-    let minY = Infinity
-    let maxX = -Infinity
-    let maxY = -Infinity
-    for (const p of points) {
-      minX = Math.min(minX, p.x)
-      minY = Math.min(minY, p.y)
-      maxX = Math.max(maxX, p.x)
-      maxY = Math.max(maxY, p.y)
-    }
-    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
-  }
-
   dispose(): void {}
 }
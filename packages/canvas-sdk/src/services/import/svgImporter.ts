@@ -0,0 +1,945 @@
+/**
+ * SVG 导入器 - 按文档顺序遍历 SVG 树
+ * 解析继承的表现属性、CSS 规则与变换，将 <g> 映射为编组，不支持的特性记录到错误列表
+ */
+
+import { SVGPathData } from '@sky-canvas/render-engine'
+import {
+  type IGroupEntity,
+  type IPoint,
+  type IStyle,
+  type ITextEntity,
+  type ShapeEntity,
+  ShapeEntityFactory,
+} from '../../models/entities/Shape'
+import { RenderableShapeView } from '../../views/RenderableShapeView'
+
+/**
+ * 仿射矩阵 [a, b, c, d, e, f]，与 SVG matrix() 的参数顺序一致
+ */
+type Matrix = [number, number, number, number, number, number]
+
+/**
+ * 计算后的样式（已处理继承）
+ */
+interface IComputedStyle {
+  fill: string
+  stroke: string
+  strokeWidth: number
+  fillOpacity: number
+  strokeOpacity: number
+  opacity: number
+  dashArray: number[] | undefined
+  color: string
+  fontSize: number
+  fontFamily: string
+  fontWeight: string
+  textAnchor: string
+  visibility: string
+}
+
+interface ICSSRule {
+  selector: string
+  specificity: number
+  order: number
+  declarations: Record<string, string>
+}
+
+/**
+ * SVG 导入结果（由 ImportService 包装为 IImportResult）
+ */
+export interface ISVGImportOutput {
+  shapes: ShapeEntity[]
+  errors: string[]
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+const INHERITED_PROPERTIES = new Set([
+  'fill',
+  'stroke',
+  'stroke-width',
+  'fill-opacity',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'color',
+  'font-size',
+  'font-family',
+  'font-weight',
+  'text-anchor',
+  'visibility',
+])
+
+const STYLE_PROPERTIES = new Set([
+  ...INHERITED_PROPERTIES,
+  'opacity',
+  'display',
+  'clip-path',
+  'mask',
+  'filter',
+  'marker-start',
+  'marker-mid',
+  'marker-end',
+])
+
+/** 会被忽略但需要告知用户的属性 */
+const UNSUPPORTED_PROPERTIES = [
+  'clip-path',
+  'mask',
+  'filter',
+  'marker-start',
+  'marker-mid',
+  'marker-end',
+]
+
+/** 不直接渲染的容器或元数据元素 */
+const NON_RENDERED_ELEMENTS = new Set([
+  'defs',
+  'symbol',
+  'style',
+  'title',
+  'desc',
+  'metadata',
+  'linearGradient',
+  'radialGradient',
+  'pattern',
+  'clipPath',
+  'mask',
+  'marker',
+  'filter',
+  'script',
+])
+
+const LENGTH_UNITS: Record<string, number> = {
+  px: 1,
+  pt: 4 / 3,
+  pc: 16,
+  mm: 96 / 25.4,
+  cm: 96 / 2.54,
+  in: 96,
+}
+
+const INITIAL_STYLE: IComputedStyle = {
+  fill: 'black',
+  stroke: 'none',
+  strokeWidth: 1,
+  fillOpacity: 1,
+  strokeOpacity: 1,
+  opacity: 1,
+  dashArray: undefined,
+  color: 'black',
+  fontSize: 16,
+  fontFamily: 'Arial',
+  fontWeight: 'normal',
+  textAnchor: 'start',
+  visibility: 'visible',
+}
+
+/**
+ * SVG 导入器，每次导入使用新的实例
+ */
+export class SVGImporter {
+  private shapes: ShapeEntity[] = []
+  private errors: string[] = []
+  private rules: ICSSRule[] = []
+  private activeUses = new Set<Element>()
+  private reported = new Set<string>()
+  private zIndex = 0
+  private document: Document | null = null
+
+  import(root: SVGSVGElement): ISVGImportOutput {
+    this.document = root.ownerDocument
+    this.collectStyleSheets(root)
+    const style = this.computeStyle(root, INITIAL_STYLE)
+    const matrix = this.getViewportMatrix(root, true)
+    for (const child of Array.from(root.children)) {
+      this.walk(child, matrix, style)
+    }
+    return { shapes: this.shapes, errors: this.errors }
+  }
+
+  // === 遍历 ===
+
+  /**
+   * 处理单个元素，返回生成的顶层形状
+   */
+  private walk(
+    element: Element,
+    parentMatrix: Matrix,
+    parentStyle: IComputedStyle
+  ): ShapeEntity | null {
+    const tag = element.localName
+    if (NON_RENDERED_ELEMENTS.has(tag)) return null
+
+    const style = this.computeStyle(element, parentStyle)
+    if (this.getProperty(element, 'display') === 'none') return null
+
+    const matrix = multiply(parentMatrix, parseTransform(element.getAttribute('transform')))
+    this.reportUnsupportedProperties(element)
+
+    try {
+      switch (tag) {
+        case 'g':
+        case 'a':
+          return this.createGroup(Array.from(element.children), matrix, style)
+        case 'svg':
+          return this.createGroup(
+            Array.from(element.children),
+            multiply(matrix, this.getViewportMatrix(element, false)),
+            style
+          )
+        case 'use':
+          return this.createUse(element, matrix, style)
+        case 'switch':
+          this.report(`<switch> is not supported; only the first child was imported`)
+          return element.firstElementChild
+            ? this.walk(element.firstElementChild, matrix, style)
+            : null
+        default: {
+          const shape = this.createShape(element, matrix, style)
+          if (shape) this.addShape(shape, style)
+          return shape
+        }
+      }
+    } catch (error) {
+      this.errors.push(`Error parsing <${tag}>: ${error}`)
+      return null
+    }
+  }
+
+  private createGroup(
+    children: Element[],
+    matrix: Matrix,
+    style: IComputedStyle
+  ): IGroupEntity | null {
+    const members = children
+      .map((child) => this.walk(child, matrix, style))
+      .filter((shape): shape is ShapeEntity => shape !== null)
+    if (members.length === 0) return null
+
+    const bounds = getShapesBounds(members)
+    const group = ShapeEntityFactory.createGroup(
+      members.map((shape) => shape.id),
+      { x: bounds.x, y: bounds.y },
+      { width: bounds.width, height: bounds.height }
+    )
+    for (const member of members) {
+      member.metadata = { ...(member.metadata ?? {}), groupId: group.id }
+    }
+    group.zIndex = this.zIndex++
+    this.shapes.push(group)
+    return group
+  }
+
+  private createUse(element: Element, matrix: Matrix, style: IComputedStyle): ShapeEntity | null {
+    const href = element.getAttribute('href') || element.getAttribute('xlink:href') || ''
+    const target = href.startsWith('#') ? element.ownerDocument.getElementById(href.slice(1)) : null
+    if (!target) {
+      this.report(`<use> reference "${href}" could not be resolved`)
+      return null
+    }
+    if (this.activeUses.has(target)) {
+      this.report(`Circular <use> reference "${href}" was skipped`)
+      return null
+    }
+
+    const offset = translation(this.length(element, 'x', 0), this.length(element, 'y', 0))
+    const useMatrix = multiply(matrix, offset)
+
+    this.activeUses.add(target)
+    try {
+      if (target.localName === 'symbol') {
+        const symbolStyle = this.computeStyle(target, style)
+        const viewBox = parseViewBox(target.getAttribute('viewBox'))
+        const width = this.length(element, 'width', viewBox?.width ?? 0)
+        const height = this.length(element, 'height', viewBox?.height ?? 0)
+        const symbolMatrix = viewBox
+          ? multiply(useMatrix, viewBoxMatrix(viewBox, width, height))
+          : useMatrix
+        return this.createGroup(Array.from(target.children), symbolMatrix, symbolStyle)
+      }
+      return this.walk(target, useMatrix, style)
+    } finally {
+      this.activeUses.delete(target)
+    }
+  }
+
+  private addShape(shape: ShapeEntity, style: IComputedStyle): void {
+    shape.zIndex = this.zIndex++
+    shape.visible = style.visibility !== 'hidden' && style.visibility !== 'collapse'
+    this.shapes.push(shape)
+  }
+
+  // === 形状 ===
+
+  private createShape(element: Element, matrix: Matrix, style: IComputedStyle): ShapeEntity | null {
+    const tag = element.localName
+    switch (tag) {
+      case 'rect':
+        return this.createRect(element, matrix, style)
+      case 'circle': {
+        const r = this.length(element, 'r', 0)
+        return this.createEllipse(element, matrix, style, r, r)
+      }
+      case 'ellipse':
+        return this.createEllipse(
+          element,
+          matrix,
+          style,
+          this.length(element, 'rx', 0),
+          this.length(element, 'ry', 0)
+        )
+      case 'line':
+        return this.createPolyline(
+          [
+            { x: this.length(element, 'x1', 0), y: this.length(element, 'y1', 0) },
+            { x: this.length(element, 'x2', 0), y: this.length(element, 'y2', 0) },
+          ],
+          matrix,
+          style,
+          false
+        )
+      case 'polyline':
+      case 'polygon':
+        return this.createPolyline(
+          parsePoints(element.getAttribute('points') || ''),
+          matrix,
+          style,
+          tag === 'polygon'
+        )
+      case 'path':
+        return this.createPath(element.getAttribute('d') || '', matrix, style)
+      case 'text':
+        return this.createText(element, matrix, style)
+      case 'image':
+        return this.createImage(element, matrix, style)
+      default:
+        this.report(`Unsupported element <${tag}> was skipped`)
+        return null
+    }
+  }
+
+  private createRect(element: Element, matrix: Matrix, style: IComputedStyle): ShapeEntity | null {
+    const x = this.length(element, 'x', 0)
+    const y = this.length(element, 'y', 0)
+    const width = this.length(element, 'width', 0)
+    const height = this.length(element, 'height', 0)
+    if (width <= 0 || height <= 0) return null
+
+    const rxAttr = element.getAttribute('rx')
+    const ryAttr = element.getAttribute('ry')
+    const rx = this.length(element, 'rx', ryAttr !== null ? this.length(element, 'ry', 0) : 0)
+    const ry = this.length(element, 'ry', rxAttr !== null ? rx : 0)
+    const radius = Math.min(rx, ry, width / 2, height / 2)
+    if (rx !== ry) {
+      this.report('Elliptical rect corners (rx ≠ ry) were approximated with circular corners')
+    }
+
+    const decomposed = decompose(matrix)
+    if (decomposed.skewed) {
+      const d =
+        radius > 0
+          ? roundedRectPath(x, y, width, height, radius)
+          : `M${x} ${y}h${width}v${height}h${-width}Z`
+      return this.createPath(d, matrix, style)
+    }
+
+    const rect = ShapeEntityFactory.createRectangle(
+      applyMatrix(matrix, { x, y }),
+      { width, height },
+      this.toStyle(style, 1)
+    )
+    if (radius > 0) rect.borderRadius = radius
+    rect.transform.rotation = decomposed.rotation
+    rect.transform.scale = decomposed.scale
+    return rect
+  }
+
+  private createEllipse(
+    element: Element,
+    matrix: Matrix,
+    style: IComputedStyle,
+    rx: number,
+    ry: number
+  ): ShapeEntity | null {
+    if (rx <= 0 || ry <= 0) return null
+    const cx = this.length(element, 'cx', 0)
+    const cy = this.length(element, 'cy', 0)
+
+    const decomposed = decompose(matrix)
+    if (decomposed.skewed) {
+      const d = `M${cx - rx} ${cy}A${rx} ${ry} 0 1 0 ${cx + rx} ${cy}A${rx} ${ry} 0 1 0 ${cx - rx} ${cy}Z`
+      return this.createPath(d, matrix, style)
+    }
+
+    const center = applyMatrix(matrix, { x: cx, y: cy })
+    const shape =
+      rx === ry
+        ? ShapeEntityFactory.createCircle(center, rx, this.toStyle(style, 1))
+        : ShapeEntityFactory.createEllipse(center, rx, ry, this.toStyle(style, 1))
+    shape.transform.rotation = decomposed.rotation
+    shape.transform.scale = decomposed.scale
+    return shape
+  }
+
+  /**
+   * 折线 / 多边形 / 直线：变换烘焙进顶点
+   */
+  private createPolyline(
+    points: IPoint[],
+    matrix: Matrix,
+    style: IComputedStyle,
+    closed: boolean
+  ): ShapeEntity | null {
+    if (points.length < 2) return null
+    const world = points.map((point) => applyMatrix(matrix, point))
+    const bounds = getPointsBounds(world)
+    return ShapeEntityFactory.createPolygon(
+      world.map((point) => ({ x: point.x - bounds.x, y: point.y - bounds.y })),
+      { x: bounds.x, y: bounds.y },
+      this.toStyle(style, matrixScale(matrix), !closed),
+      closed
+    )
+  }
+
+  /**
+   * 路径：规范化后烘焙完整变换（包括斜切）
+   */
+  private createPath(pathData: string, matrix: Matrix, style: IComputedStyle): ShapeEntity | null {
+    const segments = SVGPathData.normalize(pathData)
+    if (segments.length === 0) return null
+    const world = SVGPathData.transform(segments, (point: IPoint) => applyMatrix(matrix, point))
+    const bounds = SVGPathData.getBounds(world)
+    const local = SVGPathData.translate(world, -bounds.x, -bounds.y)
+    return ShapeEntityFactory.createPath(
+      SVGPathData.serialize(local),
+      { x: bounds.x, y: bounds.y },
+      this.toStyle(style, matrixScale(matrix))
+    )
+  }
+
+  private createText(element: Element, matrix: Matrix, style: IComputedStyle): ShapeEntity | null {
+    const content = (element.textContent || '').replace(/\s+/g, ' ').trim()
+    if (!content) return null
+    if (element.querySelector('tspan[x], tspan[y], tspan[dx], tspan[dy]')) {
+      this.report('Positioned <tspan> elements were flattened into a single line of text')
+    }
+    if (element.querySelector('textPath')) {
+      this.report('<textPath> is not supported; text was placed on a straight baseline')
+    }
+
+    const decomposed = decompose(matrix)
+    if (decomposed.skewed) {
+      this.report('Skewed text was approximated without skew')
+    }
+
+    const x = parseFloat(element.getAttribute('x') || '0') || 0
+    const y = parseFloat(element.getAttribute('y') || '0') || 0
+    const text = ShapeEntityFactory.createText(
+      content,
+      applyMatrix(matrix, { x, y }),
+      this.toStyle(style, 1)
+    ) as ITextEntity
+    text.fontSize = style.fontSize
+    text.fontFamily = style.fontFamily
+    text.fontWeight =
+      style.fontWeight === 'bold' ||
+      style.fontWeight === 'bolder' ||
+      Number(style.fontWeight) >= 600
+        ? 'bold'
+        : 'normal'
+    text.textAlign =
+      style.textAnchor === 'middle' ? 'center' : style.textAnchor === 'end' ? 'right' : 'left'
+    text.transform.rotation = decomposed.rotation
+    text.transform.scale = decomposed.scale
+    return text
+  }
+
+  private createImage(element: Element, matrix: Matrix, style: IComputedStyle): ShapeEntity | null {
+    const href = element.getAttribute('href') || element.getAttribute('xlink:href') || ''
+    const width = this.length(element, 'width', 0)
+    const height = this.length(element, 'height', 0)
+    if (!href || width <= 0 || height <= 0) return null
+
+    const decomposed = decompose(matrix)
+    if (decomposed.skewed) {
+      this.report('Skewed images were approximated without skew')
+    }
+
+    const image = ShapeEntityFactory.createImage(
+      href,
+      applyMatrix(matrix, { x: this.length(element, 'x', 0), y: this.length(element, 'y', 0) }),
+      { width, height },
+      { opacity: style.opacity }
+    )
+    image.transform.rotation = decomposed.rotation
+    image.transform.scale = decomposed.scale
+    return image
+  }
+
+  /**
+   * 计算样式转换为形状样式
+   * @param strokeScale 烘焙变换时描边宽度的缩放
+   * @param strokeOnly 直线与折线不填充
+   */
+  private toStyle(style: IComputedStyle, strokeScale: number, strokeOnly: boolean = false): IStyle {
+    const result: IStyle = {}
+    let opacity = style.opacity
+
+    const fill = strokeOnly ? 'none' : this.resolvePaint(style.fill, style)
+    if (fill !== 'none') {
+      const color = withAlpha(fill, style.fillOpacity)
+      if (color === null) {
+        opacity *= style.fillOpacity
+      }
+      result.fillColor = color ?? fill
+    }
+
+    const stroke = this.resolvePaint(style.stroke, style)
+    if (stroke !== 'none' && style.strokeWidth > 0) {
+      const color = withAlpha(stroke, style.strokeOpacity)
+      if (color === null && fill === 'none') {
+        opacity *= style.strokeOpacity
+      }
+      result.strokeColor = color ?? stroke
+      result.strokeWidth = style.strokeWidth * strokeScale
+      if (style.dashArray && style.dashArray.length > 0) {
+        result.lineDash = style.dashArray.map((value) => value * strokeScale)
+      }
+    }
+
+    if (opacity < 1) result.opacity = opacity
+    return result
+  }
+
+  /**
+   * 解析颜色值：currentColor 与 url() 引用
+   */
+  private resolvePaint(value: string, style: IComputedStyle): string {
+    if (value === 'currentColor') return style.color
+    const match = /^url\(\s*['"]?#([^'")\s]+)['"]?\s*\)\s*(.*)$/.exec(value)
+    if (!match) return value
+
+    const [, id, fallback] = match
+    if (fallback) {
+      this.report(`Paint server url(#${id}) is not supported; fallback color was used`)
+      return fallback
+    }
+    const server = this.document?.getElementById(id)
+    const stop = server?.querySelector('stop')
+    const stopColor = stop ? this.getProperty(stop, 'stop-color') || 'black' : 'none'
+    this.report(
+      `Paint server url(#${id}) is not supported; ${stop ? 'its first stop color' : 'no paint'} was used`
+    )
+    return stopColor
+  }
+
+  // === 样式 ===
+
+  private collectStyleSheets(root: SVGSVGElement): void {
+    let order = 0
+    for (const sheet of Array.from(root.querySelectorAll('style'))) {
+      const css = (sheet.textContent || '').replace(/\/\*[\s\S]*?\*\//g, '')
+      let index = 0
+      while (index < css.length) {
+        const open = css.indexOf('{', index)
+        if (open === -1) break
+        const prelude = css.slice(index, open).trim()
+
+        // 跳过 @media 等 at-rule（含嵌套块）
+        let depth = 1
+        let close = open + 1
+        while (close < css.length && depth > 0) {
+          if (css[close] === '{') depth++
+          else if (css[close] === '}') depth--
+          close++
+        }
+        const body = css.slice(open + 1, close - 1)
+        index = close
+
+        if (prelude.startsWith('@')) {
+          this.report(`CSS at-rule "${prelude.split(/\s/)[0]}" is not supported`)
+          continue
+        }
+        const declarations = parseDeclarations(body)
+        for (const selector of prelude
+          .split(',')
+          .map((s) => s.trim())
+          .filter(Boolean)) {
+          this.rules.push({
+            selector,
+            specificity: getSpecificity(selector),
+            order: order++,
+            declarations,
+          })
+        }
+      }
+    }
+    this.rules.sort((a, b) => a.specificity - b.specificity || a.order - b.order)
+  }
+
+  /**
+   * 取元素自身声明的属性值：表现属性 < CSS 规则 < style 属性
+   */
+  private getProperty(element: Element, name: string): string | undefined {
+    let value = element.getAttribute(name) ?? undefined
+    for (const rule of this.rules) {
+      if (rule.declarations[name] !== undefined && this.matches(element, rule.selector)) {
+        value = rule.declarations[name]
+      }
+    }
+    const inline = parseDeclarations(element.getAttribute('style') || '')
+    if (inline[name] !== undefined) value = inline[name]
+    return value?.trim()
+  }
+
+  private matches(element: Element, selector: string): boolean {
+    try {
+      return element.matches(selector)
+    } catch {
+      this.report(`CSS selector "${selector}" is not supported`)
+      return false
+    }
+  }
+
+  private computeStyle(element: Element, parent: IComputedStyle): IComputedStyle {
+    const style: IComputedStyle = { ...parent, opacity: parent.opacity }
+    const read = (name: string): string | undefined => {
+      const value = this.getProperty(element, name)
+      return value === undefined || value === 'inherit' ? undefined : value
+    }
+
+    const fill = read('fill')
+    if (fill !== undefined) style.fill = fill
+    const stroke = read('stroke')
+    if (stroke !== undefined) style.stroke = stroke
+    const color = read('color')
+    if (color !== undefined) style.color = color
+
+    const fontSize = read('font-size')
+    if (fontSize !== undefined) style.fontSize = parseLength(fontSize, parent.fontSize)
+    const strokeWidth = read('stroke-width')
+    if (strokeWidth !== undefined) style.strokeWidth = parseLength(strokeWidth, parent.strokeWidth)
+
+    const fillOpacity = read('fill-opacity')
+    if (fillOpacity !== undefined) style.fillOpacity = parseOpacity(fillOpacity)
+    const strokeOpacity = read('stroke-opacity')
+    if (strokeOpacity !== undefined) style.strokeOpacity = parseOpacity(strokeOpacity)
+    const opacity = read('opacity')
+    if (opacity !== undefined) style.opacity = parent.opacity * parseOpacity(opacity)
+
+    const dash = read('stroke-dasharray')
+    if (dash !== undefined) {
+      const values = dash === 'none' ? [] : parseNumberList(dash)
+      // 奇数个值按规范重复一次
+      style.dashArray = values.length % 2 === 1 ? [...values, ...values] : values
+    }
+
+    const fontFamily = read('font-family')
+    if (fontFamily !== undefined) style.fontFamily = fontFamily.replace(/['"]/g, '')
+    const fontWeight = read('font-weight')
+    if (fontWeight !== undefined) style.fontWeight = fontWeight
+    const textAnchor = read('text-anchor')
+    if (textAnchor !== undefined) style.textAnchor = textAnchor
+    const visibility = read('visibility')
+    if (visibility !== undefined) style.visibility = visibility
+
+    return style
+  }
+
+  private reportUnsupportedProperties(element: Element): void {
+    for (const name of UNSUPPORTED_PROPERTIES) {
+      const value = this.getProperty(element, name)
+      if (value && value !== 'none') {
+        this.report(`"${name}" is not supported and was ignored`)
+      }
+    }
+  }
+
+  // === 视口与长度 ===
+
+  /**
+   * 计算 <svg> 的视口矩阵（x/y 偏移 + viewBox 映射）
+   */
+  private getViewportMatrix(element: Element, isRoot: boolean): Matrix {
+    const viewBox = parseViewBox(element.getAttribute('viewBox'))
+    const offset = isRoot
+      ? IDENTITY
+      : translation(this.length(element, 'x', 0), this.length(element, 'y', 0))
+    if (!viewBox) return offset
+
+    const width = this.length(element, 'width', viewBox.width)
+    const height = this.length(element, 'height', viewBox.height)
+    const preserve = element.getAttribute('preserveAspectRatio') || 'xMidYMid meet'
+    return multiply(offset, viewBoxMatrix(viewBox, width, height, preserve))
+  }
+
+  private length(element: Element, name: string, fallback: number): number {
+    const value = element.getAttribute(name)
+    if (value === null) return fallback
+    if (value.trim().endsWith('%')) {
+      this.report(`Percentage value for "${name}" is not supported`)
+      return fallback
+    }
+    return parseLength(value, fallback)
+  }
+
+  private report(message: string): void {
+    if (this.reported.has(message)) return
+    this.reported.add(message)
+    this.errors.push(message)
+  }
+}
+
+// === 工具函数 ===
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ]
+}
+
+function translation(x: number, y: number): Matrix {
+  return [1, 0, 0, 1, x, y]
+}
+
+function applyMatrix(m: Matrix, point: IPoint): IPoint {
+  return { x: m[0] * point.x + m[2] * point.y + m[4], y: m[1] * point.x + m[3] * point.y + m[5] }
+}
+
+/**
+ * 变换对线宽的平均缩放
+ */
+function matrixScale(m: Matrix): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]))
+}
+
+/**
+ * 分解为 平移 → 旋转 → 缩放，与形状变换的应用顺序一致
+ */
+function decompose(m: Matrix): { rotation: number; scale: IPoint; skewed: boolean } {
+  const [a, b, c, d] = m
+  const scaleX = Math.hypot(a, b)
+  if (scaleX === 0) return { rotation: 0, scale: { x: 0, y: 0 }, skewed: false }
+  const rotation = Math.atan2(b, a)
+  const scaleY = (a * d - b * c) / scaleX
+  const skew = (a * c + b * d) / (scaleX * scaleX)
+  return { rotation, scale: { x: scaleX, y: scaleY }, skewed: Math.abs(skew) > 1e-6 }
+}
+
+/**
+ * 解析 transform 属性
+ */
+function parseTransform(value: string | null): Matrix {
+  let result = IDENTITY
+  if (!value) return result
+
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g
+  let match = pattern.exec(value)
+  while (match) {
+    const args = parseNumberList(match[2])
+    let next: Matrix = IDENTITY
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length === 6) next = args as Matrix
+        break
+      case 'translate':
+        next = translation(args[0] ?? 0, args[1] ?? 0)
+        break
+      case 'scale':
+        next = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0]
+        break
+      case 'rotate': {
+        const angle = ((args[0] ?? 0) * Math.PI) / 180
+        const cos = Math.cos(angle)
+        const sin = Math.sin(angle)
+        const [cx = 0, cy = 0] = args.slice(1)
+        next = multiply(
+          multiply(translation(cx, cy), [cos, sin, -sin, cos, 0, 0]),
+          translation(-cx, -cy)
+        )
+        break
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0]
+        break
+      case 'skewY':
+        next = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0]
+        break
+    }
+    result = multiply(result, next)
+    match = pattern.exec(value)
+  }
+  return result
+}
+
+function parseViewBox(
+  value: string | null
+): { x: number; y: number; width: number; height: number } | null {
+  if (!value) return null
+  const [x, y, width, height] = parseNumberList(value)
+  if (!(width > 0 && height > 0)) return null
+  return { x, y, width, height }
+}
+
+function viewBoxMatrix(
+  viewBox: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number,
+  preserveAspectRatio: string = 'xMidYMid meet'
+): Matrix {
+  let sx = width / viewBox.width
+  let sy = height / viewBox.height
+  const [align, meetOrSlice = 'meet'] = preserveAspectRatio.trim().split(/\s+/)
+  let tx = -viewBox.x * sx
+  let ty = -viewBox.y * sy
+
+  if (align !== 'none') {
+    const scale = meetOrSlice === 'slice' ? Math.max(sx, sy) : Math.min(sx, sy)
+    sx = scale
+    sy = scale
+    const extraX = width - viewBox.width * scale
+    const extraY = height - viewBox.height * scale
+    const alignX = align.includes('xMid') ? 0.5 : align.includes('xMax') ? 1 : 0
+    const alignY = align.includes('YMid') ? 0.5 : align.includes('YMax') ? 1 : 0
+    tx = -viewBox.x * scale + extraX * alignX
+    ty = -viewBox.y * scale + extraY * alignY
+  }
+  return [sx, 0, 0, sy, tx, ty]
+}
+
+function parseNumberList(value: string): number[] {
+  return (value.match(/[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g) || []).map(Number)
+}
+
+function parsePoints(value: string): IPoint[] {
+  const numbers = parseNumberList(value)
+  const points: IPoint[] = []
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    points.push({ x: numbers[i], y: numbers[i + 1] })
+  }
+  return points
+}
+
+function parseLength(value: string, fallback: number): number {
+  const match = /^\s*([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)\s*([a-z]*)\s*$/i.exec(value)
+  if (!match) return fallback
+  const unit = match[2].toLowerCase()
+  if (unit === 'em') return Number(match[1]) * 16
+  return Number(match[1]) * (LENGTH_UNITS[unit] ?? 1)
+}
+
+function parseOpacity(value: string): number {
+  const number = value.trim().endsWith('%') ? parseFloat(value) / 100 : parseFloat(value)
+  return Number.isFinite(number) ? Math.max(0, Math.min(1, number)) : 1
+}
+
+function parseDeclarations(css: string): Record<string, string> {
+  const declarations: Record<string, string> = {}
+  for (const declaration of css.split(';')) {
+    const colon = declaration.indexOf(':')
+    if (colon === -1) continue
+    const name = declaration.slice(0, colon).trim().toLowerCase()
+    const value = declaration
+      .slice(colon + 1)
+      .replace(/!important/i, '')
+      .trim()
+    if (name && value && (STYLE_PROPERTIES.has(name) || name === 'stop-color')) {
+      declarations[name] = value
+    }
+  }
+  return declarations
+}
+
+/**
+ * 简化的选择器优先级：id × 10000 + class/属性/伪类 × 100 + 标签
+ */
+function getSpecificity(selector: string): number {
+  const ids = (selector.match(/#[\w-]+/g) || []).length
+  const classes = (selector.match(/\.[\w-]+|\[[^\]]*\]|:(?!:)[\w-]+/g) || []).length
+  const tags = (selector.replace(/[#.:][\w-]+|\[[^\]]*\]/g, ' ').match(/[a-zA-Z][\w-]*/g) || [])
+    .length
+  return ids * 10000 + classes * 100 + tags
+}
+
+/**
+ * 将透明度合并到颜色中，无法解析的颜色返回 null
+ */
+function withAlpha(color: string, alpha: number): string | null {
+  if (alpha >= 1) return color
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color)
+  if (hex) {
+    const digits =
+      hex[1].length === 3
+        ? hex[1]
+            .split('')
+            .map((c) => c + c)
+            .join('')
+        : hex[1]
+    const r = parseInt(digits.slice(0, 2), 16)
+    const g = parseInt(digits.slice(2, 4), 16)
+    const b = parseInt(digits.slice(4, 6), 16)
+    return `rgba(${r}, ${g}, ${b}, ${alpha})`
+  }
+  const rgb = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+))?\s*\)$/i.exec(
+    color
+  )
+  if (rgb) {
+    const base = rgb[4] !== undefined ? Number(rgb[4]) : 1
+    return `rgba(${rgb[1]}, ${rgb[2]}, ${rgb[3]}, ${base * alpha})`
+  }
+  return null
+}
+
+function roundedRectPath(x: number, y: number, width: number, height: number, r: number): string {
+  return [
+    `M${x + r} ${y}`,
+    `H${x + width - r}`,
+    `A${r} ${r} 0 0 1 ${x + width} ${y + r}`,
+    `V${y + height - r}`,
+    `A${r} ${r} 0 0 1 ${x + width - r} ${y + height}`,
+    `H${x + r}`,
+    `A${r} ${r} 0 0 1 ${x} ${y + height - r}`,
+    `V${y + r}`,
+    `A${r} ${r} 0 0 1 ${x + r} ${y}`,
+    'Z',
+  ].join(' ')
+}
+
+function getPointsBounds(points: IPoint[]): {
+  x: number
+  y: number
+  width: number
+  height: number
+} {
+  const xs = points.map((p) => p.x)
+  const ys = points.map((p) => p.y)
+  const minX = Math.min(...xs)
+  const minY = Math.min(...ys)
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY }
+}
+
+function getShapesBounds(shapes: ShapeEntity[]): {
+  x: number
+  y: number
+  width: number
+  height: number
+} {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const shape of shapes) {
+    const bounds = new RenderableShapeView(shape).bounds
+    minX = Math.min(minX, bounds.x)
+    minY = Math.min(minY, bounds.y)
+    maxX = Math.max(maxX, bounds.x + bounds.width)
+    maxY = Math.max(maxY, bounds.y + bounds.height)
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
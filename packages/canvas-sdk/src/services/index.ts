@@ -3,23 +3,113 @@
  * 利用 TypeScript 上下文敏感类型推断，无需手动区分接口和服务标识符
  */
 
+// 自动保存存储（自动保存服务依赖管理器，从包入口导出）
+export {
+  type AutosaveStoreName,
+  type AutosaveWriteOperation,
+  IAutosaveStorage,
+  IndexedDBAutosaveStorage,
+  MemoryAutosaveStorage,
+} from './autosave/autosaveStorage'
 // 业务服务
 export { ClipboardService, IClipboardService } from './clipboard/clipboardService'
+// 协作同步（协作服务依赖管理器，从包入口导出）
+export {
+  CrdtDocument,
+  type CrdtFields,
+  type ICrdtChange,
+  type ICrdtOperation,
+  type StateVector,
+} from './collaboration/crdtDocument'
+export {
+  createInMemoryTransportPair,
+  type ICollaborationUser,
+  type IPresenceState,
+  type ISyncTransport,
+  type IWebSocketLike,
+  type SyncMessage,
+  SyncServer,
+  WebSocketSyncTransport,
+} from './collaboration/syncProtocol'
+export { ColorHistoryService, IColorHistoryService } from './color/colorHistoryService'
 // 核心服务
 export { ConfigurationService, IConfigurationService } from './configuration/configurationService'
 // 工具服务
-export { ExportService } from './export/exportService'
-export { HistoryService, IHistoryService } from './history/historyService'
+export {
+  ExportService,
+  IExportService,
+  type ISVGExportLayer,
+  type ISVGExportOptions,
+} from './export/exportService'
+export {
+  FormatError,
+  type FormatExportResult,
+  type FormatOptions,
+  type FormatOptionsSchema,
+  FormatRegistry,
+  formatRegistry,
+  type IFileFormat,
+  type IFormatExportInput,
+  type IFormatOptionSchema,
+  type IFormatSource,
+} from './format/formatRegistry'
+export {
+  CommandRegistry,
+  CommandSerializationError,
+  commandRegistry,
+  type ICommandContext,
+  type ISerializedCommand,
+} from './history/commandRegistry'
+export {
+  CollectionAddCommand,
+  CollectionMoveCommand,
+  CollectionRemoveCommand,
+  CompositeCommand,
+  MultiPropertyChangeCommand,
+  PropertyChangeCommand,
+} from './history/commands'
+export { HistoryService, type ICommand, IHistoryService } from './history/historyService'
+export {
+  type IHistoryStore,
+  type ISerializedHistory,
+  LocalStorageHistoryStore,
+  MemoryHistoryStore,
+} from './history/historyStore'
 export { ImportService } from './import/importService'
 // 交互服务
 export { IInteractionService, InteractionService } from './interaction/interactionService'
 export type { LogLevel } from './logging/logService'
 export { ILogService, LogService } from './logging/logService'
-export { CanvasRenderingService, ICanvasRenderingService } from './rendering/renderingService'
+export {
+  CanvasRenderingService,
+  ICanvasRenderingService,
+  type IFramebufferImageData,
+  type IRenderLayerOptions,
+} from './rendering/renderingService'
 export { ISelectionService, SelectionService } from './selection/selectionService'
 export { IShapeService, ShapeService } from './shape/shapeService'
 // 扩展服务
+export {
+  detectPlatform,
+  formatKeybinding,
+  KeybindingError,
+  type KeybindingPlatform,
+  normalizeKeybinding,
+} from './shortcut/keybinding'
+export type {
+  IKeybindingConflict,
+  IKeybindingRule,
+  IResolvedKeybinding,
+  IShortcutConfig,
+  KeymapChangeListener,
+  ShortcutHandler,
+} from './shortcut/shortcutService'
 export { IShortcutService, ShortcutService } from './shortcut/shortcutService'
+export {
+  type ContextValue,
+  type IWhenExpression,
+  parseWhenExpression,
+} from './shortcut/whenExpression'
 export { IThemeService, ThemeService } from './theme/themeService'
 export type { IZIndexChangeEvent, ZIndexOperation } from './zIndex/zIndexService'
 export { IZIndexService, ZIndexService } from './zIndex/zIndexService'
@@ -4,7 +4,7 @@
 
 import { createDecorator } from '../../di'
 import type { IToolManager } from '../../managers/ToolManager'
-import type { ICanvasMouseEvent } from '../../viewmodels/interfaces/IViewModel'
+import type { ICanvasMouseEvent, IPointerSample } from '../../viewmodels/interfaces/IViewModel'
 import { ILogService, type ILogService as ILogServiceInterface } from '../logging/logService'
 
 /**
@@ -30,6 +30,8 @@ export interface ITool {
   handleKeyUp?(event: KeyboardEvent): void
 }
 
+export type PointerMoveListener = (point: { x: number; y: number } | null) => void
+
 /**
  * 交互服务接口
  */
@@ -42,6 +44,8 @@ export interface IInteractionService {
   unregisterTool(name: string): void
   setEnabled(enabled: boolean): void
   isEnabled(): boolean
+  /** 指针在画布上移动时触发（画布坐标），离开画布时为 null */
+  onDidMovePointer(listener: PointerMoveListener): () => void
   dispose(): void
   readonly _serviceBrand: undefined
 }
@@ -63,6 +67,9 @@ export class InteractionService implements IInteractionService {
   private enabled = true
   private eventListeners: EventListenerRecord[] = []
   private toolManager?: IToolManager
+  /** 收到过指针事件后忽略浏览器随后派发的兼容鼠标事件 */
+  private usingPointerEvents = false
+  private pointerMoveListeners = new Set<PointerMoveListener>()
 
   constructor(@ILogService private logger: ILogServiceInterface) {}
 
@@ -92,6 +99,34 @@ export class InteractionService implements IInteractionService {
     }
   }
 
+  /**
+   * 将 PointerEvent 转换为 ICanvasMouseEvent，附带压力、倾角与合并采样
+   */
+  private createCanvasPointerEvent(event: PointerEvent): ICanvasMouseEvent {
+    // 高频笔输入在一帧内的中间采样只能从合并事件中取得
+    const coalesced =
+      event.type === 'pointermove' && typeof event.getCoalescedEvents === 'function'
+        ? event.getCoalescedEvents()
+        : []
+    const sources = coalesced.length > 0 ? coalesced : [event]
+
+    return {
+      ...this.createCanvasMouseEvent(event),
+      pointerType: event.pointerType,
+      samples: sources.map((source) => this.createPointerSample(source)),
+    }
+  }
+
+  private createPointerSample(event: PointerEvent): IPointerSample {
+    return {
+      ...this.getCanvasPoint(event),
+      pressure: event.pressure,
+      tiltX: event.tiltX ?? 0,
+      tiltY: event.tiltY ?? 0,
+      timestamp: event.timeStamp,
+    }
+  }
+
   private setupEventListeners(): void {
     if (!this.canvas) return
 
@@ -111,6 +146,7 @@ export class InteractionService implements IInteractionService {
       if (!this.enabled || !(event instanceof MouseEvent)) return
 
       const eventData = this.createCanvasMouseEvent(event)
+      this.notifyPointerMove(eventData.point)
 
       if (this.toolManager) {
         this.toolManager.handleMouseMove(eventData)
@@ -151,19 +187,52 @@ export class InteractionService implements IInteractionService {
       }
     }
 
-    this.canvas.addEventListener('mousedown', mouseDownHandler)
-    this.canvas.addEventListener('mousemove', mouseMoveHandler)
-    this.canvas.addEventListener('mouseup', mouseUpHandler)
-    document.addEventListener('keydown', keyDownHandler)
-    document.addEventListener('keyup', keyUpHandler)
-
-    this.eventListeners.push(
-      { element: this.canvas, event: 'mousedown', handler: mouseDownHandler },
-      { element: this.canvas, event: 'mousemove', handler: mouseMoveHandler },
-      { element: this.canvas, event: 'mouseup', handler: mouseUpHandler },
-      { element: document, event: 'keydown', handler: keyDownHandler },
-      { element: document, event: 'keyup', handler: keyUpHandler }
-    )
+    const pointerHandler = (event: Event) => {
+      if (!this.enabled || !this.toolManager || !(event instanceof PointerEvent)) return
+      this.usingPointerEvents = true
+
+      const canvas = this.canvas
+      const eventData = this.createCanvasPointerEvent(event)
+      switch (event.type) {
+        case 'pointerdown':
+          // 捕获指针，拖出画布后仍能收到移动与抬起事件
+          canvas?.setPointerCapture?.(event.pointerId)
+          this.toolManager.handleMouseDown(eventData)
+          break
+        case 'pointermove':
+          this.notifyPointerMove(eventData.point)
+          this.toolManager.handleMouseMove(eventData)
+          break
+        default:
+          if (canvas?.hasPointerCapture?.(event.pointerId)) {
+            canvas.releasePointerCapture(event.pointerId)
+          }
+          this.toolManager.handleMouseUp(eventData)
+      }
+    }
+
+    this.addListener(this.canvas, 'mousedown', (event) => {
+      if (!this.usingPointerEvents) mouseDownHandler(event)
+    })
+    this.addListener(this.canvas, 'mousemove', (event) => {
+      if (!this.usingPointerEvents) mouseMoveHandler(event)
+    })
+    this.addListener(this.canvas, 'mouseup', (event) => {
+      if (!this.usingPointerEvents) mouseUpHandler(event)
+    })
+    this.addListener(this.canvas, 'mouseleave', () => this.notifyPointerMove(null))
+    if (typeof PointerEvent !== 'undefined') {
+      for (const type of ['pointerdown', 'pointermove', 'pointerup', 'pointercancel']) {
+        this.addListener(this.canvas, type, pointerHandler)
+      }
+    }
+    this.addListener(document, 'keydown', keyDownHandler)
+    this.addListener(document, 'keyup', keyUpHandler)
+  }
+
+  private addListener(element: EventTarget, event: string, handler: (event: Event) => void): void {
+    element.addEventListener(event, handler)
+    this.eventListeners.push({ element, event, handler })
   }
 
   setActiveTool(toolName: string | null): boolean {
@@ -228,6 +297,23 @@ export class InteractionService implements IInteractionService {
     return this.enabled
   }
 
+  onDidMovePointer(listener: PointerMoveListener): () => void {
+    this.pointerMoveListeners.add(listener)
+    return () => {
+      this.pointerMoveListeners.delete(listener)
+    }
+  }
+
+  private notifyPointerMove(point: { x: number; y: number } | null): void {
+    for (const listener of this.pointerMoveListeners) {
+      try {
+        listener(point)
+      } catch (error) {
+        this.logger.warn('Pointer move listener failed', error)
+      }
+    }
+  }
+
   /**
    * 获取画布坐标点
    */
@@ -262,6 +348,7 @@ export class InteractionService implements IInteractionService {
 
     this.tools.clear()
     this.toolManager = undefined
+    this.pointerMoveListeners.clear()
 
     this.logger.info('Interaction service disposed')
   }
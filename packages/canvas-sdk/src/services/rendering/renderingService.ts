@@ -3,6 +3,7 @@
  */
 
 import { createDecorator } from '../../di'
+import type { BlendMode } from '../../models/entities/Layer'
 import { ILogService, type ILogService as ILogServiceInterface } from '../logging/logService'
 
 /**
@@ -24,6 +25,39 @@ export interface IRenderable {
   render(context: unknown): void
 }
 
+/**
+ * 场景图层在渲染引擎中的呈现参数
+ */
+export interface IRenderLayerOptions {
+  id: string
+  visible: boolean
+  opacity: number
+  zIndex: number
+  blendMode: BlendMode
+  /** 父图层（图层组）ID */
+  parentId?: string
+  /** 图层内可渲染对象ID */
+  renderableIds: string[]
+}
+
+/**
+ * 帧缓冲像素（RGBA，逐行排列）
+ */
+export interface IFramebufferImageData {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+/**
+ * 图形上下文中读取像素所需的部分
+ */
+interface IFramebufferContext {
+  readonly width: number
+  readonly height: number
+  getImageData(x: number, y: number, width: number, height: number): IFramebufferImageData
+}
+
 /**
  * 渲染引擎接口（本地定义，避免循环依赖）
  */
@@ -36,21 +70,28 @@ interface IRenderEngineInstance {
   dispose(): void
   createLayer(id: string, zIndex?: number): unknown
   getLayer(id: string): unknown
+  removeLayer(id: string): void
   getViewport(): { x: number; y: number; width: number; height: number; zoom: number }
   setViewport(
     viewport: Partial<{ x: number; y: number; width: number; height: number; zoom: number }>
   ): void
   screenToWorld(point: { x: number; y: number }): { x: number; y: number }
   worldToScreen(point: { x: number; y: number }): { x: number; y: number }
+  getContext(): IFramebufferContext | null
 }
 
 /**
  * 渲染图层接口
  */
 interface IRenderLayer {
+  visible: boolean
+  opacity: number
+  zIndex: number
+  blendMode: BlendMode
+  parentId?: string
   addRenderable(renderable: IRenderable): void
   removeRenderable(id: string): void
-  clearRenderables(): void
+  clear(): void
 }
 
 /**
@@ -70,7 +111,24 @@ export interface ICanvasRenderingService {
   getRenderEngine(): IRenderEngineInstance | null
   addRenderable(renderable: IRenderable): void
   removeRenderable(id: string): void
+  /**
+   * 设置场景图层：每个图层对应一个引擎图层，按透明度与混合模式合成，
+   * 未分配图层的可渲染对象放在默认图层
+   */
+  setLayers(layers: IRenderLayerOptions[]): void
+  /**
+   * 添加覆盖层对象：绘制在所有场景图层之上，不受图层设置影响，如协作者的光标
+   */
+  addOverlay(renderable: IRenderable): void
+  removeOverlay(id: string): void
   render(): void
+  /**
+   * 读取合成后的帧缓冲像素（画布像素坐标），超出画布的像素为全透明；
+   * 读取前先渲染一帧，保证 WebGL 绘制缓冲有效。引擎未初始化时返回 null
+   */
+  readPixels(x: number, y: number, width: number, height: number): IFramebufferImageData | null
+  /** 世界坐标 -> 画布像素坐标，与渲染时的视口变换一致 */
+  worldToCanvas(point: { x: number; y: number }): { x: number; y: number }
   start(): void
   stop(): void
   isRunning(): boolean
@@ -94,7 +152,13 @@ export class CanvasRenderingService implements ICanvasRenderingService {
   private running = false
   private renderables = new Map<string, IRenderable>()
   private defaultLayer: IRenderLayer | null = null
+  private layers = new Map<string, IRenderLayer>()
+  private layerOptions: IRenderLayerOptions[] = []
+  private renderableLayerIds = new Map<string, string>()
+  private overlayLayer: IRenderLayer | null = null
+  private overlays = new Map<string, IRenderable>()
   private static readonly DEFAULT_LAYER_ID = 'default-layer'
+  private static readonly OVERLAY_LAYER_ID = 'overlay-layer'
 
   constructor(@ILogService private logger: ILogServiceInterface) {}
 
@@ -106,6 +170,8 @@ export class CanvasRenderingService implements ICanvasRenderingService {
       this.renderEngine.dispose()
       this.renderEngine = null
       this.defaultLayer = null
+      this.overlayLayer = null
+      this.layers.clear()
       this.renderables.clear()
       this.running = false
     }
@@ -140,6 +206,12 @@ export class CanvasRenderingService implements ICanvasRenderingService {
         0
       ) as IRenderLayer
       this.logger.debug('Default render layer created')
+      this.overlayLayer = engine.createLayer(
+        CanvasRenderingService.OVERLAY_LAYER_ID,
+        Number.MAX_SAFE_INTEGER
+      ) as IRenderLayer
+      for (const overlay of this.overlays.values()) this.overlayLayer.addRenderable(overlay)
+      this.applyLayers()
 
       this.logger.info('Canvas rendering service initialized successfully')
     } catch (error) {
@@ -155,9 +227,7 @@ export class CanvasRenderingService implements ICanvasRenderingService {
   addRenderable(renderable: IRenderable): void {
     if (renderable && renderable.id) {
       this.renderables.set(renderable.id, renderable)
-      if (this.defaultLayer) {
-        this.defaultLayer.addRenderable(renderable)
-      }
+      this.getTargetLayer(renderable.id)?.addRenderable(renderable)
       this.logger.debug('Renderable added', renderable.id)
     }
   }
@@ -165,19 +235,74 @@ export class CanvasRenderingService implements ICanvasRenderingService {
   removeRenderable(id: string): void {
     if (this.renderables.has(id)) {
       this.renderables.delete(id)
-      if (this.defaultLayer) {
-        this.defaultLayer.removeRenderable(id)
-      }
+      this.getTargetLayer(id)?.removeRenderable(id)
       this.logger.debug('Renderable removed', id)
     }
   }
 
+  setLayers(layers: IRenderLayerOptions[]): void {
+    this.layerOptions = layers.map((layer) => ({
+      ...layer,
+      renderableIds: [...layer.renderableIds],
+    }))
+    this.renderableLayerIds.clear()
+    for (const layer of this.layerOptions) {
+      for (const id of layer.renderableIds) {
+        this.renderableLayerIds.set(id, layer.id)
+      }
+    }
+    this.applyLayers()
+  }
+
+  addOverlay(renderable: IRenderable): void {
+    this.overlays.set(renderable.id, renderable)
+    this.overlayLayer?.addRenderable(renderable)
+  }
+
+  removeOverlay(id: string): void {
+    if (this.overlays.delete(id)) this.overlayLayer?.removeRenderable(id)
+  }
+
   render(): void {
     if (this.renderEngine) {
       this.renderEngine.render()
     }
   }
 
+  readPixels(x: number, y: number, width: number, height: number): IFramebufferImageData | null {
+    const context = this.renderEngine?.getContext()
+    if (!this.renderEngine || !context) return null
+
+    const result: IFramebufferImageData = {
+      width,
+      height,
+      data: new Uint8ClampedArray(Math.max(0, width * height * 4)),
+    }
+    const left = Math.max(0, x)
+    const top = Math.max(0, y)
+    const right = Math.min(context.width, x + width)
+    const bottom = Math.min(context.height, y + height)
+    if (right <= left || bottom <= top) return result
+
+    this.renderEngine.render()
+    const source = context.getImageData(left, top, right - left, bottom - top)
+    for (let row = 0; row < source.height; row++) {
+      const from = row * source.width * 4
+      const to = ((top - y + row) * width + (left - x)) * 4
+      result.data.set(source.data.subarray(from, from + source.width * 4), to)
+    }
+    return result
+  }
+
+  worldToCanvas(point: { x: number; y: number }): { x: number; y: number } {
+    const viewport = this.renderEngine?.getViewport()
+    if (!viewport) return { x: point.x, y: point.y }
+    return {
+      x: (point.x - viewport.x) * viewport.zoom,
+      y: (point.y - viewport.y) * viewport.zoom,
+    }
+  }
+
   start(): void {
     if (!this.running) {
       this.running = true
@@ -206,9 +331,52 @@ export class CanvasRenderingService implements ICanvasRenderingService {
     }
   }
 
+  /**
+   * 将图层设置同步到引擎（引擎未初始化时保留，初始化后再应用）
+   */
+  private applyLayers(): void {
+    const engine = this.renderEngine
+    if (!engine) return
+
+    const ids = new Set(this.layerOptions.map((layer) => layer.id))
+    for (const id of Array.from(this.layers.keys())) {
+      if (!ids.has(id)) {
+        engine.removeLayer(id)
+        this.layers.delete(id)
+      }
+    }
+
+    for (const options of this.layerOptions) {
+      let layer = this.layers.get(options.id)
+      if (!layer) {
+        layer = engine.createLayer(options.id, options.zIndex) as IRenderLayer
+        this.layers.set(options.id, layer)
+      }
+      layer.visible = options.visible
+      layer.opacity = options.opacity
+      layer.zIndex = options.zIndex
+      layer.blendMode = options.blendMode
+      layer.parentId = options.parentId
+      layer.clear()
+    }
+
+    // 重新分配可渲染对象，图层内部按 zIndex 排序
+    this.defaultLayer?.clear()
+    for (const renderable of this.renderables.values()) {
+      this.getTargetLayer(renderable.id)?.addRenderable(renderable)
+    }
+  }
+
+  private getTargetLayer(renderableId: string): IRenderLayer | null {
+    const layerId = this.renderableLayerIds.get(renderableId)
+    return (layerId && this.layers.get(layerId)) || this.defaultLayer
+  }
+
   dispose(): void {
     this.stop()
     this.renderables.clear()
+    this.overlays.clear()
+    this.layers.clear()
     this.renderEngine?.dispose()
     this.logger.info('Canvas rendering service disposed')
   }
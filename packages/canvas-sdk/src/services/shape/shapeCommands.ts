@@ -0,0 +1,197 @@
+/**
+ * 形状历史命令 - 可序列化的形状增删命令与反序列化上下文
+ */
+
+import {
+  decodeImageData,
+  encodeImageData,
+  type IDocumentAsset,
+} from '../../models/document/SkyCanvasDocument'
+import type { IImageDataLike, ShapeEntity } from '../../models/entities/Shape'
+import {
+  CommandSerializationError,
+  commandRegistry,
+  type ICommandContext,
+  type ISerializedCommand,
+  resolveCommandTarget,
+} from '../history/commandRegistry'
+import type { ICommand } from '../history/historyService'
+import type { IShapeService } from './shapeService'
+
+/** 形状集合的引用，解析为形状服务 */
+export const SHAPES_REF = 'shapes'
+
+const SHAPE_REF_PREFIX = 'shape:'
+
+/**
+ * 单个形状的引用，属性命令经此引用更新形状
+ */
+export function getShapeRef(id: string): string {
+  return `${SHAPE_REF_PREFIX}${id}`
+}
+
+type ShapeStore = Pick<IShapeService, 'addShape' | 'removeShape' | 'getShapeEntity'>
+
+/**
+ * 序列化后的形状快照：日期转为 ISO 字符串，像素数据编码为 base64
+ */
+type SerializedShapeSnapshot = Record<string, unknown> & {
+  createdAt: string
+  updatedAt: string
+  imageData?: IDocumentAsset['imageData']
+}
+
+/**
+ * 添加形状命令
+ */
+export class AddShapeCommand implements ICommand {
+  static readonly TYPE = 'shape-add'
+
+  private readonly snapshot: ShapeEntity
+  public description: string
+
+  constructor(
+    private readonly shapes: ShapeStore,
+    private readonly entity: ShapeEntity,
+    description?: string
+  ) {
+    // 实体加入画布后会被原地更新，序列化使用添加时的快照
+    this.snapshot = cloneShape(entity)
+    this.description = description || 'Add shape'
+  }
+
+  execute(): void {
+    if (!this.shapes.getShapeEntity(this.entity.id)) this.shapes.addShape(this.entity)
+  }
+
+  undo(): void {
+    this.shapes.removeShape(this.entity.id)
+  }
+
+  toJSON(): ISerializedCommand {
+    return {
+      type: AddShapeCommand.TYPE,
+      description: this.description,
+      data: { shape: serializeShape(this.snapshot) },
+    }
+  }
+
+  static fromJSON(json: ISerializedCommand, context: ICommandContext): AddShapeCommand {
+    const data = json.data as { shape: SerializedShapeSnapshot }
+    return new AddShapeCommand(
+      resolveCommandTarget<ShapeStore>(context, SHAPES_REF),
+      deserializeShape(data.shape),
+      json.description
+    )
+  }
+}
+
+/**
+ * 删除形状命令
+ */
+export class RemoveShapeCommand implements ICommand {
+  static readonly TYPE = 'shape-remove'
+
+  private readonly snapshot: ShapeEntity
+  public description: string
+
+  constructor(
+    private readonly shapes: ShapeStore,
+    private readonly entity: ShapeEntity,
+    description?: string
+  ) {
+    this.snapshot = cloneShape(entity)
+    this.description = description || 'Delete shape'
+  }
+
+  execute(): void {
+    if (this.shapes.getShapeEntity(this.entity.id)) this.shapes.removeShape(this.entity.id)
+  }
+
+  undo(): void {
+    this.shapes.addShape(this.entity)
+  }
+
+  toJSON(): ISerializedCommand {
+    return {
+      type: RemoveShapeCommand.TYPE,
+      description: this.description,
+      data: { shape: serializeShape(this.snapshot) },
+    }
+  }
+
+  static fromJSON(json: ISerializedCommand, context: ICommandContext): RemoveShapeCommand {
+    const data = json.data as { shape: SerializedShapeSnapshot }
+    return new RemoveShapeCommand(
+      resolveCommandTarget<ShapeStore>(context, SHAPES_REF),
+      deserializeShape(data.shape),
+      json.description
+    )
+  }
+}
+
+commandRegistry.register(AddShapeCommand.TYPE, AddShapeCommand.fromJSON)
+commandRegistry.register(RemoveShapeCommand.TYPE, RemoveShapeCommand.fromJSON)
+
+/**
+ * 形状命令的反序列化上下文：SHAPES_REF 解析为形状服务，形状引用解析为形状实体，
+ * 属性经形状服务写回以同步视图
+ */
+export function createShapeCommandContext(
+  shapeService: Pick<IShapeService, 'addShape' | 'removeShape' | 'getShapeEntity' | 'updateShape'>
+): ICommandContext {
+  return {
+    resolve: (ref) => {
+      if (ref === SHAPES_REF) return shapeService
+      return ref.startsWith(SHAPE_REF_PREFIX)
+        ? shapeService.getShapeEntity(ref.slice(SHAPE_REF_PREFIX.length))
+        : undefined
+    },
+    update: (ref, values) => {
+      if (!ref.startsWith(SHAPE_REF_PREFIX)) {
+        throw new CommandSerializationError(`Cannot update command target: ${ref}`)
+      }
+      shapeService.updateShape(ref.slice(SHAPE_REF_PREFIX.length), values as Partial<ShapeEntity>)
+    },
+  }
+}
+
+/**
+ * 深拷贝形状，像素数据不可变，保留原引用
+ */
+function cloneShape(entity: ShapeEntity): ShapeEntity {
+  const { imageData, createdAt, updatedAt, ...rest } = entity as ShapeEntity & {
+    imageData?: IImageDataLike
+  }
+  return {
+    ...(JSON.parse(JSON.stringify(rest)) as object),
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(updatedAt),
+    ...(imageData ? { imageData } : {}),
+  } as ShapeEntity
+}
+
+function serializeShape(entity: ShapeEntity): SerializedShapeSnapshot {
+  const { imageData, createdAt, updatedAt, ...rest } = entity as ShapeEntity & {
+    imageData?: IImageDataLike
+  }
+  return {
+    ...(JSON.parse(JSON.stringify(rest)) as Record<string, unknown>),
+    createdAt: new Date(createdAt).toISOString(),
+    updatedAt: new Date(updatedAt).toISOString(),
+    ...(imageData ? { imageData: encodeImageData(imageData) } : {}),
+  }
+}
+
+function deserializeShape(data: SerializedShapeSnapshot): ShapeEntity {
+  if (typeof data?.id !== 'string' || typeof data.type !== 'string') {
+    throw new CommandSerializationError('Invalid shape snapshot: missing id or type')
+  }
+  const { imageData, createdAt, updatedAt, ...rest } = data
+  return {
+    ...(JSON.parse(JSON.stringify(rest)) as object),
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(updatedAt),
+    ...(imageData ? { imageData: decodeImageData(imageData) } : {}),
+  } as ShapeEntity
+}
@@ -4,8 +4,10 @@
 
 import type { IRenderable } from '@sky-canvas/render-engine'
 import { createDecorator } from '../../di'
-import type { ShapeEntity } from '../../models/entities/Shape'
+import type { IFrameEntity, ShapeEntity } from '../../models/entities/Shape'
+import { getParentFrameId } from '../../views/FrameGeometry'
 import { RenderableShapeView } from '../../views/RenderableShapeView'
+
 /**
  * 形状服务接口
  */
@@ -23,8 +25,8 @@ export interface IShapeService {
   getAllShapeViews(): RenderableShapeView[]
   getRenderables(): IRenderable[]
 
-  // 碰撞检测
-  hitTest(x: number, y: number): string | null
+  // 碰撞检测（tolerance 为世界坐标容差）
+  hitTest(x: number, y: number, tolerance?: number): string | null
 
   // 清理操作
   clear(): void
@@ -60,6 +62,7 @@ export class ShapeService implements IShapeService {
     // 创建视图
     const view = new RenderableShapeView(entity)
     this.views.set(entity.id, view)
+    this.syncFrameClip(entity)
 
     return view
   }
@@ -68,6 +71,7 @@ export class ShapeService implements IShapeService {
    * 移除形状
    */
   removeShape(id: string): void {
+    const entity = this.entities.get(id)
     this.entities.delete(id)
 
     const view = this.views.get(id)
@@ -75,6 +79,7 @@ export class ShapeService implements IShapeService {
       view.dispose()
       this.views.delete(id)
     }
+    if (entity?.type === 'frame') this.syncFrameClip(entity)
   }
 
   /**
@@ -92,6 +97,7 @@ export class ShapeService implements IShapeService {
     if (view) {
       view.updateEntity(entity)
     }
+    this.syncFrameClip(entity)
   }
 
   /**
@@ -130,13 +136,13 @@ export class ShapeService implements IShapeService {
   }
 
   /**
-   * 碰撞检测
+   * 碰撞检测 - 按 zIndex 从上到下返回第一个命中的可见形状
    */
-  hitTest(x: number, y: number): string | null {
+  hitTest(x: number, y: number, tolerance: number = 0): string | null {
     const sortedViews = Array.from(this.views.entries()).sort(([, a], [, b]) => b.zIndex - a.zIndex)
 
     for (const [id, view] of sortedViews) {
-      if (view.visible && view.hitTest({ x, y })) {
+      if (view.visible && view.hitTest({ x, y }, tolerance)) {
         return id
       }
     }
@@ -157,6 +163,33 @@ export class ShapeService implements IShapeService {
     this.views.clear()
   }
 
+  /**
+   * 同步画框裁剪：形状按所属画框（编组内的形状按编组所属画框）裁剪，画框变化时同步其子形状
+   */
+  private syncFrameClip(entity: ShapeEntity): void {
+    const targets = entity.type === 'frame' ? [entity.id, ...entity.childrenIds] : [entity.id]
+    for (const id of targets) {
+      const shape = this.entities.get(id)
+      const view = this.views.get(id)
+      if (!shape || !view) continue
+      const ids = shape.type === 'group' ? [id, ...shape.childrenIds] : [id]
+      for (const targetId of ids) {
+        const target = this.entities.get(targetId)
+        this.views.get(targetId)?.setClipFrame(target ? this.resolveClipFrame(target) : null)
+      }
+    }
+  }
+
+  private resolveClipFrame(shape: ShapeEntity): IFrameEntity | null {
+    const groupId = shape.metadata?.groupId
+    const owner = typeof groupId === 'string' ? (this.entities.get(groupId) ?? shape) : shape
+    const frameId = getParentFrameId(owner)
+    const frame = frameId ? this.entities.get(frameId) : undefined
+    return frame?.type === 'frame' && frame.clipContent && frame.childrenIds.includes(owner.id)
+      ? frame
+      : null
+  }
+
   /**
    * 获取统计信息
    */
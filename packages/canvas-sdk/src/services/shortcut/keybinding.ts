@@ -0,0 +1,179 @@
+/**
+ * 按键序列的解析、规范化与显示
+ * 规范形式：修饰键按 ctrl、shift、alt、meta 排序后以 + 连接主键，和弦的各步以空格分隔，如 'ctrl+k ctrl+s'；
+ * 空格键与加号键分别写作 space、plus
+ */
+
+/**
+ * 平台：Mac 上 mod 对应 Cmd，其他平台对应 Ctrl
+ */
+export type KeybindingPlatform = 'mac' | 'other'
+
+/**
+ * 快捷键格式错误
+ */
+export class KeybindingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'KeybindingError'
+  }
+}
+
+const MODIFIERS = ['ctrl', 'shift', 'alt', 'meta'] as const
+
+const MODIFIER_ALIASES: Record<string, (typeof MODIFIERS)[number] | 'mod'> = {
+  ctrl: 'ctrl',
+  control: 'ctrl',
+  shift: 'shift',
+  alt: 'alt',
+  option: 'alt',
+  opt: 'alt',
+  meta: 'meta',
+  cmd: 'meta',
+  command: 'meta',
+  win: 'meta',
+  mod: 'mod',
+  ctrlcmd: 'mod',
+  cmdorctrl: 'mod',
+}
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'escape',
+  del: 'delete',
+  ins: 'insert',
+  return: 'enter',
+  ' ': 'space',
+  spacebar: 'space',
+  '+': 'plus',
+  up: 'arrowup',
+  down: 'arrowdown',
+  left: 'arrowleft',
+  right: 'arrowright',
+}
+
+/** 单独按下时不构成按键的修饰键 */
+const MODIFIER_KEYS = new Set(['control', 'shift', 'alt', 'meta', 'altgraph', 'os'])
+
+const MAC_SYMBOLS: Record<string, string> = { ctrl: '⌃', shift: '⇧', alt: '⌥', meta: '⌘' }
+const OTHER_NAMES: Record<string, string> = {
+  ctrl: 'Ctrl',
+  shift: 'Shift',
+  alt: 'Alt',
+  meta: 'Win',
+}
+const KEY_LABELS: Record<string, string> = {
+  space: 'Space',
+  plus: '+',
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→',
+  escape: 'Esc',
+  delete: 'Del',
+  backspace: '⌫',
+  enter: '↵',
+}
+
+export function detectPlatform(): KeybindingPlatform {
+  if (typeof navigator === 'undefined') return 'other'
+  const platform =
+    (navigator as Navigator & { userAgentData?: { platform?: string } }).userAgentData?.platform ??
+    navigator.platform ??
+    ''
+  return /mac|iphone|ipad|ipod/i.test(platform) ? 'mac' : 'other'
+}
+
+function normalizeKey(key: string): string {
+  const lower = key.toLowerCase()
+  return KEY_ALIASES[lower] ?? lower
+}
+
+/**
+ * 规范化单步按键，如 'Shift+Mod+Z' 在 Windows 上得到 'ctrl+shift+z'
+ */
+export function normalizeKeystroke(stroke: string, platform: KeybindingPlatform): string {
+  // 末尾的 '+' 是主键本身（如 'ctrl++'）
+  const parts = stroke.endsWith('+')
+    ? [...stroke.slice(0, -1).split('+').filter(Boolean), '+']
+    : stroke.split('+')
+  const key = parts.pop()?.trim()
+  if (!key) throw new KeybindingError(`Invalid keystroke "${stroke}"`)
+
+  const modifiers = new Set<string>()
+  for (const part of parts) {
+    const alias = MODIFIER_ALIASES[part.trim().toLowerCase()]
+    if (!alias) throw new KeybindingError(`Unknown modifier "${part}" in "${stroke}"`)
+    modifiers.add(alias === 'mod' ? (platform === 'mac' ? 'meta' : 'ctrl') : alias)
+  }
+  return [...MODIFIERS.filter((modifier) => modifiers.has(modifier)), normalizeKey(key)].join('+')
+}
+
+/**
+ * 规范化按键序列，和弦的各步以空格分隔
+ */
+export function normalizeKeybinding(keybinding: string, platform: KeybindingPlatform): string {
+  const strokes = keybinding.trim().split(/\s+/).filter(Boolean)
+  if (strokes.length === 0) throw new KeybindingError('Empty keybinding')
+  return strokes.map((stroke) => normalizeKeystroke(stroke, platform)).join(' ')
+}
+
+/**
+ * 把旧式的键加修饰键配置转换为按键序列字符串
+ */
+export function toKeybinding(config: {
+  key: string
+  ctrlKey?: boolean
+  shiftKey?: boolean
+  altKey?: boolean
+  metaKey?: boolean
+}): string {
+  const modifiers = [
+    config.ctrlKey && 'ctrl',
+    config.shiftKey && 'shift',
+    config.altKey && 'alt',
+    config.metaKey && 'meta',
+  ].filter(Boolean)
+  // '+' 与空格会被当作分隔符，先换成键名
+  return [...modifiers, normalizeKey(config.key)].join('+')
+}
+
+/**
+ * 键盘事件对应的规范化按键，只按下修饰键时返回 null
+ * 字母与数字取物理键位，使 Alt/Option 组合键不受输入法字符影响
+ */
+export function getEventKeystroke(event: KeyboardEvent): string | null {
+  if (!event.key || MODIFIER_KEYS.has(event.key.toLowerCase())) return null
+
+  const code = event.code ?? ''
+  const letter = /^Key([A-Z])$/.exec(code)
+  const digit = /^Digit([0-9])$/.exec(code)
+  const key = letter ? letter[1] : digit ? digit[1] : event.key
+
+  const modifiers = [
+    event.ctrlKey && 'ctrl',
+    event.shiftKey && 'shift',
+    event.altKey && 'alt',
+    event.metaKey && 'meta',
+  ].filter(Boolean)
+  return [...modifiers, normalizeKey(key)].join('+')
+}
+
+/**
+ * 面向用户的显示文本：Mac 使用符号（⌘⇧Z），其他平台使用 Ctrl+Shift+Z
+ */
+export function formatKeybinding(keybinding: string, platform: KeybindingPlatform): string {
+  return normalizeKeybinding(keybinding, platform)
+    .split(' ')
+    .map((stroke) => {
+      const parts = stroke.split('+')
+      const key = parts.pop() as string
+      const label = KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : capitalize(key))
+      if (platform === 'mac') return parts.map((part) => MAC_SYMBOLS[part]).join('') + label
+      return [...parts.map((part) => OTHER_NAMES[part]), label].join('+')
+    })
+    .join(' ')
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
@@ -1,19 +1,32 @@
 /**
  * 快捷键服务 - 处理键盘快捷键功能
  * 功能单一：只负责快捷键的注册、监听和触发
+ * 支持和弦（如 g 之后按 r）、when 条件、冲突检测，以及可覆盖和重置的用户键位表
  */
 
 import { createDecorator } from '../../di'
+import {
+  detectPlatform,
+  getEventKeystroke,
+  KeybindingError,
+  type KeybindingPlatform,
+  normalizeKeybinding,
+  toKeybinding,
+} from './keybinding'
+import { type ContextValue, mayOverlap, parseWhenExpression } from './whenExpression'
 
 /**
  * 快捷键配置
  */
 export interface IShortcutConfig {
+  /** 主键，或完整的按键序列，如 'mod+shift+z'、'g r'（mod 在 Mac 上为 Cmd，其他平台为 Ctrl） */
   key: string
   ctrlKey?: boolean
   shiftKey?: boolean
   altKey?: boolean
   metaKey?: boolean
+  /** 生效条件，如 '!textEditing && hasSelection' */
+  when?: string
   description?: string
 }
 
@@ -31,6 +44,39 @@ export interface IShortcutEventData {
   event: KeyboardEvent
 }
 
+/**
+ * 用户键位表中的一条规则（JSON 格式与 VS Code 的 keybindings.json 相同），
+ * command 以 - 开头时移除该命令在 key 上的默认快捷键，key 为空则移除全部
+ */
+export interface IKeybindingRule {
+  key: string
+  command: string
+  when?: string
+}
+
+/**
+ * 生效中的快捷键，key 为规范化后的按键序列
+ */
+export interface IResolvedKeybinding {
+  command: string
+  key: string
+  when?: string
+  source: 'default' | 'user'
+  description?: string
+}
+
+/**
+ * 快捷键冲突：duplicate 为同一按键序列对应多个命令；
+ * shadowed 为按键是另一和弦的前缀，按下后会等待和弦的下一步而不会触发
+ */
+export interface IKeybindingConflict {
+  key: string
+  kind: 'duplicate' | 'shadowed'
+  bindings: IResolvedKeybinding[]
+}
+
+export type KeymapChangeListener = (keymap: IKeybindingRule[]) => void
+
 /**
  * 快捷键服务接口
  */
@@ -38,10 +84,34 @@ export interface IShortcutService {
   readonly _serviceBrand: undefined
   register(id: string, config: IShortcutConfig, handler: ShortcutHandler): void
   unregister(id: string): void
+  /** 只注册或替换命令的处理器，不改变快捷键；返回的函数恢复之前的处理器 */
+  registerCommand(id: string, handler: ShortcutHandler): () => void
+  executeCommand(id: string, event?: KeyboardEvent): boolean
   enable(): void
   disable(): void
   isEnabled(): boolean
   getRegisteredShortcuts(): Map<string, { config: IShortcutConfig; handler: ShortcutHandler }>
+
+  /** 设置 when 条件使用的上下文键，值可以是取值函数以便按键时再读取 */
+  setContext(key: string, value: ContextValue | (() => ContextValue)): void
+  getContext(key: string): ContextValue
+
+  getPlatform(): KeybindingPlatform
+  getKeybindings(): IResolvedKeybinding[]
+  getKeybindingsForCommand(command: string): IResolvedKeybinding[]
+  getConflicts(): IKeybindingConflict[]
+  /** 正在等待下一步的和弦前缀 */
+  getPendingChord(): string | null
+
+  /** 用 JSON 字符串或规则数组替换用户键位表，格式错误时抛出 KeybindingError */
+  setUserKeymap(keymap: IKeybindingRule[] | string): void
+  getUserKeymap(): IKeybindingRule[]
+  /** 把命令改绑到 key，覆盖它的默认快捷键 */
+  setKeybinding(command: string, key: string, when?: string): void
+  resetKeybinding(command: string): void
+  resetKeymap(): void
+  onDidChangeKeymap(listener: KeymapChangeListener): () => void
+
   clear(): void
   dispose(): void
 }
@@ -51,12 +121,24 @@ export interface IShortcutService {
  */
 export const IShortcutService = createDecorator<IShortcutService>('ShortcutService')
 
+/** 和弦前缀按下后等待下一步的时间 */
+const CHORD_TIMEOUT = 2000
+
 /**
  * 快捷键服务实现
  */
 export class ShortcutService implements IShortcutService {
   readonly _serviceBrand: undefined
   private shortcuts = new Map<string, { config: IShortcutConfig; handler: ShortcutHandler }>()
+  /** 没有默认快捷键、只能由用户键位表绑定的命令 */
+  private commands = new Map<string, ShortcutHandler>()
+  private context = new Map<string, ContextValue | (() => ContextValue)>()
+  private userKeymap: IKeybindingRule[] = []
+  private resolved: IResolvedKeybinding[] | null = null
+  private keymapListeners = new Set<KeymapChangeListener>()
+  private pendingChord: string | null = null
+  private chordTimer: ReturnType<typeof setTimeout> | null = null
+  private readonly platform: KeybindingPlatform = detectPlatform()
   private enabled = false
   private boundHandler: (event: KeyboardEvent) => void
 
@@ -65,11 +147,39 @@ export class ShortcutService implements IShortcutService {
   }
 
   register(id: string, config: IShortcutConfig, handler: ShortcutHandler): void {
+    this.resolveConfigKey(config)
+    if (config.when) parseWhenExpression(config.when)
     this.shortcuts.set(id, { config, handler })
+    this.resolved = null
   }
 
   unregister(id: string): void {
     this.shortcuts.delete(id)
+    this.commands.delete(id)
+    this.resolved = null
+  }
+
+  registerCommand(id: string, handler: ShortcutHandler): () => void {
+    const entry = this.shortcuts.get(id)
+    const previous = entry ? entry.handler : this.commands.get(id)
+    if (entry) this.shortcuts.set(id, { ...entry, handler })
+    else this.commands.set(id, handler)
+
+    return () => {
+      const current = this.shortcuts.get(id)
+      if (current && current.handler === handler && previous) {
+        this.shortcuts.set(id, { ...current, handler: previous })
+      } else if (!current && this.commands.get(id) === handler) {
+        if (previous) this.commands.set(id, previous)
+        else this.commands.delete(id)
+      }
+    }
+  }
+
+  executeCommand(id: string, event?: KeyboardEvent): boolean {
+    const handler = this.shortcuts.get(id)?.handler ?? this.commands.get(id)
+    if (!handler) return false
+    return handler(event ?? new KeyboardEvent('keydown')) !== false
   }
 
   enable(): void {
@@ -83,6 +193,7 @@ export class ShortcutService implements IShortcutService {
     if (!this.enabled) return
 
     this.enabled = false
+    this.clearPendingChord()
     document.removeEventListener('keydown', this.boundHandler, true)
   }
 
@@ -94,13 +205,147 @@ export class ShortcutService implements IShortcutService {
     return new Map(this.shortcuts)
   }
 
+  setContext(key: string, value: ContextValue | (() => ContextValue)): void {
+    this.context.set(key, value)
+  }
+
+  getContext(key: string): ContextValue {
+    const value = this.context.get(key)
+    return typeof value === 'function' ? value() : value
+  }
+
+  getPlatform(): KeybindingPlatform {
+    return this.platform
+  }
+
+  getKeybindings(): IResolvedKeybinding[] {
+    if (this.resolved) return [...this.resolved]
+
+    const removals = this.userKeymap.filter((rule) => rule.command.startsWith('-'))
+    const defaults: IResolvedKeybinding[] = []
+    for (const [command, { config }] of this.shortcuts) {
+      const key = this.resolveConfigKey(config)
+      const removed = removals.some(
+        (rule) => rule.command.slice(1) === command && (!rule.key || rule.key === key)
+      )
+      if (removed) continue
+      defaults.push({
+        command,
+        key,
+        when: config.when,
+        source: 'default',
+        description: config.description,
+      })
+    }
+    const user: IResolvedKeybinding[] = this.userKeymap
+      .filter((rule) => !rule.command.startsWith('-'))
+      .map((rule) => ({
+        command: rule.command,
+        key: rule.key,
+        when: rule.when,
+        source: 'user',
+        description: this.shortcuts.get(rule.command)?.config.description,
+      }))
+
+    this.resolved = [...defaults, ...user]
+    return [...this.resolved]
+  }
+
+  getKeybindingsForCommand(command: string): IResolvedKeybinding[] {
+    return this.getKeybindings().filter((binding) => binding.command === command)
+  }
+
+  getConflicts(): IKeybindingConflict[] {
+    const bindings = this.getKeybindings()
+    const conflicts: IKeybindingConflict[] = []
+    const byKey = new Map<string, IResolvedKeybinding[]>()
+    for (const binding of bindings) {
+      byKey.set(binding.key, [...(byKey.get(binding.key) ?? []), binding])
+    }
+
+    for (const [key, group] of byKey) {
+      const overlapping = group.filter((binding) =>
+        group.some(
+          (other) =>
+            other !== binding &&
+            other.command !== binding.command &&
+            mayOverlap(binding.when, other.when)
+        )
+      )
+      if (overlapping.length > 1) conflicts.push({ key, kind: 'duplicate', bindings: overlapping })
+
+      const chords = bindings.filter(
+        (other) =>
+          other.key.startsWith(`${key} `) &&
+          group.some((binding) => mayOverlap(binding.when, other.when))
+      )
+      if (chords.length > 0)
+        conflicts.push({ key, kind: 'shadowed', bindings: [...group, ...chords] })
+    }
+    return conflicts
+  }
+
+  getPendingChord(): string | null {
+    return this.pendingChord
+  }
+
+  setUserKeymap(keymap: IKeybindingRule[] | string): void {
+    let rules: unknown = keymap
+    if (typeof keymap === 'string') {
+      try {
+        rules = keymap.trim() ? JSON.parse(keymap) : []
+      } catch (error) {
+        throw new KeybindingError(`Keymap is not valid JSON: ${(error as Error).message}`)
+      }
+    }
+    if (!Array.isArray(rules)) throw new KeybindingError('Keymap must be an array of keybindings')
+
+    // 全部校验通过后才替换，避免留下一半生效的键位表
+    this.userKeymap = rules.map((rule, index) => this.normalizeRule(rule, index))
+    this.notifyKeymapChanged()
+  }
+
+  getUserKeymap(): IKeybindingRule[] {
+    return this.userKeymap.map((rule) => ({ ...rule }))
+  }
+
+  setKeybinding(command: string, key: string, when?: string): void {
+    const rules = this.userKeymap.filter(
+      (rule) => rule.command !== command && rule.command !== `-${command}`
+    )
+    const entry = this.shortcuts.get(command)
+    if (entry) rules.push({ key: this.resolveConfigKey(entry.config), command: `-${command}` })
+    rules.push(when ? { key, command, when } : { key, command })
+    this.setUserKeymap(rules)
+  }
+
+  resetKeybinding(command: string): void {
+    this.setUserKeymap(
+      this.userKeymap.filter((rule) => rule.command !== command && rule.command !== `-${command}`)
+    )
+  }
+
+  resetKeymap(): void {
+    this.setUserKeymap([])
+  }
+
+  onDidChangeKeymap(listener: KeymapChangeListener): () => void {
+    this.keymapListeners.add(listener)
+    return () => this.keymapListeners.delete(listener)
+  }
+
   clear(): void {
     this.shortcuts.clear()
+    this.commands.clear()
+    this.resolved = null
+    this.clearPendingChord()
   }
 
   dispose(): void {
     this.disable()
-    this.shortcuts.clear()
+    this.clear()
+    this.context.clear()
+    this.keymapListeners.clear()
   }
 
   private handleKeydown(event: KeyboardEvent): void {
@@ -111,36 +356,99 @@ export class ShortcutService implements IShortcutService {
         target.tagName === 'TEXTAREA' ||
         target.contentEditable === 'true')
     ) {
+      this.clearPendingChord()
       return
     }
 
-    for (const [_id, { config, handler }] of this.shortcuts) {
-      if (this.matchesShortcut(event, config)) {
-        const result = handler(event)
+    const stroke = getEventKeystroke(event)
+    if (!stroke) return
 
-        if (result !== false) {
-          event.preventDefault()
-          event.stopPropagation()
-        }
+    const sequence = this.pendingChord ? `${this.pendingChord} ${stroke}` : stroke
+    const wasPending = this.pendingChord !== null
+    this.clearPendingChord()
+
+    // 用户规则与后注册的快捷键优先
+    const active = this.getKeybindings()
+      .reverse()
+      .filter((binding) => this.matchesWhen(binding.when))
+    if (active.some((binding) => binding.key.startsWith(`${sequence} `))) {
+      this.pendingChord = sequence
+      this.chordTimer = setTimeout(() => this.clearPendingChord(), CHORD_TIMEOUT)
+      event.preventDefault()
+      event.stopPropagation()
+      return
+    }
 
-        break
+    for (const binding of active) {
+      if (binding.key !== sequence) continue
+      const handler =
+        this.shortcuts.get(binding.command)?.handler ?? this.commands.get(binding.command)
+      if (!handler) continue
+
+      if (handler(event) !== false) {
+        event.preventDefault()
+        event.stopPropagation()
       }
+      return
+    }
+
+    // 和弦的第二步不匹配时吞掉该按键，避免误触发单键快捷键
+    if (wasPending) {
+      event.preventDefault()
+      event.stopPropagation()
     }
   }
 
+  private matchesWhen(when: string | undefined): boolean {
+    if (!when) return true
+    return parseWhenExpression(when).evaluate((key) => this.getContext(key))
+  }
+
   /**
-   * 检查键盘事件是否匹配快捷键配置
+   * 配置的按键序列：主键为单个字符或带修饰键标志时按旧式配置组合，否则视为完整的按键序列
    */
-  private matchesShortcut(event: KeyboardEvent, config: IShortcutConfig): boolean {
-    if (event.key.toLowerCase() !== config.key.toLowerCase()) {
-      return false
+  private resolveConfigKey(config: IShortcutConfig): string {
+    const legacy =
+      config.key.length === 1 ||
+      config.ctrlKey ||
+      config.shiftKey ||
+      config.altKey ||
+      config.metaKey
+    return normalizeKeybinding(legacy ? toKeybinding(config) : config.key, this.platform)
+  }
+
+  private normalizeRule(rule: unknown, index: number): IKeybindingRule {
+    const { key, command, when } = (rule ?? {}) as Partial<IKeybindingRule>
+    if (typeof command !== 'string' || !command.replace(/^-/, '')) {
+      throw new KeybindingError(`Keybinding #${index + 1} is missing "command"`)
+    }
+    if (typeof key !== 'string' || (!key.trim() && !command.startsWith('-'))) {
+      throw new KeybindingError(`Keybinding #${index + 1} is missing "key"`)
+    }
+    if (when !== undefined && typeof when !== 'string') {
+      throw new KeybindingError(`Keybinding #${index + 1} has an invalid "when"`)
     }
+    if (when) parseWhenExpression(when)
 
-    if (!!event.ctrlKey !== !!config.ctrlKey) return false
-    if (!!event.shiftKey !== !!config.shiftKey) return false
-    if (!!event.altKey !== !!config.altKey) return false
-    if (!!event.metaKey !== !!config.metaKey) return false
+    const normalized: IKeybindingRule = {
+      key: key.trim() ? normalizeKeybinding(key, this.platform) : '',
+      command,
+    }
+    if (when) normalized.when = when
+    return normalized
+  }
 
-    return true
+  private notifyKeymapChanged(): void {
+    this.resolved = null
+    const keymap = this.getUserKeymap()
+    for (const listener of this.keymapListeners) listener(keymap)
+  }
+
+  private clearPendingChord(): void {
+    this.pendingChord = null
+    if (this.chordTimer) {
+      clearTimeout(this.chordTimer)
+      this.chordTimer = null
+    }
   }
 }
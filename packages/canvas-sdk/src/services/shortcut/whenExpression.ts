@@ -0,0 +1,220 @@
+/**
+ * 快捷键 when 条件表达式
+ * 语法与 VS Code 相同的子集：标识符、!、&&、||、括号，以及 ==、!=、<、<=、>、>= 比较，
+ * 比较的右值可以是带引号的字符串或裸值，如 `activeTool == select && !textEditing`
+ */
+
+import { KeybindingError } from './keybinding'
+
+/**
+ * 上下文键的取值
+ */
+export type ContextValue = string | number | boolean | null | undefined
+
+/**
+ * 按键名读取上下文
+ */
+export type ContextLookup = (key: string) => ContextValue
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>='
+
+type WhenNode =
+  | { type: 'key'; key: string }
+  | { type: 'not'; operand: WhenNode }
+  | { type: 'and' | 'or'; operands: WhenNode[] }
+  | { type: 'compare'; key: string; operator: ComparisonOperator; value: string }
+
+/**
+ * 已解析的条件表达式
+ */
+export interface IWhenExpression {
+  readonly source: string
+  evaluate(context: ContextLookup): boolean
+}
+
+const TOKEN = /\s*(&&|\|\||==|!=|<=|>=|[()!<>]|'[^']*'|"[^"]*"|[^\s()!&|=<>'"]+)/y
+
+function tokenize(source: string): string[] {
+  const tokens: string[] = []
+  TOKEN.lastIndex = 0
+  while (TOKEN.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(TOKEN.lastIndex))) break
+    const start = TOKEN.lastIndex
+    const match = TOKEN.exec(source)
+    if (!match) {
+      throw new KeybindingError(`Unexpected character in when clause at ${start}: "${source}"`)
+    }
+    tokens.push(match[1])
+  }
+  return tokens
+}
+
+class WhenParser {
+  private index = 0
+
+  constructor(
+    private readonly tokens: string[],
+    private readonly source: string
+  ) {}
+
+  parse(): WhenNode {
+    const node = this.parseOr()
+    if (this.index < this.tokens.length) this.fail(`unexpected "${this.tokens[this.index]}"`)
+    return node
+  }
+
+  private parseOr(): WhenNode {
+    const operands = [this.parseAnd()]
+    while (this.peek() === '||') {
+      this.index++
+      operands.push(this.parseAnd())
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands }
+  }
+
+  private parseAnd(): WhenNode {
+    const operands = [this.parseUnary()]
+    while (this.peek() === '&&') {
+      this.index++
+      operands.push(this.parseUnary())
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands }
+  }
+
+  private parseUnary(): WhenNode {
+    const token = this.next()
+    if (token === '!') return { type: 'not', operand: this.parseUnary() }
+    if (token === '(') {
+      const node = this.parseOr()
+      if (this.next() !== ')') this.fail('missing ")"')
+      return node
+    }
+    if (!token || !isOperand(token)) this.fail(`expected a context key but got "${token ?? 'end'}"`)
+
+    const operator = this.peek()
+    if (operator && ['==', '!=', '<', '<=', '>', '>='].includes(operator)) {
+      this.index++
+      const value = this.next()
+      if (!value || !isOperand(value)) this.fail(`expected a value after "${operator}"`)
+      return {
+        type: 'compare',
+        key: token,
+        operator: operator as ComparisonOperator,
+        value: unquote(value),
+      }
+    }
+    return { type: 'key', key: token }
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.index]
+  }
+
+  private next(): string | undefined {
+    return this.tokens[this.index++]
+  }
+
+  private fail(reason: string): never {
+    throw new KeybindingError(`Invalid when clause "${this.source}": ${reason}`)
+  }
+}
+
+function isOperand(token: string): boolean {
+  return !['&&', '||', '==', '!=', '<', '<=', '>', '>=', '(', ')', '!'].includes(token)
+}
+
+function unquote(token: string): string {
+  return /^(['"]).*\1$/.test(token) ? token.slice(1, -1) : token
+}
+
+function evaluateNode(node: WhenNode, context: ContextLookup): boolean {
+  switch (node.type) {
+    case 'key':
+      return Boolean(context(node.key))
+    case 'not':
+      return !evaluateNode(node.operand, context)
+    case 'and':
+      return node.operands.every((operand) => evaluateNode(operand, context))
+    case 'or':
+      return node.operands.some((operand) => evaluateNode(operand, context))
+    case 'compare':
+      return compare(context(node.key), node.operator, node.value)
+  }
+}
+
+function compare(actual: ContextValue, operator: ComparisonOperator, expected: string): boolean {
+  if (operator === '==') return String(actual) === expected
+  if (operator === '!=') return String(actual) !== expected
+  const left = Number(actual)
+  const right = Number(expected)
+  if (Number.isNaN(left) || Number.isNaN(right)) return false
+  if (operator === '<') return left < right
+  if (operator === '<=') return left <= right
+  if (operator === '>') return left > right
+  return left >= right
+}
+
+const cache = new Map<string, WhenNode>()
+
+function parseNode(source: string): WhenNode {
+  let node = cache.get(source)
+  if (!node) {
+    node = new WhenParser(tokenize(source), source).parse()
+    cache.set(source, node)
+  }
+  return node
+}
+
+/**
+ * 解析 when 条件，语法错误时抛出 KeybindingError
+ */
+export function parseWhenExpression(source: string): IWhenExpression {
+  const node = parseNode(source)
+  return { source, evaluate: (context) => evaluateNode(node, context) }
+}
+
+type WhenTerm = { key: string; operator: 'truthy' | 'falsy' | '==' | '!='; value?: string }
+
+/**
+ * 把只含 && 的条件拆成原子项；含 || 或数值比较时无法判断，返回 null
+ */
+function getConjunction(node: WhenNode): WhenTerm[] | null {
+  if (node.type === 'and') {
+    const terms: WhenTerm[] = []
+    for (const operand of node.operands) {
+      const inner = getConjunction(operand)
+      if (!inner) return null
+      terms.push(...inner)
+    }
+    return terms
+  }
+  if (node.type === 'key') return [{ key: node.key, operator: 'truthy' }]
+  if (node.type === 'not' && node.operand.type === 'key') {
+    return [{ key: node.operand.key, operator: 'falsy' }]
+  }
+  if (node.type === 'compare' && (node.operator === '==' || node.operator === '!=')) {
+    return [{ key: node.key, operator: node.operator, value: node.value }]
+  }
+  return null
+}
+
+function isExclusive(a: WhenTerm, b: WhenTerm): boolean {
+  if (a.key !== b.key) return false
+  const pair = `${a.operator} ${b.operator}`
+  if (pair === 'truthy falsy' || pair === 'falsy truthy') return true
+  if (pair === '== ==') return a.value !== b.value
+  if (pair === '== !=' || pair === '!= ==') return a.value === b.value
+  return false
+}
+
+/**
+ * 两个条件是否可能同时成立；只识别 `x` 与 `!x`、`k == a` 与 `k == b` 这类显式互斥，
+ * 无法判断时按可能同时成立处理
+ */
+export function mayOverlap(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return true
+  const left = getConjunction(parseNode(a))
+  const right = getConjunction(parseNode(b))
+  if (!left || !right) return true
+  return !left.some((term) => right.some((other) => isExclusive(term, other)))
+}
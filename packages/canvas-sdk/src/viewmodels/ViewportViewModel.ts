@@ -7,6 +7,7 @@ import { proxy, snapshot } from 'valtio'
 import type { ShapeEntity } from '../models/entities/Shape'
 import type { IConfigurationService } from '../services/configuration/configurationService'
 import type { IZoomService } from '../services/zoom/zoomService'
+import { getTextBounds } from '../views/TextLayout'
 import type { IViewportState, IViewportViewModel } from './interfaces/IViewModel'
 import { getShapeBounds } from './tools/selection'
 
@@ -180,14 +181,8 @@ export class ViewportViewModel implements IViewportViewModel {
         }
       }
       case 'text': {
-        const fontSize = (shape as any).fontSize || 16
-        const content = (shape as any).content || ''
-        return {
-          x: position.x,
-          y: position.y,
-          width: content.length * fontSize * 0.6,
-          height: fontSize,
-        }
+        const bounds = getTextBounds(shape)
+        return { ...bounds, x: position.x + bounds.x, y: position.y + bounds.y }
       }
       default:
         return {
@@ -7,7 +7,21 @@ import type { IPoint } from '@sky-canvas/render-engine'
 import type { ShapeEntity } from '../../models/entities/Shape'
 
 /**
- * Canvas 鼠标事件
+ * 指针采样（画布坐标）
+ */
+export interface IPointerSample {
+  x: number
+  y: number
+  /** 压力 0-1，无压感设备按下时为 0.5 */
+  pressure: number
+  /** 倾角（度，-90~90） */
+  tiltX: number
+  tiltY: number
+  timestamp: number
+}
+
+/**
+ * Canvas 鼠标事件（来自 Pointer Events 时附带设备类型与合并采样）
  */
 export interface ICanvasMouseEvent {
   point: IPoint
@@ -17,6 +31,10 @@ export interface ICanvasMouseEvent {
   metaKey: boolean
   altKey: boolean
   originalEvent?: MouseEvent
+  /** 指针类型：mouse、pen 或 touch */
+  pointerType?: string
+  /** 自上一事件以来的全部采样（含当前点） */
+  samples?: IPointerSample[]
 }
 
 /**
@@ -296,17 +314,17 @@ export interface IToolViewModel<T extends IToolState = IToolState> extends IView
   /**
    * 鼠标按下事件
    */
-  handleMouseDown?(x: number, y: number, event?: MouseEvent): void
+  handleMouseDown?(x: number, y: number, event?: MouseEvent, samples?: IPointerSample[]): void
 
   /**
    * 鼠标移动事件
    */
-  handleMouseMove?(x: number, y: number, event?: MouseEvent): void
+  handleMouseMove?(x: number, y: number, event?: MouseEvent, samples?: IPointerSample[]): void
 
   /**
    * 鼠标抬起事件
    */
-  handleMouseUp?(x: number, y: number, event?: MouseEvent): void
+  handleMouseUp?(x: number, y: number, event?: MouseEvent, samples?: IPointerSample[]): void
 
   /**
    * 键盘按下事件
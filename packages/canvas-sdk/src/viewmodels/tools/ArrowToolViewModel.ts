@@ -2,16 +2,29 @@ import type { IPoint } from '@sky-canvas/render-engine'
 import { proxy } from 'valtio'
 import { createDecorator } from '../../di'
 import { ICanvasManager } from '../../managers/CanvasManager'
-import { type IPathEntity, ShapeEntityFactory } from '../../models/entities/Shape'
+import {
+  type ConnectorArrowhead,
+  type ConnectorRouting,
+  type IConnectorEndpoint,
+  type IConnectorEntity,
+  type ShapeEntity,
+  ShapeEntityFactory,
+} from '../../models/entities/Shape'
+import { canBindConnector, getConnectorAnchor, routeConnector } from '../../views/ConnectorRouting'
 import type { IViewModel } from '../interfaces/IViewModel'
 
 export interface IArrowToolState {
   isDrawing: boolean
   startPoint: IPoint | null
   endPoint: IPoint | null
-  currentShape: IPathEntity | null
+  currentShape: IConnectorEntity | null
   cursor: string
   enabled: boolean
+  routing: ConnectorRouting
+  startArrowhead: ConnectorArrowhead
+  endArrowhead: ConnectorArrowhead
+  /** 指针下可绑定的形状 */
+  hoverShapeId: string | null
 }
 
 export interface IArrowToolViewModel extends IViewModel {
@@ -25,14 +38,23 @@ export interface IArrowToolViewModel extends IViewModel {
   handleMouseUp(x: number, y: number, event?: MouseEvent): void
 
   isCurrentlyDrawing(): boolean
-  getCurrentShape(): IPathEntity | null
+  getCurrentShape(): IConnectorEntity | null
+
+  setRouting(routing: ConnectorRouting): void
+  setArrowheads(start: ConnectorArrowhead, end: ConnectorArrowhead): void
 }
 
 export const IArrowToolViewModel = createDecorator<IArrowToolViewModel>('ArrowToolViewModel')
 
+/** 吸附到形状固定锚点的距离 */
+const ANCHOR_SNAP_DISTANCE = 10
+
+/**
+ * 箭头工具：绘制连接线，起止点落在形状上时绑定到该形状
+ */
 export class ArrowToolViewModel implements IArrowToolViewModel {
   private readonly _state: IArrowToolState
-  private readonly arrowHeadSize = 12
+  private readonly minLength = 10
 
   constructor(@ICanvasManager private canvasManager: ICanvasManager) {
     this._state = proxy<IArrowToolState>({
@@ -42,6 +64,10 @@ export class ArrowToolViewModel implements IArrowToolViewModel {
       currentShape: null,
       cursor: 'crosshair',
       enabled: false,
+      routing: 'straight',
+      startArrowhead: 'none',
+      endArrowhead: 'arrow',
+      hoverShapeId: null,
     })
   }
 
@@ -76,35 +102,34 @@ export class ArrowToolViewModel implements IArrowToolViewModel {
     this._state.startPoint = { x, y }
     this._state.endPoint = { x, y }
 
-    const pathData = this.generateArrowPath(x, y, x, y)
-    this._state.currentShape = ShapeEntityFactory.createPath(
-      pathData,
-      { x: 0, y: 0 },
+    const shapes = this.getShapeMap()
+    const connector = ShapeEntityFactory.createConnector(
+      { x, y },
+      { x, y },
       {
         strokeColor: '#8b5cf6',
         strokeWidth: 2,
         opacity: 1,
-      }
+      },
+      this._state.routing,
+      this._state.startArrowhead,
+      this._state.endArrowhead
     )
+    connector.start = { ...this.getBinding(x, y, shapes), point: { x: 0, y: 0 } }
+    this._state.currentShape = this.route(connector, shapes)
   }
 
   handleMouseMove(x: number, y: number, _event?: MouseEvent): void {
-    if (!this._state.enabled || !this._state.isDrawing) return
-    if (!this._state.startPoint || !this._state.currentShape) return
-
-    this._state.endPoint = { x, y }
-
-    const pathData = this.generateArrowPath(
-      this._state.startPoint.x,
-      this._state.startPoint.y,
-      x,
-      y
-    )
+    if (!this._state.enabled) return
+    const shapes = this.getShapeMap()
 
-    this._state.currentShape = {
-      ...this._state.currentShape,
-      pathData,
+    if (!this._state.isDrawing || !this._state.startPoint || !this._state.currentShape) {
+      this._state.hoverShapeId = this.getBinding(x, y, shapes).shapeId ?? null
+      return
     }
+
+    this._state.endPoint = { x, y }
+    this._state.currentShape = this.updateEnd(this._state.currentShape, x, y, shapes)
   }
 
   handleMouseUp(x: number, y: number, _event?: MouseEvent): void {
@@ -113,58 +138,84 @@ export class ArrowToolViewModel implements IArrowToolViewModel {
 
     this._state.isDrawing = false
 
-    const dx = x - this._state.startPoint.x
-    const dy = y - this._state.startPoint.y
-    const length = Math.sqrt(dx * dx + dy * dy)
+    const shapes = this.getShapeMap()
+    const connector = this.updateEnd(this._state.currentShape, x, y, shapes)
+    const length = Math.hypot(x - this._state.startPoint.x, y - this._state.startPoint.y)
+    // 两端绑定到不同形状时即使拖动距离很短也保留
+    const connectsShapes =
+      !!connector.start.shapeId &&
+      !!connector.end.shapeId &&
+      connector.start.shapeId !== connector.end.shapeId
 
-    if (length < 10) {
+    if (length < this.minLength && !connectsShapes) {
       this.reset()
       return
     }
 
-    this.canvasManager.addShape(this._state.currentShape)
+    this.canvasManager.addShape(connector)
 
     this.reset()
   }
 
-  private generateArrowPath(x1: number, y1: number, x2: number, y2: number): string {
-    const dx = x2 - x1
-    const dy = y2 - y1
-    const length = Math.sqrt(dx * dx + dy * dy)
-
-    if (length < 1) {
-      return `M ${x1} ${y1} L ${x2} ${y2}`
-    }
+  isCurrentlyDrawing(): boolean {
+    return this._state.isDrawing
+  }
 
-    const ux = dx / length
-    const uy = dy / length
+  getCurrentShape(): IConnectorEntity | null {
+    return this._state.currentShape
+  }
 
-    const arrowBase = {
-      x: x2 - ux * this.arrowHeadSize,
-      y: y2 - uy * this.arrowHeadSize,
-    }
+  setRouting(routing: ConnectorRouting): void {
+    this._state.routing = routing
+  }
 
-    const perpX = -uy * (this.arrowHeadSize * 0.5)
-    const perpY = ux * (this.arrowHeadSize * 0.5)
+  setArrowheads(start: ConnectorArrowhead, end: ConnectorArrowhead): void {
+    this._state.startArrowhead = start
+    this._state.endArrowhead = end
+  }
 
-    const arrowLeft = {
-      x: arrowBase.x + perpX,
-      y: arrowBase.y + perpY,
-    }
-    const arrowRight = {
-      x: arrowBase.x - perpX,
-      y: arrowBase.y - perpY,
-    }
+  private updateEnd(
+    connector: IConnectorEntity,
+    x: number,
+    y: number,
+    shapes: Map<string, ShapeEntity>
+  ): IConnectorEntity {
+    const binding = this.getBinding(x, y, shapes)
+    // 终点不绑定到起点所在的形状
+    const end: Omit<IConnectorEndpoint, 'point'> =
+      binding.shapeId && binding.shapeId !== connector.start.shapeId ? binding : {}
+    const { position } = connector.transform
+    return this.route(
+      {
+        ...connector,
+        end: { ...end, point: { x: x - position.x, y: y - position.y } },
+      },
+      shapes
+    )
+  }
 
-    return `M ${x1} ${y1} L ${x2} ${y2} M ${arrowLeft.x} ${arrowLeft.y} L ${x2} ${y2} L ${arrowRight.x} ${arrowRight.y}`
+  /**
+   * 指针下可绑定的形状，靠近固定锚点时吸附到锚点
+   */
+  private getBinding(
+    x: number,
+    y: number,
+    shapes: Map<string, ShapeEntity>
+  ): Omit<IConnectorEndpoint, 'point'> {
+    const id = this.canvasManager.hitTest(x, y)
+    const shape = id ? shapes.get(id) : undefined
+    if (!shape || !canBindConnector(shape)) return {}
+    const anchor = getConnectorAnchor(shape, { x, y }, ANCHOR_SNAP_DISTANCE)
+    return anchor ? { shapeId: shape.id, anchor } : { shapeId: shape.id }
   }
 
-  isCurrentlyDrawing(): boolean {
-    return this._state.isDrawing
+  private route(connector: IConnectorEntity, shapes: Map<string, ShapeEntity>): IConnectorEntity {
+    return { ...connector, ...routeConnector(connector, (id) => shapes.get(id)) }
   }
 
-  getCurrentShape(): IPathEntity | null {
-    return this._state.currentShape
+  private getShapeMap(): Map<string, ShapeEntity> {
+    const shapes = this.canvasManager.getShapesByZOrder() as ShapeEntity[]
+    return new Map(shapes.map((shape) => [shape.id, shape]))
   }
 
   private reset(): void {
@@ -172,5 +223,6 @@ export class ArrowToolViewModel implements IArrowToolViewModel {
     this._state.startPoint = null
     this._state.endPoint = null
     this._state.currentShape = null
+    this._state.hoverShapeId = null
   }
 }
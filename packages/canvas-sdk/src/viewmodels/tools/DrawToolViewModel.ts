@@ -1,18 +1,35 @@
-import type { IPoint } from '@sky-canvas/render-engine'
 import { proxy } from 'valtio'
 import { createDecorator } from '../../di'
 import { ICanvasManager } from '../../managers/CanvasManager'
-import { type IPathEntity, ShapeEntityFactory } from '../../models/entities/Shape'
-import type { IViewModel } from '../interfaces/IViewModel'
+import {
+  DEFAULT_FREEHAND_BRUSH,
+  type IFreehandBrush,
+  type IFreehandEntity,
+  type IFreehandPoint,
+  ShapeEntityFactory,
+} from '../../models/entities/Shape'
+import { createFreehandPathData } from '../../views/ShapeGeometry'
+import type { IPointerSample, IViewModel } from '../interfaces/IViewModel'
+
+/**
+ * 可调的笔刷参数（粗细由 strokeWidth 决定）
+ */
+export type DrawBrushOptions = Pick<
+  IFreehandBrush,
+  'thinning' | 'smoothing' | 'taperStart' | 'taperEnd' | 'tiltInfluence'
+>
 
 export interface IDrawToolState {
   isDrawing: boolean
-  points: IPoint[]
-  currentShape: IPathEntity | null
+  /** 当前笔迹的采样点（画布坐标） */
+  points: IFreehandPoint[]
+  currentShape: IFreehandEntity | null
   cursor: string
   enabled: boolean
   strokeColor: string
+  /** 笔刷直径（压力为 0.5 时） */
   strokeWidth: number
+  brush: DrawBrushOptions
 }
 
 export interface IDrawToolViewModel extends IViewModel {
@@ -21,22 +38,24 @@ export interface IDrawToolViewModel extends IViewModel {
   activate(): void
   deactivate(): void
 
-  handleMouseDown(x: number, y: number, event?: MouseEvent): void
-  handleMouseMove(x: number, y: number, event?: MouseEvent): void
-  handleMouseUp(x: number, y: number, event?: MouseEvent): void
+  handleMouseDown(x: number, y: number, event?: MouseEvent, samples?: IPointerSample[]): void
+  handleMouseMove(x: number, y: number, event?: MouseEvent, samples?: IPointerSample[]): void
+  handleMouseUp(x: number, y: number, event?: MouseEvent, samples?: IPointerSample[]): void
 
   isCurrentlyDrawing(): boolean
-  getCurrentShape(): IPathEntity | null
+  getCurrentShape(): IFreehandEntity | null
 
   setStrokeColor(color: string): void
   setStrokeWidth(width: number): void
+  setBrushOptions(options: Partial<DrawBrushOptions>): void
 }
 
 export const IDrawToolViewModel = createDecorator<IDrawToolViewModel>('DrawToolViewModel')
 
 export class DrawToolViewModel implements IDrawToolViewModel {
   private readonly _state: IDrawToolState
-  private readonly minDistance = 3
+  // 笔刷引擎自行平滑与去重，这里只丢弃几乎重合的采样
+  private readonly minDistance = 0.5
 
   constructor(@ICanvasManager private canvasManager: ICanvasManager) {
     this._state = proxy<IDrawToolState>({
@@ -47,6 +66,13 @@ export class DrawToolViewModel implements IDrawToolViewModel {
       enabled: false,
       strokeColor: '#f59e0b',
       strokeWidth: 3,
+      brush: {
+        thinning: DEFAULT_FREEHAND_BRUSH.thinning,
+        smoothing: DEFAULT_FREEHAND_BRUSH.smoothing,
+        taperStart: DEFAULT_FREEHAND_BRUSH.taperStart,
+        taperEnd: DEFAULT_FREEHAND_BRUSH.taperEnd,
+        tiltInfluence: 0,
+      },
     })
   }
 
@@ -74,102 +100,52 @@ export class DrawToolViewModel implements IDrawToolViewModel {
     this.reset()
   }
 
-  handleMouseDown(x: number, y: number, _event?: MouseEvent): void {
+  handleMouseDown(x: number, y: number, event?: MouseEvent, samples?: IPointerSample[]): void {
     if (!this._state.enabled) return
 
     this._state.isDrawing = true
-    this._state.points = [{ x, y }]
-
-    const pathData = `M ${x} ${y}`
-    this._state.currentShape = ShapeEntityFactory.createPath(
-      pathData,
-      { x: 0, y: 0 },
-      {
-        strokeColor: this._state.strokeColor,
-        strokeWidth: this._state.strokeWidth,
-        opacity: 1,
-      }
-    )
+    this._state.points = [this.createPoint(x, y, event, samples?.[samples.length - 1])]
+    this.updateCurrentShape()
   }
 
-  handleMouseMove(x: number, y: number, _event?: MouseEvent): void {
+  handleMouseMove(x: number, y: number, event?: MouseEvent, samples?: IPointerSample[]): void {
     if (!this._state.enabled || !this._state.isDrawing) return
-    if (!this._state.currentShape || this._state.points.length === 0) return
-
-    const lastPoint = this._state.points[this._state.points.length - 1]
-    const dx = x - lastPoint.x
-    const dy = y - lastPoint.y
-    const distance = Math.sqrt(dx * dx + dy * dy)
-
-    if (distance < this.minDistance) return
-
-    this._state.points.push({ x, y })
-
-    const pathData = this.generateSmoothPath(this._state.points)
-    this._state.currentShape = {
-      ...this._state.currentShape,
-      pathData,
+    if (this._state.points.length === 0) return
+
+    // 合并事件中的中间采样让快速笔画保持连续
+    const added =
+      samples && samples.length > 0
+        ? samples.map((sample) =>
+            this.addPoint(this.createPoint(sample.x, sample.y, event, sample))
+          )
+        : [this.addPoint(this.createPoint(x, y, event))]
+
+    if (added.some(Boolean)) {
+      this.updateCurrentShape()
     }
   }
 
-  handleMouseUp(x: number, y: number, _event?: MouseEvent): void {
+  handleMouseUp(x: number, y: number, event?: MouseEvent, samples?: IPointerSample[]): void {
     if (!this._state.enabled || !this._state.isDrawing) return
-    if (!this._state.currentShape) return
+    if (this._state.points.length === 0) return
 
     this._state.isDrawing = false
+    this.addPoint(this.createPoint(x, y, event, samples?.[samples.length - 1]))
+    this.updateCurrentShape()
 
-    const lastPoint = this._state.points[this._state.points.length - 1]
-    if (lastPoint.x !== x || lastPoint.y !== y) {
-      this._state.points.push({ x, y })
+    // 单击留下一个圆点
+    if (this._state.currentShape?.pathData) {
+      this.canvasManager.addShape(this._state.currentShape)
     }
 
-    if (this._state.points.length < 2) {
-      this.reset()
-      return
-    }
-
-    const pathData = this.generateSmoothPath(this._state.points)
-    this._state.currentShape = {
-      ...this._state.currentShape,
-      pathData,
-    }
-
-    this.canvasManager.addShape(this._state.currentShape)
-
     this.reset()
   }
 
-  private generateSmoothPath(points: IPoint[]): string {
-    if (points.length === 0) return ''
-    if (points.length === 1) return `M ${points[0].x} ${points[0].y}`
-    if (points.length === 2) {
-      return `M ${points[0].x} ${points[0].y} L ${points[1].x} ${points[1].y}`
-    }
-
-    let path = `M ${points[0].x} ${points[0].y}`
-
-    for (let i = 1; i < points.length - 1; i++) {
-      const _p0 = points[i - 1]
-      const p1 = points[i]
-      const p2 = points[i + 1]
-
-      const midX = (p1.x + p2.x) / 2
-      const midY = (p1.y + p2.y) / 2
-
-      path += ` Q ${p1.x} ${p1.y} ${midX} ${midY}`
-    }
-
-    const lastPoint = points[points.length - 1]
-    path += ` L ${lastPoint.x} ${lastPoint.y}`
-
-    return path
-  }
-
   isCurrentlyDrawing(): boolean {
     return this._state.isDrawing
   }
 
-  getCurrentShape(): IPathEntity | null {
+  getCurrentShape(): IFreehandEntity | null {
     return this._state.currentShape
   }
 
@@ -181,6 +157,89 @@ export class DrawToolViewModel implements IDrawToolViewModel {
     this._state.strokeWidth = Math.max(1, Math.min(50, width))
   }
 
+  setBrushOptions(options: Partial<DrawBrushOptions>): void {
+    const clamp01 = (value: number | undefined, fallback: number) =>
+      value === undefined ? fallback : Math.max(0, Math.min(1, value))
+    const brush = this._state.brush
+    this._state.brush = {
+      thinning: clamp01(options.thinning, brush.thinning),
+      smoothing: clamp01(options.smoothing, brush.smoothing),
+      taperStart: Math.max(0, options.taperStart ?? brush.taperStart),
+      taperEnd: Math.max(0, options.taperEnd ?? brush.taperEnd),
+      tiltInfluence: clamp01(options.tiltInfluence, brush.tiltInfluence ?? 0),
+    }
+  }
+
+  /**
+   * 采样点：优先使用指针采样中的压力与倾角，鼠标没有压感时按 0.5 处理
+   */
+  private createPoint(
+    x: number,
+    y: number,
+    event?: MouseEvent,
+    sample?: IPointerSample
+  ): IFreehandPoint {
+    const source = sample ?? (event && 'pressure' in event ? (event as PointerEvent) : undefined)
+    return {
+      x,
+      y,
+      pressure: source && source.pressure > 0 ? source.pressure : 0.5,
+      tiltX: source?.tiltX ?? 0,
+      tiltY: source?.tiltY ?? 0,
+    }
+  }
+
+  private addPoint(point: IFreehandPoint): boolean {
+    const lastPoint = this._state.points[this._state.points.length - 1]
+    if (lastPoint && Math.hypot(point.x - lastPoint.x, point.y - lastPoint.y) < this.minDistance) {
+      return false
+    }
+    this._state.points.push(point)
+    return true
+  }
+
+  private getBrush(): IFreehandBrush {
+    return { ...this._state.brush, size: this._state.strokeWidth }
+  }
+
+  /**
+   * 以首个采样为形状原点，重新生成笔迹轮廓
+   */
+  private updateCurrentShape(): void {
+    const points = this._state.points
+    if (points.length === 0) return
+
+    const origin = { x: points[0].x, y: points[0].y }
+    const localPoints = points.map((point) => ({
+      ...point,
+      x: point.x - origin.x,
+      y: point.y - origin.y,
+    }))
+    const brush = this.getBrush()
+    const pathData = createFreehandPathData(localPoints, brush)
+
+    if (this._state.currentShape) {
+      this._state.currentShape = {
+        ...this._state.currentShape,
+        points: localPoints,
+        brush,
+        pathData,
+      }
+      return
+    }
+
+    this._state.currentShape = ShapeEntityFactory.createFreehand(
+      localPoints,
+      brush,
+      pathData,
+      origin,
+      {
+        fillColor: this._state.strokeColor,
+        opacity: 1,
+      }
+    )
+  }
+
   private reset(): void {
     this._state.isDrawing = false
     this._state.points = []
@@ -2,13 +2,18 @@ import type { IPoint } from '@sky-canvas/render-engine'
 import { proxy } from 'valtio'
 import { createDecorator } from '../../di'
 import { ICanvasManager } from '../../managers/CanvasManager'
+import type { ShapeEntity } from '../../models/entities/Shape'
 import type { IViewModel } from '../interfaces/IViewModel'
+import { type EraserMode, eraseShape, type IEraserSweep } from './eraser/EraserGeometry'
 
 export interface IEraserToolState {
   isErasing: boolean
   lastPoint: IPoint | null
   cursor: string
   enabled: boolean
+  mode: EraserMode
+  /** 橡皮擦直径（世界坐标） */
+  size: number
 }
 
 export interface IEraserToolViewModel extends IViewModel {
@@ -20,6 +25,9 @@ export interface IEraserToolViewModel extends IViewModel {
   handleMouseDown(x: number, y: number, event?: MouseEvent): void
   handleMouseMove(x: number, y: number, event?: MouseEvent): void
   handleMouseUp(x: number, y: number, event?: MouseEvent): void
+
+  setMode(mode: EraserMode): void
+  setSize(size: number): void
 }
 
 export const IEraserToolViewModel = createDecorator<IEraserToolViewModel>('EraserToolViewModel')
@@ -33,6 +41,8 @@ export class EraserToolViewModel implements IEraserToolViewModel {
       lastPoint: null,
       cursor: 'crosshair',
       enabled: false,
+      mode: 'stroke',
+      size: 16,
     })
   }
 
@@ -57,38 +67,64 @@ export class EraserToolViewModel implements IEraserToolViewModel {
 
   deactivate(): void {
     this._state.enabled = false
-    this.reset()
+    this.finishErasing()
+  }
+
+  setMode(mode: EraserMode): void {
+    this._state.mode = mode
+  }
+
+  setSize(size: number): void {
+    this._state.size = Math.max(1, Math.min(200, size))
   }
 
   handleMouseDown(x: number, y: number, _event?: MouseEvent): void {
     if (!this._state.enabled) return
+    // 一次拖动中的所有擦除合并为一条历史记录
+    this.canvasManager.beginBatch('Erase')
     this._state.isErasing = true
     this._state.lastPoint = { x, y }
-    this.eraseAtPoint(x, y)
+    this.eraseAlong({ x, y }, { x, y })
   }
 
   handleMouseMove(x: number, y: number, _event?: MouseEvent): void {
     if (!this._state.enabled || !this._state.isErasing) return
-    this.eraseAtPoint(x, y)
+    const lastPoint = this._state.lastPoint ?? { x, y }
+    this.eraseAlong({ x: lastPoint.x, y: lastPoint.y }, { x, y })
     this._state.lastPoint = { x, y }
   }
 
-  handleMouseUp(_x: number, _y: number, _event?: MouseEvent): void {
-    if (!this._state.enabled) return
-    this._state.isErasing = false
-    this._state.lastPoint = null
+  handleMouseUp(x: number, y: number, _event?: MouseEvent): void {
+    if (!this._state.enabled || !this._state.isErasing) return
+    const lastPoint = this._state.lastPoint
+    if (lastPoint && (lastPoint.x !== x || lastPoint.y !== y)) {
+      this.eraseAlong({ x: lastPoint.x, y: lastPoint.y }, { x, y })
+    }
+    this.finishErasing()
   }
 
-  private eraseAtPoint(x: number, y: number): void {
-    const id = this.canvasManager.hitTest(x, y)
-    if (!id) return
-    const shape = this.canvasManager.getSelectedShapes().find((s) => s.id === id) || null
-    const target = shape || this.canvasManager.getShapesByZOrder().find((s) => s.id === id) || null
-    if (target?.locked) return
-    this.canvasManager.removeShape(id)
+  /**
+   * 擦除从上一点到当前点扫过的区域，受影响的形状替换为擦除后的片段
+   */
+  private eraseAlong(from: IPoint, to: IPoint): void {
+    const sweep: IEraserSweep = { from, to, radius: this._state.size / 2 }
+    const mode = this._state.mode
+
+    const shapes = this.canvasManager.getShapesByZOrder() as ShapeEntity[]
+    for (const shape of shapes) {
+      const pieces = eraseShape(shape, sweep, mode)
+      if (!pieces) continue
+      this.canvasManager.removeShape(shape.id)
+      for (const piece of pieces) {
+        this.canvasManager.addShape(piece)
+      }
+    }
   }
 
-  private reset(): void {
+  private finishErasing(): void {
+    if (this._state.isErasing) {
+      this.canvasManager.endBatch()
+    }
     this._state.isErasing = false
     this._state.lastPoint = null
   }
@@ -3,7 +3,30 @@ import { proxy } from 'valtio'
 import { createDecorator } from '../../di'
 import { ICanvasManager } from '../../managers/CanvasManager'
 import type { IStyle } from '../../models/entities/Shape'
+import { IColorHistoryService } from '../../services/color/colorHistoryService'
+import { ICanvasRenderingService } from '../../services/rendering/renderingService'
 import type { IViewModel } from '../interfaces/IViewModel'
+import { averageColor, compositeOver, parseHexColor, toHexColor } from './eyedropper/ColorSampler'
+
+/**
+ * 拾取颜色应用到选中形状的哪一项
+ */
+export type EyedropperTarget = 'fill' | 'stroke'
+
+/**
+ * 放大镜：以采样点为中心的像素网格
+ */
+export interface IEyedropperLoupe {
+  /** 采样中心（画布像素坐标） */
+  x: number
+  y: number
+  /** 网格边长（像素数，奇数） */
+  size: number
+  /** 网格各像素颜色，逐行排列 */
+  pixels: string[]
+  /** 按采样半径平均后的颜色 */
+  color: string
+}
 
 export interface IEyedropperToolState {
   isPicking: boolean
@@ -11,6 +34,13 @@ export interface IEyedropperToolState {
   cursor: string
   enabled: boolean
   pickedStyle: IStyle | null
+  pickedColor: string | null
+  /** 平均采样半径（像素），0 为单像素 */
+  sampleRadius: number
+  /** 透明像素叠加的画布背景色 */
+  backgroundColor: string
+  loupe: IEyedropperLoupe | null
+  recentColors: string[]
 }
 
 export interface IEyedropperToolViewModel extends IViewModel {
@@ -22,21 +52,44 @@ export interface IEyedropperToolViewModel extends IViewModel {
   handleMouseDown(x: number, y: number, event?: MouseEvent): void
   handleMouseMove(x: number, y: number, event?: MouseEvent): void
   handleMouseUp(x: number, y: number, event?: MouseEvent): void
+
+  /** 采样世界坐标处的颜色，渲染引擎未就绪时回退到命中形状的填充色 */
+  pickColorAt(x: number, y: number): string | null
+  /** 将颜色应用到选中形状，整体作为一次撤销 */
+  applyColor(color: string, target: EyedropperTarget): void
+  setSampleRadius(radius: number): void
+  setBackgroundColor(color: string): void
 }
 
 export const IEyedropperToolViewModel =
   createDecorator<IEyedropperToolViewModel>('EyedropperToolViewModel')
 
+const LOUPE_SIZE = 11
+const MAX_SAMPLE_RADIUS = 10
+
 export class EyedropperToolViewModel implements IEyedropperToolViewModel {
   private readonly _state: IEyedropperToolState
+  private unsubscribeColors?: () => void
 
-  constructor(@ICanvasManager private canvasManager: ICanvasManager) {
+  constructor(
+    @ICanvasManager private canvasManager: ICanvasManager,
+    @ICanvasRenderingService private renderingService: ICanvasRenderingService,
+    @IColorHistoryService private colorHistoryService: IColorHistoryService
+  ) {
     this._state = proxy<IEyedropperToolState>({
       isPicking: false,
       lastPoint: null,
       cursor: 'copy',
       enabled: false,
       pickedStyle: null,
+      pickedColor: null,
+      sampleRadius: 0,
+      backgroundColor: '#ffffff',
+      loupe: null,
+      recentColors: this.colorHistoryService.getColors(),
+    })
+    this.unsubscribeColors = this.colorHistoryService.onDidChange((colors) => {
+      this._state.recentColors = colors
     })
   }
 
@@ -48,6 +101,8 @@ export class EyedropperToolViewModel implements IEyedropperToolViewModel {
 
   dispose(): void {
     this.deactivate()
+    this.unsubscribeColors?.()
+    this.unsubscribeColors = undefined
   }
 
   getSnapshot() {
@@ -68,24 +123,114 @@ export class EyedropperToolViewModel implements IEyedropperToolViewModel {
     if (!this._state.enabled) return
     this._state.isPicking = true
     this._state.lastPoint = { x, y }
+    this._state.pickedColor = this.pickColorAt(x, y)
+
     const id = this.canvasManager.hitTest(x, y)
-    if (!id) return
-    const shape = this.canvasManager.getShapesByZOrder().find((s) => s.id === id)
+    const shape = id ? this.canvasManager.getShapesByZOrder().find((s) => s.id === id) : null
     if (shape) {
       this._state.pickedStyle = { ...shape.style }
     }
   }
 
-  handleMouseMove(_x: number, _y: number, _event?: MouseEvent): void {}
-
-  handleMouseUp(_x: number, _y: number, _event?: MouseEvent): void {
+  handleMouseMove(x: number, y: number, _event?: MouseEvent): void {
     if (!this._state.enabled) return
+    // 未按下时也更新放大镜，按下拖动时实时预览拾取的颜色
+    const color = this.pickColorAt(x, y)
+    if (this._state.isPicking) {
+      this._state.lastPoint = { x, y }
+      this._state.pickedColor = color
+    }
+  }
+
+  /**
+   * 松开时确定颜色：默认应用到填充，按住 Shift 应用到描边，按住 Alt 只拾取不应用
+   */
+  handleMouseUp(x: number, y: number, event?: MouseEvent): void {
+    if (!this._state.enabled || !this._state.isPicking) return
     this._state.isPicking = false
     this._state.lastPoint = null
+
+    const color = this.pickColorAt(x, y)
+    this._state.pickedColor = color
+    if (!color) return
+
+    this.colorHistoryService.add(color)
+    if (!event?.altKey) {
+      this.applyColor(color, event?.shiftKey ? 'stroke' : 'fill')
+    }
+  }
+
+  pickColorAt(x: number, y: number): string | null {
+    const center = this.renderingService.worldToCanvas({ x, y })
+    const cx = Math.floor(center.x)
+    const cy = Math.floor(center.y)
+    const radius = this._state.sampleRadius
+    const half = Math.max(Math.floor(LOUPE_SIZE / 2), radius)
+    const image = this.renderingService.readPixels(cx - half, cy - half, half * 2 + 1, half * 2 + 1)
+
+    if (!image) {
+      this._state.loupe = null
+      return this.pickShapeColor(x, y)
+    }
+
+    const background = this._state.backgroundColor
+    const color = toHexColor(compositeOver(averageColor(image, half, half, radius), background))
+    const offset = half - Math.floor(LOUPE_SIZE / 2)
+    const pixels: string[] = []
+    for (let row = 0; row < LOUPE_SIZE; row++) {
+      for (let col = 0; col < LOUPE_SIZE; col++) {
+        const pixel = averageColor(image, offset + col, offset + row, 0)
+        pixels.push(toHexColor(compositeOver(pixel, background)))
+      }
+    }
+    this._state.loupe = { x: cx, y: cy, size: LOUPE_SIZE, pixels, color }
+    return color
+  }
+
+  applyColor(color: string, target: EyedropperTarget): void {
+    const shapes = this.canvasManager.getSelectedShapes().filter((shape) => !shape.locked)
+    if (shapes.length === 0) return
+
+    this.canvasManager.beginBatch(target === 'stroke' ? 'Pick stroke color' : 'Pick fill color')
+    for (const shape of shapes) {
+      const style: IStyle = { ...shape.style }
+      // 纯色替换渐变/图案
+      if (target === 'stroke') {
+        style.strokeColor = color
+        delete style.strokePaint
+      } else {
+        style.fillColor = color
+        delete style.fillPaint
+      }
+      this.canvasManager.updateShape(shape.id, { style })
+    }
+    this.canvasManager.endBatch()
+  }
+
+  setSampleRadius(radius: number): void {
+    this._state.sampleRadius = Math.max(0, Math.min(MAX_SAMPLE_RADIUS, Math.round(radius)))
+  }
+
+  setBackgroundColor(color: string): void {
+    if (parseHexColor(color)) {
+      this._state.backgroundColor = color
+    }
+  }
+
+  /**
+   * 无帧缓冲时取命中形状的纯色填充（或描边）
+   */
+  private pickShapeColor(x: number, y: number): string | null {
+    const id = this.canvasManager.hitTest(x, y)
+    const shape = id ? this.canvasManager.getShapesByZOrder().find((s) => s.id === id) : null
+    const color = shape?.style.fillColor ?? shape?.style.strokeColor
+    const rgb = color ? parseHexColor(color) : null
+    return rgb ? toHexColor({ ...rgb, a: 1 }) : null
   }
 
   private reset(): void {
     this._state.isPicking = false
     this._state.lastPoint = null
+    this._state.loupe = null
   }
 }
@@ -0,0 +1,152 @@
+import type { IPoint } from '@sky-canvas/render-engine'
+import { proxy } from 'valtio'
+import { createDecorator } from '../../di'
+import { ICanvasManager } from '../../managers/CanvasManager'
+import { type IFrameEntity, ShapeEntityFactory } from '../../models/entities/Shape'
+import type { IViewModel } from '../interfaces/IViewModel'
+
+export interface IFrameToolState {
+  isDrawing: boolean
+  startPoint: IPoint | null
+  currentShape: IFrameEntity | null
+  cursor: string
+  enabled: boolean
+}
+
+export interface IFrameToolViewModel extends IViewModel {
+  state: IFrameToolState
+
+  activate(): void
+  deactivate(): void
+
+  handleMouseDown(x: number, y: number, event?: MouseEvent): void
+  handleMouseMove(x: number, y: number, event?: MouseEvent): void
+  handleMouseUp(x: number, y: number, event?: MouseEvent): void
+
+  isCurrentlyDrawing(): boolean
+  getCurrentShape(): IFrameEntity | null
+}
+
+export const IFrameToolViewModel = createDecorator<IFrameToolViewModel>('FrameToolViewModel')
+
+/**
+ * 画框工具：拖拽出画框区域，区域内已有的形状由 CanvasManager 收为子形状
+ */
+export class FrameToolViewModel implements IFrameToolViewModel {
+  private readonly _state: IFrameToolState
+
+  constructor(@ICanvasManager private canvasManager: ICanvasManager) {
+    this._state = proxy<IFrameToolState>({
+      isDrawing: false,
+      startPoint: null,
+      currentShape: null,
+      cursor: 'crosshair',
+      enabled: false,
+    })
+  }
+
+  get state(): IFrameToolState {
+    return this._state
+  }
+
+  async initialize(): Promise<void> {}
+
+  dispose(): void {
+    this.deactivate()
+  }
+
+  getSnapshot() {
+    return this._state
+  }
+
+  activate(): void {
+    this._state.enabled = true
+    this._state.cursor = 'crosshair'
+  }
+
+  deactivate(): void {
+    this._state.enabled = false
+    this.reset()
+  }
+
+  handleMouseDown(x: number, y: number, _event?: MouseEvent): void {
+    if (!this._state.enabled) return
+
+    this._state.isDrawing = true
+    this._state.startPoint = { x, y }
+
+    this._state.currentShape = ShapeEntityFactory.createFrame(
+      this.getNextFrameName(),
+      { x, y },
+      { width: 0, height: 0 },
+      {
+        fillColor: '#ffffff',
+        strokeColor: '#d1d5db',
+        strokeWidth: 1,
+        opacity: 1,
+      }
+    )
+  }
+
+  handleMouseMove(x: number, y: number, _event?: MouseEvent): void {
+    if (
+      !this._state.enabled ||
+      !this._state.isDrawing ||
+      !this._state.startPoint ||
+      !this._state.currentShape
+    )
+      return
+
+    const width = Math.abs(x - this._state.startPoint.x)
+    const height = Math.abs(y - this._state.startPoint.y)
+    const position = {
+      x: Math.min(this._state.startPoint.x, x),
+      y: Math.min(this._state.startPoint.y, y),
+    }
+
+    this._state.currentShape = {
+      ...this._state.currentShape,
+      transform: {
+        ...this._state.currentShape.transform,
+        position,
+      },
+      size: { width, height },
+    }
+  }
+
+  handleMouseUp(_x: number, _y: number, _event?: MouseEvent): void {
+    if (!this._state.enabled || !this._state.isDrawing || !this._state.currentShape) return
+
+    this._state.isDrawing = false
+
+    if (this._state.currentShape.size.width < 10 || this._state.currentShape.size.height < 10) {
+      this.reset()
+      return
+    }
+
+    this.canvasManager.addShape(this._state.currentShape)
+
+    this.reset()
+  }
+
+  isCurrentlyDrawing(): boolean {
+    return this._state.isDrawing
+  }
+
+  getCurrentShape(): IFrameEntity | null {
+    return this._state.currentShape
+  }
+
+  private getNextFrameName(): string {
+    const count = this.canvasManager
+      .getShapesByZOrder()
+      .filter((shape) => shape.type === 'frame').length
+    return `Frame ${count + 1}`
+  }
+
+  private reset(): void {
+    this._state.isDrawing = false
+    this._state.startPoint = null
+    this._state.currentShape = null
+  }
+}
@@ -0,0 +1,154 @@
+import type { IPoint } from '@sky-canvas/render-engine'
+import { proxy } from 'valtio'
+import { createDecorator } from '../../di'
+import { ICanvasManager } from '../../managers/CanvasManager'
+import { type ILinkEntity, ShapeEntityFactory } from '../../models/entities/Shape'
+import { normalizeLinkUrl, resolveEmbedUrl } from '../../views/CardLayout'
+import type { IViewModel } from '../interfaces/IViewModel'
+
+export interface ILinkToolState {
+  isDrawing: boolean
+  startPoint: IPoint | null
+  currentShape: ILinkEntity | null
+  cursor: string
+  enabled: boolean
+  /** 预设链接地址，为空时按下鼠标再询问 */
+  url: string | null
+}
+
+export interface ILinkToolViewModel extends IViewModel {
+  state: ILinkToolState
+
+  activate(): void
+  deactivate(): void
+
+  handleMouseDown(x: number, y: number, event?: MouseEvent): void
+  handleMouseMove(x: number, y: number, event?: MouseEvent): void
+  handleMouseUp(x: number, y: number, event?: MouseEvent): void
+
+  isCurrentlyDrawing(): boolean
+  getCurrentShape(): ILinkEntity | null
+}
+
+export const ILinkToolViewModel = createDecorator<ILinkToolViewModel>('LinkToolViewModel')
+
+const LINK_CARD_SIZE = { width: 320, height: 96 }
+const EMBED_CARD_SIZE = { width: 320, height: 200 }
+
+/**
+ * 链接工具：放置链接卡片，可嵌入的地址（YouTube、Vimeo、Figma）放置为嵌入卡片
+ * 单击使用默认尺寸，拖拽指定尺寸
+ */
+export class LinkToolViewModel implements ILinkToolViewModel {
+  private readonly _state: ILinkToolState
+  private readonly minDragSize = 5
+
+  constructor(@ICanvasManager private canvasManager: ICanvasManager) {
+    this._state = proxy<ILinkToolState>({
+      isDrawing: false,
+      startPoint: null,
+      currentShape: null,
+      cursor: 'crosshair',
+      enabled: false,
+      url: null,
+    })
+  }
+
+  get state(): ILinkToolState {
+    return this._state
+  }
+
+  async initialize(): Promise<void> {}
+
+  dispose(): void {
+    this.deactivate()
+  }
+
+  getSnapshot() {
+    return this._state
+  }
+
+  activate(): void {
+    this._state.enabled = true
+    this._state.cursor = 'crosshair'
+  }
+
+  deactivate(): void {
+    this._state.enabled = false
+    this.reset()
+  }
+
+  handleMouseDown(x: number, y: number, _event?: MouseEvent): void {
+    if (!this._state.enabled) return
+
+    const input =
+      this._state.url || (typeof window !== 'undefined' ? window.prompt('Link URL') : null)
+    const url = input ? normalizeLinkUrl(input) : ''
+    if (!url) return
+
+    const embedUrl = resolveEmbedUrl(url)
+    const link = ShapeEntityFactory.createLink(
+      url,
+      { x, y },
+      { ...(embedUrl ? EMBED_CARD_SIZE : LINK_CARD_SIZE) },
+      {
+        fillColor: '#ffffff',
+        strokeColor: '#e5e7eb',
+        strokeWidth: 1,
+        opacity: 1,
+      }
+    )
+    if (embedUrl) link.embedUrl = embedUrl
+
+    this._state.isDrawing = true
+    this._state.startPoint = { x, y }
+    this._state.currentShape = link
+  }
+
+  handleMouseMove(x: number, y: number, _event?: MouseEvent): void {
+    if (!this._state.enabled || !this._state.isDrawing) return
+    if (!this._state.startPoint || !this._state.currentShape) return
+
+    const width = Math.abs(x - this._state.startPoint.x)
+    const height = Math.abs(y - this._state.startPoint.y)
+    // 拖动距离过小时按单击处理，保持默认尺寸
+    if (width < this.minDragSize || height < this.minDragSize) return
+
+    this._state.currentShape = {
+      ...this._state.currentShape,
+      transform: {
+        ...this._state.currentShape.transform,
+        position: {
+          x: Math.min(this._state.startPoint.x, x),
+          y: Math.min(this._state.startPoint.y, y),
+        },
+      },
+      size: { width, height },
+    }
+  }
+
+  handleMouseUp(_x: number, _y: number, _event?: MouseEvent): void {
+    if (!this._state.enabled || !this._state.isDrawing) return
+    if (!this._state.currentShape) return
+
+    this._state.isDrawing = false
+
+    this.canvasManager.addShape(this._state.currentShape)
+
+    this.reset()
+  }
+
+  isCurrentlyDrawing(): boolean {
+    return this._state.isDrawing
+  }
+
+  getCurrentShape(): ILinkEntity | null {
+    return this._state.currentShape
+  }
+
+  private reset(): void {
+    this._state.isDrawing = false
+    this._state.startPoint = null
+    this._state.currentShape = null
+  }
+}
@@ -3,6 +3,7 @@ import { createDecorator } from '../../di'
 import { ICanvasManager } from '../../managers/CanvasManager'
 import type { ShapeEntity } from '../../models/entities/Shape'
 import { ISelectionService } from '../../services/selection/selectionService'
+import { getParentFrameId } from '../../views/FrameGeometry'
 import {
   boundsIntersect,
   getCursorForHandle,
@@ -215,7 +216,15 @@ export class SelectToolViewModel implements ISelectToolViewModelType {
     const deltaX = x - lastPoint.x
     const deltaY = y - lastPoint.y
 
-    for (const shape of this.canvasManager.getSelectedShapes()) {
+    const selectedShapes = this.canvasManager.getSelectedShapes()
+    const selectedIds = new Set(selectedShapes.map((shape) => shape.id))
+    // 多个形状的同一次移动记为一步，拖拽中的连续移动由历史记录合并
+    const batched = selectedShapes.length > 1
+    if (batched) this.canvasManager.beginBatch(`Move ${selectedShapes.length} shapes`)
+    for (const shape of selectedShapes) {
+      // 画框内的形状随选中的画框移动
+      const frameId = getParentFrameId(shape)
+      if (frameId && selectedIds.has(frameId)) continue
       const newPosition = {
         x: shape.transform.position.x + deltaX,
         y: shape.transform.position.y + deltaY,
@@ -224,6 +233,7 @@ export class SelectToolViewModel implements ISelectToolViewModelType {
         transform: { ...shape.transform, position: newPosition },
       })
     }
+    if (batched) this.canvasManager.endBatch()
 
     this._state.lastPoint = { x, y }
   }
@@ -0,0 +1,160 @@
+import type { IPoint } from '@sky-canvas/render-engine'
+import { proxy } from 'valtio'
+import { createDecorator } from '../../di'
+import { ICanvasManager } from '../../managers/CanvasManager'
+import { type IStickyEntity, ShapeEntityFactory } from '../../models/entities/Shape'
+import type { IViewModel } from '../interfaces/IViewModel'
+
+export interface IStickyToolState {
+  isDrawing: boolean
+  startPoint: IPoint | null
+  currentShape: IStickyEntity | null
+  cursor: string
+  enabled: boolean
+}
+
+export interface IStickyToolViewModel extends IViewModel {
+  state: IStickyToolState
+
+  activate(): void
+  deactivate(): void
+
+  handleMouseDown(x: number, y: number, event?: MouseEvent): void
+  handleMouseMove(x: number, y: number, event?: MouseEvent): void
+  handleMouseUp(x: number, y: number, event?: MouseEvent): void
+
+  isCurrentlyDrawing(): boolean
+  getCurrentShape(): IStickyEntity | null
+}
+
+export const IStickyToolViewModel = createDecorator<IStickyToolViewModel>('StickyToolViewModel')
+
+const DEFAULT_STICKY_SIZE = { width: 200, height: 200 }
+
+/**
+ * 便签工具：单击放置默认尺寸的便签，拖拽指定宽度；点击已有便签编辑内容
+ * 高度随文本自动增长，拖拽的高度作为最小高度
+ */
+export class StickyToolViewModel implements IStickyToolViewModel {
+  private readonly _state: IStickyToolState
+  private readonly minDragSize = 5
+
+  constructor(@ICanvasManager private canvasManager: ICanvasManager) {
+    this._state = proxy<IStickyToolState>({
+      isDrawing: false,
+      startPoint: null,
+      currentShape: null,
+      cursor: 'crosshair',
+      enabled: false,
+    })
+  }
+
+  get state(): IStickyToolState {
+    return this._state
+  }
+
+  async initialize(): Promise<void> {}
+
+  dispose(): void {
+    this.deactivate()
+  }
+
+  getSnapshot() {
+    return this._state
+  }
+
+  activate(): void {
+    this._state.enabled = true
+    this._state.cursor = 'crosshair'
+  }
+
+  deactivate(): void {
+    this._state.enabled = false
+    this.reset()
+  }
+
+  handleMouseDown(x: number, y: number, _event?: MouseEvent): void {
+    if (!this._state.enabled) return
+
+    const hitId = this.canvasManager.hitTest(x, y)
+    const hit = hitId
+      ? this.canvasManager.getShapesByZOrder().find((shape) => shape.id === hitId)
+      : undefined
+    if (hit && hit.type === 'sticky' && !hit.locked) {
+      const sticky = hit as IStickyEntity
+      const content =
+        typeof window !== 'undefined' ? window.prompt('编辑便签', sticky.content) : null
+      if (content !== null) {
+        this.canvasManager.updateShape(sticky.id, { content } as Partial<IStickyEntity>)
+      }
+      return
+    }
+
+    this._state.isDrawing = true
+    this._state.startPoint = { x, y }
+    this._state.currentShape = ShapeEntityFactory.createSticky(
+      '',
+      { x, y },
+      { ...DEFAULT_STICKY_SIZE },
+      {
+        fillColor: '#fde68a',
+        strokeColor: '#f59e0b',
+        strokeWidth: 1,
+        opacity: 1,
+      }
+    )
+  }
+
+  handleMouseMove(x: number, y: number, _event?: MouseEvent): void {
+    if (!this._state.enabled || !this._state.isDrawing) return
+    if (!this._state.startPoint || !this._state.currentShape) return
+
+    const width = Math.abs(x - this._state.startPoint.x)
+    const height = Math.abs(y - this._state.startPoint.y)
+    // 拖动距离过小时按单击处理，保持默认尺寸
+    if (width < this.minDragSize && height < this.minDragSize) return
+
+    this._state.currentShape = {
+      ...this._state.currentShape,
+      transform: {
+        ...this._state.currentShape.transform,
+        position: {
+          x: Math.min(this._state.startPoint.x, x),
+          y: Math.min(this._state.startPoint.y, y),
+        },
+      },
+      size: { width: Math.max(width, this.minDragSize), height },
+    }
+  }
+
+  handleMouseUp(_x: number, _y: number, _event?: MouseEvent): void {
+    if (!this._state.enabled || !this._state.isDrawing) return
+    if (!this._state.currentShape) return
+
+    this._state.isDrawing = false
+
+    const content = typeof window !== 'undefined' ? window.prompt('输入便签内容', '') : null
+    if (content === null) {
+      this.reset()
+      return
+    }
+
+    this.canvasManager.addShape({ ...this._state.currentShape, content })
+
+    this.reset()
+  }
+
+  isCurrentlyDrawing(): boolean {
+    return this._state.isDrawing
+  }
+
+  getCurrentShape(): IStickyEntity | null {
+    return this._state.currentShape
+  }
+
+  private reset(): void {
+    this._state.isDrawing = false
+    this._state.startPoint = null
+    this._state.currentShape = null
+  }
+}
@@ -1,16 +1,63 @@
 import { proxy } from 'valtio'
 import { createDecorator } from '../../di'
 import { ICanvasManager } from '../../managers/CanvasManager'
-import { type ITextEntity, ShapeEntityFactory } from '../../models/entities/Shape'
+import {
+  applyRunStyle,
+  deleteRunText,
+  getRunStyle,
+  getRunStyleAt,
+  getRunsText,
+  getTextRuns,
+  insertRunText,
+  isRunStyleActive,
+  type TextRunToggle,
+} from '../../models/entities/RichText'
+import {
+  type ITextEntity,
+  type ITextRun,
+  type ITextRunStyle,
+  ShapeEntityFactory,
+} from '../../models/entities/Shape'
+import { IShapeService } from '../../services/shape/shapeService'
+import { localToWorld, worldToLocal } from '../../views/ShapeGeometry'
+import {
+  getCaretAt,
+  getLineIndexAt,
+  getLineOffsetAtX,
+  getOffsetAtPoint,
+  getTextLayout,
+} from '../../views/TextLayout'
 import type { IViewModel } from '../interfaces/IViewModel'
 
 type IPoint = { x: number; y: number }
 
+/**
+ * 文本选区：anchor 为起点，focus 为光标所在端，两者相同时为插入光标
+ */
+export interface ITextSelection {
+  anchor: number
+  focus: number
+}
+
+/**
+ * 光标移动单位
+ */
+export type TextCaretUnit = 'character' | 'word' | 'line' | 'lineBoundary' | 'document'
+
 export interface ITextToolState {
   isEditing: boolean
+  /** 正在编辑的文本形状 */
+  editingShapeId: string | null
   editPosition: IPoint | null
   currentText: string
   currentShape: ITextEntity | null
+  selection: ITextSelection
+  /** 输入法组合中的文本范围 */
+  composition: { start: number; end: number } | null
+  /** 光标处切换过的样式，用于接下来输入的文本；为 null 时沿用光标前的样式 */
+  typingStyle: ITextRunStyle | null
+  /** 光标的屏幕坐标，供输入法候选框定位 */
+  caretRect: { x: number; y: number; height: number } | null
   cursor: string
   enabled: boolean
 }
@@ -24,9 +71,31 @@ export interface ITextToolViewModel extends IViewModel {
   handleMouseDown(x: number, y: number, event?: MouseEvent): void
   handleMouseMove(x: number, y: number, event?: MouseEvent): void
   handleMouseUp(x: number, y: number, event?: MouseEvent): void
+  handleKeyDown(event: KeyboardEvent): void
 
+  /** 在世界坐标处新建文本并开始编辑 */
   startEditing(x: number, y: number): void
+  /** 编辑已有的文本形状，offset 缺省时光标位于末尾 */
+  editShape(id: string, offset?: number): void
+  /** 替换全部文本 */
   updateText(text: string): void
+  /** 在光标处插入文本，替换选中的内容 */
+  insertText(text: string): void
+  deleteBackward(unit?: 'character' | 'word'): void
+  deleteForward(unit?: 'character' | 'word'): void
+  moveCaret(unit: TextCaretUnit, direction: 'backward' | 'forward', extend?: boolean): void
+  setSelection(anchor: number, focus?: number): void
+  selectAll(): void
+  /** 切换选区的粗体/斜体/下划线；无选区时作用于接下来输入的文本 */
+  toggleStyle(key: TextRunToggle): void
+  /** 设置选区的颜色或字号等样式 */
+  applyStyle(style: ITextRunStyle): void
+
+  // 输入法组合
+  startComposition(): void
+  updateComposition(text: string): void
+  endComposition(text: string): void
+
   commitText(): void
   cancelEditing(): void
 
@@ -38,13 +107,27 @@ export const ITextToolViewModel = createDecorator<ITextToolViewModel>('TextToolV
 
 export class TextToolViewModel implements ITextToolViewModel {
   private readonly _state: ITextToolState
-
-  constructor(@ICanvasManager private canvasManager: ICanvasManager) {
+  /** 编辑前的形状，新建文本时为 null */
+  private original: ITextEntity | null = null
+  /** 拖拽选择中 */
+  private isSelecting = false
+  /** 上下移动时保持的水平位置（本地坐标） */
+  private preferredX: number | null = null
+
+  constructor(
+    @ICanvasManager private canvasManager: ICanvasManager,
+    @IShapeService private shapeService: IShapeService
+  ) {
     this._state = proxy<ITextToolState>({
       isEditing: false,
+      editingShapeId: null,
       editPosition: null,
       currentText: '',
       currentShape: null,
+      selection: { anchor: 0, focus: 0 },
+      composition: null,
+      typingStyle: null,
+      caretRect: null,
       cursor: 'text',
       enabled: false,
     })
@@ -77,47 +160,105 @@ export class TextToolViewModel implements ITextToolViewModel {
     this.reset()
   }
 
-  handleMouseDown(x: number, y: number, _event?: MouseEvent): void {
+  // === 指针 ===
+
+  handleMouseDown(x: number, y: number, event?: MouseEvent): void {
     if (!this._state.enabled) return
 
+    const editingId = this._state.editingShapeId
+    if (editingId && this.canvasManager.hitTest(x, y) === editingId) {
+      this.placeCaret(x, y, event)
+      return
+    }
+    if (this._state.isEditing) this.commitText()
+
     const hitId = this.canvasManager.hitTest(x, y)
     if (hitId) {
       const shape = this.canvasManager.getShapesByZOrder().find((s) => s.id === hitId)
       if (shape && shape.type === 'text' && !shape.locked) {
-        const textShape = shape as ITextEntity
-        const nextText =
-          typeof window !== 'undefined' ? window.prompt('编辑文本', textShape.content || '') : null
-        if (nextText !== null) {
-          this.canvasManager.updateShape(hitId, { content: nextText })
-        }
+        this.editShape(hitId)
+        this.placeCaret(x, y, event)
         return
       }
     }
 
-    const text = typeof window !== 'undefined' ? window.prompt('输入文本', '') : null
-    if (!text || text.trim().length === 0) return
+    this.startEditing(x, y)
+  }
 
-    const shape = ShapeEntityFactory.createText(
-      text,
-      { x, y },
-      {
-        fillColor: '#1f2937',
-        opacity: 1,
-      }
-    )
-    this.canvasManager.addShape(shape)
+  handleMouseMove(x: number, y: number, _event?: MouseEvent): void {
+    if (!this.isSelecting || !this._state.isEditing) return
+    const offset = this.getOffsetAtWorldPoint(x, y)
+    if (offset === null) return
+    this.setSelection(this._state.selection.anchor, offset)
   }
 
-  handleMouseMove(_x: number, _y: number, _event?: MouseEvent): void {}
+  handleMouseUp(_x: number, _y: number, _event?: MouseEvent): void {
+    this.isSelecting = false
+  }
 
-  handleMouseUp(_x: number, _y: number, _event?: MouseEvent): void {}
+  // === 键盘 ===
+
+  handleKeyDown(event: KeyboardEvent): void {
+    if (!this._state.isEditing || event.isComposing || event.key === 'Process') return
+
+    const mod = event.ctrlKey || event.metaKey
+    const word = event.ctrlKey || event.altKey
+    const direction = (forward: boolean) => (forward ? 'forward' : 'backward')
+    let handled = true
+
+    switch (event.key) {
+      case 'Escape':
+        this.commitText()
+        break
+      case 'Enter':
+        if (mod) this.commitText()
+        else this.insertText('\n')
+        break
+      case 'Backspace':
+        this.deleteBackward(word ? 'word' : 'character')
+        break
+      case 'Delete':
+        this.deleteForward(word ? 'word' : 'character')
+        break
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        this.moveCaret(
+          word ? 'word' : 'character',
+          direction(event.key === 'ArrowRight'),
+          event.shiftKey
+        )
+        break
+      case 'ArrowUp':
+      case 'ArrowDown':
+        this.moveCaret('line', direction(event.key === 'ArrowDown'), event.shiftKey)
+        break
+      case 'Home':
+      case 'End':
+        this.moveCaret(
+          mod ? 'document' : 'lineBoundary',
+          direction(event.key === 'End'),
+          event.shiftKey
+        )
+        break
+      default: {
+        const key = event.key.toLowerCase()
+        if (mod && key === 'a') this.selectAll()
+        else if (mod && key === 'b') this.toggleStyle('bold')
+        else if (mod && key === 'i') this.toggleStyle('italic')
+        else if (mod && key === 'u') this.toggleStyle('underline')
+        else handled = false
+      }
+    }
+
+    if (handled) event.preventDefault()
+  }
+
+  // === 编辑 ===
 
   startEditing(x: number, y: number): void {
-    this._state.isEditing = true
-    this._state.editPosition = { x, y }
-    this._state.currentText = ''
+    if (this._state.isEditing) this.commitText()
 
-    this._state.currentShape = ShapeEntityFactory.createText(
+    const shape = ShapeEntityFactory.createText(
       '',
       { x, y },
       {
@@ -125,30 +266,224 @@ export class TextToolViewModel implements ITextToolViewModel {
         opacity: 1,
       }
     )
+    // 编辑期间的改动直接写入形状用于显示，提交时再记录为一次撤销
+    this.canvasManager.applyExternalChanges({ added: [shape] })
+    this.original = null
+    this.beginSession(shape, 0)
+  }
+
+  editShape(id: string, offset?: number): void {
+    const shape = this.shapeService.getShapeEntity(id)
+    if (!shape || shape.type !== 'text') return
+    if (this._state.isEditing) {
+      if (this._state.editingShapeId === id) return
+      this.commitText()
+    }
+
+    this.original = { ...shape, runs: shape.runs?.map((run) => ({ ...run })) }
+    this.beginSession(shape, offset ?? shape.content.length)
   }
 
   updateText(text: string): void {
-    if (!this._state.isEditing || !this._state.currentShape) return
+    if (!this._state.isEditing) return
+    this.replaceRange(0, this.getContent().length, text)
+  }
 
-    this._state.currentText = text
-    this._state.currentShape = {
-      ...this._state.currentShape,
-      content: text,
+  insertText(text: string): void {
+    if (!this._state.isEditing || !text) return
+    const [start, end] = this.getSelectionRange()
+    this.replaceRange(start, end, text)
+  }
+
+  deleteBackward(unit: 'character' | 'word' = 'character'): void {
+    if (!this._state.isEditing) return
+    const [start, end] = this.getSelectionRange()
+    if (start !== end) {
+      this.replaceRange(start, end, '')
+    } else if (start > 0) {
+      const from = unit === 'word' ? findWordBoundary(this.getContent(), start, -1) : start - 1
+      this.replaceRange(from, start, '')
     }
   }
 
-  commitText(): void {
-    if (!this._state.isEditing || !this._state.currentShape) return
+  deleteForward(unit: 'character' | 'word' = 'character'): void {
+    if (!this._state.isEditing) return
+    const [start, end] = this.getSelectionRange()
+    const content = this.getContent()
+    if (start !== end) {
+      this.replaceRange(start, end, '')
+    } else if (end < content.length) {
+      const to = unit === 'word' ? findWordBoundary(content, end, 1) : end + 1
+      this.replaceRange(end, to, '')
+    }
+  }
+
+  moveCaret(unit: TextCaretUnit, direction: 'backward' | 'forward', extend = false): void {
+    const shape = this.getEditingShape()
+    if (!shape) return
+    const content = shape.content
+    const forward = direction === 'forward'
+    const { anchor, focus } = this._state.selection
+    const [start, end] = this.getSelectionRange()
+    let target: number
+
+    if (unit === 'line') {
+      const layout = getTextLayout(shape)
+      const caret = getCaretAt(layout, focus)
+      const x = this.preferredX ?? caret.x
+      const line = layout.lines[caret.line + (forward ? 1 : -1)]
+      target = line ? getLineOffsetAtX(line, x) : forward ? content.length : 0
+      this.setSelection(extend ? anchor : target, target)
+      this.preferredX = x
+      return
+    }
+
+    if (unit === 'character' && !extend && start !== end) {
+      target = forward ? end : start
+    } else if (unit === 'character') {
+      target = Math.max(0, Math.min(content.length, focus + (forward ? 1 : -1)))
+    } else if (unit === 'word') {
+      target = findWordBoundary(content, focus, forward ? 1 : -1)
+    } else if (unit === 'lineBoundary') {
+      const layout = getTextLayout(shape)
+      const line = layout.lines[getLineIndexAt(layout, focus)]
+      target = line ? (forward ? line.end : line.start) : focus
+    } else {
+      target = forward ? content.length : 0
+    }
+    this.setSelection(extend ? anchor : target, target)
+  }
+
+  setSelection(anchor: number, focus: number = anchor): void {
+    if (!this._state.isEditing) return
+    const length = this.getContent().length
+    const clamp = (value: number) => Math.max(0, Math.min(length, value))
+    this._state.selection = { anchor: clamp(anchor), focus: clamp(focus) }
+    this._state.typingStyle = null
+    this.preferredX = null
+    this.refreshEditing()
+  }
+
+  selectAll(): void {
+    this.setSelection(0, this.getContent().length)
+  }
+
+  toggleStyle(key: TextRunToggle): void {
+    const shape = this.getEditingShape()
+    if (!shape) return
+    const [start, end] = this.getSelectionRange()
+    const runs = getTextRuns(shape)
+    const defaultValue = key === 'bold' && shape.fontWeight === 'bold'
+
+    if (start === end) {
+      const style = this._state.typingStyle ?? getRunStyleAt(runs, start)
+      this._state.typingStyle = { ...style, [key]: !(style[key] ?? defaultValue) }
+      return
+    }
+    // 与实体默认值相同时去掉该属性，避免留下 bold: false 这类冗余片段
+    const value = !isRunStyleActive(runs, start, end, key, defaultValue)
+    this.applyRuns(
+      applyRunStyle(runs, start, end, { [key]: value === defaultValue ? undefined : value })
+    )
+  }
+
+  applyStyle(style: ITextRunStyle): void {
+    const shape = this.getEditingShape()
+    if (!shape) return
+    const [start, end] = this.getSelectionRange()
+    const runs = getTextRuns(shape)
 
-    if (this._state.currentText.trim().length > 0) {
-      this.canvasManager.addShape(this._state.currentShape)
+    if (start === end) {
+      this._state.typingStyle = {
+        ...(this._state.typingStyle ?? getRunStyleAt(runs, start)),
+        ...style,
+      }
+      return
+    }
+    this.applyRuns(applyRunStyle(runs, start, end, style))
+  }
+
+  startComposition(): void {
+    if (!this._state.isEditing) return
+    const [start, end] = this.getSelectionRange()
+    if (start !== end) this.replaceRange(start, end, '')
+    this._state.composition = { start, end: start }
+    this.refreshEditing()
+  }
+
+  updateComposition(text: string): void {
+    const composition = this._state.composition
+    if (!composition) {
+      this.startComposition()
+      if (this._state.composition) this.updateComposition(text)
+      return
+    }
+    const { start, end } = composition
+    // replaceRange 会重置选区，组合范围在其后设置
+    this.replaceRange(start, end, text)
+    this._state.composition = { start, end: start + text.length }
+    this.refreshEditing()
+  }
+
+  endComposition(text: string): void {
+    const composition = this._state.composition
+    if (!composition) {
+      this.insertText(text)
+      return
+    }
+    this._state.composition = null
+    this.replaceRange(composition.start, composition.end, text)
+  }
+
+  commitText(): void {
+    const shape = this.getEditingShape()
+    if (!this._state.isEditing || !shape) {
+      this.reset()
+      return
     }
 
+    const original = this.original
+    const { content } = shape
+    const runs = shape.runs
     this.reset()
+    this.canvasManager.stopHistoryMerging()
+
+    if (!original) {
+      // 新建文本：撤下预览，内容非空时作为新形状添加
+      this.canvasManager.applyExternalChanges({ removed: [shape.id] })
+      if (content.trim().length > 0) {
+        this.canvasManager.addShape({ ...shape, content, runs })
+      }
+      return
+    }
+
+    // 已有文本：先恢复编辑前的内容，再以一次更新记录最终结果；清空的文本被删除
+    const unchanged =
+      original.content === content && JSON.stringify(original.runs) === JSON.stringify(runs)
+    if (unchanged) return
+    this.canvasManager.applyExternalChanges({
+      updated: [{ id: shape.id, updates: { content: original.content, runs: original.runs } }],
+    })
+    if (content.length === 0) {
+      this.canvasManager.removeShape(shape.id)
+    } else {
+      this.canvasManager.updateShape(shape.id, { content, runs } as Partial<ITextEntity>)
+    }
   }
 
   cancelEditing(): void {
+    const shape = this.getEditingShape()
+    const original = this.original
     this.reset()
+    if (!shape) return
+
+    if (!original) {
+      this.canvasManager.applyExternalChanges({ removed: [shape.id] })
+    } else {
+      this.canvasManager.applyExternalChanges({
+        updated: [{ id: shape.id, updates: { content: original.content, runs: original.runs } }],
+      })
+    }
   }
 
   isCurrentlyEditing(): boolean {
@@ -159,10 +494,173 @@ export class TextToolViewModel implements ITextToolViewModel {
     return this._state.currentShape
   }
 
+  // === 私有方法 ===
+
+  private beginSession(shape: ITextEntity, offset: number): void {
+    this._state.isEditing = true
+    this._state.editingShapeId = shape.id
+    this._state.editPosition = { ...shape.transform.position }
+    this._state.composition = null
+    this._state.typingStyle = null
+    this._state.selection = { anchor: offset, focus: offset }
+    this.preferredX = null
+    this.syncShapeState(shape)
+    this.refreshEditing()
+  }
+
+  private getEditingShape(): ITextEntity | null {
+    const id = this._state.editingShapeId
+    const shape = id ? this.shapeService.getShapeEntity(id) : undefined
+    return shape?.type === 'text' ? shape : null
+  }
+
+  private getContent(): string {
+    return this.getEditingShape()?.content ?? ''
+  }
+
+  private getSelectionRange(): [number, number] {
+    const { anchor, focus } = this._state.selection
+    return [Math.min(anchor, focus), Math.max(anchor, focus)]
+  }
+
+  /**
+   * 用 text 替换 [start, end)，新文本使用切换过的样式或光标前的样式
+   */
+  private replaceRange(start: number, end: number, text: string): void {
+    const shape = this.getEditingShape()
+    if (!shape) return
+    const runs = getTextRuns(shape)
+    const style = this._state.typingStyle ?? getRunStyleAt(runs, start)
+    const typingStyle = this._state.typingStyle
+    let next = deleteRunText(runs, start, end)
+    if (text) next = insertRunText(next, start, text, style)
+    this.applyRuns(next)
+    const caret = start + text.length
+    this._state.selection = { anchor: caret, focus: caret }
+    // 连续输入时保持切换过的样式
+    this._state.typingStyle = text ? typingStyle : null
+    this.preferredX = null
+    this.refreshEditing()
+  }
+
+  /**
+   * 写入片段：没有任何样式时只保存纯文本
+   */
+  private applyRuns(runs: ITextRun[]): void {
+    const shape = this.getEditingShape()
+    if (!shape) return
+    const styled = runs.some((run) => Object.keys(getRunStyle(run)).length > 0)
+    const updates = { content: getRunsText(runs), runs: styled ? runs : undefined }
+    this.canvasManager.applyExternalChanges({ updated: [{ id: shape.id, updates }] })
+    this.syncShapeState(shape)
+    this.refreshEditing()
+  }
+
+  private syncShapeState(shape: ITextEntity): void {
+    this._state.currentText = shape.content
+    this._state.currentShape = { ...shape }
+  }
+
+  /**
+   * 同步视图中的选区与光标，并计算光标的屏幕位置
+   */
+  private refreshEditing(): void {
+    const shape = this.getEditingShape()
+    if (!shape) return
+    const { anchor, focus } = this._state.selection
+    this.shapeService
+      .getShapeView(shape.id)
+      ?.setTextEditing({ anchor, focus, composition: this._state.composition })
+
+    const caret = getCaretAt(getTextLayout(shape), focus)
+    const top = this.canvasManager.worldToScreen(
+      localToWorld(shape.transform, { x: caret.x, y: caret.y })
+    )
+    const bottom = this.canvasManager.worldToScreen(
+      localToWorld(shape.transform, { x: caret.x, y: caret.y + caret.height })
+    )
+    this._state.caretRect = {
+      x: top.x,
+      y: top.y,
+      height: Math.hypot(bottom.x - top.x, bottom.y - top.y),
+    }
+  }
+
+  /**
+   * 按下时定位光标：按住 Shift 扩展选区，双击选中单词，之后拖拽扩展选区
+   */
+  private placeCaret(x: number, y: number, event?: MouseEvent): void {
+    const offset = this.getOffsetAtWorldPoint(x, y)
+    if (offset === null) return
+    if (event && event.detail >= 2) {
+      const [start, end] = getWordRange(this.getContent(), offset)
+      this.setSelection(start, end)
+      return
+    }
+    this.setSelection(event?.shiftKey ? this._state.selection.anchor : offset, offset)
+    this.isSelecting = true
+  }
+
+  private getOffsetAtWorldPoint(x: number, y: number): number | null {
+    const shape = this.getEditingShape()
+    if (!shape) return null
+    return getOffsetAtPoint(getTextLayout(shape), worldToLocal(shape.transform, { x, y }))
+  }
+
   private reset(): void {
+    const id = this._state.editingShapeId
+    if (id) this.shapeService.getShapeView(id)?.setTextEditing(null)
+    this.original = null
+    this.isSelecting = false
+    this.preferredX = null
     this._state.isEditing = false
+    this._state.editingShapeId = null
     this._state.editPosition = null
     this._state.currentText = ''
     this._state.currentShape = null
+    this._state.selection = { anchor: 0, focus: 0 }
+    this._state.composition = null
+    this._state.typingStyle = null
+    this._state.caretRect = null
+  }
+}
+
+const isSpace = (char: string) => /\s/.test(char)
+const isWordChar = (char: string) => /[\p{L}\p{N}_]/u.test(char)
+
+/**
+ * 偏移量所在的单词（或连续的空白、标点）范围
+ */
+function getWordRange(content: string, offset: number): [number, number] {
+  if (!content) return [0, 0]
+  // 位于单词末尾时取前一个字符所在的单词
+  const index =
+    offset >= content.length ||
+    (isSpace(content[offset]) && offset > 0 && !isSpace(content[offset - 1]))
+      ? offset - 1
+      : offset
+  const kind = (char: string) => (isSpace(char) ? 0 : isWordChar(char) ? 1 : 2)
+  const target = kind(content[index])
+  let start = index
+  let end = index + 1
+  while (start > 0 && kind(content[start - 1]) === target) start--
+  while (end < content.length && kind(content[end]) === target) end++
+  return [start, end]
+}
+
+/**
+ * 按单词移动时的下一个边界：跳过空白后跳过同类字符（单词字符或标点）
+ */
+function findWordBoundary(content: string, offset: number, step: 1 | -1): number {
+  const charAt = (index: number) => content[step > 0 ? index : index - 1]
+  let index = offset
+  const inBounds = () => (step > 0 ? index < content.length : index > 0)
+
+  while (inBounds() && isSpace(charAt(index))) index += step
+  if (!inBounds()) return index
+  const wordClass = isWordChar(charAt(index))
+  while (inBounds() && !isSpace(charAt(index)) && isWordChar(charAt(index)) === wordClass) {
+    index += step
   }
+  return index
 }
@@ -0,0 +1,443 @@
+/**
+ * 橡皮擦几何运算
+ * 橡皮擦一次移动扫过的区域为以起止点为端点、半径为橡皮擦半径的胶囊形，
+ * 据此切断线条、从闭合形状中减去区域或整体命中形状
+ */
+
+import {
+  type IPoint,
+  type Path,
+  PathBooleanOperations,
+  type PathSegment,
+} from '@sky-canvas/render-engine'
+import {
+  type IFreehandEntity,
+  type IFreehandPoint,
+  type IPathEntity,
+  type IPolygonEntity,
+  type ShapeEntity,
+  ShapeEntityFactory,
+} from '../../../models/entities/Shape'
+import {
+  createFreehandPathData,
+  getHalfStrokeWidth,
+  getPointsBounds,
+  getShapeOutlines,
+  hitTestShape,
+  type IShapeOutline,
+  localToWorld,
+  worldToLocal,
+} from '../../../views/ShapeGeometry'
+
+/**
+ * 擦除模式
+ * - stroke：沿扫过区域切断线条（路径、折线、自由绘制），拆分为多段
+ * - area：从闭合形状中减去扫过区域，线条按 stroke 方式切断
+ * - object：删除接触到的整个形状
+ */
+export type EraserMode = 'stroke' | 'area' | 'object'
+
+/**
+ * 橡皮擦一次移动扫过的胶囊区域（世界坐标）
+ */
+export interface IEraserSweep {
+  from: IPoint
+  to: IPoint
+  radius: number
+}
+
+const CAPSULE_SEGMENTS = 12
+const BOUNDARY_ITERATIONS = 8
+const MAX_SAMPLES_PER_EDGE = 2000
+
+const booleanOperations = new PathBooleanOperations()
+
+/**
+ * 擦除单个形状
+ * @returns null 表示未受影响；否则为替换原形状的新形状（空数组即整体删除）
+ */
+export function eraseShape(
+  shape: ShapeEntity,
+  sweep: IEraserSweep,
+  mode: EraserMode
+): ShapeEntity[] | null {
+  if (!shape.visible || shape.locked) return null
+
+  const outlines = getShapeOutlines(shape)
+  const reach = sweep.radius + getStrokeReach(shape)
+  if (!sweepTouchesBounds(shape, outlines, sweep, reach)) return null
+
+  if (mode === 'object') {
+    return sweepHitsShape(shape, sweep) ? [] : null
+  }
+
+  switch (shape.type) {
+    case 'freehand':
+      return mode === 'area'
+        ? subtractArea(shape, outlines, sweep)
+        : splitFreehand(shape as IFreehandEntity, sweep, reach)
+    case 'path':
+    case 'polygon': {
+      const closed = (shape as IPathEntity | IPolygonEntity).closed
+      return mode === 'area' && closed
+        ? subtractArea(shape, outlines, sweep)
+        : splitOutlines(shape, outlines, sweep, reach)
+    }
+    case 'rectangle':
+    case 'circle':
+    case 'ellipse':
+    case 'star':
+      return mode === 'area' ? subtractArea(shape, outlines, sweep) : null
+    default:
+      // 文本、图片与编组只能整体擦除
+      return null
+  }
+}
+
+/**
+ * 点到胶囊中心线的距离
+ */
+export function distanceToSweep(point: IPoint, sweep: IEraserSweep): number {
+  const { from, to } = sweep
+  const dx = to.x - from.x
+  const dy = to.y - from.y
+  const lengthSquared = dx * dx + dy * dy
+  const t =
+    lengthSquared > 0
+      ? Math.max(
+          0,
+          Math.min(1, ((point.x - from.x) * dx + (point.y - from.y) * dy) / lengthSquared)
+        )
+      : 0
+  return Math.hypot(point.x - (from.x + t * dx), point.y - (from.y + t * dy))
+}
+
+/**
+ * 胶囊区域的多边形近似（世界坐标）
+ */
+export function getSweepPolygon(sweep: IEraserSweep): IPoint[] {
+  const { from, to, radius } = sweep
+  const angle = Math.atan2(to.y - from.y, to.x - from.x)
+  const points: IPoint[] = []
+  const arc = (center: IPoint, start: number) => {
+    for (let i = 0; i <= CAPSULE_SEGMENTS; i++) {
+      const a = start + (Math.PI * i) / CAPSULE_SEGMENTS
+      points.push({ x: center.x + Math.cos(a) * radius, y: center.y + Math.sin(a) * radius })
+    }
+  }
+  arc(to, angle - Math.PI / 2)
+  arc(from, angle + Math.PI / 2)
+  return points
+}
+
+/**
+ * 将折线在擦除区域处切断，返回保留下来的各段
+ * 边按步长重新采样，并二分逼近擦除边界；闭合折线首尾两段会重新连接
+ * @returns null 表示没有任何点被擦除
+ */
+export function splitPolyline<T extends IPoint>(
+  points: T[],
+  closed: boolean,
+  isErased: (point: T) => boolean,
+  interpolate: (a: T, b: T, t: number) => T,
+  step: number
+): T[][] | null {
+  if (points.length === 0) return null
+
+  const dense = resample(points, closed, interpolate, step)
+  const runs: T[][] = []
+  let run: T[] = []
+  let erasedAny = false
+  let previous: T | null = null
+  let previousErased = false
+
+  for (const point of dense) {
+    const erased = isErased(point)
+    if (previous && erased !== previousErased) {
+      const boundary = erased
+        ? findBoundary(previous, point, isErased, interpolate)
+        : findBoundary(point, previous, isErased, interpolate)
+      if (erased) {
+        run.push(boundary)
+        runs.push(run)
+        run = []
+      } else {
+        run = [boundary]
+      }
+    }
+    if (erased) {
+      erasedAny = true
+    } else {
+      run.push(point)
+    }
+    previous = point
+    previousErased = erased
+  }
+  if (run.length > 0) runs.push(run)
+  if (!erasedAny) return null
+
+  if (closed && runs.length > 1 && !isErased(dense[0])) {
+    const first = runs.shift() as T[]
+    runs[runs.length - 1] = [...runs[runs.length - 1], ...first.slice(1)]
+  }
+
+  return runs.filter((segment) => segment.length > 1)
+}
+
+/**
+ * 自由绘制：按采样点切断，各段重新生成笔迹轮廓
+ */
+function splitFreehand(
+  shape: IFreehandEntity,
+  sweep: IEraserSweep,
+  reach: number
+): ShapeEntity[] | null {
+  const runs = splitPolyline(
+    shape.points,
+    false,
+    (point) => distanceToSweep(localToWorld(shape.transform, point), sweep) <= reach,
+    lerpFreehandPoint,
+    getLocalStep(shape, sweep.radius)
+  )
+  if (!runs) return null
+
+  return runs.map((points) => {
+    const piece = ShapeEntityFactory.createFreehand(
+      points,
+      shape.brush,
+      createFreehandPathData(points, shape.brush),
+      shape.transform.position,
+      shape.style
+    )
+    return inheritShape(piece, shape)
+  })
+}
+
+/**
+ * 路径与折线：逐个子路径切断，结果为开放路径
+ */
+function splitOutlines(
+  shape: ShapeEntity,
+  outlines: IShapeOutline[],
+  sweep: IEraserSweep,
+  reach: number
+): ShapeEntity[] | null {
+  const step = getLocalStep(shape, sweep.radius)
+  const pieces: IPoint[][] = []
+  let changed = false
+
+  for (const outline of outlines) {
+    const runs = splitPolyline(
+      outline.points,
+      outline.closed,
+      (point) => distanceToSweep(localToWorld(shape.transform, point), sweep) <= reach,
+      lerpPoint,
+      step
+    )
+    if (runs) {
+      changed = true
+      pieces.push(...runs)
+    } else if (outline.points.length > 1) {
+      pieces.push(outline.closed ? [...outline.points, outline.points[0]] : outline.points)
+    }
+  }
+  if (!changed) return null
+
+  return pieces.map((points) => createPathPiece(shape, points, false))
+}
+
+/**
+ * 闭合形状：减去胶囊区域，每个剩余多边形成为一个闭合路径
+ */
+function subtractArea(
+  shape: ShapeEntity,
+  outlines: IShapeOutline[],
+  sweep: IEraserSweep
+): ShapeEntity[] | null {
+  const subject = outlines.filter((outline) => outline.closed && outline.points.length > 2)
+  if (subject.length === 0) return null
+
+  const clip = getSweepPolygon(sweep).map((point) => worldToLocal(shape.transform, point))
+  const result = booleanOperations.difference(
+    toBooleanPath(subject.map((outline) => outline.points)),
+    toBooleanPath([clip])
+  )
+  if (!result.success) return null
+
+  const polygons = result.paths.map((path: Path) =>
+    path.segments
+      .filter((segment: PathSegment) => segment.type === 'moveTo' || segment.type === 'lineTo')
+      .map((segment: PathSegment) => segment.points[0] as IPoint)
+  )
+  const before = subject.reduce((sum, outline) => sum + polygonArea(outline.points), 0)
+  const after = polygons.reduce((sum: number, points: IPoint[]) => sum + polygonArea(points), 0)
+  if (Math.abs(before - after) <= before * 1e-6) return null
+
+  return polygons.map((points: IPoint[]) => createPathPiece(shape, points, true))
+}
+
+/**
+ * 整体擦除：沿扫过的线段采样做命中测试
+ */
+function sweepHitsShape(shape: ShapeEntity, sweep: IEraserSweep): boolean {
+  const length = Math.hypot(sweep.to.x - sweep.from.x, sweep.to.y - sweep.from.y)
+  const count = Math.min(MAX_SAMPLES_PER_EDGE, Math.ceil(length / Math.max(sweep.radius, 0.5)))
+  for (let i = 0; i <= count; i++) {
+    const point = lerpPoint(sweep.from, sweep.to, count > 0 ? i / count : 0)
+    if (hitTestShape(shape, point, sweep.radius)) return true
+  }
+  return false
+}
+
+function sweepTouchesBounds(
+  shape: ShapeEntity,
+  outlines: IShapeOutline[],
+  sweep: IEraserSweep,
+  reach: number
+): boolean {
+  const points = outlines.flatMap((outline) =>
+    outline.points.map((point) => localToWorld(shape.transform, point))
+  )
+  if (points.length === 0) return false
+  const bounds = getPointsBounds(points)
+  return (
+    Math.max(sweep.from.x, sweep.to.x) + reach >= bounds.x &&
+    Math.min(sweep.from.x, sweep.to.x) - reach <= bounds.x + bounds.width &&
+    Math.max(sweep.from.y, sweep.to.y) + reach >= bounds.y &&
+    Math.min(sweep.from.y, sweep.to.y) - reach <= bounds.y + bounds.height
+  )
+}
+
+/**
+ * 中心线到形状可见边缘的距离：自由绘制为笔刷半径，其余为描边半宽
+ */
+function getStrokeReach(shape: ShapeEntity): number {
+  if (shape.type !== 'freehand') return getHalfStrokeWidth(shape)
+  const { scale } = shape.transform
+  return (
+    ((shape as IFreehandEntity).brush.size / 2) * Math.max(Math.abs(scale.x), Math.abs(scale.y))
+  )
+}
+
+/**
+ * 本地坐标下的重新采样步长，保证采样间距不超过橡皮擦半径的一半
+ */
+function getLocalStep(shape: ShapeEntity, radius: number): number {
+  const { scale } = shape.transform
+  const factor = Math.max(Math.abs(scale.x), Math.abs(scale.y)) || 1
+  return Math.max(radius / 2, 0.25) / factor
+}
+
+function resample<T extends IPoint>(
+  points: T[],
+  closed: boolean,
+  interpolate: (a: T, b: T, t: number) => T,
+  step: number
+): T[] {
+  const result: T[] = [points[0]]
+  const edges = closed ? points.length : points.length - 1
+  for (let i = 0; i < edges; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    const count = Math.min(
+      MAX_SAMPLES_PER_EDGE,
+      Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / step))
+    )
+    for (let j = 1; j <= count; j++) {
+      result.push(j === count ? b : interpolate(a, b, j / count))
+    }
+  }
+  return result
+}
+
+/**
+ * 二分逼近保留点与擦除点之间的边界，返回保留一侧的点
+ */
+function findBoundary<T extends IPoint>(
+  kept: T,
+  erased: T,
+  isErased: (point: T) => boolean,
+  interpolate: (a: T, b: T, t: number) => T
+): T {
+  let low = kept
+  let high = erased
+  for (let i = 0; i < BOUNDARY_ITERATIONS; i++) {
+    const middle = interpolate(low, high, 0.5)
+    if (isErased(middle)) {
+      high = middle
+    } else {
+      low = middle
+    }
+  }
+  return low
+}
+
+function lerpPoint(a: IPoint, b: IPoint, t: number): IPoint {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }
+}
+
+function lerpFreehandPoint(a: IFreehandPoint, b: IFreehandPoint, t: number): IFreehandPoint {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    pressure: a.pressure + (b.pressure - a.pressure) * t,
+    tiltX: a.tiltX,
+    tiltY: a.tiltY,
+  }
+}
+
+function polygonArea(points: IPoint[]): number {
+  let area = 0
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += (points[j].x - points[i].x) * (points[j].y + points[i].y)
+  }
+  return Math.abs(area / 2)
+}
+
+function toBooleanPath(polygons: IPoint[][]): Path {
+  return {
+    segments: polygons.flatMap((points) => [
+      { type: 'moveTo' as const, points: [points[0]] },
+      ...points.slice(1).map((point) => ({ type: 'lineTo' as const, points: [point] })),
+      { type: 'closePath' as const, points: [] },
+    ]),
+    closed: true,
+    fillRule: 'nonzero',
+  }
+}
+
+function toPathData(points: IPoint[], closed: boolean): string {
+  const round = (value: number) => +value.toFixed(2)
+  const commands = points.map(
+    (point, i) => `${i === 0 ? 'M' : 'L'}${round(point.x)},${round(point.y)}`
+  )
+  if (closed) commands.push('Z')
+  return commands.join(' ')
+}
+
+/**
+ * 以原形状的变换与样式创建路径片段
+ */
+function createPathPiece(shape: ShapeEntity, points: IPoint[], closed: boolean): IPathEntity {
+  const piece = ShapeEntityFactory.createPath(
+    toPathData(points, closed),
+    shape.transform.position,
+    shape.style
+  )
+  return inheritShape({ ...piece, closed }, shape)
+}
+
+function inheritShape<T extends ShapeEntity>(piece: T, shape: ShapeEntity): T {
+  return {
+    ...piece,
+    transform: {
+      ...shape.transform,
+      position: { ...shape.transform.position },
+      scale: { ...shape.transform.scale },
+    },
+    style: { ...shape.style },
+    effects: shape.effects && [...shape.effects],
+    zIndex: shape.zIndex,
+    metadata: shape.metadata && { ...shape.metadata },
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * 橡皮擦工具模块导出
+ */
+
+export * from './EraserGeometry'
@@ -0,0 +1,98 @@
+/**
+ * 取色器像素采样
+ * 在帧缓冲像素上按圆形半径求平均色，并将半透明像素叠加到画布背景色上
+ */
+
+import type { IFramebufferImageData } from '../../../services/rendering/renderingService'
+
+/**
+ * 采样颜色，r/g/b 为 0-255，a 为 0-1
+ */
+export interface ISampledColor {
+  r: number
+  g: number
+  b: number
+  a: number
+}
+
+/**
+ * 以 (centerX, centerY) 为中心、radius 为半径求平均色（图像内像素坐标）
+ * 颜色按透明度加权，避免透明像素把颜色拉向黑色
+ */
+export function averageColor(
+  image: IFramebufferImageData,
+  centerX: number,
+  centerY: number,
+  radius: number
+): ISampledColor {
+  const r = Math.max(0, Math.floor(radius))
+  let red = 0
+  let green = 0
+  let blue = 0
+  let alpha = 0
+  let count = 0
+
+  for (let dy = -r; dy <= r; dy++) {
+    for (let dx = -r; dx <= r; dx++) {
+      if (dx * dx + dy * dy > r * r) continue
+      const x = centerX + dx
+      const y = centerY + dy
+      if (x < 0 || y < 0 || x >= image.width || y >= image.height) continue
+      const index = (y * image.width + x) * 4
+      const a = image.data[index + 3]
+      red += image.data[index] * a
+      green += image.data[index + 1] * a
+      blue += image.data[index + 2] * a
+      alpha += a
+      count++
+    }
+  }
+
+  if (alpha === 0) return { r: 0, g: 0, b: 0, a: 0 }
+  return { r: red / alpha, g: green / alpha, b: blue / alpha, a: alpha / count / 255 }
+}
+
+/**
+ * 叠加到不透明背景色上
+ */
+export function compositeOver(color: ISampledColor, background: string): ISampledColor {
+  const base = parseHexColor(background) ?? { r: 255, g: 255, b: 255 }
+  const a = Math.max(0, Math.min(1, color.a))
+  return {
+    r: color.r * a + base.r * (1 - a),
+    g: color.g * a + base.g * (1 - a),
+    b: color.b * a + base.b * (1 - a),
+    a: 1,
+  }
+}
+
+/**
+ * 转为 #rrggbb
+ */
+export function toHexColor(color: ISampledColor): string {
+  const channel = (value: number) =>
+    Math.round(Math.max(0, Math.min(255, value)))
+      .toString(16)
+      .padStart(2, '0')
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`
+}
+
+/**
+ * 解析 #rgb / #rrggbb，其他格式返回 null
+ */
+export function parseHexColor(value: string): Omit<ISampledColor, 'a'> | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim())
+  if (!match) return null
+  const hex =
+    match[1].length === 3
+      ? match[1]
+          .split('')
+          .map((c) => c + c)
+          .join('')
+      : match[1]
+  return {
+    r: Number.parseInt(hex.slice(0, 2), 16),
+    g: Number.parseInt(hex.slice(2, 4), 16),
+    b: Number.parseInt(hex.slice(4, 6), 16),
+  }
+}
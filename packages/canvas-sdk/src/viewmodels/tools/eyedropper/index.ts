@@ -0,0 +1,5 @@
+/**
+ * 取色器工具模块导出
+ */
+
+export * from './ColorSampler'
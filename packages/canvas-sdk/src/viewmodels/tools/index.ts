@@ -10,20 +10,31 @@ export type { IArrowToolState } from './ArrowToolViewModel'
 export { ArrowToolViewModel, IArrowToolViewModel } from './ArrowToolViewModel'
 export type { ICircleToolState } from './CircleToolViewModel'
 export { CircleToolViewModel, ICircleToolViewModel } from './CircleToolViewModel'
-export type { IDrawToolState } from './DrawToolViewModel'
+export type { IDiamondToolState } from './DiamondToolViewModel'
+export { DiamondToolViewModel, IDiamondToolViewModel } from './DiamondToolViewModel'
+export type { DrawBrushOptions, IDrawToolState } from './DrawToolViewModel'
 export { DrawToolViewModel, IDrawToolViewModel } from './DrawToolViewModel'
 export type { IEllipseToolState } from './EllipseToolViewModel'
 export { EllipseToolViewModel, IEllipseToolViewModel } from './EllipseToolViewModel'
 export type { IEraserToolState } from './EraserToolViewModel'
 export { EraserToolViewModel, IEraserToolViewModel } from './EraserToolViewModel'
-export type { IEyedropperToolState } from './EyedropperToolViewModel'
+export type {
+  EyedropperTarget,
+  IEyedropperLoupe,
+  IEyedropperToolState,
+} from './EyedropperToolViewModel'
 export { EyedropperToolViewModel, IEyedropperToolViewModel } from './EyedropperToolViewModel'
+export type { EraserMode, IEraserSweep } from './eraser'
+export type { IFrameToolState } from './FrameToolViewModel'
+export { FrameToolViewModel, IFrameToolViewModel } from './FrameToolViewModel'
 export type { IHandToolState } from './HandToolViewModel'
 export { HandToolViewModel, IHandToolViewModel } from './HandToolViewModel'
 export type { IImageToolState } from './ImageToolViewModel'
 export { IImageToolViewModel, ImageToolViewModel } from './ImageToolViewModel'
 export type { ILineToolState } from './LineToolViewModel'
 export { ILineToolViewModel, LineToolViewModel } from './LineToolViewModel'
+export type { ILinkToolState } from './LinkToolViewModel'
+export { ILinkToolViewModel, LinkToolViewModel } from './LinkToolViewModel'
 export type { IPolygonToolState } from './PolygonToolViewModel'
 export { IPolygonToolViewModel, PolygonToolViewModel } from './PolygonToolViewModel'
 export type { IRectangleToolState } from './RectangleToolViewModel'
@@ -32,5 +43,7 @@ export type { HandlePosition, HandleType, IBounds, ISelectToolState } from './Se
 export { ISelectToolViewModel, SelectToolViewModel } from './SelectToolViewModel'
 export type { IStarToolState } from './StarToolViewModel'
 export { IStarToolViewModel, StarToolViewModel } from './StarToolViewModel'
-export type { ITextToolState } from './TextToolViewModel'
+export type { IStickyToolState } from './StickyToolViewModel'
+export { IStickyToolViewModel, StickyToolViewModel } from './StickyToolViewModel'
+export type { ITextSelection, ITextToolState, TextCaretUnit } from './TextToolViewModel'
 export { ITextToolViewModel, TextToolViewModel } from './TextToolViewModel'
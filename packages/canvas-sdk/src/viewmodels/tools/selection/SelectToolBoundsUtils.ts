@@ -2,18 +2,30 @@
  * 选择工具边界计算工具
  */
 
-import type {
-  ICircleEntity,
-  IEllipseEntity,
-  IGroupEntity,
-  IImageEntity,
-  IPolygonEntity,
-  IRectangleEntity,
-  IShapeEntity,
-  IStarEntity,
-  ITextEntity,
-  ShapeEntity,
+import {
+  type ICircleEntity,
+  type IConnectorEntity,
+  type IDiamondEntity,
+  type IEllipseEntity,
+  type IFrameEntity,
+  type IFreehandEntity,
+  type IGroupEntity,
+  type IImageEntity,
+  type ILinkEntity,
+  type IPolygonEntity,
+  type IRectangleEntity,
+  type IShapeEntity,
+  type IStarEntity,
+  type IStickyEntity,
+  type ITextEntity,
+  isCustomShape,
+  type ShapeEntity,
 } from '../../../models/entities/Shape'
+import { shapeTypeRegistry } from '../../../models/entities/ShapeTypeRegistry'
+import { getStickySize } from '../../../views/CardLayout'
+import { getConnectorBounds } from '../../../views/ConnectorGeometry'
+import { getFreehandBounds } from '../../../views/ShapeGeometry'
+import { getTextBounds } from '../../../views/TextLayout'
 import type { HandlePosition, IBounds } from './SelectToolTypes'
 
 /**
@@ -49,16 +61,29 @@ export function getShapeBounds(shape: IShapeEntity): IBounds {
     const starShape = shape as IStarEntity
     const r = Math.max(starShape.outerRadius, starShape.innerRadius)
     return { x: x - r, y: y - r, width: r * 2, height: r * 2 }
+  } else if (shape.type === 'freehand') {
+    const bounds = getFreehandBounds(shape as IFreehandEntity)
+    return { x: x + bounds.x, y: y + bounds.y, width: bounds.width, height: bounds.height }
+  } else if (shape.type === 'connector') {
+    const bounds = getConnectorBounds(shape as IConnectorEntity)
+    return { x: x + bounds.x, y: y + bounds.y, width: bounds.width, height: bounds.height }
   } else if (shape.type === 'image') {
     const imageShape = shape as IImageEntity
     return { x, y, width: imageShape.size.width, height: imageShape.size.height }
   } else if (shape.type === 'group') {
     const groupShape = shape as IGroupEntity
     return { x, y, width: groupShape.size.width, height: groupShape.size.height }
+  } else if (shape.type === 'diamond' || shape.type === 'link' || shape.type === 'frame') {
+    const { size } = shape as IDiamondEntity | ILinkEntity | IFrameEntity
+    return { x, y, width: size.width, height: size.height }
+  } else if (shape.type === 'sticky') {
+    return { x, y, ...getStickySize(shape as IStickyEntity) }
   } else if (shape.type === 'text') {
-    const textShape = shape as ITextEntity
-    const estimatedWidth = textShape.content.length * textShape.fontSize * 0.6
-    return { x, y, width: estimatedWidth, height: textShape.fontSize }
+    const bounds = getTextBounds(shape as ITextEntity)
+    return { x: x + bounds.x, y: y + bounds.y, width: bounds.width, height: bounds.height }
+  } else if (isCustomShape(shape)) {
+    const bounds = shapeTypeRegistry.getLocalBounds(shape)
+    return { x: x + bounds.x, y: y + bounds.y, width: bounds.width, height: bounds.height }
   }
 
   return { x, y, width: 100, height: 100 }
@@ -88,6 +113,21 @@ export function getSelectionBounds(shapes: ShapeEntity[]): IBounds {
     maxY = -Infinity
 
   for (const shape of shapes) {
+    if (
+      shape.type === 'connector' ||
+      shape.type === 'diamond' ||
+      shape.type === 'sticky' ||
+      shape.type === 'link' ||
+      shape.type === 'frame'
+    ) {
+      const bounds = getShapeBounds(shape)
+      minX = Math.min(minX, bounds.x)
+      minY = Math.min(minY, bounds.y)
+      maxX = Math.max(maxX, bounds.x + bounds.width)
+      maxY = Math.max(maxY, bounds.y + bounds.height)
+      continue
+    }
+
     const { x, y } = shape.transform.position
     let width = 100,
       height = 100
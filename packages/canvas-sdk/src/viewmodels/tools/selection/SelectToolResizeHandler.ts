@@ -1,5 +1,14 @@
 import type { ICanvasManager } from '../../../managers/CanvasManager'
-import type { ShapeEntity } from '../../../models/entities/Shape'
+import {
+  type ICustomShapeEntity,
+  isCustomShape,
+  type ShapeEntity,
+} from '../../../models/entities/Shape'
+import {
+  type IShapeResizeResult,
+  type ShapeResizeHandle,
+  shapeTypeRegistry,
+} from '../../../models/entities/ShapeTypeRegistry'
 import type { HandlePosition, IInitialShapeState, ISelectToolState } from './SelectToolTypes'
 
 type RectUpdate = Partial<ShapeEntity> & {
@@ -30,15 +39,17 @@ export class SelectToolResizeHandler {
     const handle = this.state.activeHandle
 
     const selectedShapes = this.canvasManager.getSelectedShapes()
+    const batched = selectedShapes.length > 1
+    if (batched) this.canvasManager.beginBatch(`Resize ${selectedShapes.length} shapes`)
 
     for (const shape of selectedShapes) {
       const initial = this.initialShapeStates.get(shape.id)
       if (!initial) continue
 
-      if (
-        (shape.type === 'rectangle' || shape.type === 'image' || shape.type === 'group') &&
-        initial.size
-      ) {
+      if (isCustomShape(shape) && initial.size) {
+        const updates = this.calculateCustomResize(shape, initial, handle, deltaX, deltaY)
+        this.canvasManager.updateShape(shape.id, updates)
+      } else if ('size' in shape && initial.size) {
         const updates = this.calculateRectResize(initial, handle, deltaX, deltaY)
         this.canvasManager.updateShape(shape.id, updates)
       } else if (shape.type === 'circle' && initial.radius !== undefined) {
@@ -63,6 +74,7 @@ export class SelectToolResizeHandler {
         this.canvasManager.updateShape(shape.id, updates)
       }
     }
+    if (batched) this.canvasManager.endBatch()
   }
 
   saveInitialShapeStates(): void {
@@ -78,7 +90,7 @@ export class SelectToolResizeHandler {
         },
       }
 
-      if (shape.type === 'rectangle' || shape.type === 'image' || shape.type === 'group') {
+      if ('size' in shape) {
         state.size = { width: shape.size.width, height: shape.size.height }
       } else if (shape.type === 'circle') {
         state.radius = shape.radius
@@ -152,6 +164,43 @@ export class SelectToolResizeHandler {
     } as Partial<ShapeEntity>
   }
 
+  /**
+   * 自定义形状先按矩形缩放，再交给类型的 resize 约束尺寸；
+   * 拖拽左边或上边时保持对边不动
+   */
+  private calculateCustomResize(
+    shape: ICustomShapeEntity,
+    initial: IInitialShapeState,
+    handle: HandlePosition,
+    deltaX: number,
+    deltaY: number
+  ): Partial<ShapeEntity> {
+    const updates = this.calculateRectResize(initial, handle, deltaX, deltaY) as RectUpdate
+    const resize = shapeTypeRegistry.get(shape.type)?.resize
+    if (!resize || !updates.size || !updates.transform || !initial.size) return updates
+
+    let result: IShapeResizeResult
+    try {
+      result = resize(shape, updates.size, handle as ShapeResizeHandle)
+    } catch {
+      return updates
+    }
+    const { x, y } = initial.transform.position
+    const position = { ...updates.transform.position }
+    if (handle === 'w' || handle === 'sw' || handle === 'nw') {
+      position.x = x + initial.size.width - result.size.width
+    }
+    if (handle === 'n' || handle === 'ne' || handle === 'nw') {
+      position.y = y + initial.size.height - result.size.height
+    }
+
+    return {
+      transform: { ...updates.transform, position },
+      size: { ...result.size },
+      ...(result.data ? { data: { ...shape.data, ...result.data } } : {}),
+    } as Partial<ShapeEntity>
+  }
+
   private calculateCircleResize(
     initial: IInitialShapeState,
     deltaX: number,
@@ -34,6 +34,8 @@ export class SelectToolRotateHandler {
     const currentAngle = Math.atan2(y - centerY, x - centerX)
     const deltaAngle = currentAngle - startAngle
 
+    const batched = selectedShapes.length > 1
+    if (batched) this.canvasManager.beginBatch(`Rotate ${selectedShapes.length} shapes`)
     for (const shape of selectedShapes) {
       const initial = this.initialShapeStates.get(shape.id)
       if (!initial) continue
@@ -43,6 +45,7 @@ export class SelectToolRotateHandler {
         transform: { ...shape.transform, rotation: newRotation },
       })
     }
+    if (batched) this.canvasManager.endBatch()
   }
 
   private saveInitialShapeStates(): void {
@@ -0,0 +1,257 @@
+/**
+ * 卡片排版
+ * 便签与链接卡片的文本换行与布局（本地坐标），供渲染、命中测试与导出共享
+ */
+
+import type { IPoint, IRect } from '@sky-canvas/render-engine'
+import type { ILinkEntity, ISize, IStickyEntity } from '../models/entities/Shape'
+
+/**
+ * 卡片中的一段文本，y 为首行顶部
+ */
+export interface ICardText {
+  lines: string[]
+  x: number
+  y: number
+  fontSize: number
+  lineHeight: number
+}
+
+export interface IStickyLayout extends ICardText {
+  /** 随内容增长后的实际尺寸 */
+  size: ISize
+}
+
+export interface ILinkCardLayout {
+  /** 预览图或嵌入内容区域 */
+  media: IRect | null
+  title: ICardText
+  description: ICardText | null
+  domain: ICardText
+}
+
+/** 与文本形状一致按字号估算字符宽度 */
+const CHAR_WIDTH_FACTOR = 0.6
+const LINE_HEIGHT_FACTOR = 1.4
+const STICKY_PADDING = 16
+const CARD_PADDING = 12
+const CARD_TITLE_FONT_SIZE = 14
+const CARD_DESCRIPTION_FONT_SIZE = 12
+const CARD_DOMAIN_FONT_SIZE = 11
+const EMBED_CAPTION_HEIGHT = 44
+const ELLIPSIS = '…'
+
+/** 中日韩字符可在任意位置断行 */
+const WRAP_TOKEN =
+  /[\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]|[^\s\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]+|\s+/g
+
+export function measureTextWidth(text: string, fontSize: number): number {
+  return text.length * fontSize * CHAR_WIDTH_FACTOR
+}
+
+/**
+ * 按最大宽度折行：保留显式换行，按单词断行，超长单词按字符断开
+ */
+export function wrapText(text: string, maxWidth: number, fontSize: number): string[] {
+  if (!text) return []
+  const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * CHAR_WIDTH_FACTOR)))
+  const lines: string[] = []
+
+  for (const paragraph of text.split('\n')) {
+    let line = ''
+    for (const token of paragraph.match(WRAP_TOKEN) ?? []) {
+      if ((line + token).length <= maxChars) {
+        line += token
+        continue
+      }
+      if (/^\s+$/.test(token)) {
+        // 行尾空白不换到下一行
+        lines.push(line.trimEnd())
+        line = ''
+        continue
+      }
+      if (line.trim()) lines.push(line.trimEnd())
+      line = ''
+      let rest = token
+      while (rest.length > maxChars) {
+        lines.push(rest.slice(0, maxChars))
+        rest = rest.slice(maxChars)
+      }
+      line = rest
+    }
+    lines.push(line.trimEnd())
+  }
+  return lines
+}
+
+/**
+ * 便签排版：宽度固定，高度取 size.height 与文本所需高度的较大值
+ */
+export function getStickyLayout(sticky: IStickyEntity): IStickyLayout {
+  const { size, fontSize } = sticky
+  const lineHeight = fontSize * LINE_HEIGHT_FACTOR
+  const lines = wrapText(sticky.content, Math.max(0, size.width - STICKY_PADDING * 2), fontSize)
+  const height = Math.max(size.height, lines.length * lineHeight + STICKY_PADDING * 2)
+  return {
+    lines,
+    x: STICKY_PADDING,
+    y: STICKY_PADDING,
+    fontSize,
+    lineHeight,
+    size: { width: size.width, height },
+  }
+}
+
+export function getStickySize(sticky: IStickyEntity): ISize {
+  return getStickyLayout(sticky).size
+}
+
+/**
+ * 多行文本中各行的锚点（按对齐方式取行首、中点或行尾）
+ */
+export function getCardLineOrigins(
+  text: ICardText,
+  width: number,
+  align: 'left' | 'center' | 'right'
+): IPoint[] {
+  const x = align === 'center' ? width / 2 : align === 'right' ? width - text.x : text.x
+  return text.lines.map((_, index) => ({ x, y: text.y + index * text.lineHeight }))
+}
+
+/**
+ * 链接卡片排版
+ * 普通卡片：预览图在左，标题、描述、域名在右；嵌入卡片：内容区在上，标题与域名在下
+ */
+export function getLinkCardLayout(link: ILinkEntity): ILinkCardLayout {
+  const { width, height } = link.size
+  const title = link.title || getLinkDomain(link.url)
+
+  if (link.embedUrl) {
+    const mediaHeight = Math.max(0, height - EMBED_CAPTION_HEIGHT)
+    const textWidth = width - CARD_PADDING * 2
+    return {
+      media: { x: 0, y: 0, width, height: mediaHeight },
+      title: createCardText(
+        title,
+        CARD_PADDING,
+        mediaHeight + 6,
+        textWidth,
+        CARD_TITLE_FONT_SIZE,
+        1
+      ),
+      description: null,
+      domain: createCardText(
+        getLinkDomain(link.url),
+        CARD_PADDING,
+        height - CARD_PADDING - CARD_DOMAIN_FONT_SIZE,
+        textWidth,
+        CARD_DOMAIN_FONT_SIZE,
+        1
+      ),
+    }
+  }
+
+  const media = link.thumbnail ? { x: 0, y: 0, width: Math.min(height, width / 3), height } : null
+  const x = (media?.width ?? 0) + CARD_PADDING
+  const textWidth = Math.max(0, width - x - CARD_PADDING)
+  const titleText = createCardText(title, x, CARD_PADDING, textWidth, CARD_TITLE_FONT_SIZE, 2)
+  const domainY = height - CARD_PADDING - CARD_DOMAIN_FONT_SIZE
+  const descriptionY = titleText.y + titleText.lines.length * titleText.lineHeight + 4
+  // 描述只占用标题与域名之间的剩余行数
+  const descriptionLines = Math.floor(
+    (domainY - 4 - descriptionY) / (CARD_DESCRIPTION_FONT_SIZE * LINE_HEIGHT_FACTOR)
+  )
+  return {
+    media,
+    title: titleText,
+    description:
+      link.description && descriptionLines > 0
+        ? createCardText(
+            link.description,
+            x,
+            descriptionY,
+            textWidth,
+            CARD_DESCRIPTION_FONT_SIZE,
+            Math.min(2, descriptionLines)
+          )
+        : null,
+    domain: createCardText(
+      getLinkDomain(link.url),
+      x,
+      domainY,
+      textWidth,
+      CARD_DOMAIN_FONT_SIZE,
+      1
+    ),
+  }
+}
+
+/**
+ * 链接域名（去掉 www.），无法解析时返回原地址
+ */
+export function getLinkDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+/**
+ * 补全协议，输入无协议的地址时按 https 处理
+ */
+export function normalizeLinkUrl(input: string): string {
+  const url = input.trim()
+  if (!url || /^[a-z][a-z\d+.-]*:/i.test(url)) return url
+  return `https://${url}`
+}
+
+/**
+ * 可嵌入链接对应的嵌入地址：YouTube、Vimeo 与 Figma，其他链接返回 undefined
+ */
+export function resolveEmbedUrl(url: string): string | undefined {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return undefined
+  }
+  const host = parsed.hostname.replace(/^www\./, '')
+  const path = parsed.pathname.split('/').filter(Boolean)
+
+  if (host === 'youtube.com' || host === 'm.youtube.com') {
+    const id = path[0] === 'watch' ? parsed.searchParams.get('v') : path[0] === 'shorts' && path[1]
+    return id ? `https://www.youtube.com/embed/${id}` : undefined
+  }
+  if (host === 'youtu.be' && path[0]) {
+    return `https://www.youtube.com/embed/${path[0]}`
+  }
+  if (host === 'vimeo.com' && /^\d+$/.test(path[0] ?? '')) {
+    return `https://player.vimeo.com/video/${path[0]}`
+  }
+  if (host === 'figma.com' && ['file', 'design', 'proto'].includes(path[0] ?? '')) {
+    return `https://www.figma.com/embed?embed_host=share&url=${encodeURIComponent(url)}`
+  }
+  return undefined
+}
+
+/**
+ * 折行并限制行数，超出时末行以省略号结尾
+ */
+function createCardText(
+  text: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  fontSize: number,
+  maxLines: number
+): ICardText {
+  const lines = wrapText(text, maxWidth, fontSize)
+  if (lines.length > maxLines) {
+    const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * CHAR_WIDTH_FACTOR)))
+    const last = lines[maxLines - 1]
+    lines.length = maxLines
+    lines[maxLines - 1] = `${last.slice(0, Math.max(0, maxChars - 1)).trimEnd()}${ELLIPSIS}`
+  }
+  return { lines, x, y, fontSize, lineHeight: fontSize * LINE_HEIGHT_FACTOR }
+}
@@ -0,0 +1,231 @@
+/**
+ * 连接线几何
+ * 由路由结果生成路径、箭头与标签的本地几何，供渲染、命中测试与导出共享
+ */
+
+import { type IPoint, type IRect, SVGPathData } from '@sky-canvas/render-engine'
+import type {
+  ConnectorArrowhead,
+  ConnectorRouting,
+  IConnectorEntity,
+} from '../models/entities/Shape'
+import type { IShapeOutline } from './ShapeGeometry'
+
+/**
+ * 连接线端点箭头（本地坐标），封闭箭头以描边色填充
+ */
+export interface IConnectorArrowheadOutline extends IShapeOutline {
+  type: ConnectorArrowhead
+}
+
+const PATH_FLATTEN_TOLERANCE = 0.25
+const CIRCLE_SEGMENTS = 16
+const DEFAULT_LABEL_FONT_SIZE = 14
+const LABEL_PADDING = 4
+
+const round = (value: number) => +value.toFixed(2)
+
+/**
+ * 由路由顶点生成路径：折线依次连接，曲线为起点、两个控制点与终点组成的三次贝塞尔
+ */
+export function createConnectorPathData(waypoints: IPoint[], routing: ConnectorRouting): string {
+  if (waypoints.length === 0) return ''
+  const format = (p: IPoint) => `${round(p.x)},${round(p.y)}`
+  const [first, ...rest] = waypoints
+  if (routing === 'curved' && rest.length === 3) {
+    return `M${format(first)} C${rest.map(format).join(' ')}`
+  }
+  return [`M${format(first)}`, ...rest.map((p) => `L${format(p)}`)].join(' ')
+}
+
+/**
+ * 连接线路径，缺少缓存时按路由顶点重新生成
+ */
+export function getConnectorPathData(connector: IConnectorEntity): string {
+  return connector.pathData || createConnectorPathData(connector.waypoints ?? [], connector.routing)
+}
+
+/**
+ * 箭头长度随线宽增大
+ */
+export function getArrowheadSize(connector: IConnectorEntity): number {
+  return 8 + (connector.style.strokeWidth || connector.style.lineWidth || 1) * 2
+}
+
+/**
+ * 两端箭头轮廓
+ */
+export function getConnectorArrowheads(connector: IConnectorEntity): IConnectorArrowheadOutline[] {
+  const waypoints = connector.waypoints ?? []
+  if (waypoints.length < 2) return []
+
+  const size = getArrowheadSize(connector)
+  const heads: IConnectorArrowheadOutline[] = []
+  const start = createArrowhead(
+    connector.startArrowhead,
+    waypoints[0],
+    getEndDirection(waypoints, false),
+    size
+  )
+  const end = createArrowhead(
+    connector.endArrowhead,
+    waypoints[waypoints.length - 1],
+    getEndDirection(waypoints, true),
+    size
+  )
+  if (start) heads.push(start)
+  if (end) heads.push(end)
+  return heads
+}
+
+/**
+ * 标签框（本地坐标），位于路径上 label.position 比例处
+ */
+export function getConnectorLabelBox(connector: IConnectorEntity): IRect | null {
+  const label = connector.label
+  if (!label?.text) return null
+
+  const center = getPointAlongOutlines(
+    flattenConnectorPath(connector),
+    Math.max(0, Math.min(1, label.position ?? 0.5))
+  )
+  if (!center) return null
+  const fontSize = label.fontSize || DEFAULT_LABEL_FONT_SIZE
+  // 与文本形状一致按字号估算宽度
+  const width = label.text.length * fontSize * 0.6 + LABEL_PADDING * 2
+  const height = fontSize + LABEL_PADDING * 2
+  return { x: center.x - width / 2, y: center.y - height / 2, width, height }
+}
+
+export function getConnectorLabelFontSize(connector: IConnectorEntity): number {
+  return connector.label?.fontSize || DEFAULT_LABEL_FONT_SIZE
+}
+
+/**
+ * 路径与箭头轮廓（不含标签）
+ */
+export function getConnectorOutlines(connector: IConnectorEntity): IShapeOutline[] {
+  return [
+    ...flattenConnectorPath(connector),
+    ...getConnectorArrowheads(connector).map(({ points, closed }) => ({ points, closed })),
+  ]
+}
+
+/**
+ * 本地边界（含箭头与标签）
+ */
+export function getConnectorBounds(connector: IConnectorEntity): IRect {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  const include = (p: IPoint) => {
+    minX = Math.min(minX, p.x)
+    minY = Math.min(minY, p.y)
+    maxX = Math.max(maxX, p.x)
+    maxY = Math.max(maxY, p.y)
+  }
+  for (const outline of getConnectorOutlines(connector)) {
+    outline.points.forEach(include)
+  }
+  const label = getConnectorLabelBox(connector)
+  if (label) {
+    include({ x: label.x, y: label.y })
+    include({ x: label.x + label.width, y: label.y + label.height })
+  }
+  if (minX === Infinity) return { x: 0, y: 0, width: 0, height: 0 }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+function flattenConnectorPath(connector: IConnectorEntity): IShapeOutline[] {
+  const pathData = getConnectorPathData(connector)
+  if (!pathData) return []
+  return SVGPathData.flatten(SVGPathData.normalize(pathData), PATH_FLATTEN_TOLERANCE)
+}
+
+/**
+ * 端点处指向线外的单位方向；曲线时控制点给出切线方向
+ */
+function getEndDirection(waypoints: IPoint[], atEnd: boolean): IPoint {
+  const points = atEnd ? waypoints : [...waypoints].reverse()
+  const tip = points[points.length - 1]
+  for (let i = points.length - 2; i >= 0; i--) {
+    const dx = tip.x - points[i].x
+    const dy = tip.y - points[i].y
+    const length = Math.hypot(dx, dy)
+    if (length > 1e-6) return { x: dx / length, y: dy / length }
+  }
+  return { x: 1, y: 0 }
+}
+
+/**
+ * 箭头轮廓，尖端位于端点
+ */
+function createArrowhead(
+  type: ConnectorArrowhead | undefined,
+  tip: IPoint,
+  direction: IPoint,
+  size: number
+): IConnectorArrowheadOutline | null {
+  // along: 沿线向内，across: 垂直于线
+  const at = (along: number, across: number) => ({
+    x: tip.x - direction.x * along - direction.y * across,
+    y: tip.y - direction.y * along + direction.x * across,
+  })
+  const half = size / 2
+
+  switch (type) {
+    case 'arrow':
+      return { type, points: [at(size, half), at(0, 0), at(size, -half)], closed: false }
+    case 'triangle':
+      return { type, points: [at(0, 0), at(size, half), at(size, -half)], closed: true }
+    case 'diamond':
+      return {
+        type,
+        points: [at(0, 0), at(size / 2, half * 0.8), at(size, 0), at(size / 2, -half * 0.8)],
+        closed: true,
+      }
+    case 'circle': {
+      const radius = size / 3
+      const center = at(radius, 0)
+      const points: IPoint[] = []
+      for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+        const angle = (Math.PI * 2 * i) / CIRCLE_SEGMENTS
+        points.push({
+          x: center.x + Math.cos(angle) * radius,
+          y: center.y + Math.sin(angle) * radius,
+        })
+      }
+      return { type, points, closed: true }
+    }
+    case 'bar':
+      return { type, points: [at(0, half), at(0, -half)], closed: false }
+    default:
+      return null
+  }
+}
+
+/**
+ * 按弧长比例取折线上的点
+ */
+function getPointAlongOutlines(outlines: IShapeOutline[], t: number): IPoint | null {
+  const points = outlines.flatMap((outline) => outline.points)
+  if (points.length === 0) return null
+
+  let total = 0
+  for (let i = 1; i < points.length; i++) {
+    total += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y)
+  }
+  let remaining = total * t
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]
+    const b = points[i]
+    const length = Math.hypot(b.x - a.x, b.y - a.y)
+    if (length > 0 && remaining <= length) {
+      const k = remaining / length
+      return { x: a.x + (b.x - a.x) * k, y: a.y + (b.y - a.y) * k }
+    }
+    remaining -= length
+  }
+  return { ...points[points.length - 1] }
+}
@@ -0,0 +1,364 @@
+/**
+ * 连接线路由
+ * 根据端点绑定的形状计算端点位置，并按直线、正交折线或曲线生成路由顶点
+ */
+
+import type { IPoint, IRect } from '@sky-canvas/render-engine'
+import type {
+  IConnectorEndpoint,
+  IConnectorEntity,
+  IShapeEntity,
+  ShapeEntity,
+} from '../models/entities/Shape'
+import { createConnectorPathData } from './ConnectorGeometry'
+import { getPointsBounds, getShapeOutlines, localToWorld, transformBounds } from './ShapeGeometry'
+
+/**
+ * 路由结果，可直接作为连接线的更新内容
+ */
+export type ConnectorRoute = Pick<
+  IConnectorEntity,
+  'transform' | 'start' | 'end' | 'waypoints' | 'pathData'
+>
+
+/**
+ * 按 id 查找形状
+ */
+export type ShapeLookup = (id: string) => ShapeEntity | undefined
+
+/**
+ * 解析后的端点（世界坐标），direction 为离开形状的方向
+ */
+interface IResolvedEndpoint {
+  point: IPoint
+  direction?: IPoint
+}
+
+/** 折线离开形状后先直行的距离 */
+const ELBOW_MARGIN = 20
+const MIN_CURVE_HANDLE = 30
+/** 锚点距边不超过该比例时视为位于该边 */
+const SIDE_ANCHOR_THRESHOLD = 0.25
+
+/**
+ * 可吸附的固定锚点：四边中点
+ */
+const SNAP_ANCHORS: IPoint[] = [
+  { x: 0.5, y: 0 },
+  { x: 1, y: 0.5 },
+  { x: 0.5, y: 1 },
+  { x: 0, y: 0.5 },
+]
+
+/**
+ * 形状能否作为连接线端点的绑定目标
+ */
+export function canBindConnector(shape: IShapeEntity): boolean {
+  return shape.type !== 'connector'
+}
+
+/**
+ * 查找两端绑定到指定形状之一的连接线
+ */
+export function getBoundConnectors(
+  shapes: Iterable<ShapeEntity>,
+  shapeIds: Set<string>
+): IConnectorEntity[] {
+  const result: IConnectorEntity[] = []
+  for (const shape of shapes) {
+    if (shape.type !== 'connector') continue
+    const { start, end } = shape
+    if (
+      (start.shapeId && shapeIds.has(start.shapeId)) ||
+      (end.shapeId && shapeIds.has(end.shapeId))
+    ) {
+      result.push(shape)
+    }
+  }
+  return result
+}
+
+/**
+ * 指针靠近形状的固定锚点时返回该锚点，否则返回 undefined（浮动绑定）
+ * @param point 世界坐标
+ * @param tolerance 世界坐标下的吸附距离
+ */
+export function getConnectorAnchor(
+  shape: ShapeEntity,
+  point: IPoint,
+  tolerance: number
+): IPoint | undefined {
+  const bounds = getShapeLocalBounds(shape)
+  let best: IPoint | undefined
+  let bestDistance = tolerance
+  for (const anchor of SNAP_ANCHORS) {
+    const world = localToWorld(shape.transform, getAnchorPoint(bounds, anchor))
+    const distance = Math.hypot(world.x - point.x, world.y - point.y)
+    if (distance <= bestDistance) {
+      best = anchor
+      bestDistance = distance
+    }
+  }
+  return best && { ...best }
+}
+
+/**
+ * 计算连接线路由：以起点为新原点，端点绑定关系保持不变
+ * 绑定的形状不存在时端点保持原位置
+ */
+export function routeConnector(connector: IConnectorEntity, getShape: ShapeLookup): ConnectorRoute {
+  const startShape = getBoundShape(connector.start, getShape)
+  const endShape = getBoundShape(connector.end, getShape)
+  const startRef = getReferencePoint(connector, connector.start, startShape)
+  const endRef = getReferencePoint(connector, connector.end, endShape)
+
+  const start = resolveEndpoint(connector, connector.start, startShape, endRef)
+  const end = resolveEndpoint(connector, connector.end, endShape, startRef)
+
+  let points: IPoint[]
+  switch (connector.routing) {
+    case 'elbow':
+      points = routeElbow(start, end)
+      break
+    case 'curved':
+      points = routeCurved(start, end)
+      break
+    default:
+      points = [start.point, end.point]
+      break
+  }
+
+  const origin = start.point
+  const waypoints = points.map((p) => ({ x: p.x - origin.x, y: p.y - origin.y }))
+  return {
+    transform: { position: { ...origin }, rotation: 0, scale: { x: 1, y: 1 } },
+    start: { ...connector.start, point: { x: 0, y: 0 } },
+    end: { ...connector.end, point: { ...waypoints[waypoints.length - 1] } },
+    waypoints,
+    pathData: createConnectorPathData(waypoints, connector.routing),
+  }
+}
+
+function getBoundShape(endpoint: IConnectorEndpoint, getShape: ShapeLookup) {
+  const shape = endpoint.shapeId ? getShape(endpoint.shapeId) : undefined
+  return shape && canBindConnector(shape) ? shape : undefined
+}
+
+function getShapeLocalBounds(shape: ShapeEntity): IRect {
+  return getPointsBounds(getShapeOutlines(shape).flatMap((outline) => outline.points))
+}
+
+function getAnchorPoint(bounds: IRect, anchor: IPoint): IPoint {
+  return { x: bounds.x + bounds.width * anchor.x, y: bounds.y + bounds.height * anchor.y }
+}
+
+function getShapeCenter(shape: ShapeEntity): IPoint {
+  return localToWorld(
+    shape.transform,
+    getAnchorPoint(getShapeLocalBounds(shape), { x: 0.5, y: 0.5 })
+  )
+}
+
+/**
+ * 端点的参考位置，供另一端的浮动锚点确定朝向
+ */
+function getReferencePoint(
+  connector: IConnectorEntity,
+  endpoint: IConnectorEndpoint,
+  shape: ShapeEntity | undefined
+): IPoint {
+  if (!shape) return localToWorld(connector.transform, endpoint.point)
+  if (endpoint.anchor) {
+    return localToWorld(
+      shape.transform,
+      getAnchorPoint(getShapeLocalBounds(shape), endpoint.anchor)
+    )
+  }
+  return getShapeCenter(shape)
+}
+
+function resolveEndpoint(
+  connector: IConnectorEntity,
+  endpoint: IConnectorEndpoint,
+  shape: ShapeEntity | undefined,
+  towards: IPoint
+): IResolvedEndpoint {
+  if (!shape) return { point: localToWorld(connector.transform, endpoint.point) }
+
+  const bounds = getShapeLocalBounds(shape)
+  if (endpoint.anchor) {
+    return {
+      point: localToWorld(shape.transform, getAnchorPoint(bounds, endpoint.anchor)),
+      direction: getAnchorDirection(shape, endpoint.anchor),
+    }
+  }
+
+  const center = getShapeCenter(shape)
+  if (connector.routing === 'straight') {
+    const point = intersectOutline(shape, center, towards)
+    return point
+      ? { point, direction: normalize(point.x - center.x, point.y - center.y) }
+      : {
+          point: center,
+        }
+  }
+
+  // 折线与曲线从朝向另一端的边的中点离开
+  const world = transformBounds(shape.transform, bounds)
+  const dx = towards.x - center.x
+  const dy = towards.y - center.y
+  const inside =
+    towards.x > world.x &&
+    towards.x < world.x + world.width &&
+    towards.y > world.y &&
+    towards.y < world.y + world.height
+  if (inside) return { point: center }
+  if (Math.abs(dx) * world.height >= Math.abs(dy) * world.width) {
+    const x = dx >= 0 ? world.x + world.width : world.x
+    return { point: { x, y: center.y }, direction: { x: Math.sign(dx) || 1, y: 0 } }
+  }
+  const y = dy >= 0 ? world.y + world.height : world.y
+  return { point: { x: center.x, y }, direction: { x: 0, y: Math.sign(dy) || 1 } }
+}
+
+/**
+ * 固定锚点所在边的外法线方向（世界坐标），锚点在形状内部时没有方向
+ */
+function getAnchorDirection(shape: ShapeEntity, anchor: IPoint): IPoint | undefined {
+  const sides = [
+    { distance: anchor.x, x: -1, y: 0 },
+    { distance: 1 - anchor.x, x: 1, y: 0 },
+    { distance: anchor.y, x: 0, y: -1 },
+    { distance: 1 - anchor.y, x: 0, y: 1 },
+  ]
+  const side = sides.reduce((a, b) => (b.distance < a.distance ? b : a))
+  if (side.distance > SIDE_ANCHOR_THRESHOLD) return undefined
+
+  const origin = localToWorld(shape.transform, { x: 0, y: 0 })
+  const tip = localToWorld(shape.transform, { x: side.x, y: side.y })
+  return normalize(tip.x - origin.x, tip.y - origin.y)
+}
+
+/**
+ * 从形状中心指向目标的线段与形状轮廓的最外侧交点
+ */
+function intersectOutline(shape: ShapeEntity, center: IPoint, towards: IPoint): IPoint | null {
+  let best = -1
+  for (const outline of getShapeOutlines(shape)) {
+    const points = outline.points.map((p) => localToWorld(shape.transform, p))
+    const count = outline.closed ? points.length : points.length - 1
+    for (let i = 0; i < count; i++) {
+      const t = segmentIntersection(center, towards, points[i], points[(i + 1) % points.length])
+      if (t !== null && t > best) best = t
+    }
+  }
+  if (best < 0) return null
+  return {
+    x: center.x + (towards.x - center.x) * best,
+    y: center.y + (towards.y - center.y) * best,
+  }
+}
+
+/**
+ * 线段 ab 与 cd 的交点在 ab 上的参数，不相交返回 null
+ */
+function segmentIntersection(a: IPoint, b: IPoint, c: IPoint, d: IPoint): number | null {
+  const rx = b.x - a.x
+  const ry = b.y - a.y
+  const sx = d.x - c.x
+  const sy = d.y - c.y
+  const denominator = rx * sy - ry * sx
+  if (Math.abs(denominator) < 1e-12) return null
+  const t = ((c.x - a.x) * sy - (c.y - a.y) * sx) / denominator
+  const u = ((c.x - a.x) * ry - (c.y - a.y) * rx) / denominator
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? t : null
+}
+
+/**
+ * 正交折线：先沿离开方向直行，再经中线转向目标
+ */
+function routeElbow(start: IResolvedEndpoint, end: IResolvedEndpoint): IPoint[] {
+  const s = start.point
+  const e = end.point
+  const s1 = start.direction ? offset(s, start.direction, ELBOW_MARGIN) : s
+  const e1 = end.direction ? offset(e, end.direction, ELBOW_MARGIN) : e
+
+  const startHorizontal = start.direction
+    ? Math.abs(start.direction.x) >= Math.abs(start.direction.y)
+    : Math.abs(e1.x - s1.x) >= Math.abs(e1.y - s1.y)
+  const endHorizontal = end.direction
+    ? Math.abs(end.direction.x) >= Math.abs(end.direction.y)
+    : startHorizontal
+
+  const midX = (s1.x + e1.x) / 2
+  const midY = (s1.y + e1.y) / 2
+  const viaMidX = [
+    { x: midX, y: s1.y },
+    { x: midX, y: e1.y },
+  ]
+  const viaMidY = [
+    { x: s1.x, y: midY },
+    { x: e1.x, y: midY },
+  ]
+
+  // 中线落在任一端离开方向的背面时改走另一条中线，避免折回穿过形状
+  let middle: IPoint[]
+  if (startHorizontal && endHorizontal) {
+    const away =
+      facesAway(start.direction, midX - s1.x, 'x') || facesAway(end.direction, midX - e1.x, 'x')
+    middle = away ? viaMidY : viaMidX
+  } else if (!startHorizontal && !endHorizontal) {
+    const away =
+      facesAway(start.direction, midY - s1.y, 'y') || facesAway(end.direction, midY - e1.y, 'y')
+    middle = away ? viaMidX : viaMidY
+  } else if (startHorizontal) {
+    middle = [{ x: e1.x, y: s1.y }]
+  } else {
+    middle = [{ x: s1.x, y: e1.y }]
+  }
+
+  return simplifyPolyline([s, s1, ...middle, e1, e])
+}
+
+function facesAway(direction: IPoint | undefined, delta: number, axis: 'x' | 'y'): boolean {
+  return !!direction && delta * direction[axis] < 0
+}
+
+/**
+ * 三次曲线：控制点沿两端离开方向伸出，无方向时朝向另一端
+ */
+function routeCurved(start: IResolvedEndpoint, end: IResolvedEndpoint): IPoint[] {
+  const s = start.point
+  const e = end.point
+  const handle = Math.max(MIN_CURVE_HANDLE, Math.hypot(e.x - s.x, e.y - s.y) * 0.4)
+  const startDirection = start.direction ?? normalize(e.x - s.x, e.y - s.y)
+  const endDirection = end.direction ?? normalize(s.x - e.x, s.y - e.y)
+  return [s, offset(s, startDirection, handle), offset(e, endDirection, handle), e]
+}
+
+/**
+ * 去除重合点与共线的中间点
+ */
+function simplifyPolyline(points: IPoint[]): IPoint[] {
+  const result: IPoint[] = []
+  for (const point of points) {
+    const last = result[result.length - 1]
+    if (last && Math.abs(last.x - point.x) < 1e-6 && Math.abs(last.y - point.y) < 1e-6) continue
+    if (result.length >= 2) {
+      const prev = result[result.length - 2]
+      const cross = (last.x - prev.x) * (point.y - prev.y) - (last.y - prev.y) * (point.x - prev.x)
+      if (Math.abs(cross) < 1e-6) result.pop()
+    }
+    result.push({ x: point.x, y: point.y })
+  }
+  return result
+}
+
+function offset(point: IPoint, direction: IPoint, distance: number): IPoint {
+  return { x: point.x + direction.x * distance, y: point.y + direction.y * distance }
+}
+
+function normalize(x: number, y: number): IPoint {
+  const length = Math.hypot(x, y)
+  return length > 0 ? { x: x / length, y: y / length } : { x: 0, y: 0 }
+}
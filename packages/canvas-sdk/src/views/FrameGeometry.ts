@@ -0,0 +1,84 @@
+/**
+ * 画框几何
+ * 画框标题、区域判断与子形状归属，供渲染、命中测试与 CanvasManager 共享
+ */
+
+import type { IPoint, IRect } from '@sky-canvas/render-engine'
+import type { IFrameEntity, IShapeEntity, ShapeEntity } from '../models/entities/Shape'
+import { measureTextWidth } from './CardLayout'
+import { getPointsBounds, getShapeOutlines, transformBounds, worldToLocal } from './ShapeGeometry'
+
+export const FRAME_TITLE_FONT_SIZE = 12
+const FRAME_TITLE_GAP = 6
+
+/**
+ * 标题框（本地坐标），位于画框左上角上方
+ */
+export function getFrameTitleBox(frame: IFrameEntity): IRect {
+  const width = Math.min(frame.size.width, measureTextWidth(frame.name, FRAME_TITLE_FONT_SIZE))
+  return {
+    x: 0,
+    y: -FRAME_TITLE_FONT_SIZE - FRAME_TITLE_GAP,
+    width,
+    height: FRAME_TITLE_FONT_SIZE,
+  }
+}
+
+/**
+ * 世界坐标点是否落在画框区域内
+ */
+export function isPointInFrame(frame: IFrameEntity, point: IPoint): boolean {
+  const local = worldToLocal(frame.transform, point)
+  return local.x >= 0 && local.x <= frame.size.width && local.y >= 0 && local.y <= frame.size.height
+}
+
+/**
+ * 世界坐标点是否落在画框标题上
+ */
+export function hitTestFrameTitle(frame: IFrameEntity, point: IPoint): boolean {
+  if (!frame.name) return false
+  const box = getFrameTitleBox(frame)
+  const local = worldToLocal(frame.transform, point)
+  return (
+    local.x >= box.x &&
+    local.x <= box.x + box.width &&
+    local.y >= box.y &&
+    local.y <= box.y + box.height
+  )
+}
+
+/**
+ * 形状所属画框 id
+ */
+export function getParentFrameId(shape: IShapeEntity): string | undefined {
+  const frameId = shape.metadata?.frameId
+  return typeof frameId === 'string' ? frameId : undefined
+}
+
+/**
+ * 可放入画框的形状：画框不嵌套，连接线跟随绑定的形状，编组内的形状随编组归属
+ */
+export function canJoinFrame(shape: IShapeEntity): boolean {
+  return shape.type !== 'frame' && shape.type !== 'connector' && !shape.metadata?.groupId
+}
+
+/**
+ * 包含该点的最上层可见画框
+ */
+export function findFrameAt(shapes: ShapeEntity[], point: IPoint): IFrameEntity | undefined {
+  let found: IFrameEntity | undefined
+  for (const shape of shapes) {
+    if (shape.type !== 'frame' || !shape.visible || !isPointInFrame(shape, point)) continue
+    if (!found || shape.zIndex >= found.zIndex) found = shape
+  }
+  return found
+}
+
+/**
+ * 形状边界中心（世界坐标），用于判断形状落在哪个画框内
+ */
+export function getShapeWorldCenter(shape: ShapeEntity): IPoint {
+  const local = getPointsBounds(getShapeOutlines(shape).flatMap((outline) => outline.points))
+  const bounds = transformBounds(shape.transform, local)
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }
+}
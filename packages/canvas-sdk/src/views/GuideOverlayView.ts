@@ -0,0 +1,57 @@
+/**
+ * 辅助线覆盖层视图
+ * 作为渲染引擎覆盖层中的可渲染对象，每帧由 GuideView 绘制场景中的辅助线
+ */
+
+import type { IGraphicsContext, IPoint, IRect, IRenderable } from '@sky-canvas/render-engine'
+import { GuideView, type IGuide } from './GuideView'
+
+/**
+ * 辅助线覆盖层的数据来源，每帧读取
+ */
+export interface IGuideSource {
+  /** 需要显示的辅助线，辅助线隐藏时为空 */
+  getGuides(): IGuide[]
+  /** 当前可见区域（世界坐标） */
+  getVisibleBounds(): IRect
+  /** 当前视口缩放，线宽保持屏幕大小 */
+  getZoom(): number
+}
+
+export class GuideOverlayView implements IRenderable {
+  static readonly ID = 'scene-guides'
+
+  readonly id = GuideOverlayView.ID
+  readonly visible = true
+  readonly zIndex = 0
+  private guideView = new GuideView()
+
+  constructor(private source: IGuideSource) {}
+
+  get bounds(): IRect {
+    return this.getBounds()
+  }
+
+  render(context: IGraphicsContext): void {
+    this.guideView.clearGuides()
+    for (const guide of this.source.getGuides()) {
+      this.guideView.addGuide(guide)
+    }
+    this.guideView.render(context, this.source.getVisibleBounds(), this.source.getZoom())
+  }
+
+  /**
+   * 辅助线不参与点击测试
+   */
+  hitTest(_point: IPoint): boolean {
+    return false
+  }
+
+  getBounds(): IRect {
+    return this.source.getVisibleBounds()
+  }
+
+  dispose(): void {
+    this.guideView.dispose()
+  }
+}
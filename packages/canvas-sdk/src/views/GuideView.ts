@@ -3,6 +3,7 @@
  * 负责渲染辅助线、对齐线等
  */
 
+import type { IGraphicsContext, IRect } from '@sky-canvas/render-engine'
 import type { IViewportState } from '../viewmodels/interfaces/IViewModel'
 
 export interface IGuide {
@@ -38,88 +39,76 @@ export class GuideView {
   }
 
   /**
-   * 渲染所有辅助线
+   * 渲染所有辅助线，在世界坐标中绘制并贯穿可见区域；线宽与虚线间隔按缩放保持屏幕大小
    */
-  render(ctx: CanvasRenderingContext2D, viewport: IViewportState): void {
+  render(context: IGraphicsContext, visible: IRect, zoom: number): void {
     if (this.guides.size === 0) return
 
-    ctx.save()
-
-    // 应用视口变换
-    ctx.translate(viewport.x, viewport.y)
-    ctx.scale(viewport.zoom, viewport.zoom)
+    context.save()
 
     // 渲染永久辅助线
-    this.renderPermanentGuides(ctx, viewport)
+    this.renderPermanentGuides(context, visible, zoom)
 
     // 渲染临时辅助线
-    this.renderTemporaryGuides(ctx, viewport)
+    this.renderTemporaryGuides(context, visible, zoom)
 
-    ctx.restore()
+    context.restore()
   }
 
   /**
    * 渲染永久辅助线
    */
-  private renderPermanentGuides(ctx: CanvasRenderingContext2D, viewport: IViewportState): void {
+  private renderPermanentGuides(context: IGraphicsContext, visible: IRect, zoom: number): void {
     const permanentGuides = Array.from(this.guides.values()).filter((guide) => !guide.temporary)
 
     const guideColor = this.config.guideColor ?? '#FF4081'
-    const lineWidth = this.config.lineWidth ?? 1
     const dashPattern = this.config.dashPattern ?? [5, 5]
-    ctx.strokeStyle = guideColor
-    ctx.lineWidth = lineWidth / viewport.zoom
-    ctx.setLineDash(dashPattern)
-
     for (const guide of permanentGuides) {
-      this.drawGuide(ctx, guide, viewport)
+      this.drawGuide(context, guide, visible, zoom, guideColor, dashPattern)
     }
   }
 
   /**
    * 渲染临时辅助线（对齐时显示）
    */
-  private renderTemporaryGuides(ctx: CanvasRenderingContext2D, viewport: IViewportState): void {
+  private renderTemporaryGuides(context: IGraphicsContext, visible: IRect, zoom: number): void {
     const temporaryGuides = Array.from(this.guides.values()).filter((guide) => guide.temporary)
 
     const temporaryGuideColor = this.config.temporaryGuideColor ?? '#00E676'
-    const lineWidth = this.config.lineWidth ?? 1
-    ctx.strokeStyle = temporaryGuideColor
-    ctx.lineWidth = lineWidth / viewport.zoom
-    ctx.setLineDash([3, 3])
-
     for (const guide of temporaryGuides) {
-      this.drawGuide(ctx, guide, viewport)
+      this.drawGuide(context, guide, visible, zoom, temporaryGuideColor, [3, 3])
     }
   }
 
   /**
-   * 绘制单条辅助线
+   * 绘制单条辅助线，实线样式或自带颜色的辅助线覆盖默认样式
    */
-  private drawGuide(ctx: CanvasRenderingContext2D, guide: IGuide, viewport: IViewportState): void {
-    const { type, position, color } = guide
-
-    if (color) {
-      ctx.strokeStyle = color
-    }
-
-    ctx.beginPath()
+  private drawGuide(
+    context: IGraphicsContext,
+    guide: IGuide,
+    visible: IRect,
+    zoom: number,
+    defaultColor: string,
+    dashPattern: number[]
+  ): void {
+    const { type, position, color, style } = guide
+
+    context.setStrokeColor(color ?? defaultColor)
+    context.setLineWidth((this.config.lineWidth ?? 1) / zoom)
+    context.setLineDash(style === 'solid' ? [] : dashPattern.map((segment) => segment / zoom))
+    context.beginPath()
 
     if (type === 'horizontal') {
       // 水平辅助线
-      const screenX1 = -viewport.x / viewport.zoom
-      const screenX2 = (ctx.canvas.width - viewport.x) / viewport.zoom
-      ctx.moveTo(screenX1, position)
-      ctx.lineTo(screenX2, position)
+      context.moveTo(visible.x, position)
+      context.lineTo(visible.x + visible.width, position)
     } else {
       // 垂直辅助线
-      const screenY1 = -viewport.y / viewport.zoom
-      const screenY2 = (ctx.canvas.height - viewport.y) / viewport.zoom
-      ctx.moveTo(position, screenY1)
-      ctx.lineTo(position, screenY2)
+      context.moveTo(position, visible.y)
+      context.lineTo(position, visible.y + visible.height)
     }
 
-    ctx.stroke()
+    context.stroke()
   }
 
   /**
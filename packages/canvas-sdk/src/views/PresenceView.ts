@@ -0,0 +1,62 @@
+/**
+ * 协作在线状态视图
+ * 作为渲染引擎覆盖层中的可渲染对象，每帧由 SelectionView 绘制其他协作者的选择框与光标
+ */
+
+import type { IGraphicsContext, IPoint, IRect, IRenderable } from '@sky-canvas/render-engine'
+import type { ShapeEntity } from '../models/entities/Shape'
+import type { IRemotePeer } from '../services/collaboration/collaborationService'
+import { SelectionView } from './SelectionView'
+
+/**
+ * 在线状态视图的数据来源，每帧读取
+ */
+export interface IPresenceSource {
+  getPeers(): IRemotePeer[]
+  getShapes(): ShapeEntity[]
+  /** 当前视口缩放，光标与标签保持屏幕大小 */
+  getZoom(): number
+}
+
+export class PresenceView implements IRenderable {
+  static readonly ID = 'collaboration-presence'
+
+  readonly id = PresenceView.ID
+  readonly visible = true
+  readonly zIndex = 0
+  private selectionView = new SelectionView()
+
+  constructor(private source: IPresenceSource) {}
+
+  get bounds(): IRect {
+    return this.getBounds()
+  }
+
+  render(context: IGraphicsContext): void {
+    this.selectionView.renderPresence(
+      context,
+      this.source.getPeers(),
+      this.source.getShapes(),
+      this.source.getZoom()
+    )
+  }
+
+  /**
+   * 在线状态不参与点击测试
+   */
+  hitTest(_point: IPoint): boolean {
+    return false
+  }
+
+  getBounds(): IRect {
+    return this.selectionView.getPresenceBounds(
+      this.source.getPeers(),
+      this.source.getShapes(),
+      this.source.getZoom()
+    )
+  }
+
+  dispose(): void {
+    this.selectionView.dispose()
+  }
+}
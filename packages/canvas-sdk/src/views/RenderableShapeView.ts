@@ -3,20 +3,97 @@
  * MVVM 中的 View 层 - 实现 IRenderable，知道如何渲染 Model 数据
  */
 
-import type { IGraphicsContext, IPoint, IRect, IRenderable } from '@sky-canvas/render-engine'
-import type {
-  ICircleEntity,
-  IEllipseEntity,
-  IGroupEntity,
-  IImageDataLike,
-  IImageEntity,
-  IPathEntity,
-  IPolygonEntity,
-  IRectangleEntity,
-  IStarEntity,
-  ITextEntity,
-  ShapeEntity,
+import {
+  type IGraphicsContext,
+  type IPaint,
+  type IPoint,
+  type IRect,
+  type IRenderable,
+  SVGPathData,
+} from '@sky-canvas/render-engine'
+import {
+  type ICircleEntity,
+  type IConnectorEntity,
+  type ICustomShapeEntity,
+  type IDiamondEntity,
+  type IEllipseEntity,
+  type IFrameEntity,
+  type IFreehandEntity,
+  type IGroupEntity,
+  type IImageDataLike,
+  type IImageEntity,
+  type ILinkEntity,
+  type IPathEntity,
+  type IPolygonEntity,
+  type IRectangleEntity,
+  type IStarEntity,
+  type IStickyEntity,
+  type ITextEntity,
+  isCustomShape,
+  type ShapeEntity,
+  type StylePaint,
 } from '../models/entities/Shape'
+import { shapeTypeRegistry } from '../models/entities/ShapeTypeRegistry'
+import {
+  getCardLineOrigins,
+  getLinkCardLayout,
+  getStickyLayout,
+  getStickySize,
+  type ICardText,
+} from './CardLayout'
+import {
+  getConnectorArrowheads,
+  getConnectorBounds,
+  getConnectorLabelBox,
+  getConnectorLabelFontSize,
+  getConnectorPathData,
+} from './ConnectorGeometry'
+import {
+  FRAME_TITLE_FONT_SIZE,
+  getFrameTitleBox,
+  hitTestFrameTitle,
+  isPointInFrame,
+} from './FrameGeometry'
+import {
+  getActiveEffects,
+  getEffectBounds,
+  getShapeEffectRaster,
+  releaseShapeEffects,
+} from './ShapeEffects'
+import {
+  getDiamondPoints,
+  getFreehandBounds,
+  getFreehandPathData,
+  getPointsBounds,
+  hitTestShape,
+  transformBounds,
+} from './ShapeGeometry'
+import { resolveGradientPaint, resolvePatternPaint } from './ShapePaint'
+import {
+  getCaretAt,
+  getSelectionRects,
+  getTextBounds,
+  getTextFont,
+  getTextLayout,
+  getUnderlineMetrics,
+} from './TextLayout'
+
+const CARD_TEXT_COLOR = '#1f2937'
+const CARD_MUTED_TEXT_COLOR = '#6b7280'
+const CARD_RADIUS = 8
+const EMBED_BACKGROUND = '#111827'
+const TEXT_SELECTION_COLOR = 'rgba(59, 130, 246, 0.3)'
+const TEXT_CARET_COLOR = '#111827'
+const PLACEHOLDER_COLOR = '#9ca3af'
+
+/**
+ * 文本编辑状态：anchor 为选区起点，focus 为光标所在端；composition 为输入法组合中的范围
+ */
+export interface ITextEditingState {
+  anchor: number
+  focus: number
+  composition: { start: number; end: number } | null
+}
 
 /**
  * 形状视图包装器 - 将数据模型包装为可渲染对象
@@ -25,6 +102,11 @@ import type {
 export class RenderableShapeView implements IRenderable {
   private static imageDataCache: Map<string, IImageDataLike> = new Map()
   private static imageLoadPromises: Map<string, Promise<IImageDataLike | null>> = new Map()
+  /** 所属画框，绘制时按画框区域裁剪 */
+  private clipFrame: IFrameEntity | null = null
+  /** 正在编辑的文本的选区与光标 */
+  private textEditing: ITextEditingState | null = null
+
   constructor(
     private entity: ShapeEntity,
     private isSelected: boolean = false,
@@ -47,6 +129,13 @@ export class RenderableShapeView implements IRenderable {
     return this.calculateBounds()
   }
 
+  /**
+   * 本地边界框（变换前），渐变/图案几何以此为参照
+   */
+  get localBounds(): IRect {
+    return this.calculateLocalBounds()
+  }
+
   /**
    * 渲染方法 - View 层的核心职责
    */
@@ -56,9 +145,21 @@ export class RenderableShapeView implements IRenderable {
     context.save()
 
     try {
+      if (this.clipFrame) {
+        this.applyFrameClip(context, this.clipFrame)
+      }
       this.applyTransform(context)
-      this.applyStyle(context)
-      this.renderByType(context)
+      this.applyOpacity(context)
+      // 有效果时绘制缓存的效果栅格，处理完成前先按无效果绘制
+      const raster = getShapeEffectRaster(this.entity, this.calculateLocalBounds(), (target) =>
+        this.renderContent(target)
+      )
+      if (raster) {
+        const { image, bounds } = raster
+        context.drawImage(image, bounds.x, bounds.y, bounds.width, bounds.height)
+      } else {
+        this.renderContent(context)
+      }
       this.renderStateDecorations(context)
     } finally {
       context.restore()
@@ -82,24 +183,81 @@ export class RenderableShapeView implements IRenderable {
     }
   }
 
+  /**
+   * 按画框区域裁剪，之后回到画框变换之前的坐标系
+   */
+  private applyFrameClip(context: IGraphicsContext, frame: IFrameEntity): void {
+    const { position, rotation, scale } = frame.transform
+    context.translate(position.x, position.y)
+    if (rotation !== 0) context.rotate(rotation)
+    if (scale.x !== 1 || scale.y !== 1) context.scale(scale.x, scale.y)
+
+    context.clipRect(0, 0, frame.size.width, frame.size.height)
+
+    if ((scale.x !== 1 || scale.y !== 1) && scale.x !== 0 && scale.y !== 0) {
+      context.scale(1 / scale.x, 1 / scale.y)
+    }
+    if (rotation !== 0) context.rotate(-rotation)
+    context.translate(-position.x, -position.y)
+  }
+
+  private renderContent(context: IGraphicsContext): void {
+    this.applyStyle(context)
+    this.renderByType(context)
+  }
+
+  /**
+   * 透明度作用于形状及其效果整体
+   */
+  private applyOpacity(context: IGraphicsContext): void {
+    const { opacity } = this.entity.style
+    if (opacity !== undefined && opacity < 1) {
+      context.setOpacity(opacity)
+    }
+  }
+
   /**
    * 应用形状样式
    */
   private applyStyle(context: IGraphicsContext): void {
     const { style } = this.entity
+    const fill = this.resolveFill()
+    const stroke = this.resolveStroke()
 
-    if (style.fillColor) {
-      context.setFillStyle(style.fillColor)
+    if (fill) {
+      context.setFillStyle(fill)
     }
 
-    if (style.strokeColor) {
-      context.setStrokeStyle(style.strokeColor)
+    if (stroke) {
+      context.setStrokeStyle(stroke)
       context.setLineWidth(style.strokeWidth || 1)
+      if (style.lineDash && style.lineDash.length > 0) {
+        context.setLineDash(style.lineDash)
+      }
     }
+  }
+
+  private resolveFill(): IPaint | undefined {
+    const { fillPaint, fillColor } = this.entity.style
+    return (fillPaint && this.resolvePaint(fillPaint)) || fillColor
+  }
 
-    if (style.opacity !== undefined && style.opacity < 1) {
-      context.setOpacity(style.opacity)
+  private resolveStroke(): IPaint | undefined {
+    const { strokePaint, strokeColor } = this.entity.style
+    return (strokePaint && this.resolvePaint(strokePaint)) || strokeColor
+  }
+
+  /**
+   * 渐变/图案转为本地坐标的绘制样式；图案图片未加载时先触发加载并返回 null
+   */
+  private resolvePaint(paint: StylePaint): IPaint | null {
+    const bounds = this.calculateLocalBounds()
+    if (paint.type !== 'pattern') {
+      return paint.stops.length > 0 ? resolveGradientPaint(paint, bounds) : null
     }
+    if (!paint.src) return null
+    const image = this.getCachedImage(paint.src)
+    return image ? resolvePatternPaint(paint, bounds, image) : null
   }
 
   /**
@@ -122,6 +280,9 @@ export class RenderableShapeView implements IRenderable {
       case 'path':
         this.renderPath(context, this.entity as IPathEntity)
         break
+      case 'freehand':
+        this.renderFreehand(context, this.entity as IFreehandEntity)
+        break
       case 'polygon':
         this.renderPolygon(context, this.entity as IPolygonEntity)
         break
@@ -131,13 +292,68 @@ export class RenderableShapeView implements IRenderable {
       case 'image':
         this.renderImage(context, this.entity as IImageEntity)
         break
+      case 'connector':
+        this.renderConnector(context, this.entity as IConnectorEntity)
+        break
+      case 'diamond':
+        this.renderDiamond(context, this.entity as IDiamondEntity)
+        break
+      case 'sticky':
+        this.renderSticky(context, this.entity as IStickyEntity)
+        break
+      case 'link':
+        this.renderLink(context, this.entity as ILinkEntity)
+        break
+      case 'frame':
+        this.renderFrame(context, this.entity as IFrameEntity)
+        break
       case 'group':
         break
       default:
+        if (isCustomShape(this.entity)) {
+          this.renderCustomShape(context, this.entity)
+        }
         break
     }
   }
 
+  /**
+   * 渲染自定义形状；类型未注册或渲染出错时绘制占位框，不影响其他形状
+   */
+  private renderCustomShape(context: IGraphicsContext, shape: ICustomShapeEntity): void {
+    const definition = shapeTypeRegistry.get(shape.type)
+    if (definition) {
+      context.save()
+      try {
+        definition.render(context, shape)
+        return
+      } catch {
+        // 回退到占位框
+      } finally {
+        context.restore()
+      }
+    }
+    this.renderPlaceholder(context, shape)
+  }
+
+  /**
+   * 占位框：虚线边框加类型名
+   */
+  private renderPlaceholder(context: IGraphicsContext, shape: ICustomShapeEntity): void {
+    const { x, y, width, height } = shapeTypeRegistry.getLocalBounds(shape)
+    context.save()
+    context.setStrokeStyle(PLACEHOLDER_COLOR)
+    context.setLineWidth(1)
+    context.setLineDash([6, 4])
+    context.strokeRect(x, y, width, height)
+    context.setFillStyle(PLACEHOLDER_COLOR)
+    context.setFont('12px Arial')
+    context.setTextAlign('center')
+    context.setTextBaseline('middle')
+    context.fillText(shape.type, x + width / 2, y + height / 2)
+    context.restore()
+  }
+
   /**
    * 渲染矩形
    */
@@ -206,21 +422,52 @@ export class RenderableShapeView implements IRenderable {
    * 渲染文本
    */
   private renderText(context: IGraphicsContext, text: ITextEntity): void {
-    const { content, fontSize, fontFamily, fontWeight, textAlign } = text
-
-    // 设置字体
-    const font = `${fontWeight || 'normal'} ${fontSize}px ${fontFamily}`
-    context.setFont(font)
-    context.setTextAlign(textAlign || 'left')
-
-    // 渲染文本
-    if (this.entity.style.fillColor) {
-      context.fillText(content, 0, 0)
+    const fill = this.resolveFill()
+    const stroke = this.resolveStroke()
+    context.setTextAlign('left')
+    context.setTextBaseline('alphabetic')
+
+    // 按排版结果逐段绘制，片段颜色优先于形状填充
+    for (const line of getTextLayout(text).lines) {
+      for (const span of line.spans) {
+        const x = line.x + span.x
+        const paint = span.style.color ?? fill
+        context.setFont(getTextFont(span.style))
+        if (paint) context.setFillStyle(paint)
+        if (!span.whitespace) {
+          if (paint) context.fillText(span.text, x, line.baseline)
+          if (stroke) context.strokeText(span.text, x, line.baseline)
+        }
+        if (span.style.underline && paint) {
+          const underline = getUnderlineMetrics(span.style)
+          context.fillRect(x, line.baseline + underline.offset, span.width, underline.width)
+        }
+      }
     }
+  }
 
-    if (this.entity.style.strokeColor) {
-      context.strokeText(content, 0, 0)
+  /**
+   * 渲染文本编辑的选区高亮、输入法组合下划线与光标
+   */
+  private renderTextEditing(context: IGraphicsContext, editing: ITextEditingState): void {
+    const layout = getTextLayout(this.entity as ITextEntity)
+    context.save()
+    context.setFillStyle(TEXT_SELECTION_COLOR)
+    for (const rect of getSelectionRects(layout, editing.anchor, editing.focus)) {
+      context.fillRect(rect.x, rect.y, rect.width, rect.height)
+    }
+    context.setFillStyle(TEXT_CARET_COLOR)
+    if (editing.composition) {
+      const { start, end } = editing.composition
+      for (const rect of getSelectionRects(layout, start, end)) {
+        context.fillRect(rect.x, rect.y + rect.height - 2, rect.width, 1)
+      }
+    }
+    if (editing.anchor === editing.focus) {
+      const caret = getCaretAt(layout, editing.focus)
+      context.fillRect(caret.x - 0.5, caret.y, 1, caret.height)
     }
+    context.restore()
   }
 
   /**
@@ -230,7 +477,7 @@ export class RenderableShapeView implements IRenderable {
     const { pathData, closed } = path
 
     context.beginPath()
-    this.parseSVGPath(context, pathData)
+    SVGPathData.trace(context, SVGPathData.normalize(pathData))
 
     if (closed) {
       context.closePath()
@@ -239,6 +486,16 @@ export class RenderableShapeView implements IRenderable {
     this.fillAndStroke(context)
   }
 
+  /**
+   * 渲染自由绘制笔迹：填充可变宽度轮廓
+   */
+  private renderFreehand(context: IGraphicsContext, freehand: IFreehandEntity): void {
+    context.beginPath()
+    SVGPathData.trace(context, SVGPathData.normalize(getFreehandPathData(freehand)))
+    context.closePath()
+    this.fillAndStroke(context)
+  }
+
   private renderPolygon(context: IGraphicsContext, polygon: IPolygonEntity): void {
     const { points, closed } = polygon
     if (!points || points.length < 2) return
@@ -289,6 +546,199 @@ export class RenderableShapeView implements IRenderable {
     context.drawImage(imageData, 0, 0, size.width, size.height)
   }
 
+  /**
+   * 渲染连接线：描边路径，封闭箭头以描边色填充，标签绘制在底色框上
+   */
+  private renderConnector(context: IGraphicsContext, connector: IConnectorEntity): void {
+    const stroke = this.resolveStroke()
+    if (stroke) {
+      context.beginPath()
+      SVGPathData.trace(context, SVGPathData.normalize(getConnectorPathData(connector)))
+      context.stroke()
+
+      // 箭头不使用虚线
+      context.setLineDash([])
+      for (const head of getConnectorArrowheads(connector)) {
+        this.traceOutline(context, head.points, head.closed)
+        if (head.closed) {
+          context.setFillStyle(stroke)
+          context.fill()
+          this.traceOutline(context, head.points, head.closed)
+        }
+        context.stroke()
+      }
+    }
+
+    const box = getConnectorLabelBox(connector)
+    if (!box || !connector.label) return
+    const { label } = connector
+    context.setFillStyle(label.background ?? '#ffffff')
+    context.fillRect(box.x, box.y, box.width, box.height)
+    context.setFont(`${getConnectorLabelFontSize(connector)}px Arial`)
+    context.setTextAlign('center')
+    context.setTextBaseline('middle')
+    context.setFillStyle(label.color ?? connector.style.strokeColor ?? '#000000')
+    context.fillText(label.text, box.x + box.width / 2, box.y + box.height / 2)
+  }
+
+  private renderDiamond(context: IGraphicsContext, diamond: IDiamondEntity): void {
+    this.traceOutline(context, getDiamondPoints(diamond), true)
+    this.fillAndStroke(context)
+  }
+
+  /**
+   * 渲染便签：纸张底色随内容增高，文本自动换行
+   */
+  private renderSticky(context: IGraphicsContext, sticky: IStickyEntity): void {
+    const layout = getStickyLayout(sticky)
+    context.beginPath()
+    context.rect(0, 0, layout.size.width, layout.size.height)
+    this.fillAndStroke(context)
+
+    this.renderCardText(
+      context,
+      layout,
+      layout.size.width,
+      sticky.textAlign || 'left',
+      `${sticky.fontSize}px ${sticky.fontFamily}`,
+      CARD_TEXT_COLOR
+    )
+  }
+
+  /**
+   * 渲染链接卡片：圆角底板、预览图或嵌入占位、标题、描述与域名
+   */
+  private renderLink(context: IGraphicsContext, link: ILinkEntity): void {
+    const { width, height } = link.size
+    this.renderRoundedRect(
+      context,
+      0,
+      0,
+      width,
+      height,
+      Math.min(CARD_RADIUS, width / 2, height / 2)
+    )
+    this.fillAndStroke(context)
+
+    const layout = getLinkCardLayout(link)
+    const { media } = layout
+    if (media && media.width > 0 && media.height > 0) {
+      const image = link.thumbnail ? this.getCachedImage(link.thumbnail) : undefined
+      if (image) {
+        context.drawImage(image, media.x, media.y, media.width, media.height)
+      } else if (link.embedUrl) {
+        context.setFillStyle(EMBED_BACKGROUND)
+        context.fillRect(media.x, media.y, media.width, media.height)
+      }
+      if (link.embedUrl) {
+        // 播放标记
+        const size = Math.min(24, media.height / 3)
+        const cx = media.x + media.width / 2
+        const cy = media.y + media.height / 2
+        this.traceOutline(
+          context,
+          [
+            { x: cx - size / 3, y: cy - size / 2 },
+            { x: cx + (size * 2) / 3, y: cy },
+            { x: cx - size / 3, y: cy + size / 2 },
+          ],
+          true
+        )
+        context.setFillStyle('#ffffff')
+        context.fill()
+      }
+    }
+
+    this.renderCardText(
+      context,
+      layout.title,
+      width,
+      'left',
+      `bold ${layout.title.fontSize}px Arial`,
+      CARD_TEXT_COLOR
+    )
+    if (layout.description) {
+      this.renderCardText(
+        context,
+        layout.description,
+        width,
+        'left',
+        `${layout.description.fontSize}px Arial`,
+        CARD_MUTED_TEXT_COLOR
+      )
+    }
+    this.renderCardText(
+      context,
+      layout.domain,
+      width,
+      'left',
+      `${layout.domain.fontSize}px Arial`,
+      CARD_MUTED_TEXT_COLOR
+    )
+  }
+
+  /**
+   * 渲染画框：背景与边框，名称绘制在左上角上方
+   */
+  private renderFrame(context: IGraphicsContext, frame: IFrameEntity): void {
+    context.beginPath()
+    context.rect(0, 0, frame.size.width, frame.size.height)
+    this.fillAndStroke(context)
+
+    if (!frame.name) return
+    const box = getFrameTitleBox(frame)
+    context.setFont(`${FRAME_TITLE_FONT_SIZE}px Arial`)
+    context.setTextAlign('left')
+    context.setTextBaseline('top')
+    context.setFillStyle(CARD_MUTED_TEXT_COLOR)
+    context.fillText(frame.name, box.x, box.y)
+  }
+
+  private renderCardText(
+    context: IGraphicsContext,
+    text: ICardText,
+    width: number,
+    align: 'left' | 'center' | 'right',
+    font: string,
+    color: string
+  ): void {
+    if (text.lines.length === 0) return
+    context.setFont(font)
+    context.setTextAlign(align)
+    context.setTextBaseline('top')
+    context.setFillStyle(color)
+    getCardLineOrigins(text, width, align).forEach((origin, index) => {
+      context.fillText(text.lines[index], origin.x, origin.y)
+    })
+  }
+
+  private traceOutline(context: IGraphicsContext, points: IPoint[], closed: boolean): void {
+    context.beginPath()
+    points.forEach((point, index) => {
+      if (index === 0) {
+        context.moveTo(point.x, point.y)
+      } else {
+        context.lineTo(point.x, point.y)
+      }
+    })
+    if (closed) {
+      context.closePath()
+    }
+  }
+
+  /**
+   * 已缓存的图片数据，未缓存时触发加载并返回 undefined
+   */
+  private getCachedImage(src: string): IImageDataLike | undefined {
+    const image = RenderableShapeView.imageDataCache.get(src)
+    if (!image) {
+      void RenderableShapeView.loadImageData(src).then((data) => {
+        if (data) RenderableShapeView.imageDataCache.set(src, data)
+      })
+    }
+    return image
+  }
+
   private static loadImageData(src: string): Promise<IImageDataLike | null> {
     const cached = RenderableShapeView.imageDataCache.get(src)
     if (cached) return Promise.resolve(cached)
@@ -320,92 +770,13 @@ export class RenderableShapeView implements IRenderable {
     return promise
   }
 
-  /**
-   * 解析简化的 SVG 路径数据
-   * 支持: M(移动), L(直线), Q(二次曲线), C(三次曲线), Z(闭合)
-   */
-  private parseSVGPath(context: IGraphicsContext, pathData: string): void {
-    const commands = pathData.match(/[MLHVCSQTAZ][^MLHVCSQTAZ]*/gi)
-    if (!commands) return
-
-    let currentX = 0
-    let currentY = 0
-
-    for (const cmd of commands) {
-      const type = cmd[0].toUpperCase()
-      const isRelative = cmd[0] === cmd[0].toLowerCase()
-      const args = cmd
-        .slice(1)
-        .trim()
-        .split(/[\s,]+/)
-        .map(Number)
-
-      switch (type) {
-        case 'M': {
-          const x = isRelative ? currentX + args[0] : args[0]
-          const y = isRelative ? currentY + args[1] : args[1]
-          context.moveTo(x, y)
-          currentX = x
-          currentY = y
-          break
-        }
-        case 'L': {
-          const x = isRelative ? currentX + args[0] : args[0]
-          const y = isRelative ? currentY + args[1] : args[1]
-          context.lineTo(x, y)
-          currentX = x
-          currentY = y
-          break
-        }
-        case 'H': {
-          const x = isRelative ? currentX + args[0] : args[0]
-          context.lineTo(x, currentY)
-          currentX = x
-          break
-        }
-        case 'V': {
-          const y = isRelative ? currentY + args[0] : args[0]
-          context.lineTo(currentX, y)
-          currentY = y
-          break
-        }
-        case 'Q': {
-          const cpx = isRelative ? currentX + args[0] : args[0]
-          const cpy = isRelative ? currentY + args[1] : args[1]
-          const x = isRelative ? currentX + args[2] : args[2]
-          const y = isRelative ? currentY + args[3] : args[3]
-          context.quadraticCurveTo(cpx, cpy, x, y)
-          currentX = x
-          currentY = y
-          break
-        }
-        case 'C': {
-          const cp1x = isRelative ? currentX + args[0] : args[0]
-          const cp1y = isRelative ? currentY + args[1] : args[1]
-          const cp2x = isRelative ? currentX + args[2] : args[2]
-          const cp2y = isRelative ? currentY + args[3] : args[3]
-          const x = isRelative ? currentX + args[4] : args[4]
-          const y = isRelative ? currentY + args[5] : args[5]
-          context.bezierCurveTo(cp1x, cp1y, cp2x, cp2y, x, y)
-          currentX = x
-          currentY = y
-          break
-        }
-        case 'Z': {
-          context.closePath()
-          break
-        }
-      }
-    }
-  }
-
   /**
    * 填充和描边
    * 注意：fill() 会清空路径，所以需要先描边再填充，或者重新构建路径
    */
   private fillAndStroke(context: IGraphicsContext): void {
-    const hasFill = !!this.entity.style.fillColor
-    const hasStroke = !!this.entity.style.strokeColor
+    const hasFill = !!this.resolveFill()
+    const hasStroke = !!this.resolveStroke()
 
     if (hasFill && hasStroke) {
       context.fill()
@@ -443,12 +814,48 @@ export class RenderableShapeView implements IRenderable {
       case 'path': {
         const path = this.entity as IPathEntity
         context.beginPath()
-        this.parseSVGPath(context, path.pathData)
+        SVGPathData.trace(context, SVGPathData.normalize(path.pathData))
         if (path.closed) {
           context.closePath()
         }
         break
       }
+      case 'freehand': {
+        context.beginPath()
+        SVGPathData.trace(
+          context,
+          SVGPathData.normalize(getFreehandPathData(this.entity as IFreehandEntity))
+        )
+        context.closePath()
+        break
+      }
+      case 'diamond':
+        this.traceOutline(context, getDiamondPoints(this.entity as IDiamondEntity), true)
+        break
+      case 'sticky': {
+        const size = getStickySize(this.entity as IStickyEntity)
+        context.beginPath()
+        context.rect(0, 0, size.width, size.height)
+        break
+      }
+      case 'link': {
+        const { width, height } = (this.entity as ILinkEntity).size
+        this.renderRoundedRect(
+          context,
+          0,
+          0,
+          width,
+          height,
+          Math.min(CARD_RADIUS, width / 2, height / 2)
+        )
+        break
+      }
+      case 'frame': {
+        const { size } = this.entity as IFrameEntity
+        context.beginPath()
+        context.rect(0, 0, size.width, size.height)
+        break
+      }
     }
   }
 
@@ -456,6 +863,10 @@ export class RenderableShapeView implements IRenderable {
    * 渲染状态装饰（选中框、悬停效果等）
    */
   private renderStateDecorations(context: IGraphicsContext): void {
+    if (this.textEditing && this.entity.type === 'text') {
+      this.renderTextEditing(context, this.textEditing)
+    }
+
     if (this.isSelected) {
       this.renderSelectionBox(context)
     }
@@ -506,15 +917,7 @@ export class RenderableShapeView implements IRenderable {
    * 计算边界框
    */
   private calculateBounds(): IRect {
-    const { position } = this.entity.transform
-    const localBounds = this.calculateLocalBounds()
-
-    return {
-      x: position.x + localBounds.x,
-      y: position.y + localBounds.y,
-      width: localBounds.width * this.entity.transform.scale.x,
-      height: localBounds.height * this.entity.transform.scale.y,
-    }
+    return transformBounds(this.entity.transform, this.calculateLocalBounds())
   }
 
   /**
@@ -540,16 +943,16 @@ export class RenderableShapeView implements IRenderable {
           height: ellipse.radiusY * 2,
         }
       }
-      case 'text': {
-        const text = this.entity as ITextEntity
-        const width = text.content.length * text.fontSize * 0.6
-        const height = text.fontSize
-        return { x: 0, y: -height, width, height }
-      }
+      case 'text':
+        return getTextBounds(this.entity as ITextEntity)
       case 'polygon': {
         const polygon = this.entity as IPolygonEntity
-        return this.getPointsBounds(polygon.points)
+        return getPointsBounds(polygon.points)
       }
+      case 'path':
+        return SVGPathData.getBounds(SVGPathData.normalize((this.entity as IPathEntity).pathData))
+      case 'freehand':
+        return getFreehandBounds(this.entity as IFreehandEntity)
       case 'star': {
         const star = this.entity as IStarEntity
         const r = Math.max(star.outerRadius, star.innerRadius)
@@ -563,46 +966,70 @@ export class RenderableShapeView implements IRenderable {
         const group = this.entity as IGroupEntity
         return { x: 0, y: 0, width: group.size.width, height: group.size.height }
       }
+      case 'connector':
+        return getConnectorBounds(this.entity as IConnectorEntity)
+      case 'diamond':
+      case 'link':
+      case 'frame': {
+        const { size } = this.entity as IDiamondEntity | ILinkEntity | IFrameEntity
+        return { x: 0, y: 0, width: size.width, height: size.height }
+      }
+      case 'sticky':
+        return { x: 0, y: 0, ...getStickySize(this.entity as IStickyEntity) }
       default:
+        if (isCustomShape(this.entity)) {
+          return shapeTypeRegistry.getLocalBounds(this.entity)
+        }
         return { x: 0, y: 0, width: 100, height: 100 }
     }
   }
 
-  private getPointsBounds(points: Array<{ x: number; y: number }>): IRect {
-    if (!points || points.length === 0) {
-      return { x: 0, y: 0, width: 0, height: 0 }
-    }
-    let minX = Infinity
-    let minY = Infinity
-    let maxX = -Infinity
-    let maxY = -Infinity
-    for (const p of points) {
-      minX = Math.min(minX, p.x)
-      minY = Math.min(minY, p.y)
-      maxX = Math.max(maxX, p.x)
-      maxY = Math.max(maxY, p.y)
-    }
-    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
-  }
-
   /**
-   * 点击测试
+   * 点击测试 - 按形状几何精确判断，考虑描边宽度与变换
+   * @param point 世界坐标
+   * @param tolerance 世界坐标下的额外容差
    */
-  hitTest(point: IPoint): boolean {
+  hitTest(point: IPoint, tolerance: number = 0): boolean {
+    if (this.entity.type === 'frame' && hitTestFrameTitle(this.entity, point)) return true
+    // 画框裁剪掉的部分不可命中
+    if (this.clipFrame && !isPointInFrame(this.clipFrame, point)) return false
     const bounds = this.bounds
-    return (
-      point.x >= bounds.x &&
-      point.x <= bounds.x + bounds.width &&
-      point.y >= bounds.y &&
-      point.y <= bounds.y + bounds.height
-    )
+    const { style, transform } = this.entity
+    const strokeWidth = style.strokeWidth || style.lineWidth || 1
+    const margin =
+      tolerance + strokeWidth * Math.max(Math.abs(transform.scale.x), Math.abs(transform.scale.y))
+    if (
+      point.x < bounds.x - margin ||
+      point.x > bounds.x + bounds.width + margin ||
+      point.y < bounds.y - margin ||
+      point.y > bounds.y + bounds.height + margin
+    ) {
+      return false
+    }
+    return hitTestShape(this.entity, point, tolerance)
   }
 
   /**
-   * 获取边界框
+   * 渲染范围（含效果外扩），供渲染引擎计算脏区
    */
   getBounds(): IRect {
-    return this.bounds
+    const hasEffects = getActiveEffects(this.entity).length > 0
+    if (!hasEffects && this.entity.type !== 'frame') return this.bounds
+    let local = this.calculateLocalBounds()
+    if (hasEffects) {
+      local = getEffectBounds(this.entity, local)
+    }
+    // 画框名称绘制在边界上方
+    if (this.entity.type === 'frame') {
+      const title = getFrameTitleBox(this.entity)
+      local = getPointsBounds([
+        { x: local.x, y: local.y },
+        { x: local.x + local.width, y: local.y + local.height },
+        { x: title.x, y: title.y },
+        { x: title.x + title.width, y: title.y + title.height },
+      ])
+    }
+    return transformBounds(this.entity.transform, local)
   }
 
   /**
@@ -612,6 +1039,20 @@ export class RenderableShapeView implements IRenderable {
     this.entity = entity
   }
 
+  /**
+   * 设置所属画框，为 null 时不裁剪
+   */
+  setClipFrame(frame: IFrameEntity | null): void {
+    this.clipFrame = frame
+  }
+
+  /**
+   * 设置文本编辑状态，为 null 时结束编辑
+   */
+  setTextEditing(editing: ITextEditingState | null): void {
+    this.textEditing = editing
+  }
+
   /**
    * 更新选中状态
    */
@@ -637,6 +1078,6 @@ export class RenderableShapeView implements IRenderable {
    * 销毁视图
    */
   dispose(): void {
-    // 清理资源
+    releaseShapeEffects(this.entity.id)
   }
 }
@@ -3,8 +3,12 @@
  * 负责渲染选择框、控制点、变换手柄等
  */
 
-import type { ShapeEntity } from '../models/entities/Shape'
+import type { IGraphicsContext, IRect } from '@sky-canvas/render-engine'
+import { isCustomShape, type ShapeEntity } from '../models/entities/Shape'
+import { shapeTypeRegistry } from '../models/entities/ShapeTypeRegistry'
+import type { IRemotePeer } from '../services/collaboration/collaborationService'
 import type { ISelectionState, IViewportState } from '../viewmodels/interfaces/IViewModel'
+import { getTextBounds } from './TextLayout'
 
 /**
  * 获取形状边界的工具函数
@@ -35,15 +39,8 @@ function getShapeBounds(shape: ShapeEntity): {
       }
     }
     case 'text': {
-      // 文本边界的简化计算，实际应该基于字体大小和内容
-      const textWidth = shape.content.length * shape.fontSize * 0.6
-      const textHeight = shape.fontSize
-      return {
-        x: position.x,
-        y: position.y,
-        width: textWidth,
-        height: textHeight,
-      }
+      const bounds = getTextBounds(shape)
+      return { ...bounds, x: position.x + bounds.x, y: position.y + bounds.y }
     }
     case 'path':
       // 路径边界的简化计算，实际应该解析 SVG path data
@@ -53,13 +50,18 @@ function getShapeBounds(shape: ShapeEntity): {
         width: 100, // 默认值
         height: 100, // 默认值
       }
-    default:
+    default: {
+      if (isCustomShape(shape)) {
+        const bounds = shapeTypeRegistry.getLocalBounds(shape)
+        return { ...bounds, x: position.x + bounds.x, y: position.y + bounds.y }
+      }
       return {
         x: position.x,
         y: position.y,
         width: 100,
         height: 100,
       }
+    }
   }
 }
 
@@ -81,6 +83,11 @@ export interface IControlHandle {
   cursor: string
 }
 
+/** 协作者选择框相对形状边界的外扩（屏幕像素） */
+const PRESENCE_PADDING = 3
+/** 协作者光标名称标签的最大宽度估计（屏幕像素） */
+const PRESENCE_LABEL_EXTENT = 200
+
 export class SelectionView {
   private config: ISelectionViewConfig = {}
 
@@ -372,6 +379,102 @@ export class SelectionView {
     ctx.restore()
   }
 
+  /**
+   * 渲染其他协作者的选择框与光标，颜色取协作者的颜色
+   * 在渲染引擎的覆盖层中调用，坐标为世界坐标，视口变换已由引擎应用
+   */
+  renderPresence(
+    context: IGraphicsContext,
+    peers: IRemotePeer[],
+    shapes: ShapeEntity[],
+    zoom: number
+  ): void {
+    if (peers.length === 0) return
+
+    context.save()
+    const shapeMap = new Map(shapes.map((shape) => [shape.id, shape]))
+    const scale = 1 / zoom
+    for (const peer of peers) {
+      const color = peer.user.color
+
+      // 选择框：外扩一点，避免与本地选择框重叠
+      context.setStrokeColor(color)
+      context.setLineWidth((this.config.selectionLineWidth ?? 2) * scale)
+      for (const id of peer.selection) {
+        const shape = shapeMap.get(id)
+        if (!shape) continue
+        const bounds = getShapeBounds(shape)
+        const padding = PRESENCE_PADDING * scale
+        context.strokeRect(
+          bounds.x - padding,
+          bounds.y - padding,
+          bounds.width + padding * 2,
+          bounds.height + padding * 2
+        )
+      }
+
+      // 光标：箭头加名称标签，大小不随缩放变化
+      if (peer.cursor) {
+        const { x, y } = peer.cursor
+        context.setFillColor(color)
+        context.setStrokeColor('#FFFFFF')
+        context.setLineWidth(scale)
+        context.beginPath()
+        context.moveTo(x, y)
+        context.lineTo(x, y + 16 * scale)
+        context.lineTo(x + 4.5 * scale, y + 12 * scale)
+        context.lineTo(x + 11 * scale, y + 12 * scale)
+        context.closePath()
+        context.fill()
+        context.stroke()
+
+        const fontSize = 11 * scale
+        context.setFont(`${fontSize}px sans-serif`)
+        context.setTextBaseline('top')
+        const labelX = x + 10 * scale
+        const labelY = y + 16 * scale
+        const labelWidth = context.measureText(peer.user.name).width + 8 * scale
+        context.fillRect(labelX, labelY, labelWidth, fontSize + 6 * scale)
+        context.setFillColor('#FFFFFF')
+        context.fillText(peer.user.name, labelX + 4 * scale, labelY + 3 * scale)
+      }
+    }
+    context.restore()
+  }
+
+  /**
+   * 协作者选择框与光标覆盖的世界坐标区域，没有可绘制内容时为空矩形
+   */
+  getPresenceBounds(peers: IRemotePeer[], shapes: ShapeEntity[], zoom: number): IRect {
+    const shapeMap = new Map(shapes.map((shape) => [shape.id, shape]))
+    const padding = PRESENCE_PADDING / zoom
+    const rects: IRect[] = []
+    for (const peer of peers) {
+      for (const id of peer.selection) {
+        const shape = shapeMap.get(id)
+        if (!shape) continue
+        const bounds = getShapeBounds(shape)
+        rects.push({
+          x: bounds.x - padding,
+          y: bounds.y - padding,
+          width: bounds.width + padding * 2,
+          height: bounds.height + padding * 2,
+        })
+      }
+      if (peer.cursor) {
+        // 箭头与名称标签的大致范围
+        rects.push({ ...peer.cursor, width: PRESENCE_LABEL_EXTENT / zoom, height: 40 / zoom })
+      }
+    }
+    if (rects.length === 0) return { x: 0, y: 0, width: 0, height: 0 }
+
+    const left = Math.min(...rects.map((rect) => rect.x))
+    const top = Math.min(...rects.map((rect) => rect.y))
+    const right = Math.max(...rects.map((rect) => rect.x + rect.width))
+    const bottom = Math.max(...rects.map((rect) => rect.y + rect.height))
+    return { x: left, y: top, width: right - left, height: bottom - top }
+  }
+
   /**
    * 更新配置
    */
@@ -0,0 +1,255 @@
+/**
+ * 形状效果
+ * 将形状在本地坐标下离屏栅格化，交给渲染引擎的滤镜管线处理；
+ * 结果按形状缓存，几何、样式与效果不变时直接复用，不再逐帧重算
+ */
+
+import {
+  Canvas2DContextFactory,
+  FilterManager,
+  type FilterParameters,
+  FilterType,
+  type IGraphicsContext,
+  type IImageData,
+  type IRect,
+  SoftwareContextFactory,
+} from '@sky-canvas/render-engine'
+import type { ShapeEffect, ShapeEntity } from '../models/entities/Shape'
+
+/** 离屏图像最大边长 */
+const MAX_RASTER_SIZE = 4096
+
+/** 不影响栅格结果的实体字段 */
+const SIGNATURE_IGNORED_KEYS = new Set([
+  'transform',
+  'createdAt',
+  'updatedAt',
+  'metadata',
+  'imageData',
+  'visible',
+  'zIndex',
+  'locked',
+])
+
+/**
+ * 效果栅格结果
+ */
+export interface IEffectRaster {
+  image: IImageData
+  /** 图像在形状本地坐标中的位置与尺寸 */
+  bounds: IRect
+}
+
+interface IEffectCacheEntry {
+  signature: string
+  raster: IEffectRaster | null
+  ready: Promise<void>
+}
+
+const cache = new Map<string, IEffectCacheEntry>()
+let filterManager: FilterManager | null = null
+
+export function getActiveEffects(shape: ShapeEntity): ShapeEffect[] {
+  return (shape.effects ?? []).filter((effect) => effect.enabled !== false)
+}
+
+/**
+ * 效果超出形状几何的最大距离（本地坐标）
+ */
+export function getEffectPadding(effects: ShapeEffect[]): number {
+  let padding = 0
+  for (const effect of effects) {
+    switch (effect.type) {
+      case 'drop-shadow':
+        padding += Math.max(Math.abs(effect.offsetX), Math.abs(effect.offsetY)) + effect.blur
+        break
+      case 'blur':
+        padding += effect.radius
+        break
+      case 'glow':
+        padding += effect.blur
+        break
+    }
+  }
+  return Math.ceil(padding)
+}
+
+/**
+ * 形状连同效果的绘制范围（本地坐标）：几何边界外扩描边宽度与效果距离
+ */
+export function getEffectBounds(shape: ShapeEntity, localBounds: IRect): IRect {
+  const { style } = shape
+  const stroked = Boolean(style.strokePaint || style.strokeColor)
+  // 描边外扩按整宽估算，为尖角斜接留出余量
+  const strokeExtent = stroked ? style.strokeWidth || style.lineWidth || 1 : 0
+  const padding = strokeExtent + getEffectPadding(getActiveEffects(shape))
+  return {
+    x: localBounds.x - padding,
+    y: localBounds.y - padding,
+    width: localBounds.width + padding * 2,
+    height: localBounds.height + padding * 2,
+  }
+}
+
+/**
+ * 效果参数换算为滤镜参数，长度按栅格分辨率缩放并限制在滤镜允许范围内
+ */
+export function toFilterParameters(effect: ShapeEffect, resolution: number): FilterParameters {
+  switch (effect.type) {
+    case 'drop-shadow':
+    case 'inner-shadow':
+      return {
+        type: effect.type === 'drop-shadow' ? FilterType.DROP_SHADOW : FilterType.INNER_SHADOW,
+        offsetX: effect.offsetX * resolution,
+        offsetY: effect.offsetY * resolution,
+        blur: clamp(effect.blur * resolution, 0, 100),
+        color: effect.color,
+        opacity: clamp(effect.opacity ?? 1, 0, 1),
+      }
+    case 'blur':
+      return {
+        type: FilterType.GAUSSIAN_BLUR,
+        radius: clamp(effect.radius * resolution, 0, 100),
+      }
+    case 'glow':
+      return {
+        type: FilterType.GLOW,
+        color: effect.color,
+        blur: clamp(effect.blur * resolution, 0, 100),
+        strength: Math.max(0, effect.strength),
+      }
+    case 'brightness':
+      return { type: FilterType.BRIGHTNESS, brightness: clamp(effect.value, -100, 100) }
+    case 'contrast':
+      return { type: FilterType.CONTRAST, contrast: clamp(effect.value, -100, 100) }
+    case 'saturation':
+      return { type: FilterType.SATURATION, saturation: clamp(effect.value, -100, 100) }
+    case 'hue-rotate':
+      return { type: FilterType.HUE_ROTATE, angle: effect.value }
+    case 'grayscale':
+      return { type: FilterType.GRAYSCALE, amount: clamp(effect.value, 0, 1) }
+  }
+}
+
+/**
+ * 获取形状的效果栅格，未就绪时发起处理并返回 null（调用方先按普通方式绘制）
+ * @param draw 在本地坐标下绘制形状本身（不含透明度）
+ */
+export function getShapeEffectRaster(
+  shape: ShapeEntity,
+  localBounds: IRect,
+  draw: (context: IGraphicsContext) => void
+): IEffectRaster | null {
+  const effects = getActiveEffects(shape)
+  if (effects.length === 0 || typeof ImageData === 'undefined') return null
+
+  const resolution = getRasterResolution(shape)
+  const signature = `${resolution}|${JSON.stringify(shape, (key, value) =>
+    SIGNATURE_IGNORED_KEYS.has(key) ? undefined : value
+  )}`
+  const existing = cache.get(shape.id)
+  if (existing?.signature === signature) return existing.raster
+
+  const entry: IEffectCacheEntry = { signature, raster: null, ready: Promise.resolve() }
+  entry.ready = rasterize(getEffectBounds(shape, localBounds), effects, resolution, draw)
+    .then((raster) => {
+      if (cache.get(shape.id) === entry) entry.raster = raster
+    })
+    .catch(() => {
+      // 处理失败时保持无效果绘制
+    })
+  cache.set(shape.id, entry)
+  return null
+}
+
+/**
+ * 等待形状当前的效果处理完成
+ */
+export function whenShapeEffectsReady(id: string): Promise<void> {
+  return cache.get(id)?.ready ?? Promise.resolve()
+}
+
+/**
+ * 释放形状的效果缓存
+ */
+export function releaseShapeEffects(id: string): void {
+  cache.delete(id)
+}
+
+function getRasterResolution(shape: ShapeEntity): number {
+  const { scale } = shape.transform
+  const pixelRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1
+  return Math.max(Math.abs(scale.x), Math.abs(scale.y), 0.1) * pixelRatio
+}
+
+async function rasterize(
+  bounds: IRect,
+  effects: ShapeEffect[],
+  requestedResolution: number,
+  draw: (context: IGraphicsContext) => void
+): Promise<IEffectRaster | null> {
+  if (bounds.width <= 0 || bounds.height <= 0) return null
+
+  const resolution = Math.min(
+    requestedResolution,
+    MAX_RASTER_SIZE / bounds.width,
+    MAX_RASTER_SIZE / bounds.height
+  )
+  const width = Math.max(1, Math.ceil(bounds.width * resolution))
+  const height = Math.max(1, Math.ceil(bounds.height * resolution))
+
+  const context = await createRasterContext(width, height)
+  let source: IImageData
+  try {
+    context.scale(resolution, resolution)
+    context.translate(-bounds.x, -bounds.y)
+    draw(context)
+    source = context.getImageData(0, 0, width, height)
+  } finally {
+    context.dispose()
+  }
+
+  filterManager ??= new FilterManager()
+  const results = await filterManager.applyFilterChain(
+    new ImageData(new Uint8ClampedArray(source.data), width, height),
+    { filters: effects.map((effect) => toFilterParameters(effect, resolution)) }
+  )
+  // 滤镜链在首个失败处停止，取最后一个成功的输出
+  let output: ImageData | null = null
+  for (const result of results) {
+    if (result.success && result.processedImageData) output = result.processedImageData
+  }
+  if (!output) return null
+
+  // 部分滤镜（发光）会向四周等量扩展输出
+  const offsetX = (output.width - width) / 2 / resolution
+  const offsetY = (output.height - height) / 2 / resolution
+  return {
+    image: { width: output.width, height: output.height, data: output.data },
+    bounds: {
+      x: bounds.x - offsetX,
+      y: bounds.y - offsetY,
+      width: output.width / resolution,
+      height: output.height / resolution,
+    },
+  }
+}
+
+/**
+ * 优先使用 Canvas 2D（文本等与屏幕一致），不可用时退回软件光栅化
+ */
+async function createRasterContext(width: number, height: number): Promise<IGraphicsContext> {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    if (canvas.getContext('2d')) {
+      return new Canvas2DContextFactory().createContext(canvas)
+    }
+  }
+  return new SoftwareContextFactory().createContext({ width, height })
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
@@ -0,0 +1,425 @@
+/**
+ * 形状几何工具
+ * 提供形状轮廓、坐标变换与精确命中测试，供渲染视图与交互工具共享
+ */
+
+import { BrushStroke, type IPoint, type IRect, SVGPathData } from '@sky-canvas/render-engine'
+import {
+  type ICircleEntity,
+  type IConnectorEntity,
+  type ICustomShapeEntity,
+  type IDiamondEntity,
+  type IEllipseEntity,
+  type IFrameEntity,
+  type IFreehandBrush,
+  type IFreehandEntity,
+  type IFreehandPoint,
+  type IGroupEntity,
+  type IImageEntity,
+  type ILinkEntity,
+  type IPathEntity,
+  type IPolygonEntity,
+  type IRectangleEntity,
+  type IStarEntity,
+  type IStickyEntity,
+  type ITextEntity,
+  type ITransform,
+  isCustomShape,
+  type ShapeEntity,
+} from '../models/entities/Shape'
+import { shapeTypeRegistry } from '../models/entities/ShapeTypeRegistry'
+import { getStickySize } from './CardLayout'
+import { getConnectorLabelBox, getConnectorOutlines } from './ConnectorGeometry'
+import { getTextBounds } from './TextLayout'
+
+/**
+ * 默认命中容差（屏幕像素）
+ */
+export const DEFAULT_HIT_TOLERANCE = 4
+
+/**
+ * 形状轮廓（本地坐标）
+ */
+export interface IShapeOutline {
+  points: IPoint[]
+  closed: boolean
+}
+
+const PATH_FLATTEN_TOLERANCE = 0.25
+const ELLIPSE_SEGMENTS = 64
+/** 整个边界矩形可命中的形状类型 */
+const RECT_HITTABLE_TYPES = new Set(['text', 'image', 'group', 'sticky', 'link', 'frame'])
+
+/**
+ * 将路径数据展平为折线轮廓
+ */
+export function flattenSVGPath(pathData: string): IShapeOutline[] {
+  return SVGPathData.flatten(SVGPathData.normalize(pathData), PATH_FLATTEN_TOLERANCE)
+}
+
+/**
+ * 由采样点与笔刷生成自由绘制笔迹的闭合填充轮廓
+ */
+export function createFreehandPathData(points: IFreehandPoint[], brush: IFreehandBrush): string {
+  return BrushStroke.getPathData(points, brush)
+}
+
+/**
+ * 自由绘制笔迹轮廓，缺少缓存的轮廓时按采样重新生成
+ */
+export function getFreehandPathData(shape: IFreehandEntity): string {
+  return shape.pathData || createFreehandPathData(shape.points ?? [], shape.brush)
+}
+
+/**
+ * 自由绘制笔迹的本地边界（含笔触宽度）
+ */
+export function getFreehandBounds(shape: IFreehandEntity): IRect {
+  const pathData = getFreehandPathData(shape)
+  if (!pathData) return { x: 0, y: 0, width: 0, height: 0 }
+  return SVGPathData.getBounds(SVGPathData.normalize(pathData))
+}
+
+/**
+ * 获取形状本地坐标下的轮廓
+ */
+export function getShapeOutlines(shape: ShapeEntity): IShapeOutline[] {
+  switch (shape.type) {
+    case 'rectangle': {
+      const { size, borderRadius } = shape as IRectangleEntity
+      return [
+        { points: roundedRectPoints(size.width, size.height, borderRadius ?? 0), closed: true },
+      ]
+    }
+    case 'circle': {
+      const { radius } = shape as ICircleEntity
+      return [{ points: ellipsePoints(radius, radius), closed: true }]
+    }
+    case 'ellipse': {
+      const { radiusX, radiusY } = shape as IEllipseEntity
+      return [{ points: ellipsePoints(radiusX, radiusY), closed: true }]
+    }
+    case 'polygon': {
+      const { points, closed } = shape as IPolygonEntity
+      return points && points.length > 0 ? [{ points: [...points], closed }] : []
+    }
+    case 'star':
+      return [{ points: getStarPoints(shape as IStarEntity), closed: true }]
+    case 'path': {
+      const path = shape as IPathEntity
+      const outlines = flattenSVGPath(path.pathData || '')
+      // closed 只闭合最后一个子路径，与渲染时的 closePath 一致
+      if (path.closed && outlines.length > 0) {
+        outlines[outlines.length - 1] = { ...outlines[outlines.length - 1], closed: true }
+      }
+      return outlines
+    }
+    case 'freehand':
+      return flattenSVGPath(getFreehandPathData(shape as IFreehandEntity)).map((outline) => ({
+        ...outline,
+        closed: true,
+      }))
+    case 'text': {
+      const { x, y, width, height } = getTextBounds(shape as ITextEntity)
+      return [{ points: rectPoints(x, y, width, height), closed: true }]
+    }
+    case 'image':
+    case 'group':
+    case 'link':
+    case 'frame': {
+      const { size } = shape as IImageEntity | IGroupEntity | ILinkEntity | IFrameEntity
+      return [{ points: rectPoints(0, 0, size.width, size.height), closed: true }]
+    }
+    case 'sticky': {
+      const size = getStickySize(shape as IStickyEntity)
+      return [{ points: rectPoints(0, 0, size.width, size.height), closed: true }]
+    }
+    case 'diamond':
+      return [{ points: getDiamondPoints(shape as IDiamondEntity), closed: true }]
+    case 'connector':
+      return getConnectorOutlines(shape as IConnectorEntity)
+    default: {
+      if (isCustomShape(shape)) {
+        const { x, y, width, height } = shapeTypeRegistry.getLocalBounds(shape)
+        return [{ points: rectPoints(x, y, width, height), closed: true }]
+      }
+      return [{ points: rectPoints(0, 0, 100, 100), closed: true }]
+    }
+  }
+}
+
+/**
+ * 星形顶点（本地坐标）
+ */
+export function getStarPoints(star: IStarEntity): IPoint[] {
+  const count = Math.max(2, Math.floor(star.points))
+  const points: IPoint[] = []
+  for (let i = 0; i < count * 2; i++) {
+    const radius = i % 2 === 0 ? star.outerRadius : star.innerRadius
+    const angle = star.startAngle + (Math.PI / count) * i
+    points.push({ x: Math.cos(angle) * radius, y: Math.sin(angle) * radius })
+  }
+  return points
+}
+
+/**
+ * 菱形顶点（本地坐标），依次为上、右、下、左
+ */
+export function getDiamondPoints(diamond: IDiamondEntity): IPoint[] {
+  const { width, height } = diamond.size
+  return [
+    { x: width / 2, y: 0 },
+    { x: width, y: height / 2 },
+    { x: width / 2, y: height },
+    { x: 0, y: height / 2 },
+  ]
+}
+
+/**
+ * 本地坐标 -> 世界坐标（平移、旋转、缩放，与渲染顺序一致）
+ */
+export function localToWorld(transform: ITransform, point: IPoint): IPoint {
+  const { position, rotation, scale } = transform
+  const sx = point.x * scale.x
+  const sy = point.y * scale.y
+  const cos = Math.cos(rotation)
+  const sin = Math.sin(rotation)
+  return {
+    x: position.x + sx * cos - sy * sin,
+    y: position.y + sx * sin + sy * cos,
+  }
+}
+
+/**
+ * 世界坐标 -> 本地坐标
+ */
+export function worldToLocal(transform: ITransform, point: IPoint): IPoint {
+  const { position, rotation, scale } = transform
+  const dx = point.x - position.x
+  const dy = point.y - position.y
+  const cos = Math.cos(-rotation)
+  const sin = Math.sin(-rotation)
+  const rx = dx * cos - dy * sin
+  const ry = dx * sin + dy * cos
+  return {
+    x: scale.x !== 0 ? rx / scale.x : 0,
+    y: scale.y !== 0 ? ry / scale.y : 0,
+  }
+}
+
+/**
+ * 本地边界框经变换后的世界轴对齐边界框
+ */
+export function transformBounds(transform: ITransform, local: IRect): IRect {
+  return getPointsBounds(
+    [
+      { x: local.x, y: local.y },
+      { x: local.x + local.width, y: local.y },
+      { x: local.x + local.width, y: local.y + local.height },
+      { x: local.x, y: local.y + local.height },
+    ].map((p) => localToWorld(transform, p))
+  )
+}
+
+export function getPointsBounds(points: IPoint[]): IRect {
+  if (!points || points.length === 0) {
+    return { x: 0, y: 0, width: 0, height: 0 }
+  }
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const p of points) {
+    minX = Math.min(minX, p.x)
+    minY = Math.min(minY, p.y)
+    maxX = Math.max(maxX, p.x)
+    maxY = Math.max(maxY, p.y)
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+/**
+ * 精确命中测试
+ * @param point 世界坐标
+ * @param tolerance 世界坐标下的额外容差（由屏幕像素容差除以缩放得到）
+ */
+export function hitTestShape(shape: ShapeEntity, point: IPoint, tolerance: number = 0): boolean {
+  if (isCustomShape(shape)) {
+    return hitTestCustomShape(shape, point, tolerance)
+  }
+
+  const outlines = getShapeOutlines(shape)
+  if (outlines.length === 0) return false
+
+  if (isFillHittable(shape)) {
+    const local = worldToLocal(shape.transform, point)
+    if (shape.type === 'circle' || shape.type === 'ellipse') {
+      const rx = shape.type === 'circle' ? shape.radius : shape.radiusX
+      const ry = shape.type === 'circle' ? shape.radius : shape.radiusY
+      if (rx > 0 && ry > 0 && (local.x / rx) ** 2 + (local.y / ry) ** 2 <= 1) {
+        return true
+      }
+    } else if (pointInOutlines(local, outlines)) {
+      return true
+    }
+  }
+
+  if (shape.type === 'connector') {
+    const box = getConnectorLabelBox(shape)
+    const local = worldToLocal(shape.transform, point)
+    if (
+      box &&
+      local.x >= box.x &&
+      local.x <= box.x + box.width &&
+      local.y >= box.y &&
+      local.y <= box.y + box.height
+    ) {
+      return true
+    }
+  }
+
+  const reach = getHalfStrokeWidth(shape) + tolerance
+  if (reach <= 0) return false
+
+  for (const outline of outlines) {
+    const worldPoints = outline.points.map((p) => localToWorld(shape.transform, p))
+    if (distanceToPolyline(point, worldPoints, outline.closed) <= reach) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * 自定义形状的命中测试，类型未实现 hitTest 时按边界框判断
+ */
+function hitTestCustomShape(shape: ICustomShapeEntity, point: IPoint, tolerance: number): boolean {
+  const local = worldToLocal(shape.transform, point)
+  const hitTest = shapeTypeRegistry.get(shape.type)?.hitTest
+  if (hitTest) {
+    try {
+      return hitTest(shape, local, tolerance)
+    } catch {
+      // 回退到边界框
+    }
+  }
+  const { x, y, width, height } = shapeTypeRegistry.getLocalBounds(shape)
+  return (
+    local.x >= x - tolerance &&
+    local.x <= x + width + tolerance &&
+    local.y >= y - tolerance &&
+    local.y <= y + height + tolerance
+  )
+}
+
+/**
+ * 点到折线的最小距离
+ */
+export function distanceToPolyline(point: IPoint, points: IPoint[], closed: boolean): number {
+  if (points.length === 0) return Infinity
+  if (points.length === 1) return Math.hypot(point.x - points[0].x, point.y - points[0].y)
+
+  let min = Infinity
+  const count = closed ? points.length : points.length - 1
+  for (let i = 0; i < count; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    min = Math.min(min, distanceToSegment(point, a, b))
+  }
+  return min
+}
+
+function distanceToSegment(point: IPoint, a: IPoint, b: IPoint): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSq = dx * dx + dy * dy
+  if (lengthSq === 0) return Math.hypot(point.x - a.x, point.y - a.y)
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq))
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy))
+}
+
+/**
+ * 奇偶规则判断点是否在轮廓内（填充时开放轮廓按闭合处理）
+ */
+function pointInOutlines(point: IPoint, outlines: IShapeOutline[]): boolean {
+  let inside = false
+  for (const { points } of outlines) {
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const pi = points[i]
+      const pj = points[j]
+      if (
+        pi.y > point.y !== pj.y > point.y &&
+        point.x < ((pj.x - pi.x) * (point.y - pi.y)) / (pj.y - pi.y) + pi.x
+      ) {
+        inside = !inside
+      }
+    }
+  }
+  return inside
+}
+
+function isPaint(color: string | undefined): boolean {
+  return !!color && color !== 'none' && color !== 'transparent'
+}
+
+/**
+ * 填充区域是否可命中
+ * 文本、图片、编组与卡片、画框按矩形区域处理；既无填充也无描边的形状同样按填充处理，保证可被选中
+ */
+function isFillHittable(shape: ShapeEntity): boolean {
+  // 连接线只命中线条、箭头与标签
+  if (shape.type === 'connector') return false
+  if (RECT_HITTABLE_TYPES.has(shape.type)) return true
+  const { fillColor, strokeColor, fillPaint, strokePaint } = shape.style
+  return !!fillPaint || isPaint(fillColor) || (!strokePaint && !isPaint(strokeColor))
+}
+
+/**
+ * 描边半宽（世界坐标）
+ */
+export function getHalfStrokeWidth(shape: ShapeEntity): number {
+  if (!shape.style.strokePaint && !isPaint(shape.style.strokeColor)) return 0
+  const width = shape.style.strokeWidth || shape.style.lineWidth || 1
+  const { scale } = shape.transform
+  return (width / 2) * Math.max(Math.abs(scale.x), Math.abs(scale.y))
+}
+
+function rectPoints(x: number, y: number, width: number, height: number): IPoint[] {
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height },
+  ]
+}
+
+function roundedRectPoints(width: number, height: number, radius: number): IPoint[] {
+  const r = Math.min(Math.max(0, radius), width / 2, height / 2)
+  if (r <= 0) return rectPoints(0, 0, width, height)
+
+  const corners = [
+    { cx: width - r, cy: r, start: -Math.PI / 2 },
+    { cx: width - r, cy: height - r, start: 0 },
+    { cx: r, cy: height - r, start: Math.PI / 2 },
+    { cx: r, cy: r, start: Math.PI },
+  ]
+  const points: IPoint[] = []
+  const steps = 8
+  for (const { cx, cy, start } of corners) {
+    for (let i = 0; i <= steps; i++) {
+      const angle = start + (Math.PI / 2) * (i / steps)
+      points.push({ x: cx + Math.cos(angle) * r, y: cy + Math.sin(angle) * r })
+    }
+  }
+  return points
+}
+
+function ellipsePoints(rx: number, ry: number): IPoint[] {
+  const points: IPoint[] = []
+  for (let i = 0; i < ELLIPSE_SEGMENTS; i++) {
+    const angle = (Math.PI * 2 * i) / ELLIPSE_SEGMENTS
+    points.push({ x: Math.cos(angle) * rx, y: Math.sin(angle) * ry })
+  }
+  return points
+}
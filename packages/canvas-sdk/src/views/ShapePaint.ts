@@ -0,0 +1,86 @@
+/**
+ * 形状绘制样式解析
+ * 将 IStyle 中相对边界框描述的渐变/图案换算为本地坐标下的渲染引擎绘制样式，
+ * 渲染与 SVG 导出共用同一套几何
+ */
+
+import type {
+  IGradientPaint,
+  IPatternPaint,
+  IRect,
+  PatternRepetition,
+} from '@sky-canvas/render-engine'
+import type { IImageDataLike, IStyleGradient, IStylePattern } from '../models/entities/Shape'
+
+/**
+ * 渐变几何：线性渐变沿 angle 穿过边界框中心，两端恰好经过边界框角点；
+ * 径向/锥形渐变以 center 为中心
+ */
+export function resolveGradientPaint(gradient: IStyleGradient, bounds: IRect): IGradientPaint {
+  const center = gradient.center ?? { x: 0.5, y: 0.5 }
+  const cx = bounds.x + bounds.width * center.x
+  const cy = bounds.y + bounds.height * center.y
+  const angle = gradient.angle ?? 0
+
+  switch (gradient.type) {
+    case 'linear-gradient': {
+      const dx = Math.cos(angle)
+      const dy = Math.sin(angle)
+      const half = (Math.abs(bounds.width * dx) + Math.abs(bounds.height * dy)) / 2
+      const mx = bounds.x + bounds.width / 2
+      const my = bounds.y + bounds.height / 2
+      return {
+        type: 'linear-gradient',
+        x0: mx - dx * half,
+        y0: my - dy * half,
+        x1: mx + dx * half,
+        y1: my + dy * half,
+        stops: gradient.stops,
+      }
+    }
+    case 'radial-gradient': {
+      const radius = Math.max(bounds.width, bounds.height) * (gradient.radius ?? 0.5)
+      return {
+        type: 'radial-gradient',
+        x0: cx,
+        y0: cy,
+        r0: 0,
+        x1: cx,
+        y1: cy,
+        r1: radius,
+        stops: gradient.stops,
+      }
+    }
+    case 'conic-gradient':
+      return { type: 'conic-gradient', startAngle: angle, x: cx, y: cy, stops: gradient.stops }
+  }
+}
+
+/**
+ * 图案几何：图片缩放到 width x height 后自边界框左上角平铺
+ */
+export function getPatternTile(pattern: IStylePattern, bounds: IRect): IRect {
+  return { x: bounds.x, y: bounds.y, width: pattern.width, height: pattern.height }
+}
+
+export function resolvePatternPaint(
+  pattern: IStylePattern,
+  bounds: IRect,
+  image: IImageDataLike
+): IPatternPaint {
+  const tile = getPatternTile(pattern, bounds)
+  const repetition: PatternRepetition = pattern.repetition ?? 'repeat'
+  return {
+    type: 'pattern',
+    image,
+    repetition,
+    transform: {
+      a: tile.width / image.width,
+      b: 0,
+      c: 0,
+      d: tile.height / image.height,
+      e: tile.x,
+      f: tile.y,
+    },
+  }
+}
@@ -11,6 +11,7 @@ import type {
   ShapeEntity,
 } from '../models/entities/Shape'
 import type { IViewportState } from '../viewmodels/interfaces/IViewModel'
+import { getTextFont, getTextLayout, getUnderlineMetrics } from './TextLayout'
 
 export interface IShapeRenderContext {
   ctx: CanvasRenderingContext2D
@@ -202,17 +203,27 @@ export class ShapeView {
    * 渲染文本
    */
   private renderText(ctx: CanvasRenderingContext2D, shape: ITextEntity): void {
-    const { fontSize, fontFamily, fontWeight, textAlign, content } = shape
-
-    ctx.font = `${fontWeight} ${fontSize}px ${fontFamily}`
-    ctx.textAlign = textAlign
-    ctx.textBaseline = 'top'
-
-    if (ctx.fillStyle && ctx.fillStyle !== 'rgba(0, 0, 0, 0)') {
-      ctx.fillText(content, 0, 0)
-    }
-    if (ctx.strokeStyle && ctx.lineWidth > 0) {
-      ctx.strokeText(content, 0, 0)
+    const fill = ctx.fillStyle && ctx.fillStyle !== 'rgba(0, 0, 0, 0)' ? ctx.fillStyle : null
+    const stroke = !!ctx.strokeStyle && ctx.lineWidth > 0
+
+    ctx.textAlign = 'left'
+    ctx.textBaseline = 'alphabetic'
+
+    for (const line of getTextLayout(shape).lines) {
+      for (const span of line.spans) {
+        const x = line.x + span.x
+        const paint = span.style.color ?? fill
+        ctx.font = getTextFont(span.style)
+        if (paint) ctx.fillStyle = paint
+        if (!span.whitespace) {
+          if (paint) ctx.fillText(span.text, x, line.baseline)
+          if (stroke) ctx.strokeText(span.text, x, line.baseline)
+        }
+        if (span.style.underline && paint) {
+          const underline = getUnderlineMetrics(span.style)
+          ctx.fillRect(x, line.baseline + underline.offset, span.width, underline.width)
+        }
+      }
     }
   }
 
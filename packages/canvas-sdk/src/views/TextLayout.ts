@@ -0,0 +1,409 @@
+/**
+ * 文本排版
+ * 由渲染引擎的 RichTextParser 与 TextLayoutEngine 分行（显式换行分段、按单词换行、中日韩字符可任意断行、
+ * 超长单词按字符断开），在此基础上支持左/中/右/两端对齐。坐标为本地坐标，首行基线位于 y = 0。
+ * 渲染、边界与命中测试、光标定位与 SVG 导出共用同一份排版结果，按实体版本缓存
+ */
+
+import {
+  FontStyle,
+  type IPoint,
+  type IRect,
+  RichTextParser,
+  type TextFragment,
+  TextLayoutEngine,
+  type TextLine,
+  TextMeasurement,
+  type TextStyle,
+} from '@sky-canvas/render-engine'
+import { getTextRuns } from '../models/entities/RichText'
+import type { ITextEntity } from '../models/entities/Shape'
+
+/**
+ * 片段的最终样式
+ */
+export interface IResolvedTextStyle {
+  fontSize: number
+  fontFamily: string
+  bold: boolean
+  italic: boolean
+  underline: boolean
+  /** 未设置时使用实体的填充 */
+  color?: string
+}
+
+/**
+ * 行内的一段同样式文本，x 相对行首
+ */
+export interface ITextSpan {
+  text: string
+  start: number
+  end: number
+  x: number
+  width: number
+  style: IResolvedTextStyle
+  /** 整段均为空白 */
+  whitespace: boolean
+  /** 两端对齐拉伸后的空白按字符均分宽度 */
+  stretched: boolean
+}
+
+export interface ITextLine {
+  /** 行内文本范围 [start, end)，不含段落结尾的换行符 */
+  start: number
+  end: number
+  /** 行首相对文本框左边的偏移（对齐后） */
+  x: number
+  /** 行顶部与基线 */
+  y: number
+  baseline: number
+  height: number
+  /** 不含行尾空白的宽度 */
+  width: number
+  spans: ITextSpan[]
+}
+
+export interface ITextLayout {
+  lines: ITextLine[]
+  /** 文本框（本地坐标） */
+  bounds: IRect
+}
+
+/**
+ * 光标位置：x 与行顶部 y，高度为行高
+ */
+export interface ITextCaret {
+  x: number
+  y: number
+  height: number
+  line: number
+}
+
+/** 与渲染引擎的默认行高一致，用于从行高推算字号 */
+const LINE_HEIGHT_FACTOR = 1.2
+
+/**
+ * 文本片段的起止范围与样式
+ */
+interface IRunStyle {
+  start: number
+  end: number
+  style: IResolvedTextStyle
+}
+
+const parser = new RichTextParser()
+let measurement: TextMeasurement | undefined
+let layoutEngine: TextLayoutEngine | undefined
+/** 实体原地更新时会换新 updatedAt，据此判断缓存的排版是否仍然有效 */
+const layoutCache = new WeakMap<ITextEntity, { updatedAt: Date; layout: ITextLayout }>()
+
+export function getTextFont(style: IResolvedTextStyle): string {
+  return `${style.italic ? 'italic ' : ''}${style.bold ? 'bold' : 'normal'} ${style.fontSize}px ${style.fontFamily}`
+}
+
+/**
+ * 测量文本宽度：有 Canvas 2D 时按实际字体测量，否则按字号估算
+ */
+export function measureSpanWidth(text: string, style: IResolvedTextStyle): number {
+  return getMeasurement().measureFragmentWidth({
+    text,
+    style: toTextStyle(style),
+    startIndex: 0,
+    endIndex: text.length,
+  })
+}
+
+function getMeasurement(): TextMeasurement {
+  if (measurement) return measurement
+  let context: CanvasRenderingContext2D | null = null
+  if (typeof document !== 'undefined') {
+    try {
+      context = document.createElement('canvas').getContext('2d')
+    } catch {
+      context = null
+    }
+  }
+  measurement = new TextMeasurement(context)
+  return measurement
+}
+
+function getLayoutEngine(): TextLayoutEngine {
+  if (!layoutEngine) layoutEngine = new TextLayoutEngine(getMeasurement())
+  return layoutEngine
+}
+
+/**
+ * 排版文本实体
+ */
+export function getTextLayout(text: ITextEntity): ITextLayout {
+  const cached = layoutCache.get(text)
+  if (cached && cached.updatedAt === text.updatedAt) return cached.layout
+  const layout = createTextLayout(text)
+  layoutCache.set(text, { updatedAt: text.updatedAt, layout })
+  return layout
+}
+
+/**
+ * 本地边界框
+ */
+export function getTextBounds(text: ITextEntity): IRect {
+  return getTextLayout(text).bounds
+}
+
+/**
+ * 偏移量所在的行：位于换行断点时属于下一行
+ */
+export function getLineIndexAt(layout: ITextLayout, offset: number): number {
+  for (let index = layout.lines.length - 1; index >= 0; index--) {
+    if (layout.lines[index].start <= offset) return index
+  }
+  return 0
+}
+
+/**
+ * 偏移量处的光标
+ */
+export function getCaretAt(layout: ITextLayout, offset: number): ITextCaret {
+  const index = getLineIndexAt(layout, offset)
+  const line = layout.lines[index]
+  if (!line) return { x: 0, y: 0, height: 0, line: 0 }
+  return {
+    x: line.x + getLineOffsetX(line, Math.min(offset, line.end)),
+    y: line.y,
+    height: line.height,
+    line: index,
+  }
+}
+
+/**
+ * 行内偏移量对应的 x（相对行首）
+ */
+export function getLineOffsetX(line: ITextLine, offset: number): number {
+  for (const span of line.spans) {
+    if (offset > span.end) continue
+    const count = Math.max(0, offset - span.start)
+    if (span.stretched) return span.x + (span.width * count) / span.text.length
+    return span.x + measureSpanWidth(span.text.slice(0, count), span.style)
+  }
+  const last = line.spans[line.spans.length - 1]
+  return last ? last.x + last.width : 0
+}
+
+/**
+ * 行内距离 x（相对文本框左边）最近的偏移量
+ */
+export function getLineOffsetAtX(line: ITextLine, x: number): number {
+  const localX = x - line.x
+  let best = line.start
+  let bestDistance = Math.abs(localX)
+  for (let offset = line.start + 1; offset <= line.end; offset++) {
+    const distance = Math.abs(getLineOffsetX(line, offset) - localX)
+    if (distance <= bestDistance) {
+      best = offset
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+/**
+ * 本地坐标处的偏移量，点在文本框外时取最近的行
+ */
+export function getOffsetAtPoint(layout: ITextLayout, point: IPoint): number {
+  const { lines } = layout
+  if (lines.length === 0) return 0
+  let line = lines[lines.length - 1]
+  for (const candidate of lines) {
+    if (point.y < candidate.y + candidate.height) {
+      line = candidate
+      break
+    }
+  }
+  return getLineOffsetAtX(line, point.x)
+}
+
+/**
+ * 选区 [start, end) 的高亮矩形，每行一个；跨行时行尾补一个空格宽度表示换行符
+ */
+export function getSelectionRects(layout: ITextLayout, start: number, end: number): IRect[] {
+  const from = Math.min(start, end)
+  const to = Math.max(start, end)
+  const rects: IRect[] = []
+  if (from === to) return rects
+  for (const line of layout.lines) {
+    if (line.end < from || line.start > to) continue
+    if (line.end === from && line.start !== from) continue
+    const x1 = getLineOffsetX(line, Math.max(from, line.start))
+    let x2 = getLineOffsetX(line, Math.min(to, line.end))
+    if (to > line.end) x2 += (line.height / LINE_HEIGHT_FACTOR) * 0.3
+    if (x2 > x1) rects.push({ x: line.x + x1, y: line.y, width: x2 - x1, height: line.height })
+  }
+  return rects
+}
+
+/**
+ * 下划线位置与粗细
+ */
+export function getUnderlineMetrics(style: IResolvedTextStyle): { offset: number; width: number } {
+  return { offset: style.fontSize * 0.12, width: Math.max(1, style.fontSize / 16) }
+}
+
+// === 私有方法 ===
+
+function resolveStyle(
+  text: ITextEntity,
+  run: { bold?: boolean; italic?: boolean; underline?: boolean; color?: string; fontSize?: number }
+): IResolvedTextStyle {
+  return {
+    fontSize: run.fontSize ?? text.fontSize,
+    fontFamily: text.fontFamily,
+    bold: run.bold ?? text.fontWeight === 'bold',
+    italic: run.italic ?? false,
+    underline: run.underline ?? false,
+    color: run.color,
+  }
+}
+
+/**
+ * 各片段的范围与样式
+ */
+function getRunStyles(text: ITextEntity): IRunStyle[] {
+  const runs: IRunStyle[] = []
+  let offset = 0
+  for (const run of getTextRuns(text)) {
+    runs.push({ start: offset, end: offset + run.text.length, style: resolveStyle(text, run) })
+    offset += run.text.length
+  }
+  return runs
+}
+
+function getStyleAt(text: ITextEntity, runs: IRunStyle[], offset: number): IResolvedTextStyle {
+  const run = runs.find((candidate) => offset < candidate.end) ?? runs[runs.length - 1]
+  return run?.style ?? resolveStyle(text, {})
+}
+
+function toTextStyle(style: IResolvedTextStyle): TextStyle {
+  return {
+    fontFamily: style.fontFamily,
+    fontSize: style.fontSize,
+    fontWeight: style.bold ? 'bold' : 'normal',
+    fontStyle: style.italic ? FontStyle.ITALIC : FontStyle.NORMAL,
+  }
+}
+
+function createTextLayout(text: ITextEntity): ITextLayout {
+  const maxWidth = text.width !== undefined && text.width > 0 ? text.width : Infinity
+  const content = text.content
+  const runs = getRunStyles(text)
+  const document = parser.createDocument(
+    content,
+    runs.map((run) => ({ start: run.start, end: run.end, style: toTextStyle(run.style) })),
+    toTextStyle(getStyleAt(text, runs, 0))
+  )
+  const lines: ITextLine[] = getLayoutEngine()
+    .layoutText(document, { maxWidth, breakWord: true })
+    .map((line: TextLine) => toTextLine(text, runs, line))
+
+  const boxWidth = Number.isFinite(maxWidth)
+    ? maxWidth
+    : Math.max(0, ...lines.map((line) => line.width))
+  let top = lines.length > 0 ? -lines[0].baseline : 0
+  for (const [index, line] of lines.entries()) {
+    const baseline = line.baseline
+    line.y = top
+    line.baseline = top + baseline
+    top += line.height
+    const paragraphEnd = index === lines.length - 1 || content[line.end] === '\n'
+    alignLine(line, boxWidth, text.textAlign, paragraphEnd || !Number.isFinite(maxWidth))
+  }
+
+  const y = lines.length > 0 ? lines[0].y : 0
+  return { lines, bounds: { x: 0, y, width: boxWidth, height: top - y } }
+}
+
+/**
+ * 引擎的文本行转为编辑器使用的行，y 与 baseline 暂为相对行顶部的值
+ */
+function toTextLine(text: ITextEntity, runs: IRunStyle[], line: TextLine): ITextLine {
+  let x = 0
+  const spans = line.fragments.map((fragment: TextFragment): ITextSpan => {
+    const width = getMeasurement().measureFragmentWidth(fragment)
+    const span = {
+      text: fragment.text,
+      start: fragment.startIndex,
+      end: fragment.endIndex,
+      x,
+      width,
+      style: getStyleAt(text, runs, fragment.startIndex),
+      whitespace: !fragment.text.trim(),
+      stretched: false,
+    }
+    x += width
+    return span
+  })
+  return {
+    start: line.startIndex,
+    end: line.endIndex,
+    x: 0,
+    y: 0,
+    baseline: line.baselineY,
+    height: line.height,
+    width: line.width,
+    spans,
+  }
+}
+
+/**
+ * 按对齐方式设置行首偏移；两端对齐时把剩余宽度均分给行内空白（段落末行除外）
+ */
+function alignLine(
+  line: ITextLine,
+  boxWidth: number,
+  align: ITextEntity['textAlign'],
+  lastLine: boolean
+): void {
+  const free = Math.max(0, boxWidth - line.width)
+  if (align === 'center') {
+    line.x = free / 2
+  } else if (align === 'right') {
+    line.x = free
+  } else if (align === 'justify' && !lastLine) {
+    // 拆出单词与空白，行首与行尾空白不参与拉伸
+    const spans = line.spans.flatMap(splitSpan)
+    const gaps = spans.filter(
+      (span) => span.whitespace && span.x > 0 && span.x + span.width < line.width
+    )
+    const gapChars = gaps.reduce((sum, span) => sum + span.text.length, 0)
+    if (gapChars === 0) return
+    let shift = 0
+    for (const span of spans) {
+      span.x += shift
+      if (gaps.includes(span)) {
+        const extra = (free * span.text.length) / gapChars
+        span.width += extra
+        span.stretched = true
+        shift += extra
+      }
+    }
+    line.spans = spans
+    line.width = boxWidth
+  }
+}
+
+function splitSpan(span: ITextSpan): ITextSpan[] {
+  const result: ITextSpan[] = []
+  for (const match of span.text.matchAll(/\s+|\S+/g)) {
+    const index = match.index ?? 0
+    const text = match[0]
+    result.push({
+      ...span,
+      text,
+      start: span.start + index,
+      end: span.start + index + text.length,
+      x: span.x + measureSpanWidth(span.text.slice(0, index), span.style),
+      width: measureSpanWidth(text, span.style),
+      whitespace: /^\s/.test(text),
+    })
+  }
+  return result
+}
@@ -3,10 +3,12 @@
  * 真正的视图组件 - 画板上的视觉元素
  */
 
+export * from './GuideOverlayView' // 辅助线覆盖层（渲染场景中的辅助线）
 export * from './GuideView' // 辅助线视图
 // 视图接口
 export * from './interfaces/ICanvasView'
 export * from './LayerView' // 图层视图（图层面板）
+export * from './PresenceView' // 协作在线状态视图（其他协作者的光标与选择框）
 // 视图实现 - 画板上的视觉组件
 export * from './SceneView' // 场景视图（背景、网格）
 export * from './SelectionView' // 选择视图（选择框、手柄）
@@ -0,0 +1,286 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { CanvasManager } from '../../src/managers/CanvasManager'
+import { DocumentManager } from '../../src/managers/DocumentManager'
+import { SceneManager } from '../../src/managers/SceneManager'
+import { TimelineManager } from '../../src/managers/TimelineManager'
+import {
+  DocumentFormatError,
+  DocumentMigrationRegistry,
+  SKY_CANVAS_DOCUMENT_VERSION,
+} from '../../src/models/document/SkyCanvasDocument'
+import { type IImageEntity, ShapeEntityFactory } from '../../src/models/entities/Shape'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import { ConfigurationService } from '../../src/services/configuration/configurationService'
+import { ExportService } from '../../src/services/export/exportService'
+import { HistoryService } from '../../src/services/history/historyService'
+import { LogService } from '../../src/services/logging/logService'
+import { CanvasRenderingService } from '../../src/services/rendering/renderingService'
+import { SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+
+describe('DocumentManager', () => {
+  let shapeService: ShapeService
+  let historyService: HistoryService
+  let canvasManager: CanvasManager
+  let sceneManager: SceneManager
+  let documentManager: DocumentManager
+  let viewport: { x: number; y: number; width: number; height: number; zoom: number }
+  let createDocumentManager: () => DocumentManager
+
+  beforeEach(() => {
+    const logService = new LogService()
+    shapeService = new ShapeService()
+    historyService = new HistoryService(logService)
+    const renderingService = new CanvasRenderingService(logService)
+    viewport = { x: 0, y: 0, width: 800, height: 600, zoom: 1 }
+    vi.spyOn(renderingService, 'getRenderEngine').mockReturnValue({
+      getViewport: () => ({ ...viewport }),
+      setViewport: (next: Partial<typeof viewport>) => Object.assign(viewport, next),
+    } as any)
+
+    canvasManager = new CanvasManager(
+      logService,
+      shapeService,
+      new SelectionService(),
+      new ClipboardService(),
+      historyService,
+      new ZIndexService(logService),
+      renderingService
+    )
+    sceneManager = new SceneManager(
+      canvasManager,
+      renderingService,
+      logService,
+      new ConfigurationService()
+    )
+    createDocumentManager = () =>
+      new DocumentManager(
+        canvasManager,
+        sceneManager,
+        shapeService,
+        historyService,
+        renderingService,
+        new TimelineManager(canvasManager, shapeService, renderingService, logService),
+        new ExportService(),
+        logService
+      )
+    documentManager = createDocumentManager()
+  })
+
+  it('should round-trip shapes, layers, guides and viewport', async () => {
+    const rect = ShapeEntityFactory.createRectangle({ x: 10, y: 20 }, { width: 30, height: 40 })
+    const hidden = { ...ShapeEntityFactory.createCircle({ x: 50, y: 50 }, 10), visible: false }
+    const locked = { ...ShapeEntityFactory.createText('hi', { x: 5, y: 5 }), locked: true }
+    canvasManager.addShape(rect)
+    canvasManager.addShape(hidden)
+    canvasManager.addShape(locked)
+    canvasManager.setZIndex([rect.id], 3)
+
+    const layer = sceneManager.createLayer('Top')
+    sceneManager.moveShapeToLayer(hidden.id, layer.id)
+    sceneManager.updateLayer(layer.id, { opacity: 0.5, locked: true })
+    sceneManager.addGuide({ id: 'g1', type: 'vertical', position: 120 })
+    sceneManager.setBackgroundColor('#101010')
+    viewport.x = 40
+    viewport.zoom = 2
+
+    const saved = await documentManager.save()
+
+    canvasManager.clear()
+    sceneManager.clear()
+    viewport.x = 0
+    viewport.zoom = 1
+
+    const result = await documentManager.load(saved)
+
+    expect(result.success).toBe(true)
+    expect(result.migratedFrom).toBeNull()
+    expect(shapeService.getAllShapeEntities().map((s) => s.id)).toEqual(
+      expect.arrayContaining([rect.id, hidden.id, locked.id])
+    )
+    expect(shapeService.getShapeEntity(hidden.id)?.visible).toBe(false)
+    expect(shapeService.getShapeEntity(locked.id)?.locked).toBe(true)
+    expect(shapeService.getShapeEntity(rect.id)?.zIndex).toBe(3)
+    expect(shapeService.getShapeEntity(rect.id)?.createdAt).toBeInstanceOf(Date)
+    expect(sceneManager.getShapeLayer(hidden.id)?.name).toBe('Top')
+    expect(sceneManager.getShapeLayer(hidden.id)?.opacity).toBe(0.5)
+    expect(sceneManager.getShapeLayer(rect.id)?.name).toBe('默认图层')
+    expect(sceneManager.getGuides()).toEqual([{ id: 'g1', type: 'vertical', position: 120 }])
+    expect(sceneManager.getSceneState().backgroundColor).toBe('#101010')
+    expect(viewport).toMatchObject({ x: 40, zoom: 2 })
+    expect(result.historyRestored).toBe(true)
+    expect(historyService.canUndo()).toBe(true)
+  })
+
+  it('should keep the undo history in the document unless excluded', async () => {
+    const rect = ShapeEntityFactory.createRectangle({ x: 10, y: 20 }, { width: 30, height: 40 })
+    canvasManager.addShape(rect)
+    canvasManager.stopHistoryMerging()
+    canvasManager.updateShape(rect.id, {
+      transform: { ...rect.transform, position: { x: 100, y: 100 } },
+    })
+    const saved = await documentManager.save()
+
+    canvasManager.clear()
+    historyService.clear()
+    const result = await documentManager.load(saved)
+    expect(result.historyRestored).toBe(true)
+    expect(canvasManager.getStats().history.labels).toEqual(['Add rectangle', 'Move rectangle'])
+
+    canvasManager.undo()
+    expect(shapeService.getShapeEntity(rect.id)?.transform.position).toEqual({ x: 10, y: 20 })
+    canvasManager.undo()
+    expect(shapeService.getShapeEntity(rect.id)).toBeUndefined()
+    canvasManager.goToHistory(1)
+    expect(shapeService.getShapeEntity(rect.id)?.transform.position).toEqual({ x: 100, y: 100 })
+
+    const withoutHistory = await documentManager.createDocument({ includeHistory: false })
+    expect(withoutHistory.history).toBeUndefined()
+    expect((await documentManager.load(JSON.stringify(withoutHistory))).historyRestored).toBe(false)
+    expect(historyService.canUndo()).toBe(false)
+  })
+
+  it('should embed image pixel data as assets', async () => {
+    const imageData = { width: 1, height: 1, data: new Uint8ClampedArray([255, 0, 128, 255]) }
+    const image = ShapeEntityFactory.createImage(
+      'data:image/png;base64,AAAA',
+      { x: 0, y: 0 },
+      { width: 1, height: 1 },
+      {},
+      imageData
+    )
+    canvasManager.addShape(image)
+
+    const document = await documentManager.createDocument()
+    const serialized = document.shapes[0] as Record<string, unknown>
+    expect(serialized.imageData).toBeUndefined()
+    expect(document.assets[serialized.assetId as string]).toMatchObject({
+      dataUrl: 'data:image/png;base64,AAAA',
+    })
+
+    await documentManager.load(JSON.stringify(document))
+    const restored = shapeService.getShapeEntity(image.id) as IImageEntity
+    expect(restored.src).toBe('data:image/png;base64,AAAA')
+    expect(Array.from(restored.imageData?.data ?? [])).toEqual([255, 0, 128, 255])
+  })
+
+  it('should migrate legacy exportToJSON output and keep shape ids', async () => {
+    const legacy = {
+      version: '1.0',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      shapes: [JSON.parse(JSON.stringify(ShapeEntityFactory.createRectangle({ x: 1, y: 2 })))],
+    }
+
+    const result = await documentManager.load(JSON.stringify(legacy))
+
+    expect(result.success).toBe(true)
+    expect(result.migratedFrom).toBe(1)
+    expect(result.document?.version).toBe(SKY_CANVAS_DOCUMENT_VERSION)
+    expect(shapeService.getShapeEntity(legacy.shapes[0].id)).toBeDefined()
+    expect(sceneManager.getShapeLayer(legacy.shapes[0].id)).not.toBeNull()
+  })
+
+  it('should give gradient stops and effects of version 2 documents an id', async () => {
+    const rect = ShapeEntityFactory.createRectangle()
+    const stops = [
+      { offset: 0, color: '#ff0000' },
+      { id: 'kept', offset: 1, color: '#0000ff' },
+    ]
+    const document = {
+      format: 'skycanvas',
+      version: 2,
+      scene: {},
+      layers: [],
+      shapes: [
+        {
+          ...JSON.parse(JSON.stringify(rect)),
+          style: { fillPaint: { type: 'linear-gradient', stops } },
+          effects: [{ type: 'blur', radius: 2 }],
+        },
+      ],
+    }
+
+    const result = await documentManager.load(document)
+
+    expect(result.migratedFrom).toBe(2)
+    expect(shapeService.getShapeEntity(rect.id)?.style.fillPaint).toMatchObject({
+      stops: [{ id: 'stop_0', offset: 0 }, { id: 'kept' }],
+    })
+    expect(shapeService.getShapeEntity(rect.id)?.effects).toEqual([
+      { id: 'effect_0', type: 'blur', radius: 2 },
+    ])
+  })
+
+  it('should keep registered migrations local to the document manager', async () => {
+    const legacy = { version: '1.0', shapes: [] }
+    documentManager.registerMigration({
+      from: 1,
+      to: 2,
+      migrate: () => {
+        throw new DocumentFormatError('Custom migration failed')
+      },
+    })
+
+    await expect(documentManager.load(legacy)).resolves.toMatchObject({
+      success: false,
+      errors: ['Custom migration failed'],
+    })
+    await expect(createDocumentManager().load(legacy)).resolves.toMatchObject({
+      success: true,
+      migratedFrom: 1,
+    })
+  })
+
+  it('should chain registered migrations up to the target version', () => {
+    const registry = new DocumentMigrationRegistry()
+    registry.register({ from: 2, to: 3, migrate: (doc) => ({ ...doc, layers: ['v3'] }) })
+    registry.register({ from: 3, to: 4, migrate: (doc) => ({ ...doc, shapes: ['v4'] }) })
+
+    const { document, migratedFrom } = registry.migrate(
+      { format: 'skycanvas', version: 2, layers: [], shapes: [] },
+      4
+    )
+
+    expect(migratedFrom).toBe(2)
+    expect(document).toMatchObject({ version: 4, layers: ['v3'], shapes: ['v4'] })
+    expect(() => registry.migrate({ format: 'skycanvas', version: 1, shapes: [] }, 4)).toThrow(
+      DocumentFormatError
+    )
+  })
+
+  it('should reject documents newer than the supported version', async () => {
+    const document = await documentManager.createDocument()
+    const result = await documentManager.load({
+      ...document,
+      version: SKY_CANVAS_DOCUMENT_VERSION + 1,
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.errors[0]).toContain('newer than supported')
+  })
+
+  it('should report invalid documents without touching the scene', async () => {
+    const rect = ShapeEntityFactory.createRectangle()
+    canvasManager.addShape(rect)
+
+    const result = await documentManager.load('{"format":"skycanvas","version":2}')
+
+    expect(result.success).toBe(false)
+    expect(result.errors).toHaveLength(1)
+    expect(shapeService.getShapeEntity(rect.id)).toBeDefined()
+  })
+
+  it('should reject malformed assets and drop a malformed undo history', async () => {
+    canvasManager.addShape(ShapeEntityFactory.createRectangle())
+    const document = await documentManager.createDocument()
+
+    const badAsset = await documentManager.load({ ...document, assets: { a: { kind: 'video' } } })
+    expect(badAsset.errors).toEqual(['Invalid document: asset a is malformed'])
+
+    const result = await documentManager.load({ ...document, history: { entries: 'none' } })
+    expect(result.success).toBe(true)
+    expect(result.document?.history).toBeUndefined()
+    expect(result.historyRestored).toBe(false)
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * 图层合成测试：场景图层的透明度、混合模式与图层组同步到渲染引擎并导出，辅助线绘制在覆盖层
+ */
+
+import type { ISoftwareContext } from '@sky-canvas/render-engine'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { CanvasManager } from '../../src/managers/CanvasManager'
+import { DocumentManager } from '../../src/managers/DocumentManager'
+import { SceneManager } from '../../src/managers/SceneManager'
+import { TimelineManager } from '../../src/managers/TimelineManager'
+import { ShapeEntityFactory } from '../../src/models/entities/Shape'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import { ConfigurationService } from '../../src/services/configuration/configurationService'
+import { ExportService } from '../../src/services/export/exportService'
+import { HistoryService } from '../../src/services/history/historyService'
+import { LogService } from '../../src/services/logging/logService'
+import { CanvasRenderingService } from '../../src/services/rendering/renderingService'
+import { SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+
+// 以软件光栅化代替 Canvas 2D，便于逐像素校验合成结果
+vi.mock('@sky-canvas/render-engine', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@sky-canvas/render-engine')>()
+  return { ...actual, Canvas2DContextFactory: actual.SoftwareContextFactory }
+})
+
+describe('SceneManager layer compositing', () => {
+  let logService: LogService
+  let shapeService: ShapeService
+  let historyService: HistoryService
+  let renderingService: CanvasRenderingService
+  let canvasManager: CanvasManager
+  let sceneManager: SceneManager
+
+  beforeEach(() => {
+    logService = new LogService()
+    shapeService = new ShapeService()
+    historyService = new HistoryService(logService)
+    renderingService = new CanvasRenderingService(logService)
+    canvasManager = new CanvasManager(
+      logService,
+      shapeService,
+      new SelectionService(),
+      new ClipboardService(),
+      historyService,
+      new ZIndexService(logService)
+    )
+    sceneManager = new SceneManager(
+      canvasManager,
+      renderingService,
+      logService,
+      new ConfigurationService()
+    )
+  })
+
+  // 场景管理器在状态订阅回调中把新形状放入激活图层
+  const addSquare = async (color: string) => {
+    const rect = ShapeEntityFactory.createRectangle(
+      { x: 0, y: 0 },
+      { width: 10, height: 10 },
+      { fillColor: color }
+    )
+    canvasManager.addShape(rect)
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    return rect
+  }
+
+  const renderPixel = () => {
+    renderingService.render()
+    const context = renderingService.getRenderEngine()?.getContext() as ISoftwareContext
+    return Array.from(context.imageData.data.subarray(0, 4))
+  }
+
+  it('should render layers with their blend mode and opacity', async () => {
+    const canvas = Object.assign(document.createElement('canvas'), { width: 10, height: 10 })
+    await renderingService.initialize(canvas, { renderEngine: 'canvas2d' })
+
+    await addSquare('#ff8000')
+    const top = sceneManager.createLayer('top')
+    sceneManager.setActiveLayer(top.id)
+    await addSquare('#808080')
+    expect(renderPixel()).toEqual([128, 128, 128, 255])
+
+    sceneManager.updateLayer(top.id, { blendMode: 'multiply' })
+    expect(renderPixel()).toEqual([128, 64, 0, 255])
+
+    sceneManager.updateLayer(top.id, { blendMode: 'normal', opacity: 0.5 })
+    expect(renderPixel()).toEqual([192, 128, 64, 255])
+
+    sceneManager.updateLayer(top.id, { visible: false })
+    expect(renderPixel()).toEqual([255, 128, 0, 255])
+  })
+
+  it('should composite layer groups as a whole and apply settings made before initialize', async () => {
+    await addSquare('#0000ff')
+    const group = sceneManager.createLayerGroup('group')
+    const lower = sceneManager.createLayer('lower')
+    const upper = sceneManager.createLayer('upper')
+    expect(sceneManager.setLayerParent(lower.id, group.id)).toBe(true)
+    expect(sceneManager.setLayerParent(upper.id, group.id)).toBe(true)
+    sceneManager.setActiveLayer(lower.id)
+    await addSquare('#00ff00')
+    sceneManager.setActiveLayer(upper.id)
+    await addSquare('#ff0000')
+    sceneManager.updateLayer(group.id, { opacity: 0.5 })
+
+    const canvas = Object.assign(document.createElement('canvas'), { width: 10, height: 10 })
+    await renderingService.initialize(canvas, { renderEngine: 'canvas2d' })
+    sceneManager.render()
+
+    // 组内红色完全覆盖绿色，再整体以 50% 叠加到蓝色上
+    expect(renderPixel()).toEqual([128, 0, 128, 255])
+  })
+
+  it('should draw enabled guides across the visible area in the overlay', async () => {
+    const canvas = Object.assign(document.createElement('canvas'), { width: 10, height: 10 })
+    await renderingService.initialize(canvas, { renderEngine: 'canvas2d' })
+    const pixelAt = (x: number, y: number) => {
+      const context = renderingService.getRenderEngine()?.getContext() as ISoftwareContext
+      const offset = (y * 10 + x) * 4
+      return Array.from(context.imageData.data.subarray(offset, offset + 4))
+    }
+
+    sceneManager.addGuide({ id: 'g1', type: 'vertical', position: 4.5, color: '#ff0000' })
+    const background = pixelAt(4, 1)
+    expect(background).not.toEqual([255, 0, 0, 255])
+
+    sceneManager.toggleGuides()
+    // 虚线的第一段
+    expect(pixelAt(4, 1)).toEqual([255, 0, 0, 255])
+    expect(pixelAt(2, 1)).toEqual(background)
+
+    sceneManager.removeGuide('g1')
+    expect(pixelAt(4, 1)).toEqual(background)
+  })
+
+  it('should reject cycles and reparent children when a group is removed', () => {
+    const outer = sceneManager.createLayerGroup('outer')
+    const inner = sceneManager.createLayerGroup('inner', [])
+    const layer = sceneManager.createLayer('layer')
+
+    expect(sceneManager.setLayerParent(inner.id, outer.id)).toBe(true)
+    expect(sceneManager.setLayerParent(outer.id, inner.id)).toBe(false)
+    expect(sceneManager.setLayerParent(layer.id, layer.id)).toBe(false)
+    // 只能放入图层组
+    expect(sceneManager.updateLayer(outer.id, { parentId: layer.id })).toBe(false)
+
+    sceneManager.setLayerParent(layer.id, inner.id)
+    sceneManager.removeLayer(inner.id)
+    const layers = sceneManager.getAllLayers()
+    expect(layers.find((l) => l.id === layer.id)?.parentId).toBe(outer.id)
+  })
+
+  it('should persist and export blend modes and nested groups', async () => {
+    vi.spyOn(renderingService, 'getRenderEngine').mockReturnValue(null)
+    const documentManager = new DocumentManager(
+      canvasManager,
+      sceneManager,
+      shapeService,
+      historyService,
+      renderingService,
+      new TimelineManager(canvasManager, shapeService, renderingService, logService),
+      new ExportService(),
+      logService
+    )
+    const group = sceneManager.createLayerGroup('group')
+    const layer = sceneManager.createLayer('layer')
+    sceneManager.setLayerParent(layer.id, group.id)
+    sceneManager.updateLayer(group.id, { opacity: 0.5 })
+    sceneManager.updateLayer(layer.id, { blendMode: 'color-burn' })
+    sceneManager.setActiveLayer(layer.id)
+    await addSquare('#ff0000')
+
+    const svg = documentManager.exportToSVG()
+    expect(svg).toMatch(
+      new RegExp(
+        `<g id="${group.id}" data-name="group" opacity="0.5">\\s*<g id="${layer.id}" data-name="layer" style="mix-blend-mode:color-burn">\\s*<rect[^>]*fill="#ff0000"`
+      )
+    )
+
+    const saved = await documentManager.createDocument()
+    const serialized = saved.layers.find((l) => l.id === group.id)
+    expect(serialized?.isGroup).toBe(true)
+    expect(serialized?.childrenIds).toEqual([layer.id])
+
+    sceneManager.clear()
+    await documentManager.load(JSON.stringify(saved))
+    const restored = sceneManager.getAllLayers().find((l) => l.id === layer.id)
+    expect(restored).toMatchObject({ blendMode: 'color-burn', parentId: group.id })
+  })
+})
@@ -0,0 +1,252 @@
+/**
+ * 关键帧动画测试：轨道插值与缓动、Oklab 颜色插值、tick 驱动的播放与循环、
+ * 拖动预览不修改模型、关键帧撤销以及随文档保存
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { CanvasManager } from '../../src/managers/CanvasManager'
+import { DocumentManager } from '../../src/managers/DocumentManager'
+import { SceneManager } from '../../src/managers/SceneManager'
+import { TimelineManager } from '../../src/managers/TimelineManager'
+import {
+  AnimationError,
+  evaluateTrack,
+  getAnimatedShape,
+  type IKeyframeTrack,
+  upsertKeyframe,
+} from '../../src/models/entities/Animation'
+import { type IRectangleEntity, ShapeEntityFactory } from '../../src/models/entities/Shape'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import { ConfigurationService } from '../../src/services/configuration/configurationService'
+import { ExportService } from '../../src/services/export/exportService'
+import { HistoryService } from '../../src/services/history/historyService'
+import { LogService } from '../../src/services/logging/logService'
+import { CanvasRenderingService } from '../../src/services/rendering/renderingService'
+import { SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+
+describe('Keyframe tracks', () => {
+  it('should hold end values and apply per-keyframe easing', () => {
+    const track: IKeyframeTrack = {
+      property: 'x',
+      keyframes: [
+        { time: 0, value: 0, easing: 'ease-in-quad' },
+        { time: 1000, value: 100, easing: 'step' },
+        { time: 2000, value: 200 },
+      ],
+    }
+
+    expect(evaluateTrack(track, -100)).toBe(0)
+    expect(evaluateTrack(track, 500)).toBe(25)
+    // step 保持到下一个关键帧
+    expect(evaluateTrack(track, 1999)).toBe(100)
+    expect(evaluateTrack(track, 3000)).toBe(200)
+    expect(evaluateTrack({ property: 'x', keyframes: [] }, 0)).toBeUndefined()
+  })
+
+  it('should interpolate colors in Oklab', () => {
+    const track: IKeyframeTrack = {
+      property: 'fillColor',
+      keyframes: [
+        { time: 0, value: '#ff0000' },
+        { time: 100, value: '#0000ff' },
+      ],
+    }
+
+    expect(evaluateTrack(track, 0)).toBe('#ff0000')
+    // sRGB 插值的中点为 #800080，Oklab 中点更亮
+    expect(evaluateTrack(track, 50)).toBe('#8c53a2')
+    expect(evaluateTrack(track, 100)).toBe('#0000ff')
+  })
+
+  it('should replace keyframes at the same time and animate geometry', () => {
+    let track: IKeyframeTrack = { property: 'width', keyframes: [] }
+    track = upsertKeyframe(track, { time: 1000, value: 300 })
+    track = upsertKeyframe(track, { time: 0, value: 100 })
+    track = upsertKeyframe(track, { time: 1000, value: 200 })
+    expect(track.keyframes).toEqual([
+      { time: 0, value: 100 },
+      { time: 1000, value: 200 },
+    ])
+
+    const rect = { ...ShapeEntityFactory.createRectangle(), animationTracks: [track] }
+    const animated = getAnimatedShape(rect, 500)
+    expect(animated.size).toEqual({ width: 150, height: 100 })
+    expect(rect.size.width).toBe(100)
+    // 不适用于该形状的属性被忽略
+    const radiusOnRect = { ...rect, animationTracks: [{ ...track, property: 'radius' as const }] }
+    expect(getAnimatedShape(radiusOnRect, 500)).toBe(radiusOnRect)
+  })
+})
+
+describe('TimelineManager', () => {
+  let shapeService: ShapeService
+  let historyService: HistoryService
+  let canvasManager: CanvasManager
+  let timelineManager: TimelineManager
+  let documentManager: DocumentManager
+  let shape: IRectangleEntity
+
+  const getViewEntity = () => shapeService.getShapeView(shape.id)?.getEntity() as IRectangleEntity
+
+  beforeEach(() => {
+    const logService = new LogService()
+    shapeService = new ShapeService()
+    historyService = new HistoryService(logService)
+    const renderingService = new CanvasRenderingService(logService)
+    vi.spyOn(renderingService, 'getRenderEngine').mockReturnValue(null)
+
+    canvasManager = new CanvasManager(
+      logService,
+      shapeService,
+      new SelectionService(),
+      new ClipboardService(),
+      historyService,
+      new ZIndexService(logService),
+      renderingService
+    )
+    timelineManager = new TimelineManager(canvasManager, shapeService, renderingService, logService)
+    // 由测试发送 tick，不启动帧循环
+    vi.spyOn(timelineManager.getAnimationManager(), 'start').mockReturnThis()
+    documentManager = new DocumentManager(
+      canvasManager,
+      new SceneManager(canvasManager, renderingService, logService, new ConfigurationService()),
+      shapeService,
+      historyService,
+      renderingService,
+      timelineManager,
+      new ExportService(),
+      logService
+    )
+
+    shape = ShapeEntityFactory.createRectangle({ x: 0, y: 0 }, { width: 100, height: 50 })
+    canvasManager.addShape(shape)
+  })
+
+  const tick = (deltaTime: number) => timelineManager.getAnimationManager().emit('tick', deltaTime)
+
+  it('should record keyframes from the current time and shape state as one undo step', () => {
+    timelineManager.setKeyframe(shape.id, 'x')
+    timelineManager.seek(1000)
+    canvasManager.updateShape(shape.id, {
+      transform: { ...shape.transform, position: { x: 200, y: 0 } },
+    })
+    timelineManager.setKeyframe(shape.id, 'x', { easing: 'ease-out' })
+
+    expect(timelineManager.getTracks(shape.id)).toEqual([
+      {
+        property: 'x',
+        keyframes: [
+          { time: 0, value: 0 },
+          { time: 1000, value: 200, easing: 'ease-out' },
+        ],
+      },
+    ])
+    expect(historyService.getHistory()[historyService.getCurrentIndex()].description).toBe(
+      'Add keyframe'
+    )
+
+    canvasManager.undo()
+    expect(timelineManager.getTracks(shape.id)[0].keyframes).toHaveLength(1)
+    expect(shapeService.getShapeEntity(shape.id)?.transform.position.x).toBe(200)
+
+    expect(() => timelineManager.setKeyframe(shape.id, 'radius')).toThrow(AnimationError)
+    expect(() => timelineManager.setKeyframe('missing', 'x')).toThrow(
+      'Shape missing does not exist'
+    )
+  })
+
+  it('should extend the duration to fit new keyframes', () => {
+    timelineManager.setKeyframe(shape.id, 'opacity', { time: 8000, value: 0 })
+
+    expect(timelineManager.state.duration).toBe(8000)
+    expect(() => timelineManager.setDuration(0)).toThrow(
+      'Timeline duration must be a positive number, got 0'
+    )
+  })
+
+  it('should preview scrubbed frames without changing the model', () => {
+    const updated = vi.fn()
+    canvasManager.on('shape:updated', updated)
+    timelineManager.setKeyframe(shape.id, 'fillColor', { time: 0, value: '#ffffff' })
+    timelineManager.setKeyframe(shape.id, 'fillColor', { time: 1000, value: '#000000' })
+    timelineManager.setKeyframe(shape.id, 'rotation', { time: 0 })
+    timelineManager.setKeyframe(shape.id, 'rotation', { time: 1000, value: Math.PI })
+    updated.mockClear()
+    const historyLength = historyService.getHistory().length
+
+    timelineManager.seek(500)
+
+    expect(getViewEntity().transform.rotation).toBeCloseTo(Math.PI / 2)
+    expect(getViewEntity().style.fillColor).toBe('#636363')
+    expect(shapeService.getShapeEntity(shape.id)?.transform.rotation).toBe(0)
+    expect(updated).not.toHaveBeenCalled()
+    expect(historyService.getHistory()).toHaveLength(historyLength)
+
+    timelineManager.stop()
+    expect(timelineManager.state.currentTime).toBe(0)
+    expect(getViewEntity()).toBe(shapeService.getShapeEntity(shape.id))
+  })
+
+  it('should advance on animation manager ticks and stop or loop at the end', () => {
+    timelineManager.setDuration(1000)
+    timelineManager.setKeyframe(shape.id, 'y', { time: 0, value: 0 })
+    timelineManager.setKeyframe(shape.id, 'y', { time: 1000, value: 100 })
+
+    timelineManager.play()
+    tick(250)
+    expect(timelineManager.state.currentTime).toBe(250)
+    expect(getViewEntity().transform.position.y).toBe(25)
+
+    tick(1000)
+    expect(timelineManager.state).toMatchObject({ currentTime: 1000, playing: false })
+    // 暂停后的 tick 被忽略
+    tick(100)
+    expect(timelineManager.state.currentTime).toBe(1000)
+
+    timelineManager.setLoop(true)
+    timelineManager.play()
+    expect(timelineManager.state.currentTime).toBe(0)
+    tick(1300)
+    expect(timelineManager.state).toMatchObject({ currentTime: 300, playing: true })
+    expect(getViewEntity().transform.position.y).toBe(30)
+  })
+
+  it('should save tracks and timeline settings with the document', async () => {
+    timelineManager.setDuration(3000)
+    timelineManager.setLoop(true)
+    timelineManager.setKeyframe(shape.id, 'scaleX', { time: 0, value: 1, easing: [0.4, 0, 0.2, 1] })
+    timelineManager.setKeyframe(shape.id, 'scaleX', { time: 2000, value: 2 })
+    const saved = await documentManager.save()
+
+    timelineManager.restoreSettings()
+    canvasManager.clear()
+    expect(timelineManager.getSettings()).toEqual({ duration: 5000, loop: false })
+
+    const result = await documentManager.load(saved)
+
+    expect(result.success).toBe(true)
+    expect(result.document?.timeline).toEqual({ duration: 3000, loop: true })
+    expect(timelineManager.getSettings()).toEqual({ duration: 3000, loop: true })
+    expect(timelineManager.getTracks(shape.id)).toEqual([
+      {
+        property: 'scaleX',
+        keyframes: [
+          { time: 0, value: 1, easing: [0.4, 0, 0.2, 1] },
+          { time: 2000, value: 2 },
+        ],
+      },
+    ])
+
+    await expect(
+      documentManager.load({
+        ...JSON.parse(saved),
+        shapes: [{ id: 'a', type: 'rectangle', animationTracks: [{ property: 'x' }] }],
+      })
+    ).resolves.toMatchObject({
+      success: false,
+      errors: ['Invalid document: shape a has malformed animation tracks'],
+    })
+  })
+})
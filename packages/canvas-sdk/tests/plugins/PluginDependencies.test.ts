@@ -0,0 +1,258 @@
+/**
+ * 插件依赖解析单元测试：依赖图、循环与版本冲突诊断、按依赖顺序激活与级联停用
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  DependencyResolver,
+  PluginDependencyError,
+} from '../../src/plugins/core/DependencyResolver'
+import { PluginManager } from '../../src/plugins/core/PluginManager'
+import {
+  type Plugin,
+  type PluginContext,
+  type PluginManifest,
+  PluginPermission,
+  PluginStatus,
+} from '../../src/plugins/types/PluginTypes'
+
+function createManifest(
+  id: string,
+  version = '1.0.0',
+  overrides: Partial<PluginManifest> = {}
+): PluginManifest {
+  return {
+    id,
+    name: `Plugin ${id}`,
+    version,
+    description: 'A dependency test plugin',
+    author: 'Test Author',
+    license: 'MIT',
+    main: 'index.js',
+    minEngineVersion: '1.0.0',
+    permissions: [PluginPermission.READ_ONLY],
+    extensionPoints: [],
+    keywords: [],
+    ...overrides,
+  }
+}
+
+/** 生命周期调用记录，如 'activate:core' */
+let calls: string[] = []
+
+function createPluginModule(id: string, activate?: (context: PluginContext) => unknown) {
+  return {
+    default: class implements Plugin {
+      async activate(context: PluginContext): Promise<unknown> {
+        calls.push(`activate:${id}`)
+        return activate?.(context)
+      }
+
+      async deactivate(): Promise<void> {
+        calls.push(`deactivate:${id}`)
+      }
+    },
+  }
+}
+
+describe('DependencyResolver', () => {
+  const resolver = new DependencyResolver('1.2.0')
+
+  it('should order dependencies first and report missing, invalid and conflicting versions', () => {
+    const resolution = resolver.resolve([
+      createManifest('app', '1.0.0', { dependencies: { ui: '^2.0.0', core: '^1.0.0' } }),
+      createManifest('ui', '2.1.0', { dependencies: { core: '~1.4.0' } }),
+      createManifest('core', '1.4.3'),
+      createManifest('legacy', '1.0.0', { dependencies: { core: '^2.0.0' } }),
+      createManifest('orphan', '1.0.0', {
+        dependencies: { missing: '^1.0.0' },
+        peerDependencies: { theme: '^1.0.0' },
+      }),
+      createManifest('broken', '1.0.0', { dependencies: { core: 'latest' } }),
+      createManifest('future', '1.0.0', { minEngineVersion: '2.0.0' }),
+    ])
+
+    expect(resolution.order).toEqual(['core', 'ui', 'app'])
+    expect(resolution.blocked).toEqual(['legacy', 'orphan', 'broken', 'future'])
+
+    const byPlugin = (pluginId: string) =>
+      resolution.diagnostics.filter((diagnostic) => diagnostic.pluginId === pluginId)
+    expect(byPlugin('legacy')).toEqual([
+      expect.objectContaining({ kind: 'version', dependency: 'core', actual: '1.4.3' }),
+    ])
+    // 冲突信息中列出其他插件的版本要求
+    expect(byPlugin('legacy')[0].message).toContain("'ui' requires ~1.4.0")
+    expect(byPlugin('orphan').map((diagnostic) => [diagnostic.kind, diagnostic.severity])).toEqual([
+      ['missing', 'error'],
+      ['missing', 'warning'],
+    ])
+    expect(byPlugin('broken')[0].kind).toBe('invalid-range')
+    expect(byPlugin('future')[0]).toMatchObject({ kind: 'engine', required: '2.0.0' })
+  })
+
+  it('should reject cycles and everything that depends on them', () => {
+    const resolution = resolver.resolve([
+      createManifest('a', '1.0.0', { dependencies: { b: '*' } }),
+      createManifest('b', '1.0.0', { peerDependencies: { c: '*' } }),
+      createManifest('c', '1.0.0', { dependencies: { a: '*' } }),
+      createManifest('d', '1.0.0', { dependencies: { c: '*' } }),
+      createManifest('e'),
+    ])
+
+    expect(resolution.order).toEqual(['e'])
+    expect(resolution.blocked.sort()).toEqual(['a', 'b', 'c', 'd'])
+    const cycle = resolution.diagnostics.find((diagnostic) => diagnostic.kind === 'cycle')
+    expect(cycle?.cycle).toEqual(['a', 'b', 'c', 'a'])
+    expect(cycle?.message).toBe('Circular plugin dependency: a → b → c → a')
+  })
+
+  it('should list transitive dependents outermost first', () => {
+    const manifests = [
+      createManifest('core'),
+      createManifest('ui', '1.0.0', { dependencies: { core: '*' } }),
+      createManifest('app', '1.0.0', { dependencies: { ui: '*' } }),
+      createManifest('theme', '1.0.0', { peerDependencies: { core: '*' } }),
+    ]
+    expect(resolver.getDependents(manifests, 'core')).toEqual(['app', 'ui', 'theme'])
+    expect(resolver.getDependents(manifests, 'app')).toEqual([])
+  })
+})
+
+describe('PluginManager dependencies', () => {
+  let pluginManager: PluginManager
+
+  beforeEach(() => {
+    calls = []
+    pluginManager = new PluginManager()
+  })
+
+  afterEach(async () => {
+    await pluginManager.dispose()
+  })
+
+  it('should activate dependencies first and expose their exported API', async () => {
+    let formatted: unknown
+    await pluginManager.loadPlugin(
+      createManifest('app', '1.0.0', { dependencies: { format: '^1.0.0' } }),
+      createPluginModule('app', (context) => {
+        const format = context.dependencies.get<{ upper: (text: string) => string }>('format')
+        formatted = format.upper('shape')
+        expect(context.dependencies.has('core')).toBe(false)
+        expect(() => context.dependencies.get('core')).toThrow(/does not declare a dependency/)
+      })
+    )
+    await pluginManager.loadPlugin(
+      createManifest('format', '1.3.0', { dependencies: { core: '^1.0.0' } }),
+      createPluginModule('format', () => ({ upper: (text: string) => text.toUpperCase() }))
+    )
+    await pluginManager.loadPlugin(createManifest('core', '1.0.0'), createPluginModule('core'))
+
+    await pluginManager.activatePlugin('app')
+
+    expect(calls).toEqual(['activate:core', 'activate:format', 'activate:app'])
+    expect(formatted).toBe('SHAPE')
+  })
+
+  it('should cascade deactivation to dependents', async () => {
+    await pluginManager.loadPlugin(createManifest('core'), createPluginModule('core'))
+    await pluginManager.loadPlugin(
+      createManifest('ui', '1.0.0', { dependencies: { core: '^1.0.0' } }),
+      createPluginModule('ui')
+    )
+    await pluginManager.loadPlugin(
+      createManifest('app', '1.0.0', { dependencies: { ui: '^1.0.0' } }),
+      createPluginModule('app')
+    )
+    await pluginManager.loadPlugin(createManifest('other'), createPluginModule('other'))
+    await pluginManager.activateAllPlugins()
+    calls = []
+
+    await pluginManager.deactivatePlugin('core')
+
+    expect(calls).toEqual(['deactivate:app', 'deactivate:ui', 'deactivate:core'])
+    expect(pluginManager.isPluginActive('other')).toBe(true)
+    expect(pluginManager.getPlugin('ui')?.exports).toBeUndefined()
+  })
+
+  it('should refuse to activate plugins with unmet dependencies', async () => {
+    const errors = vi.fn()
+    pluginManager.on('plugin:error', errors)
+    await pluginManager.loadPlugin(createManifest('core', '1.4.0'), createPluginModule('core'))
+    await pluginManager.loadPlugin(
+      createManifest('legacy', '1.0.0', { dependencies: { core: '^2.0.0' } }),
+      createPluginModule('legacy')
+    )
+
+    const error = await pluginManager.activatePlugin('legacy').catch((reason) => reason)
+
+    expect(error).toBeInstanceOf(PluginDependencyError)
+    expect(error.message).toContain("requires dependency 'core@^2.0.0', but 1.4.0 is loaded")
+    expect(error.diagnostics).toHaveLength(1)
+    expect(calls).toEqual([])
+    expect(pluginManager.getPluginStatus('legacy')).toBe(PluginStatus.LOADED)
+    expect(errors).toHaveBeenCalledWith('legacy', error)
+  })
+
+  it('should activate everything that resolves and report the rest', async () => {
+    const errors = vi.fn()
+    pluginManager.on('plugin:error', errors)
+    await pluginManager.loadPlugin(createManifest('core'), createPluginModule('core'))
+    await pluginManager.loadPlugin(
+      createManifest('ui', '1.0.0', { dependencies: { core: '^1.0.0' } }),
+      createPluginModule('ui')
+    )
+    await pluginManager.loadPlugin(
+      createManifest('orphan', '1.0.0', { dependencies: { missing: '^1.0.0' } }),
+      createPluginModule('orphan')
+    )
+    await pluginManager.loadPlugin(createManifest('disabled'), createPluginModule('disabled'))
+    await pluginManager.loadPlugin(
+      createManifest('needs-disabled', '1.0.0', { dependencies: { disabled: '*' } }),
+      createPluginModule('needs-disabled')
+    )
+    await pluginManager.disablePlugin('disabled')
+
+    const resolution = await pluginManager.activateAllPlugins()
+
+    expect(calls).toEqual(['activate:core', 'activate:ui'])
+    expect(resolution.blocked).toEqual(['orphan'])
+    expect(errors.mock.calls.map(([pluginId]) => pluginId)).toEqual(['orphan', 'needs-disabled'])
+    expect(errors.mock.calls[1][1].message).toMatch(/dependency 'disabled' is not active/)
+  })
+
+  it('should check the engine version when loading', async () => {
+    const manager = new PluginManager({ engineVersion: '1.5.0' })
+
+    await expect(
+      manager.loadPlugin(
+        createManifest('future', '1.0.0', { minEngineVersion: '2.0.0' }),
+        createPluginModule('future')
+      )
+    ).rejects.toThrow(/requires engine 2.0.0 or later, but the engine is 1.5.0/)
+    await manager.loadPlugin(
+      createManifest('current', '1.0.0', { minEngineVersion: '1.5.0' }),
+      createPluginModule('current')
+    )
+    expect(manager.getPluginStatus('current')).toBe(PluginStatus.LOADED)
+    await manager.dispose()
+  })
+
+  it('should reactivate dependents after updating a dependency', async () => {
+    await pluginManager.loadPlugin(createManifest('core'), createPluginModule('core'))
+    await pluginManager.loadPlugin(
+      createManifest('ui', '1.0.0', { dependencies: { core: '^1.0.0' } }),
+      createPluginModule('ui')
+    )
+    await pluginManager.activatePlugin('ui')
+    calls = []
+
+    await pluginManager.updatePlugin(
+      'core',
+      createManifest('core', '1.1.0'),
+      createPluginModule('core')
+    )
+
+    expect(calls).toEqual(['deactivate:ui', 'deactivate:core', 'activate:core', 'activate:ui'])
+    expect(pluginManager.isPluginActive('ui')).toBe(true)
+  })
+})
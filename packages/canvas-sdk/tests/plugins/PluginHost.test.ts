@@ -0,0 +1,446 @@
+/**
+ * 隔离插件宿主单元测试：API 代理、边界权限检查、插件导出、超时与心跳终止、全局对象屏蔽
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { PluginManager } from '../../src/plugins/core/PluginManager'
+import {
+  createInProcessEndpoint,
+  createWorkerEndpoint,
+} from '../../src/plugins/host/PluginEndpoints'
+import { restrictGlobals } from '../../src/plugins/host/PluginGuest'
+import {
+  PluginPermissionError,
+  PluginTerminatedError,
+  PluginTimeoutError,
+} from '../../src/plugins/host/PluginHostProtocol'
+import {
+  type Plugin,
+  type PluginContext,
+  type PluginManifest,
+  PluginPermission,
+  PluginStatus,
+} from '../../src/plugins/types/PluginTypes'
+
+function createManifest(id: string, permissions: PluginPermission[]): PluginManifest {
+  return {
+    id,
+    name: `Isolated ${id}`,
+    version: '1.0.0',
+    description: 'An isolated test plugin',
+    author: 'Test Author',
+    license: 'MIT',
+    main: 'index.js',
+    minEngineVersion: '1.0.0',
+    permissions,
+    extensionPoints: [],
+    keywords: [],
+  }
+}
+
+/** 插件一端的调用结果，每个测试前清空 */
+let outcomes: Array<{ path: string; value?: unknown; error?: Error }> = []
+
+async function attempt(path: string, run: () => unknown): Promise<void> {
+  try {
+    outcomes.push({ path, value: await run() })
+  } catch (error) {
+    outcomes.push({ path, error: error as Error })
+  }
+}
+
+class ShapePlugin implements Plugin {
+  async activate(context: PluginContext): Promise<void> {
+    const api = context.api as unknown as Record<
+      string,
+      Record<string, (...args: unknown[]) => unknown>
+    >
+    await attempt('api.canvas.addShape', () => api.canvas.addShape({ id: 'shape-1', type: 'rect' }))
+    await attempt('api.canvas.getShapes', () => api.canvas.getShapes())
+    await attempt('api.ui.showNotification', () =>
+      api.ui.showNotification({ type: 'info', title: 'hi', message: 'hi' })
+    )
+    await attempt('api.fileSystem.readFile', () => api.fileSystem.readFile('/etc/passwd'))
+    await attempt('api.canvas.constructor', () => api.canvas.constructor())
+    await attempt('api.canvas.getViewport', () => api.canvas.getViewport())
+    await attempt('resources.getAssetUrl', () => context.resources.getAssetUrl('icon.png'))
+    await attempt('resources.loadAsset', () => context.resources.loadAsset('icon.png'))
+    await attempt('resources.cleanup', () => context.resources.cleanup())
+    await attempt('api.tools.register', () => api.tools.register({ id: 'tool', onClick: () => {} }))
+    await attempt('config.set', () => context.config.set('color', 'red'))
+    await attempt('config.get', () => context.config.get('color'))
+  }
+
+  async deactivate(): Promise<void> {}
+}
+
+class PalettePlugin implements Plugin {
+  async activate(): Promise<unknown> {
+    return { colors: ['#ff0000', '#00ff00'] }
+  }
+
+  async deactivate(): Promise<void> {}
+}
+
+class FunctionExportPlugin implements Plugin {
+  async activate(): Promise<unknown> {
+    return { format: (value: string) => value.toUpperCase() }
+  }
+
+  async deactivate(): Promise<void> {}
+}
+
+class PaletteConsumerPlugin implements Plugin {
+  async activate(context: PluginContext): Promise<void> {
+    await attempt('dependencies.get', () => context.dependencies.get('palette'))
+  }
+
+  async deactivate(): Promise<void> {}
+}
+
+class HangingPlugin implements Plugin {
+  activate(): Promise<void> {
+    return new Promise(() => {})
+  }
+
+  async deactivate(): Promise<void> {}
+}
+
+class HangingUninstallPlugin implements Plugin {
+  async activate(): Promise<void> {}
+
+  async deactivate(): Promise<void> {}
+
+  onUninstall(): Promise<void> {
+    return new Promise(() => {})
+  }
+}
+
+describe('Isolated plugin host', () => {
+  let pluginManager: PluginManager
+
+  beforeEach(() => {
+    outcomes = []
+    localStorage.clear()
+    pluginManager = new PluginManager()
+  })
+
+  afterEach(async () => {
+    await pluginManager.dispose()
+    vi.useRealTimers()
+  })
+
+  it('should proxy API calls and check them against declared and granted permissions', async () => {
+    const manifest = createManifest('shape-plugin', [
+      PluginPermission.READ_ONLY,
+      PluginPermission.CANVAS_MODIFY,
+      PluginPermission.UI_MODIFY,
+    ])
+    const permissionManager = pluginManager.getPermissionManager()
+    permissionManager.grantPermission('shape-plugin', PluginPermission.CANVAS_MODIFY)
+    // 模拟权限表中漏登记的 API
+    const getRequired = permissionManager.getRequiredPermissionForAPI.bind(permissionManager)
+    vi.spyOn(permissionManager, 'getRequiredPermissionForAPI').mockImplementation((apiPath) =>
+      apiPath === 'canvas.getViewport' ? null : getRequired(apiPath)
+    )
+    const added = vi.fn()
+    window.addEventListener('plugin:addShape', added)
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+
+    await pluginManager.loadIsolatedPlugin(manifest, {
+      endpoint: createInProcessEndpoint({ default: ShapePlugin }),
+    })
+    await pluginManager.activatePlugin('shape-plugin')
+    window.removeEventListener('plugin:addShape', added)
+
+    expect(pluginManager.isPluginIsolated('shape-plugin')).toBe(true)
+    expect(pluginManager.getPluginStatus('shape-plugin')).toBe(PluginStatus.ACTIVE)
+    expect(added).toHaveBeenCalledTimes(1)
+    expect((added.mock.calls[0][0] as CustomEvent).detail).toEqual({
+      shape: { id: 'shape-1', type: 'rect' },
+      pluginId: 'shape-plugin',
+    })
+
+    const byPath = Object.fromEntries(outcomes.map((outcome) => [outcome.path, outcome]))
+    expect(byPath['api.canvas.addShape'].error).toBeUndefined()
+    expect(byPath['api.canvas.getShapes'].error).toBeUndefined()
+    // 声明但未授予
+    expect(byPath['api.ui.showNotification'].error).toBeInstanceOf(PluginPermissionError)
+    expect(byPath['api.ui.showNotification'].error?.message).toMatch(/not been granted/)
+    // 未声明
+    expect(byPath['api.fileSystem.readFile'].error).toBeInstanceOf(PluginPermissionError)
+    expect(byPath['api.fileSystem.readFile'].error?.message).toMatch(/did not declare/)
+    // 不在 API 表中的路径
+    expect(byPath['api.canvas.constructor'].error).toBeInstanceOf(PluginPermissionError)
+    expect(byPath['resources.cleanup'].error).toBeInstanceOf(PluginPermissionError)
+    // 未登记权限的 API 不放行
+    expect(byPath['api.canvas.getViewport'].error?.message).toMatch(/no registered permission/)
+    expect(byPath['resources.getAssetUrl'].value).toBe('/plugins/shape-plugin/assets/icon.png')
+    // 加载资源会发起网络请求，需要网络权限
+    expect(byPath['resources.loadAsset'].error?.message).toMatch(/'network_access' permission/)
+    expect(fetchSpy).not.toHaveBeenCalled()
+    // 函数不能跨越边界
+    expect(byPath['api.tools.register'].error?.name).toBe('DataCloneError')
+    expect(byPath['config.get'].value).toBe('red')
+  })
+
+  it('should check context methods against permissions except for logging', async () => {
+    class ContextPlugin implements Plugin {
+      async activate(context: PluginContext): Promise<void> {
+        await attempt('logger.info', () => context.logger.info('hello'))
+        await attempt('config.set', () => context.config.set('color', 'red'))
+        await attempt('dependencies.has', () => context.dependencies.has('palette'))
+      }
+
+      async deactivate(): Promise<void> {}
+    }
+    await pluginManager.loadIsolatedPlugin(createManifest('context-plugin', []), {
+      endpoint: createInProcessEndpoint({ default: ContextPlugin }),
+    })
+    await pluginManager.activatePlugin('context-plugin')
+
+    expect(outcomes.map((outcome) => [outcome.path, outcome.error?.name])).toEqual([
+      ['logger.info', undefined],
+      ['config.set', 'PluginPermissionError'],
+      ['dependencies.has', 'PluginPermissionError'],
+    ])
+    expect(localStorage.getItem('plugin_config_context-plugin')).toBeNull()
+  })
+
+  it('should resolve the exported API of an isolated dependency', async () => {
+    const readOnly = [PluginPermission.READ_ONLY]
+    await pluginManager.loadIsolatedPlugin(createManifest('palette', readOnly), {
+      endpoint: createInProcessEndpoint({ default: PalettePlugin }),
+    })
+    await pluginManager.loadIsolatedPlugin(
+      { ...createManifest('consumer', readOnly), dependencies: { palette: '^1.0.0' } },
+      { endpoint: createInProcessEndpoint({ default: PaletteConsumerPlugin }) }
+    )
+
+    await pluginManager.activatePlugin('consumer')
+
+    expect(pluginManager.getPluginExports('consumer', 'palette')).toEqual({
+      colors: ['#ff0000', '#00ff00'],
+    })
+    expect(outcomes).toEqual([
+      { path: 'dependencies.get', value: { colors: ['#ff0000', '#00ff00'] } },
+    ])
+  })
+
+  it('should reject exports that cannot cross the isolation boundary', async () => {
+    await pluginManager.loadIsolatedPlugin(createManifest('formatter', []), {
+      endpoint: createInProcessEndpoint({ default: FunctionExportPlugin }),
+    })
+
+    await expect(pluginManager.activatePlugin('formatter')).rejects.toThrow(
+      "Plugin 'formatter' exports from activate() must be structured-cloneable"
+    )
+    expect(pluginManager.getPluginStatus('formatter')).toBe(PluginStatus.ERROR)
+  })
+
+  it('should refuse to load plugins that request permissions which cannot be granted', async () => {
+    const errors = vi.fn()
+    pluginManager.on('plugin:error', errors)
+
+    await expect(
+      pluginManager.loadIsolatedPlugin(
+        createManifest('system-plugin', [PluginPermission.SYSTEM_ACCESS]),
+        {
+          endpoint: createInProcessEndpoint({ default: ShapePlugin }),
+        }
+      )
+    ).rejects.toBeInstanceOf(PluginPermissionError)
+
+    expect(pluginManager.getPluginStatus('system-plugin')).toBe(PluginStatus.ERROR)
+    expect(pluginManager.isPluginIsolated('system-plugin')).toBe(false)
+    expect(errors).toHaveBeenCalledTimes(1)
+  })
+
+  it('should terminate a plugin whose activation times out without affecting others', async () => {
+    vi.useFakeTimers()
+    const errors = vi.fn()
+    pluginManager.on('plugin:error', errors)
+    const readOnly = [PluginPermission.READ_ONLY]
+
+    await pluginManager.loadIsolatedPlugin(createManifest('hanging-plugin', readOnly), {
+      endpoint: createInProcessEndpoint({ default: HangingPlugin }),
+      timeout: 1000,
+    })
+    await pluginManager.loadIsolatedPlugin(createManifest('healthy-plugin', readOnly), {
+      endpoint: createInProcessEndpoint({ default: ShapePlugin }),
+    })
+
+    const activation = pluginManager.activatePlugin('hanging-plugin')
+    const rejection = expect(activation).rejects.toBeInstanceOf(PluginTimeoutError)
+    await vi.advanceTimersByTimeAsync(1000)
+    await rejection
+
+    expect(pluginManager.getPluginStatus('hanging-plugin')).toBe(PluginStatus.ERROR)
+    expect(errors).toHaveBeenCalledTimes(1)
+    expect(errors.mock.calls[0][1]).toBeInstanceOf(PluginTimeoutError)
+
+    await pluginManager.activatePlugin('healthy-plugin')
+    expect(pluginManager.getPluginStatus('healthy-plugin')).toBe(PluginStatus.ACTIVE)
+
+    // 已终止的插件可以直接卸载
+    await pluginManager.unloadPlugin('hanging-plugin')
+    expect(pluginManager.hasPlugin('hanging-plugin')).toBe(false)
+  })
+
+  it('should report a hanging uninstall hook once and still free the plugin', async () => {
+    vi.useFakeTimers()
+    const errors = vi.fn()
+    pluginManager.on('plugin:error', errors)
+
+    await pluginManager.loadIsolatedPlugin(createManifest('stuck-plugin', []), {
+      endpoint: createInProcessEndpoint({ default: HangingUninstallPlugin }),
+      timeout: 500,
+    })
+    const unload = pluginManager.unloadPlugin('stuck-plugin')
+    const rejection = expect(unload).rejects.toBeInstanceOf(PluginTimeoutError)
+    await vi.advanceTimersByTimeAsync(500)
+    await rejection
+
+    expect(errors).toHaveBeenCalledTimes(1)
+    await pluginManager.unloadPlugin('stuck-plugin')
+    expect(pluginManager.hasPlugin('stuck-plugin')).toBe(false)
+  })
+
+  it('should terminate a running plugin on request', async () => {
+    const errors = vi.fn()
+    pluginManager.on('plugin:error', errors)
+    await pluginManager.loadIsolatedPlugin(createManifest('shape-plugin', []), {
+      endpoint: createInProcessEndpoint({ default: ShapePlugin }),
+    })
+    await pluginManager.activatePlugin('shape-plugin')
+
+    pluginManager.terminatePlugin('shape-plugin')
+
+    expect(pluginManager.getPluginStatus('shape-plugin')).toBe(PluginStatus.ERROR)
+    expect(errors.mock.calls[0][1]).toBeInstanceOf(PluginTerminatedError)
+    await expect(pluginManager.activatePlugin('shape-plugin')).rejects.toThrow(
+      /cannot be activated/
+    )
+  })
+
+  it('should keep an updated plugin isolated', async () => {
+    const hostRealm = vi.fn()
+    class UpdatedPalettePlugin implements Plugin {
+      async activate(): Promise<unknown> {
+        return { colors: ['#0000ff'] }
+      }
+
+      async deactivate(): Promise<void> {}
+    }
+    class HostRealmPlugin extends UpdatedPalettePlugin {
+      constructor() {
+        super()
+        hostRealm()
+      }
+    }
+    await pluginManager.loadIsolatedPlugin(createManifest('palette', []), {
+      endpoint: createInProcessEndpoint({ default: PalettePlugin }),
+    })
+    await pluginManager.activatePlugin('palette')
+
+    await pluginManager.updatePlugin(
+      'palette',
+      { ...createManifest('palette', []), version: '1.1.0' },
+      { default: HostRealmPlugin },
+      { endpoint: createInProcessEndpoint({ default: UpdatedPalettePlugin }) }
+    )
+
+    expect(pluginManager.isPluginIsolated('palette')).toBe(true)
+    expect(pluginManager.getPluginStatus('palette')).toBe(PluginStatus.ACTIVE)
+    expect(pluginManager.getPlugin('palette')?.manifest.version).toBe('1.1.0')
+    expect(pluginManager.getPlugin('palette')?.exports).toEqual({ colors: ['#0000ff'] })
+    expect(hostRealm).not.toHaveBeenCalled()
+  })
+
+  it('should terminate a plugin that stops answering heartbeats', async () => {
+    vi.useFakeTimers()
+    const errors = vi.fn()
+    pluginManager.on('plugin:error', errors)
+    // 应答初始化与生命周期调用，但像陷入死循环一样不应答心跳
+    const worker = Object.assign(new EventTarget(), {
+      postMessage: vi.fn((message: { type: string; id: number }) => {
+        if (message.type === 'ping') return
+        queueMicrotask(() =>
+          worker.dispatchEvent(
+            new MessageEvent('message', { data: { type: 'result', id: message.id } })
+          )
+        )
+      }),
+      terminate: vi.fn(),
+    })
+
+    await pluginManager.loadIsolatedPlugin(createManifest('busy-plugin', []), {
+      endpoint: createWorkerEndpoint(worker as unknown as Worker),
+      timeout: 500,
+      heartbeatInterval: 1000,
+    })
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(worker.postMessage).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'ping' }))
+    expect(worker.terminate).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(worker.terminate).toHaveBeenCalled()
+    expect(pluginManager.getPluginStatus('busy-plugin')).toBe(PluginStatus.ERROR)
+    expect(errors.mock.calls[0][1]).toBeInstanceOf(PluginTimeoutError)
+  })
+
+  it('should keep responsive plugins alive across heartbeats', async () => {
+    vi.useFakeTimers()
+    await pluginManager.loadIsolatedPlugin(createManifest('palette', []), {
+      endpoint: createInProcessEndpoint({ default: PalettePlugin }),
+      timeout: 500,
+      heartbeatInterval: 1000,
+    })
+    await pluginManager.activatePlugin('palette')
+
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(pluginManager.getPluginStatus('palette')).toBe(PluginStatus.ACTIVE)
+  })
+
+  it('should replace network and storage globals in the plugin thread', () => {
+    const originalFetch = vi.fn()
+    const workerPrototype = { fetch: originalFetch, indexedDB: {} }
+    const scope = Object.create(workerPrototype) as Record<string, unknown>
+
+    restrictGlobals(scope)
+
+    expect(Object.getPrototypeOf(scope).fetch).toBeUndefined()
+    expect(Object.getPrototypeOf(scope).indexedDB).toBeUndefined()
+    expect(() => (scope.fetch as () => void)()).toThrow(PluginPermissionError)
+    expect(() => (scope.indexedDB as () => void)()).toThrow(/not available to isolated plugins/)
+    // 替身不可改写
+    expect(() => {
+      scope.fetch = originalFetch
+    }).toThrow(TypeError)
+    expect(originalFetch).not.toHaveBeenCalled()
+  })
+
+  it('should terminate the worker when it reports an uncaught error', async () => {
+    const worker = Object.assign(new EventTarget(), {
+      postMessage: vi.fn(),
+      terminate: vi.fn(),
+    })
+    const errors = vi.fn()
+    pluginManager.on('plugin:error', errors)
+
+    const loading = pluginManager.loadIsolatedPlugin(createManifest('worker-plugin', []), {
+      endpoint: createWorkerEndpoint(worker as unknown as Worker),
+      moduleUrl: 'https://plugins.example/worker-plugin.js',
+    })
+    await vi.waitFor(() => expect(worker.postMessage).toHaveBeenCalled())
+    expect(worker.postMessage.mock.calls[0][0]).toMatchObject({
+      type: 'init',
+      moduleUrl: 'https://plugins.example/worker-plugin.js',
+    })
+
+    worker.dispatchEvent(Object.assign(new Event('error'), { message: 'boom' }))
+    await expect(loading).rejects.toThrow('boom')
+    expect(worker.terminate).toHaveBeenCalled()
+    expect(errors).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,287 @@
+/**
+ * 自动保存单元测试：增量写入、撤销后的整体比较、会话恢复与还原点
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CanvasManager } from '../../src/managers/CanvasManager'
+import { DocumentManager } from '../../src/managers/DocumentManager'
+import { SceneManager } from '../../src/managers/SceneManager'
+import { TimelineManager } from '../../src/managers/TimelineManager'
+import { ShapeEntityFactory } from '../../src/models/entities/Shape'
+import { AutosaveService } from '../../src/services/autosave/autosaveService'
+import { MemoryAutosaveStorage } from '../../src/services/autosave/autosaveStorage'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import { ConfigurationService } from '../../src/services/configuration/configurationService'
+import { ExportService } from '../../src/services/export/exportService'
+import { HistoryService } from '../../src/services/history/historyService'
+import { LogService } from '../../src/services/logging/logService'
+import { CanvasRenderingService } from '../../src/services/rendering/renderingService'
+import { SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+
+/**
+ * 创建一套画布环境，相同的存储模拟同一浏览器中的多次打开
+ */
+function createEnvironment(storage: MemoryAutosaveStorage) {
+  const logService = new LogService()
+  const shapeService = new ShapeService()
+  const historyService = new HistoryService(logService)
+  const renderingService = new CanvasRenderingService(logService)
+  const configurationService = new ConfigurationService()
+  vi.spyOn(renderingService, 'getRenderEngine').mockReturnValue(undefined as never)
+
+  const canvasManager = new CanvasManager(
+    logService,
+    shapeService,
+    new SelectionService(),
+    new ClipboardService(),
+    historyService,
+    new ZIndexService(logService),
+    renderingService
+  )
+  const sceneManager = new SceneManager(
+    canvasManager,
+    renderingService,
+    logService,
+    configurationService
+  )
+  const documentManager = new DocumentManager(
+    canvasManager,
+    sceneManager,
+    shapeService,
+    historyService,
+    renderingService,
+    new TimelineManager(canvasManager, shapeService, renderingService, logService),
+    new ExportService(),
+    logService
+  )
+  const autosave = new AutosaveService(
+    canvasManager,
+    documentManager,
+    shapeService,
+    storage,
+    configurationService,
+    logService
+  )
+  return {
+    shapeService,
+    canvasManager,
+    sceneManager,
+    documentManager,
+    configurationService,
+    logService,
+    autosave,
+  }
+}
+
+const createBox = (x: number) =>
+  ShapeEntityFactory.createRectangle({ x, y: 0 }, { width: 40, height: 40 }, { fillColor: '#f00' })
+
+describe('AutosaveService', () => {
+  let storage: MemoryAutosaveStorage
+  let env: ReturnType<typeof createEnvironment>
+
+  /** 等待防抖结束并完成写入 */
+  const settle = async () => {
+    await vi.advanceTimersByTimeAsync(1000)
+    await env.autosave.flush()
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    storage = new MemoryAutosaveStorage()
+    env = createEnvironment(storage)
+    env.autosave.start()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should debounce changes and only rewrite the shapes that changed', async () => {
+    const write = vi.spyOn(storage, 'write')
+    const a = createBox(0)
+    const b = createBox(100)
+    env.canvasManager.addShape(a)
+    env.canvasManager.addShape(b)
+    await vi.advanceTimersByTimeAsync(500)
+    expect(write).not.toHaveBeenCalled()
+
+    await settle()
+    expect(write).toHaveBeenCalledTimes(1)
+    const prefix = `${env.autosave.sessionId}/`
+    expect(await storage.keys('shapes', prefix)).toEqual(
+      [`${prefix}${a.id}`, `${prefix}${b.id}`].sort()
+    )
+
+    write.mockClear()
+    env.canvasManager.updateShape(a.id, { style: { ...a.style, fillColor: '#0f0' } })
+    env.canvasManager.removeShape(b.id)
+    await settle()
+    expect(write).toHaveBeenCalledTimes(1)
+    expect(write.mock.calls[0][0].map(({ type, store, key }) => [type, store, key])).toEqual([
+      ['put', 'shapes', `${prefix}${a.id}`],
+      ['delete', 'shapes', `${prefix}${b.id}`],
+      ['put', 'sessions', env.autosave.sessionId],
+    ])
+  })
+
+  it('should compare every shape after an undo and skip unchanged ones', async () => {
+    const a = createBox(0)
+    env.canvasManager.addShape(a)
+    env.canvasManager.stopHistoryMerging()
+    env.canvasManager.addShape(createBox(100))
+    await settle()
+
+    const write = vi.spyOn(storage, 'write')
+    env.canvasManager.undo()
+    await settle()
+    const operations = write.mock.calls[0][0]
+    expect(operations.filter((operation) => operation.store === 'shapes')).toHaveLength(1)
+    expect(operations[0].type).toBe('delete')
+    expect(await storage.keys('shapes', `${env.autosave.sessionId}/`)).toEqual([
+      `${env.autosave.sessionId}/${a.id}`,
+    ])
+  })
+
+  it('should offer the last unsaved session after a reload and recover it with its history', async () => {
+    const a = createBox(0)
+    env.canvasManager.addShape(a)
+    env.canvasManager.stopHistoryMerging()
+    env.canvasManager.updateShape(a.id, { style: { ...a.style, fillColor: '#0f0' } })
+    env.sceneManager.setBackgroundColor('#202020')
+    env.canvasManager.addShape(createBox(100))
+    await settle()
+    const previousId = env.autosave.sessionId
+
+    const next = createEnvironment(storage)
+    next.autosave.start()
+    const session = await next.autosave.getRecoverableSession()
+    expect(session).toMatchObject({ id: previousId, unsaved: true, shapeCount: 2 })
+
+    const result = await next.autosave.recoverSession(previousId)
+    expect(result.success).toBe(true)
+    expect(result.historyRestored).toBe(true)
+    expect(next.shapeService.getShapeEntity(a.id)?.style.fillColor).toBe('#0f0')
+    expect(next.sceneManager.getSceneState().backgroundColor).toBe('#202020')
+    next.canvasManager.goToHistory(0)
+    expect(next.shapeService.getShapeEntity(a.id)?.style.fillColor).toBe('#f00')
+
+    // 恢复后旧会话被删除，跳转后的内容写入新会话
+    expect(await storage.get('sessions', previousId)).toBeUndefined()
+    expect(await storage.keys('shapes', `${previousId}/`)).toEqual([])
+    await vi.advanceTimersByTimeAsync(1000)
+    await next.autosave.flush()
+    expect(await storage.keys('shapes', `${next.autosave.sessionId}/`)).toEqual([
+      `${next.autosave.sessionId}/${a.id}`,
+    ])
+  })
+
+  it('should not offer sessions that were saved and prune older ones on start', async () => {
+    env.canvasManager.addShape(createBox(0))
+    await settle()
+    await env.autosave.markSaved()
+
+    const second = createEnvironment(storage)
+    second.autosave.start()
+    expect(await second.autosave.getRecoverableSession()).toBeNull()
+    expect(await storage.keys('sessions')).toEqual([])
+
+    second.canvasManager.addShape(createBox(0))
+    await vi.advanceTimersByTimeAsync(1000)
+    await second.autosave.flush()
+    vi.advanceTimersByTime(1000)
+    const third = createEnvironment(storage)
+    third.canvasManager.addShape(createBox(0))
+    third.autosave.start()
+    third.canvasManager.updateShape(third.shapeService.getAllShapeEntities()[0].id, {
+      visible: false,
+    })
+    await vi.advanceTimersByTimeAsync(1000)
+    await third.autosave.flush()
+
+    const fourth = createEnvironment(storage)
+    fourth.autosave.start()
+    expect((await fourth.autosave.getRecoverableSession())?.id).toBe(third.autosave.sessionId)
+    expect(await storage.keys('sessions')).toEqual([third.autosave.sessionId])
+  })
+
+  it('should mark the session saved when the document is saved or exported', async () => {
+    env.canvasManager.addShape(createBox(0))
+    await settle()
+    const unsaved = async () =>
+      (await storage.get<{ unsaved: boolean }>('sessions', env.autosave.sessionId))?.unsaved
+
+    await env.documentManager.save()
+    await vi.waitFor(async () => expect(await unsaved()).toBe(false))
+    expect(await createEnvironment(storage).autosave.getRecoverableSession()).toBeNull()
+
+    // 保存后的修改重新需要恢复，只导出选中内容不算保存
+    env.canvasManager.addShape(createBox(100))
+    await settle()
+    env.documentManager.exportToSVG({ selectionOnly: true })
+    await env.autosave.flush()
+    expect(await unsaved()).toBe(true)
+
+    env.documentManager.exportToSVG()
+    await vi.waitFor(async () => expect(await unsaved()).toBe(false))
+  })
+
+  it('should keep a bounded list of named restore points', async () => {
+    env.configurationService.set('autosave.maxRestorePoints', 2)
+    const a = createBox(0)
+    env.canvasManager.addShape(a)
+    const first = await env.autosave.createRestorePoint('First draft')
+    vi.advanceTimersByTime(1000)
+    env.canvasManager.updateShape(a.id, { style: { ...a.style, fillColor: '#0f0' } })
+    await env.autosave.createRestorePoint('Green')
+    vi.advanceTimersByTime(1000)
+    env.canvasManager.addShape(createBox(100))
+    await env.autosave.createRestorePoint('Two boxes')
+
+    const points = await env.autosave.listRestorePoints()
+    expect(points.map((point) => [point.name, point.shapeCount])).toEqual([
+      ['Two boxes', 2],
+      ['Green', 1],
+    ])
+    expect((await env.autosave.restoreRestorePoint(first.id)).success).toBe(false)
+
+    const result = await env.autosave.restoreRestorePoint(points[1].id)
+    expect(result.success).toBe(true)
+    expect(env.shapeService.getAllShapeEntities()).toHaveLength(1)
+    expect(env.shapeService.getShapeEntity(a.id)?.style.fillColor).toBe('#0f0')
+
+    await env.autosave.deleteRestorePoint(points[0].id)
+    expect((await env.autosave.listRestorePoints()).map((point) => point.name)).toEqual(['Green'])
+  })
+
+  it('should log a failed write and retry the same shapes on the next flush', async () => {
+    const warn = vi.spyOn(env.logService, 'warn')
+    const write = vi.spyOn(storage, 'write').mockRejectedValueOnce(new Error('QuotaExceededError'))
+    const a = createBox(0)
+    env.canvasManager.addShape(a)
+    await settle()
+    expect(warn).toHaveBeenCalledWith('Autosave failed', expect.any(Error))
+
+    env.sceneManager.setBackgroundColor('#303030')
+    env.canvasManager.addShape(createBox(100))
+    await settle()
+    expect(write).toHaveBeenCalledTimes(2)
+    expect(await storage.keys('shapes', `${env.autosave.sessionId}/`)).toContain(
+      `${env.autosave.sessionId}/${a.id}`
+    )
+  })
+
+  it('should stop listening and flush pending changes on stop', async () => {
+    env.canvasManager.addShape(createBox(0))
+    await env.autosave.stop()
+    expect(env.autosave.isRunning()).toBe(false)
+    expect(await storage.keys('shapes', `${env.autosave.sessionId}/`)).toHaveLength(1)
+
+    env.canvasManager.addShape(createBox(100))
+    await settle()
+    expect(await storage.keys('shapes', `${env.autosave.sessionId}/`)).toHaveLength(1)
+  })
+})
@@ -0,0 +1,375 @@
+/**
+ * 协作单元测试：CRDT 收敛、经同步服务器的多客户端编辑、只回退自己操作的撤销、重连补发，
+ * 以及由指针移动驱动、在渲染覆盖层中绘制的在线状态
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { CanvasManager } from '../../src/managers/CanvasManager'
+import { SceneManager } from '../../src/managers/SceneManager'
+import { ShapeEntityFactory } from '../../src/models/entities/Shape'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import { CollaborationService } from '../../src/services/collaboration/collaborationService'
+import { CrdtDocument } from '../../src/services/collaboration/crdtDocument'
+import {
+  createInMemoryTransportPair,
+  type IWebSocketLike,
+  SyncServer,
+  WebSocketSyncTransport,
+} from '../../src/services/collaboration/syncProtocol'
+import { ConfigurationService } from '../../src/services/configuration/configurationService'
+import { HistoryService } from '../../src/services/history/historyService'
+import { InteractionService } from '../../src/services/interaction/interactionService'
+import { LogService } from '../../src/services/logging/logService'
+import { CanvasRenderingService } from '../../src/services/rendering/renderingService'
+import { SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+import { PresenceView } from '../../src/views/PresenceView'
+
+/** 等待消息经服务器转发完毕 */
+const settle = async () => {
+  for (let i = 0; i < 10; i++) await new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+describe('CrdtDocument', () => {
+  it('should converge regardless of delivery order and ignore duplicates', () => {
+    const a = new CrdtDocument('a')
+    const b = new CrdtDocument('b')
+    const create = a.create('shapes', 's1', { x: 0, color: 'red' })
+    b.apply([create])
+
+    // 并发修改同一字段与不同字段
+    const fromA = [a.update('shapes', 's1', { x: 10 }), a.update('shapes', 's1', { color: 'blue' })]
+    const fromB = [b.update('shapes', 's1', { x: 20, size: 5 })]
+    const changes = b.apply([fromA[1], fromA[0], fromA[1]]).changes
+    a.apply(fromB)
+
+    expect(a.get('shapes', 's1')).toEqual(b.get('shapes', 's1'))
+    expect(a.get('shapes', 's1')).toMatchObject({ color: 'blue', size: 5 })
+    expect(changes).toEqual([
+      { collection: 'shapes', id: 's1', type: 'updated', fields: expect.any(Array) },
+    ])
+    expect(b.getStateVector()).toEqual({ a: 3, b: 1 })
+  })
+
+  it('should resolve a concurrent delete and edit by the later clock', () => {
+    const a = new CrdtDocument('a')
+    const b = new CrdtDocument('b')
+    b.apply([a.create('layers', 'l1', { name: 'Top' })])
+    const removed = a.delete('layers', 'l1')
+    const renamed = b.update('layers', 'l1', { name: 'Renamed' })
+    const revived = b.create('layers', 'l1', { name: 'Revived' })
+    a.apply([renamed, revived])
+    b.apply([removed])
+
+    expect(a.entries('layers')).toEqual(b.entries('layers'))
+    expect(a.get('layers', 'l1')).toEqual({ name: 'Revived' })
+    expect(a.getOperationsSince({ a: 2 })).toEqual([renamed, revived])
+  })
+})
+
+function createClient(server: SyncServer, name: string) {
+  const logService = new LogService()
+  const shapeService = new ShapeService()
+  const renderingService = new CanvasRenderingService(logService)
+  const addOverlay = vi.spyOn(renderingService, 'addOverlay')
+  const interactionService = new InteractionService(logService)
+  const configurationService = new ConfigurationService()
+  configurationService.set('collaboration.presenceInterval', 0)
+  const selectionService = new SelectionService()
+  const canvasManager = new CanvasManager(
+    logService,
+    shapeService,
+    selectionService,
+    new ClipboardService(),
+    new HistoryService(logService),
+    new ZIndexService(logService),
+    renderingService
+  )
+  const sceneManager = new SceneManager(
+    canvasManager,
+    renderingService,
+    logService,
+    configurationService
+  )
+  const collaboration = new CollaborationService(
+    canvasManager,
+    sceneManager,
+    shapeService,
+    configurationService,
+    interactionService,
+    renderingService,
+    logService
+  )
+  const connect = () => {
+    const [client, remote] = createInMemoryTransportPair()
+    server.accept(remote)
+    collaboration.connect(client, { name })
+  }
+  connect()
+  return {
+    shapeService,
+    canvasManager,
+    sceneManager,
+    interactionService,
+    renderingService,
+    addOverlay,
+    collaboration,
+    connect,
+  }
+}
+
+const createBox = (x: number) =>
+  ShapeEntityFactory.createRectangle({ x, y: 0 }, { width: 40, height: 40 }, { fillColor: '#f00' })
+
+describe('CollaborationService', () => {
+  const clients: Array<ReturnType<typeof createClient>> = []
+  const join = (server: SyncServer, name: string) => {
+    const client = createClient(server, name)
+    clients.push(client)
+    return client
+  }
+  const snapshot = (client: ReturnType<typeof createClient>) =>
+    client.shapeService
+      .getAllShapeEntities()
+      .map(({ id, transform, style }) => ({ id, position: transform.position, style }))
+      .sort((a, b) => a.id.localeCompare(b.id))
+
+  afterEach(() => {
+    for (const client of clients.splice(0)) client.collaboration.dispose()
+  })
+
+  it('should share shapes and layers and merge concurrent edits to different fields', async () => {
+    const server = new SyncServer()
+    const alice = join(server, 'Alice')
+    const bob = join(server, 'Bob')
+    await settle()
+
+    const box = createBox(0)
+    alice.canvasManager.addShape(box)
+    const layer = alice.sceneManager.createLayer('Notes')
+    alice.sceneManager.moveShapeToLayer(box.id, layer.id)
+    await settle()
+
+    expect(bob.shapeService.getShapeEntity(box.id)?.style.fillColor).toBe('#f00')
+    expect(bob.sceneManager.getShapeLayer(box.id)?.name).toBe('Notes')
+    // 远程变更不进入撤销栈
+    expect(bob.canvasManager.getStats().history.canUndo).toBe(false)
+
+    alice.canvasManager.updateShape(box.id, {
+      transform: { ...box.transform, position: { x: 50, y: 50 } },
+    })
+    const bobBox = bob.shapeService.getShapeEntity(box.id)
+    expect(bobBox).toBeDefined()
+    if (!bobBox) return
+    bob.canvasManager.updateShape(box.id, { style: { ...bobBox.style, fillColor: '#00f' } })
+    await settle()
+
+    expect(snapshot(alice)).toEqual(snapshot(bob))
+    expect(snapshot(alice)[0]).toMatchObject({
+      position: { x: 50, y: 50 },
+      style: { fillColor: '#00f' },
+    })
+    expect(server.document.get('shapes', box.id)).toMatchObject({ style: { fillColor: '#00f' } })
+  })
+
+  it('should only revert your own operations on undo', async () => {
+    const server = new SyncServer()
+    const alice = join(server, 'Alice')
+    const bob = join(server, 'Bob')
+    const box = createBox(0)
+    alice.canvasManager.addShape(box)
+    await settle()
+
+    // Bob 改颜色，Alice 之后移动；Bob 撤销只恢复颜色
+    const bobBox = bob.shapeService.getShapeEntity(box.id)
+    expect(bobBox).toBeDefined()
+    if (!bobBox) return
+    bob.canvasManager.updateShape(box.id, { style: { ...bobBox.style, fillColor: '#00f' } })
+    await settle()
+    alice.canvasManager.stopHistoryMerging()
+    alice.canvasManager.updateShape(box.id, {
+      transform: { ...box.transform, position: { x: 80, y: 0 } },
+    })
+    await settle()
+    bob.canvasManager.undo()
+    await settle()
+    expect(snapshot(alice)[0]).toMatchObject({
+      position: { x: 80, y: 0 },
+      style: { fillColor: '#f00' },
+    })
+    expect(snapshot(bob)).toEqual(snapshot(alice))
+
+    // Bob 移动后 Alice 又移动同一形状；Bob 撤销时保留 Alice 的位置
+    bob.canvasManager.stopHistoryMerging()
+    bob.canvasManager.updateShape(box.id, {
+      transform: { ...box.transform, position: { x: 0, y: 90 } },
+    })
+    await settle()
+    alice.canvasManager.stopHistoryMerging()
+    alice.canvasManager.updateShape(box.id, {
+      transform: { ...box.transform, position: { x: 30, y: 30 } },
+    })
+    await settle()
+    bob.canvasManager.undo()
+    await settle()
+    expect(snapshot(bob)[0].position).toEqual({ x: 30, y: 30 })
+    expect(snapshot(alice)).toEqual(snapshot(bob))
+
+    // Alice 撤销自己添加的形状，两边都删除
+    alice.canvasManager.goToHistory(-1)
+    await settle()
+    expect(bob.shapeService.getAllShapeEntities()).toHaveLength(0)
+  })
+
+  it('should catch up a late joiner and send offline edits on reconnect', async () => {
+    const server = new SyncServer()
+    const alice = join(server, 'Alice')
+    const first = createBox(0)
+    alice.canvasManager.addShape(first)
+    await settle()
+
+    const carol = join(server, 'Carol')
+    await settle()
+    expect(carol.shapeService.getShapeEntity(first.id)).toBeDefined()
+
+    carol.collaboration.disconnect()
+    expect(carol.collaboration.isConnected()).toBe(false)
+    const offline = createBox(200)
+    carol.canvasManager.addShape(offline)
+    alice.canvasManager.removeShape(first.id)
+    await settle()
+    expect(alice.shapeService.getShapeEntity(offline.id)).toBeUndefined()
+
+    carol.connect()
+    await settle()
+    expect(alice.shapeService.getShapeEntity(offline.id)).toBeDefined()
+    expect(carol.shapeService.getShapeEntity(first.id)).toBeUndefined()
+    expect(snapshot(carol)).toEqual(snapshot(alice))
+  })
+
+  it('should sync over WebSocket transports', async () => {
+    /** 内存中相连的一对 WebSocket */
+    class FakeSocket implements IWebSocketLike {
+      readyState = 0
+      peer: FakeSocket | null = null
+      private listeners = new Map<string, Set<(event: { data: unknown }) => void>>()
+      send(data: string) {
+        const peer = this.peer
+        queueMicrotask(() => peer?.dispatch('message', { data }))
+      }
+      close() {
+        this.readyState = 3
+        this.dispatch('close', { data: null })
+      }
+      open() {
+        this.readyState = 1
+        this.dispatch('open', { data: null })
+      }
+      addEventListener(type: string, listener: (event: { data: unknown }) => void) {
+        if (!this.listeners.has(type)) this.listeners.set(type, new Set())
+        this.listeners.get(type)?.add(listener)
+      }
+      removeEventListener(type: string, listener: (event: { data: unknown }) => void) {
+        this.listeners.get(type)?.delete(listener)
+      }
+      dispatch(type: string, event: { data: unknown }) {
+        for (const listener of this.listeners.get(type) ?? []) listener(event)
+      }
+    }
+
+    const server = new SyncServer()
+    const alice = join(server, 'Alice')
+    const bob = createClient(new SyncServer(), 'Bob')
+    clients.push(bob)
+    bob.collaboration.disconnect()
+
+    const clientSocket = new FakeSocket()
+    const serverSocket = new FakeSocket()
+    clientSocket.peer = serverSocket
+    serverSocket.peer = clientSocket
+    server.accept(new WebSocketSyncTransport(serverSocket))
+    serverSocket.open()
+    // 连接建立前发送的消息排队
+    bob.collaboration.connect(new WebSocketSyncTransport(clientSocket))
+    const box = createBox(0)
+    bob.canvasManager.addShape(box)
+    clientSocket.open()
+    await settle()
+
+    expect(alice.shapeService.getShapeEntity(box.id)).toBeDefined()
+    expect(server.getConnectionCount()).toBe(2)
+    clientSocket.close()
+    expect(bob.collaboration.isConnected()).toBe(false)
+  })
+
+  it('should send the pointer position as the cursor and draw peers in the render overlay', async () => {
+    const server = new SyncServer()
+    const alice = join(server, 'Alice')
+    const bob = join(server, 'Bob')
+    const box = createBox(0)
+    alice.canvasManager.addShape(box)
+    await settle()
+
+    const canvas = document.createElement('canvas')
+    vi.spyOn(canvas, 'getBoundingClientRect').mockReturnValue(
+      new DOMRect(0, 0, canvas.width, canvas.height)
+    )
+    alice.interactionService.initialize(canvas)
+    const onPeers = vi.fn()
+    bob.collaboration.onDidChangePeers(onPeers)
+    const render = vi.spyOn(bob.renderingService, 'render')
+    alice.canvasManager.selectShape(box.id)
+    canvas.dispatchEvent(new MouseEvent('mousemove', { clientX: 12, clientY: 34 }))
+    await settle()
+
+    const [peer] = bob.collaboration.getPeers()
+    expect(peer).toMatchObject({
+      clientId: alice.collaboration.clientId,
+      user: { name: 'Alice' },
+      cursor: { x: 12, y: 34 },
+      selection: [box.id],
+    })
+    expect(onPeers).toHaveBeenCalled()
+    expect(render).toHaveBeenCalled()
+
+    const overlay = bob.addOverlay.mock.calls
+      .map(([renderable]) => renderable)
+      .find((renderable) => renderable.id === PresenceView.ID) as PresenceView
+    const context = {
+      save: vi.fn(),
+      restore: vi.fn(),
+      setStrokeColor: vi.fn(),
+      setFillColor: vi.fn(),
+      setLineWidth: vi.fn(),
+      setFont: vi.fn(),
+      setTextBaseline: vi.fn(),
+      strokeRect: vi.fn(),
+      fillRect: vi.fn(),
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      closePath: vi.fn(),
+      fill: vi.fn(),
+      stroke: vi.fn(),
+      fillText: vi.fn(),
+      measureText: vi.fn(() => ({ width: 30, height: 11 })),
+    }
+    overlay.render(context as unknown as Parameters<PresenceView['render']>[0])
+    expect(context.setStrokeColor).toHaveBeenCalledWith(peer.user.color)
+    expect(context.strokeRect).toHaveBeenCalledWith(-3, -3, 46, 46)
+    expect(context.moveTo).toHaveBeenCalledWith(12, 34)
+    expect(context.fillText).toHaveBeenCalledWith('Alice', expect.any(Number), expect.any(Number))
+    expect(overlay.getBounds()).toMatchObject({ x: -3, y: -3 })
+    expect(overlay.hitTest({ x: 12, y: 34 })).toBe(false)
+
+    canvas.dispatchEvent(new MouseEvent('mouseleave'))
+    await settle()
+    expect(bob.collaboration.getPeers()[0].cursor).toBeNull()
+    alice.interactionService.dispose()
+
+    alice.collaboration.disconnect()
+    await settle()
+    expect(bob.collaboration.getPeers()).toEqual([])
+  })
+})
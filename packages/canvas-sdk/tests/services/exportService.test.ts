@@ -0,0 +1,252 @@
+/**
+ * ExportService SVG 导出测试
+ */
+
+import { SVGPathData } from '@sky-canvas/render-engine'
+import { describe, expect, it } from 'vitest'
+import { type IPathEntity, ShapeEntityFactory } from '../../src/models/entities/Shape'
+import { ExportService } from '../../src/services/export/exportService'
+import { ImportService } from '../../src/services/import/importService'
+import { RenderableShapeView } from '../../src/views/RenderableShapeView'
+
+describe('ExportService SVG paths', () => {
+  const iconPath = 'M0 0h20a10 10 0 0 1 10 10v10s0 10-10 10H5q-5 0-5-5t0-5z'
+
+  it('should round-trip arcs and smooth curves through exportToSVG', async () => {
+    const path = ShapeEntityFactory.createPath(iconPath, { x: 50, y: 40 }, { fillColor: '#333' })
+    const exportService = new ExportService()
+    const importService = new ImportService()
+
+    const svg = exportService.exportToSVG([path])
+    const result = await importService.importFromSVG(svg)
+    const imported = result.shapes.find((shape): shape is IPathEntity => shape.type === 'path')
+
+    expect(imported).toBeDefined()
+    expect(imported?.style.fillColor).toBe('#333')
+
+    // viewBox 起点为内容包围盒左上角，导入后内容位于原点
+    const expected = SVGPathData.getBounds(SVGPathData.normalize(iconPath))
+    const actual = new RenderableShapeView(imported as IPathEntity).bounds
+    expect(actual.x).toBeCloseTo(0, 2)
+    expect(actual.y).toBeCloseTo(0, 2)
+    expect(actual.width).toBeCloseTo(expected.width, 2)
+    expect(actual.height).toBeCloseTo(expected.height, 2)
+  })
+
+  it('should hit test arc segments using the normalized geometry', () => {
+    const path = ShapeEntityFactory.createPath(iconPath, { x: 0, y: 0 }, { fillColor: '#333' })
+    const view = new RenderableShapeView(path)
+
+    // 圆角内侧命中，圆角外的包围盒角落不命中
+    expect(view.hitTest({ x: 25, y: 5 })).toBe(true)
+    expect(view.hitTest({ x: 29, y: 1 })).toBe(false)
+  })
+})
+
+describe('ExportService SVG document', () => {
+  const exportService = new ExportService()
+
+  it('should keep transforms, styles and text attributes', () => {
+    const rect = ShapeEntityFactory.createRectangle(
+      { x: 10, y: 20 },
+      { width: 40, height: 20 },
+      { fillColor: 'red', strokeColor: 'blue', strokeWidth: 2, lineDash: [4, 2], opacity: 0.5 }
+    )
+    rect.transform.rotation = Math.PI / 2
+    rect.transform.scale = { x: 2, y: 1 }
+    rect.borderRadius = 5
+    const text = ShapeEntityFactory.createText('a < b & "c"', { x: 0, y: 0 })
+    text.textAlign = 'center'
+    text.fontWeight = 'bold'
+
+    const svg = exportService.exportToSVG([rect, text])
+
+    expect(svg).toContain('transform="translate(10 20) rotate(90) scale(2 1)"')
+    expect(svg).toContain('rx="5"')
+    expect(svg).toContain('stroke-dasharray="4 2"')
+    expect(svg).toContain('opacity="0.5"')
+    expect(svg).toContain('font-weight="bold"')
+    expect(svg).toContain('<tspan x="0" y="0">a &lt; b &amp; &quot;c&quot;</tspan></text>')
+  })
+
+  it('should order by zIndex and nest groups and layers', () => {
+    const top = ShapeEntityFactory.createCircle({ x: 0, y: 0 }, 5)
+    const bottom = ShapeEntityFactory.createCircle({ x: 20, y: 0 }, 5)
+    top.id = 'top'
+    top.zIndex = 2
+    bottom.id = 'bottom'
+    bottom.zIndex = 1
+    const group = ShapeEntityFactory.createGroup(['top', 'bottom'])
+    group.id = 'group'
+
+    const svg = exportService.exportToSVG([top, group, bottom], {
+      layers: [
+        {
+          id: 'layer',
+          name: 'Layer 1',
+          visible: true,
+          opacity: 0.5,
+          zIndex: 0,
+          blendMode: 'multiply',
+          shapes: ['group'],
+        },
+      ],
+    })
+
+    expect(svg).toContain(
+      '<g id="layer" data-name="Layer 1" opacity="0.5" style="mix-blend-mode:multiply">'
+    )
+    expect(svg.indexOf('<g id="group">')).toBeGreaterThan(svg.indexOf('<g id="layer"'))
+    expect(svg.indexOf('translate(20 0)')).toBeLessThan(svg.indexOf('translate(0 0)'))
+  })
+
+  it('should interleave unlayered shapes with layers by zIndex', () => {
+    const below = ShapeEntityFactory.createCircle({ x: 0, y: 0 }, 5)
+    const above = ShapeEntityFactory.createCircle({ x: 20, y: 0 }, 5)
+    const member = ShapeEntityFactory.createCircle({ x: 40, y: 0 }, 5)
+    below.zIndex = 0
+    above.zIndex = 5
+    member.id = 'member'
+
+    const svg = exportService.exportToSVG([above, member, below], {
+      layers: [
+        { id: 'layer', name: 'Layer 1', visible: true, opacity: 1, zIndex: 2, shapes: ['member'] },
+      ],
+    })
+
+    const layerAt = svg.indexOf('<g id="layer"')
+    expect(svg.indexOf('translate(0 0)')).toBeLessThan(layerAt)
+    expect(svg.indexOf('translate(20 0)')).toBeGreaterThan(layerAt)
+  })
+
+  it('should only link http(s) and mailto urls', () => {
+    const safe = ShapeEntityFactory.createLink('https://example.com/?a=1&b=2')
+    const mail = ShapeEntityFactory.createLink('mailto:team@example.com')
+    const unsafe = ShapeEntityFactory.createLink(' javascript:alert(1)')
+    unsafe.title = 'unsafe'
+
+    const svg = exportService.exportToSVG([safe, mail, unsafe])
+
+    expect(svg).toContain('<a href="https://example.com/?a=1&amp;b=2" target="_blank">')
+    expect(svg).toContain('<a href="mailto:team@example.com" target="_blank">')
+    expect(svg).not.toContain('javascript:')
+    expect(svg.match(/<a /g)).toHaveLength(2)
+  })
+
+  it('should compute the viewBox from content bounds and export only the selection', () => {
+    const a = ShapeEntityFactory.createRectangle({ x: 100, y: 50 }, { width: 20, height: 10 })
+    const b = ShapeEntityFactory.createRectangle({ x: 500, y: 500 }, { width: 10, height: 10 })
+
+    const svg = exportService.exportToSVG([a, b], { shapeIds: [a.id], padding: 5 })
+
+    expect(svg).toContain('width="30" height="20" viewBox="95 45 30 20"')
+    expect(svg).not.toContain('translate(500 500)')
+  })
+
+  it('should leave hidden layers, layer groups and groups out of the content and viewBox', () => {
+    const visible = ShapeEntityFactory.createRectangle({ x: 0, y: 0 }, { width: 20, height: 10 })
+    const onHiddenLayer = ShapeEntityFactory.createRectangle({ x: 900, y: 900 })
+    const inHiddenLayerGroup = ShapeEntityFactory.createRectangle({ x: -500, y: -500 })
+    const inHiddenGroup = ShapeEntityFactory.createRectangle({ x: 600, y: 0 })
+    const group = { ...ShapeEntityFactory.createGroup([inHiddenGroup.id]), visible: false }
+    const layer = (id: string, shapes: string[], overrides = {}) => ({
+      id,
+      name: id,
+      visible: true,
+      opacity: 1,
+      zIndex: 0,
+      shapes,
+      ...overrides,
+    })
+
+    const svg = exportService.exportToSVG(
+      [visible, onHiddenLayer, inHiddenLayerGroup, group, inHiddenGroup],
+      {
+        layers: [
+          layer('content', [visible.id, group.id]),
+          layer('hidden', [onHiddenLayer.id], { visible: false }),
+          layer('folder', [], { visible: false }),
+          layer('nested', [inHiddenLayerGroup.id], { parentId: 'folder' }),
+        ],
+      }
+    )
+
+    expect(svg).toContain('width="20" height="10" viewBox="0 0 20 10"')
+    expect(svg).not.toContain('translate(900 900)')
+    expect(svg).not.toContain('translate(-500 -500)')
+    expect(svg).not.toContain('translate(600 0)')
+    expect(svg).not.toContain(`id="${group.id}"`)
+  })
+
+  it('should export gradient and pattern paints as defs in local coordinates', () => {
+    const rect = ShapeEntityFactory.createRectangle(
+      { x: 10, y: 10 },
+      { width: 100, height: 50 },
+      {
+        fillColor: '#000000',
+        fillPaint: {
+          type: 'linear-gradient',
+          stops: [
+            { id: 'blue', offset: 1, color: '#0000ff' },
+            { id: 'red', offset: 0, color: '#ff0000' },
+          ],
+        },
+        strokePaint: { type: 'pattern', src: 'tile.png', width: 8, height: 4 },
+      }
+    )
+    rect.id = 'rect'
+    const circle = ShapeEntityFactory.createCircle({ x: 0, y: 0 }, 10, {
+      fillPaint: {
+        type: 'radial-gradient',
+        stops: [
+          { id: 'white', offset: 0, color: 'white' },
+          { id: 'black', offset: 1, color: 'black' },
+        ],
+      },
+    })
+    circle.id = 'circle'
+
+    const svg = exportService.exportToSVG([rect, circle])
+
+    expect(svg).toContain(
+      '<linearGradient id="rect-fill" gradientUnits="userSpaceOnUse" x1="0" y1="25" x2="100" y2="25"><stop offset="0" stop-color="#ff0000"/><stop offset="1" stop-color="#0000ff"/></linearGradient>'
+    )
+    expect(svg).toContain('fill="url(#rect-fill)" stroke="url(#rect-stroke)"')
+    expect(svg).toContain(
+      '<pattern id="rect-stroke" patternUnits="userSpaceOnUse" x="0" y="0" width="8" height="4">'
+    )
+    expect(svg).toContain(
+      '<radialGradient id="circle-fill" gradientUnits="userSpaceOnUse" cx="0" cy="0" r="10" fx="0" fy="0">'
+    )
+    expect(svg.indexOf('<defs>')).toBeLessThan(svg.indexOf('<rect width="100"'))
+  })
+
+  it('should resolve gradient geometry against local bounds when rendering', () => {
+    const rect = ShapeEntityFactory.createRectangle(
+      { x: 0, y: 0 },
+      { width: 40, height: 40 },
+      {
+        fillPaint: {
+          type: 'linear-gradient',
+          angle: Math.PI / 2,
+          stops: [
+            { id: 'red', offset: 0, color: '#ff0000' },
+            { id: 'blue', offset: 1, color: '#0000ff' },
+          ],
+        },
+      }
+    )
+    const fills: unknown[] = []
+    const context = new Proxy(
+      {},
+      {
+        get: (_, key) =>
+          key === 'setFillStyle' ? (paint: unknown) => fills.push(paint) : () => undefined,
+      }
+    )
+
+    new RenderableShapeView(rect).render(context as never)
+
+    expect(fills[0]).toMatchObject({ type: 'linear-gradient', x0: 20, y0: 0, x1: 20, y1: 40 })
+  })
+})
@@ -0,0 +1,329 @@
+/**
+ * 文件格式注册表测试：内容嗅探、选项校验、按格式分发导入导出以及插件贡献的格式
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { type IRectangleEntity, ShapeEntityFactory } from '../../src/models/entities/Shape'
+import type { PluginContext } from '../../src/plugins'
+import { DEFAULT_EXTENSION_POINTS } from '../../src/plugins/core/ExtensionManager'
+import { PluginManager } from '../../src/plugins/core/PluginManager'
+import { PluginPermission } from '../../src/plugins/types/PluginTypes'
+import { ExportService } from '../../src/services/export/exportService'
+import {
+  FormatError,
+  FormatRegistry,
+  type IFileFormat,
+  type IFormatSource,
+} from '../../src/services/format/formatRegistry'
+import { ImportService } from '../../src/services/import/importService'
+
+const createSource = (
+  content: string | number[],
+  name = 'untitled',
+  mimeType = ''
+): IFormatSource => {
+  const bytes =
+    typeof content === 'string' ? new TextEncoder().encode(content) : new Uint8Array(content)
+  return {
+    file: new File([bytes], name, { type: mimeType }),
+    name,
+    mimeType,
+    bytes,
+    text: () => new TextDecoder().decode(bytes),
+  }
+}
+
+/** 每行 "x,y,width,height" 表示一个矩形 */
+const createRectCsvFormat = (): IFileFormat => ({
+  id: 'rect-csv',
+  name: 'Rectangle CSV',
+  extensions: ['csv'],
+  mimeTypes: ['text/csv'],
+  sniff: (source) => source.text().startsWith('x,y,width,height\n'),
+  import: (source) => ({
+    success: true,
+    shapes: source
+      .text()
+      .trim()
+      .split('\n')
+      .slice(1)
+      .map((line) => {
+        const [x, y, width, height] = line.split(',').map(Number)
+        return ShapeEntityFactory.createRectangle({ x, y }, { width, height })
+      }),
+    errors: [],
+  }),
+  export: (input, options) =>
+    [
+      'x,y,width,height',
+      ...input.shapes
+        .filter((shape): shape is IRectangleEntity => shape.type === 'rectangle')
+        .map((shape) =>
+          [
+            shape.transform.position.x,
+            shape.transform.position.y,
+            shape.size.width,
+            shape.size.height,
+          ].join(String(options.separator))
+        ),
+    ].join('\n'),
+  exportOptions: {
+    separator: { type: 'string', enum: [',', ';'], default: ',' },
+  },
+})
+
+describe('FormatRegistry', () => {
+  it('should detect built-in formats by content before extension and MIME type', () => {
+    const registry = new FormatRegistry()
+    const png = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]
+    const svg = '<?xml version="1.0"?>\n<!-- logo -->\n<svg xmlns="http://www.w3.org/2000/svg"/>'
+
+    expect(registry.detect(createSource(png, 'image.jpg'))?.id).toBe('png')
+    expect(registry.detect(createSource([0xff, 0xd8, 0xff, 0xe0], 'photo'))?.id).toBe('jpeg')
+    expect(registry.detect(createSource(svg, 'logo.json'))?.id).toBe('svg')
+    expect(registry.detect(createSource('{ "version": "1.0", "shapes": [] }'))?.id).toBe('json')
+    expect(registry.detect(createSource('', 'empty.SVG'))?.id).toBe('svg')
+    expect(registry.detect(createSource('', 'empty', 'image/jpeg'))?.id).toBe('jpeg')
+    expect(registry.detect(createSource('plain text', 'notes.txt'))).toBeUndefined()
+  })
+
+  it('should sniff later registrations first and reject duplicate ids', () => {
+    const registry = new FormatRegistry()
+    const dispose = registry.register({
+      id: 'legacy-json',
+      name: 'Legacy document',
+      extensions: ['.JSON'],
+      mimeTypes: [],
+      sniff: (source) => source.text().includes('"legacyShapes"'),
+      pluginId: 'legacy',
+    })
+
+    expect(registry.detect(createSource('{ "legacyShapes": [], "shapes": [] }'))?.id).toBe(
+      'legacy-json'
+    )
+    expect(registry.findByExtension('json')?.id).toBe('legacy-json')
+    expect(() => registry.register({ ...createRectCsvFormat(), id: 'svg' })).toThrow(
+      "Format 'svg' is already registered by the editor"
+    )
+
+    dispose()
+    expect(registry.has('legacy-json')).toBe(false)
+    expect(registry.findByExtension('json')?.id).toBe('json')
+  })
+
+  it('should fill option defaults and validate option values', () => {
+    const registry = new FormatRegistry()
+    const schema = registry.get('jpeg')?.exportOptions
+
+    expect(registry.resolveOptions(schema, { scale: 2, layers: [] })).toEqual({
+      quality: 0.8,
+      scale: 2,
+      layers: [],
+    })
+    expect(() => registry.resolveOptions(schema, { quality: 1.5 })).toThrow(
+      "Option 'quality' must be at most 1"
+    )
+    expect(() => registry.resolveOptions(schema, { backgroundColor: 0 })).toThrow(FormatError)
+  })
+})
+
+describe('ImportService and ExportService dispatch', () => {
+  it('should import files by sniffing their content', async () => {
+    const registry = new FormatRegistry()
+    registry.register(createRectCsvFormat())
+    const importService = new ImportService(registry)
+    const exported = new ExportService(registry).exportToJSON([ShapeEntityFactory.createCircle()])
+
+    // 扩展名与内容不符时以内容为准
+    const json = await importService.importFromFile(new File([exported], 'drawing.svg'))
+    expect(json.success).toBe(true)
+    expect(json.shapes.map((shape) => shape.type)).toEqual(['circle'])
+    expect(json.metadata).toMatchObject({ originalFormat: 'json', fileName: 'drawing.svg' })
+
+    const csv = await importService.importFromFile(
+      new File(['x,y,width,height\n10,20,30,40\n'], 'rects.txt')
+    )
+    expect(csv.shapes).toEqual([
+      expect.objectContaining({
+        type: 'rectangle',
+        transform: expect.objectContaining({ position: { x: 10, y: 20 } }),
+        size: { width: 30, height: 40 },
+      }),
+    ])
+    expect(csv.metadata?.originalFormat).toBe('rect-csv')
+
+    const unknown = await importService.importFromFile(new File(['hello'], 'notes.txt'))
+    expect(unknown.success).toBe(false)
+    expect(unknown.errors).toEqual(['Unsupported file format: notes.txt'])
+
+    expect(importService.validateFileFormat(new File([''], 'rects.csv'))).toBe(true)
+    expect(importService.getImportFormats().map((format) => format.id)).toEqual([
+      'json',
+      'svg',
+      'png',
+      'jpeg',
+      'rect-csv',
+    ])
+  })
+
+  it('should export registered formats with resolved options', async () => {
+    const registry = new FormatRegistry()
+    registry.register(createRectCsvFormat())
+    const exportService = new ExportService(registry)
+    const shapes = [ShapeEntityFactory.createRectangle({ x: 1, y: 2 }, { width: 3, height: 4 })]
+
+    expect(await exportService.export('rect-csv', { shapes })).toBe('x,y,width,height\n1,2,3,4')
+    expect(await exportService.export('rect-csv', { shapes }, { separator: ';' })).toContain(
+      '1;2;3;4'
+    )
+    await expect(exportService.export('rect-csv', { shapes }, { separator: '|' })).rejects.toThrow(
+      "Option 'separator' must be one of ,, ;"
+    )
+    expect(await exportService.export('svg', { shapes }, { padding: 5 })).toContain('<svg')
+    await expect(exportService.export('png', { shapes })).rejects.toThrow(
+      "Format 'png' requires a canvas to export"
+    )
+    await expect(exportService.export('docx', { shapes })).rejects.toThrow(
+      "Format 'docx' cannot be exported"
+    )
+  })
+})
+
+describe('Plugin-contributed formats', () => {
+  const pluginWindow = window as Window & { currentShapes?: unknown[] }
+  let pluginManager: PluginManager
+
+  afterEach(async () => {
+    await pluginManager.dispose()
+    delete pluginWindow.currentShapes
+  })
+
+  it('should register formats from the file extension points and export them via the plugin API', async () => {
+    const registry = new FormatRegistry()
+    const exportService = new ExportService(registry)
+    const exportSpy = vi.spyOn(exportService, 'export')
+    pluginManager = new PluginManager({ formatRegistry: registry, exportService })
+    const extensionManager = pluginManager.getExtensionManager()
+    for (const extensionPoint of DEFAULT_EXTENSION_POINTS) {
+      extensionManager.defineExtensionPoint(extensionPoint)
+    }
+
+    let context: PluginContext | undefined
+    await pluginManager.loadPlugin(
+      {
+        id: 'csv',
+        name: 'CSV',
+        version: '1.0.0',
+        description: 'Rectangle CSV format',
+        author: 'Test Author',
+        license: 'MIT',
+        main: 'index.js',
+        permissions: [PluginPermission.FILE_ACCESS],
+        extensionPoints: ['file.importers', 'file.exporters'],
+        keywords: [],
+      },
+      {
+        default: class {
+          async activate(pluginContext: PluginContext) {
+            context = pluginContext
+            const format = createRectCsvFormat()
+            for (const extensionPointId of ['file.importers', 'file.exporters']) {
+              extensionManager.registerProvider(extensionPointId, {
+                pluginId: 'csv',
+                extensionId: format.id,
+                implementation: format,
+                config: {},
+              })
+            }
+          }
+
+          async deactivate() {}
+        },
+      }
+    )
+    pluginManager.getPermissionManager().grantPermission('csv', PluginPermission.FILE_ACCESS)
+    await pluginManager.activatePlugin('csv')
+
+    expect(registry.get('rect-csv')?.pluginId).toBe('csv')
+    pluginWindow.currentShapes = [
+      ShapeEntityFactory.createRectangle({ x: 5, y: 6 }, { width: 7, height: 8 }),
+    ]
+    expect(await context?.api.file.export('rect-csv')).toBe('x,y,width,height\n5,6,7,8')
+    expect(await context?.api.file.export('json')).toContain('"type": "rectangle"')
+    expect(exportSpy).toHaveBeenCalledTimes(2)
+
+    // 从一个扩展点注销后格式仍由另一个扩展点提供
+    extensionManager.unregisterProvider('file.importers', 'csv', 'rect-csv')
+    expect(registry.has('rect-csv')).toBe(true)
+
+    await pluginManager.deactivatePlugin('csv')
+    expect(registry.has('rect-csv')).toBe(false)
+  })
+
+  it('should report providers that do not implement their extension point', async () => {
+    const registry = new FormatRegistry()
+    pluginManager = new PluginManager({ formatRegistry: registry })
+    const extensionManager = pluginManager.getExtensionManager()
+    for (const extensionPoint of DEFAULT_EXTENSION_POINTS) {
+      extensionManager.defineExtensionPoint(extensionPoint)
+    }
+    const errors: Error[] = []
+    pluginManager.on('plugin:error', (_pluginId: string, error: Error) => errors.push(error))
+
+    const { import: _import, ...exportOnly } = createRectCsvFormat()
+    extensionManager.registerProvider('file.importers', {
+      pluginId: 'broken',
+      extensionId: 'rect-csv',
+      implementation: exportOnly,
+      config: {},
+    })
+
+    expect(registry.has('rect-csv')).toBe(false)
+    expect(errors.map((error) => error.message)).toEqual([
+      "Format 'rect-csv' contributed to 'file.importers' must implement import()",
+    ])
+  })
+
+  it('should merge import and export providers of a format and reject duplicates', async () => {
+    const registry = new FormatRegistry()
+    pluginManager = new PluginManager({ formatRegistry: registry })
+    const extensionManager = pluginManager.getExtensionManager()
+    for (const extensionPoint of DEFAULT_EXTENSION_POINTS) {
+      extensionManager.defineExtensionPoint(extensionPoint)
+    }
+    const errors: Error[] = []
+    pluginManager.on('plugin:error', (_pluginId: string, error: Error) => errors.push(error))
+    const register = (
+      extensionPointId: string,
+      pluginId: string,
+      extensionId: string,
+      format: IFileFormat
+    ) =>
+      extensionManager.registerProvider(extensionPointId, {
+        pluginId,
+        extensionId,
+        implementation: format,
+        config: {},
+      })
+
+    const { export: _export, exportOptions: _exportOptions, ...importer } = createRectCsvFormat()
+    const { import: _import, ...exporter } = createRectCsvFormat()
+    register('file.importers', 'csv', 'csv-import', importer)
+    register('file.exporters', 'csv', 'csv-export', exporter)
+    expect(typeof registry.get('rect-csv')?.import).toBe('function')
+    expect(typeof registry.get('rect-csv')?.export).toBe('function')
+    expect(registry.get('rect-csv')?.exportOptions).toEqual(exporter.exportOptions)
+
+    register('file.exporters', 'csv', 'txt-export', { ...exporter, extensions: ['txt'] })
+    register('file.importers', 'other', 'csv-import', importer)
+    expect(registry.get('rect-csv')?.extensions).toEqual(['csv'])
+    expect(errors.map((error) => error.message)).toEqual([
+      "Format 'rect-csv' is already contributed to 'file.exporters' by plugin 'csv'",
+      "Format 'rect-csv' is already registered by plugin 'csv'",
+    ])
+
+    extensionManager.unregisterProvider('file.exporters', 'csv', 'csv-export')
+    expect(typeof registry.get('rect-csv')?.import).toBe('function')
+    expect(registry.get('rect-csv')?.export).toBeUndefined()
+  })
+})
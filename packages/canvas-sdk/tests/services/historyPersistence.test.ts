@@ -0,0 +1,248 @@
+/**
+ * 历史记录持久化单元测试：命令序列化注册表、撤销栈的保存与恢复、历史存储
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CanvasManager } from '../../src/managers/CanvasManager'
+import { ShapeEntityFactory } from '../../src/models/entities/Shape'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import {
+  CommandRegistry,
+  CommandSerializationError,
+  commandRegistry,
+  type ICommandContext,
+} from '../../src/services/history/commandRegistry'
+import {
+  CollectionAddCommand,
+  CollectionMoveCommand,
+  CompositeCommand,
+  FunctionCommand,
+  PropertyChangeCommand,
+} from '../../src/services/history/commands'
+import { HistoryService } from '../../src/services/history/historyService'
+import { MemoryHistoryStore } from '../../src/services/history/historyStore'
+import { LogService } from '../../src/services/logging/logService'
+import { SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+
+/** 模拟重新加载：经 JSON 往返后在新的目标上恢复 */
+const roundTrip = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T
+
+describe('Command serialization', () => {
+  let doc: { title: string; items: string[] }
+  let context: ICommandContext
+
+  beforeEach(() => {
+    doc = { title: 'Draft', items: ['a', 'b', 'c'] }
+    context = {
+      resolve: (ref) => (ref === 'doc' ? doc : ref === 'doc.items' ? doc.items : undefined),
+    }
+  })
+
+  it('should round-trip built-in commands that have a target reference', () => {
+    // 与批量记录一样逐条执行后加入复合命令
+    const composite = new CompositeCommand('Edit doc')
+    for (const command of [
+      () => new PropertyChangeCommand(doc, 'title', 'Final').withRef('doc'),
+      () => new CollectionAddCommand(doc.items, 'd', 1).withRef('doc.items'),
+      () => new CollectionMoveCommand(doc.items, 2, 0).withRef('doc.items'),
+    ]) {
+      const child = command()
+      child.execute()
+      composite.add(child)
+    }
+
+    const json = roundTrip(commandRegistry.serialize(composite))
+    expect(json?.type).toBe('composite')
+    if (!json) return
+
+    // 新的文档对象处于命令执行后的状态
+    doc = roundTrip(doc)
+    const restored = commandRegistry.deserialize(json, context)
+    expect(restored.description).toBe('Edit doc')
+
+    restored.undo()
+    expect(doc).toEqual({ title: 'Draft', items: ['a', 'b', 'c'] })
+    restored.execute()
+    expect(doc).toEqual({ title: 'Final', items: ['b', 'a', 'd', 'c'] })
+  })
+
+  it('should refuse commands without a reference, closures and unknown types', () => {
+    const closure = new FunctionCommand(
+      () => {},
+      () => {}
+    )
+    const composite = new CompositeCommand()
+    composite.add(new PropertyChangeCommand(doc, 'title', 'x').withRef('doc'))
+    composite.add(closure)
+
+    expect(commandRegistry.serialize(new PropertyChangeCommand(doc, 'title', 'x'))).toBeNull()
+    expect(commandRegistry.serialize(closure)).toBeNull()
+    expect(commandRegistry.serialize(composite)).toBeNull()
+    expect(() => commandRegistry.deserialize({ type: 'nope', data: null }, context)).toThrow(
+      CommandSerializationError
+    )
+  })
+
+  it('should let custom command types register and unregister', () => {
+    const registry = new CommandRegistry()
+    const unregister = registry.register('log', (json) => ({
+      description: json.description,
+      execute: () => {},
+      undo: () => {},
+    }))
+    const command = {
+      execute: () => {},
+      undo: () => {},
+      toJSON: () => ({ type: 'log', description: 'Log', data: null }),
+    }
+
+    const json = registry.serialize(command)
+    expect(json).toEqual({ type: 'log', description: 'Log', data: null })
+    if (!json) return
+    expect(registry.deserialize(json, context).description).toBe('Log')
+    unregister()
+    expect(registry.serialize(command)).toBeNull()
+  })
+
+  it('should drop entries that can no longer be reached from the current position', () => {
+    const history = new HistoryService(new LogService())
+    const run = (command: PropertyChangeCommand<typeof doc, 'title'> | FunctionCommand) => {
+      history.stopMerging()
+      history.execute(command)
+    }
+    run(new PropertyChangeCommand(doc, 'title', 'one').withRef('doc'))
+    run(
+      new FunctionCommand(
+        () => {},
+        () => {},
+        'Closure'
+      )
+    )
+    run(new PropertyChangeCommand(doc, 'title', 'two').withRef('doc'))
+    run(new PropertyChangeCommand(doc, 'title', 'three').withRef('doc'))
+    run(
+      new FunctionCommand(
+        () => {},
+        () => {},
+        'Closure'
+      )
+    )
+    run(new PropertyChangeCommand(doc, 'title', 'four').withRef('doc'))
+    history.goTo(3)
+
+    const saved = history.serialize()
+    expect(saved.entries.map((entry) => entry.data)).toMatchObject([
+      { newValue: 'two' },
+      { newValue: 'three' },
+    ])
+    expect(saved.currentIndex).toBe(1)
+  })
+})
+
+describe('CanvasManager history persistence', () => {
+  const createManager = (shapeService: ShapeService) => {
+    const logService = new LogService()
+    return new CanvasManager(
+      logService,
+      shapeService,
+      new SelectionService(),
+      new ClipboardService(),
+      new HistoryService(logService),
+      new ZIndexService(logService)
+    )
+  }
+
+  /** 模拟重新加载页面：形状经 JSON 往返后放入新的画布 */
+  const reload = (shapeService: ShapeService) => {
+    const reloaded = new ShapeService()
+    for (const shape of roundTrip(shapeService.getAllShapeEntities())) {
+      reloaded.addShape({
+        ...shape,
+        createdAt: new Date(shape.createdAt),
+        updatedAt: new Date(shape.updatedAt),
+      })
+    }
+    return { shapeService: reloaded, canvasManager: createManager(reloaded) }
+  }
+
+  let shapeService: ShapeService
+  let canvasManager: CanvasManager
+
+  beforeEach(() => {
+    shapeService = new ShapeService()
+    canvasManager = createManager(shapeService)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const buildHistory = () => {
+    const box = ShapeEntityFactory.createRectangle(
+      { x: 0, y: 0 },
+      { width: 40, height: 40 },
+      { fillColor: '#ff0000' }
+    )
+    const circle = ShapeEntityFactory.createCircle({ x: 100, y: 100 }, 20)
+    canvasManager.addShape(box)
+    canvasManager.addShape(circle)
+    canvasManager.stopHistoryMerging()
+    canvasManager.updateShape(box.id, {
+      transform: { ...box.transform, position: { x: 50, y: 60 } },
+    })
+    canvasManager.stopHistoryMerging()
+    canvasManager.updateShape(box.id, { style: { ...box.style, fillColor: '#00ff00' } })
+    canvasManager.removeShape(circle.id)
+    return { box, circle }
+  }
+
+  it('should undo and redo every step after restoring the serialized history', () => {
+    const { box, circle } = buildHistory()
+    canvasManager.undo()
+    const saved = roundTrip(canvasManager.serializeHistory())
+    expect(saved.entries).toHaveLength(5)
+    expect(saved.currentIndex).toBe(3)
+
+    const next = reload(shapeService)
+    expect(next.canvasManager.restoreHistory(saved)).toBe(true)
+    expect(next.canvasManager.getStats().history.labels).toEqual([
+      'Add rectangle',
+      'Add circle',
+      'Move rectangle',
+      'Change rectangle fill color',
+      'Delete circle',
+    ])
+
+    next.canvasManager.redo()
+    expect(next.shapeService.getShapeEntity(circle.id)).toBeUndefined()
+    next.canvasManager.goToHistory(1)
+    const restoredBox = next.shapeService.getShapeEntity(box.id)
+    expect(restoredBox?.transform.position).toEqual({ x: 0, y: 0 })
+    expect(restoredBox?.style.fillColor).toBe('#ff0000')
+    expect(next.shapeService.getShapeEntity(circle.id)).toBeDefined()
+    expect(next.shapeService.getShapeEntity(circle.id)?.createdAt).toBeInstanceOf(Date)
+
+    next.canvasManager.goToHistory(-1)
+    expect(next.shapeService.getAllShapeEntities()).toHaveLength(0)
+    next.canvasManager.goToHistory(3)
+    expect(next.shapeService.getShapeEntity(box.id)?.transform.position).toEqual({ x: 50, y: 60 })
+    expect(next.shapeService.getShapeEntity(box.id)?.style.fillColor).toBe('#00ff00')
+  })
+
+  it('should save to the history store and restore from it after a reload', async () => {
+    vi.useFakeTimers()
+    const store = new MemoryHistoryStore()
+    expect(await canvasManager.setHistoryStore(store)).toBe(false)
+    const { box } = buildHistory()
+    await vi.runAllTimersAsync()
+
+    const next = reload(shapeService)
+    expect(await next.canvasManager.setHistoryStore(store)).toBe(true)
+    expect(next.canvasManager.getStats().history.currentIndex).toBe(4)
+
+    next.canvasManager.goToHistory(1)
+    expect(next.shapeService.getShapeEntity(box.id)?.transform.position).toEqual({ x: 0, y: 0 })
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * 历史记录单元测试：命令合并、跳转、内存上限与画布操作的可读标签
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CanvasManager } from '../../src/managers/CanvasManager'
+import { type IRectangleEntity, ShapeEntityFactory } from '../../src/models/entities/Shape'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import { MultiPropertyChangeCommand } from '../../src/services/history/commands'
+import { HistoryService } from '../../src/services/history/historyService'
+import { LogService } from '../../src/services/logging/logService'
+import { SelectionMode, SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+
+describe('HistoryService', () => {
+  let history: HistoryService
+  let now: number
+
+  const setValue = (target: { value: number }, value: number, description = 'Set value') => {
+    const command = new MultiPropertyChangeCommand(target, description)
+    command.addChange('value', value)
+    history.execute(command)
+  }
+
+  beforeEach(() => {
+    now = 1000
+    vi.spyOn(Date, 'now').mockImplementation(() => now)
+    history = new HistoryService(new LogService())
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should merge commands with the same target and label inside the merge window', () => {
+    const target = { value: 0 }
+    for (let i = 1; i <= 200; i++) {
+      now += 10
+      setValue(target, i)
+    }
+    expect(history.getHistory()).toHaveLength(1)
+    expect(target.value).toBe(200)
+
+    history.undo()
+    expect(target.value).toBe(0)
+    history.redo()
+    expect(target.value).toBe(200)
+  })
+
+  it('should start a new step after the window, a new label, stopMerging or an undo', () => {
+    const target = { value: 0 }
+    setValue(target, 1)
+    now += 5000
+    setValue(target, 2)
+    expect(history.getHistory()).toHaveLength(2)
+
+    setValue(target, 3, 'Other')
+    expect(history.getHistory()).toHaveLength(3)
+
+    history.stopMerging()
+    setValue(target, 4, 'Other')
+    expect(history.getHistory()).toHaveLength(4)
+
+    history.undo()
+    setValue(target, 5, 'Other')
+    expect(history.getHistory()).toHaveLength(4)
+    history.undo()
+    expect(target.value).toBe(3)
+  })
+
+  it('should jump across several steps and notify once', () => {
+    const target = { value: 0 }
+    for (let i = 1; i <= 5; i++) {
+      history.stopMerging()
+      setValue(target, i)
+    }
+    const listener = vi.fn()
+    history.onDidChange(listener)
+
+    history.goTo(1)
+    expect(target.value).toBe(2)
+    expect(history.getCurrentIndex()).toBe(1)
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    history.goTo(-1)
+    expect(target.value).toBe(0)
+    history.goTo(99)
+    expect(target.value).toBe(5)
+    expect(history.getCurrentIndex()).toBe(4)
+    expect(listener).toHaveBeenCalledTimes(3)
+  })
+
+  it('should drop the oldest steps when over the memory limit', () => {
+    const target = { value: 'x' }
+    for (let i = 0; i < 10; i++) {
+      history.stopMerging()
+      const command = new MultiPropertyChangeCommand(target, 'Set text')
+      command.addChange('value', 'x'.repeat(1000))
+      history.execute(command)
+    }
+    expect(history.getHistory()).toHaveLength(10)
+
+    const limit = history.getMemorySize() / 2
+    history.setMaxHistoryMemory(limit)
+    expect(history.getHistory().length).toBeLessThanOrEqual(5)
+    expect(history.getMemorySize()).toBeLessThanOrEqual(limit)
+    expect(history.canUndo()).toBe(true)
+  })
+})
+
+describe('CanvasManager history', () => {
+  let canvasManager: CanvasManager
+  let shapeService: ShapeService
+  let historyService: HistoryService
+  let selectionService: SelectionService
+
+  const addBox = (x: number, y: number) => {
+    const box = ShapeEntityFactory.createRectangle(
+      { x, y },
+      { width: 40, height: 40 },
+      { fillColor: '#ff0000' }
+    )
+    canvasManager.addShape(box)
+    canvasManager.stopHistoryMerging()
+    return box
+  }
+  const moveTo = (id: string, x: number, y: number) => {
+    const shape = shapeService.getShapeEntity(id)
+    if (!shape) return
+    canvasManager.updateShape(id, {
+      transform: { ...shape.transform, position: { x, y } },
+    })
+  }
+  const labels = () => canvasManager.getStats().history.labels
+
+  beforeEach(() => {
+    const logService = new LogService()
+    shapeService = new ShapeService()
+    historyService = new HistoryService(logService)
+    selectionService = new SelectionService()
+    canvasManager = new CanvasManager(
+      logService,
+      shapeService,
+      selectionService,
+      new ClipboardService(),
+      historyService,
+      new ZIndexService(logService)
+    )
+  })
+
+  it('should record a drag as one labeled step that only stores the changed keys', async () => {
+    const box = addBox(0, 0)
+    for (let i = 1; i <= 200; i++) moveTo(box.id, i, i)
+
+    expect(labels()).toEqual(['Add rectangle', 'Move rectangle'])
+    expect(canvasManager.getStats().history.currentIndex).toBe(1)
+    // 状态在微任务中同步
+    await Promise.resolve()
+    expect(canvasManager.state.historyLabels).toEqual(['Add rectangle', 'Move rectangle'])
+    expect(canvasManager.state.historyIndex).toBe(1)
+    expect(historyService.getHistory()[1].toString()).toBe('Move rectangle (1 properties)')
+
+    canvasManager.undo()
+    expect(shapeService.getShapeEntity(box.id)?.transform.position).toEqual({ x: 0, y: 0 })
+  })
+
+  it('should label shape edits by what changed', () => {
+    const box = addBox(0, 0)
+    canvasManager.updateShape(box.id, {
+      size: { width: 80, height: 80 },
+    } as Partial<IRectangleEntity>)
+    canvasManager.stopHistoryMerging()
+    canvasManager.updateShape(box.id, { style: { ...box.style, fillColor: '#00ff00' } })
+    canvasManager.stopHistoryMerging()
+    canvasManager.updateShape(box.id, { visible: false })
+    canvasManager.stopHistoryMerging()
+    canvasManager.removeShape(box.id)
+
+    expect(labels()).toEqual([
+      'Add rectangle',
+      'Resize rectangle',
+      'Change rectangle fill color',
+      'Hide rectangle',
+      'Delete rectangle',
+    ])
+  })
+
+  it('should label group, align and reorder operations and undo a group move fully', () => {
+    const a = addBox(0, 0)
+    const b = addBox(100, 50)
+    selectionService.select(shapeService.getAllShapeEntities(), SelectionMode.MULTIPLE)
+    canvasManager.alignSelectedShapes('left')
+    canvasManager.bringToFront([a.id])
+    const group = canvasManager.groupSelectedShapes()
+    expect(group).not.toBeNull()
+    if (!group) return
+    canvasManager.stopHistoryMerging()
+
+    moveTo(group.id, group.transform.position.x + 10, group.transform.position.y + 20)
+    expect(shapeService.getShapeEntity(a.id)?.transform.position).toEqual({ x: 10, y: 20 })
+
+    expect(labels().slice(2)).toEqual(['Align left', 'Bring to front', 'Group', 'Move group'])
+
+    canvasManager.undo()
+    expect(shapeService.getShapeEntity(a.id)?.transform.position).toEqual({ x: 0, y: 0 })
+    expect(shapeService.getShapeEntity(b.id)?.transform.position).toEqual({ x: 0, y: 50 })
+  })
+
+  it('should merge repeated multi-shape batches and jump back with goToHistory', () => {
+    const a = addBox(0, 0)
+    const b = addBox(100, 0)
+    for (let i = 1; i <= 20; i++) {
+      canvasManager.beginBatch('Move 2 shapes')
+      moveTo(a.id, i, 0)
+      moveTo(b.id, 100 + i, 0)
+      canvasManager.endBatch()
+    }
+    expect(labels()).toEqual(['Add rectangle', 'Add rectangle', 'Move 2 shapes'])
+
+    canvasManager.goToHistory(0)
+    expect(shapeService.getShapeEntity(b.id)).toBeUndefined()
+    expect(shapeService.getShapeEntity(a.id)?.transform.position).toEqual({ x: 0, y: 0 })
+    expect(canvasManager.getStats().history.currentIndex).toBe(0)
+
+    canvasManager.goToHistory(2)
+    expect(shapeService.getShapeEntity(b.id)?.transform.position).toEqual({ x: 120, y: 0 })
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * ImportService SVG 导入测试
+ */
+
+import { describe, expect, it } from 'vitest'
+import type {
+  ICircleEntity,
+  IGroupEntity,
+  IPathEntity,
+  IPolygonEntity,
+  IRectangleEntity,
+  ITextEntity,
+  ShapeEntity,
+} from '../../src/models/entities/Shape'
+import { ImportService } from '../../src/services/import/importService'
+import { RenderableShapeView } from '../../src/views/RenderableShapeView'
+
+const svg = (body: string, attrs = '') =>
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ${attrs}>${body}</svg>`
+
+const byType = <T extends ShapeEntity>(shapes: ShapeEntity[], type: T['type']) =>
+  shapes.filter((shape): shape is T => shape.type === type)
+
+describe('ImportService SVG import', () => {
+  const importService = new ImportService()
+
+  it('should walk the tree in document order and map <g> to groups', async () => {
+    const result = await importService.importFromSVG(
+      svg(`
+        <rect x="0" y="0" width="10" height="10"/>
+        <g id="outer">
+          <circle cx="50" cy="50" r="5"/>
+          <g><line x1="0" y1="0" x2="20" y2="0" stroke="red"/></g>
+        </g>
+        <text x="5" y="30">Hello</text>
+      `)
+    )
+
+    expect(result.success).toBe(true)
+    const leaves = result.shapes
+      .filter((shape) => shape.type !== 'group')
+      .sort((a, b) => a.zIndex - b.zIndex)
+      .map((shape) => shape.type)
+    expect(leaves).toEqual(['rectangle', 'circle', 'polygon', 'text'])
+
+    const groups = byType<IGroupEntity>(result.shapes, 'group')
+    expect(groups).toHaveLength(2)
+    const outer = groups.find((group) => group.childrenIds.length === 2) as IGroupEntity
+    const circle = byType<ICircleEntity>(result.shapes, 'circle')[0]
+    expect(outer.childrenIds).toContain(circle.id)
+    expect(circle.metadata?.groupId).toBe(outer.id)
+    expect(outer.childrenIds).toContain(groups.find((group) => group !== outer)?.id)
+
+    const line = byType<IPolygonEntity>(result.shapes, 'polygon')[0]
+    expect(line.closed).toBe(false)
+    expect(line.style.fillColor).toBeUndefined()
+    expect(line.style.strokeColor).toBe('red')
+  })
+
+  it('should compose transforms and viewBox scaling', async () => {
+    const result = await importService.importFromSVG(
+      svg(
+        `<g transform="translate(10 20)">
+           <rect x="5" y="5" width="10" height="4" transform="rotate(90 5 5)"/>
+           <path d="M0 0 h10 v10 z" transform="scale(2)"/>
+         </g>`,
+        'width="200" height="200" viewBox="0 0 100 100"'
+      )
+    )
+
+    const rect = byType<IRectangleEntity>(result.shapes, 'rectangle')[0]
+    // viewBox 放大 2 倍：(10 + 5, 20 + 5) * 2
+    expect(rect.transform.position.x).toBeCloseTo(30)
+    expect(rect.transform.position.y).toBeCloseTo(50)
+    expect(rect.transform.rotation).toBeCloseTo(Math.PI / 2)
+    expect(rect.transform.scale).toEqual({ x: 2, y: 2 })
+
+    const path = byType<IPathEntity>(result.shapes, 'path')[0]
+    const bounds = new RenderableShapeView(path).bounds
+    expect(bounds.x).toBeCloseTo(20)
+    expect(bounds.y).toBeCloseTo(40)
+    expect(bounds.width).toBeCloseTo(40)
+  })
+
+  it('should resolve inherited presentation attributes, CSS rules and inline styles', async () => {
+    const result = await importService.importFromSVG(
+      svg(`
+        <style>
+          rect { fill: green; }
+          .accent { fill: #ff0000; stroke-dasharray: 4 2; }
+          #special { fill: blue; }
+        </style>
+        <g fill="orange" stroke="black" stroke-width="3" opacity="0.5" font-size="24" text-anchor="middle">
+          <rect class="accent" stroke="black" width="10" height="10"/>
+          <rect id="special" class="accent" width="10" height="10" style="fill: purple"/>
+          <circle r="4" fill-opacity="0.5"/>
+          <text font-weight="700">Hi</text>
+        </g>
+      `)
+    )
+
+    const [accent, special] = byType<IRectangleEntity>(result.shapes, 'rectangle')
+    expect(accent.style.fillColor).toBe('#ff0000')
+    expect(accent.style.strokeWidth).toBe(3)
+    expect(accent.style.lineDash).toEqual([4, 2])
+    expect(accent.style.opacity).toBe(0.5)
+    expect(special.style.fillColor).toBe('purple')
+
+    const circle = byType<ICircleEntity>(result.shapes, 'circle')[0]
+    expect(circle.style.fillColor).toBe('orange')
+    expect(circle.style.opacity).toBeCloseTo(0.25)
+
+    const text = byType<ITextEntity>(result.shapes, 'text')[0]
+    expect(text).toMatchObject({ fontSize: 24, fontWeight: 'bold', textAlign: 'center' })
+  })
+
+  it('should instantiate <use> references to <defs> and symbols', async () => {
+    const result = await importService.importFromSVG(
+      svg(`
+        <defs><circle id="dot" r="2"/></defs>
+        <symbol id="icon" viewBox="0 0 10 10"><rect width="10" height="10"/></symbol>
+        <use href="#dot" x="10" y="10" fill="red"/>
+        <use xlink:href="#icon" x="50" y="0" width="20" height="20"/>
+      `)
+    )
+
+    const circle = byType<ICircleEntity>(result.shapes, 'circle')[0]
+    expect(circle.transform.position).toEqual({ x: 10, y: 10 })
+    expect(circle.style.fillColor).toBe('red')
+
+    const rect = byType<IRectangleEntity>(result.shapes, 'rectangle')[0]
+    expect(rect.transform.position).toEqual({ x: 50, y: 0 })
+    expect(rect.transform.scale).toEqual({ x: 2, y: 2 })
+    expect(rect.metadata?.groupId).toBeDefined()
+  })
+
+  it('should report unsupported features instead of dropping them silently', async () => {
+    const result = await importService.importFromSVG(
+      svg(`
+        <linearGradient id="grad"><stop offset="0" stop-color="#123456"/></linearGradient>
+        <rect width="10" height="10" fill="url(#grad)" filter="url(#blur)"/>
+        <foreignObject width="10" height="10"/>
+      `)
+    )
+
+    const rect = byType<IRectangleEntity>(result.shapes, 'rectangle')[0]
+    expect(rect.style.fillColor).toBe('#123456')
+    expect(result.errors).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('"filter" is not supported'),
+        expect.stringContaining('url(#grad)'),
+        expect.stringContaining('<foreignObject>'),
+      ])
+    )
+  })
+
+  it('should fail on malformed SVG', async () => {
+    const result = await importService.importFromSVG('<svg><rect></svg>')
+
+    expect(result.success).toBe(false)
+  })
+})
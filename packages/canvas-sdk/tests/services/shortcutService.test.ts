@@ -0,0 +1,235 @@
+/**
+ * 快捷键服务单元测试：按键规范化、when 条件、和弦、用户键位表与冲突检测
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  formatKeybinding,
+  KeybindingError,
+  normalizeKeybinding,
+} from '../../src/services/shortcut/keybinding'
+import { ShortcutService } from '../../src/services/shortcut/shortcutService'
+import { mayOverlap, parseWhenExpression } from '../../src/services/shortcut/whenExpression'
+
+const press = (key: string, init: KeyboardEventInit = {}, target: EventTarget = document.body) => {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init })
+  target.dispatchEvent(event)
+  return event
+}
+
+describe('Keybinding normalization', () => {
+  it('should order modifiers and map mod to the platform key', () => {
+    expect(normalizeKeybinding('Shift+Mod+Z', 'other')).toBe('ctrl+shift+z')
+    expect(normalizeKeybinding('Shift+Mod+Z', 'mac')).toBe('shift+meta+z')
+    expect(normalizeKeybinding('  g   R ', 'other')).toBe('g r')
+    expect(normalizeKeybinding('ctrl++', 'other')).toBe('ctrl+plus')
+    expect(() => normalizeKeybinding('hyper+x', 'other')).toThrow(KeybindingError)
+  })
+
+  it('should format keybindings for display', () => {
+    expect(formatKeybinding('mod+shift+z', 'mac')).toBe('⇧⌘Z')
+    expect(formatKeybinding('mod+shift+z', 'other')).toBe('Ctrl+Shift+Z')
+    expect(formatKeybinding('g r', 'other')).toBe('G R')
+  })
+})
+
+describe('When expressions', () => {
+  it('should evaluate keys, negation, comparisons and precedence', () => {
+    const context = { activeTool: 'select', textEditing: false, selectionCount: 2 }
+    const lookup = (key: string) => context[key as keyof typeof context]
+    const evaluate = (source: string) => parseWhenExpression(source).evaluate(lookup)
+
+    expect(evaluate('activeTool == select && !textEditing')).toBe(true)
+    expect(evaluate("activeTool == 'text' || selectionCount >= 2")).toBe(true)
+    expect(evaluate('!(selectionCount > 1) || textEditing')).toBe(false)
+    expect(evaluate('missing')).toBe(false)
+    expect(() => parseWhenExpression('activeTool ==')).toThrow(KeybindingError)
+    expect(() => parseWhenExpression('a & b')).toThrow(KeybindingError)
+  })
+
+  it('should only treat explicitly exclusive conditions as disjoint', () => {
+    expect(mayOverlap('textEditing', '!textEditing')).toBe(false)
+    expect(mayOverlap('activeTool == select', 'activeTool == text && hasSelection')).toBe(false)
+    expect(mayOverlap('activeTool == select', 'hasSelection')).toBe(true)
+    expect(mayOverlap('a || b', '!a')).toBe(true)
+    expect(mayOverlap(undefined, '!textEditing')).toBe(true)
+  })
+})
+
+describe('ShortcutService', () => {
+  let service: ShortcutService
+
+  beforeEach(() => {
+    service = new ShortcutService()
+    service.enable()
+  })
+
+  afterEach(() => {
+    service.dispose()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should keep matching legacy key and modifier configs', () => {
+    const copy = vi.fn()
+    service.register('copy', { key: 'c', ctrlKey: true }, copy)
+
+    expect(press('c').defaultPrevented).toBe(false)
+    expect(press('c', { ctrlKey: true }).defaultPrevented).toBe(true)
+    expect(copy).toHaveBeenCalledTimes(1)
+    expect(service.getKeybindingsForCommand('copy')[0].key).toBe('ctrl+c')
+  })
+
+  it('should normalize Ctrl and Cmd through mod per platform', () => {
+    vi.spyOn(navigator, 'platform', 'get').mockReturnValue('MacIntel')
+    const mac = new ShortcutService()
+    mac.enable()
+    const undo = vi.fn()
+    mac.register('undo', { key: 'mod+z' }, undo)
+
+    press('z', { ctrlKey: true })
+    press('z', { metaKey: true, code: 'KeyZ' })
+    expect(undo).toHaveBeenCalledTimes(1)
+    expect(mac.getPlatform()).toBe('mac')
+    expect(service.getPlatform()).toBe('other')
+    mac.dispose()
+  })
+
+  it('should run chords and swallow an aborted chord', () => {
+    vi.useFakeTimers()
+    const rectangle = vi.fn()
+    const star = vi.fn()
+    const redo = vi.fn()
+    service.register('tool-star', { key: 'g' }, star)
+    service.register('go-rectangle', { key: 'g r' }, rectangle)
+    service.register('redo', { key: 'r' }, redo)
+
+    expect(press('g').defaultPrevented).toBe(true)
+    expect(service.getPendingChord()).toBe('g')
+    press('r')
+    expect(rectangle).toHaveBeenCalledTimes(1)
+    expect(redo).not.toHaveBeenCalled()
+
+    press('g')
+    expect(press('x').defaultPrevented).toBe(true)
+    expect(service.getPendingChord()).toBeNull()
+
+    press('g')
+    vi.advanceTimersByTime(2000)
+    press('r')
+    expect(redo).toHaveBeenCalledTimes(1)
+    expect(star).not.toHaveBeenCalled()
+  })
+
+  it('should gate bindings on when clauses with lazy context values', () => {
+    let editing = false
+    const selectTool = vi.fn()
+    const bold = vi.fn()
+    service.setContext('textEditing', () => editing)
+    service.register('tool-select', { key: 's', when: '!textEditing' }, selectTool)
+    service.register('bold', { key: 's', when: 'textEditing' }, bold)
+
+    press('s')
+    editing = true
+    press('s')
+
+    expect(selectTool).toHaveBeenCalledTimes(1)
+    expect(bold).toHaveBeenCalledTimes(1)
+    expect(service.getConflicts()).toEqual([])
+    expect(() => service.register('bad', { key: 'b', when: '&& x' }, vi.fn())).toThrow(
+      KeybindingError
+    )
+  })
+
+  it('should ignore keys typed into inputs', () => {
+    const handler = vi.fn()
+    service.register('tool-select', { key: 's' }, handler)
+    const input = document.createElement('input')
+    document.body.appendChild(input)
+
+    press('s', {}, input)
+    expect(handler).not.toHaveBeenCalled()
+    input.remove()
+  })
+
+  it('should apply, override and reset a JSON user keymap', () => {
+    const star = vi.fn()
+    const frame = vi.fn()
+    const listener = vi.fn()
+    service.register('tool-star', { key: 'g' }, star)
+    service.register('tool-frame', { key: 'f' }, frame)
+    service.onDidChangeKeymap(listener)
+
+    service.setUserKeymap(
+      JSON.stringify([
+        { key: 'shift+8', command: 'tool-star' },
+        { key: 'g', command: '-tool-star' },
+        { key: 'Mod+Shift+F', command: 'tool-frame', when: 'hasSelection' },
+      ])
+    )
+    press('g')
+    press('8', { shiftKey: true, code: 'Digit8' })
+    expect(star).toHaveBeenCalledTimes(1)
+    expect(service.getKeybindingsForCommand('tool-frame').map((binding) => binding.key)).toEqual([
+      'f',
+      'ctrl+shift+f',
+    ])
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.arrayContaining([{ key: 'ctrl+shift+f', command: 'tool-frame', when: 'hasSelection' }])
+    )
+
+    // 格式错误时保留原键位表
+    expect(() => service.setUserKeymap('{ not json')).toThrow(KeybindingError)
+    expect(() => service.setUserKeymap([{ key: 'x' } as never])).toThrow(/missing "command"/)
+    expect(service.getUserKeymap()).toHaveLength(3)
+
+    service.setKeybinding('tool-frame', 'alt+f')
+    expect(service.getKeybindingsForCommand('tool-frame').map((binding) => binding.key)).toEqual([
+      'alt+f',
+    ])
+    service.resetKeybinding('tool-frame')
+    expect(service.getKeybindingsForCommand('tool-frame')[0]).toMatchObject({
+      key: 'f',
+      source: 'default',
+    })
+
+    service.resetKeymap()
+    expect(service.getUserKeymap()).toEqual([])
+    press('g')
+    expect(star).toHaveBeenCalledTimes(2)
+  })
+
+  it('should report duplicate and chord-shadowed keybindings', () => {
+    service.register('tool-draw', { key: 'd' }, vi.fn())
+    service.register('tool-diamond', { key: 'd' }, vi.fn())
+    service.register('group', { key: 'mod+g', when: 'hasSelection' }, vi.fn())
+    service.register('grid', { key: 'ctrl+g', when: '!hasSelection' }, vi.fn())
+    service.setUserKeymap([{ key: 'd r', command: 'tool-rectangle' }])
+
+    const conflicts = service.getConflicts()
+    expect(conflicts).toHaveLength(2)
+    expect(conflicts[0]).toMatchObject({ key: 'd', kind: 'duplicate' })
+    expect(conflicts[0].bindings.map((binding) => binding.command)).toEqual([
+      'tool-draw',
+      'tool-diamond',
+    ])
+    expect(conflicts[1]).toMatchObject({ key: 'd', kind: 'shadowed' })
+    expect(conflicts[1].bindings.map((binding) => binding.command)).toContain('tool-rectangle')
+  })
+
+  it('should reroute a command handler and restore it', () => {
+    const original = vi.fn()
+    const override = vi.fn()
+    service.register('tool-select', { key: 's' }, original)
+    const restore = service.registerCommand('tool-select', override)
+
+    press('s')
+    restore()
+    press('s')
+
+    expect(override).toHaveBeenCalledTimes(1)
+    expect(original).toHaveBeenCalledTimes(1)
+    expect(service.executeCommand('tool-select')).toBe(true)
+    expect(service.executeCommand('missing')).toBe(false)
+  })
+})
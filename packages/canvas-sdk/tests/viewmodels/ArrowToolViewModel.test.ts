@@ -0,0 +1,203 @@
+/**
+ * ArrowToolViewModel 单元测试：连接线绑定、重新路由、撤销、箭头、标签与导入导出
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import { CanvasManager } from '../../src/managers/CanvasManager'
+import type { ICanvasManager } from '../../src/managers/ICanvasManager'
+import {
+  type IConnectorEntity,
+  type IRectangleEntity,
+  ShapeEntityFactory,
+} from '../../src/models/entities/Shape'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import { ExportService } from '../../src/services/export/exportService'
+import { HistoryService } from '../../src/services/history/historyService'
+import { ImportService } from '../../src/services/import/importService'
+import { LogService } from '../../src/services/logging/logService'
+import { SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+import { ArrowToolViewModel } from '../../src/viewmodels/tools/ArrowToolViewModel'
+import { getConnectorArrowheads, getConnectorLabelBox } from '../../src/views/ConnectorGeometry'
+import { localToWorld } from '../../src/views/ShapeGeometry'
+
+describe('ArrowToolViewModel', () => {
+  let canvasManager: CanvasManager
+  let shapeService: ShapeService
+  let viewModel: ArrowToolViewModel
+  let boxA: IRectangleEntity
+  let boxB: IRectangleEntity
+
+  const connectors = () =>
+    shapeService.getAllShapeEntities().filter((s): s is IConnectorEntity => s.type === 'connector')
+  const connector = () => connectors()[0]
+  /** 连接线端点的世界坐标 */
+  const ends = (c: IConnectorEntity = connector()) => [
+    localToWorld(c.transform, c.waypoints[0]),
+    localToWorld(c.transform, c.waypoints[c.waypoints.length - 1]),
+  ]
+  const drag = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    viewModel.handleMouseDown(from.x, from.y)
+    viewModel.handleMouseMove((from.x + to.x) / 2, (from.y + to.y) / 2)
+    viewModel.handleMouseUp(to.x, to.y)
+  }
+  const moveTo = (shape: IRectangleEntity, x: number, y: number) =>
+    canvasManager.updateShape(shape.id, {
+      transform: { ...shape.transform, position: { x, y } },
+    })
+
+  beforeEach(() => {
+    const logService = new LogService()
+    shapeService = new ShapeService()
+    canvasManager = new CanvasManager(
+      logService,
+      shapeService,
+      new SelectionService(),
+      new ClipboardService(),
+      new HistoryService(logService),
+      new ZIndexService(logService)
+    )
+    const ViewModelClass = ArrowToolViewModel as unknown as {
+      new (canvasManager: ICanvasManager): ArrowToolViewModel
+    }
+    viewModel = new ViewModelClass(canvasManager)
+    viewModel.activate()
+
+    const style = { fillColor: '#ffffff', strokeColor: '#000000', strokeWidth: 1 }
+    boxA = ShapeEntityFactory.createRectangle({ x: 0, y: 0 }, { width: 100, height: 100 }, style)
+    boxB = ShapeEntityFactory.createRectangle({ x: 300, y: 0 }, { width: 100, height: 100 }, style)
+    canvasManager.addShape(boxA)
+    canvasManager.addShape(boxB)
+  })
+
+  it('should bind both ends to the shapes under the pointer and clip to their outlines', () => {
+    drag({ x: 40, y: 50 }, { x: 360, y: 50 })
+
+    expect(connectors()).toHaveLength(1)
+    const c = connector()
+    expect(c.start).toMatchObject({ shapeId: boxA.id })
+    expect(c.end).toMatchObject({ shapeId: boxB.id })
+    expect(c.start.anchor).toBeUndefined()
+    const [start, end] = ends()
+    expect(start.x).toBeCloseTo(100)
+    expect(start.y).toBeCloseTo(50)
+    expect(end.x).toBeCloseTo(300)
+    expect(end.y).toBeCloseTo(50)
+    expect(c.endArrowhead).toBe('arrow')
+    expect(viewModel.state.currentShape).toBeNull()
+  })
+
+  it('should re-route when a bound shape moves and undo both in one step', () => {
+    drag({ x: 40, y: 50 }, { x: 360, y: 50 })
+    moveTo(boxB, 300, 200)
+
+    let [start, end] = ends()
+    // 浮动锚点朝向另一形状中心
+    expect(start.x).toBeCloseTo(100)
+    expect(start.y).toBeCloseTo(50 + 200 / 6)
+    expect(end.x).toBeCloseTo(300)
+    expect(end.y).toBeCloseTo(250 - 200 / 6)
+
+    canvasManager.undo()
+    ;[start, end] = ends()
+    expect(shapeService.getShapeEntity(boxB.id)?.transform.position).toEqual({ x: 300, y: 0 })
+    expect(end).toMatchObject({ x: 300, y: 50 })
+
+    canvasManager.redo()
+    ;[, end] = ends()
+    expect(end.y).toBeCloseTo(250 - 200 / 6)
+  })
+
+  it('should keep fixed anchors attached when a bound shape is resized', () => {
+    drag({ x: 98, y: 52 }, { x: 302, y: 48 })
+    expect(connector().start.anchor).toEqual({ x: 1, y: 0.5 })
+    expect(connector().end.anchor).toEqual({ x: 0, y: 0.5 })
+
+    canvasManager.updateShape(boxA.id, {
+      size: { width: 150, height: 60 },
+    } as Partial<IRectangleEntity>)
+    expect(ends()[0]).toMatchObject({ x: 150, y: 30 })
+
+    canvasManager.undo()
+    expect((shapeService.getShapeEntity(boxA.id) as IRectangleEntity).size.width).toBe(100)
+    expect(ends()[0]).toMatchObject({ x: 100, y: 50 })
+  })
+
+  it('should route elbow connectors orthogonally and curved connectors as a cubic', () => {
+    moveTo(boxB, 300, 200)
+    viewModel.setRouting('elbow')
+    drag({ x: 100, y: 50 }, { x: 300, y: 250 })
+
+    const elbow = connector()
+    expect(elbow.routing).toBe('elbow')
+    const points = elbow.waypoints.map((p) => localToWorld(elbow.transform, p))
+    expect(points).toEqual([
+      { x: 100, y: 50 },
+      { x: 200, y: 50 },
+      { x: 200, y: 250 },
+      { x: 300, y: 250 },
+    ])
+
+    moveTo(boxB, 300, 300)
+    const moved = connector().waypoints.map((p) => localToWorld(connector().transform, p))
+    for (let i = 1; i < moved.length; i++) {
+      const horizontal = Math.abs(moved[i].y - moved[i - 1].y) < 1e-6
+      const vertical = Math.abs(moved[i].x - moved[i - 1].x) < 1e-6
+      expect(horizontal || vertical).toBe(true)
+    }
+    expect(moved[moved.length - 1]).toMatchObject({ x: 300, y: 350 })
+
+    viewModel.setRouting('curved')
+    viewModel.setArrowheads('circle', 'triangle')
+    drag({ x: 40, y: 40 }, { x: 340, y: 340 })
+    const curved = connectors()[1]
+    expect(curved.pathData).toMatch(/^M[^ ]+ C[^ ]+ [^ ]+ [^ ]+$/)
+    expect(getConnectorArrowheads(curved).map((head) => [head.type, head.closed])).toEqual([
+      ['circle', true],
+      ['triangle', true],
+    ])
+  })
+
+  it('should detach connectors from removed shapes and restore the binding on undo', () => {
+    drag({ x: 40, y: 50 }, { x: 360, y: 50 })
+    canvasManager.removeShape(boxB.id)
+
+    expect(connector().end.shapeId).toBeUndefined()
+    expect(ends()[1]).toMatchObject({ x: 300, y: 50 })
+
+    canvasManager.undo()
+    expect(shapeService.getShapeEntity(boxB.id)).toBeDefined()
+    expect(connector().end.shapeId).toBe(boxB.id)
+    moveTo(boxB, 300, 200)
+    expect(ends()[1].y).toBeGreaterThan(200)
+  })
+
+  it('should hit-test labels and export and import bound connectors', async () => {
+    drag({ x: 40, y: 50 }, { x: 360, y: 50 })
+    canvasManager.updateShape(connector().id, {
+      label: { text: 'yes' },
+    } as Partial<IConnectorEntity>)
+
+    const box = getConnectorLabelBox(connector())
+    expect(box).not.toBeNull()
+    // 标签位于路径中点，偏离线条但在标签框内也能命中
+    expect(canvasManager.hitTest(200, 58)).toBe(connector().id)
+    expect(canvasManager.hitTest(200, 70)).toBeNull()
+
+    const exporter = new ExportService()
+    const shapes = shapeService.getAllShapeEntities()
+    const svg = exporter.exportToSVG(shapes)
+    expect(svg).toContain('<polyline points=')
+    expect(svg).toMatch(/<text [^>]*text-anchor="middle"[^>]*>yes<\/text>/)
+
+    const result = await new ImportService().importFromJSON(exporter.exportToJSON(shapes))
+    expect(result.success).toBe(true)
+    const imported = result.shapes.find((s): s is IConnectorEntity => s.type === 'connector')
+    const importedIds = result.shapes.map((s) => s.id)
+    expect(imported?.label?.text).toBe('yes')
+    expect(importedIds).toContain(imported?.start.shapeId)
+    expect(importedIds).toContain(imported?.end.shapeId)
+    expect(imported?.start.shapeId).not.toBe(boxA.id)
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * DrawToolViewModel 单元测试：压感采样、笔迹轮廓与指针事件
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { ICanvasManager } from '../../src/managers/CanvasManager'
+import type { IToolManager } from '../../src/managers/ToolManager'
+import type { IFreehandEntity } from '../../src/models/entities/Shape'
+import { ExportService } from '../../src/services/export/exportService'
+import { InteractionService } from '../../src/services/interaction/interactionService'
+import type { ILogService } from '../../src/services/logging/logService'
+import type { IPointerSample } from '../../src/viewmodels/interfaces/IViewModel'
+import { DrawToolViewModel } from '../../src/viewmodels/tools/DrawToolViewModel'
+import { RenderableShapeView } from '../../src/views/RenderableShapeView'
+import { hitTestShape } from '../../src/views/ShapeGeometry'
+
+const sample = (x: number, y: number, pressure: number): IPointerSample => ({
+  x,
+  y,
+  pressure,
+  tiltX: 0,
+  tiltY: 0,
+  timestamp: 0,
+})
+
+function createViewModel() {
+  const canvasManager = { addShape: vi.fn() } as unknown as ICanvasManager
+  const ViewModelClass = DrawToolViewModel as unknown as {
+    new (canvasManager: ICanvasManager): DrawToolViewModel
+  }
+  const viewModel = new ViewModelClass(canvasManager)
+  viewModel.activate()
+  const added = () => vi.mocked(canvasManager.addShape).mock.calls.map(([shape]) => shape)
+  return { viewModel, added }
+}
+
+/** 沿 x 轴一笔，压力由 from 线性变化到 to */
+function drawLine(viewModel: DrawToolViewModel, from: number, to: number) {
+  viewModel.handleMouseDown(100, 50, undefined, [sample(100, 50, from)])
+  for (let i = 1; i <= 40; i++) {
+    const pressure = from + ((to - from) * i) / 40
+    viewModel.handleMouseMove(100 + i * 5, 50, undefined, [sample(100 + i * 5, 50, pressure)])
+  }
+  viewModel.handleMouseUp(300, 50, undefined, [sample(300, 50, 0)])
+}
+
+describe('DrawToolViewModel', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should create a freehand shape whose width follows pen pressure', () => {
+    const { viewModel, added } = createViewModel()
+    viewModel.setStrokeWidth(10)
+    drawLine(viewModel, 0.1, 1)
+
+    expect(added()).toHaveLength(1)
+    const shape = added()[0] as IFreehandEntity
+    expect(shape.type).toBe('freehand')
+    expect(shape.transform.position).toEqual({ x: 100, y: 50 })
+    expect(shape.points[0]).toMatchObject({ x: 0, y: 0, pressure: 0.1 })
+    // 抬笔时压力为 0，沿用上一采样
+    expect(shape.points[shape.points.length - 1]).toMatchObject({ x: 200, pressure: 1 })
+    expect(shape.style.fillColor).toBe('#f59e0b')
+    expect(shape.brush.size).toBe(10)
+
+    // 重压处笔触更宽
+    expect(hitTestShape(shape, { x: 290, y: 55 })).toBe(true)
+    expect(hitTestShape(shape, { x: 110, y: 55 })).toBe(false)
+    expect(hitTestShape(shape, { x: 200, y: 50 })).toBe(true)
+    expect(viewModel.state.points).toHaveLength(0)
+  })
+
+  it('should fall back to simulated pressure for mouse input and leave a dot on click', () => {
+    const { viewModel, added } = createViewModel()
+    viewModel.handleMouseDown(10, 10)
+    viewModel.handleMouseMove(40, 10)
+    viewModel.handleMouseUp(80, 10)
+    viewModel.handleMouseDown(200, 200)
+    viewModel.handleMouseUp(200, 200)
+
+    const [line, dot] = added() as IFreehandEntity[]
+    expect(line.points.map((p) => p.pressure)).toEqual([0.5, 0.5, 0.5])
+    expect(line.pathData).toMatch(/^M.* Z$/)
+
+    const bounds = new RenderableShapeView(dot).bounds
+    expect(bounds.x + bounds.width / 2).toBeCloseTo(200, 0)
+    expect(bounds.width).toBeCloseTo(3, 0)
+  })
+
+  it('should apply brush options and export the outline as a filled path', () => {
+    const { viewModel, added } = createViewModel()
+    viewModel.setStrokeWidth(8)
+    viewModel.setBrushOptions({ thinning: 0, taperStart: 40, taperEnd: 40, smoothing: 2 })
+    expect(viewModel.state.brush).toMatchObject({ thinning: 0, smoothing: 1, taperEnd: 40 })
+    drawLine(viewModel, 0.5, 0.5)
+
+    const shape = added()[0] as IFreehandEntity
+    // 中段等宽，两端渐细
+    expect(hitTestShape(shape, { x: 200, y: 53.5 })).toBe(true)
+    expect(hitTestShape(shape, { x: 102, y: 53.5 })).toBe(false)
+
+    const svg = new ExportService().exportToSVG([shape])
+    expect(svg).toMatch(/<path d="M[^"]+Z" transform="translate\(100 50\)" fill="#f59e0b"/)
+  })
+
+  it('should forward pointer pressure and coalesced samples from the canvas', () => {
+    class TestPointerEvent extends MouseEvent {
+      pointerId: number
+      pointerType: string
+      pressure: number
+      tiltX = 0
+      tiltY = 0
+      private coalesced: TestPointerEvent[]
+
+      constructor(type: string, init: MouseEventInit & Record<string, unknown> = {}) {
+        super(type, init)
+        this.pointerId = 1
+        this.pointerType = 'pen'
+        this.pressure = (init.pressure as number) ?? 0
+        this.coalesced = (init.coalesced as TestPointerEvent[]) ?? []
+      }
+
+      getCoalescedEvents() {
+        return this.coalesced
+      }
+    }
+    vi.stubGlobal('PointerEvent', TestPointerEvent)
+
+    const canvas = Object.assign(document.createElement('canvas'), { width: 200, height: 100 })
+    vi.spyOn(canvas, 'getBoundingClientRect').mockReturnValue({
+      left: 0,
+      top: 0,
+      width: 400,
+      height: 200,
+    } as DOMRect)
+    const toolManager = {
+      handleMouseDown: vi.fn(),
+      handleMouseMove: vi.fn(),
+      handleMouseUp: vi.fn(),
+    }
+    const service = new (
+      InteractionService as unknown as { new (logger: ILogService): InteractionService }
+    )({ info: vi.fn(), debug: vi.fn() } as unknown as ILogService)
+    service.initialize(canvas)
+    service.setToolManager(toolManager as unknown as IToolManager)
+
+    canvas.dispatchEvent(
+      new TestPointerEvent('pointerdown', { clientX: 10, clientY: 10, pressure: 0.3 })
+    )
+    const coalesced = [
+      new TestPointerEvent('pointermove', { clientX: 20, clientY: 10, pressure: 0.4 }),
+      new TestPointerEvent('pointermove', { clientX: 30, clientY: 10, pressure: 0.6 }),
+    ]
+    canvas.dispatchEvent(
+      new TestPointerEvent('pointermove', { clientX: 30, clientY: 10, pressure: 0.6, coalesced })
+    )
+    // 指针事件之后的兼容鼠标事件被忽略
+    canvas.dispatchEvent(new MouseEvent('mousemove', { clientX: 30, clientY: 10 }))
+    canvas.dispatchEvent(new TestPointerEvent('pointerup', { clientX: 30, clientY: 10 }))
+
+    expect(toolManager.handleMouseDown.mock.calls[0][0]).toMatchObject({
+      point: { x: 5, y: 5 },
+      pointerType: 'pen',
+      samples: [{ x: 5, y: 5, pressure: 0.3 }],
+    })
+    expect(toolManager.handleMouseMove).toHaveBeenCalledTimes(1)
+    expect(toolManager.handleMouseMove.mock.calls[0][0].samples).toMatchObject([
+      { x: 10, pressure: 0.4 },
+      { x: 15, pressure: 0.6 },
+    ])
+    expect(toolManager.handleMouseUp).toHaveBeenCalledTimes(1)
+    service.dispose()
+  })
+})
@@ -0,0 +1,196 @@
+/**
+ * EraserToolViewModel 单元测试：切断线条、区域擦除、整体擦除与单次撤销
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import { CanvasManager } from '../../src/managers/CanvasManager'
+import type { ICanvasManager } from '../../src/managers/ICanvasManager'
+import {
+  type IFreehandEntity,
+  type IPathEntity,
+  ShapeEntityFactory,
+} from '../../src/models/entities/Shape'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import { HistoryService } from '../../src/services/history/historyService'
+import { LogService } from '../../src/services/logging/logService'
+import { SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+import { EraserToolViewModel } from '../../src/viewmodels/tools/EraserToolViewModel'
+import { splitPolyline } from '../../src/viewmodels/tools/eraser'
+import { createFreehandPathData, hitTestShape } from '../../src/views/ShapeGeometry'
+
+const brush = { size: 4, thinning: 0, smoothing: 0, taperStart: 0, taperEnd: 0 }
+
+function createFreehandLine() {
+  const points = Array.from({ length: 21 }, (_, i) => ({ x: i * 10, y: 0, pressure: 0.5 }))
+  return ShapeEntityFactory.createFreehand(
+    points,
+    brush,
+    createFreehandPathData(points, brush),
+    { x: 100, y: 100 },
+    { fillColor: '#000' }
+  )
+}
+
+describe('EraserToolViewModel', () => {
+  let canvasManager: CanvasManager
+  let shapeService: ShapeService
+  let viewModel: EraserToolViewModel
+
+  const shapes = () => shapeService.getAllShapeEntities()
+
+  /** 竖直划过 x 处 */
+  const swipe = (x: number, fromY: number, toY: number) => {
+    viewModel.handleMouseDown(x, fromY)
+    for (let i = 1; i <= 4; i++) viewModel.handleMouseMove(x, fromY + ((toY - fromY) * i) / 4)
+    viewModel.handleMouseUp(x, toY)
+  }
+
+  beforeEach(() => {
+    const logService = new LogService()
+    shapeService = new ShapeService()
+    canvasManager = new CanvasManager(
+      logService,
+      shapeService,
+      new SelectionService(),
+      new ClipboardService(),
+      new HistoryService(logService),
+      new ZIndexService(logService)
+    )
+    const ViewModelClass = EraserToolViewModel as unknown as {
+      new (canvasManager: ICanvasManager): EraserToolViewModel
+    }
+    viewModel = new ViewModelClass(canvasManager)
+    viewModel.activate()
+  })
+
+  it('should split a freehand stroke where the eraser crosses it', () => {
+    const stroke = createFreehandLine()
+    canvasManager.addShape(stroke)
+    viewModel.setSize(10)
+    swipe(200, 80, 120)
+
+    const pieces = shapes() as IFreehandEntity[]
+    expect(pieces).toHaveLength(2)
+    expect(pieces.every((piece) => piece.type === 'freehand')).toBe(true)
+    expect(pieces.every((piece) => piece.transform.position.x === 100)).toBe(true)
+    const ends = pieces.map((piece) => piece.points.map((p) => p.x)).sort((a, b) => a[0] - b[0])
+    expect(ends[0][0]).toBe(0)
+    expect(ends[0][ends[0].length - 1]).toBeCloseTo(93, 0)
+    expect(ends[1][0]).toBeCloseTo(107, 0)
+    expect(ends[1][ends[1].length - 1]).toBe(200)
+    expect(hitTestShape(pieces[0], { x: 200, y: 100 })).toBe(false)
+    expect(hitTestShape(pieces[1], { x: 200, y: 100 })).toBe(false)
+  })
+
+  it('should cut an open path into separate paths', () => {
+    const path = ShapeEntityFactory.createPath(
+      'M0,0 L100,0 L100,100',
+      { x: 0, y: 0 },
+      {
+        strokeColor: '#000',
+        strokeWidth: 2,
+      }
+    )
+    canvasManager.addShape(path)
+    viewModel.setSize(10)
+    swipe(50, -20, 20)
+
+    const pieces = shapes() as IPathEntity[]
+    expect(pieces).toHaveLength(2)
+    expect(pieces.every((piece) => piece.type === 'path' && !piece.closed)).toBe(true)
+    expect(pieces.some((piece) => piece.pathData.endsWith('L100,100'))).toBe(true)
+    expect(pieces.every((piece) => piece.style.strokeWidth === 2)).toBe(true)
+  })
+
+  it('should leave filled shapes alone in stroke mode and subtract them in area mode', () => {
+    const rect = ShapeEntityFactory.createRectangle(
+      { x: 0, y: 0 },
+      { width: 100, height: 50 },
+      {
+        fillColor: '#f00',
+      }
+    )
+    canvasManager.addShape(rect)
+    viewModel.setSize(20)
+    swipe(50, -20, 70)
+    expect(shapes()).toHaveLength(1)
+    expect(shapes()[0].id).toBe(rect.id)
+
+    viewModel.setMode('area')
+    swipe(50, -20, 70)
+
+    const pieces = shapes() as IPathEntity[]
+    expect(pieces).toHaveLength(2)
+    expect(pieces.every((piece) => piece.type === 'path' && piece.closed)).toBe(true)
+    expect(pieces.every((piece) => piece.style.fillColor === '#f00')).toBe(true)
+    expect(pieces.some((piece) => hitTestShape(piece, { x: 50, y: 25 }))).toBe(false)
+    expect(pieces.some((piece) => hitTestShape(piece, { x: 20, y: 25 }))).toBe(true)
+    expect(pieces.some((piece) => hitTestShape(piece, { x: 80, y: 25 }))).toBe(true)
+  })
+
+  it('should remove whole shapes in object mode', () => {
+    canvasManager.addShape(createFreehandLine())
+    const other = ShapeEntityFactory.createCircle({ x: 500, y: 500 }, 20, { fillColor: '#00f' })
+    canvasManager.addShape(other)
+    viewModel.setMode('object')
+    swipe(110, 90, 110)
+
+    expect(shapes().map((shape) => shape.id)).toEqual([other.id])
+  })
+
+  it('should undo and redo a whole drag as a single step', () => {
+    const stroke = createFreehandLine()
+    canvasManager.addShape(stroke)
+    viewModel.setSize(10)
+    // 一次拖动切两刀
+    viewModel.handleMouseDown(150, 80)
+    viewModel.handleMouseMove(150, 120)
+    viewModel.handleMouseMove(250, 120)
+    viewModel.handleMouseMove(250, 80)
+    viewModel.handleMouseUp(250, 80)
+    expect(shapes()).toHaveLength(3)
+
+    canvasManager.undo()
+    expect(shapes().map((shape) => shape.id)).toEqual([stroke.id])
+
+    canvasManager.redo()
+    expect(shapes()).toHaveLength(3)
+    expect(shapes().some((shape) => shape.id === stroke.id)).toBe(false)
+
+    canvasManager.undo()
+    canvasManager.undo()
+    expect(shapes()).toHaveLength(0)
+  })
+
+  it('should not erase locked shapes', () => {
+    const stroke = { ...createFreehandLine(), locked: true }
+    canvasManager.addShape(stroke)
+    swipe(200, 80, 120)
+
+    expect(shapes()).toEqual([expect.objectContaining({ id: stroke.id })])
+  })
+})
+
+describe('splitPolyline', () => {
+  const lerp = (a: { x: number; y: number }, b: { x: number; y: number }, t: number) => ({
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+  })
+
+  it('should rejoin the runs around the start of a closed polyline', () => {
+    const square = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+      { x: 0, y: 10 },
+    ]
+    const runs = splitPolyline(square, true, (p) => p.x > 9 && p.y > 4 && p.y < 6, lerp, 1)
+
+    expect(runs).toHaveLength(1)
+    expect(runs?.[0][0].y).toBeCloseTo(6, 1)
+    expect(runs?.[0][runs[0].length - 1].y).toBeCloseTo(4, 1)
+    expect(splitPolyline(square, true, () => false, lerp, 1)).toBeNull()
+  })
+})
@@ -0,0 +1,179 @@
+/**
+ * EyedropperToolViewModel 单元测试：帧缓冲采样、平均半径、放大镜、修饰键与最近颜色
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ICanvasManager } from '../../src/managers/CanvasManager'
+import { ShapeEntityFactory } from '../../src/models/entities/Shape'
+import { ColorHistoryService } from '../../src/services/color/colorHistoryService'
+import { ConfigurationService } from '../../src/services/configuration/configurationService'
+import type { ILogService } from '../../src/services/logging/logService'
+import {
+  CanvasRenderingService,
+  type ICanvasRenderingService,
+} from '../../src/services/rendering/renderingService'
+import { EyedropperToolViewModel } from '../../src/viewmodels/tools/EyedropperToolViewModel'
+
+const WIDTH = 100
+const HEIGHT = 100
+
+/** 左半红色、右半蓝色，底部 20 行为半透明红色，右下角全透明 */
+function createFramebuffer() {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4)
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const i = (y * WIDTH + x) * 4
+      if (y >= 80) {
+        if (x < 50) data.set([255, 0, 0, 128], i)
+      } else {
+        data.set(x < 50 ? [255, 0, 0, 255] : [0, 0, 255, 255], i)
+      }
+    }
+  }
+  return data
+}
+
+function createRenderingService(viewport = { x: 0, y: 0, zoom: 1 }) {
+  const framebuffer = createFramebuffer()
+  const context = {
+    width: WIDTH,
+    height: HEIGHT,
+    getImageData: vi.fn((x: number, y: number, width: number, height: number) => {
+      const data = new Uint8ClampedArray(width * height * 4)
+      for (let row = 0; row < height; row++) {
+        const from = ((y + row) * WIDTH + x) * 4
+        data.set(framebuffer.subarray(from, from + width * 4), row * width * 4)
+      }
+      return { width, height, data }
+    }),
+  }
+  const engine = {
+    render: vi.fn(),
+    getContext: () => context,
+    getViewport: () => ({ ...viewport, width: WIDTH, height: HEIGHT }),
+  }
+  const service = new (
+    CanvasRenderingService as unknown as { new (logger: ILogService): CanvasRenderingService }
+  )({ info: vi.fn(), debug: vi.fn() } as unknown as ILogService)
+  ;(service as unknown as { renderEngine: unknown }).renderEngine = engine
+  return { service, engine, context }
+}
+
+describe('EyedropperToolViewModel', () => {
+  let canvasManager: ICanvasManager
+  let colorHistory: ColorHistoryService
+  const shape = ShapeEntityFactory.createRectangle({ x: 0, y: 0 }, undefined, {
+    fillColor: '#00ff00',
+    fillPaint: { type: 'linear-gradient', stops: [] },
+    strokeColor: '#000000',
+  })
+
+  const createViewModel = (renderingService: ICanvasRenderingService) => {
+    const ViewModelClass = EyedropperToolViewModel as unknown as {
+      new (
+        canvasManager: ICanvasManager,
+        renderingService: ICanvasRenderingService,
+        colorHistory: ColorHistoryService
+      ): EyedropperToolViewModel
+    }
+    const viewModel = new ViewModelClass(canvasManager, renderingService, colorHistory)
+    viewModel.activate()
+    return viewModel
+  }
+
+  beforeEach(() => {
+    canvasManager = {
+      hitTest: vi.fn(() => shape.id),
+      getShapesByZOrder: vi.fn(() => [shape]),
+      getSelectedShapes: vi.fn(() => [shape]),
+      updateShape: vi.fn(),
+      beginBatch: vi.fn(),
+      endBatch: vi.fn(),
+    } as unknown as ICanvasManager
+    colorHistory = new (
+      ColorHistoryService as unknown as {
+        new (config: ConfigurationService): ColorHistoryService
+      }
+    )(new ConfigurationService())
+  })
+
+  it('should sample framebuffer pixels and composite transparency over the background', () => {
+    const { service, engine } = createRenderingService()
+    const viewModel = createViewModel(service)
+
+    expect(viewModel.pickColorAt(10, 10)).toBe('#ff0000')
+    expect(viewModel.pickColorAt(60, 10)).toBe('#0000ff')
+    expect(viewModel.pickColorAt(10, 90)).toBe('#ff7f7f')
+    expect(viewModel.pickColorAt(90, 90)).toBe('#ffffff')
+    viewModel.setBackgroundColor('#000000')
+    expect(viewModel.pickColorAt(90, 90)).toBe('#000000')
+    expect(engine.render).toHaveBeenCalled()
+  })
+
+  it('should average colors within the sample radius', () => {
+    const { service } = createRenderingService()
+    const viewModel = createViewModel(service)
+
+    expect(viewModel.pickColorAt(50, 10)).toBe('#0000ff')
+    viewModel.setSampleRadius(3)
+    const mixed = viewModel.pickColorAt(50, 10) ?? ''
+    const [r, b] = [1, 5].map((i) => Number.parseInt(mixed.slice(i, i + 2), 16))
+    expect(r).toBeGreaterThan(80)
+    expect(b).toBeGreaterThan(80)
+    viewModel.setSampleRadius(99)
+    expect(viewModel.state.sampleRadius).toBe(10)
+  })
+
+  it('should follow the viewport transform and fill the loupe outside the canvas', () => {
+    const { service } = createRenderingService({ x: 10, y: 0, zoom: 2 })
+    const viewModel = createViewModel(service)
+
+    // (15, 2) -> 画布 (10, 4)
+    viewModel.handleMouseMove(15, 2)
+    const loupe = viewModel.state.loupe
+    expect(loupe).toMatchObject({ x: 10, y: 4, size: 11, color: '#ff0000' })
+    expect(loupe?.pixels).toHaveLength(121)
+    expect(loupe?.pixels[60]).toBe('#ff0000')
+    // 左上角超出画布，按背景色显示
+    expect(loupe?.pixels[0]).toBe('#ffffff')
+  })
+
+  it('should apply to fill, stroke with Shift, or only pick with Alt', () => {
+    const { service } = createRenderingService()
+    const viewModel = createViewModel(service)
+    const pick = (x: number, init: MouseEventInit = {}) => {
+      viewModel.handleMouseDown(x, 10)
+      viewModel.handleMouseUp(x, 10, new MouseEvent('mouseup', init))
+    }
+
+    pick(10)
+    expect(canvasManager.beginBatch).toHaveBeenCalledTimes(1)
+    expect(canvasManager.updateShape).toHaveBeenLastCalledWith(shape.id, {
+      style: { fillColor: '#ff0000', strokeColor: '#000000' },
+    })
+    expect(canvasManager.endBatch).toHaveBeenCalledTimes(1)
+
+    pick(60, { shiftKey: true })
+    expect(canvasManager.updateShape).toHaveBeenLastCalledWith(shape.id, {
+      style: expect.objectContaining({ strokeColor: '#0000ff', fillColor: '#00ff00' }),
+    })
+
+    pick(90, { altKey: true })
+    expect(canvasManager.updateShape).toHaveBeenCalledTimes(2)
+    expect(viewModel.state.pickedColor).toBe('#0000ff')
+
+    pick(10)
+    expect(colorHistory.getColors()).toEqual(['#ff0000', '#0000ff'])
+    expect(viewModel.state.recentColors).toEqual(['#ff0000', '#0000ff'])
+  })
+
+  it('should fall back to the hit shape color without a render engine', () => {
+    const service = new (
+      CanvasRenderingService as unknown as { new (logger: ILogService): CanvasRenderingService }
+    )({ info: vi.fn(), debug: vi.fn() } as unknown as ILogService)
+    const viewModel = createViewModel(service)
+
+    expect(viewModel.pickColorAt(10, 10)).toBe('#00ff00')
+    expect(viewModel.state.loupe).toBeNull()
+  })
+})
@@ -0,0 +1,275 @@
+/**
+ * 画框、便签、菱形与链接卡片工具单元测试：子形状归属、裁剪、自动尺寸、命中测试与导入导出
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CanvasManager } from '../../src/managers/CanvasManager'
+import type { ICanvasManager } from '../../src/managers/ICanvasManager'
+import {
+  type IFrameEntity,
+  type ILinkEntity,
+  type IStickyEntity,
+  type ShapeEntity,
+  ShapeEntityFactory,
+} from '../../src/models/entities/Shape'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import { ExportService } from '../../src/services/export/exportService'
+import { HistoryService } from '../../src/services/history/historyService'
+import { ImportService } from '../../src/services/import/importService'
+import { LogService } from '../../src/services/logging/logService'
+import { SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+import { DiamondToolViewModel } from '../../src/viewmodels/tools/DiamondToolViewModel'
+import { FrameToolViewModel } from '../../src/viewmodels/tools/FrameToolViewModel'
+import { LinkToolViewModel } from '../../src/viewmodels/tools/LinkToolViewModel'
+import { StickyToolViewModel } from '../../src/viewmodels/tools/StickyToolViewModel'
+import { getLinkCardLayout, getStickySize } from '../../src/views/CardLayout'
+
+type Tool = {
+  activate(): void
+  handleMouseDown(x: number, y: number): void
+  handleMouseMove(x: number, y: number): void
+  handleMouseUp(x: number, y: number): void
+}
+
+describe('Frame, sticky, diamond and link tools', () => {
+  let canvasManager: CanvasManager
+  let shapeService: ShapeService
+
+  const create = <T extends Tool>(ViewModel: unknown): T => {
+    const ViewModelClass = ViewModel as { new (canvasManager: ICanvasManager): T }
+    const viewModel = new ViewModelClass(canvasManager)
+    viewModel.activate()
+    return viewModel
+  }
+  const drag = (tool: Tool, from: { x: number; y: number }, to: { x: number; y: number }) => {
+    tool.handleMouseDown(from.x, from.y)
+    tool.handleMouseMove(to.x, to.y)
+    tool.handleMouseUp(to.x, to.y)
+  }
+  const click = (tool: Tool, x: number, y: number) => drag(tool, { x, y }, { x, y })
+  const shapesOf = <T extends ShapeEntity>(type: T['type']) =>
+    shapeService.getAllShapeEntities().filter((s): s is T => s.type === type)
+  const get = <T extends ShapeEntity>(id: string) => shapeService.getShapeEntity(id) as T
+  const addBox = (x: number, y: number) => {
+    const box = ShapeEntityFactory.createRectangle(
+      { x, y },
+      { width: 40, height: 40 },
+      { fillColor: '#ff0000' }
+    )
+    canvasManager.addShape(box)
+    return box
+  }
+
+  beforeEach(() => {
+    const logService = new LogService()
+    shapeService = new ShapeService()
+    canvasManager = new CanvasManager(
+      logService,
+      shapeService,
+      new SelectionService(),
+      new ClipboardService(),
+      new HistoryService(logService),
+      new ZIndexService(logService)
+    )
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('FrameToolViewModel', () => {
+    let frameTool: FrameToolViewModel
+
+    beforeEach(() => {
+      frameTool = create(FrameToolViewModel)
+    })
+
+    it('should adopt shapes inside the new frame and keep it below them', () => {
+      const inside = addBox(50, 50)
+      const outside = addBox(500, 50)
+      drag(frameTool, { x: 0, y: 0 }, { x: 300, y: 200 })
+
+      const frame = shapesOf<IFrameEntity>('frame')[0]
+      expect(frame.name).toBe('Frame 1')
+      expect(frame.childrenIds).toEqual([inside.id])
+      expect(get(inside.id).metadata?.frameId).toBe(frame.id)
+      expect(get(outside.id).metadata?.frameId).toBeUndefined()
+      expect(frame.zIndex).toBeLessThan(get(inside.id).zIndex)
+
+      // 新建在画框内的形状自动归入画框
+      const later = addBox(200, 100)
+      expect(get<IFrameEntity>(frame.id).childrenIds).toEqual([inside.id, later.id])
+
+      // 过小的拖拽不创建画框
+      drag(frameTool, { x: 600, y: 600 }, { x: 604, y: 604 })
+      expect(shapesOf('frame')).toHaveLength(1)
+    })
+
+    it('should move its children with it and undo both in one step', () => {
+      const child = addBox(50, 50)
+      drag(frameTool, { x: 0, y: 0 }, { x: 300, y: 200 })
+      const frame = shapesOf<IFrameEntity>('frame')[0]
+
+      canvasManager.updateShape(frame.id, {
+        transform: { ...frame.transform, position: { x: 100, y: 30 } },
+      })
+      expect(get(child.id).transform.position).toEqual({ x: 150, y: 80 })
+
+      canvasManager.undo()
+      expect(get(frame.id).transform.position).toEqual({ x: 0, y: 0 })
+      expect(get(child.id).transform.position).toEqual({ x: 50, y: 50 })
+    })
+
+    it('should reparent shapes dragged in or out of the frame', () => {
+      drag(frameTool, { x: 0, y: 0 }, { x: 300, y: 200 })
+      const frame = shapesOf<IFrameEntity>('frame')[0]
+      const box = addBox(500, 50)
+
+      canvasManager.updateShape(box.id, {
+        transform: { ...box.transform, position: { x: 100, y: 100 } },
+      })
+      expect(get<IFrameEntity>(frame.id).childrenIds).toEqual([box.id])
+
+      // 新的拖拽不与上一次移动合并
+      canvasManager.stopHistoryMerging()
+      canvasManager.updateShape(box.id, {
+        transform: { ...box.transform, position: { x: 400, y: 100 } },
+      })
+      expect(get<IFrameEntity>(frame.id).childrenIds).toEqual([])
+      expect(get(box.id).metadata?.frameId).toBeUndefined()
+
+      canvasManager.undo()
+      expect(get<IFrameEntity>(frame.id).childrenIds).toEqual([box.id])
+    })
+
+    it('should clip hit testing of children and hit the frame title', () => {
+      drag(frameTool, { x: 0, y: 0 }, { x: 300, y: 200 })
+      const frame = shapesOf<IFrameEntity>('frame')[0]
+      // 中心在画框内，右侧超出画框边界
+      const child = ShapeEntityFactory.createRectangle(
+        { x: 250, y: 50 },
+        { width: 100, height: 40 },
+        { fillColor: '#ff0000' }
+      )
+      canvasManager.addShape(child)
+      expect(get<IFrameEntity>(frame.id).childrenIds).toEqual([child.id])
+
+      expect(canvasManager.hitTest(280, 70)).toBe(child.id)
+      expect(canvasManager.hitTest(330, 70)).toBeNull()
+      expect(canvasManager.hitTest(10, -10)).toBe(frame.id)
+      expect(canvasManager.hitTest(100, 150)).toBe(frame.id)
+    })
+
+    it('should remove its children with it', () => {
+      const child = addBox(50, 50)
+      drag(frameTool, { x: 0, y: 0 }, { x: 300, y: 200 })
+      const frame = shapesOf<IFrameEntity>('frame')[0]
+
+      canvasManager.removeShape(frame.id)
+      expect(shapeService.getAllShapeEntities()).toHaveLength(0)
+
+      canvasManager.undo()
+      expect(get<IFrameEntity>(frame.id).childrenIds).toEqual([child.id])
+      expect(get(child.id)).toBeDefined()
+    })
+
+    it('should export a frame as a clipped artboard and import its children', async () => {
+      const child = addBox(50, 50)
+      addBox(500, 50)
+      drag(frameTool, { x: 0, y: 0 }, { x: 300, y: 200 })
+      const frame = shapesOf<IFrameEntity>('frame')[0]
+
+      const exporter = new ExportService()
+      const shapes = shapeService.getAllShapeEntities()
+      const svg = exporter.exportToSVG(shapes, { frameId: frame.id })
+      expect(svg).toMatch(/viewBox="0 0 300 200"/)
+      expect(svg).toContain('<clipPath')
+      expect(svg).toContain('data-name="Frame 1"')
+      // 背景、画框、裁剪区域与画框内的子形状，画框外的形状不导出
+      expect(svg.match(/<rect /g)).toHaveLength(4)
+
+      const result = await new ImportService().importFromJSON(exporter.exportToJSON(shapes))
+      expect(result.success).toBe(true)
+      const importedFrame = result.shapes.find((s): s is IFrameEntity => s.type === 'frame')
+      expect(importedFrame?.childrenIds).toHaveLength(1)
+      expect(importedFrame?.childrenIds[0]).not.toBe(child.id)
+      const importedChild = result.shapes.find((s) => s.id === importedFrame?.childrenIds[0])
+      expect(importedChild?.metadata?.frameId).toBe(importedFrame?.id)
+    })
+  })
+
+  describe('StickyToolViewModel', () => {
+    it('should place a default sticky on click and grow with wrapped text', () => {
+      const tool = create<StickyToolViewModel>(StickyToolViewModel)
+      const content = 'word '.repeat(60).trim()
+      vi.spyOn(window, 'prompt').mockReturnValue(content)
+      click(tool, 10, 20)
+
+      const sticky = shapesOf<IStickyEntity>('sticky')[0]
+      expect(sticky.content).toBe(content)
+      expect(sticky.transform.position).toEqual({ x: 10, y: 20 })
+      expect(sticky.size).toEqual({ width: 200, height: 200 })
+      const size = getStickySize(sticky)
+      expect(size.width).toBe(200)
+      expect(size.height).toBeGreaterThan(200)
+      expect(canvasManager.hitTest(100, 20 + size.height - 5)).toBe(sticky.id)
+    })
+
+    it('should edit an existing sticky and cancel on a dismissed prompt', () => {
+      const tool = create<StickyToolViewModel>(StickyToolViewModel)
+      const prompt = vi.spyOn(window, 'prompt').mockReturnValue('todo')
+      click(tool, 0, 0)
+      const sticky = shapesOf<IStickyEntity>('sticky')[0]
+
+      prompt.mockReturnValue('done')
+      click(tool, 50, 50)
+      expect(shapesOf('sticky')).toHaveLength(1)
+      expect(get<IStickyEntity>(sticky.id).content).toBe('done')
+
+      prompt.mockReturnValue(null)
+      click(tool, 400, 400)
+      expect(shapesOf('sticky')).toHaveLength(1)
+    })
+  })
+
+  describe('DiamondToolViewModel', () => {
+    it('should hit the diamond inside its outline only', () => {
+      const tool = create<DiamondToolViewModel>(DiamondToolViewModel)
+      drag(tool, { x: 0, y: 0 }, { x: 100, y: 100 })
+
+      const diamond = shapesOf('diamond')[0]
+      expect(canvasManager.hitTest(50, 50)).toBe(diamond.id)
+      expect(canvasManager.hitTest(8, 8)).toBeNull()
+      expect(new ExportService().exportToSVG([diamond])).toContain(
+        '<polygon points="50,0 100,50 50,100 0,50"'
+      )
+    })
+  })
+
+  describe('LinkToolViewModel', () => {
+    it('should place link cards and embeds from the prompted URL', () => {
+      const tool = create<LinkToolViewModel>(LinkToolViewModel)
+      const prompt = vi.spyOn(window, 'prompt').mockReturnValue('example.com/post')
+      click(tool, 0, 0)
+
+      const card = shapesOf<ILinkEntity>('link')[0]
+      expect(card.url).toBe('https://example.com/post')
+      expect(card.embedUrl).toBeUndefined()
+      expect(card.size).toEqual({ width: 320, height: 96 })
+      expect(getLinkCardLayout(card).title.lines).toEqual(['example.com'])
+
+      prompt.mockReturnValue('https://www.youtube.com/watch?v=abc123')
+      drag(tool, { x: 0, y: 200 }, { x: 400, y: 500 })
+      const embed = shapesOf<ILinkEntity>('link')[1]
+      expect(embed.embedUrl).toBe('https://www.youtube.com/embed/abc123')
+      expect(embed.size).toEqual({ width: 400, height: 300 })
+      expect(canvasManager.hitTest(200, 350)).toBe(embed.id)
+
+      const svg = new ExportService().exportToSVG([card, embed])
+      expect(svg).toContain('<a href="https://example.com/post"')
+      expect(svg).toContain('src="https://www.youtube.com/embed/abc123"')
+    })
+  })
+})
@@ -0,0 +1,290 @@
+/**
+ * 富文本单元测试：片段操作、定宽换行与两端对齐、排版缓存、画布内编辑（光标、选区、输入法）与 SVG 导出
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import { CanvasManager } from '../../src/managers/CanvasManager'
+import {
+  applyRunStyle,
+  deleteRunText,
+  insertRunText,
+  isRunStyleActive,
+} from '../../src/models/entities/RichText'
+import { type ITextEntity, ShapeEntityFactory } from '../../src/models/entities/Shape'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import { ExportService } from '../../src/services/export/exportService'
+import { HistoryService } from '../../src/services/history/historyService'
+import { LogService } from '../../src/services/logging/logService'
+import { SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+import { TextToolViewModel } from '../../src/viewmodels/tools/TextToolViewModel'
+import { getCaretAt, getOffsetAtPoint, getTextLayout } from '../../src/views/TextLayout'
+
+/** 测试环境 measureText 返回 0，字符宽度按 0.6 × fontSize 估算 */
+const createText = (content: string, extra: Partial<ITextEntity> = {}): ITextEntity => ({
+  ...ShapeEntityFactory.createText(content, { x: 100, y: 100 }, { fillColor: '#000000' }),
+  fontSize: 10,
+  ...extra,
+})
+
+const key = (name: string, init: KeyboardEventInit = {}) =>
+  new KeyboardEvent('keydown', { key: name, cancelable: true, ...init })
+
+describe('Rich text runs', () => {
+  it('should insert, delete and style ranges while merging equal runs', () => {
+    let runs = insertRunText([{ text: 'Hello world' }], 5, ',')
+    expect(runs).toEqual([{ text: 'Hello, world' }])
+
+    runs = applyRunStyle(runs, 7, 12, { bold: true, color: '#ff0000' })
+    expect(runs).toEqual([{ text: 'Hello, ' }, { text: 'world', bold: true, color: '#ff0000' }])
+    expect(isRunStyleActive(runs, 7, 12, 'bold')).toBe(true)
+    expect(isRunStyleActive(runs, 4, 12, 'bold')).toBe(false)
+
+    runs = deleteRunText(applyRunStyle(runs, 7, 12, { color: undefined }), 5, 7)
+    expect(runs).toEqual([{ text: 'Hello' }, { text: 'world', bold: true }])
+    expect(insertRunText(runs, 5, '!', { bold: true })).toEqual([
+      { text: 'Hello' },
+      { text: '!world', bold: true },
+    ])
+  })
+})
+
+describe('Text layout', () => {
+  it('should wrap words within a fixed width and hang trailing spaces', () => {
+    const layout = getTextLayout(createText('aaa bbb ccc', { width: 60 }))
+
+    expect(layout.lines.map((line) => [line.start, line.end])).toEqual([
+      [0, 8],
+      [8, 11],
+    ])
+    expect(layout.lines[0].width).toBeCloseTo(42)
+    expect(layout.lines[1].y).toBeCloseTo(layout.lines[0].y + 12)
+    expect(layout.bounds.width).toBe(60)
+  })
+
+  it('should break long words and keep styled pieces of a word together', () => {
+    const long = getTextLayout(createText('abcdefghijkl', { width: 30 }))
+    expect(long.lines.map((line) => line.end - line.start)).toEqual([5, 5, 2])
+
+    const styled = getTextLayout(
+      createText('aa bbbb', { width: 40, runs: [{ text: 'aa bb' }, { text: 'bb', bold: true }] })
+    )
+    expect(styled.lines.map((line) => [line.start, line.end])).toEqual([
+      [0, 3],
+      [3, 7],
+    ])
+    expect(styled.lines[1].spans.map((span) => span.style.bold)).toEqual([false, true])
+  })
+
+  it('should justify every line but the last of a paragraph', () => {
+    const layout = getTextLayout(
+      createText('aaa bbb ccc\ndd ee', { width: 60, textAlign: 'justify' })
+    )
+    const [first, last, next] = layout.lines
+
+    const words = first.spans.filter((span) => !span.whitespace)
+    expect(words.map((span) => span.x)).toEqual([0, 42])
+    expect(words[1].x + words[1].width).toBeCloseTo(60)
+    expect(last.spans.every((span) => !span.stretched)).toBe(true)
+    expect(next.spans.every((span) => !span.stretched)).toBe(true)
+  })
+
+  it('should map offsets to carets and points back to offsets', () => {
+    const layout = getTextLayout(createText('aaa bbb ccc', { width: 60 }))
+
+    expect(getCaretAt(layout, 8)).toMatchObject({ line: 1, x: 0 })
+    expect(getCaretAt(layout, 2)).toMatchObject({ line: 0, x: 12 })
+    expect(getOffsetAtPoint(layout, { x: 13, y: 12 })).toBe(10)
+    expect(getOffsetAtPoint(layout, { x: -5, y: -100 })).toBe(0)
+  })
+
+  it('should reuse the layout until the entity is updated', () => {
+    const shapeService = new ShapeService()
+    const text = createText('aaa bbb ccc', { width: 60 })
+    shapeService.addShape(text)
+    const layout = getTextLayout(text)
+    expect(getTextLayout(text)).toBe(layout)
+
+    // 更新在原实体上进行，只有版本变化
+    shapeService.updateShape(text.id, { content: 'aaa', runs: undefined })
+    const updated = getTextLayout(text)
+    expect(updated).not.toBe(layout)
+    expect(updated.lines).toHaveLength(1)
+  })
+})
+
+describe('TextToolViewModel', () => {
+  let canvasManager: CanvasManager
+  let shapeService: ShapeService
+  let historyService: HistoryService
+  let tool: TextToolViewModel
+
+  const textOf = (id: string) => shapeService.getShapeEntity(id) as ITextEntity
+
+  beforeEach(() => {
+    const logService = new LogService()
+    shapeService = new ShapeService()
+    historyService = new HistoryService(logService)
+    canvasManager = new CanvasManager(
+      logService,
+      shapeService,
+      new SelectionService(),
+      new ClipboardService(),
+      historyService,
+      new ZIndexService(logService)
+    )
+    tool = new TextToolViewModel(canvasManager, shapeService)
+    tool.activate()
+  })
+
+  it('should type a new text and commit it as one undo step', () => {
+    tool.handleMouseDown(10, 20)
+    tool.insertText('Hi')
+    tool.handleKeyDown(key('Enter'))
+    tool.insertText('there')
+    const id = tool.state.editingShapeId as string
+
+    expect(tool.state.currentText).toBe('Hi\nthere')
+    expect(historyService.canUndo()).toBe(false)
+
+    tool.handleKeyDown(key('Escape'))
+    expect(tool.state.isEditing).toBe(false)
+    expect(textOf(id).content).toBe('Hi\nthere')
+
+    canvasManager.undo()
+    expect(shapeService.getShapeEntity(id)).toBeUndefined()
+    expect(historyService.canUndo()).toBe(false)
+  })
+
+  it('should not keep an empty new text', () => {
+    tool.handleMouseDown(10, 20)
+    const id = tool.state.editingShapeId as string
+    tool.commitText()
+
+    expect(shapeService.getShapeEntity(id)).toBeUndefined()
+    expect(historyService.canUndo()).toBe(false)
+  })
+
+  it('should navigate with the keyboard and delete words', () => {
+    const text = createText('one two three')
+    canvasManager.addShape(text)
+    tool.editShape(text.id, 0)
+
+    tool.handleKeyDown(key('ArrowRight', { ctrlKey: true }))
+    expect(tool.state.selection).toEqual({ anchor: 3, focus: 3 })
+    tool.handleKeyDown(key('End', { shiftKey: true }))
+    expect(tool.state.selection).toEqual({ anchor: 3, focus: 13 })
+    tool.handleKeyDown(key('ArrowLeft'))
+    expect(tool.state.selection).toEqual({ anchor: 3, focus: 3 })
+
+    tool.handleKeyDown(key('Backspace', { ctrlKey: true }))
+    expect(tool.state.currentText).toBe(' two three')
+    tool.handleKeyDown(key('Delete'))
+    expect(tool.state.currentText).toBe('two three')
+  })
+
+  it('should move between wrapped lines keeping the column', () => {
+    const text = createText('aaaa bbbb cc', { width: 30 })
+    canvasManager.addShape(text)
+    tool.editShape(text.id, 3)
+
+    tool.moveCaret('line', 'forward')
+    expect(tool.state.selection.focus).toBe(8)
+    tool.moveCaret('line', 'forward')
+    expect(tool.state.selection.focus).toBe(12)
+    tool.moveCaret('line', 'backward')
+    expect(tool.state.selection.focus).toBe(8)
+  })
+
+  it('should toggle bold on a selection and for the next typed characters', () => {
+    const text = createText('plain text')
+    canvasManager.addShape(text)
+    tool.editShape(text.id)
+
+    tool.setSelection(6, 10)
+    tool.handleKeyDown(key('b', { ctrlKey: true }))
+    expect(textOf(text.id).runs).toEqual([{ text: 'plain ' }, { text: 'text', bold: true }])
+
+    tool.setSelection(6, 10)
+    tool.toggleStyle('bold')
+    expect(textOf(text.id).runs).toBeUndefined()
+
+    tool.setSelection(5)
+    tool.toggleStyle('italic')
+    tool.insertText('!')
+    tool.insertText('?')
+    expect(textOf(text.id).runs).toEqual([
+      { text: 'plain' },
+      { text: '!?', italic: true },
+      { text: ' text' },
+    ])
+
+    tool.commitText()
+    canvasManager.undo()
+    expect(textOf(text.id).content).toBe('plain text')
+    expect(textOf(text.id).runs).toBeUndefined()
+  })
+
+  it('should place the caret by clicking and select a word by double clicking', () => {
+    const text = createText('hello world')
+    canvasManager.addShape(text)
+
+    tool.handleMouseDown(100 + 6 * 7, 96)
+    tool.handleMouseUp(100 + 6 * 7, 96)
+    expect(tool.state.editingShapeId).toBe(text.id)
+    expect(tool.state.selection).toEqual({ anchor: 7, focus: 7 })
+
+    tool.handleMouseDown(100 + 6 * 7, 96, new MouseEvent('mousedown', { detail: 2 }))
+    expect(tool.state.selection).toEqual({ anchor: 6, focus: 11 })
+  })
+
+  it('should show IME composition inline and commit the final text', () => {
+    const text = createText('ab')
+    canvasManager.addShape(text)
+    tool.editShape(text.id, 1)
+
+    tool.startComposition()
+    tool.updateComposition('n')
+    tool.updateComposition('ni')
+    expect(tool.state.currentText).toBe('anib')
+    expect(tool.state.composition).toEqual({ start: 1, end: 3 })
+
+    const composing = key('Backspace', { isComposing: true })
+    tool.handleKeyDown(composing)
+    expect(composing.defaultPrevented).toBe(false)
+
+    tool.endComposition('你')
+    expect(tool.state.composition).toBeNull()
+    expect(tool.state.currentText).toBe('a你b')
+    expect(tool.state.selection).toEqual({ anchor: 2, focus: 2 })
+  })
+
+  it('should remove an existing text emptied during editing', () => {
+    const text = createText('x')
+    canvasManager.addShape(text)
+    tool.editShape(text.id)
+    tool.deleteBackward()
+    tool.commitText()
+
+    expect(shapeService.getShapeEntity(text.id)).toBeUndefined()
+    canvasManager.undo()
+    expect(textOf(text.id).content).toBe('x')
+  })
+})
+
+describe('Rich text SVG export', () => {
+  it('should export one tspan per styled span with wrapped line positions', () => {
+    const text = createText('aaa bbb ccc', {
+      width: 60,
+      runs: [{ text: 'aaa ' }, { text: 'bbb', bold: true, underline: true }, { text: ' ccc' }],
+    })
+    const svg = new ExportService().exportToSVG([text])
+
+    expect(svg).toContain('<tspan x="0" y="0">aaa </tspan>')
+    expect(svg).toContain(
+      '<tspan x="24" y="0" font-weight="bold" text-decoration="underline">bbb</tspan>'
+    )
+    expect(svg).toContain('<tspan x="0" y="12">ccc</tspan>')
+  })
+})
@@ -0,0 +1,215 @@
+/**
+ * 形状效果测试：离屏栅格缓存、渲染范围、撤销、文档校验与 SVG 滤镜导出
+ */
+
+import { FilterManager } from '@sky-canvas/render-engine'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CanvasManager } from '../../src/managers/CanvasManager'
+import { DocumentFormatError, validateDocument } from '../../src/models/document/SkyCanvasDocument'
+import { type IRectangleEntity, ShapeEntityFactory } from '../../src/models/entities/Shape'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import { ExportService } from '../../src/services/export/exportService'
+import { HistoryService } from '../../src/services/history/historyService'
+import { LogService } from '../../src/services/logging/logService'
+import { SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+import { RenderableShapeView } from '../../src/views/RenderableShapeView'
+import {
+  getShapeEffectRaster,
+  releaseShapeEffects,
+  whenShapeEffectsReady,
+} from '../../src/views/ShapeEffects'
+
+class TestImageData {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+
+  constructor(dataOrWidth: Uint8ClampedArray | number, width: number, height?: number) {
+    if (typeof dataOrWidth === 'number') {
+      this.width = dataOrWidth
+      this.height = width
+      this.data = new Uint8ClampedArray(dataOrWidth * width * 4)
+    } else {
+      this.data = dataOrWidth
+      this.width = width
+      this.height = height ?? dataOrWidth.length / 4 / width
+    }
+  }
+}
+
+function createShadowedRect(): IRectangleEntity {
+  const rect = ShapeEntityFactory.createRectangle(
+    { x: 100, y: 50 },
+    { width: 20, height: 10 },
+    { fillColor: '#ff0000' }
+  )
+  rect.effects = [
+    {
+      id: 'shadow',
+      type: 'drop-shadow',
+      offsetX: 4,
+      offsetY: 4,
+      blur: 2,
+      color: '#000000',
+      opacity: 1,
+    },
+  ]
+  return rect
+}
+
+function createRecordingContext() {
+  const calls: string[] = []
+  const images: unknown[][] = []
+  const context = new Proxy(
+    {},
+    {
+      get:
+        (_, key) =>
+        (...args: unknown[]) => {
+          calls.push(String(key))
+          if (key === 'drawImage') images.push(args)
+        },
+    }
+  )
+  return { context: context as never, calls, images }
+}
+
+describe('RenderableShapeView effects', () => {
+  beforeEach(() => {
+    vi.stubGlobal('ImageData', TestImageData)
+    // 测试环境的 2D 上下文是桩，离屏栅格走软件光栅化
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should draw plainly until the effect raster is ready, then reuse the cached raster', async () => {
+    const rect = createShadowedRect()
+    const view = new RenderableShapeView(rect)
+    const applyFilterChain = vi.spyOn(FilterManager.prototype, 'applyFilterChain')
+
+    const first = createRecordingContext()
+    view.render(first.context)
+    expect(first.calls).not.toContain('drawImage')
+    expect(first.calls).toContain('fill')
+
+    await whenShapeEffectsReady(rect.id)
+
+    const second = createRecordingContext()
+    view.render(second.context)
+    view.render(second.context)
+    expect(second.calls).not.toContain('fill')
+    expect(second.images).toHaveLength(2)
+    // 本地坐标：几何边界外扩效果距离 max(4, 4) + 2
+    expect(second.images[0].slice(1)).toEqual([-6, -6, 32, 22])
+
+    // 仅移动不会重新处理，样式变化会
+    rect.transform.position = { x: 300, y: 300 }
+    view.render(createRecordingContext().context)
+    expect(applyFilterChain).toHaveBeenCalledTimes(1)
+
+    rect.style = { ...rect.style, fillColor: '#00ff00' }
+    view.render(createRecordingContext().context)
+    await whenShapeEffectsReady(rect.id)
+    expect(applyFilterChain).toHaveBeenCalledTimes(2)
+
+    view.dispose()
+  })
+
+  it('should render the shadow offset from the shape', async () => {
+    const rect = createShadowedRect()
+    const view = new RenderableShapeView(rect)
+    view.render(createRecordingContext().context)
+    await whenShapeEffectsReady(rect.id)
+    const raster = getShapeEffectRaster(rect, view.localBounds, () => {})
+    expect(raster).not.toBeNull()
+
+    const { image, bounds } = raster as NonNullable<typeof raster>
+    const pixel = (x: number, y: number) => {
+      const px = Math.floor(((x - bounds.x) * image.width) / bounds.width)
+      const py = Math.floor(((y - bounds.y) * image.height) / bounds.height)
+      return Array.from(
+        image.data.slice((py * image.width + px) * 4, (py * image.width + px) * 4 + 4)
+      )
+    }
+
+    expect(pixel(10, 5)).toEqual([255, 0, 0, 255])
+    // 右下方只有阴影
+    const shadow = pixel(22, 12)
+    expect(shadow[0]).toBeLessThan(20)
+    expect(shadow[3]).toBeGreaterThan(200)
+    expect(pixel(-4, -4)[3]).toBe(0)
+
+    releaseShapeEffects(rect.id)
+  })
+
+  it('should include effect padding in the render bounds only', () => {
+    const rect = createShadowedRect()
+    const view = new RenderableShapeView(rect)
+
+    expect(view.bounds).toEqual({ x: 100, y: 50, width: 20, height: 10 })
+    expect(view.getBounds()).toEqual({ x: 94, y: 44, width: 32, height: 22 })
+
+    rect.effects = [{ ...(rect.effects?.[0] as never), enabled: false }]
+    expect(view.getBounds()).toEqual(view.bounds)
+  })
+})
+
+describe('Shape effects editing and persistence', () => {
+  it('should undo and redo effect edits', () => {
+    const logService = new LogService()
+    const shapeService = new ShapeService()
+    const historyService = new HistoryService(logService)
+    const canvasManager = new CanvasManager(
+      logService,
+      shapeService,
+      new SelectionService(),
+      new ClipboardService(),
+      historyService,
+      new ZIndexService(logService)
+    )
+    const rect = ShapeEntityFactory.createRectangle()
+    canvasManager.addShape(rect)
+
+    const effects = [{ id: 'blur', type: 'blur' as const, radius: 4 }]
+    canvasManager.updateShape(rect.id, { effects })
+    expect(shapeService.getShapeEntity(rect.id)?.effects).toEqual(effects)
+
+    historyService.undo()
+    expect(shapeService.getShapeEntity(rect.id)?.effects).toBeUndefined()
+
+    historyService.redo()
+    expect(shapeService.getShapeEntity(rect.id)?.effects).toEqual(effects)
+  })
+
+  it('should reject documents with malformed effects', () => {
+    const document = {
+      scene: {},
+      layers: [],
+      shapes: [{ id: 'a', type: 'rectangle', effects: [{ id: 'blur', type: 'blur', radius: 2 }] }],
+    }
+    expect(() => validateDocument(document)).not.toThrow()
+
+    document.shapes[0].effects = 'blur' as never
+    expect(() => validateDocument(document)).toThrow(DocumentFormatError)
+  })
+
+  it('should export effects as a chained SVG filter in local coordinates', () => {
+    const rect = createShadowedRect()
+    rect.effects?.push({ id: 'gray', type: 'grayscale', value: 1 })
+
+    const svg = new ExportService().exportToSVG([rect])
+
+    expect(svg).toContain(
+      `<filter id="${rect.id}-effects" filterUnits="userSpaceOnUse" x="-6" y="-6" width="32" height="22"><feDropShadow in="SourceGraphic" result="e0" dx="4" dy="4" stdDeviation="0.667" flood-color="#000000" flood-opacity="1"/><feColorMatrix in="e0" result="e1" type="saturate" values="0"/></filter>`
+    )
+    expect(svg).toContain(`filter="url(#${rect.id}-effects)"`)
+    // 画布范围包含阴影
+    expect(svg).toContain('width="32" height="22"')
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * RenderableShapeView 精确命中测试
+ * 覆盖旋转、描边宽度、空心形状与缩放相关的屏幕容差
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { CanvasManager } from '../../src/managers/CanvasManager'
+import { ShapeEntityFactory } from '../../src/models/entities/Shape'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import { HistoryService } from '../../src/services/history/historyService'
+import { LogService } from '../../src/services/logging/logService'
+import { CanvasRenderingService } from '../../src/services/rendering/renderingService'
+import { SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+import { RenderableShapeView } from '../../src/views/RenderableShapeView'
+
+describe('RenderableShapeView hit testing', () => {
+  it('should miss the bounding-box corners of a star', () => {
+    const star = ShapeEntityFactory.createStar({ x: 100, y: 100 }, 5, 50, 20, { fillColor: '#f00' })
+    const view = new RenderableShapeView(star)
+
+    expect(view.hitTest({ x: 100, y: 100 })).toBe(true)
+    expect(view.hitTest({ x: 100, y: 55 })).toBe(true)
+    expect(view.hitTest({ x: 60, y: 140 })).toBe(false)
+  })
+
+  it('should follow rotation instead of the axis-aligned rectangle', () => {
+    const rect = ShapeEntityFactory.createRectangle(
+      { x: 0, y: 0 },
+      { width: 100, height: 10 },
+      { fillColor: '#000' }
+    )
+    rect.transform.rotation = Math.PI / 4
+    const view = new RenderableShapeView(rect)
+
+    expect(view.hitTest({ x: 35, y: 35 })).toBe(true)
+    expect(view.hitTest({ x: 60, y: 10 })).toBe(false)
+  })
+
+  it('should only hit the stroke of a thin diagonal line', () => {
+    const line = ShapeEntityFactory.createPath(
+      'M 0 0 L 100 100',
+      { x: 0, y: 0 },
+      {
+        strokeColor: '#000',
+        strokeWidth: 2,
+      }
+    )
+    const view = new RenderableShapeView(line)
+
+    expect(view.hitTest({ x: 50, y: 50 })).toBe(true)
+    expect(view.hitTest({ x: 80, y: 20 })).toBe(false)
+    expect(view.hitTest({ x: 52, y: 48 })).toBe(false)
+    expect(view.hitTest({ x: 52, y: 48 }, 4)).toBe(true)
+  })
+
+  it('should treat unfilled shapes as hollow and honour stroke width', () => {
+    const polygon = ShapeEntityFactory.createPolygon(
+      [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+        { x: 100, y: 100 },
+        { x: 0, y: 100 },
+      ],
+      { x: 0, y: 0 },
+      { strokeColor: '#000', strokeWidth: 10 }
+    )
+    const view = new RenderableShapeView(polygon)
+
+    expect(view.hitTest({ x: 50, y: 50 })).toBe(false)
+    expect(view.hitTest({ x: 104, y: 50 })).toBe(true)
+    expect(view.hitTest({ x: 107, y: 50 })).toBe(false)
+  })
+
+  it('should scale the screen-space tolerance by viewport zoom', () => {
+    const logService = new LogService()
+    const renderingService = new CanvasRenderingService(logService)
+    const viewport = { x: 0, y: 0, width: 800, height: 600, zoom: 4 }
+    vi.spyOn(renderingService, 'getRenderEngine').mockReturnValue({
+      getViewport: () => ({ ...viewport }),
+    } as any)
+    const canvasManager = new CanvasManager(
+      logService,
+      new ShapeService(),
+      new SelectionService(),
+      new ClipboardService(),
+      new HistoryService(logService),
+      new ZIndexService(logService),
+      renderingService
+    )
+    const line = ShapeEntityFactory.createPath(
+      'M 0 0 L 100 0',
+      { x: 0, y: 0 },
+      {
+        strokeColor: '#000',
+        strokeWidth: 1,
+      }
+    )
+    canvasManager.addShape(line)
+    canvasManager.setHitTolerance(4)
+
+    expect(canvasManager.hitTest(50, 1.4)).toBe(line.id)
+    expect(canvasManager.hitTest(50, 2)).toBeNull()
+
+    viewport.zoom = 1
+    expect(canvasManager.hitTest(50, 4)).toBe(line.id)
+  })
+})
@@ -0,0 +1,394 @@
+/**
+ * 自定义形状类型测试：注册与数据校验、渲染与占位框、边界与命中测试、缩放约束、
+ * SVG/JSON 序列化、未注册类型的保留与注册后的恢复以及插件注册
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { CanvasManager, type ICanvasManager } from '../../src/managers/CanvasManager'
+import { DocumentManager } from '../../src/managers/DocumentManager'
+import { SceneManager } from '../../src/managers/SceneManager'
+import { TimelineManager } from '../../src/managers/TimelineManager'
+import { type ICustomShapeEntity, ShapeEntityFactory } from '../../src/models/entities/Shape'
+import {
+  type IShapeTypeDefinition,
+  ShapeTypeError,
+  ShapeTypeRegistry,
+  shapeTypeRegistry,
+} from '../../src/models/entities/ShapeTypeRegistry'
+import type { PluginContext } from '../../src/plugins'
+import { DEFAULT_EXTENSION_POINTS } from '../../src/plugins/core/ExtensionManager'
+import { PluginManager } from '../../src/plugins/core/PluginManager'
+import { PluginPermission } from '../../src/plugins/types/PluginTypes'
+import { ClipboardService } from '../../src/services/clipboard/clipboardService'
+import { ConfigurationService } from '../../src/services/configuration/configurationService'
+import { ExportService } from '../../src/services/export/exportService'
+import { HistoryService } from '../../src/services/history/historyService'
+import { ImportService } from '../../src/services/import/importService'
+import { LogService } from '../../src/services/logging/logService'
+import { CanvasRenderingService } from '../../src/services/rendering/renderingService'
+import { SelectionService } from '../../src/services/selection/selectionService'
+import { ShapeService } from '../../src/services/shape/shapeService'
+import { ZIndexService } from '../../src/services/zIndex/zIndexService'
+import { SelectToolResizeHandler } from '../../src/viewmodels/tools/selection/SelectToolResizeHandler'
+import type {
+  IInitialShapeState,
+  ISelectToolState,
+} from '../../src/viewmodels/tools/selection/SelectToolTypes'
+import { RenderableShapeView } from '../../src/views/RenderableShapeView'
+
+const HEADER_HEIGHT = 24
+const ROW_HEIGHT = 20
+
+type Column = { name: string; type: string }
+
+const getColumns = (shape: ICustomShapeEntity) => shape.data.columns as Column[]
+
+/** 数据库表：标题栏加每列一行，高度由列数决定 */
+const createTableType = (): IShapeTypeDefinition => ({
+  type: 'db:table',
+  name: 'Database table',
+  schema: {
+    name: { type: 'string', required: true },
+    columns: { type: 'array', default: [] },
+  },
+  defaults: {
+    size: { width: 160, height: HEADER_HEIGHT },
+    style: { strokeColor: '#334155' },
+  },
+  render(context, shape) {
+    context.strokeRect(0, 0, shape.size.width, shape.size.height)
+    context.fillText(String(shape.data.name), 8, HEADER_HEIGHT / 2)
+    getColumns(shape).forEach((column, index) => {
+      context.fillText(column.name, 8, HEADER_HEIGHT + ROW_HEIGHT * (index + 0.5))
+    })
+  },
+  getBounds: (shape) => ({
+    x: 0,
+    y: 0,
+    width: shape.size.width,
+    height: HEADER_HEIGHT + ROW_HEIGHT * getColumns(shape).length,
+  }),
+  // 只有标题栏可以拖拽
+  hitTest: (shape, point, tolerance) =>
+    point.x >= -tolerance &&
+    point.x <= shape.size.width + tolerance &&
+    point.y >= -tolerance &&
+    point.y <= HEADER_HEIGHT + tolerance,
+  resize: (shape, size) => ({
+    size: {
+      width: Math.max(120, size.width),
+      height: HEADER_HEIGHT + ROW_HEIGHT * getColumns(shape).length,
+    },
+    data: { resized: true },
+  }),
+  toSVG: (shape) => `<text>${String(shape.data.name)}</text>`,
+  toJSON: (shape) => ({ table: shape.data.name, columns: getColumns(shape).map((c) => c.name) }),
+  fromJSON: (json) => ({
+    name: json.table,
+    columns: (json.columns as string[]).map((name) => ({ name, type: 'text' })),
+  }),
+})
+
+const createTable = () =>
+  shapeTypeRegistry.create('db:table', {
+    position: { x: 100, y: 50 },
+    data: {
+      name: 'users',
+      columns: [
+        { name: 'id', type: 'int' },
+        { name: 'email', type: 'text' },
+      ],
+    },
+  })
+
+function createRecordingContext() {
+  const calls: Array<[string, unknown[]]> = []
+  const context = new Proxy(
+    {},
+    {
+      get:
+        (_, key) =>
+        (...args: unknown[]) => {
+          calls.push([String(key), args])
+        },
+    }
+  )
+  return { context: context as never, calls }
+}
+
+function createDocumentManager() {
+  const logService = new LogService()
+  const shapeService = new ShapeService()
+  const historyService = new HistoryService(logService)
+  const renderingService = new CanvasRenderingService(logService)
+  const canvasManager = new CanvasManager(
+    logService,
+    shapeService,
+    new SelectionService(),
+    new ClipboardService(),
+    historyService,
+    new ZIndexService(logService),
+    renderingService
+  )
+  const documentManager = new DocumentManager(
+    canvasManager,
+    new SceneManager(canvasManager, renderingService, logService, new ConfigurationService()),
+    shapeService,
+    historyService,
+    renderingService,
+    new TimelineManager(canvasManager, shapeService, renderingService, logService),
+    new ExportService(),
+    logService
+  )
+  return { documentManager, canvasManager, shapeService, historyService }
+}
+
+afterEach(() => {
+  shapeTypeRegistry.unregister('db:table')
+})
+
+describe('ShapeTypeRegistry', () => {
+  it('should create shapes from defaults and validate their data', () => {
+    const registry = new ShapeTypeRegistry()
+    registry.register(createTableType())
+
+    const table = registry.create('db:table', { data: { name: 'orders' } })
+    expect(table).toMatchObject({
+      type: 'db:table',
+      size: { width: 160, height: HEADER_HEIGHT },
+      style: { strokeColor: '#334155' },
+      data: { name: 'orders', columns: [] },
+    })
+    // 默认值不在形状之间共享
+    expect(registry.create('db:table', { data: { name: 'a' } }).data.columns).not.toBe(
+      table.data.columns
+    )
+
+    expect(() => registry.create('db:table')).toThrow(
+      "Shape type 'db:table' requires data field 'name'"
+    )
+    expect(() => registry.create('db:table', { data: { name: 1 } })).toThrow(
+      "Data field 'name' of shape type 'db:table' must be string"
+    )
+    expect(() => registry.create('db:view')).toThrow(ShapeTypeError)
+  })
+
+  it('should require namespaced, unique types', () => {
+    const registry = new ShapeTypeRegistry()
+    const listener = vi.fn()
+    registry.onDidChange(listener)
+
+    expect(() => registry.register({ ...createTableType(), type: 'table' as never })).toThrow(
+      "Shape type 'table' must be namespaced, e.g. 'plugin:table'"
+    )
+    const dispose = registry.register({ ...createTableType(), pluginId: 'db' })
+    expect(() => registry.register(createTableType())).toThrow(
+      "Shape type 'db:table' is already registered by plugin 'db'"
+    )
+
+    dispose()
+    expect(registry.has('db:table')).toBe(false)
+    expect(listener.mock.calls).toEqual([['db:table'], ['db:table']])
+  })
+})
+
+describe('Custom shape views and tools', () => {
+  it('should render with the registered renderer and use its bounds and hit test', () => {
+    shapeTypeRegistry.register(createTableType())
+    const view = new RenderableShapeView(createTable())
+    const { context, calls } = createRecordingContext()
+
+    view.render(context)
+
+    expect(calls.filter(([name]) => name === 'fillText').map(([, args]) => args[0])).toEqual([
+      'users',
+      'id',
+      'email',
+    ])
+    expect(view.getBounds()).toEqual({ x: 100, y: 50, width: 160, height: 64 })
+    expect(view.hitTest({ x: 150, y: 60 })).toBe(true)
+    // 在边界内但不在标题栏
+    expect(view.hitTest({ x: 150, y: 100 })).toBe(false)
+  })
+
+  it('should draw a placeholder for unregistered types', () => {
+    const shape = ShapeEntityFactory.createCustom(
+      'uml:class',
+      { x: 0, y: 0 },
+      { width: 80, height: 40 }
+    )
+    const view = new RenderableShapeView(shape)
+    const { context, calls } = createRecordingContext()
+
+    view.render(context)
+
+    expect(calls).toContainEqual(['setLineDash', [[6, 4]]])
+    expect(calls).toContainEqual(['fillText', ['uml:class', 40, 20]])
+    expect(view.hitTest({ x: 70, y: 30 })).toBe(true)
+    expect(view.hitTest({ x: 90, y: 30 })).toBe(false)
+  })
+
+  it('should constrain resizing through the type and keep the opposite edge fixed', () => {
+    shapeTypeRegistry.register(createTableType())
+    const table = { ...createTable(), size: { width: 160, height: 64 } }
+    const canvasManager = {
+      getSelectedShapes: () => [table],
+      updateShape: vi.fn(),
+    } as unknown as ICanvasManager
+    const state = {} as ISelectToolState
+    const handler = new SelectToolResizeHandler(
+      state,
+      canvasManager,
+      new Map<string, IInitialShapeState>()
+    )
+
+    handler.startResize('w', 100, 80)
+    handler.handleResize(180, 120)
+
+    expect(canvasManager.updateShape).toHaveBeenCalledWith(
+      table.id,
+      expect.objectContaining({
+        size: { width: 120, height: 64 },
+        transform: expect.objectContaining({ position: { x: 140, y: 50 } }),
+        data: expect.objectContaining({ name: 'users', resized: true }),
+      })
+    )
+  })
+})
+
+describe('Custom shape serialization', () => {
+  it('should export SVG with the type renderer or a placeholder', () => {
+    shapeTypeRegistry.register(createTableType())
+    const exportService = new ExportService()
+    const unknown = ShapeEntityFactory.createCustom('uml:class')
+
+    const svg = exportService.exportToSVG([createTable(), unknown])
+
+    expect(svg).toContain('data-shape-type="db:table"><text>users</text></g>')
+    expect(svg).toContain('data-shape-type="uml:class"><rect')
+    expect(svg).toContain('stroke-dasharray="6 4"')
+  })
+
+  it('should round-trip data through the type serializers', async () => {
+    shapeTypeRegistry.register(createTableType())
+    const json = new ExportService().exportToJSON([createTable()])
+
+    expect(JSON.parse(json).shapes[0].data).toEqual({ table: 'users', columns: ['id', 'email'] })
+
+    const result = await new ImportService().importFromFile(new File([json], 'tables.json'))
+    expect(result.shapes[0]).toMatchObject({
+      type: 'db:table',
+      data: {
+        name: 'users',
+        columns: [
+          { name: 'id', type: 'text' },
+          { name: 'email', type: 'text' },
+        ],
+      },
+    })
+  })
+
+  it('should preserve unregistered types when opening and saving without the plugin', async () => {
+    const data = { table: 'users', columns: ['id'], extra: { nested: [1, 2] } }
+    const json = new ExportService().exportToJSON([
+      ShapeEntityFactory.createCustom('db:table', { x: 5, y: 6 }, { width: 70, height: 30 }, data),
+    ])
+
+    const result = await new ImportService().importFromFile(new File([json], 'tables.json'))
+    expect(result.shapes[0]).toMatchObject({
+      type: 'db:table',
+      size: { width: 70, height: 30 },
+      transform: expect.objectContaining({ position: { x: 5, y: 6 } }),
+      data,
+    })
+    expect(JSON.parse(new ExportService().exportToJSON(result.shapes)).shapes[0].data).toEqual(data)
+  })
+
+  it('should restore loaded shapes when their type is registered later', async () => {
+    const { documentManager, shapeService, historyService } = createDocumentManager()
+    const json = { table: 'users', columns: ['id', 'email'] }
+    const shape = ShapeEntityFactory.createCustom('db:table', { x: 0, y: 0 }, undefined, json)
+    const saved = JSON.parse(await documentManager.save())
+    await documentManager.load({ ...saved, shapes: [JSON.parse(JSON.stringify(shape))] })
+    expect(shapeService.getShapeEntity(shape.id)).toMatchObject({ data: json })
+    // 类型注册前保存仍是原样
+    expect(JSON.parse(await documentManager.save()).shapes[0].data).toEqual(json)
+
+    const historyLength = historyService.getHistory().length
+    shapeTypeRegistry.register(createTableType())
+
+    expect(shapeService.getShapeEntity(shape.id)).toMatchObject({
+      data: { name: 'users', columns: [{ name: 'id' }, { name: 'email' }] },
+    })
+    expect(historyService.getHistory()).toHaveLength(historyLength)
+    expect(JSON.parse(await documentManager.save()).shapes[0].data).toEqual(json)
+    documentManager.dispose()
+  })
+
+  it('should save the raw data when a type serializer throws', async () => {
+    shapeTypeRegistry.register({
+      ...createTableType(),
+      toJSON: () => {
+        throw new Error('broken serializer')
+      },
+    })
+    const { documentManager, canvasManager } = createDocumentManager()
+    canvasManager.addShape(createTable())
+
+    const document = JSON.parse(await documentManager.save())
+    expect(document.shapes[0].data).toMatchObject({ name: 'users' })
+    documentManager.dispose()
+  })
+})
+
+describe('Plugin-defined shape types', () => {
+  let pluginManager: PluginManager
+
+  afterEach(async () => {
+    await pluginManager.dispose()
+  })
+
+  it('should register shape types through the plugin API until deactivation', async () => {
+    pluginManager = new PluginManager()
+    const extensionManager = pluginManager.getExtensionManager()
+    for (const extensionPoint of DEFAULT_EXTENSION_POINTS) {
+      extensionManager.defineExtensionPoint(extensionPoint)
+    }
+
+    let context: PluginContext | undefined
+    await pluginManager.loadPlugin(
+      {
+        id: 'db',
+        name: 'Database shapes',
+        version: '1.0.0',
+        description: 'Database diagram shapes',
+        author: 'Test Author',
+        license: 'MIT',
+        main: 'index.js',
+        permissions: [PluginPermission.CANVAS_MODIFY],
+        extensionPoints: ['canvas.shapes'],
+        keywords: [],
+      },
+      {
+        default: class {
+          async activate(pluginContext: PluginContext) {
+            context = pluginContext
+            pluginContext.api.shapes.register(createTableType())
+          }
+
+          async deactivate() {}
+        },
+      }
+    )
+    pluginManager.getPermissionManager().grantPermission('db', PluginPermission.CANVAS_MODIFY)
+    await pluginManager.activatePlugin('db')
+
+    expect(shapeTypeRegistry.get('db:table')?.pluginId).toBe('db')
+    expect(() =>
+      context?.api.shapes.register({ ...createTableType(), type: 'table' as never })
+    ).toThrow("Shape type 'table' could not be registered by plugin 'db'")
+
+    await pluginManager.deactivatePlugin('db')
+    expect(shapeTypeRegistry.has('db:table')).toBe(false)
+  })
+})
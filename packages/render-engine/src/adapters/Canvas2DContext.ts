@@ -3,6 +3,11 @@
  * 将HTML5 Canvas 2D API适配到IGraphicsContext接口
  */
 
+import {
+  type ILayerCompositeOptions,
+  needsIsolation,
+  toCompositeOperation,
+} from '../graphics/BlendModes'
 import type {
   IColor,
   IGraphicsCapabilities,
@@ -11,11 +16,13 @@ import type {
   IGraphicsState,
   IGraphicsStyle,
   IImageData,
+  IPaint,
   IPoint,
   IRect,
   ITextStyle,
   ITransform,
 } from '../graphics/IGraphicsContext'
+import { getRepresentativeColor, isGradientPaint, isPatternPaint } from '../graphics/Paint'
 
 const toCanvasColor = (color: IColor | string): string => {
   if (typeof color === 'string') {
@@ -25,6 +32,73 @@ const toCanvasColor = (color: IColor | string): string => {
   return `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${a})`
 }
 
+const imageSourceCache = new WeakMap<IImageData, HTMLCanvasElement>()
+
+/**
+ * 图像数据转为可绘制的画布，按对象引用缓存（原地修改像素后需传入新对象）
+ */
+const getImageSource = (image: IImageData): HTMLCanvasElement | null => {
+  const cached = imageSourceCache.get(image)
+  if (cached) return cached
+  const canvas = document.createElement('canvas')
+  canvas.width = image.width
+  canvas.height = image.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+  const imageData = ctx.createImageData(image.width, image.height)
+  imageData.data.set(image.data)
+  ctx.putImageData(imageData, 0, 0)
+  imageSourceCache.set(image, canvas)
+  return canvas
+}
+
+/**
+ * 绘制样式转为 Canvas 原生的颜色、渐变或图案
+ */
+const toCanvasPaint = (
+  ctx: CanvasRenderingContext2D,
+  paint: IPaint
+): string | CanvasGradient | CanvasPattern => {
+  if (isGradientPaint(paint)) {
+    let gradient: CanvasGradient
+    if (paint.type === 'linear-gradient') {
+      gradient = ctx.createLinearGradient(paint.x0, paint.y0, paint.x1, paint.y1)
+    } else if (paint.type === 'radial-gradient') {
+      gradient = ctx.createRadialGradient(
+        paint.x0,
+        paint.y0,
+        Math.max(0, paint.r0),
+        paint.x1,
+        paint.y1,
+        Math.max(0, paint.r1)
+      )
+    } else if (typeof ctx.createConicGradient === 'function') {
+      gradient = ctx.createConicGradient(paint.startAngle, paint.x, paint.y)
+    } else {
+      // 不支持锥形渐变的环境退化为首个色标颜色
+      const fallback = getRepresentativeColor(paint)
+      return fallback ? toCanvasColor(fallback) : 'transparent'
+    }
+    for (const stop of paint.stops) {
+      gradient.addColorStop(Math.min(1, Math.max(0, stop.offset)), toCanvasColor(stop.color))
+    }
+    return gradient
+  }
+
+  if (isPatternPaint(paint)) {
+    const source = getImageSource(paint.image)
+    const pattern = source ? ctx.createPattern(source, paint.repetition ?? 'repeat') : null
+    if (!pattern) return 'transparent'
+    if (paint.transform && typeof DOMMatrix !== 'undefined') {
+      const { a, b, c, d, e, f } = paint.transform
+      pattern.setTransform(new DOMMatrix([a, b, c, d, e, f]))
+    }
+    return pattern
+  }
+
+  return toCanvasColor(paint)
+}
+
 /**
  * Canvas2D上下文接口
  */
@@ -36,17 +110,27 @@ export interface ICanvas2DContext extends IGraphicsContext {
  * Canvas2D图形上下文实现
  */
 class Canvas2DContext implements ICanvas2DContext {
-  public readonly ctx: CanvasRenderingContext2D
   private canvas: HTMLCanvasElement
+  private baseCtx: CanvasRenderingContext2D
+  /** 离屏图层栈，绘制总是进入栈顶表面；无需隔离的图层记为 null */
+  private layers: Array<{ canvas: HTMLCanvasElement; options: ILayerCompositeOptions } | null> = []
+  private surfaces: CanvasRenderingContext2D[] = []
   private stateStack: IGraphicsState[] = []
   private currentState: IGraphicsState
 
   constructor(ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) {
     this.canvas = canvas
-    this.ctx = ctx
+    this.baseCtx = ctx
     this.currentState = this.createDefaultState()
   }
 
+  /**
+   * 当前绘制目标
+   */
+  get ctx(): CanvasRenderingContext2D {
+    return this.surfaces[this.surfaces.length - 1] ?? this.baseCtx
+  }
+
   // 基础属性
   get width(): number {
     return this.canvas.width
@@ -166,12 +250,14 @@ class Canvas2DContext implements ICanvas2DContext {
     this.ctx.lineWidth = width
   }
 
-  setFillStyle(color: IColor | string): void {
-    this.setFillColor(color)
+  setFillStyle(paint: IPaint): void {
+    this.ctx.fillStyle = toCanvasPaint(this.ctx, paint)
+    this.currentState.style.fillColor = paint
   }
 
-  setStrokeStyle(color: IColor | string): void {
-    this.setStrokeColor(color)
+  setStrokeStyle(paint: IPaint): void {
+    this.ctx.strokeStyle = toCanvasPaint(this.ctx, paint)
+    this.currentState.style.strokeColor = paint
   }
 
   drawLine(x1: number, y1: number, x2: number, y2: number): void {
@@ -347,16 +433,10 @@ class Canvas2DContext implements ICanvas2DContext {
   drawImage(imageData: IImageData, dx: number, dy: number): void
   drawImage(imageData: IImageData, dx: number, dy: number, dw: number, dh: number): void
   drawImage(imageData: IImageData, dx: number, dy: number, dw?: number, dh?: number): void {
-    const canvas = document.createElement('canvas')
-    canvas.width = imageData.width
-    canvas.height = imageData.height
-    const ctx = canvas.getContext('2d')
-    if (!ctx) {
+    const canvas = getImageSource(imageData)
+    if (!canvas) {
       throw new Error('Failed to get 2d context')
     }
-    const canvasImageData = ctx.createImageData(imageData.width, imageData.height)
-    canvasImageData.data.set(imageData.data)
-    ctx.putImageData(canvasImageData, 0, 0)
 
     if (dw !== undefined && dh !== undefined) {
       this.ctx.drawImage(canvas, dx, dy, dw, dh)
@@ -391,6 +471,38 @@ class Canvas2DContext implements ICanvas2DContext {
     this.ctx.clip()
   }
 
+  // 离屏图层
+  beginLayer(options: ILayerCompositeOptions = {}): void {
+    if (!needsIsolation(options)) {
+      this.layers.push(null)
+      return
+    }
+    const canvas = document.createElement('canvas')
+    canvas.width = this.canvas.width
+    canvas.height = this.canvas.height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      throw new Error('Failed to get 2d context')
+    }
+    ctx.setTransform(this.ctx.getTransform())
+    this.layers.push({ canvas, options })
+    this.surfaces.push(ctx)
+  }
+
+  endLayer(): void {
+    const layer = this.layers.pop()
+    if (!layer) return
+    this.surfaces.pop()
+    // 原生合成操作覆盖全部混合模式，裁剪沿用目标表面的状态
+    const target = this.ctx
+    target.save()
+    target.resetTransform()
+    target.globalAlpha = Math.max(0, Math.min(1, layer.options.opacity ?? 1))
+    target.globalCompositeOperation = toCompositeOperation(layer.options.blendMode)
+    target.drawImage(layer.canvas, 0, 0)
+    target.restore()
+  }
+
   // 坐标转换
   screenToWorld(point: IPoint): IPoint {
     const rect = this.canvas.getBoundingClientRect()
@@ -440,10 +552,10 @@ class Canvas2DContext implements ICanvas2DContext {
 
   private applyStyleToContext(style: Partial<IGraphicsStyle>): void {
     if (style.fillColor !== undefined) {
-      this.ctx.fillStyle = toCanvasColor(style.fillColor)
+      this.ctx.fillStyle = toCanvasPaint(this.ctx, style.fillColor)
     }
     if (style.strokeColor !== undefined) {
-      this.ctx.strokeStyle = toCanvasColor(style.strokeColor)
+      this.ctx.strokeStyle = toCanvasPaint(this.ctx, style.strokeColor)
     }
     if (style.lineWidth !== undefined) {
       this.ctx.lineWidth = style.lineWidth
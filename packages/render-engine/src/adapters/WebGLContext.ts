@@ -6,13 +6,21 @@ import {
   type BatchManagerConfig,
   createBatchManagerWithDefaultStrategies,
 } from '../batch'
+import {
+  compositeLayerPixels,
+  type ILayerCompositeOptions,
+  needsIsolation,
+} from '../graphics/BlendModes'
 import type {
   IGraphicsState,
   IImageData,
+  IPaint,
+  IPatternPaint,
   IPoint,
   ITextStyle,
   ITransform,
 } from '../graphics/IGraphicsContext'
+import { getRepresentativeColor, isSolidPaint, samplePaint } from '../graphics/Paint'
 import { Matrix3 } from '../math/Matrix3'
 import { AdvancedShaderManager } from '../webgl/AdvancedShaderManager'
 import { BufferManager, type IBuffer } from '../webgl/BufferManager'
@@ -23,6 +31,30 @@ import { GeometryGenerator } from './GeometryGenerator'
 import type { ClipRegion, IWebGLContext, PathPoint, WebGLAdvancedConfig } from './WebGLContextTypes'
 import { WebGLRenderableFactory } from './WebGLRenderableFactory'
 
+/** 渐变/图案按顶点求值时三角形的最大边长（像素） */
+const PAINT_TESSELLATION_SIZE = 8
+const PAINT_TESSELLATION_MAX_DEPTH = 6
+
+type RGBA = [number, number, number, number]
+
+/** 像素写回所用的纹理四边形着色器 */
+const BLIT_VERTEX_SHADER = `
+attribute vec2 a_position;
+attribute vec2 a_texCoord;
+varying vec2 v_texCoord;
+void main() {
+  v_texCoord = a_texCoord;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`
+
+const BLIT_FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D u_image;
+varying vec2 v_texCoord;
+void main() {
+  gl_FragColor = texture2D(u_image, v_texCoord);
+}`
+
 // 重新导出类型和工厂
 export { WebGLContextFactory } from './WebGLContextFactory'
 export * from './WebGLContextTypes'
@@ -45,15 +77,15 @@ export class WebGLContext implements IWebGLContext {
   // 状态栈
   private stateStack: Array<{
     transform: Matrix3
-    fillStyle: string
-    strokeStyle: string
+    fillStyle: IPaint
+    strokeStyle: IPaint
     lineWidth: number
     globalAlpha: number
   }> = []
 
   // 当前样式状态
-  private fillStyle: string = '#000000'
-  private strokeStyle: string = '#000000'
+  private fillStyle: IPaint = '#000000'
+  private strokeStyle: IPaint = '#000000'
   private lineWidth: number = 1
   private globalAlpha: number = 1
 
@@ -73,6 +105,10 @@ export class WebGLContext implements IWebGLContext {
   private pathStarted: boolean = false
   private clipRegions: ClipRegion[] = []
 
+  // 离屏图层：进入时保存背景像素并清空，结束时在 CPU 上混合后写回
+  private layerStack: Array<{ backdrop: IImageData; options: ILayerCompositeOptions } | null> = []
+  private blitProgram: WebGLProgram | null = null
+
   constructor(
     gl: WebGLRenderingContext,
     canvas: HTMLCanvasElement,
@@ -257,8 +293,8 @@ export class WebGLContext implements IWebGLContext {
       ])
     }
     if (state.style) {
-      if (state.style.fillColor) this.fillStyle = String(state.style.fillColor)
-      if (state.style.strokeColor) this.strokeStyle = String(state.style.strokeColor)
+      if (state.style.fillColor) this.fillStyle = state.style.fillColor
+      if (state.style.strokeColor) this.strokeStyle = state.style.strokeColor
       if (state.style.lineWidth) this.setLineWidth(state.style.lineWidth)
       if (state.style.opacity !== undefined) this.setGlobalAlpha(state.style.opacity)
     }
@@ -319,12 +355,12 @@ export class WebGLContext implements IWebGLContext {
     this.globalAlpha = Math.max(0, Math.min(1, opacity))
   }
 
-  setStrokeStyle(style: string): void {
-    this.strokeStyle = style
+  setStrokeStyle(paint: IPaint): void {
+    this.strokeStyle = paint
   }
 
-  setFillStyle(style: string): void {
-    this.fillStyle = style
+  setFillStyle(paint: IPaint): void {
+    this.fillStyle = paint
   }
 
   setLineWidth(width: number): void {
@@ -353,8 +389,8 @@ export class WebGLContext implements IWebGLContext {
   }
 
   setStyle(style: Record<string, unknown>): void {
-    if (style.fillStyle) this.fillStyle = style.fillStyle as string
-    if (style.strokeStyle) this.strokeStyle = style.strokeStyle as string
+    if (style.fillStyle) this.fillStyle = style.fillStyle as IPaint
+    if (style.strokeStyle) this.strokeStyle = style.strokeStyle as IPaint
     if (style.lineWidth) this.setLineWidth(style.lineWidth as number)
     if (style.globalAlpha) this.setGlobalAlpha(style.globalAlpha as number)
   }
@@ -486,10 +522,7 @@ export class WebGLContext implements IWebGLContext {
     const transformedPath = this.currentPath.map((p) => this.transformPoint(p.x, p.y))
 
     // 使用扇形三角剖分（适用于凸多边形和简单凹多边形）
-    const color = GeometryGenerator.parseColor(this.fillStyle)
-    color[3] *= this.globalAlpha
     const vertices: number[] = []
-    const colors: number[] = []
 
     // 计算路径中心点
     let centerX = 0,
@@ -508,16 +541,9 @@ export class WebGLContext implements IWebGLContext {
 
       // 三角形：中心点 -> 当前点 -> 下一点
       vertices.push(centerX, centerY, p1.x, p1.y, p2.x, p2.y)
-      // 每个顶点添加颜色 (color 是 [r, g, b, a] 数组)
-      for (let j = 0; j < 3; j++) {
-        colors.push(color[0], color[1], color[2], color[3])
-      }
     }
 
-    if (vertices.length > 0) {
-      const renderable = WebGLRenderableFactory.createFromVertices(vertices, colors)
-      this.batchManager.addRenderable(renderable)
-    }
+    this.addPaintedTriangles(vertices, this.fillStyle)
 
     // 重置路径
     this.currentPath = []
@@ -529,14 +555,13 @@ export class WebGLContext implements IWebGLContext {
       return
     }
 
-    const color = GeometryGenerator.parseColor(this.strokeStyle)
-    color[3] *= this.globalAlpha
-
     const transformedPath = this.currentPath.map((p) => this.transformPoint(p.x, p.y))
 
     for (let i = 0; i < transformedPath.length - 1; i++) {
       const p1 = transformedPath[i]
       const p2 = transformedPath[i + 1]
+      // 渐变/图案描边按线段中点取色
+      const color = this.resolvePaintColor(this.strokeStyle, (p1.x + p2.x) / 2, (p1.y + p2.y) / 2)
       const renderable = WebGLRenderableFactory.createLine(
         p1.x,
         p1.y,
@@ -574,11 +599,117 @@ export class WebGLContext implements IWebGLContext {
     }
   }
 
+  /**
+   * 设备坐标映射回当前用户空间，变换不可逆时返回 null
+   */
+  private inverseTransformPoint(x: number, y: number): { x: number; y: number } | null {
+    const e = this.currentTransform.elements
+    const det = e[0] * e[4] - e[1] * e[3]
+    if (!det) return null
+    const dx = x - e[6]
+    const dy = y - e[7]
+    return {
+      x: (e[4] * dx - e[3] * dy) / det,
+      y: (e[0] * dy - e[1] * dx) / det,
+    }
+  }
+
+  /**
+   * 纯色样式的归一化颜色（已乘全局透明度），渐变取首个色标
+   */
+  private resolveSolidColor(paint: IPaint): RGBA {
+    const color = getRepresentativeColor(paint)
+    let rgba: RGBA = [0, 0, 0, 0]
+    if (typeof color === 'string') {
+      rgba = GeometryGenerator.parseColor(color)
+    } else if (color) {
+      rgba = [color.r, color.g, color.b, color.a ?? 1]
+    }
+    rgba[3] *= this.globalAlpha
+    return rgba
+  }
+
+  /**
+   * 在设备坐标处对样式求值，返回归一化颜色
+   */
+  private resolvePaintColor(paint: IPaint, x: number, y: number): RGBA {
+    if (isSolidPaint(paint)) return this.resolveSolidColor(paint)
+    const user = this.inverseTransformPoint(x, y)
+    if (!user) return [0, 0, 0, 0]
+    const sample: RGBA = [0, 0, 0, 0]
+    samplePaint(paint, user.x, user.y, sample)
+    return [sample[0] / 255, sample[1] / 255, sample[2] / 255, sample[3] * this.globalAlpha]
+  }
+
+  /**
+   * 提交三角形列表（设备坐标）
+   * 渐变与图案按顶点着色，先将三角形细分到足够小以逼近逐像素效果
+   */
+  private addPaintedTriangles(vertices: number[], paint: IPaint): void {
+    if (vertices.length === 0) return
+
+    const solid = isSolidPaint(paint)
+    const output = solid ? vertices : this.tessellateTriangles(vertices)
+    const solidColor = solid ? this.resolveSolidColor(paint) : null
+    const colors: number[] = []
+    for (let i = 0; i < output.length; i += 2) {
+      const color = solidColor ?? this.resolvePaintColor(paint, output[i], output[i + 1])
+      colors.push(color[0], color[1], color[2], color[3])
+    }
+
+    const renderable = WebGLRenderableFactory.createFromVertices(output, colors)
+    this.batchManager.addRenderable(renderable)
+  }
+
+  private tessellateTriangles(vertices: number[]): number[] {
+    const output: number[] = []
+    const split = (
+      ax: number,
+      ay: number,
+      bx: number,
+      by: number,
+      cx: number,
+      cy: number,
+      depth: number
+    ): void => {
+      const longest = Math.max(
+        Math.hypot(bx - ax, by - ay),
+        Math.hypot(cx - bx, cy - by),
+        Math.hypot(ax - cx, ay - cy)
+      )
+      if (longest <= PAINT_TESSELLATION_SIZE || depth >= PAINT_TESSELLATION_MAX_DEPTH) {
+        output.push(ax, ay, bx, by, cx, cy)
+        return
+      }
+      const abx = (ax + bx) / 2
+      const aby = (ay + by) / 2
+      const bcx = (bx + cx) / 2
+      const bcy = (by + cy) / 2
+      const cax = (cx + ax) / 2
+      const cay = (cy + ay) / 2
+      split(ax, ay, abx, aby, cax, cay, depth + 1)
+      split(abx, aby, bx, by, bcx, bcy, depth + 1)
+      split(cax, cay, bcx, bcy, cx, cy, depth + 1)
+      split(abx, aby, bcx, bcy, cax, cay, depth + 1)
+    }
+
+    for (let i = 0; i + 5 < vertices.length; i += 6) {
+      split(
+        vertices[i],
+        vertices[i + 1],
+        vertices[i + 2],
+        vertices[i + 3],
+        vertices[i + 4],
+        vertices[i + 5],
+        0
+      )
+    }
+    return output
+  }
+
   // ============ 绘制方法 ============
 
   fillRect(x: number, y: number, width: number, height: number): void {
-    const color = GeometryGenerator.parseColor(this.fillStyle)
-    color[3] *= this.globalAlpha
     // 应用变换到矩形的四个角
     const p1 = this.transformPoint(x, y)
     const p2 = this.transformPoint(x + width, y)
@@ -599,17 +730,11 @@ export class WebGLContext implements IWebGLContext {
       p4.x,
       p4.y,
     ]
-    const colors: number[] = []
-    for (let i = 0; i < 6; i++) {
-      colors.push(color[0], color[1], color[2], color[3])
-    }
-    const renderable = WebGLRenderableFactory.createFromVertices(vertices, colors)
-    this.batchManager.addRenderable(renderable)
+    this.addPaintedTriangles(vertices, this.fillStyle)
   }
 
   strokeRect(x: number, y: number, width: number, height: number): void {
-    const color = GeometryGenerator.parseColor(this.strokeStyle)
-    color[3] *= this.globalAlpha
+    const color = this.resolveSolidColor(this.strokeStyle)
     // 应用变换到矩形的四个角
     const p1 = this.transformPoint(x, y)
     const p2 = this.transformPoint(x + width, y)
@@ -628,8 +753,14 @@ export class WebGLContext implements IWebGLContext {
   }
 
   fillCircle(x: number, y: number, radius: number): void {
-    const color = GeometryGenerator.parseColor(this.fillStyle)
-    color[3] *= this.globalAlpha
+    if (!isSolidPaint(this.fillStyle)) {
+      // 非纯色走路径填充，按顶点求值
+      this.beginPath()
+      this.arc(x, y, radius, 0, Math.PI * 2)
+      this.fill()
+      return
+    }
+    const color = this.resolveSolidColor(this.fillStyle)
     // 应用变换到圆心
     const center = this.transformPoint(x, y)
     // 注意：这里简化处理，假设变换不包含非均匀缩放
@@ -638,8 +769,7 @@ export class WebGLContext implements IWebGLContext {
   }
 
   strokeCircle(x: number, y: number, radius: number): void {
-    const strokeColorParsed = GeometryGenerator.parseColor(this.strokeStyle)
-    strokeColorParsed[3] *= this.globalAlpha
+    const strokeColorParsed = this.resolveSolidColor(this.strokeStyle)
     // 应用变换到圆心
     const center = this.transformPoint(x, y)
     const outerRadius = radius + this.lineWidth / 2
@@ -654,11 +784,10 @@ export class WebGLContext implements IWebGLContext {
   }
 
   drawLine(x1: number, y1: number, x2: number, y2: number): void {
-    const color = GeometryGenerator.parseColor(this.strokeStyle)
-    color[3] *= this.globalAlpha
     // 应用变换到线段的两个端点
     const p1 = this.transformPoint(x1, y1)
     const p2 = this.transformPoint(x2, y2)
+    const color = this.resolvePaintColor(this.strokeStyle, (p1.x + p2.x) / 2, (p1.y + p2.y) / 2)
     const renderable = WebGLRenderableFactory.createLine(
       p1.x,
       p1.y,
@@ -720,8 +849,34 @@ export class WebGLContext implements IWebGLContext {
 
   // ============ 图像方法 ============
 
+  /**
+   * 以不重复图案填充目标矩形，按顶点采样近似绘制图像
+   */
   drawImage(imageData: IImageData, dx: number, dy: number, dw?: number, dh?: number): void {
-    console.log('Drawing image', { imageData, dx, dy, dw, dh })
+    if (imageData.width <= 0 || imageData.height <= 0) return
+    const width = dw ?? imageData.width
+    const height = dh ?? imageData.height
+    const paint: IPatternPaint = {
+      type: 'pattern',
+      image: imageData,
+      repetition: 'no-repeat',
+      transform: {
+        a: width / imageData.width,
+        b: 0,
+        c: 0,
+        d: height / imageData.height,
+        e: dx,
+        f: dy,
+      },
+    }
+    const p1 = this.transformPoint(dx, dy)
+    const p2 = this.transformPoint(dx + width, dy)
+    const p3 = this.transformPoint(dx + width, dy + height)
+    const p4 = this.transformPoint(dx, dy + height)
+    this.addPaintedTriangles(
+      [p1.x, p1.y, p2.x, p2.y, p3.x, p3.y, p1.x, p1.y, p3.x, p3.y, p4.x, p4.y],
+      paint
+    )
   }
 
   getImageData(x: number, y: number, width: number, height: number): ImageData {
@@ -752,24 +907,127 @@ export class WebGLContext implements IWebGLContext {
     return new ImageData(flippedPixels, width, height)
   }
 
-  putImageData(imageData: ImageData, x: number, y: number): void {
-    const texture = this.gl.createTexture()
-    this.gl.bindTexture(this.gl.TEXTURE_2D, texture)
-    this.gl.texImage2D(
-      this.gl.TEXTURE_2D,
+  /**
+   * 直接替换像素（忽略变换与透明度），先提交已排队的几何以保持绘制顺序
+   */
+  putImageData(imageData: IImageData, x: number, y: number): void {
+    const gl = this.gl
+    const program = this.getBlitProgram()
+    if (!program || imageData.width <= 0 || imageData.height <= 0) return
+    this.present()
+
+    const texture = gl.createTexture()
+    gl.bindTexture(gl.TEXTURE_2D, texture)
+    gl.texImage2D(
+      gl.TEXTURE_2D,
       0,
-      this.gl.RGBA,
+      gl.RGBA,
       imageData.width,
       imageData.height,
       0,
-      this.gl.RGBA,
-      this.gl.UNSIGNED_BYTE,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
       imageData.data
     )
-    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MIN_FILTER, this.gl.NEAREST)
-    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MAG_FILTER, this.gl.NEAREST)
-    console.log('Texture rendering operation', { x, y })
-    this.gl.deleteTexture(texture)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+
+    // 目标矩形换算为裁剪空间，纹理首行对应画布顶部
+    const left = (x / this.width) * 2 - 1
+    const right = ((x + imageData.width) / this.width) * 2 - 1
+    const top = 1 - (y / this.height) * 2
+    const bottom = 1 - ((y + imageData.height) / this.height) * 2
+    const vertices = new Float32Array([
+      left,
+      top,
+      0,
+      0,
+      right,
+      top,
+      1,
+      0,
+      left,
+      bottom,
+      0,
+      1,
+      right,
+      bottom,
+      1,
+      1,
+    ])
+    const buffer = gl.createBuffer()
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer)
+    gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STREAM_DRAW)
+
+    gl.useProgram(program)
+    const position = gl.getAttribLocation(program, 'a_position')
+    const texCoord = gl.getAttribLocation(program, 'a_texCoord')
+    gl.enableVertexAttribArray(position)
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 16, 0)
+    gl.enableVertexAttribArray(texCoord)
+    gl.vertexAttribPointer(texCoord, 2, gl.FLOAT, false, 16, 8)
+    gl.activeTexture(gl.TEXTURE0)
+    gl.uniform1i(gl.getUniformLocation(program, 'u_image'), 0)
+
+    gl.disable(gl.BLEND)
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4)
+    gl.enable(gl.BLEND)
+
+    gl.disableVertexAttribArray(position)
+    gl.disableVertexAttribArray(texCoord)
+    gl.deleteBuffer(buffer)
+    gl.deleteTexture(texture)
+  }
+
+  private getBlitProgram(): WebGLProgram | null {
+    if (this.blitProgram) return this.blitProgram
+    const gl = this.gl
+    const compile = (type: number, source: string) => {
+      const shader = gl.createShader(type)
+      if (!shader) return null
+      gl.shaderSource(shader, source)
+      gl.compileShader(shader)
+      return shader
+    }
+    const vertex = compile(gl.VERTEX_SHADER, BLIT_VERTEX_SHADER)
+    const fragment = compile(gl.FRAGMENT_SHADER, BLIT_FRAGMENT_SHADER)
+    const program = gl.createProgram()
+    if (!vertex || !fragment || !program) return null
+    gl.attachShader(program, vertex)
+    gl.attachShader(program, fragment)
+    gl.linkProgram(program)
+    gl.deleteShader(vertex)
+    gl.deleteShader(fragment)
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      gl.deleteProgram(program)
+      return null
+    }
+    this.blitProgram = program
+    return program
+  }
+
+  // ============ 离屏图层 ============
+
+  beginLayer(options: ILayerCompositeOptions = {}): void {
+    if (!needsIsolation(options)) {
+      this.layerStack.push(null)
+      return
+    }
+    this.present()
+    this.layerStack.push({ backdrop: this.getImageData(0, 0, this.width, this.height), options })
+    this.gl.clearColor(0, 0, 0, 0)
+    this.gl.clear(this.gl.COLOR_BUFFER_BIT)
+  }
+
+  endLayer(): void {
+    const layer = this.layerStack.pop()
+    if (!layer) return
+    this.present()
+    const source = this.getImageData(0, 0, this.width, this.height)
+    compositeLayerPixels(layer.backdrop.data, source.data, layer.options)
+    this.putImageData(layer.backdrop, 0, 0)
   }
 
   // ============ 裁剪方法 ============
@@ -875,6 +1133,7 @@ export class WebGLContext implements IWebGLContext {
   // ============ 销毁 ============
 
   dispose(): void {
+    if (this.blitProgram) this.gl.deleteProgram(this.blitProgram)
     if (this.advancedShaderManager) this.advancedShaderManager.dispose()
     if (this.webglOptimizer) this.webglOptimizer.dispose()
     this.batchManager.dispose()
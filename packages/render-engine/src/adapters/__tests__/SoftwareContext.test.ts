@@ -0,0 +1,242 @@
+/**
+ * SoftwareContext 无头光栅化测试
+ */
+
+import { inflateSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { RenderEngine } from '../../core/RenderEngine'
+import type { IGraphicsContext } from '../../graphics/IGraphicsContext'
+import { encodePNG, type ISoftwareContext, SoftwareContextFactory } from '../software'
+
+const createContext = (width = 40, height = 40) =>
+  new SoftwareContextFactory().createContext({ width, height })
+
+const pixel = (context: ISoftwareContext, x: number, y: number) => {
+  const index = (y * context.width + x) * 4
+  return Array.from(context.imageData.data.subarray(index, index + 4))
+}
+
+/** 按 PNG 规范逆向各行滤波，还原 RGBA 像素 */
+const unfilterScanlines = (raw: Uint8Array, width: number, height: number) => {
+  const stride = width * 4
+  const pixels = new Uint8Array(stride * height)
+  for (let y = 0; y < height; y++) {
+    const type = raw[y * (stride + 1)]
+    for (let i = 0; i < stride; i++) {
+      const index = y * stride + i
+      const left = i >= 4 ? pixels[index - 4] : 0
+      const up = y > 0 ? pixels[index - stride] : 0
+      const upLeft = y > 0 && i >= 4 ? pixels[index - stride - 4] : 0
+      let predicted = 0
+      if (type === 1) predicted = left
+      else if (type === 2) predicted = up
+      else if (type === 3) predicted = (left + up) >> 1
+      else if (type === 4) {
+        const p = left + up - upLeft
+        const [pa, pb, pc] = [Math.abs(p - left), Math.abs(p - up), Math.abs(p - upLeft)]
+        predicted = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft
+      }
+      pixels[index] = (raw[y * (stride + 1) + 1 + i] + predicted) & 0xff
+    }
+  }
+  return pixels
+}
+
+describe('SoftwareContext', () => {
+  it('should fill paths with anti-aliased edges', async () => {
+    const context = await createContext()
+    context.setFillStyle('#ff0000')
+    context.fillRect(10, 10, 10.5, 10)
+
+    expect(pixel(context, 15, 15)).toEqual([255, 0, 0, 255])
+    expect(pixel(context, 9, 15)[3]).toBe(0)
+    // 右边缘覆盖半个像素
+    expect(pixel(context, 20, 15)[3]).toBeCloseTo(128, -1)
+  })
+
+  it('should apply transforms to arcs and curves', async () => {
+    const context = await createContext()
+    context.translate(20, 20)
+    context.scale(2, 1)
+    context.fillCircle(0, 0, 5)
+
+    expect(pixel(context, 28, 20)[3]).toBe(255)
+    expect(pixel(context, 20, 27)[3]).toBe(0)
+    expect(pixel(context, 31, 20)[3]).toBe(0)
+  })
+
+  it('should stroke with line width, caps and dashes in user space', async () => {
+    const context = await createContext()
+    context.setStrokeStyle('blue')
+    context.setLineWidth(4)
+    context.setLineDash([10, 10])
+    context.drawLine(0, 10, 40, 10)
+
+    expect(pixel(context, 5, 8)).toEqual([0, 0, 255, 255])
+    expect(pixel(context, 5, 11)[3]).toBe(255)
+    expect(pixel(context, 5, 12)[3]).toBe(0)
+    expect(pixel(context, 15, 10)[3]).toBe(0)
+    expect(pixel(context, 25, 10)[3]).toBe(255)
+  })
+
+  it('should clip drawing and restore the clip with the state', async () => {
+    const context = await createContext()
+    context.save()
+    context.clipRect(0, 0, 20, 40)
+    context.fillRect(0, 0, 40, 40)
+    context.restore()
+
+    expect(pixel(context, 10, 10)[3]).toBe(255)
+    expect(pixel(context, 30, 10)[3]).toBe(0)
+
+    context.fillRect(30, 30, 5, 5)
+    expect(pixel(context, 32, 32)[3]).toBe(255)
+  })
+
+  it('should composite images with scaling and global alpha', async () => {
+    const context = await createContext()
+    const image = {
+      width: 2,
+      height: 1,
+      data: new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 255]),
+    }
+    context.setGlobalAlpha(0.5)
+    context.drawImage(image, 0, 0, 20, 10)
+
+    expect(pixel(context, 2, 5)).toEqual([255, 0, 0, 128])
+    expect(pixel(context, 17, 5)).toEqual([0, 0, 255, 128])
+  })
+
+  it('should fill with linear, radial and conic gradients', async () => {
+    const context = await createContext()
+    context.setFillStyle({
+      type: 'linear-gradient',
+      x0: 0,
+      y0: 0,
+      x1: 40,
+      y1: 0,
+      stops: [
+        { offset: 0, color: '#ff0000' },
+        { offset: 1, color: '#0000ff' },
+      ],
+    })
+    context.fillRect(0, 0, 40, 10)
+
+    const left = pixel(context, 0, 5)
+    const middle = pixel(context, 20, 5)
+    expect(left[0]).toBeGreaterThan(240)
+    // 像素中心采样，t ≈ 0.51
+    expect(Math.abs(middle[0] - middle[2])).toBeLessThan(12)
+    expect(pixel(context, 39, 5)[2]).toBeGreaterThan(240)
+
+    context.setFillStyle({
+      type: 'radial-gradient',
+      x0: 20,
+      y0: 25,
+      r0: 0,
+      x1: 20,
+      y1: 25,
+      r1: 10,
+      stops: [
+        { offset: 0, color: '#ffffff' },
+        { offset: 1, color: 'rgba(0, 0, 0, 0)' },
+      ],
+    })
+    context.clearRect(0, 0, 40, 40)
+    context.fillRect(10, 15, 20, 20)
+    expect(pixel(context, 20, 25)[3]).toBeGreaterThan(220)
+    expect(pixel(context, 11, 16)[3]).toBe(0)
+
+    context.setFillStyle({
+      type: 'conic-gradient',
+      startAngle: 0,
+      x: 20,
+      y: 20,
+      stops: [
+        { offset: 0, color: '#000000' },
+        { offset: 1, color: '#ffffff' },
+      ],
+    })
+    context.fillRect(0, 0, 40, 40)
+    // 起始角附近为黑色，半圈处为灰色
+    expect(pixel(context, 35, 21)[0]).toBeLessThan(30)
+    expect(pixel(context, 5, 20)[0]).toBeCloseTo(128, -1)
+  })
+
+  it('should fill with transformed repeating patterns', async () => {
+    const context = await createContext()
+    const image = {
+      width: 2,
+      height: 1,
+      data: new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 255]),
+    }
+    context.setFillStyle({
+      type: 'pattern',
+      image,
+      repetition: 'repeat-x',
+      transform: { a: 5, b: 0, c: 0, d: 5, e: 0, f: 0 },
+    })
+    context.fillRect(0, 0, 40, 40)
+
+    expect(pixel(context, 2, 2)).toEqual([255, 0, 0, 255])
+    expect(pixel(context, 7, 2)).toEqual([0, 255, 0, 255])
+    expect(pixel(context, 12, 2)).toEqual([255, 0, 0, 255])
+    // 纵向不重复
+    expect(pixel(context, 2, 7)[3]).toBe(0)
+  })
+
+  it('should encode a valid PNG', async () => {
+    const context = await createContext(3, 2)
+    context.setFillStyle('rgba(0, 128, 255, 0.5)')
+    context.fillRect(0, 0, 2, 2)
+
+    const png = context.toPNG()
+    const view = new DataView(png.buffer, png.byteOffset)
+    expect(Array.from(png.subarray(1, 4))).toEqual([0x50, 0x4e, 0x47])
+    expect(view.getUint32(16)).toBe(3)
+    expect(view.getUint32(20)).toBe(2)
+
+    const idatLength = view.getUint32(33)
+    const raw = inflateSync(png.subarray(41, 41 + idatLength))
+    // 每行 1 字节滤波类型 + 3 像素 RGBA
+    expect(raw.length).toBe(2 * (1 + 3 * 4))
+  })
+
+  it('should compress repetitive image data losslessly', () => {
+    const data = new Uint8ClampedArray(64 * 64 * 4)
+    for (let i = 0; i < data.length; i++) data[i] = (i * 7) % 251
+    const png = encodePNG({ width: 64, height: 64, data })
+    const view = new DataView(png.buffer, png.byteOffset)
+    const raw = inflateSync(png.subarray(41, 41 + view.getUint32(33)))
+
+    expect(raw.length).toBe(64 * (1 + 64 * 4))
+    expect(png.length).toBeLessThan(data.length)
+    for (let y = 0; y < 64; y++) {
+      expect(raw[y * (1 + 64 * 4)]).toBeLessThanOrEqual(4)
+    }
+    expect(unfilterScanlines(raw, 64, 64)).toEqual(new Uint8Array(data))
+  })
+
+  it('should let RenderEngine render headlessly', async () => {
+    const engine = new RenderEngine()
+    await engine.initialize(new SoftwareContextFactory(), { width: 20, height: 20 })
+    engine.createLayer('main').addRenderable({
+      id: 'square',
+      bounds: { x: 5, y: 5, width: 10, height: 10 },
+      visible: true,
+      zIndex: 0,
+      render: (context: IGraphicsContext) => {
+        context.setFillStyle('#00ff00')
+        context.fillRect(5, 5, 10, 10)
+      },
+      hitTest: () => false,
+      getBounds: () => ({ x: 5, y: 5, width: 10, height: 10 }),
+    })
+    engine.render()
+
+    const context = engine.getContext() as ISoftwareContext
+    expect(pixel(context, 10, 10)).toEqual([0, 255, 0, 255])
+    expect(pixel(context, 2, 2)[3]).toBe(0)
+    engine.dispose()
+  })
+})
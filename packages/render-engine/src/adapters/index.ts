@@ -7,6 +7,8 @@
 export type { ICanvas2DContext } from './Canvas2DContext'
 // Canvas 2D适配器 (占位符)
 export { Canvas2DContextFactory } from './Canvas2DContext'
+// 软件光栅化适配器（无头渲染）
+export * from './software'
 export type { IWebGLContext } from './WebGLContext'
 // WebGL适配器
 export { WebGLContextFactory } from './WebGLContext'
@@ -16,6 +18,7 @@ export { WEBGPU_EXPERIMENTAL_WARNING, WebGPUContextFactory } from './WebGPUConte
 
 // 导入工厂类
 import { Canvas2DContextFactory } from './Canvas2DContext'
+import { SoftwareContextFactory } from './software'
 import { WebGLContextFactory } from './WebGLContext'
 import { WebGPUContextFactory } from './WebGPUContext' // Temporarily disabled
 
@@ -36,6 +39,10 @@ export class AdapterFactory {
     return new Canvas2DContextFactory()
   }
 
+  static createSoftwareAdapter(): SoftwareContextFactory {
+    return new SoftwareContextFactory()
+  }
+
   static createWebGPUAdapter(): WebGPUContextFactory {
     return new WebGPUContextFactory()
   }
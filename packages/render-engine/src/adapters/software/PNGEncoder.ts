@@ -0,0 +1,303 @@
+/**
+ * PNG 编码器
+ * 纯 TypeScript 实现：逐行自适应滤波 + zlib（LZ77 与固定霍夫曼编码）压缩，输出 RGBA 8 位 PNG
+ */
+
+import type { IImageData } from '../../graphics/IGraphicsContext'
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+/**
+ * 将 RGBA 图像数据编码为 PNG 字节
+ */
+export function encodePNG(image: IImageData): Uint8Array {
+  const { width, height, data } = image
+  if (width <= 0 || height <= 0 || data.length < width * height * 4) {
+    throw new Error(`Invalid image data for PNG encoding: ${width}x${height}`)
+  }
+
+  const header = new Uint8Array(13)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, width)
+  view.setUint32(4, height)
+  header[8] = 8 // 位深
+  header[9] = 6 // 颜色类型：RGBA
+  header[10] = 0 // 压缩方式
+  header[11] = 0 // 滤波方式
+  header[12] = 0 // 非隔行
+
+  const chunks = [
+    createChunk('IHDR', header),
+    createChunk('IDAT', zlibCompress(filterScanlines(data, width, height))),
+    createChunk('IEND', new Uint8Array(0)),
+  ]
+
+  const output = new Uint8Array(
+    PNG_SIGNATURE.length + chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+  )
+  output.set(PNG_SIGNATURE, 0)
+  let offset = PNG_SIGNATURE.length
+  for (const chunk of chunks) {
+    output.set(chunk, offset)
+    offset += chunk.length
+  }
+  return output
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i)
+  }
+  chunk.set(data, 8)
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)))
+  return chunk
+}
+
+/**
+ * 每行选择绝对值和最小的滤波类型（None/Sub/Up/Average/Paeth）
+ */
+function filterScanlines(data: Uint8ClampedArray, width: number, height: number): Uint8Array {
+  const stride = width * 4
+  const output = new Uint8Array((stride + 1) * height)
+  const candidate = new Uint8Array(stride)
+  const best = new Uint8Array(stride)
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride
+    let bestType = 0
+    let bestScore = Infinity
+
+    for (let type = 0; type < 5; type++) {
+      let score = 0
+      for (let i = 0; i < stride; i++) {
+        const raw = data[row + i]
+        const left = i >= 4 ? data[row + i - 4] : 0
+        const up = y > 0 ? data[row - stride + i] : 0
+        const upLeft = y > 0 && i >= 4 ? data[row - stride + i - 4] : 0
+        let predicted = 0
+        if (type === 1) predicted = left
+        else if (type === 2) predicted = up
+        else if (type === 3) predicted = (left + up) >> 1
+        else if (type === 4) predicted = paeth(left, up, upLeft)
+        const value = (raw - predicted) & 0xff
+        candidate[i] = value
+        score += value < 128 ? value : 256 - value
+      }
+      if (score < bestScore) {
+        bestScore = score
+        bestType = type
+        best.set(candidate)
+      }
+    }
+
+    output[y * (stride + 1)] = bestType
+    output.set(best, y * (stride + 1) + 1)
+  }
+  return output
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  if (pa <= pb && pa <= pc) return a
+  return pb <= pc ? b : c
+}
+
+// === zlib / deflate ===
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131,
+  163, 195, 227, 258,
+]
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+]
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049,
+  3073, 4097, 6145, 8193, 12289, 16385, 24577,
+]
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+]
+
+const WINDOW_SIZE = 32768
+const MIN_MATCH = 3
+const MAX_MATCH = 258
+const MAX_CHAIN = 64
+const HASH_SIZE = 1 << 15
+
+/**
+ * LSB 优先的位写入器
+ */
+class BitWriter {
+  private buffer: Uint8Array
+  private length = 0
+  private bitBuffer = 0
+  private bitCount = 0
+
+  constructor(capacity: number) {
+    this.buffer = new Uint8Array(Math.max(capacity, 64))
+  }
+
+  writeBits(value: number, count: number): void {
+    this.bitBuffer |= value << this.bitCount
+    this.bitCount += count
+    while (this.bitCount >= 8) {
+      this.writeByte(this.bitBuffer & 0xff)
+      this.bitBuffer >>>= 8
+      this.bitCount -= 8
+    }
+  }
+
+  /** 霍夫曼码按 MSB 优先写入 */
+  writeCode(code: number, length: number): void {
+    let reversed = 0
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | ((code >> i) & 1)
+    }
+    this.writeBits(reversed, length)
+  }
+
+  writeByte(byte: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2)
+      grown.set(this.buffer)
+      this.buffer = grown
+    }
+    this.buffer[this.length++] = byte
+  }
+
+  finish(): Uint8Array {
+    if (this.bitCount > 0) {
+      this.writeByte(this.bitBuffer & 0xff)
+      this.bitBuffer = 0
+      this.bitCount = 0
+    }
+    return this.buffer.subarray(0, this.length)
+  }
+}
+
+function writeLiteral(writer: BitWriter, symbol: number): void {
+  if (symbol < 144) writer.writeCode(0x30 + symbol, 8)
+  else if (symbol < 256) writer.writeCode(0x190 + symbol - 144, 9)
+  else if (symbol < 280) writer.writeCode(symbol - 256, 7)
+  else writer.writeCode(0xc0 + symbol - 280, 8)
+}
+
+function writeMatch(writer: BitWriter, length: number, distance: number): void {
+  let lengthCode = LENGTH_BASE.length - 1
+  while (LENGTH_BASE[lengthCode] > length) lengthCode--
+  writeLiteral(writer, 257 + lengthCode)
+  writer.writeBits(length - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode])
+
+  let distanceCode = DISTANCE_BASE.length - 1
+  while (DISTANCE_BASE[distanceCode] > distance) distanceCode--
+  writer.writeCode(distanceCode, 5)
+  writer.writeBits(distance - DISTANCE_BASE[distanceCode], DISTANCE_EXTRA[distanceCode])
+}
+
+/**
+ * zlib 封装的 deflate 压缩（单个固定霍夫曼块）
+ */
+export function zlibCompress(input: Uint8Array): Uint8Array {
+  const writer = new BitWriter((input.length >> 1) + 16)
+  writer.writeByte(0x78)
+  writer.writeByte(0x01)
+  writer.writeBits(1, 1) // BFINAL
+  writer.writeBits(1, 2) // BTYPE = 固定霍夫曼
+
+  const head = new Int32Array(HASH_SIZE).fill(-1)
+  const prev = new Int32Array(WINDOW_SIZE)
+  const hashAt = (i: number) =>
+    ((input[i] << 10) ^ (input[i + 1] << 5) ^ input[i + 2]) & (HASH_SIZE - 1)
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > input.length) return
+    const hash = hashAt(i)
+    prev[i & (WINDOW_SIZE - 1)] = head[hash]
+    head[hash] = i
+  }
+
+  let position = 0
+  while (position < input.length) {
+    let bestLength = 0
+    let bestDistance = 0
+
+    if (position + MIN_MATCH <= input.length) {
+      const maxLength = Math.min(MAX_MATCH, input.length - position)
+      let candidate = head[hashAt(position)]
+      let chain = MAX_CHAIN
+      while (candidate >= 0 && position - candidate <= WINDOW_SIZE && chain-- > 0) {
+        if (input[candidate + bestLength] === input[position + bestLength]) {
+          let length = 0
+          while (length < maxLength && input[candidate + length] === input[position + length]) {
+            length++
+          }
+          if (length > bestLength) {
+            bestLength = length
+            bestDistance = position - candidate
+            if (length === maxLength) break
+          }
+        }
+        const next = prev[candidate & (WINDOW_SIZE - 1)]
+        if (next >= candidate) break
+        candidate = next
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(writer, bestLength, bestDistance)
+      for (let i = 0; i < bestLength; i++) {
+        insert(position + i)
+      }
+      position += bestLength
+    } else {
+      writeLiteral(writer, input[position])
+      insert(position)
+      position++
+    }
+  }
+
+  writeLiteral(writer, 256) // 块结束
+  const checksum = adler32(input)
+  writer.finish()
+  writer.writeByte((checksum >>> 24) & 0xff)
+  writer.writeByte((checksum >>> 16) & 0xff)
+  writer.writeByte((checksum >>> 8) & 0xff)
+  writer.writeByte(checksum & 0xff)
+  return writer.finish()
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1
+  let b = 0
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521
+    b = (b + a) % 65521
+  }
+  return ((b << 16) | a) >>> 0
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
@@ -0,0 +1,889 @@
+/**
+ * 软件渲染上下文
+ * 纯 TypeScript 实现的 IGraphicsContext，将绘制结果光栅化到 RGBA 缓冲区，
+ * 不依赖浏览器画布，可用于无头渲染、缩略图生成、像素对比测试与批量导出
+ */
+
+import {
+  compositeLayerPixels,
+  type ILayerCompositeOptions,
+  needsIsolation,
+} from '../../graphics/BlendModes'
+import type {
+  IColor,
+  IGraphicsCapabilities,
+  IGraphicsContext,
+  IGraphicsContextFactory,
+  IGraphicsState,
+  IGraphicsStyle,
+  IImageData,
+  IPaint,
+  IPoint,
+  IRect,
+  ITextStyle,
+  ITransform,
+} from '../../graphics/IGraphicsContext'
+import { isSolidPaint, samplePaint } from '../../graphics/Paint'
+import { parseColor, type RGBAColor } from '../../utils/ColorUtils'
+import { encodePNG } from './PNGEncoder'
+import {
+  arcSegmentCount,
+  type ICoverageMask,
+  type IPolyline,
+  rasterizePolygons,
+  strokePolylines,
+} from './SoftwareRasterizer'
+
+/**
+ * 软件画布描述
+ */
+export interface ISoftwareCanvas {
+  width: number
+  height: number
+  devicePixelRatio?: number
+}
+
+/**
+ * 软件上下文接口
+ */
+export interface ISoftwareContext extends IGraphicsContext {
+  /** 当前帧缓冲（RGBA，非预乘） */
+  readonly imageData: IImageData
+  /** 将当前帧缓冲编码为 PNG */
+  toPNG(): Uint8Array
+}
+
+/** 设备空间曲线展平容差（像素） */
+const FLATTEN_TOLERANCE = 0.25
+const DEFAULT_MITER_LIMIT = 10
+/** 占位字形的度量比例（相对字号） */
+const GLYPH_ADVANCE = 0.6
+const GLYPH_ASCENT = 0.8
+const GLYPH_DESCENT = 0.2
+
+type TextAlign = 'left' | 'center' | 'right' | 'start' | 'end'
+type TextBaseline = 'top' | 'middle' | 'bottom' | 'alphabetic' | 'hanging'
+
+interface ISoftwareState {
+  transform: ITransform
+  style: IGraphicsStyle
+  lineDash: number[]
+  font: string
+  fontSize: number
+  textAlign: TextAlign
+  textBaseline: TextBaseline
+  /** 整个画布的裁剪覆盖率，null 表示不裁剪 */
+  clip: Float32Array | null
+}
+
+const IDENTITY: ITransform = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 }
+
+const applyTransform = (t: ITransform, x: number, y: number): IPoint => ({
+  x: t.a * x + t.c * y + t.e,
+  y: t.b * x + t.d * y + t.f,
+})
+
+const invertTransform = (t: ITransform): ITransform | null => {
+  const det = t.a * t.d - t.b * t.c
+  if (!det || !Number.isFinite(det)) return null
+  return {
+    a: t.d / det,
+    b: -t.b / det,
+    c: -t.c / det,
+    d: t.a / det,
+    e: (t.c * t.f - t.d * t.e) / det,
+    f: (t.b * t.e - t.a * t.f) / det,
+  }
+}
+
+const multiplyTransform = (m: ITransform, n: ITransform): ITransform => ({
+  a: m.a * n.a + m.c * n.b,
+  b: m.b * n.a + m.d * n.b,
+  c: m.a * n.c + m.c * n.d,
+  d: m.b * n.c + m.d * n.d,
+  e: m.a * n.e + m.c * n.f + m.e,
+  f: m.b * n.e + m.d * n.f + m.f,
+})
+
+/**
+ * 软件图形上下文实现
+ */
+class SoftwareContext implements ISoftwareContext {
+  readonly width: number
+  readonly height: number
+  readonly devicePixelRatio: number
+  readonly imageData: IImageData
+
+  private state: ISoftwareState
+  private stateStack: ISoftwareState[] = []
+  private subpaths: IPolyline[] = []
+  private currentSubpath: IPolyline | null = null
+  private colorCache = new Map<string, RGBAColor>()
+  /** 离屏图层栈，无需隔离的图层不分配缓冲 */
+  private layers: Array<{ data: Uint8ClampedArray | null; options: ILayerCompositeOptions }> = []
+
+  constructor(canvas: ISoftwareCanvas) {
+    this.width = Math.max(0, Math.floor(canvas.width))
+    this.height = Math.max(0, Math.floor(canvas.height))
+    this.devicePixelRatio = canvas.devicePixelRatio ?? 1
+    this.imageData = {
+      width: this.width,
+      height: this.height,
+      data: new Uint8ClampedArray(this.width * this.height * 4),
+    }
+    this.state = this.createDefaultState()
+  }
+
+  // 状态管理
+  save(): void {
+    this.stateStack.push(this.cloneState(this.state))
+  }
+
+  restore(): void {
+    const state = this.stateStack.pop()
+    if (state) {
+      this.state = state
+    }
+  }
+
+  getState(): IGraphicsState {
+    return { transform: { ...this.state.transform }, style: { ...this.state.style } }
+  }
+
+  setState(state: Partial<IGraphicsState>): void {
+    if (state.transform) {
+      this.setTransform(state.transform)
+    }
+    if (state.style) {
+      this.setStyle(state.style)
+    }
+  }
+
+  // 变换操作
+  setTransform(transform: ITransform): void {
+    this.state.transform = { ...transform }
+  }
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.state.transform = multiplyTransform(this.state.transform, { a, b, c, d, e, f })
+  }
+
+  translate(x: number, y: number): void {
+    this.transform(1, 0, 0, 1, x, y)
+  }
+
+  rotate(angle: number): void {
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    this.transform(cos, sin, -sin, cos, 0, 0)
+  }
+
+  scale(x: number, y: number): void {
+    this.transform(x, 0, 0, y, 0, 0)
+  }
+
+  resetTransform(): void {
+    this.state.transform = { ...IDENTITY }
+  }
+
+  // 样式设置
+  setStyle(style: Partial<IGraphicsStyle>): void {
+    this.state.style = { ...this.state.style, ...style }
+  }
+
+  setFillColor(color: IColor | string): void {
+    this.state.style.fillColor = color
+  }
+
+  setStrokeColor(color: IColor | string): void {
+    this.state.style.strokeColor = color
+  }
+
+  setFillStyle(paint: IPaint): void {
+    this.state.style.fillColor = paint
+  }
+
+  setStrokeStyle(paint: IPaint): void {
+    this.state.style.strokeColor = paint
+  }
+
+  setLineWidth(width: number): void {
+    this.state.style.lineWidth = width
+  }
+
+  setOpacity(opacity: number): void {
+    this.state.style.opacity = opacity
+  }
+
+  setGlobalAlpha(alpha: number): void {
+    this.state.style.opacity = Math.max(0, Math.min(1, alpha))
+  }
+
+  setLineDash(segments: number[]): void {
+    this.state.lineDash = [...segments]
+  }
+
+  setTextAlign(align: TextAlign): void {
+    this.state.textAlign = align
+  }
+
+  setTextBaseline(baseline: TextBaseline): void {
+    this.state.textBaseline = baseline
+  }
+
+  setFont(font: string): void {
+    const size = /(\d+(?:\.\d+)?)px/.exec(font)
+    this.state.font = font
+    if (size) {
+      this.state.fontSize = Number(size[1])
+    }
+  }
+
+  // 清除和渲染
+  clear(): void {
+    this.pixels.fill(0)
+  }
+
+  clearRect(x: number, y: number, width: number, height: number): void {
+    const mask = this.rasterizeUserPolygons([this.rectPoints(x, y, width, height)])
+    if (!mask) return
+
+    const data = this.pixels
+    this.forEachCoveredPixel(mask, (index, coverage) => {
+      const alpha = data[index + 3] * (1 - coverage)
+      data[index + 3] = alpha
+      if (alpha === 0) {
+        data[index] = data[index + 1] = data[index + 2] = 0
+      }
+    })
+  }
+
+  present(): void {
+    // 直接写入帧缓冲，无需提交
+  }
+
+  // 路径绘制
+  beginPath(): void {
+    this.subpaths = []
+    this.currentSubpath = null
+  }
+
+  closePath(): void {
+    const subpath = this.currentSubpath
+    if (!subpath || subpath.points.length === 0) return
+    subpath.closed = true
+    // 闭合后新子路径从原起点开始
+    this.startSubpath(subpath.points[0])
+  }
+
+  moveTo(x: number, y: number): void {
+    this.startSubpath(applyTransform(this.state.transform, x, y))
+  }
+
+  lineTo(x: number, y: number): void {
+    this.lineToDevice(applyTransform(this.state.transform, x, y))
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    const t = this.state.transform
+    const p0 = this.ensureCurrentPoint(cpx, cpy)
+    const p1 = applyTransform(t, cpx, cpy)
+    const p2 = applyTransform(t, x, y)
+
+    const dd = Math.hypot(p0.x - 2 * p1.x + p2.x, p0.y - 2 * p1.y + p2.y)
+    const segments = Math.max(1, Math.ceil(Math.sqrt((0.25 * dd) / FLATTEN_TOLERANCE)))
+    for (let i = 1; i <= segments; i++) {
+      const s = i / segments
+      const u = 1 - s
+      this.lineToDevice({
+        x: u * u * p0.x + 2 * u * s * p1.x + s * s * p2.x,
+        y: u * u * p0.y + 2 * u * s * p1.y + s * s * p2.y,
+      })
+    }
+  }
+
+  bezierCurveTo(
+    cp1x: number,
+    cp1y: number,
+    cp2x: number,
+    cp2y: number,
+    x: number,
+    y: number
+  ): void {
+    const t = this.state.transform
+    const p0 = this.ensureCurrentPoint(cp1x, cp1y)
+    const p1 = applyTransform(t, cp1x, cp1y)
+    const p2 = applyTransform(t, cp2x, cp2y)
+    const p3 = applyTransform(t, x, y)
+
+    // Wang 公式：控制多边形二阶差分决定分段数
+    const dd = Math.max(
+      Math.hypot(p0.x - 2 * p1.x + p2.x, p0.y - 2 * p1.y + p2.y),
+      Math.hypot(p1.x - 2 * p2.x + p3.x, p1.y - 2 * p2.y + p3.y)
+    )
+    const segments = Math.max(1, Math.ceil(Math.sqrt((0.75 * dd) / FLATTEN_TOLERANCE)))
+    for (let i = 1; i <= segments; i++) {
+      const s = i / segments
+      const u = 1 - s
+      const a = u * u * u
+      const b = 3 * u * u * s
+      const c = 3 * u * s * s
+      const d = s * s * s
+      this.lineToDevice({
+        x: a * p0.x + b * p1.x + c * p2.x + d * p3.x,
+        y: a * p0.y + b * p1.y + c * p2.y + d * p3.y,
+      })
+    }
+  }
+
+  arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise?: boolean
+  ): void {
+    if (radius < 0) {
+      throw new Error(`The radius provided (${radius}) is negative.`)
+    }
+
+    const tau = Math.PI * 2
+    let sweep = endAngle - startAngle
+    if (!counterclockwise) {
+      sweep = sweep >= tau ? tau : ((sweep % tau) + tau) % tau
+    } else {
+      sweep = sweep <= -tau ? -tau : -((((startAngle - endAngle) % tau) + tau) % tau)
+    }
+
+    const t = this.state.transform
+    const deviceRadius = radius * Math.max(Math.hypot(t.a, t.b), Math.hypot(t.c, t.d))
+    const segments = arcSegmentCount(deviceRadius, sweep, FLATTEN_TOLERANCE)
+    for (let i = 0; i <= segments; i++) {
+      const angle = startAngle + (sweep * i) / segments
+      this.lineToDevice(
+        applyTransform(t, x + Math.cos(angle) * radius, y + Math.sin(angle) * radius)
+      )
+    }
+  }
+
+  rect(x: number, y: number, width: number, height: number): void {
+    const t = this.state.transform
+    const points = this.rectPoints(x, y, width, height).map((p) => applyTransform(t, p.x, p.y))
+    this.subpaths.push({ points, closed: true })
+    this.startSubpath(points[0])
+  }
+
+  // 绘制方法
+  fill(): void {
+    const mask = rasterizePolygons(
+      this.subpaths.map((subpath) => subpath.points),
+      this.width,
+      this.height
+    )
+    this.paintMask(mask, this.state.style.fillColor)
+  }
+
+  stroke(): void {
+    const inverse = invertTransform(this.state.transform)
+    if (!inverse) return
+
+    // 线宽与虚线在用户空间计算，先将设备空间路径映射回用户空间
+    const polylines = this.subpaths
+      .filter((subpath) => subpath.points.length > 1)
+      .map((subpath) => ({
+        points: subpath.points.map((p) => applyTransform(inverse, p.x, p.y)),
+        closed: subpath.closed,
+      }))
+    this.strokeUserPolylines(polylines)
+  }
+
+  fillRect(x: number, y: number, width: number, height: number): void {
+    const mask = this.rasterizeUserPolygons([this.rectPoints(x, y, width, height)])
+    this.paintMask(mask, this.state.style.fillColor)
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number): void {
+    this.strokeUserPolylines([{ points: this.rectPoints(x, y, width, height), closed: true }])
+  }
+
+  drawLine(x1: number, y1: number, x2: number, y2: number): void {
+    this.beginPath()
+    this.moveTo(x1, y1)
+    this.lineTo(x2, y2)
+    this.stroke()
+  }
+
+  drawRect(rect: IRect, fill?: boolean, stroke?: boolean): void {
+    if (fill) {
+      this.fillRect(rect.x, rect.y, rect.width, rect.height)
+    }
+    if (stroke) {
+      this.strokeRect(rect.x, rect.y, rect.width, rect.height)
+    }
+  }
+
+  // 圆形绘制
+  fillCircle(x: number, y: number, radius: number): void {
+    this.beginPath()
+    this.arc(x, y, radius, 0, 2 * Math.PI)
+    this.fill()
+  }
+
+  strokeCircle(x: number, y: number, radius: number): void {
+    this.beginPath()
+    this.arc(x, y, radius, 0, 2 * Math.PI)
+    this.stroke()
+  }
+
+  drawCircle(center: IPoint, radius: number, fill?: boolean, stroke?: boolean): void {
+    if (fill) {
+      this.fillCircle(center.x, center.y, radius)
+    }
+    if (stroke) {
+      this.strokeCircle(center.x, center.y, radius)
+    }
+  }
+
+  // 文本绘制：无字体引擎，每个非空白字符绘制为一个占位字形框
+  fillText(text: string, x: number, y: number, style?: ITextStyle): void {
+    if (style) {
+      this.applyTextStyle(style)
+    }
+    const mask = this.rasterizeUserPolygons(this.layoutGlyphs(text, x, y))
+    this.paintMask(mask, this.state.style.fillColor)
+  }
+
+  strokeText(text: string, x: number, y: number, style?: ITextStyle): void {
+    if (style) {
+      this.applyTextStyle(style)
+    }
+    this.strokeUserPolylines(
+      this.layoutGlyphs(text, x, y).map((points) => ({ points, closed: true }))
+    )
+  }
+
+  measureText(text: string, style?: ITextStyle): { width: number; height: number } {
+    const fontSize = style?.fontSize ?? this.state.fontSize
+    return { width: text.length * fontSize * GLYPH_ADVANCE, height: fontSize }
+  }
+
+  // 图像操作
+  drawImage(imageData: IImageData, dx: number, dy: number): void
+  drawImage(imageData: IImageData, dx: number, dy: number, dw: number, dh: number): void
+  drawImage(imageData: IImageData, dx: number, dy: number, dw?: number, dh?: number): void {
+    const width = dw ?? imageData.width
+    const height = dh ?? imageData.height
+    if (imageData.width === 0 || imageData.height === 0 || width === 0 || height === 0) return
+
+    const inverse = invertTransform(this.state.transform)
+    const mask = this.rasterizeUserPolygons([this.rectPoints(dx, dy, width, height)])
+    if (!inverse || !mask) return
+
+    const scaleX = imageData.width / width
+    const scaleY = imageData.height / height
+    const sample = new Float32Array(4)
+    const alpha = this.state.style.opacity ?? 1
+    const data = this.pixels
+
+    this.forEachCoveredPixel(mask, (index, coverage, px, py) => {
+      // 像素中心映射回图像坐标后双线性采样
+      const user = applyTransform(inverse, px + 0.5, py + 0.5)
+      sampleBilinear(imageData, (user.x - dx) * scaleX, (user.y - dy) * scaleY, sample)
+      blendPixel(data, index, sample[0], sample[1], sample[2], sample[3] * coverage * alpha)
+    })
+  }
+
+  getImageData(x: number, y: number, width: number, height: number): IImageData {
+    const result = new Uint8ClampedArray(Math.max(0, width * height * 4))
+    const source = this.pixels
+    for (let row = 0; row < height; row++) {
+      const sy = y + row
+      if (sy < 0 || sy >= this.height) continue
+      for (let col = 0; col < width; col++) {
+        const sx = x + col
+        if (sx < 0 || sx >= this.width) continue
+        const from = (sy * this.width + sx) * 4
+        const to = (row * width + col) * 4
+        result[to] = source[from]
+        result[to + 1] = source[from + 1]
+        result[to + 2] = source[from + 2]
+        result[to + 3] = source[from + 3]
+      }
+    }
+    return { width, height, data: result }
+  }
+
+  putImageData(imageData: IImageData, x: number, y: number): void {
+    // 与画布语义一致：忽略变换、裁剪与透明度，直接替换像素
+    const target = this.pixels
+    for (let row = 0; row < imageData.height; row++) {
+      const ty = Math.round(y) + row
+      if (ty < 0 || ty >= this.height) continue
+      for (let col = 0; col < imageData.width; col++) {
+        const tx = Math.round(x) + col
+        if (tx < 0 || tx >= this.width) continue
+        const from = (row * imageData.width + col) * 4
+        target.set(imageData.data.subarray(from, from + 4), (ty * this.width + tx) * 4)
+      }
+    }
+  }
+
+  // 裁剪
+  clip(): void {
+    const mask = rasterizePolygons(
+      this.subpaths.map((subpath) => subpath.points),
+      this.width,
+      this.height
+    )
+    const previous = this.state.clip
+    const clip = new Float32Array(this.width * this.height)
+    if (mask) {
+      for (let row = 0; row < mask.height; row++) {
+        for (let col = 0; col < mask.width; col++) {
+          const index = (mask.y + row) * this.width + mask.x + col
+          const coverage = Math.min(1, mask.data[row * mask.width + col])
+          clip[index] = previous ? coverage * previous[index] : coverage
+        }
+      }
+    }
+    // 裁剪区域不可变，save/restore 仅需保存引用
+    this.state.clip = clip
+  }
+
+  clipRect(x: number, y: number, width: number, height: number): void {
+    this.beginPath()
+    this.rect(x, y, width, height)
+    this.clip()
+  }
+
+  // 离屏图层
+  beginLayer(options: ILayerCompositeOptions = {}): void {
+    const data = needsIsolation(options) ? new Uint8ClampedArray(this.imageData.data.length) : null
+    this.layers.push({ data, options })
+  }
+
+  endLayer(): void {
+    const layer = this.layers.pop()
+    if (!layer?.data) return
+    compositeLayerPixels(this.pixels, layer.data, layer.options, this.state.clip)
+  }
+
+  // 坐标转换：无头画布没有屏幕布局，屏幕坐标即画布像素坐标
+  screenToWorld(point: IPoint): IPoint {
+    return { x: point.x, y: point.y }
+  }
+
+  worldToScreen(point: IPoint): IPoint {
+    return { x: point.x, y: point.y }
+  }
+
+  toPNG(): Uint8Array {
+    return encodePNG(this.imageData)
+  }
+
+  // 资源管理
+  dispose(): void {
+    this.stateStack = []
+    this.subpaths = []
+    this.currentSubpath = null
+    this.layers = []
+    this.colorCache.clear()
+  }
+
+  // 私有方法
+  private createDefaultState(): ISoftwareState {
+    return {
+      transform: { ...IDENTITY },
+      style: {
+        fillColor: '#000000',
+        strokeColor: '#000000',
+        lineWidth: 1,
+        lineCap: 'butt',
+        lineJoin: 'miter',
+        opacity: 1,
+      },
+      lineDash: [],
+      font: '10px sans-serif',
+      fontSize: 10,
+      textAlign: 'start',
+      textBaseline: 'alphabetic',
+      clip: null,
+    }
+  }
+
+  private cloneState(state: ISoftwareState): ISoftwareState {
+    return {
+      ...state,
+      transform: { ...state.transform },
+      style: { ...state.style },
+      lineDash: [...state.lineDash],
+    }
+  }
+
+  private startSubpath(point: IPoint): void {
+    this.currentSubpath = { points: [point], closed: false }
+    this.subpaths.push(this.currentSubpath)
+  }
+
+  private lineToDevice(point: IPoint): void {
+    if (!this.currentSubpath) {
+      this.startSubpath(point)
+      return
+    }
+    this.currentSubpath.points.push(point)
+  }
+
+  /**
+   * 返回当前点；路径为空时按画布语义以 (x, y) 作为起点
+   */
+  private ensureCurrentPoint(x: number, y: number): IPoint {
+    const points = this.currentSubpath?.points
+    if (points && points.length > 0) {
+      return points[points.length - 1]
+    }
+    this.moveTo(x, y)
+    return applyTransform(this.state.transform, x, y)
+  }
+
+  private rectPoints(x: number, y: number, width: number, height: number): IPoint[] {
+    return [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height },
+    ]
+  }
+
+  private rasterizeUserPolygons(polygons: IPoint[][]): ICoverageMask | null {
+    const t = this.state.transform
+    return rasterizePolygons(
+      polygons.map((polygon) => polygon.map((p) => applyTransform(t, p.x, p.y))),
+      this.width,
+      this.height
+    )
+  }
+
+  private strokeUserPolylines(polylines: IPolyline[]): void {
+    const { style, transform: t } = this.state
+    const deviceScale = Math.max(Math.hypot(t.a, t.b), Math.hypot(t.c, t.d)) || 1
+    const outline = strokePolylines(polylines, {
+      width: style.lineWidth ?? 1,
+      cap: style.lineCap ?? 'butt',
+      join: style.lineJoin ?? 'miter',
+      miterLimit: DEFAULT_MITER_LIMIT,
+      dash: this.state.lineDash,
+      dashOffset: 0,
+      tolerance: FLATTEN_TOLERANCE / deviceScale,
+    })
+    this.paintMask(this.rasterizeUserPolygons(outline), style.strokeColor)
+  }
+
+  /**
+   * 布局占位字形框（用户空间）
+   */
+  private layoutGlyphs(text: string, x: number, y: number): IPoint[][] {
+    const { fontSize, textAlign, textBaseline } = this.state
+    const advance = fontSize * GLYPH_ADVANCE
+    const totalWidth = text.length * advance
+
+    let startX = x
+    if (textAlign === 'center') startX -= totalWidth / 2
+    else if (textAlign === 'right' || textAlign === 'end') startX -= totalWidth
+
+    let baseline = y
+    if (textBaseline === 'top' || textBaseline === 'hanging') baseline += fontSize * GLYPH_ASCENT
+    else if (textBaseline === 'middle') baseline += (fontSize * (GLYPH_ASCENT - GLYPH_DESCENT)) / 2
+    else if (textBaseline === 'bottom') baseline -= fontSize * GLYPH_DESCENT
+
+    const glyphs: IPoint[][] = []
+    const inset = advance * 0.1
+    const glyphHeight = fontSize * GLYPH_ASCENT * 0.9
+    for (let i = 0; i < text.length; i++) {
+      if (/\s/.test(text[i])) continue
+      glyphs.push(
+        this.rectPoints(
+          startX + i * advance + inset,
+          baseline - glyphHeight,
+          advance - inset * 2,
+          glyphHeight
+        )
+      )
+    }
+    return glyphs
+  }
+
+  private applyTextStyle(style: ITextStyle): void {
+    const { fontFamily, fontSize, fontWeight, fontStyle, textAlign, textBaseline, ...rest } = style
+    if (fontSize !== undefined || fontFamily !== undefined) {
+      const parts = [fontStyle, fontWeight, `${fontSize ?? this.state.fontSize}px`, fontFamily]
+      this.setFont(parts.filter((part) => part !== undefined).join(' '))
+    }
+    if (textAlign) this.state.textAlign = textAlign
+    if (textBaseline) this.state.textBaseline = textBaseline
+    this.setStyle(rest)
+  }
+
+  /**
+   * 当前绘制目标：栈顶的离屏图层或帧缓冲
+   */
+  private get pixels(): Uint8ClampedArray {
+    for (let i = this.layers.length - 1; i >= 0; i--) {
+      const data = this.layers[i].data
+      if (data) return data
+    }
+    return this.imageData.data
+  }
+
+  private resolveColor(color: IColor | string): RGBAColor {
+    if (typeof color !== 'string') {
+      return {
+        r: Math.round(color.r * 255),
+        g: Math.round(color.g * 255),
+        b: Math.round(color.b * 255),
+        a: Math.round((color.a ?? 1) * 255),
+      }
+    }
+    let parsed = this.colorCache.get(color)
+    if (!parsed) {
+      parsed = parseColor(color)
+      this.colorCache.set(color, parsed)
+    }
+    return parsed
+  }
+
+  private paintMask(mask: ICoverageMask | null, paint: IPaint | undefined): void {
+    if (!mask || paint === undefined) return
+    const opacity = this.state.style.opacity ?? 1
+    const data = this.pixels
+
+    if (isSolidPaint(paint)) {
+      const rgba = this.resolveColor(paint)
+      if (rgba.a === 0) return
+      const alpha = (rgba.a / 255) * opacity
+      this.forEachCoveredPixel(mask, (index, coverage) => {
+        blendPixel(data, index, rgba.r, rgba.g, rgba.b, coverage * alpha)
+      })
+      return
+    }
+
+    // 渐变与图案定义在绘制时的用户空间，逐像素映射回用户空间求值
+    const inverse = invertTransform(this.state.transform)
+    if (!inverse) return
+    const sample = new Float32Array(4)
+    this.forEachCoveredPixel(mask, (index, coverage, px, py) => {
+      const user = applyTransform(inverse, px + 0.5, py + 0.5)
+      samplePaint(paint, user.x, user.y, sample)
+      blendPixel(data, index, sample[0], sample[1], sample[2], sample[3] * coverage * opacity)
+    })
+  }
+
+  /**
+   * 遍历遮罩中覆盖率大于 0 的像素，覆盖率已与裁剪区域相乘
+   */
+  private forEachCoveredPixel(
+    mask: ICoverageMask,
+    visit: (index: number, coverage: number, x: number, y: number) => void
+  ): void {
+    const clip = this.state.clip
+    for (let row = 0; row < mask.height; row++) {
+      const y = mask.y + row
+      for (let col = 0; col < mask.width; col++) {
+        let coverage = mask.data[row * mask.width + col]
+        if (coverage <= 0) continue
+        const x = mask.x + col
+        const pixel = y * this.width + x
+        if (clip) {
+          coverage *= clip[pixel]
+          if (coverage <= 0) continue
+        }
+        visit(pixel * 4, Math.min(1, coverage), x, y)
+      }
+    }
+  }
+}
+
+/**
+ * source-over 合成（非预乘存储）
+ */
+function blendPixel(
+  data: Uint8ClampedArray,
+  index: number,
+  r: number,
+  g: number,
+  b: number,
+  alpha: number
+): void {
+  if (alpha <= 0) return
+  const dstAlpha = data[index + 3] / 255
+  const outAlpha = alpha + dstAlpha * (1 - alpha)
+  const dstWeight = dstAlpha * (1 - alpha)
+  data[index] = (r * alpha + data[index] * dstWeight) / outAlpha
+  data[index + 1] = (g * alpha + data[index + 1] * dstWeight) / outAlpha
+  data[index + 2] = (b * alpha + data[index + 2] * dstWeight) / outAlpha
+  data[index + 3] = outAlpha * 255
+}
+
+/**
+ * 预乘双线性采样，边缘像素外延；输出颜色 0-255，透明度 0-1
+ */
+function sampleBilinear(image: IImageData, u: number, v: number, out: Float32Array): void {
+  const x = Math.min(Math.max(u - 0.5, 0), image.width - 1)
+  const y = Math.min(Math.max(v - 0.5, 0), image.height - 1)
+  const x0 = Math.floor(x)
+  const y0 = Math.floor(y)
+  const x1 = Math.min(x0 + 1, image.width - 1)
+  const y1 = Math.min(y0 + 1, image.height - 1)
+  const fx = x - x0
+  const fy = y - y0
+
+  let r = 0
+  let g = 0
+  let b = 0
+  let a = 0
+  const accumulate = (px: number, py: number, weight: number) => {
+    if (weight === 0) return
+    const index = (py * image.width + px) * 4
+    const w = (image.data[index + 3] / 255) * weight
+    r += image.data[index] * w
+    g += image.data[index + 1] * w
+    b += image.data[index + 2] * w
+    a += w
+  }
+  accumulate(x0, y0, (1 - fx) * (1 - fy))
+  accumulate(x1, y0, fx * (1 - fy))
+  accumulate(x0, y1, (1 - fx) * fy)
+  accumulate(x1, y1, fx * fy)
+
+  out[0] = a > 0 ? r / a : 0
+  out[1] = a > 0 ? g / a : 0
+  out[2] = a > 0 ? b / a : 0
+  out[3] = a
+}
+
+/**
+ * 软件图形上下文工厂
+ */
+export class SoftwareContextFactory implements IGraphicsContextFactory<ISoftwareCanvas> {
+  async createContext(canvas: ISoftwareCanvas): Promise<ISoftwareContext> {
+    if (!(canvas.width > 0) || !(canvas.height > 0)) {
+      throw new Error(`Invalid software canvas size: ${canvas.width}x${canvas.height}`)
+    }
+    return new SoftwareContext(canvas)
+  }
+
+  isSupported(): boolean {
+    return true
+  }
+
+  getCapabilities(): IGraphicsCapabilities {
+    return {
+      supportsHardwareAcceleration: false,
+      supportsTransforms: true,
+      supportsFilters: false,
+      supportsBlending: false,
+      maxTextureSize: 16384,
+      supportedFormats: ['png'],
+    }
+  }
+}
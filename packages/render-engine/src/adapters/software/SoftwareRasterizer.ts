@@ -0,0 +1,431 @@
+/**
+ * 软件光栅化
+ * 将设备坐标下的多边形扫描转换为抗锯齿覆盖率遮罩，并提供描边轮廓生成
+ */
+
+import type { IPoint } from '../../graphics/IGraphicsContext'
+
+/**
+ * 填充规则
+ */
+export type FillRule = 'nonzero' | 'evenodd'
+
+/**
+ * 折线（展平后的子路径）
+ */
+export interface IPolyline {
+  points: IPoint[]
+  closed: boolean
+}
+
+/**
+ * 覆盖率遮罩，data 为 0-1 的像素覆盖率，范围为画布内的包围盒
+ */
+export interface ICoverageMask {
+  x: number
+  y: number
+  width: number
+  height: number
+  data: Float32Array
+}
+
+/**
+ * 描边选项，均为用户空间单位
+ */
+export interface IStrokeOptions {
+  width: number
+  cap: 'butt' | 'round' | 'square'
+  join: 'miter' | 'round' | 'bevel'
+  miterLimit: number
+  dash: number[]
+  dashOffset: number
+  /** 圆弧展平容差 */
+  tolerance: number
+}
+
+/** 每个像素行的垂直子采样数，水平方向按精确面积计算 */
+const SUBSAMPLES = 5
+
+interface IEdge {
+  x0: number
+  y0: number
+  y1: number
+  slope: number
+  winding: number
+}
+
+/**
+ * 将多边形光栅化为覆盖率遮罩，完全落在画布外时返回 null
+ */
+export function rasterizePolygons(
+  polygons: IPoint[][],
+  width: number,
+  height: number,
+  fillRule: FillRule = 'nonzero'
+): ICoverageMask | null {
+  const edges: IEdge[] = []
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+
+  for (const polygon of polygons) {
+    const count = polygon.length
+    if (count < 3) continue
+    for (let i = 0; i < count; i++) {
+      const a = polygon[i]
+      const b = polygon[(i + 1) % count]
+      if (!Number.isFinite(a.x) || !Number.isFinite(a.y)) continue
+      minX = Math.min(minX, a.x)
+      maxX = Math.max(maxX, a.x)
+      minY = Math.min(minY, a.y)
+      maxY = Math.max(maxY, a.y)
+      if (a.y === b.y || !Number.isFinite(b.x) || !Number.isFinite(b.y)) continue
+      const downward = a.y < b.y
+      const top = downward ? a : b
+      const bottom = downward ? b : a
+      edges.push({
+        x0: top.x,
+        y0: top.y,
+        y1: bottom.y,
+        slope: (bottom.x - top.x) / (bottom.y - top.y),
+        winding: downward ? 1 : -1,
+      })
+    }
+  }
+
+  const left = Math.max(0, Math.floor(minX))
+  const top = Math.max(0, Math.floor(minY))
+  const right = Math.min(width, Math.ceil(maxX))
+  const bottom = Math.min(height, Math.ceil(maxY))
+  if (edges.length === 0 || right <= left || bottom <= top) return null
+
+  const mask: ICoverageMask = {
+    x: left,
+    y: top,
+    width: right - left,
+    height: bottom - top,
+    data: new Float32Array((right - left) * (bottom - top)),
+  }
+
+  edges.sort((a, b) => a.y0 - b.y0)
+  const active: IEdge[] = []
+  const crossings: Array<{ x: number; winding: number }> = []
+  const weight = 1 / SUBSAMPLES
+  let nextEdge = 0
+
+  for (let row = top; row < bottom; row++) {
+    const rowOffset = (row - top) * mask.width
+    for (let sub = 0; sub < SUBSAMPLES; sub++) {
+      const y = row + (sub + 0.5) * weight
+
+      while (nextEdge < edges.length && edges[nextEdge].y0 <= y) {
+        active.push(edges[nextEdge++])
+      }
+      crossings.length = 0
+      for (let i = active.length - 1; i >= 0; i--) {
+        const edge = active[i]
+        if (edge.y1 <= y) {
+          active.splice(i, 1)
+        } else if (edge.y0 <= y) {
+          crossings.push({ x: edge.x0 + (y - edge.y0) * edge.slope, winding: edge.winding })
+        }
+      }
+      if (crossings.length < 2) continue
+      crossings.sort((a, b) => a.x - b.x)
+
+      let winding = 0
+      for (let i = 0; i < crossings.length - 1; i++) {
+        winding += crossings[i].winding
+        const inside = fillRule === 'nonzero' ? winding !== 0 : (winding & 1) === 1
+        if (inside) {
+          addSpan(mask, rowOffset, crossings[i].x, crossings[i + 1].x, weight)
+        }
+      }
+    }
+  }
+
+  return mask
+}
+
+/**
+ * 累加一段水平跨度的覆盖率，首尾像素按跨度所占比例计算
+ */
+function addSpan(mask: ICoverageMask, rowOffset: number, x0: number, x1: number, weight: number) {
+  const start = Math.max(x0, mask.x)
+  const end = Math.min(x1, mask.x + mask.width)
+  if (end <= start) return
+
+  const first = Math.floor(start)
+  const last = Math.floor(end)
+  const data = mask.data
+  const base = rowOffset - mask.x
+
+  if (first === last) {
+    data[base + first] += (end - start) * weight
+    return
+  }
+  data[base + first] += (first + 1 - start) * weight
+  for (let x = first + 1; x < last; x++) {
+    data[base + x] += weight
+  }
+  if (last < mask.x + mask.width) {
+    data[base + last] += (end - last) * weight
+  }
+}
+
+/**
+ * 生成描边轮廓多边形
+ * 各部件统一为同一环绕方向，按 nonzero 规则填充即得到它们的并集
+ */
+export function strokePolylines(polylines: IPolyline[], options: IStrokeOptions): IPoint[][] {
+  const halfWidth = options.width / 2
+  if (!(halfWidth > 0)) return []
+
+  const dashed = options.dash.length > 0 ? dashPolylines(polylines, options) : polylines
+  const polygons: IPoint[][] = []
+
+  for (const polyline of dashed) {
+    const points = removeDuplicatePoints(polyline.points, polyline.closed)
+    const closed = polyline.closed && points.length > 2
+
+    if (points.length === 1) {
+      // 零长度子路径仅绘制端帽
+      if (options.cap === 'round') {
+        polygons.push(createCircle(points[0], halfWidth, options.tolerance))
+      } else if (options.cap === 'square') {
+        const { x, y } = points[0]
+        polygons.push([
+          { x: x - halfWidth, y: y - halfWidth },
+          { x: x + halfWidth, y: y - halfWidth },
+          { x: x + halfWidth, y: y + halfWidth },
+          { x: x - halfWidth, y: y + halfWidth },
+        ])
+      }
+      continue
+    }
+
+    const segmentCount = closed ? points.length : points.length - 1
+    for (let i = 0; i < segmentCount; i++) {
+      const a = points[i]
+      const b = points[(i + 1) % points.length]
+      const n = normal(a, b, halfWidth)
+      polygons.push([
+        { x: a.x + n.x, y: a.y + n.y },
+        { x: b.x + n.x, y: b.y + n.y },
+        { x: b.x - n.x, y: b.y - n.y },
+        { x: a.x - n.x, y: a.y - n.y },
+      ])
+    }
+
+    const firstJoin = closed ? 0 : 1
+    const lastJoin = closed ? points.length : points.length - 1
+    for (let i = firstJoin; i < lastJoin; i++) {
+      const prev = points[(i - 1 + points.length) % points.length]
+      const point = points[i]
+      const next = points[(i + 1) % points.length]
+      const join = createJoin(prev, point, next, halfWidth, options)
+      if (join) polygons.push(join)
+    }
+
+    if (!closed) {
+      polygons.push(...createCaps(points, halfWidth, options))
+    }
+  }
+
+  return polygons.map(orient)
+}
+
+/**
+ * 按虚线模式切分折线
+ */
+function dashPolylines(polylines: IPolyline[], options: IStrokeOptions): IPolyline[] {
+  const pattern = options.dash.length % 2 === 1 ? [...options.dash, ...options.dash] : options.dash
+  const total = pattern.reduce((sum, value) => sum + value, 0)
+  if (!(total > 0) || pattern.some((value) => value < 0 || !Number.isFinite(value))) {
+    return polylines
+  }
+
+  const result: IPolyline[] = []
+  for (const polyline of polylines) {
+    const points =
+      polyline.closed && polyline.points.length > 1
+        ? [...polyline.points, polyline.points[0]]
+        : polyline.points
+    if (points.length < 2) continue
+
+    let index = 0
+    let remaining = pattern[0]
+    let on = true
+    // 起始偏移
+    let offset = ((options.dashOffset % total) + total) % total
+    while (offset > 0) {
+      if (offset >= remaining) {
+        offset -= remaining
+        index = (index + 1) % pattern.length
+        remaining = pattern[index]
+        on = !on
+      } else {
+        remaining -= offset
+        offset = 0
+      }
+    }
+
+    let current: IPoint[] | null = on ? [points[0]] : null
+    for (let i = 1; i < points.length; i++) {
+      let start = points[i - 1]
+      const end = points[i]
+      let length = Math.hypot(end.x - start.x, end.y - start.y)
+
+      while (length > 0) {
+        if (remaining >= length) {
+          remaining -= length
+          current?.push(end)
+          length = 0
+        } else {
+          const t = remaining / length
+          const split = { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t }
+          if (current) {
+            current.push(split)
+            result.push({ points: current, closed: false })
+            current = null
+          } else {
+            current = [split]
+          }
+          length -= remaining
+          start = split
+          index = (index + 1) % pattern.length
+          remaining = pattern[index]
+          on = !on
+        }
+      }
+    }
+    if (current && current.length > 1) {
+      result.push({ points: current, closed: false })
+    }
+  }
+  return result
+}
+
+function createJoin(
+  prev: IPoint,
+  point: IPoint,
+  next: IPoint,
+  halfWidth: number,
+  options: IStrokeOptions
+): IPoint[] | null {
+  const d0 = direction(prev, point)
+  const d1 = direction(point, next)
+  const cross = d0.x * d1.y - d0.y * d1.x
+  const dot = d0.x * d1.x + d0.y * d1.y
+
+  if (options.join === 'round') {
+    return Math.abs(cross) < 1e-9 && dot > 0
+      ? null
+      : createCircle(point, halfWidth, options.tolerance)
+  }
+  if (Math.abs(cross) < 1e-9) return null
+
+  // 外侧位于转向的反方向
+  const side = cross > 0 ? -halfWidth : halfWidth
+  const o0 = { x: -d0.y * side, y: d0.x * side }
+  const o1 = { x: -d1.y * side, y: d1.x * side }
+  const bevel = [
+    point,
+    { x: point.x + o0.x, y: point.y + o0.y },
+    { x: point.x + o1.x, y: point.y + o1.y },
+  ]
+  if (options.join === 'bevel') return bevel
+
+  const miter = { x: (o0.x + o1.x) / (1 + dot), y: (o0.y + o1.y) / (1 + dot) }
+  if (Math.hypot(miter.x, miter.y) / halfWidth > options.miterLimit) return bevel
+  return [bevel[0], bevel[1], { x: point.x + miter.x, y: point.y + miter.y }, bevel[2]]
+}
+
+function createCaps(points: IPoint[], halfWidth: number, options: IStrokeOptions): IPoint[][] {
+  if (options.cap === 'butt') return []
+  if (options.cap === 'round') {
+    return [
+      createCircle(points[0], halfWidth, options.tolerance),
+      createCircle(points[points.length - 1], halfWidth, options.tolerance),
+    ]
+  }
+
+  const squareCap = (end: IPoint, inner: IPoint) => {
+    const d = direction(inner, end)
+    const n = { x: -d.y * halfWidth, y: d.x * halfWidth }
+    const ext = { x: end.x + d.x * halfWidth, y: end.y + d.y * halfWidth }
+    return [
+      { x: end.x + n.x, y: end.y + n.y },
+      { x: ext.x + n.x, y: ext.y + n.y },
+      { x: ext.x - n.x, y: ext.y - n.y },
+      { x: end.x - n.x, y: end.y - n.y },
+    ]
+  }
+  return [
+    squareCap(points[0], points[1]),
+    squareCap(points[points.length - 1], points[points.length - 2]),
+  ]
+}
+
+/**
+ * 生成圆形多边形，分段数保证弦高不超过容差
+ */
+export function createCircle(center: IPoint, radius: number, tolerance: number): IPoint[] {
+  const segments = arcSegmentCount(radius, Math.PI * 2, tolerance)
+  const points: IPoint[] = []
+  for (let i = 0; i < segments; i++) {
+    const angle = (i / segments) * Math.PI * 2
+    points.push({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius })
+  }
+  return points
+}
+
+/**
+ * 圆弧展平所需的分段数
+ */
+export function arcSegmentCount(radius: number, sweep: number, tolerance: number): number {
+  const ratio = radius > tolerance ? 1 - tolerance / radius : -1
+  const step = 2 * Math.acos(Math.max(-1, ratio))
+  const count = Math.ceil(Math.abs(sweep) / Math.max(step, 1e-3))
+  return Math.min(Math.max(count, 4), 1024)
+}
+
+function removeDuplicatePoints(points: IPoint[], closed: boolean): IPoint[] {
+  const result: IPoint[] = []
+  for (const point of points) {
+    const last = result[result.length - 1]
+    if (!last || last.x !== point.x || last.y !== point.y) {
+      result.push(point)
+    }
+  }
+  if (closed && result.length > 2) {
+    const first = result[0]
+    const last = result[result.length - 1]
+    if (first.x === last.x && first.y === last.y) result.pop()
+  }
+  return result
+}
+
+function direction(a: IPoint, b: IPoint): IPoint {
+  const length = Math.hypot(b.x - a.x, b.y - a.y) || 1
+  return { x: (b.x - a.x) / length, y: (b.y - a.y) / length }
+}
+
+function normal(a: IPoint, b: IPoint, length: number): IPoint {
+  const d = direction(a, b)
+  return { x: -d.y * length, y: d.x * length }
+}
+
+/**
+ * 统一为正面积方向
+ */
+function orient(polygon: IPoint[]): IPoint[] {
+  let area = 0
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i]
+    const b = polygon[(i + 1) % polygon.length]
+    area += a.x * b.y - b.x * a.y
+  }
+  return area < 0 ? polygon.slice().reverse() : polygon
+}
@@ -0,0 +1,14 @@
+/**
+ * 软件渲染模块导出
+ */
+
+export { encodePNG, zlibCompress } from './PNGEncoder'
+export type { ISoftwareCanvas, ISoftwareContext } from './SoftwareContext'
+export { SoftwareContextFactory } from './SoftwareContext'
+export type {
+  FillRule,
+  ICoverageMask,
+  IPolyline,
+  IStrokeOptions,
+} from './SoftwareRasterizer'
+export { rasterizePolygons, strokePolylines } from './SoftwareRasterizer'
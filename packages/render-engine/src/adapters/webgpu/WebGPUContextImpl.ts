@@ -3,6 +3,7 @@
  * 使用模块化的渲染器、缓冲区管理器和管线管理器
  */
 
+import type { ILayerCompositeOptions } from '../../graphics/BlendModes'
 import type {
   IColor,
   IGraphicsContext,
@@ -233,6 +234,16 @@ export class WebGPUContext implements IGraphicsContext {
     this.setOpacity(alpha)
   }
 
+  // 暂无离屏合成：仅应用整体不透明度，混合模式按 normal 处理
+  beginLayer(options: ILayerCompositeOptions = {}): void {
+    this.save()
+    this.setOpacity(options.opacity ?? 1)
+  }
+
+  endLayer(): void {
+    this.restore()
+  }
+
   /**
    * 静态创建方法
    */
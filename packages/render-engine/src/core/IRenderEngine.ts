@@ -1,6 +1,7 @@
 /**
  * 渲染引擎核心接口定义
  */
+import type { LayerBlendMode } from '../graphics/BlendModes'
 import type {
   IGraphicsContext,
   IGraphicsContextFactory,
@@ -65,6 +66,12 @@ export interface IRenderLayer {
   /** Z轴层级 */
   zIndex: number
 
+  /** 混合模式，非 normal 或透明度小于 1 时离屏合成 */
+  blendMode: LayerBlendMode
+
+  /** 父图层ID，设置后作为父图层的子层一同合成 */
+  parentId?: string
+
   /**
    * 添加可渲染对象
    * @param renderable 可渲染对象
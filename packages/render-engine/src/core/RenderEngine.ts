@@ -250,6 +250,8 @@ export class RenderEngine implements IRenderEngine {
     this.context.beginPath()
     this.context.rect(region.x, region.y, region.width, region.height)
     this.context.clip()
+    // 先清除区域，否则混合模式图层会在旧像素上重复叠加
+    this.context.clearRect(region.x, region.y, region.width, region.height)
     this.renderLayers()
     this.context.restore()
   }
@@ -290,22 +292,51 @@ export class RenderEngine implements IRenderEngine {
     if (!this.context) return
 
     const sortedLayers = this.getSortedLayers()
+    const children = new Map<string, IRenderLayer[]>()
+    const roots: IRenderLayer[] = []
+    for (const layer of sortedLayers) {
+      // 父图层不存在时按顶层处理
+      if (layer.parentId && this.layers.has(layer.parentId)) {
+        const siblings = children.get(layer.parentId) ?? []
+        siblings.push(layer)
+        children.set(layer.parentId, siblings)
+      } else {
+        roots.push(layer)
+      }
+    }
+
     let objectsRendered = 0
+    for (const layer of roots) {
+      objectsRendered += this.renderLayer(layer, children)
+    }
 
-    for (const layer of sortedLayers) {
-      this.context.save()
-      this.context.setOpacity(layer.opacity)
+    this.stats.objectsRendered = objectsRendered
+  }
 
-      const renderables = layer.getRenderables()
+  /**
+   * 渲染图层及其子图层：需要时先在离屏表面绘制，再按混合模式与透明度合成到下层
+   */
+  private renderLayer(layer: IRenderLayer, children: Map<string, IRenderLayer[]>): number {
+    if (!this.context) return 0
+
+    const isolated = layer.opacity < 1 || layer.blendMode !== 'normal'
+    this.context.save()
+    if (isolated) {
+      this.context.beginLayer({ opacity: layer.opacity, blendMode: layer.blendMode })
+    }
 
-      // 直接渲染，跳过缓存逻辑
-      this.renderLayerRenderables(renderables)
-      objectsRendered += renderables.length
+    const renderables = layer.getRenderables()
+    // 直接渲染，跳过缓存逻辑
+    this.renderLayerRenderables(renderables)
+    let objectsRendered = renderables.length
 
-      this.context.restore()
+    for (const child of children.get(layer.id) ?? []) {
+      objectsRendered += this.renderLayer(child, children)
     }
 
-    this.stats.objectsRendered = objectsRendered
+    if (isolated) this.context.endLayer()
+    this.context.restore()
+    return objectsRendered
   }
 
   private renderLayerRenderables(renderables: IRenderable[]): void {
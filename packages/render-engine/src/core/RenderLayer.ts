@@ -2,6 +2,7 @@
  * 渲染层实现
  */
 
+import type { LayerBlendMode } from '../graphics/BlendModes'
 import type { IRenderable, IRenderLayer } from './IRenderEngine'
 
 /**
@@ -11,6 +12,10 @@ import type { IRenderable, IRenderLayer } from './IRenderEngine'
 export class RenderLayer implements IRenderLayer {
   private renderables: Map<string, IRenderable> = new Map()
 
+  blendMode: LayerBlendMode = 'normal'
+
+  parentId?: string
+
   constructor(
     public readonly id: string,
     public visible: boolean = true,
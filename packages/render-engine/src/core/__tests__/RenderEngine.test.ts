@@ -29,6 +29,7 @@ describe('RenderEngine Performance Features', () => {
 
     mockContext = {
       clear: vi.fn(),
+      clearRect: vi.fn(),
       save: vi.fn(),
       restore: vi.fn(),
       scale: vi.fn(),
@@ -33,7 +33,7 @@ export class DropShadowFilter extends BaseFilter<DropShadowParameters> {
 
     // 解析颜色
     const shadowColor = parseColor(parameters.color)
-    const shadowOpacity = (parameters.opacity ?? 1) * shadowColor.a
+    const shadowOpacity = (parameters.opacity ?? 1) * (shadowColor.a / 255)
 
     // 计算扩展的画布尺寸以容纳阴影
     const blurRadius = Math.max(0, parameters.blur)
@@ -133,9 +133,9 @@ export class DropShadowFilter extends BaseFilter<DropShadowParameters> {
             // 使用原图的alpha通道来创建阴影
             const shadowAlpha = (sourceAlpha / 255) * opacity
 
-            targetData[targetIndex] = Math.round(color.r * 255)
-            targetData[targetIndex + 1] = Math.round(color.g * 255)
-            targetData[targetIndex + 2] = Math.round(color.b * 255)
+            targetData[targetIndex] = color.r
+            targetData[targetIndex + 1] = color.g
+            targetData[targetIndex + 2] = color.b
             targetData[targetIndex + 3] = Math.round(shadowAlpha * 255)
           }
         }
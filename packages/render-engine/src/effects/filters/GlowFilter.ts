@@ -112,11 +112,11 @@ export class GlowFilter extends BaseFilter<GlowParameters> {
           const targetIndex = (targetY * targetWidth + targetX) * 4
 
           // 使用原图的alpha通道创建发光
-          const glowAlpha = (sourceAlpha / 255) * strength
+          const glowAlpha = (sourceAlpha / 255) * (color.a / 255) * strength
 
-          targetData[targetIndex] = Math.round(color.r * 255)
-          targetData[targetIndex + 1] = Math.round(color.g * 255)
-          targetData[targetIndex + 2] = Math.round(color.b * 255)
+          targetData[targetIndex] = color.r
+          targetData[targetIndex + 1] = color.g
+          targetData[targetIndex + 2] = color.b
           targetData[targetIndex + 3] = Math.min(255, Math.round(glowAlpha * 255))
         }
       }
@@ -30,7 +30,7 @@ export class InnerShadowFilter extends BaseFilter<InnerShadowParameters> {
 
     // 解析颜色
     const shadowColor = parseColor(parameters.color)
-    const shadowOpacity = (parameters.opacity ?? 1) * shadowColor.a
+    const shadowOpacity = (parameters.opacity ?? 1) * (shadowColor.a / 255)
 
     const result = this.cloneImageData(sourceImageData)
 
@@ -119,18 +119,18 @@ export class InnerShadowFilter extends BaseFilter<InnerShadowParameters> {
         const targetAlpha = targetData[index + 3] / 255
 
         if (maskAlpha > 0 && targetAlpha > 0) {
-          // 使用multiply混合模式创建阴影效果
+          // 按蒙版强度混合阴影颜色
           const shadowStrength = maskAlpha
 
           // 混合阴影颜色
           targetData[index] = Math.round(
-            targetData[index] * (1 - shadowStrength) + color.r * 255 * shadowStrength * 0.5
+            targetData[index] * (1 - shadowStrength) + color.r * shadowStrength
           )
           targetData[index + 1] = Math.round(
-            targetData[index + 1] * (1 - shadowStrength) + color.g * 255 * shadowStrength * 0.5
+            targetData[index + 1] * (1 - shadowStrength) + color.g * shadowStrength
           )
           targetData[index + 2] = Math.round(
-            targetData[index + 2] * (1 - shadowStrength) + color.b * 255 * shadowStrength * 0.5
+            targetData[index + 2] * (1 - shadowStrength) + color.b * shadowStrength
           )
         }
       }
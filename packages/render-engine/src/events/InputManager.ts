@@ -56,6 +56,40 @@ export interface ITouchPoint {
   radiusY?: number
 }
 
+/**
+ * 指针采样点（合并事件中的单个采样）
+ */
+export interface IPointerSample {
+  x: number
+  y: number
+  /** 压力 0-1；不支持压感的设备按下时为 0.5 */
+  pressure: number
+  /** 笔相对屏幕法线在 X/Y 方向的倾角（度，-90~90） */
+  tiltX: number
+  tiltY: number
+  timestamp: number
+}
+
+export interface IPointerInputEvent extends IPointerSample {
+  type: 'pointerdown' | 'pointermove' | 'pointerup' | 'pointercancel'
+  pointerId: number
+  pointerType: 'mouse' | 'pen' | 'touch' | string
+  isPrimary: boolean
+  /** 笔杆绕自身轴的旋转角（度，0~359） */
+  twist: number
+  /** 接触区域尺寸 */
+  width: number
+  height: number
+  button: number
+  buttons: number
+  ctrlKey: boolean
+  shiftKey: boolean
+  altKey: boolean
+  metaKey: boolean
+  /** 自上一事件以来的全部采样（含当前点），来自 getCoalescedEvents */
+  samples: IPointerSample[]
+}
+
 export interface IGestureEvent {
   type: GestureType
   state: GestureState
@@ -80,6 +114,10 @@ export interface InputManagerEvents {
   touchmove: ITouchEvent
   touchend: ITouchEvent
   touchcancel: ITouchEvent
+  pointerdown: IPointerInputEvent
+  pointermove: IPointerInputEvent
+  pointerup: IPointerInputEvent
+  pointercancel: IPointerInputEvent
   gesture: IGestureEvent
   tap: IGestureEvent
   doubletap: IGestureEvent
@@ -93,6 +131,8 @@ export interface InputManagerConfig {
   enableMouse?: boolean
   enableKeyboard?: boolean
   enableTouch?: boolean
+  /** 监听 Pointer Events（笔压、倾角、合并采样），默认开启 */
+  enablePointer?: boolean
   enableGestures?: boolean
   preventDefaultEvents?: boolean
   capturePointer?: boolean
@@ -112,6 +152,7 @@ export class InputManager extends EventEmitter<InputManagerEvents> {
       enableMouse: config.enableMouse ?? true,
       enableKeyboard: config.enableKeyboard ?? true,
       enableTouch: config.enableTouch ?? true,
+      enablePointer: config.enablePointer ?? true,
       enableGestures: config.enableGestures ?? true,
       preventDefaultEvents: config.preventDefaultEvents ?? false,
       capturePointer: config.capturePointer ?? false,
@@ -191,6 +232,13 @@ export class InputManager extends EventEmitter<InputManagerEvents> {
       this._bindHandler('touchend', this._handleTouchEnd.bind(this))
       this._bindHandler('touchcancel', this._handleTouchCancel.bind(this))
     }
+
+    if (this._config.enablePointer && typeof PointerEvent !== 'undefined') {
+      this._bindHandler('pointerdown', this._handlePointerDown.bind(this))
+      this._bindHandler('pointermove', this._handlePointerMove.bind(this))
+      this._bindHandler('pointerup', this._handlePointerUp.bind(this))
+      this._bindHandler('pointercancel', this._handlePointerCancel.bind(this))
+    }
   }
 
   private _bindHandler(event: string, handler: EventListener, target?: EventTarget): void {
@@ -503,6 +551,88 @@ export class InputManager extends EventEmitter<InputManagerEvents> {
     this.emit('touchcancel', event)
   }
 
+  private _createPointerSample(e: PointerEvent, rect?: DOMRect): IPointerSample {
+    return {
+      x: rect ? e.clientX - rect.left : e.clientX,
+      y: rect ? e.clientY - rect.top : e.clientY,
+      pressure: e.pressure,
+      tiltX: e.tiltX ?? 0,
+      tiltY: e.tiltY ?? 0,
+      timestamp: e.timeStamp,
+    }
+  }
+
+  private _createPointerEvent(
+    e: PointerEvent,
+    type: IPointerInputEvent['type']
+  ): IPointerInputEvent {
+    const rect = this._element?.getBoundingClientRect()
+    const sample = this._createPointerSample(e, rect)
+    // 高频设备在一帧内产生的中间采样只能通过合并事件取得
+    const coalesced =
+      type === 'pointermove' && typeof e.getCoalescedEvents === 'function'
+        ? e.getCoalescedEvents()
+        : []
+
+    return {
+      ...sample,
+      type,
+      pointerId: e.pointerId,
+      pointerType: e.pointerType,
+      isPrimary: e.isPrimary,
+      twist: e.twist ?? 0,
+      width: e.width ?? 1,
+      height: e.height ?? 1,
+      button: e.button,
+      buttons: e.buttons,
+      ctrlKey: e.ctrlKey,
+      shiftKey: e.shiftKey,
+      altKey: e.altKey,
+      metaKey: e.metaKey,
+      samples:
+        coalesced.length > 0
+          ? coalesced.map((event) => this._createPointerSample(event, rect))
+          : [sample],
+    }
+  }
+
+  private _handlePointerDown(e: Event): void {
+    if (!this._isEnabled) return
+    const pointerEvent = e as PointerEvent
+    if (this._config.preventDefaultEvents) e.preventDefault()
+
+    if (this._config.capturePointer) {
+      this._element?.setPointerCapture?.(pointerEvent.pointerId)
+    }
+
+    this.emit('pointerdown', this._createPointerEvent(pointerEvent, 'pointerdown'))
+  }
+
+  private _handlePointerMove(e: Event): void {
+    if (!this._isEnabled) return
+    const pointerEvent = e as PointerEvent
+    if (this._config.preventDefaultEvents) e.preventDefault()
+
+    this.emit('pointermove', this._createPointerEvent(pointerEvent, 'pointermove'))
+  }
+
+  private _handlePointerUp(e: Event): void {
+    if (!this._isEnabled) return
+    const pointerEvent = e as PointerEvent
+    if (this._config.preventDefaultEvents) e.preventDefault()
+
+    if (this._element?.hasPointerCapture?.(pointerEvent.pointerId)) {
+      this._element.releasePointerCapture(pointerEvent.pointerId)
+    }
+
+    this.emit('pointerup', this._createPointerEvent(pointerEvent, 'pointerup'))
+  }
+
+  private _handlePointerCancel(e: Event): void {
+    if (!this._isEnabled) return
+    this.emit('pointercancel', this._createPointerEvent(e as PointerEvent, 'pointercancel'))
+  }
+
   onMouseDown(handler: (event: IMouseEvent) => void): () => void {
     this.on('mousedown', handler)
     return () => this.off('mousedown', handler)
@@ -553,6 +683,21 @@ export class InputManager extends EventEmitter<InputManagerEvents> {
     return () => this.off('touchend', handler)
   }
 
+  onPointerDown(handler: (event: IPointerInputEvent) => void): () => void {
+    this.on('pointerdown', handler)
+    return () => this.off('pointerdown', handler)
+  }
+
+  onPointerMove(handler: (event: IPointerInputEvent) => void): () => void {
+    this.on('pointermove', handler)
+    return () => this.off('pointermove', handler)
+  }
+
+  onPointerUp(handler: (event: IPointerInputEvent) => void): () => void {
+    this.on('pointerup', handler)
+    return () => this.off('pointerup', handler)
+  }
+
   onGesture(handler: (event: IGestureEvent) => void): () => void {
     this.on('gesture', handler)
     return () => this.off('gesture', handler)
@@ -54,6 +54,8 @@ export type {
   IMouseEvent as InputMouseEvent,
   InputManagerConfig,
   InputManagerEvents,
+  IPointerInputEvent,
+  IPointerSample,
   ITouchEvent as InputTouchEvent,
   ITouchPoint,
 } from './InputManager'
@@ -0,0 +1,208 @@
+/**
+ * 图层混合
+ * 按 W3C Compositing and Blending 规范实现全部可分离与不可分离混合模式，
+ * 供不具备原生混合能力的后端在 CPU 上合成离屏图层
+ */
+
+/**
+ * 图层混合模式（与 CSS mix-blend-mode / Canvas globalCompositeOperation 同名）
+ */
+export type LayerBlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity'
+
+export const LAYER_BLEND_MODES: readonly LayerBlendMode[] = [
+  'normal',
+  'multiply',
+  'screen',
+  'overlay',
+  'darken',
+  'lighten',
+  'color-dodge',
+  'color-burn',
+  'hard-light',
+  'soft-light',
+  'difference',
+  'exclusion',
+  'hue',
+  'saturation',
+  'color',
+  'luminosity',
+]
+
+/**
+ * 离屏图层合成参数
+ */
+export interface ILayerCompositeOptions {
+  /** 图层整体不透明度 0-1，默认 1 */
+  opacity?: number
+  /** 混合模式，默认 normal */
+  blendMode?: LayerBlendMode
+}
+
+/**
+ * 混合模式对应的 Canvas 合成操作
+ */
+export function toCompositeOperation(mode: LayerBlendMode = 'normal'): GlobalCompositeOperation {
+  return mode === 'normal' ? 'source-over' : mode
+}
+
+/**
+ * 是否需要离屏合成（不透明且正常混合时可直接绘制）
+ */
+export function needsIsolation(options: ILayerCompositeOptions): boolean {
+  return (options.opacity ?? 1) < 1 || (options.blendMode ?? 'normal') !== 'normal'
+}
+
+type SeparableBlend = (backdrop: number, source: number) => number
+
+const screen: SeparableBlend = (b, s) => b + s - b * s
+
+const hardLight: SeparableBlend = (b, s) => (s <= 0.5 ? b * 2 * s : screen(b, 2 * s - 1))
+
+const SEPARABLE: Partial<Record<LayerBlendMode, SeparableBlend>> = {
+  normal: (_b, s) => s,
+  multiply: (b, s) => b * s,
+  screen,
+  overlay: (b, s) => hardLight(s, b),
+  darken: (b, s) => Math.min(b, s),
+  lighten: (b, s) => Math.max(b, s),
+  'color-dodge': (b, s) => (b === 0 ? 0 : s === 1 ? 1 : Math.min(1, b / (1 - s))),
+  'color-burn': (b, s) => (b === 1 ? 1 : s === 0 ? 0 : 1 - Math.min(1, (1 - b) / s)),
+  'hard-light': hardLight,
+  'soft-light': (b, s) => {
+    if (s <= 0.5) return b - (1 - 2 * s) * b * (1 - b)
+    const d = b <= 0.25 ? ((16 * b - 12) * b + 4) * b : Math.sqrt(b)
+    return b + (2 * s - 1) * (d - b)
+  },
+  difference: (b, s) => Math.abs(b - s),
+  exclusion: (b, s) => b + s - 2 * b * s,
+}
+
+type Color3 = [number, number, number]
+
+const lum = (c: Color3) => 0.3 * c[0] + 0.59 * c[1] + 0.11 * c[2]
+
+const sat = (c: Color3) => Math.max(c[0], c[1], c[2]) - Math.min(c[0], c[1], c[2])
+
+function clipColor(c: Color3): void {
+  const l = lum(c)
+  const n = Math.min(c[0], c[1], c[2])
+  const x = Math.max(c[0], c[1], c[2])
+  for (let i = 0; i < 3; i++) {
+    if (n < 0) c[i] = l + ((c[i] - l) * l) / (l - n)
+    if (x > 1) c[i] = l + ((c[i] - l) * (1 - l)) / (x - l)
+  }
+}
+
+function setLum(c: Color3, l: number): void {
+  const d = l - lum(c)
+  c[0] += d
+  c[1] += d
+  c[2] += d
+  clipColor(c)
+}
+
+function setSat(c: Color3, s: number): void {
+  const order = [0, 1, 2].sort((i, j) => c[i] - c[j])
+  const [min, mid, max] = order
+  if (c[max] > c[min]) {
+    c[mid] = ((c[mid] - c[min]) * s) / (c[max] - c[min])
+    c[max] = s
+  } else {
+    c[mid] = 0
+    c[max] = 0
+  }
+  c[min] = 0
+}
+
+/**
+ * 不可分离混合，结果写入 out
+ */
+function blendNonSeparable(mode: LayerBlendMode, b: Color3, s: Color3, out: Color3): void {
+  switch (mode) {
+    case 'hue':
+      out[0] = s[0]
+      out[1] = s[1]
+      out[2] = s[2]
+      setSat(out, sat(b))
+      setLum(out, lum(b))
+      break
+    case 'saturation':
+      out[0] = b[0]
+      out[1] = b[1]
+      out[2] = b[2]
+      setSat(out, sat(s))
+      setLum(out, lum(b))
+      break
+    case 'color':
+      out[0] = s[0]
+      out[1] = s[1]
+      out[2] = s[2]
+      setLum(out, lum(b))
+      break
+    default:
+      out[0] = b[0]
+      out[1] = b[1]
+      out[2] = b[2]
+      setLum(out, lum(s))
+  }
+}
+
+/**
+ * 将源图层（RGBA，非预乘）按混合模式与不透明度合成到目标缓冲（原地修改）
+ * @param coverage 可选的逐像素覆盖率（裁剪），0 表示该像素不受影响
+ */
+export function compositeLayerPixels(
+  target: Uint8ClampedArray,
+  source: Uint8ClampedArray,
+  options: ILayerCompositeOptions = {},
+  coverage?: Float32Array | null
+): void {
+  const opacity = Math.max(0, Math.min(1, options.opacity ?? 1))
+  const mode = options.blendMode ?? 'normal'
+  const separable = SEPARABLE[mode]
+  const backdrop: Color3 = [0, 0, 0]
+  const color: Color3 = [0, 0, 0]
+  const mixed: Color3 = [0, 0, 0]
+  const length = Math.min(target.length, source.length)
+
+  for (let i = 0; i < length; i += 4) {
+    const as = (source[i + 3] / 255) * opacity * (coverage ? coverage[i >> 2] : 1)
+    if (as <= 0) continue
+    const ab = target[i + 3] / 255
+    for (let c = 0; c < 3; c++) {
+      backdrop[c] = target[i + c] / 255
+      color[c] = source[i + c] / 255
+    }
+
+    if (separable) {
+      for (let c = 0; c < 3; c++) mixed[c] = separable(backdrop[c], color[c])
+    } else {
+      blendNonSeparable(mode, backdrop, color, mixed)
+    }
+
+    // 源颜色按背景透明度与混合结果插值，再做 source-over
+    const ao = as + ab * (1 - as)
+    for (let c = 0; c < 3; c++) {
+      const blended = (1 - ab) * color[c] + ab * mixed[c]
+      const premultiplied = as * blended + ab * backdrop[c] * (1 - as)
+      target[i + c] = Math.round((premultiplied / ao) * 255)
+    }
+    target[i + 3] = Math.round(ao * 255)
+  }
+}
@@ -3,6 +3,8 @@
  * 提供统一的图形操作抽象，不依赖具体的渲染后端
  */
 
+import type { ILayerCompositeOptions } from './BlendModes'
+
 export interface IPoint {
   x: number
   y: number
@@ -31,12 +33,78 @@ export interface ITransform {
   f: number // translateY
 }
 
+/**
+ * 渐变色标
+ */
+export interface IGradientStop {
+  /** 0-1 */
+  offset: number
+  color: IColor | string
+}
+
+/**
+ * 线性渐变，坐标为绘制时的用户空间
+ */
+export interface ILinearGradientPaint {
+  type: 'linear-gradient'
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+  stops: IGradientStop[]
+}
+
+/**
+ * 径向渐变（双圆锥形），与 Canvas createRadialGradient 语义一致
+ */
+export interface IRadialGradientPaint {
+  type: 'radial-gradient'
+  x0: number
+  y0: number
+  r0: number
+  x1: number
+  y1: number
+  r1: number
+  stops: IGradientStop[]
+}
+
+/**
+ * 锥形渐变，从 startAngle 起顺时针一周
+ */
+export interface IConicGradientPaint {
+  type: 'conic-gradient'
+  startAngle: number
+  x: number
+  y: number
+  stops: IGradientStop[]
+}
+
+export type PatternRepetition = 'repeat' | 'repeat-x' | 'repeat-y' | 'no-repeat'
+
+/**
+ * 图像图案填充
+ */
+export interface IPatternPaint {
+  type: 'pattern'
+  image: IImageData
+  repetition?: PatternRepetition
+  /** 图案空间到用户空间的变换 */
+  transform?: ITransform
+}
+
+export type IGradientPaint = ILinearGradientPaint | IRadialGradientPaint | IConicGradientPaint
+
+/**
+ * 绘制样式：纯色、渐变或图案
+ */
+export type IPaint = IColor | string | IGradientPaint | IPatternPaint
+
 /**
  * 图形样式接口
  */
 export interface IGraphicsStyle {
-  fillColor?: IColor | string
-  strokeColor?: IColor | string
+  fillColor?: IPaint
+  strokeColor?: IPaint
   lineWidth?: number
   lineCap?: 'butt' | 'round' | 'square'
   lineJoin?: 'miter' | 'round' | 'bevel'
@@ -125,8 +193,8 @@ export interface IGraphicsContext {
   setStyle(style: Partial<IGraphicsStyle>): void
   setFillColor(color: IColor | string): void
   setStrokeColor(color: IColor | string): void
-  setFillStyle(color: IColor | string): void
-  setStrokeStyle(color: IColor | string): void
+  setFillStyle(paint: IPaint): void
+  setStrokeStyle(paint: IPaint): void
   setLineWidth(width: number): void
   setOpacity(opacity: number): void
   setGlobalAlpha(alpha: number): void
@@ -185,6 +253,12 @@ export interface IGraphicsContext {
   clip(): void
   clipRect(x: number, y: number, width: number, height: number): void
 
+  // 离屏图层（需与 save/restore 成对嵌套）
+  /** 开始离屏图层，之后的绘制进入透明的独立表面，变换与裁剪保持不变 */
+  beginLayer(options?: ILayerCompositeOptions): void
+  /** 结束离屏图层，按不透明度与混合模式合成回上一层表面 */
+  endLayer(): void
+
   // 坐标转换
   screenToWorld(point: IPoint): IPoint
   worldToScreen(point: IPoint): IPoint
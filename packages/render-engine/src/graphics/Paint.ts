@@ -0,0 +1,236 @@
+/**
+ * 绘制样式工具
+ * 判断纯色/渐变/图案，并在用户空间逐点求值，供不具备原生渐变能力的后端使用
+ */
+
+import { parseColor } from '../utils/ColorUtils'
+import type {
+  IColor,
+  IGradientPaint,
+  IGradientStop,
+  IPaint,
+  IPatternPaint,
+  ITransform,
+} from './IGraphicsContext'
+
+/** 渐变查找表精度 */
+const RAMP_SIZE = 256
+
+/**
+ * 是否为纯色
+ */
+export function isSolidPaint(paint: IPaint): paint is IColor | string {
+  return typeof paint === 'string' || !('type' in paint)
+}
+
+export function isGradientPaint(paint: IPaint): paint is IGradientPaint {
+  return (
+    typeof paint !== 'string' &&
+    'type' in paint &&
+    (paint.type === 'linear-gradient' ||
+      paint.type === 'radial-gradient' ||
+      paint.type === 'conic-gradient')
+  )
+}
+
+export function isPatternPaint(paint: IPaint): paint is IPatternPaint {
+  return typeof paint !== 'string' && 'type' in paint && paint.type === 'pattern'
+}
+
+/**
+ * 颜色转为 0-255 的 RGBA 元组（透明度 0-1）
+ */
+export function paintColorToRGBA(color: IColor | string): [number, number, number, number] {
+  if (typeof color !== 'string') {
+    return [color.r * 255, color.g * 255, color.b * 255, color.a ?? 1]
+  }
+  const { r, g, b, a } = parseColor(color)
+  return [r, g, b, a / 255]
+}
+
+/**
+ * 绘制样式的代表色：纯色本身，渐变取首个色标，图案为 null
+ */
+export function getRepresentativeColor(paint: IPaint): IColor | string | null {
+  if (isSolidPaint(paint)) return paint
+  if (isGradientPaint(paint)) {
+    const first = [...paint.stops].sort((a, b) => a.offset - b.offset)[0]
+    return first ? first.color : null
+  }
+  return null
+}
+
+const rampCache = new WeakMap<IGradientStop[], Float32Array>()
+
+/**
+ * 构建预乘颜色查找表，色标按偏移排序，超出范围取端点颜色
+ */
+function getRamp(stops: IGradientStop[]): Float32Array {
+  const cached = rampCache.get(stops)
+  if (cached) return cached
+
+  const sorted = stops
+    .map((stop) => ({
+      offset: Math.min(1, Math.max(0, stop.offset)),
+      color: paintColorToRGBA(stop.color),
+    }))
+    .sort((a, b) => a.offset - b.offset)
+  const ramp = new Float32Array(RAMP_SIZE * 4)
+
+  for (let i = 0; i < RAMP_SIZE; i++) {
+    const t = i / (RAMP_SIZE - 1)
+    let next = sorted.findIndex((stop) => stop.offset >= t)
+    if (next === -1) next = sorted.length - 1
+    const prev = Math.max(0, next - 1)
+    const a = sorted[prev]
+    const b = sorted[next]
+    const span = b.offset - a.offset
+    const f = span > 0 ? Math.min(1, Math.max(0, (t - a.offset) / span)) : t >= b.offset ? 1 : 0
+    const alphaA = a.color[3]
+    const alphaB = b.color[3]
+    for (let c = 0; c < 3; c++) {
+      ramp[i * 4 + c] = a.color[c] * alphaA * (1 - f) + b.color[c] * alphaB * f
+    }
+    ramp[i * 4 + 3] = alphaA * (1 - f) + alphaB * f
+  }
+
+  rampCache.set(stops, ramp)
+  return ramp
+}
+
+const invertTransform = (t: ITransform): ITransform | null => {
+  const det = t.a * t.d - t.b * t.c
+  if (!det || !Number.isFinite(det)) return null
+  return {
+    a: t.d / det,
+    b: -t.b / det,
+    c: -t.c / det,
+    d: t.a / det,
+    e: (t.c * t.f - t.d * t.e) / det,
+    f: (t.b * t.e - t.a * t.f) / det,
+  }
+}
+
+/**
+ * 渐变参数 t，无定义时返回 null（该点透明）
+ */
+function gradientParameter(paint: IGradientPaint, x: number, y: number): number | null {
+  switch (paint.type) {
+    case 'linear-gradient': {
+      const dx = paint.x1 - paint.x0
+      const dy = paint.y1 - paint.y0
+      const lengthSq = dx * dx + dy * dy
+      if (lengthSq === 0) return null
+      return ((x - paint.x0) * dx + (y - paint.y0) * dy) / lengthSq
+    }
+    case 'radial-gradient': {
+      // 求最大的 t，使点落在圆 c(t) 上且半径 r(t) >= 0
+      const cdx = paint.x1 - paint.x0
+      const cdy = paint.y1 - paint.y0
+      const dr = paint.r1 - paint.r0
+      const px = x - paint.x0
+      const py = y - paint.y0
+      const a = cdx * cdx + cdy * cdy - dr * dr
+      const b = px * cdx + py * cdy + paint.r0 * dr
+      const c = px * px + py * py - paint.r0 * paint.r0
+      const radiusAt = (t: number) => paint.r0 + t * dr
+
+      if (Math.abs(a) < 1e-9) {
+        if (b === 0) return null
+        const t = c / (2 * b)
+        return radiusAt(t) >= 0 ? t : null
+      }
+      const discriminant = b * b - a * c
+      if (discriminant < 0) return null
+      const root = Math.sqrt(discriminant)
+      const t1 = (b + root) / a
+      const t2 = (b - root) / a
+      const high = Math.max(t1, t2)
+      const low = Math.min(t1, t2)
+      if (radiusAt(high) >= 0) return high
+      return radiusAt(low) >= 0 ? low : null
+    }
+    case 'conic-gradient': {
+      const angle = Math.atan2(y - paint.y, x - paint.x) - paint.startAngle
+      const turn = angle / (Math.PI * 2)
+      return turn - Math.floor(turn)
+    }
+  }
+}
+
+/**
+ * 在用户空间点 (x, y) 处对绘制样式求值
+ * 输出 out = [r, g, b, a]，颜色 0-255（非预乘），透明度 0-1
+ */
+export function samplePaint(
+  paint: IPaint,
+  x: number,
+  y: number,
+  out: Float32Array | number[]
+): void {
+  if (isSolidPaint(paint)) {
+    const color = paintColorToRGBA(paint)
+    out[0] = color[0]
+    out[1] = color[1]
+    out[2] = color[2]
+    out[3] = color[3]
+    return
+  }
+
+  if (isPatternPaint(paint)) {
+    samplePattern(paint, x, y, out)
+    return
+  }
+
+  const t = paint.stops.length > 0 ? gradientParameter(paint, x, y) : null
+  if (t === null) {
+    out[0] = out[1] = out[2] = out[3] = 0
+    return
+  }
+  const ramp = getRamp(paint.stops)
+  const index = Math.round(Math.min(1, Math.max(0, t)) * (RAMP_SIZE - 1)) * 4
+  const alpha = ramp[index + 3]
+  out[0] = alpha > 0 ? ramp[index] / alpha : 0
+  out[1] = alpha > 0 ? ramp[index + 1] / alpha : 0
+  out[2] = alpha > 0 ? ramp[index + 2] / alpha : 0
+  out[3] = alpha
+}
+
+const inverseCache = new WeakMap<ITransform, ITransform | null>()
+
+function samplePattern(paint: IPatternPaint, x: number, y: number, out: Float32Array | number[]) {
+  const { image } = paint
+  let u = x
+  let v = y
+  if (paint.transform) {
+    let inverse = inverseCache.get(paint.transform)
+    if (inverse === undefined) {
+      inverse = invertTransform(paint.transform)
+      inverseCache.set(paint.transform, inverse)
+    }
+    if (!inverse) {
+      out[0] = out[1] = out[2] = out[3] = 0
+      return
+    }
+    u = inverse.a * x + inverse.c * y + inverse.e
+    v = inverse.b * x + inverse.d * y + inverse.f
+  }
+
+  const repetition = paint.repetition ?? 'repeat'
+  let px = Math.floor(u)
+  let py = Math.floor(v)
+  const repeatX = repetition === 'repeat' || repetition === 'repeat-x'
+  const repeatY = repetition === 'repeat' || repetition === 'repeat-y'
+  if (repeatX) px = ((px % image.width) + image.width) % image.width
+  if (repeatY) py = ((py % image.height) + image.height) % image.height
+  if (px < 0 || py < 0 || px >= image.width || py >= image.height) {
+    out[0] = out[1] = out[2] = out[3] = 0
+    return
+  }
+
+  const index = (py * image.width + px) * 4
+  out[0] = image.data[index]
+  out[1] = image.data[index + 1]
+  out[2] = image.data[index + 2]
+  out[3] = image.data[index + 3] / 255
+}
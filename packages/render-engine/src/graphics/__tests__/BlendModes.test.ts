@@ -0,0 +1,104 @@
+/**
+ * 图层混合测试：混合公式、离屏图层与渲染引擎图层组合成
+ */
+
+import { describe, expect, it } from 'vitest'
+import { type ISoftwareContext, SoftwareContextFactory } from '../../adapters/software'
+import { RenderEngine } from '../../core/RenderEngine'
+import { compositeLayerPixels, LAYER_BLEND_MODES, type LayerBlendMode } from '../BlendModes'
+import type { IGraphicsContext } from '../IGraphicsContext'
+
+const blend = (backdrop: number[], source: number[], mode: LayerBlendMode, opacity = 1) => {
+  const target = new Uint8ClampedArray(backdrop)
+  compositeLayerPixels(target, new Uint8ClampedArray(source), { blendMode: mode, opacity })
+  return Array.from(target)
+}
+
+const square = (id: string, color: string, zIndex = 0) => ({
+  id,
+  bounds: { x: 0, y: 0, width: 10, height: 10 },
+  visible: true,
+  zIndex,
+  render: (context: IGraphicsContext) => {
+    context.setFillStyle(color)
+    context.fillRect(0, 0, 10, 10)
+  },
+  hitTest: () => false,
+  getBounds: () => ({ x: 0, y: 0, width: 10, height: 10 }),
+})
+
+describe('BlendModes', () => {
+  it('should apply separable blend formulas', () => {
+    const backdrop = [255, 128, 0, 255]
+    const source = [128, 128, 128, 255]
+
+    expect(blend(backdrop, source, 'normal')).toEqual([128, 128, 128, 255])
+    expect(blend(backdrop, source, 'multiply')).toEqual([128, 64, 0, 255])
+    expect(blend(backdrop, source, 'screen')).toEqual([255, 192, 128, 255])
+    expect(blend(backdrop, source, 'darken')).toEqual([128, 128, 0, 255])
+    expect(blend(backdrop, source, 'lighten')).toEqual([255, 128, 128, 255])
+    expect(blend(backdrop, source, 'difference')).toEqual([127, 0, 128, 255])
+  })
+
+  it('should apply non-separable blend formulas', () => {
+    const red = [255, 0, 0, 255]
+    const gray = [128, 128, 128, 255]
+
+    // 灰色没有色相与饱和度：取背景亮度的灰
+    expect(blend(red, gray, 'color')).toEqual([77, 77, 77, 255])
+    expect(blend(red, gray, 'saturation')).toEqual([77, 77, 77, 255])
+    // 保留红色色相，亮度换为源的亮度
+    const luminosity = blend(red, gray, 'luminosity')
+    expect(luminosity[0]).toBeGreaterThan(luminosity[1])
+    expect(0.3 * luminosity[0] + 0.59 * luminosity[1] + 0.11 * luminosity[2]).toBeCloseTo(128, -1)
+  })
+
+  it('should show the source where the backdrop is transparent and honor opacity', () => {
+    for (const mode of LAYER_BLEND_MODES) {
+      expect(blend([0, 0, 0, 0], [10, 200, 30, 255], mode)).toEqual([10, 200, 30, 255])
+    }
+    expect(blend([0, 0, 255, 255], [255, 0, 0, 255], 'normal', 0.5)).toEqual([128, 0, 128, 255])
+  })
+
+  it('should isolate SoftwareContext layers until they end', async () => {
+    const context = await new SoftwareContextFactory().createContext({ width: 10, height: 10 })
+    context.setFillStyle('#ff8000')
+    context.fillRect(0, 0, 10, 10)
+
+    context.beginLayer({ blendMode: 'multiply' })
+    context.setFillStyle('#808080')
+    context.fillRect(0, 0, 10, 10)
+    // 合成前背景不受影响
+    expect(Array.from(context.imageData.data.subarray(0, 4))).toEqual([255, 128, 0, 255])
+    context.endLayer()
+
+    expect(Array.from(context.imageData.data.subarray(0, 4))).toEqual([128, 64, 0, 255])
+  })
+
+  it('should composite nested layer groups as a whole', async () => {
+    const engine = new RenderEngine()
+    await engine.initialize(new SoftwareContextFactory(), { width: 10, height: 10 })
+    engine.createLayer('background', 0).addRenderable(square('bg', '#0000ff'))
+
+    // 组内两个不透明子层先在组内合成，再整体按 50% 叠加
+    const group = engine.createLayer('group', 1)
+    group.opacity = 0.5
+    const lower = engine.createLayer('lower', 0)
+    lower.parentId = 'group'
+    lower.addRenderable(square('lower', '#00ff00'))
+    const upper = engine.createLayer('upper', 1)
+    upper.parentId = 'group'
+    upper.addRenderable(square('upper', '#ff0000'))
+    engine.render()
+
+    const context = engine.getContext() as ISoftwareContext
+    expect(Array.from(context.imageData.data.subarray(0, 4))).toEqual([128, 0, 128, 255])
+
+    // 隐藏组时子层一同隐藏
+    group.visible = false
+    context.clear()
+    engine.render()
+    expect(Array.from(context.imageData.data.subarray(0, 4))).toEqual([0, 0, 255, 255])
+    engine.dispose()
+  })
+})
@@ -1,3 +1,4 @@
+import type { ILayerCompositeOptions } from '../BlendModes'
 import type {
   IColor,
   IGraphicsCapabilities,
@@ -6,11 +7,13 @@ import type {
   IGraphicsState,
   IGraphicsStyle,
   IImageData,
+  IPaint,
   IPoint,
   IRect,
   ITextStyle,
   ITransform,
 } from '../IGraphicsContext'
+import { getRepresentativeColor } from '../Paint'
 import type { IRenderCommand } from '../RenderCommand'
 
 /**
@@ -492,7 +495,9 @@ export class WebGLGraphicsContext implements IGraphicsContext {
     gl.drawElements(gl.TRIANGLES, 6, gl.UNSIGNED_SHORT, 0)
   }
 
-  private parseColor(color: IColor | string): { r: number; g: number; b: number } {
+  private parseColor(paint: IPaint): { r: number; g: number; b: number } {
+    // 渐变/图案取代表色
+    const color = getRepresentativeColor(paint) ?? '#000000'
     if (typeof color === 'string') {
       if (color.startsWith('#')) {
         const hex = color.slice(1)
@@ -620,6 +625,16 @@ export class WebGLGraphicsContext implements IGraphicsContext {
     console.warn('Clipping not implemented in WebGL adapter')
   }
 
+  // 离屏图层：适配器不支持混合模式，仅应用整体不透明度
+  beginLayer(options: ILayerCompositeOptions = {}): void {
+    this.save()
+    this.setGlobalAlpha(options.opacity ?? 1)
+  }
+
+  endLayer(): void {
+    this.restore()
+  }
+
   // 坐标变换
   screenToWorld(point: IPoint): IPoint {
     // 简化实现，实际需要考虑变换矩阵
@@ -3,6 +3,7 @@
  * 提供基于 WebGPU 的高性能图形渲染能力的接口定义
  */
 
+import type { ILayerCompositeOptions } from '../BlendModes'
 import type {
   IColor,
   IGraphicsCapabilities,
@@ -304,6 +305,16 @@ export class WebGPUGraphicsContext implements IGraphicsContext {
     // 占位符实现
   }
 
+  // 离屏图层（占位符实现：仅应用整体不透明度）
+  beginLayer(options: ILayerCompositeOptions = {}): void {
+    this.save()
+    this.setGlobalAlpha(options.opacity ?? 1)
+  }
+
+  endLayer(): void {
+    this.restore()
+  }
+
   // 坐标转换
   screenToWorld(point: IPoint): IPoint {
     // 占位符实现
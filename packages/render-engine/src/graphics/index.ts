@@ -6,7 +6,9 @@
 // 适配器实现
 export * from './adapters'
 // 核心接口和类型
+export * from './BlendModes'
 export * from './IGraphicsContext'
+export * from './Paint'
 export * from './RenderCommand'
 
 // 便捷创建函数
@@ -43,13 +43,24 @@ export type {
 export type { IModernRenderPipeline } from './core/ModernRenderPipeline'
 // 空间分割和剔除
 export type { ISpatialNode } from './culling/SpatialPartitioning'
+// 图层混合
+export type { ILayerCompositeOptions, LayerBlendMode } from './graphics/BlendModes'
+export { compositeLayerPixels, LAYER_BLEND_MODES } from './graphics/BlendModes'
 // 核心类型和接口
 export type {
+  IConicGradientPaint,
+  IGradientPaint,
+  IGradientStop,
   IGraphicsContext,
   IGraphicsContextFactory,
   IImageData,
+  ILinearGradientPaint,
+  IPaint,
+  IPatternPaint,
   IPoint,
+  IRadialGradientPaint,
   IRect,
+  PatternRepetition,
 } from './graphics/IGraphicsContext'
 export type {
   BufferType,
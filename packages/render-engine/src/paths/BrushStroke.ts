@@ -0,0 +1,278 @@
+/**
+ * 压感笔刷
+ * 将指针采样（位置、压力、倾角、时间）转换为平滑、两端渐细的可变宽度填充轮廓，
+ * 输出闭合 SVG 路径，供自由绘制形状直接填充渲染
+ */
+
+import type { IPoint } from '../graphics/IGraphicsContext'
+
+/**
+ * 笔刷输入采样
+ */
+export interface IBrushSample {
+  x: number
+  y: number
+  /** 压力 0-1，缺省时按速度模拟 */
+  pressure?: number
+  /** 倾角（度，-90~90） */
+  tiltX?: number
+  tiltY?: number
+  timestamp?: number
+}
+
+/**
+ * 笔刷参数
+ */
+export interface IBrushOptions {
+  /** 压力为 0.5 时的笔触直径 */
+  size: number
+  /** 压力对粗细的影响 0-1，默认 0.6；0 为等宽 */
+  thinning?: number
+  /** 输入平滑 0-1，默认 0.5；越大越平滑但越滞后 */
+  smoothing?: number
+  /** 是否按速度模拟压力；默认仅在采样不含真实压力时模拟 */
+  simulatePressure?: boolean
+  /** 起笔渐细长度（像素），默认 0 */
+  taperStart?: number
+  /** 收笔渐细长度（像素），默认 0 */
+  taperEnd?: number
+  /** 倾斜使笔触变宽的比例 0-1，默认 0 */
+  tiltInfluence?: number
+}
+
+/**
+ * 处理后的笔迹中心点
+ */
+export interface IBrushStrokePoint extends IPoint {
+  pressure: number
+  /** 该点的笔触半径 */
+  radius: number
+  /** 自起点的累计弧长 */
+  distance: number
+}
+
+const CAP_SEGMENTS = 8
+const DOT_SEGMENTS = 16
+/** 模拟压力时每步向目标压力靠拢的比例 */
+const PRESSURE_CHANGE_RATE = 0.3
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+const round = (value: number) => +value.toFixed(2)
+
+/**
+ * 压感笔刷工具
+ */
+export class BrushStroke {
+  /**
+   * 采样中是否包含真实压力（鼠标等无压感设备按下时固定报告 0.5）
+   */
+  static hasPressure(samples: IBrushSample[]): boolean {
+    for (const sample of samples) {
+      if (sample.pressure !== undefined && sample.pressure > 0 && sample.pressure !== 0.5) {
+        return true
+      }
+    }
+    return false
+  }
+
+  /**
+   * 平滑采样并计算每点的压力、半径与弧长
+   */
+  static getStrokePoints(samples: IBrushSample[], options: IBrushOptions): IBrushStrokePoint[] {
+    if (samples.length === 0) return []
+
+    const size = Math.max(0, options.size)
+    const thinning = Math.max(-1, Math.min(1, options.thinning ?? 0.6))
+    const smoothing = clamp01(options.smoothing ?? 0.5)
+    const simulate = options.simulatePressure ?? !BrushStroke.hasPressure(samples)
+    const tiltInfluence = clamp01(options.tiltInfluence ?? 0)
+    // 平滑系数上限 0.85，保证笔迹始终跟随输入
+    const follow = 1 - smoothing * 0.85
+    const minDistance = Math.max(0.5, size * 0.05)
+
+    const first = samples[0]
+    const points: IBrushStrokePoint[] = []
+    let x = first.x
+    let y = first.y
+    let pressure = simulate ? 0.5 : BrushStroke.samplePressure(first, 0.5)
+    let distance = 0
+    const push = (sample: IBrushSample) => {
+      points.push({
+        x,
+        y,
+        pressure,
+        radius: BrushStroke.getRadius(size, thinning, pressure, sample, tiltInfluence),
+        distance,
+      })
+    }
+    push(first)
+
+    for (let i = 1; i < samples.length; i++) {
+      const sample = samples[i]
+      const isLast = i === samples.length - 1
+      // 最后一点不做平滑，笔迹终点与抬笔位置一致
+      const nx = isLast ? sample.x : x + (sample.x - x) * follow
+      const ny = isLast ? sample.y : y + (sample.y - y) * follow
+      const step = Math.hypot(nx - x, ny - y)
+
+      if (simulate) {
+        // 移动越快压力越小，笔触越细
+        const target = 1 - Math.min(1, size > 0 ? step / size : 0)
+        pressure += (target - pressure) * PRESSURE_CHANGE_RATE
+      } else {
+        pressure = BrushStroke.samplePressure(sample, pressure)
+      }
+
+      if (step < minDistance && !(isLast && step > 0)) continue
+      x = nx
+      y = ny
+      distance += step
+      push(sample)
+    }
+
+    BrushStroke.applyTaper(points, options.taperStart ?? 0, options.taperEnd ?? 0)
+    return points
+  }
+
+  /**
+   * 沿中心线两侧偏移半径生成闭合轮廓（两端为圆头）
+   */
+  static getOutline(points: IBrushStrokePoint[]): IPoint[] {
+    if (points.length === 0) return []
+
+    if (points.length === 1 || points[points.length - 1].distance <= 0) {
+      let radius = 0
+      for (const point of points) radius = Math.max(radius, point.radius)
+      return BrushStroke.arc(points[0], radius, 0, Math.PI * 2, DOT_SEGMENTS, false)
+    }
+
+    const left: IPoint[] = []
+    const right: IPoint[] = []
+    const directions: number[] = []
+    for (let i = 0; i < points.length; i++) {
+      const prev = points[Math.max(0, i - 1)]
+      const next = points[Math.min(points.length - 1, i + 1)]
+      const angle = Math.atan2(next.y - prev.y, next.x - prev.x)
+      const { x, y, radius } = points[i]
+      // 法线方向为前进方向逆时针旋转 90°
+      const nx = -Math.sin(angle) * radius
+      const ny = Math.cos(angle) * radius
+      left.push({ x: x + nx, y: y + ny })
+      right.push({ x: x - nx, y: y - ny })
+      directions.push(angle)
+    }
+
+    const last = points.length - 1
+    const endAngle = directions[last]
+    const startAngle = directions[0]
+    const endCap = BrushStroke.arc(
+      points[last],
+      points[last].radius,
+      endAngle + Math.PI / 2,
+      -Math.PI,
+      CAP_SEGMENTS,
+      true
+    )
+    const startCap = BrushStroke.arc(
+      points[0],
+      points[0].radius,
+      startAngle - Math.PI / 2,
+      -Math.PI,
+      CAP_SEGMENTS,
+      true
+    )
+
+    return [...left, ...endCap, ...right.reverse(), ...startCap]
+  }
+
+  /**
+   * 将轮廓点以二次曲线经过相邻中点连接，生成闭合 SVG 路径
+   */
+  static toPathData(outline: IPoint[]): string {
+    if (outline.length === 0) return ''
+    if (outline.length < 3) {
+      return `${outline.map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)},${round(p.y)}`).join(' ')} Z`
+    }
+
+    const mid = (a: IPoint, b: IPoint) => `${round((a.x + b.x) / 2)},${round((a.y + b.y) / 2)}`
+    const count = outline.length
+    const parts = [`M${mid(outline[0], outline[1])}`]
+    for (let i = 1; i <= count; i++) {
+      const point = outline[i % count]
+      const next = outline[(i + 1) % count]
+      parts.push(`Q${round(point.x)},${round(point.y)} ${mid(point, next)}`)
+    }
+    parts.push('Z')
+    return parts.join(' ')
+  }
+
+  /**
+   * 采样直接生成填充路径数据
+   */
+  static getPathData(samples: IBrushSample[], options: IBrushOptions): string {
+    return BrushStroke.toPathData(
+      BrushStroke.getOutline(BrushStroke.getStrokePoints(samples, options))
+    )
+  }
+
+  private static samplePressure(sample: IBrushSample, fallback: number): number {
+    // 抬笔瞬间压力常为 0，沿用上一采样的压力
+    return sample.pressure !== undefined && sample.pressure > 0
+      ? clamp01(sample.pressure)
+      : fallback
+  }
+
+  private static getRadius(
+    size: number,
+    thinning: number,
+    pressure: number,
+    sample: IBrushSample,
+    tiltInfluence: number
+  ): number {
+    const radius = Math.max(0, size * (0.5 - thinning * (0.5 - pressure)))
+    if (tiltInfluence <= 0) return radius
+    // 笔越倾斜，笔尖接触面越宽
+    const tilt = Math.min(90, Math.hypot(sample.tiltX ?? 0, sample.tiltY ?? 0)) / 90
+    return radius * (1 + tiltInfluence * tilt)
+  }
+
+  private static applyTaper(points: IBrushStrokePoint[], start: number, end: number): void {
+    if (points.length < 2 || (start <= 0 && end <= 0)) return
+    const length = points[points.length - 1].distance
+    const ease = (t: number) => t * (2 - t)
+    for (const point of points) {
+      let factor = 1
+      if (start > 0 && point.distance < start)
+        factor = Math.min(factor, ease(point.distance / start))
+      const remaining = length - point.distance
+      if (end > 0 && remaining < end) factor = Math.min(factor, ease(remaining / end))
+      point.radius *= factor
+    }
+  }
+
+  /**
+   * 圆弧采样点
+   * @param sweep 扫过角度，负值为顺时针
+   * @param skipEnds 是否省略两端点（端点已由两侧轮廓给出）
+   */
+  private static arc(
+    center: IPoint,
+    radius: number,
+    from: number,
+    sweep: number,
+    segments: number,
+    skipEnds: boolean
+  ): IPoint[] {
+    const result: IPoint[] = []
+    // 整圆时终点与起点重合，两种情况都不取最后一段的端点
+    for (let i = skipEnds ? 1 : 0; i < segments; i++) {
+      const angle = from + (sweep * i) / segments
+      result.push({
+        x: center.x + Math.cos(angle) * radius,
+        y: center.y + Math.sin(angle) * radius,
+      })
+    }
+    return result
+  }
+}
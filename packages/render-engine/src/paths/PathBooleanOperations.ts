@@ -37,6 +37,30 @@ export interface BooleanOperationResult {
 
 export type BooleanOperation = 'union' | 'intersection' | 'difference' | 'exclusion'
 
+/**
+ * Greiner-Hormann 裁剪用的环形链表顶点，新建时自成一环
+ */
+class ClipVertex implements PathPoint {
+  next: ClipVertex = this
+  prev: ClipVertex = this
+  /** 沿该多边形前进方向是否进入结果区域 */
+  entry = false
+  visited = false
+  /** 另一多边形上的同一交点 */
+  neighbor: ClipVertex | null = null
+
+  constructor(
+    public x: number,
+    public y: number,
+    public intersect = false,
+    /** 交点在原始边上的参数 */
+    public alpha = 0
+  ) {}
+}
+
+/** 退化时裁剪多边形的平移量 */
+const DEGENERACY_OFFSET = 1e-6
+
 export interface PathBooleanEvents {
   'operation-started': { operation: BooleanOperation; pathCount: number }
   'operation-completed': { operation: BooleanOperation; result: BooleanOperationResult }
@@ -416,14 +440,218 @@ export class PathBooleanOperations {
   }
 
   /**
-   * 多边形差集裁剪
+   * 多边形差集裁剪（Greiner-Hormann）
+   * 顶点恰好落在另一多边形边上时轻微平移裁剪多边形后重试
    */
   private clipPolygonDifference(subject: PathPoint[], clip: PathPoint[]): PathPoint[][] {
-    // 反转clip的方向，然后执行交集操作
-    const reversedClip = [...clip].reverse()
-    const result = this.clipPolygonIntersection(subject, reversedClip)
+    const ring = this.openRing(subject)
+    let clipRing = this.openRing(clip)
+    if (ring.length < 3) return []
+    if (clipRing.length < 3) return [ring]
+
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      const result = this.greinerHormannDifference(ring, clipRing)
+      if (result) return result
+      const offset = DEGENERACY_OFFSET * attempt
+      clipRing = clipRing.map((p) => ({ x: p.x + offset, y: p.y + offset * 0.7 }))
+    }
+
+    return [ring]
+  }
+
+  /**
+   * 差集 subject - clip；遇到退化交点时返回 null
+   */
+  private greinerHormannDifference(subject: PathPoint[], clip: PathPoint[]): PathPoint[][] | null {
+    const subjectVertices = this.createClipRing(subject)
+    const clipVertices = this.createClipRing(clip)
+    let intersections = 0
+
+    for (let i = 0; i < subjectVertices.length; i++) {
+      const a1 = subjectVertices[i]
+      const a2 = subjectVertices[(i + 1) % subjectVertices.length]
+      for (let j = 0; j < clipVertices.length; j++) {
+        const b1 = clipVertices[j]
+        const b2 = clipVertices[(j + 1) % clipVertices.length]
+        const hit = this.segmentIntersection(a1, a2, b1, b2)
+        if (hit === 'degenerate') return null
+        if (!hit) continue
+
+        const onSubject = this.insertClipVertex(a1, a2, hit.t, hit.point)
+        const onClip = this.insertClipVertex(b1, b2, hit.u, hit.point)
+        onSubject.neighbor = onClip
+        onClip.neighbor = onSubject
+        intersections++
+      }
+    }
+
+    const subjectInClip = this.pointInPolygon(subject[0], clip)
+    if (intersections === 0) {
+      if (subjectInClip) return []
+      if (this.pointInPolygon(clip[0], subject)) return [this.cutHole(subject, clip)]
+      return [subject]
+    }
+
+    // 差集：沿 subject 在裁剪区外前进，沿 clip 在 subject 内反向
+    this.markEntries(subjectVertices[0], subjectInClip)
+    this.markEntries(clipVertices[0], !this.pointInPolygon(clip[0], subject))
+
+    const result: PathPoint[][] = []
+    for (const start of subjectVertices.flatMap((vertex) => this.collectIntersections(vertex))) {
+      if (start.visited) continue
+      const polygon: PathPoint[] = [{ x: start.x, y: start.y }]
+      let current: ClipVertex = start
+      do {
+        current.visited = true
+        if (current.neighbor) current.neighbor.visited = true
+        const forward = current.entry
+        do {
+          current = forward ? current.next : current.prev
+          polygon.push({ x: current.x, y: current.y })
+        } while (!current.intersect)
+        current = current.neighbor as ClipVertex
+      } while (!current.visited)
+      const ring = this.openRing(polygon)
+      if (ring.length > 2) result.push(ring)
+    }
+
+    return result
+  }
 
-    return result.length > 2 ? [result] : []
+  private createClipRing(points: PathPoint[]): ClipVertex[] {
+    const vertices = points.map((point) => new ClipVertex(point.x, point.y))
+    for (let i = 0; i < vertices.length; i++) {
+      vertices[i].next = vertices[(i + 1) % vertices.length]
+      vertices[i].prev = vertices[(i - 1 + vertices.length) % vertices.length]
+    }
+    return vertices
+  }
+
+  /**
+   * 在原始边 start→end 上按参数顺序插入交点
+   */
+  private insertClipVertex(
+    start: ClipVertex,
+    end: ClipVertex,
+    alpha: number,
+    point: PathPoint
+  ): ClipVertex {
+    let cursor = start.next
+    while (cursor !== end && cursor.alpha < alpha) {
+      cursor = cursor.next
+    }
+    const vertex = new ClipVertex(point.x, point.y, true, alpha)
+    vertex.next = cursor
+    vertex.prev = cursor.prev
+    cursor.prev.next = vertex
+    cursor.prev = vertex
+    return vertex
+  }
+
+  private collectIntersections(vertex: ClipVertex): ClipVertex[] {
+    const result: ClipVertex[] = []
+    for (let cursor = vertex.next; cursor.intersect; cursor = cursor.next) {
+      result.push(cursor)
+    }
+    return result
+  }
+
+  private markEntries(first: ClipVertex, entry: boolean): void {
+    let status = entry
+    let cursor = first
+    do {
+      if (cursor.intersect) {
+        cursor.entry = status
+        status = !status
+      }
+      cursor = cursor.next
+    } while (cursor !== first)
+  }
+
+  /**
+   * 线段求交，返回两条线段上的参数；端点恰好相交或共线重叠时视为退化
+   */
+  private segmentIntersection(
+    a1: PathPoint,
+    a2: PathPoint,
+    b1: PathPoint,
+    b2: PathPoint
+  ): { point: PathPoint; t: number; u: number } | 'degenerate' | null {
+    const rx = a2.x - a1.x
+    const ry = a2.y - a1.y
+    const qx = b2.x - b1.x
+    const qy = b2.y - b1.y
+    const dx = b1.x - a1.x
+    const dy = b1.y - a1.y
+    const denom = rx * qy - ry * qx
+    const scale = Math.max(Math.hypot(rx, ry) * Math.hypot(qx, qy), this.precision)
+
+    if (Math.abs(denom) <= scale * 1e-12) {
+      const collinear = Math.abs(dx * ry - dy * rx) <= scale * 1e-12
+      if (!collinear) return null
+      const length = rx * rx + ry * ry || 1
+      const s0 = (dx * rx + dy * ry) / length
+      const s1 = ((b2.x - a1.x) * rx + (b2.y - a1.y) * ry) / length
+      return Math.max(s0, s1) < 0 || Math.min(s0, s1) > 1 ? null : 'degenerate'
+    }
+
+    const t = (dx * qy - dy * qx) / denom
+    const u = (dx * ry - dy * rx) / denom
+    const eps = 1e-9
+    if (t < -eps || t > 1 + eps || u < -eps || u > 1 + eps) return null
+    if (t < eps || t > 1 - eps || u < eps || u > 1 - eps) return 'degenerate'
+    return { point: { x: a1.x + t * rx, y: a1.y + t * ry }, t, u }
+  }
+
+  /**
+   * 以零宽缝连接外轮廓与内洞，得到单个简单多边形
+   */
+  private cutHole(outer: PathPoint[], hole: PathPoint[]): PathPoint[] {
+    const sameWinding = this.signedArea(outer) > 0 === this.signedArea(hole) > 0
+    const inner = sameWinding ? [...hole].reverse() : hole
+    let outerIndex = 0
+    let innerIndex = 0
+    let best = Infinity
+    for (let i = 0; i < outer.length; i++) {
+      for (let j = 0; j < inner.length; j++) {
+        const distance = (outer[i].x - inner[j].x) ** 2 + (outer[i].y - inner[j].y) ** 2
+        if (distance < best) {
+          best = distance
+          outerIndex = i
+          innerIndex = j
+        }
+      }
+    }
+    return [
+      ...outer.slice(0, outerIndex + 1),
+      ...inner.slice(innerIndex),
+      ...inner.slice(0, innerIndex + 1),
+      ...outer.slice(outerIndex),
+    ]
+  }
+
+  private signedArea(points: PathPoint[]): number {
+    let area = 0
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      area += (points[j].x - points[i].x) * (points[j].y + points[i].y)
+    }
+    return area / 2
+  }
+
+  /**
+   * 去掉重复的相邻顶点与闭合点，避免零长度边
+   */
+  private openRing(points: PathPoint[]): PathPoint[] {
+    const same = (a: PathPoint, b: PathPoint) =>
+      Math.abs(a.x - b.x) <= this.precision && Math.abs(a.y - b.y) <= this.precision
+    const ring: PathPoint[] = []
+    for (const point of points) {
+      if (ring.length === 0 || !same(ring[ring.length - 1], point)) ring.push(point)
+    }
+    while (ring.length > 1 && same(ring[0], ring[ring.length - 1])) {
+      ring.pop()
+    }
+    return ring
   }
 
   /**
@@ -0,0 +1,554 @@
+/**
+ * SVG 路径数据解析与规范化
+ * 按 SVG 1.1 路径语法解析任意 d 属性，并统一转换为绝对坐标的三次贝塞尔段，
+ * 供渲染、包围盒计算与命中测试共享
+ */
+
+import type { IPoint, IRect } from '../math/Geometry'
+
+/**
+ * 解析后的单条路径命令（隐式重复已展开，保留原始大小写）
+ */
+export interface ISVGPathCommand {
+  type: string
+  values: number[]
+}
+
+/**
+ * 规范化路径段 - 仅包含绝对坐标的 M / C / Z
+ */
+export type SVGPathSegment =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' }
+
+/**
+ * 路径绘制目标，IGraphicsContext 与 CanvasRenderingContext2D 均满足
+ */
+export interface ISVGPathSink {
+  moveTo(x: number, y: number): void
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void
+  closePath(): void
+}
+
+/**
+ * 展平后的折线子路径
+ */
+export interface ISVGPathPolyline {
+  points: IPoint[]
+  closed: boolean
+}
+
+const ARG_COUNTS: Record<string, number> = {
+  M: 2,
+  L: 2,
+  H: 1,
+  V: 1,
+  C: 6,
+  S: 4,
+  Q: 4,
+  T: 2,
+  A: 7,
+  Z: 0,
+}
+
+const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/
+const FLAG_PATTERN = /^[01]/
+const SEPARATOR_PATTERN = /^[\s,]*/
+const CACHE_LIMIT = 256
+
+/**
+ * SVG 路径数据工具
+ */
+export class SVGPathData {
+  private static cache: Map<string, SVGPathSegment[]> = new Map()
+
+  /**
+   * 解析路径字符串
+   * 遵循规范的错误处理：遇到第一个错误即停止，之前的命令依然有效
+   */
+  static parse(pathData: string): ISVGPathCommand[] {
+    const commands: ISVGPathCommand[] = []
+    let rest = pathData.trim()
+    let command: string | null = null
+
+    while (rest.length > 0) {
+      const letter = rest[0]
+      if (/[a-z]/i.test(letter)) {
+        if (ARG_COUNTS[letter.toUpperCase()] === undefined) break
+        if (commands.length === 0 && letter.toUpperCase() !== 'M') break
+        command = letter
+        rest = rest.slice(1).replace(SEPARATOR_PATTERN, '')
+        if (letter.toUpperCase() === 'Z') {
+          commands.push({ type: letter, values: [] })
+          command = null
+          continue
+        }
+      } else if (!command) {
+        break
+      }
+
+      const upper = command.toUpperCase()
+      const values: number[] = []
+      for (let i = 0; i < ARG_COUNTS[upper]; i++) {
+        const isFlag = upper === 'A' && (i === 3 || i === 4)
+        const match = (isFlag ? FLAG_PATTERN : NUMBER_PATTERN).exec(rest)
+        if (!match) return commands
+        values.push(Number(match[0]))
+        rest = rest.slice(match[0].length).replace(SEPARATOR_PATTERN, '')
+      }
+      commands.push({ type: command, values })
+
+      // M 之后的隐式坐标按 L 处理
+      if (upper === 'M') {
+        command = command === 'M' ? 'L' : 'l'
+      }
+    }
+
+    return commands
+  }
+
+  /**
+   * 规范化为绝对坐标的三次贝塞尔段
+   * 相同路径字符串的结果会被缓存，调用方不应修改返回的数组
+   */
+  static normalize(input: string | ISVGPathCommand[]): SVGPathSegment[] {
+    if (typeof input !== 'string') {
+      return SVGPathData.normalizeCommands(input)
+    }
+
+    const cached = SVGPathData.cache.get(input)
+    if (cached) return cached
+
+    const segments = SVGPathData.normalizeCommands(SVGPathData.parse(input))
+    if (SVGPathData.cache.size >= CACHE_LIMIT) {
+      const oldest = SVGPathData.cache.keys().next().value
+      if (oldest !== undefined) SVGPathData.cache.delete(oldest)
+    }
+    SVGPathData.cache.set(input, segments)
+    return segments
+  }
+
+  /**
+   * 序列化为路径字符串
+   */
+  static serialize(segments: SVGPathSegment[], precision: number = 3): string {
+    const fmt = (value: number) => String(Number(value.toFixed(precision)))
+    return segments
+      .map((segment) => {
+        switch (segment.type) {
+          case 'M':
+            return `M ${fmt(segment.x)} ${fmt(segment.y)}`
+          case 'C':
+            return `C ${fmt(segment.x1)} ${fmt(segment.y1)} ${fmt(segment.x2)} ${fmt(segment.y2)} ${fmt(segment.x)} ${fmt(segment.y)}`
+          default:
+            return 'Z'
+        }
+      })
+      .join(' ')
+  }
+
+  /**
+   * 平移路径
+   */
+  static translate(segments: SVGPathSegment[], dx: number, dy: number): SVGPathSegment[] {
+    return segments.map((segment) => {
+      switch (segment.type) {
+        case 'M':
+          return { type: 'M', x: segment.x + dx, y: segment.y + dy }
+        case 'C':
+          return {
+            type: 'C',
+            x1: segment.x1 + dx,
+            y1: segment.y1 + dy,
+            x2: segment.x2 + dx,
+            y2: segment.y2 + dy,
+            x: segment.x + dx,
+            y: segment.y + dy,
+          }
+        default:
+          return segment
+      }
+    })
+  }
+
+  /**
+   * 对路径应用仿射变换（三次贝塞尔在仿射变换下只需变换控制点）
+   */
+  static transform(segments: SVGPathSegment[], map: (point: IPoint) => IPoint): SVGPathSegment[] {
+    return segments.map((segment) => {
+      switch (segment.type) {
+        case 'M': {
+          const p = map({ x: segment.x, y: segment.y })
+          return { type: 'M', x: p.x, y: p.y }
+        }
+        case 'C': {
+          const c1 = map({ x: segment.x1, y: segment.y1 })
+          const c2 = map({ x: segment.x2, y: segment.y2 })
+          const p = map({ x: segment.x, y: segment.y })
+          return { type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: p.x, y: p.y }
+        }
+        default:
+          return segment
+      }
+    })
+  }
+
+  /**
+   * 将路径绘制到目标上下文
+   */
+  static trace(sink: ISVGPathSink, segments: SVGPathSegment[]): void {
+    for (const segment of segments) {
+      switch (segment.type) {
+        case 'M':
+          sink.moveTo(segment.x, segment.y)
+          break
+        case 'C':
+          sink.bezierCurveTo(segment.x1, segment.y1, segment.x2, segment.y2, segment.x, segment.y)
+          break
+        case 'Z':
+          sink.closePath()
+          break
+      }
+    }
+  }
+
+  /**
+   * 精确包围盒（基于三次曲线极值点）
+   */
+  static getBounds(segments: SVGPathSegment[]): IRect {
+    let minX = Infinity
+    let minY = Infinity
+    let maxX = -Infinity
+    let maxY = -Infinity
+    const include = (x: number, y: number) => {
+      minX = Math.min(minX, x)
+      minY = Math.min(minY, y)
+      maxX = Math.max(maxX, x)
+      maxY = Math.max(maxY, y)
+    }
+
+    let current: IPoint = { x: 0, y: 0 }
+    for (const segment of segments) {
+      if (segment.type === 'M') {
+        include(segment.x, segment.y)
+        current = { x: segment.x, y: segment.y }
+      } else if (segment.type === 'C') {
+        include(segment.x, segment.y)
+        for (const t of cubicExtrema(current.x, segment.x1, segment.x2, segment.x)) {
+          include(...cubicPoint(current, segment, t))
+        }
+        for (const t of cubicExtrema(current.y, segment.y1, segment.y2, segment.y)) {
+          include(...cubicPoint(current, segment, t))
+        }
+        current = { x: segment.x, y: segment.y }
+      }
+    }
+
+    if (minX === Infinity) return { x: 0, y: 0, width: 0, height: 0 }
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+  }
+
+  /**
+   * 展平为折线
+   * @param tolerance 允许的最大弦高误差
+   */
+  static flatten(segments: SVGPathSegment[], tolerance: number = 0.25): ISVGPathPolyline[] {
+    const polylines: ISVGPathPolyline[] = []
+    let current: ISVGPathPolyline | null = null
+    let last: IPoint = { x: 0, y: 0 }
+
+    for (const segment of segments) {
+      if (segment.type === 'M') {
+        current = { points: [{ x: segment.x, y: segment.y }], closed: false }
+        polylines.push(current)
+        last = { x: segment.x, y: segment.y }
+      } else if (segment.type === 'C' && current) {
+        // Wang 公式估算满足误差所需的细分数，直线段只需 1 段
+        const ddx = Math.max(
+          Math.abs(last.x - 2 * segment.x1 + segment.x2),
+          Math.abs(segment.x1 - 2 * segment.x2 + segment.x)
+        )
+        const ddy = Math.max(
+          Math.abs(last.y - 2 * segment.y1 + segment.y2),
+          Math.abs(segment.y1 - 2 * segment.y2 + segment.y)
+        )
+        const steps = Math.min(
+          256,
+          Math.max(1, Math.ceil(Math.sqrt((0.75 * Math.hypot(ddx, ddy)) / tolerance)))
+        )
+        for (let i = 1; i <= steps; i++) {
+          const [x, y] = cubicPoint(last, segment, i / steps)
+          current.points.push({ x, y })
+        }
+        last = { x: segment.x, y: segment.y }
+      } else if (segment.type === 'Z' && current) {
+        current.closed = true
+      }
+    }
+
+    return polylines
+  }
+
+  /**
+   * 清除规范化缓存
+   */
+  static clearCache(): void {
+    SVGPathData.cache.clear()
+  }
+
+  private static normalizeCommands(commands: ISVGPathCommand[]): SVGPathSegment[] {
+    const segments: SVGPathSegment[] = []
+    let cx = 0
+    let cy = 0
+    let startX = 0
+    let startY = 0
+    // 上一条曲线的控制点，用于 S / T 的反射
+    let lastCubic: IPoint | null = null
+    let lastQuad: IPoint | null = null
+    let needsMove = false
+
+    const cubic = (x1: number, y1: number, x2: number, y2: number, x: number, y: number) => {
+      if (needsMove) {
+        segments.push({ type: 'M', x: cx, y: cy })
+        needsMove = false
+      }
+      segments.push({ type: 'C', x1, y1, x2, y2, x, y })
+      cx = x
+      cy = y
+    }
+    const line = (x: number, y: number) => {
+      cubic(
+        cx + (x - cx) / 3,
+        cy + (y - cy) / 3,
+        cx + ((x - cx) * 2) / 3,
+        cy + ((y - cy) * 2) / 3,
+        x,
+        y
+      )
+    }
+    const quad = (qx: number, qy: number, x: number, y: number) => {
+      cubic(
+        cx + ((qx - cx) * 2) / 3,
+        cy + ((qy - cy) * 2) / 3,
+        x + ((qx - x) * 2) / 3,
+        y + ((qy - y) * 2) / 3,
+        x,
+        y
+      )
+    }
+
+    for (const { type, values: v } of commands) {
+      const upper = type.toUpperCase()
+      const relative = type !== upper
+      const ox = relative ? cx : 0
+      const oy = relative ? cy : 0
+      let nextCubic: IPoint | null = null
+      let nextQuad: IPoint | null = null
+
+      switch (upper) {
+        case 'M':
+          cx = v[0] + ox
+          cy = v[1] + oy
+          startX = cx
+          startY = cy
+          segments.push({ type: 'M', x: cx, y: cy })
+          needsMove = false
+          break
+        case 'L':
+          line(v[0] + ox, v[1] + oy)
+          break
+        case 'H':
+          line(v[0] + ox, cy)
+          break
+        case 'V':
+          line(cx, v[0] + oy)
+          break
+        case 'C':
+          nextCubic = { x: v[2] + ox, y: v[3] + oy }
+          cubic(v[0] + ox, v[1] + oy, nextCubic.x, nextCubic.y, v[4] + ox, v[5] + oy)
+          break
+        case 'S': {
+          const x1 = lastCubic ? 2 * cx - lastCubic.x : cx
+          const y1 = lastCubic ? 2 * cy - lastCubic.y : cy
+          nextCubic = { x: v[0] + ox, y: v[1] + oy }
+          cubic(x1, y1, nextCubic.x, nextCubic.y, v[2] + ox, v[3] + oy)
+          break
+        }
+        case 'Q':
+          nextQuad = { x: v[0] + ox, y: v[1] + oy }
+          quad(nextQuad.x, nextQuad.y, v[2] + ox, v[3] + oy)
+          break
+        case 'T':
+          nextQuad = lastQuad
+            ? { x: 2 * cx - lastQuad.x, y: 2 * cy - lastQuad.y }
+            : { x: cx, y: cy }
+          quad(nextQuad.x, nextQuad.y, v[0] + ox, v[1] + oy)
+          break
+        case 'A':
+          for (const c of arcToCubics(
+            cx,
+            cy,
+            v[0],
+            v[1],
+            v[2],
+            v[3] !== 0,
+            v[4] !== 0,
+            v[5] + ox,
+            v[6] + oy
+          )) {
+            cubic(c[0], c[1], c[2], c[3], c[4], c[5])
+          }
+          cx = v[5] + ox
+          cy = v[6] + oy
+          break
+        case 'Z':
+          if (segments.length > 0 && segments[segments.length - 1].type !== 'Z') {
+            segments.push({ type: 'Z' })
+          }
+          cx = startX
+          cy = startY
+          needsMove = true
+          break
+      }
+
+      lastCubic = nextCubic
+      lastQuad = nextQuad
+    }
+
+    return segments
+  }
+}
+
+/**
+ * 椭圆弧转三次贝塞尔（SVG 规范附录 F.6 端点参数化 → 中心参数化）
+ */
+function arcToCubics(
+  x1: number,
+  y1: number,
+  rx: number,
+  ry: number,
+  angle: number,
+  largeArc: boolean,
+  sweep: boolean,
+  x2: number,
+  y2: number
+): number[][] {
+  if (x1 === x2 && y1 === y2) return []
+
+  rx = Math.abs(rx)
+  ry = Math.abs(ry)
+  if (rx === 0 || ry === 0) {
+    return [
+      [
+        x1 + (x2 - x1) / 3,
+        y1 + (y2 - y1) / 3,
+        x1 + ((x2 - x1) * 2) / 3,
+        y1 + ((y2 - y1) * 2) / 3,
+        x2,
+        y2,
+      ],
+    ]
+  }
+
+  const phi = (angle * Math.PI) / 180
+  const cos = Math.cos(phi)
+  const sin = Math.sin(phi)
+
+  const dx = (x1 - x2) / 2
+  const dy = (y1 - y2) / 2
+  const x1p = cos * dx + sin * dy
+  const y1p = -sin * dx + cos * dy
+
+  // 半径不足时按比例放大
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry)
+  if (lambda > 1) {
+    const scale = Math.sqrt(lambda)
+    rx *= scale
+    ry *= scale
+  }
+
+  const rx2 = rx * rx
+  const ry2 = ry * ry
+  const numerator = rx2 * ry2 - rx2 * y1p * y1p - ry2 * x1p * x1p
+  const denominator = rx2 * y1p * y1p + ry2 * x1p * x1p
+  let coef = Math.sqrt(Math.max(0, numerator / denominator))
+  if (largeArc === sweep) coef = -coef
+
+  const cxp = (coef * rx * y1p) / ry
+  const cyp = (-coef * ry * x1p) / rx
+  const centerX = cos * cxp - sin * cyp + (x1 + x2) / 2
+  const centerY = sin * cxp + cos * cyp + (y1 + y2) / 2
+
+  const theta1 = vectorAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry)
+  let delta = vectorAngle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry)
+  if (!sweep && delta > 0) delta -= Math.PI * 2
+  if (sweep && delta < 0) delta += Math.PI * 2
+
+  const count = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9))
+  const step = delta / count
+  const k = (4 / 3) * Math.tan(step / 4)
+  const map = (ux: number, uy: number): [number, number] => [
+    centerX + rx * ux * cos - ry * uy * sin,
+    centerY + rx * ux * sin + ry * uy * cos,
+  ]
+
+  const curves: number[][] = []
+  let t = theta1
+  for (let i = 0; i < count; i++) {
+    const c1 = Math.cos(t)
+    const s1 = Math.sin(t)
+    const c2 = Math.cos(t + step)
+    const s2 = Math.sin(t + step)
+    const [ax, ay] = map(c1 - k * s1, s1 + k * c1)
+    const [bx, by] = map(c2 + k * s2, s2 - k * c2)
+    const [ex, ey] = i === count - 1 ? [x2, y2] : map(c2, s2)
+    curves.push([ax, ay, bx, by, ex, ey])
+    t += step
+  }
+  return curves
+}
+
+function vectorAngle(ux: number, uy: number, vx: number, vy: number): number {
+  const sign = ux * vy - uy * vx < 0 ? -1 : 1
+  const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy))
+  return sign * Math.acos(Math.max(-1, Math.min(1, dot)))
+}
+
+function cubicPoint(
+  start: IPoint,
+  segment: { x1: number; y1: number; x2: number; y2: number; x: number; y: number },
+  t: number
+): [number, number] {
+  const mt = 1 - t
+  const a = mt * mt * mt
+  const b = 3 * mt * mt * t
+  const c = 3 * mt * t * t
+  const d = t * t * t
+  return [
+    a * start.x + b * segment.x1 + c * segment.x2 + d * segment.x,
+    a * start.y + b * segment.y1 + c * segment.y2 + d * segment.y,
+  ]
+}
+
+/**
+ * 三次曲线在单一坐标轴上的极值参数（0 < t < 1）
+ */
+function cubicExtrema(p0: number, p1: number, p2: number, p3: number): number[] {
+  const a = -p0 + 3 * p1 - 3 * p2 + p3
+  const b = 2 * (p0 - 2 * p1 + p2)
+  const c = p1 - p0
+  const roots: number[] = []
+
+  if (Math.abs(a) < 1e-12) {
+    if (Math.abs(b) > 1e-12) roots.push(-c / b)
+  } else {
+    const discriminant = b * b - 4 * a * c
+    if (discriminant >= 0) {
+      const sqrt = Math.sqrt(discriminant)
+      roots.push((-b + sqrt) / (2 * a), (-b - sqrt) / (2 * a))
+    }
+  }
+
+  return roots.filter((t) => t > 0 && t < 1)
+}
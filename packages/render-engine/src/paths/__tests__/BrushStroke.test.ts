@@ -0,0 +1,115 @@
+/**
+ * 压感笔刷测试：压力、平滑、渐细与填充轮廓
+ */
+
+import { describe, expect, it } from 'vitest'
+import { BrushStroke, type IBrushSample } from '../BrushStroke'
+import { SVGPathData } from '../SVGPathData'
+
+const line = (count: number, pressure?: (t: number) => number): IBrushSample[] =>
+  Array.from({ length: count }, (_, i) => ({
+    x: i * 5,
+    y: 0,
+    pressure: pressure?.(i / (count - 1)),
+  }))
+
+const widthAt = (pathData: string, x: number) => {
+  const { points } = SVGPathData.flatten(SVGPathData.normalize(pathData), 0.1)[0]
+  let min = Infinity
+  let max = -Infinity
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    if (a.x <= x !== b.x <= x && a.x !== b.x) {
+      const y = a.y + ((x - a.x) * (b.y - a.y)) / (b.x - a.x)
+      min = Math.min(min, y)
+      max = Math.max(max, y)
+    }
+  }
+  return max - min
+}
+
+describe('BrushStroke', () => {
+  it('should vary the stroke width with pen pressure', () => {
+    const samples = line(21, (t) => 0.1 + 0.9 * t)
+    expect(BrushStroke.hasPressure(samples)).toBe(true)
+
+    const points = BrushStroke.getStrokePoints(samples, { size: 10, smoothing: 0 })
+    expect(points[0].radius).toBeLessThan(points[points.length - 1].radius)
+    expect(points[points.length - 1].radius).toBeCloseTo(10 * (0.5 + 0.6 * 0.5))
+
+    const pathData = BrushStroke.getPathData(samples, { size: 10, smoothing: 0 })
+    expect(pathData.startsWith('M')).toBe(true)
+    expect(pathData.endsWith('Z')).toBe(true)
+    expect(widthAt(pathData, 90)).toBeGreaterThan(widthAt(pathData, 10) * 1.5)
+  })
+
+  it('should keep a constant width for mouse input without thinning', () => {
+    // 鼠标按下时压力固定为 0.5，不视为真实压力
+    const samples = line(11, () => 0.5)
+    expect(BrushStroke.hasPressure(samples)).toBe(false)
+
+    const points = BrushStroke.getStrokePoints(samples, { size: 8, thinning: 0, smoothing: 0 })
+    for (const point of points) expect(point.radius).toBe(4)
+    expect(widthAt(BrushStroke.getPathData(samples, { size: 8, thinning: 0 }), 25)).toBeCloseTo(
+      8,
+      0
+    )
+  })
+
+  it('should simulate thinner strokes for faster movement', () => {
+    const slow = Array.from({ length: 20 }, (_, i) => ({ x: i * 2, y: 0 }))
+    const fast = Array.from({ length: 20 }, (_, i) => ({ x: i * 12, y: 0 }))
+    const radius = (samples: IBrushSample[]) => {
+      const points = BrushStroke.getStrokePoints(samples, { size: 16 })
+      return points[points.length - 2].radius
+    }
+    expect(radius(fast)).toBeLessThan(radius(slow))
+  })
+
+  it('should smooth jitter and end exactly at the last sample', () => {
+    const samples = Array.from({ length: 30 }, (_, i) => ({ x: i * 4, y: i % 2 === 0 ? 3 : -3 }))
+    const rough = BrushStroke.getStrokePoints(samples, { size: 4, smoothing: 0 })
+    const smooth = BrushStroke.getStrokePoints(samples, { size: 4, smoothing: 0.8 })
+    const deviation = (points: { y: number }[]) =>
+      Math.max(...points.slice(5, -1).map((point) => Math.abs(point.y)))
+
+    expect(deviation(smooth)).toBeLessThan(deviation(rough))
+    expect(smooth[smooth.length - 1]).toMatchObject({ x: 116, y: -3 })
+  })
+
+  it('should taper both ends of the stroke', () => {
+    const samples = line(41, () => 0.5)
+    const points = BrushStroke.getStrokePoints(samples, {
+      size: 10,
+      smoothing: 0,
+      taperStart: 50,
+      taperEnd: 50,
+    })
+
+    expect(points[0].radius).toBe(0)
+    expect(points[points.length - 1].radius).toBe(0)
+    expect(points[20].radius).toBe(5)
+    expect(points[5].radius).toBeLessThan(points[10].radius)
+  })
+
+  it('should widen the stroke with tilt when enabled', () => {
+    const flat = [{ x: 0, y: 0, pressure: 0.5 }]
+    const tilted = [{ x: 0, y: 0, pressure: 0.5, tiltX: 60, tiltY: 0 }]
+    const options = { size: 10, tiltInfluence: 0.5 }
+
+    expect(BrushStroke.getStrokePoints(tilted, options)[0].radius).toBeGreaterThan(
+      BrushStroke.getStrokePoints(flat, options)[0].radius
+    )
+  })
+
+  it('should draw a dot for a single sample', () => {
+    const pathData = BrushStroke.getPathData([{ x: 10, y: 10 }], { size: 6 })
+    const bounds = SVGPathData.getBounds(SVGPathData.normalize(pathData))
+
+    expect(bounds.x + bounds.width / 2).toBeCloseTo(10, 0)
+    expect(bounds.width).toBeGreaterThan(5)
+    expect(bounds.width).toBeLessThanOrEqual(6)
+    expect(BrushStroke.getPathData([], { size: 6 })).toBe('')
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * 路径布尔运算测试：差集
+ */
+
+import { describe, expect, it } from 'vitest'
+import { type Path, PathBooleanOperations, type PathPoint } from '../PathBooleanOperations'
+
+const polygon = (points: Array<[number, number]>): Path => ({
+  segments: [
+    { type: 'moveTo', points: [{ x: points[0][0], y: points[0][1] }] },
+    ...points.slice(1).map(([x, y]) => ({ type: 'lineTo' as const, points: [{ x, y }] })),
+    { type: 'closePath', points: [] },
+  ],
+  closed: true,
+  fillRule: 'nonzero',
+})
+
+const rect = (x: number, y: number, width: number, height: number) =>
+  polygon([
+    [x, y],
+    [x + width, y],
+    [x + width, y + height],
+    [x, y + height],
+  ])
+
+const vertices = (path: Path): PathPoint[] =>
+  path.segments.filter((segment) => segment.type !== 'closePath').map((s) => s.points[0])
+
+const area = (path: Path) => {
+  const points = vertices(path)
+  let sum = 0
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    sum += (points[j].x - points[i].x) * (points[j].y + points[i].y)
+  }
+  return Math.abs(sum / 2)
+}
+
+describe('PathBooleanOperations.difference', () => {
+  const operations = new PathBooleanOperations()
+
+  it('should cut an overlapping square out of a square', () => {
+    const result = operations.difference(rect(0, 0, 10, 10), rect(5, 5, 10, 10))
+
+    expect(result.success).toBe(true)
+    expect(result.paths).toHaveLength(1)
+    expect(area(result.paths[0])).toBeCloseTo(75)
+    expect(result.paths[0].segments[result.paths[0].segments.length - 1].type).toBe('closePath')
+  })
+
+  it('should keep the subject when the shapes do not overlap', () => {
+    const result = operations.difference(rect(0, 0, 10, 10), rect(20, 0, 5, 5))
+
+    expect(result.paths).toHaveLength(1)
+    expect(area(result.paths[0])).toBeCloseTo(100)
+  })
+
+  it('should remove the subject when it is covered', () => {
+    expect(operations.difference(rect(2, 2, 4, 4), rect(0, 0, 10, 10)).paths).toHaveLength(0)
+  })
+
+  it('should punch a hole with a seam when the clip is inside the subject', () => {
+    const result = operations.difference(rect(0, 0, 10, 10), rect(3, 3, 4, 4))
+
+    expect(result.paths).toHaveLength(1)
+    expect(area(result.paths[0])).toBeCloseTo(84)
+  })
+
+  it('should split the subject when the clip crosses it completely', () => {
+    // 顺时针与逆时针裁剪多边形结果一致
+    const band = [
+      [4, -5],
+      [6, -5],
+      [6, 15],
+      [4, 15],
+    ] as Array<[number, number]>
+    for (const clip of [polygon(band), polygon([...band].reverse())]) {
+      const result = operations.difference(rect(0, 0, 10, 10), clip)
+
+      expect(result.paths).toHaveLength(2)
+      expect(result.paths.map(area).sort()).toEqual([40, 40].map((v) => expect.closeTo(v)))
+      const xs = result.paths.map((path) => Math.max(...vertices(path).map((p) => p.x)))
+      xs.sort((a, b) => a - b)
+      expect(xs[0]).toBeCloseTo(4)
+      expect(xs[1]).toBeCloseTo(10)
+    }
+  })
+
+  it('should handle clip vertices lying on subject edges', () => {
+    const result = operations.difference(rect(0, 0, 10, 10), rect(0, 0, 5, 10))
+
+    expect(result.paths).toHaveLength(1)
+    expect(area(result.paths[0])).toBeCloseTo(50, 3)
+  })
+})
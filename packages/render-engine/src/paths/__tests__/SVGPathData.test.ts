@@ -0,0 +1,112 @@
+/**
+ * SVG 路径数据解析测试
+ */
+
+import { describe, expect, it } from 'vitest'
+import { SVGPathData, type SVGPathSegment } from '../SVGPathData'
+
+const endPoints = (segments: SVGPathSegment[]) =>
+  segments.map((segment) =>
+    segment.type === 'Z' ? 'Z' : `${segment.type}${+segment.x.toFixed(3)},${+segment.y.toFixed(3)}`
+  )
+
+describe('SVGPathData', () => {
+  describe('parse', () => {
+    it('should expand implicit repeats and treat extra moveto pairs as lineto', () => {
+      const commands = SVGPathData.parse('m10 10 5 0 0 5l1 1 2 2')
+
+      expect(commands.map((c) => c.type)).toEqual(['m', 'l', 'l', 'l', 'l'])
+      expect(commands[4].values).toEqual([2, 2])
+    })
+
+    it('should tokenize compact numbers and arc flags', () => {
+      const commands = SVGPathData.parse('M.5.5-1-2e1A5 5 0 1110 10')
+
+      expect(commands[0].values).toEqual([0.5, 0.5])
+      expect(commands[1]).toEqual({ type: 'L', values: [-1, -20] })
+      expect(commands[2]).toEqual({ type: 'A', values: [5, 5, 0, 1, 1, 10, 10] })
+    })
+
+    it('should keep commands before the first error', () => {
+      expect(SVGPathData.parse('M 0 0 L 10 10 L 5 X 20')).toHaveLength(2)
+      expect(SVGPathData.parse('L 10 10')).toHaveLength(0)
+    })
+  })
+
+  describe('normalize', () => {
+    it('should convert every command to absolute cubic segments', () => {
+      const segments = SVGPathData.normalize('M0 0 h10 v10 H0 Q 5 20 10 10 T 20 10 z')
+
+      expect(segments.every((s) => s.type !== 'C' || Number.isFinite(s.x1))).toBe(true)
+      expect(endPoints(segments)).toEqual([
+        'M0,0',
+        'C10,0',
+        'C10,10',
+        'C0,10',
+        'C10,10',
+        'C20,10',
+        'Z',
+      ])
+    })
+
+    it('should reflect control points for smooth curves', () => {
+      const [, first, second] = SVGPathData.normalize('M0 0 C 0 10 10 10 10 0 S 20 -10 20 0')
+
+      expect(first).toMatchObject({ x2: 10, y2: 10 })
+      expect(second).toMatchObject({ x1: 10, y1: -10, x2: 20, y2: -10, x: 20, y: 0 })
+    })
+
+    it('should approximate arcs with cubic segments on the ellipse', () => {
+      const segments = SVGPathData.normalize('M 0 0 A 10 10 0 0 1 20 0')
+      const bounds = SVGPathData.getBounds(segments)
+
+      expect(segments.filter((s) => s.type === 'C')).toHaveLength(2)
+      expect(bounds.x).toBeCloseTo(0)
+      expect(bounds.width).toBeCloseTo(20)
+      expect(bounds.y).toBeCloseTo(-10, 1)
+      expect(bounds.height).toBeCloseTo(10, 1)
+    })
+
+    it('should scale up radii that are too small to reach the end point', () => {
+      const bounds = SVGPathData.getBounds(SVGPathData.normalize('M 0 0 a 1 1 0 0 0 40 0'))
+
+      expect(bounds.width).toBeCloseTo(40)
+      expect(bounds.y + bounds.height).toBeCloseTo(20, 1)
+    })
+
+    it('should start a new subpath at the initial point after closepath', () => {
+      const segments = SVGPathData.normalize('M 5 5 l 10 0 z l 0 10')
+
+      expect(endPoints(segments)).toEqual(['M5,5', 'C15,5', 'Z', 'M5,5', 'C5,15'])
+    })
+  })
+
+  it('should compute tight bounds from curve extrema', () => {
+    const bounds = SVGPathData.getBounds(SVGPathData.normalize('M 0 0 C 0 40 40 40 40 0'))
+
+    expect(bounds).toMatchObject({ x: 0, y: 0, width: 40 })
+    expect(bounds.height).toBeCloseTo(30)
+  })
+
+  it('should serialize to a path that normalizes to the same segments', () => {
+    const segments = SVGPathData.normalize('M10 10 a 5 8 30 1 0 20 5 s 10 10 20 0 t 10 10 Z')
+    const serialized = SVGPathData.serialize(segments, 6)
+
+    expect(SVGPathData.normalize(serialized)).toHaveLength(segments.length)
+    expect(SVGPathData.getBounds(SVGPathData.normalize(serialized)).width).toBeCloseTo(
+      SVGPathData.getBounds(segments).width,
+      4
+    )
+  })
+
+  it('should flatten straight segments without subdivision', () => {
+    const [polyline] = SVGPathData.flatten(SVGPathData.normalize('M 0 0 L 100 0 L 100 100 Z'))
+
+    expect(polyline.points).toEqual([
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 100 },
+    ])
+    expect(polyline.closed).toBe(true)
+  })
+})
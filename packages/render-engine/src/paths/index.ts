@@ -3,6 +3,8 @@
  * 提供路径布尔运算、简化和编辑功能
  */
 
+export type { IBrushOptions, IBrushSample, IBrushStrokePoint } from './BrushStroke'
+export { BrushStroke } from './BrushStroke'
 export type {
   BooleanOperation,
   BooleanOperationResult,
@@ -20,3 +22,10 @@ export type {
   SimplificationResult,
 } from './PathSimplification'
 export { PathSimplification } from './PathSimplification'
+export type {
+  ISVGPathCommand,
+  ISVGPathPolyline,
+  ISVGPathSink,
+  SVGPathSegment,
+} from './SVGPathData'
+export { SVGPathData } from './SVGPathData'
@@ -3,6 +3,12 @@
  * 提供完整的插件管理和扩展功能
  */
 
+export {
+  compareVersions,
+  isValidVersionRange,
+  isVersionCompatible,
+  satisfiesVersionRange,
+} from './manager/VersionUtils'
 export type {
   InstallOptions,
   PluginManagerEvents,
@@ -84,3 +84,164 @@ export function compareVersions(versionA: string, versionB: string): number {
 export function formatVersion(version: ParsedVersion): string {
   return `${version.major}.${version.minor}.${version.patch}`
 }
+
+type RangeOperator = '<' | '<=' | '>' | '>=' | '='
+
+interface Comparator {
+  operator: RangeOperator
+  version: ParsedVersion
+}
+
+/** 部分版本号，通配或省略的部分为 undefined */
+interface PartialVersion {
+  major?: number
+  minor?: number
+  patch?: number
+}
+
+const PARTIAL_VERSION =
+  /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/
+
+function parsePartial(value: string): PartialVersion | null {
+  const match = PARTIAL_VERSION.exec(value)
+  if (!match) return null
+  const toNumber = (part: string | undefined) =>
+    part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part)
+  const major = toNumber(match[1])
+  const minor = major === undefined ? undefined : toNumber(match[2])
+  const patch = minor === undefined ? undefined : toNumber(match[3])
+  return { major, minor, patch }
+}
+
+function fill(partial: PartialVersion): ParsedVersion {
+  return { major: partial.major ?? 0, minor: partial.minor ?? 0, patch: partial.patch ?? 0 }
+}
+
+/**
+ * 部分版本号之后的第一个版本，如 1 → 2.0.0、1.2 → 1.3.0
+ */
+function nextAfter(partial: PartialVersion): ParsedVersion {
+  if (partial.minor === undefined) return { major: (partial.major ?? 0) + 1, minor: 0, patch: 0 }
+  return { major: partial.major ?? 0, minor: partial.minor + 1, patch: 0 }
+}
+
+function isComplete(partial: PartialVersion): boolean {
+  return partial.patch !== undefined
+}
+
+function desugar(operator: string, partial: PartialVersion): Comparator[] {
+  if (partial.major === undefined) {
+    return operator === '<' || operator === '>' ? [{ operator: '<', version: fill({}) }] : []
+  }
+
+  const lower = fill(partial)
+  switch (operator) {
+    case '^': {
+      const { major, minor, patch } = lower
+      const upper =
+        major > 0 || partial.minor === undefined
+          ? { major: major + 1, minor: 0, patch: 0 }
+          : minor > 0 || partial.patch === undefined
+            ? { major, minor: minor + 1, patch: 0 }
+            : { major, minor, patch: patch + 1 }
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ]
+    }
+    case '~':
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: nextAfter(partial) },
+      ]
+    case '>':
+      return isComplete(partial)
+        ? [{ operator: '>', version: lower }]
+        : [{ operator: '>=', version: nextAfter(partial) }]
+    case '>=':
+      return [{ operator: '>=', version: lower }]
+    case '<':
+      return [{ operator: '<', version: lower }]
+    case '<=':
+      return isComplete(partial)
+        ? [{ operator: '<=', version: lower }]
+        : [{ operator: '<', version: nextAfter(partial) }]
+    default:
+      return isComplete(partial)
+        ? [{ operator: '=', version: lower }]
+        : [
+            { operator: '>=', version: lower },
+            { operator: '<', version: nextAfter(partial) },
+          ]
+  }
+}
+
+/**
+ * 解析 npm 风格的版本范围：|| 分隔的各组之间为或，组内以空格分隔的比较式为且；格式错误时返回 null
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = []
+
+  for (const group of range.split('||')) {
+    const trimmed = group.trim()
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(trimmed)
+    if (hyphen) {
+      const from = parsePartial(hyphen[1])
+      const to = parsePartial(hyphen[2])
+      if (!from || !to) return null
+      sets.push([...desugar('>=', from), ...desugar('<=', to)])
+      continue
+    }
+
+    const comparators: Comparator[] = []
+    // 运算符与版本号之间允许空格，如 '>= 1.2.0'
+    for (const token of trimmed
+      .replace(/([<>]=?|[=^~])\s+/g, '$1')
+      .split(/\s+/)
+      .filter(Boolean)) {
+      const match = /^(<=|>=|<|>|=|\^|~>?)?(.*)$/.exec(token)
+      const partial = match && parsePartial(match[2])
+      if (!match || !partial) return null
+      comparators.push(...desugar((match[1] ?? '=').replace('~>', '~'), partial))
+    }
+    sets.push(comparators)
+  }
+
+  return sets
+}
+
+function testComparator(version: ParsedVersion, comparator: Comparator): boolean {
+  const diff = compareVersions(formatVersion(version), formatVersion(comparator.version))
+  switch (comparator.operator) {
+    case '<':
+      return diff < 0
+    case '<=':
+      return diff <= 0
+    case '>':
+      return diff > 0
+    case '>=':
+      return diff >= 0
+    default:
+      return diff === 0
+  }
+}
+
+/**
+ * 检查版本范围格式是否有效
+ */
+export function isValidVersionRange(range: string): boolean {
+  return parseRange(range) !== null
+}
+
+/**
+ * 检查版本是否满足 npm 风格的版本范围
+ * 支持 *、x 通配，^、~、比较运算符，部分版本号（1、1.2），连字符范围（1.0.0 - 2.0.0）与 ||
+ */
+export function satisfiesVersionRange(version: string, range: string): boolean {
+  const sets = parseRange(range)
+  if (!sets) return false
+  const parsed = parseVersion(version)
+  return sets.some((comparators) =>
+    comparators.every((comparator) => testComparator(parsed, comparator))
+  )
+}
@@ -0,0 +1,41 @@
+/**
+ * 版本范围测试：npm 风格的范围解析与匹配
+ */
+
+import { describe, expect, it } from 'vitest'
+import { isValidVersionRange, satisfiesVersionRange } from '../VersionUtils'
+
+describe('satisfiesVersionRange', () => {
+  it('should match caret and tilde ranges like npm', () => {
+    expect(satisfiesVersionRange('1.4.2', '^1.2.0')).toBe(true)
+    expect(satisfiesVersionRange('2.0.0', '^1.2.0')).toBe(false)
+    expect(satisfiesVersionRange('0.2.5', '^0.2.1')).toBe(true)
+    expect(satisfiesVersionRange('0.3.0', '^0.2.1')).toBe(false)
+    expect(satisfiesVersionRange('0.0.4', '^0.0.3')).toBe(false)
+    expect(satisfiesVersionRange('1.2.9', '~1.2.3')).toBe(true)
+    expect(satisfiesVersionRange('1.3.0', '~1.2.3')).toBe(false)
+    expect(satisfiesVersionRange('1.9.0', '~1')).toBe(true)
+  })
+
+  it('should match comparators, partial versions, wildcards and unions', () => {
+    expect(satisfiesVersionRange('1.5.0', '>=1.2.0 <2.0.0')).toBe(true)
+    expect(satisfiesVersionRange('1.5.0', '>= 1.2.0 < 1.5.0')).toBe(false)
+    expect(satisfiesVersionRange('1.3.0', '>1.2')).toBe(true)
+    expect(satisfiesVersionRange('1.2.9', '>1.2')).toBe(false)
+    expect(satisfiesVersionRange('1.2.9', '<=1.2')).toBe(true)
+    expect(satisfiesVersionRange('1.7.3', '1.x')).toBe(true)
+    expect(satisfiesVersionRange('3.0.0', '*')).toBe(true)
+    expect(satisfiesVersionRange('2.1.0', '^1.0.0 || ^2.0.0')).toBe(true)
+    expect(satisfiesVersionRange('1.8.0', '1.2.0 - 1.8')).toBe(true)
+    expect(satisfiesVersionRange('1.9.0', '1.2.0 - 1.8')).toBe(false)
+    expect(satisfiesVersionRange('1.2.0', '1.2.0')).toBe(true)
+    expect(satisfiesVersionRange('1.2.1', '=1.2.0')).toBe(false)
+  })
+
+  it('should reject malformed ranges', () => {
+    expect(isValidVersionRange('^1.2.0 || >=3')).toBe(true)
+    expect(isValidVersionRange('latest')).toBe(false)
+    expect(isValidVersionRange('>=1.2.0 <')).toBe(false)
+    expect(satisfiesVersionRange('1.0.0', 'latest')).toBe(false)
+  })
+})
@@ -2,6 +2,7 @@
  * 路径图形原语实现
  */
 import type { IGraphicsContext, IPoint, IRect } from '../graphics/IGraphicsContext'
+import { SVGPathData } from '../paths/SVGPathData'
 import { GraphicPrimitive } from './GraphicPrimitive'
 import type { IPathPrimitive } from './IGraphicPrimitive'
 
@@ -32,71 +33,55 @@ export class PathPrimitive extends GraphicPrimitive implements IPathPrimitive {
     this.applyTransform(context)
     this.applyStyle(context)
 
-    // 对于路径，我们需要解析SVG路径数据并转换为基本绘制操作
-    // 这里简化处理，只支持基本的直线路径
-    this.renderPathAsLines(context)
-
-    this.restoreTransform(context)
-  }
-
-  private renderPathAsLines(context: IGraphicsContext): void {
-    // 简化的路径解析，仅支持基本的 M, L 命令
-    const commands = this._pathData.match(/[MLZ][^MLZ]*/g) || []
-    const points: IPoint[] = []
-
-    for (const command of commands) {
-      const type = command[0]
-      const coords = command
-        .slice(1)
-        .trim()
-        .split(/[\s,]+/)
-        .map(Number)
-
-      switch (type) {
-        case 'M':
-        case 'L':
-          if (coords.length >= 2) {
-            const x = coords[0]
-            const y = coords[1]
-            if (typeof x === 'number' && typeof y === 'number' && !isNaN(x) && !isNaN(y)) {
-              points.push({ x, y })
-            }
-          }
-          break
-      }
+    const segments = SVGPathData.normalize(this._pathData)
+    context.beginPath()
+    SVGPathData.trace(context, segments)
+    if (this._style.fillColor) {
+      context.fill()
     }
-
-    // 绘制连续的线段
-    for (let i = 1; i < points.length; i++) {
-      const prevPoint = points[i - 1]
-      const currentPoint = points[i]
-      if (prevPoint && currentPoint) {
-        context.drawLine(prevPoint.x, prevPoint.y, currentPoint.x, currentPoint.y)
-      }
+    if (this._style.strokeColor && this._style.strokeWidth !== 0) {
+      context.stroke()
     }
+
+    this.restoreTransform(context)
   }
 
   getBounds(): IRect {
-    // 简化的边界框计算 - 实际实现需要解析路径数据
-    // 这里返回一个基于位置的默认边界框
-    const defaultSize = 100
+    // 路径数据位于本地坐标，偏移到图元位置
+    const bounds = SVGPathData.getBounds(SVGPathData.normalize(this._pathData))
     return {
-      x: this._position.x - defaultSize / 2,
-      y: this._position.y - defaultSize / 2,
-      width: defaultSize,
-      height: defaultSize,
+      x: this._position.x + bounds.x,
+      y: this._position.y + bounds.y,
+      width: bounds.width,
+      height: bounds.height,
     }
   }
 
   hitTest(point: IPoint): boolean {
-    // 简化的碰撞检测 - 实际实现需要路径的精确检测
-    const bounds = this.getBounds()
-    return (
-      point.x >= bounds.x &&
-      point.x <= bounds.x + bounds.width &&
-      point.y >= bounds.y &&
-      point.y <= bounds.y + bounds.height
-    )
+    const local = { x: point.x - this._position.x, y: point.y - this._position.y }
+    const segments = SVGPathData.normalize(this._pathData)
+    const halfWidth = (this._style.strokeWidth ?? 1) / 2
+
+    let inside = false
+    for (const { points, closed } of SVGPathData.flatten(segments)) {
+      for (let i = 0; i < points.length - (closed ? 0 : 1); i++) {
+        const a = points[i]
+        const b = points[(i + 1) % points.length]
+        if (distanceToSegment(local, a, b) <= halfWidth) return true
+      }
+      if (!this._style.fillColor) continue
+      for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const pi = points[i]
+        const pj = points[j]
+        if (
+          pi.y > local.y !== pj.y > local.y &&
+          local.x < ((pj.x - pi.x) * (local.y - pi.y)) / (pj.y - pi.y) + pi.x
+        ) {
+          inside = !inside
+        }
+      }
+    }
+    return inside
   }
 
   clone(): PathPrimitive {
@@ -136,3 +121,14 @@ export class PathPrimitive extends GraphicPrimitive implements IPathPrimitive {
     }
   }
 }
+
+function distanceToSegment(point: IPoint, a: IPoint, b: IPoint): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSq = dx * dx + dy * dy
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq))
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy))
+}
@@ -8,7 +8,8 @@ import {
   type RenderContext,
   type RendererCapabilities,
 } from '../core'
-import type { IColor, IGraphicsStyle, IPoint } from '../graphics/IGraphicsContext'
+import type { IColor, IGraphicsStyle, IPaint, IPoint } from '../graphics/IGraphicsContext'
+import { getRepresentativeColor } from '../graphics/Paint'
 import type {
   IDrawCircleOptions,
   IDrawImageOptions,
@@ -169,7 +170,9 @@ export abstract class RendererBase extends CoreBaseRenderer implements IRenderer
     return `rgba(${Math.round(color.r * 255)}, ${Math.round(color.g * 255)}, ${Math.round(color.b * 255)}, ${a})`
   }
 
-  protected parseColor(color: IColor | string): [number, number, number, number] {
+  protected parseColor(paint: IPaint): [number, number, number, number] {
+    // 渐变/图案取代表色
+    const color = getRepresentativeColor(paint) ?? '#000000'
     if (typeof color === 'string') {
       return this.parseColorString(color)
     }
@@ -213,7 +216,11 @@ export abstract class RendererBase extends CoreBaseRenderer implements IRenderer
   protected applyStyleFromOptions(options?: { style?: Partial<IGraphicsStyle> }): void {
     if (!options?.style) return
 
-    const { fillColor, strokeColor, lineWidth, opacity } = options.style
+    const { lineWidth, opacity } = options.style
+    // 渲染器只支持纯色，渐变/图案取代表色
+    const fillColor = options.style.fillColor && getRepresentativeColor(options.style.fillColor)
+    const strokeColor =
+      options.style.strokeColor && getRepresentativeColor(options.style.strokeColor)
     if (fillColor) this.setFillStyle(fillColor)
     if (strokeColor) this.setStrokeStyle(strokeColor)
     if (lineWidth !== undefined) this.setLineWidth(lineWidth)
@@ -1,5 +1,7 @@
 /**
  * 文本布局引擎
+ * 显式换行分段，段落内按单词换行：中日韩字符可任意断行，breakWord 时超长单词按字符断开；
+ * 行尾空白悬挂在行末，既不触发换行也不计入行宽
  */
 
 import type { TextMeasurement } from './TextMeasurement'
@@ -8,8 +10,14 @@ import type {
   TextFragment,
   TextLayoutOptions,
   TextLine,
+  TextStyle,
 } from './types/RichTextTypes'
 
+/** 中日韩字符单独成词，其余按空白与非空白切分 */
+const TOKEN =
+  /\s+|[\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]|[^\s\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]+/g
+const CJK_CHAR = /^[\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]$/
+
 /**
  * 文本布局引擎
  */
@@ -21,111 +29,206 @@ export class TextLayoutEngine {
   }
 
   /**
-   * 布局文本，返回文本行
+   * 布局文本，返回文本行；每个段落至少一行，段落之间的换行符不属于任何行
    */
   layoutText(document: RichTextDocument, options: TextLayoutOptions): TextLine[] {
     const lines: TextLine[] = []
-    const maxWidth = options.maxWidth || Infinity
-    const wordWrap = options.wordWrap !== false
-
-    let currentLine: TextLine = {
-      fragments: [],
-      width: 0,
-      height: 0,
-      baselineY: 0,
-      startIndex: 0,
-      endIndex: 0,
+    const maxWidth = (options.wordWrap !== false && options.maxWidth) || Infinity
+    const content = document.content
+
+    let paragraphStart = 0
+    while (paragraphStart <= content.length) {
+      const newline = content.indexOf('\n', paragraphStart)
+      const paragraphEnd = newline === -1 ? content.length : newline
+      lines.push(
+        ...this.layoutParagraph(
+          document,
+          paragraphStart,
+          paragraphEnd,
+          maxWidth,
+          !!options.breakWord
+        )
+      )
+      if (newline === -1 || (options.maxLines && lines.length >= options.maxLines)) break
+      paragraphStart = newline + 1
     }
 
-    let currentX = 0
-    let currentIndex = 0
-
-    for (const fragment of document.fragments) {
-      const words = wordWrap ? this.splitIntoWords(fragment) : [fragment]
-
-      for (const word of words) {
-        const wordWidth = this.measurement.measureFragmentWidth(word)
-        const wordHeight = this.measurement.getFragmentHeight(word)
-
-        if (wordWrap && currentX + wordWidth > maxWidth && currentLine.fragments.length > 0) {
-          this.finalizeLine(currentLine, currentIndex)
-          lines.push(currentLine)
-
-          currentLine = {
-            fragments: [],
-            width: 0,
-            height: 0,
-            baselineY: 0,
-            startIndex: currentIndex,
-            endIndex: currentIndex,
-          }
-          currentX = 0
-        }
+    return options.maxLines ? lines.slice(0, options.maxLines) : lines
+  }
 
-        currentLine.fragments.push(word)
-        currentLine.width = Math.max(currentLine.width, currentX + wordWidth)
-        currentLine.height = Math.max(currentLine.height, wordHeight)
+  /**
+   * 段落折行
+   */
+  private layoutParagraph(
+    document: RichTextDocument,
+    start: number,
+    end: number,
+    maxWidth: number,
+    breakWord: boolean
+  ): TextLine[] {
+    const lines: TextLine[] = []
+    const emptyStyle = this.getStyleAt(document, start)
+    let line = createLine(start)
+    let currentX = 0
 
-        currentX += wordWidth
-        currentIndex += word.text.length
+    const pushLine = (endIndex: number) => {
+      line.endIndex = endIndex
+      this.finalizeLine(line, emptyStyle)
+      lines.push(line)
+      line = createLine(endIndex)
+      currentX = 0
+    }
+    const append = (fragment: TextFragment) => {
+      line.fragments.push(fragment)
+      currentX += this.measurement.measureFragmentWidth(fragment)
+    }
 
-        if (options.maxLines && lines.length >= options.maxLines - 1) {
-          break
-        }
+    for (const unit of this.splitIntoUnits(document, start, end)) {
+      const whitespace = isWhitespace(unit[0].text)
+      const unitWidth = unit.reduce(
+        (sum, fragment) => sum + this.measurement.measureFragmentWidth(fragment),
+        0
+      )
+      if (!whitespace && currentX + unitWidth > maxWidth && hasContent(line)) {
+        pushLine(unit[0].startIndex)
       }
-
-      if (options.maxLines && lines.length >= options.maxLines) {
-        break
+      if (!whitespace && breakWord && unitWidth > maxWidth) {
+        // 超长单词按字符断开
+        for (const fragment of unit) {
+          for (let index = 0; index < fragment.text.length; index++) {
+            const char: TextFragment = {
+              text: fragment.text[index],
+              style: fragment.style,
+              startIndex: fragment.startIndex + index,
+              endIndex: fragment.startIndex + index + 1,
+            }
+            const charWidth = this.measurement.measureFragmentWidth(char)
+            if (currentX + charWidth > maxWidth && hasContent(line)) pushLine(char.startIndex)
+            append(char)
+          }
+        }
+        continue
       }
+      for (const fragment of unit) append(fragment)
     }
-
-    if (currentLine.fragments.length > 0) {
-      this.finalizeLine(currentLine, currentIndex)
-      lines.push(currentLine)
-    }
+    pushLine(end)
 
     return lines
   }
 
   /**
-   * 将文本片段分割为单词
+   * 将段落切分为断行单位，被样式拆开的单词合并为一个单位
    */
-  private splitIntoWords(fragment: TextFragment): TextFragment[] {
-    const words = fragment.text.split(/(\s+)/)
-    const result: TextFragment[] = []
-    let currentIndex = fragment.startIndex
-
-    for (const word of words) {
-      if (word) {
-        result.push({
-          text: word,
+  private splitIntoUnits(document: RichTextDocument, start: number, end: number): TextFragment[][] {
+    const units: TextFragment[][] = []
+    let previous: TextFragment | undefined
+
+    for (const fragment of document.fragments) {
+      const from = Math.max(fragment.startIndex, start)
+      const to = Math.min(fragment.endIndex, end)
+      if (from >= to) continue
+
+      const text = fragment.text.slice(from - fragment.startIndex, to - fragment.startIndex)
+      for (const match of text.matchAll(TOKEN)) {
+        const startIndex = from + (match.index ?? 0)
+        const word: TextFragment = {
+          text: match[0],
           style: fragment.style,
-          startIndex: currentIndex,
-          endIndex: currentIndex + word.length,
-        })
+          startIndex,
+          endIndex: startIndex + match[0].length,
+        }
+        const joined =
+          !!previous &&
+          previous.endIndex === startIndex &&
+          isWordToken(previous.text) &&
+          isWordToken(word.text)
+        if (joined) units[units.length - 1].push(word)
+        else units.push([word])
+        previous = word
       }
-      currentIndex += word.length
     }
 
-    return result
+    return units
   }
 
   /**
-   * 完成文本行的布局
+   * 偏移量处的样式，空行按其所在位置的样式确定行高
    */
-  private finalizeLine(line: TextLine, endIndex: number): void {
-    line.endIndex = endIndex
+  private getStyleAt(document: RichTextDocument, index: number): TextStyle {
+    const { fragments } = document
+    const fragment = fragments.find(
+      (candidate) => candidate.startIndex <= index && index < candidate.endIndex
+    )
+    return (fragment ?? fragments[fragments.length - 1])?.style ?? document.defaultStyle
+  }
 
+  /**
+   * 完成文本行的布局：合并相邻的同样式片段，计算行宽、行高与基线
+   */
+  private finalizeLine(line: TextLine, emptyStyle: TextStyle): void {
+    const fragments: TextFragment[] = []
+    for (const fragment of line.fragments) {
+      const previous = fragments[fragments.length - 1]
+      if (
+        previous &&
+        previous.style === fragment.style &&
+        previous.endIndex === fragment.startIndex
+      ) {
+        fragments[fragments.length - 1] = {
+          ...previous,
+          text: previous.text + fragment.text,
+          endIndex: fragment.endIndex,
+        }
+      } else {
+        fragments.push(fragment)
+      }
+    }
+    line.fragments = fragments
+
+    let currentX = 0
+    line.width = 0
+    for (const fragment of fragments) {
+      const trimmed = fragment.text.trimEnd()
+      if (trimmed) {
+        line.width =
+          currentX + this.measurement.measureFragmentWidth({ ...fragment, text: trimmed })
+      }
+      currentX += this.measurement.measureFragmentWidth(fragment)
+    }
+
+    const measured =
+      fragments.length > 0
+        ? fragments
+        : [{ text: '', style: emptyStyle, startIndex: line.startIndex, endIndex: line.endIndex }]
+    let height = 0
     let maxAscent = 0
     let maxDescent = 0
 
-    for (const fragment of line.fragments) {
+    for (const fragment of measured) {
       const metrics = this.measurement.getFragmentMetrics(fragment)
+      height = Math.max(height, this.measurement.getFragmentHeight(fragment))
       maxAscent = Math.max(maxAscent, metrics.ascent)
       maxDescent = Math.max(maxDescent, metrics.descent)
     }
 
-    line.height = maxAscent + maxDescent
-    line.baselineY = maxAscent
+    // 行高大于字形高度时，多出的行距在上下平分
+    line.height = Math.max(height, maxAscent + maxDescent)
+    line.baselineY = (line.height - maxAscent - maxDescent) / 2 + maxAscent
   }
 }
+
+function createLine(startIndex: number): TextLine {
+  return { fragments: [], width: 0, height: 0, baselineY: 0, startIndex, endIndex: startIndex }
+}
+
+function isWhitespace(text: string): boolean {
+  return /^\s/.test(text)
+}
+
+function isWordToken(text: string): boolean {
+  return !isWhitespace(text) && !CJK_CHAR.test(text)
+}
+
+function hasContent(line: TextLine): boolean {
+  return line.fragments.some((fragment) => !isWhitespace(fragment.text))
+}
@@ -4,6 +4,10 @@
 
 import type { FontWeight, TextFragment, TextStyle } from './types/RichTextTypes'
 
+/** 无法测量时按字号估算字符宽度 */
+const CHAR_WIDTH_FACTOR = 0.6
+const MEASUREMENT_CACHE_LIMIT = 2000
+
 /**
  * 文本测量缓存
  */
@@ -15,12 +19,13 @@ export interface MeasurementCache {
 
 /**
  * 文本测量器
+ * 没有 Canvas 2D 上下文（如非浏览器环境）或测量结果无效时按字号估算宽度
  */
 export class TextMeasurement {
   private measurementCache: Map<string, MeasurementCache> = new Map()
-  private tempContext: CanvasRenderingContext2D
+  private tempContext: CanvasRenderingContext2D | null
 
-  constructor(tempContext: CanvasRenderingContext2D) {
+  constructor(tempContext: CanvasRenderingContext2D | null) {
     this.tempContext = tempContext
   }
 
@@ -37,6 +42,7 @@ export class TextMeasurement {
 
     const width = this.measureTextWidth(fragment.text, fragment.style) || 0
 
+    if (this.measurementCache.size >= MEASUREMENT_CACHE_LIMIT) this.measurementCache.clear()
     this.measurementCache.set(cacheKey, { key: cacheKey, width, height: 0 })
     return width
   }
@@ -61,9 +67,15 @@ export class TextMeasurement {
   measureTextWidth(text: string, style: TextStyle | undefined): number {
     if (!text) return 0
 
-    this.setFont(style)
-    const metrics = this.tempContext.measureText(text)
-    return metrics.width || 0
+    let width = 0
+    if (this.tempContext) {
+      this.setFont(style)
+      width = this.tempContext.measureText(text).width
+    }
+    if (!Number.isFinite(width) || width <= 0) {
+      width = text.length * (style?.fontSize || 16) * CHAR_WIDTH_FACTOR
+    }
+    return width
   }
 
   /**
@@ -82,6 +94,9 @@ export class TextMeasurement {
    * 测量片段
    */
   measureFragment(fragment: TextFragment): TextMetrics {
+    if (!this.tempContext) {
+      return { width: this.measureFragmentWidth(fragment) } as TextMetrics
+    }
     this.setFont(fragment.style)
     return this.tempContext.measureText(fragment.text)
   }
@@ -133,6 +148,7 @@ export class TextMeasurement {
    * 设置字体样式
    */
   setFont(style: TextStyle | undefined): void {
+    if (!this.tempContext) return
     if (!style) {
       style = {}
     }
@@ -11,6 +11,9 @@ export { createFontManager, FontManager, globalFontManager } from './FontManager
 export { createRichTextParser, RichTextParser } from './RichTextParser'
 // 富文本渲染器
 export { createRichTextRenderer, RichTextRenderer } from './RichTextRenderer'
+// 文本布局与测量
+export { TextLayoutEngine } from './TextLayoutEngine'
+export { TextMeasurement } from './TextMeasurement'
 // 字体类型定义
 export * from './types/FontTypes'
 // 国际化文本类型定义
@@ -18,12 +21,13 @@ export type {
   CharacterMetrics as I18nCharacterMetrics,
   TextDirection,
 } from './types/I18nTextTypes'
-// 富文本类型定义
+// 富文本类型定义（FontStyle 与 FontWeight 枚举随字体类型导出）
 export type {
-  FontStyle,
-  FontWeight,
+  RichTextDocument,
   TextAlign,
   TextDecoration,
+  TextFragment,
+  TextLayoutOptions,
   TextLine,
   TextStyle,
   TextTransform,
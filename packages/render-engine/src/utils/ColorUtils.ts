@@ -33,6 +33,13 @@ export interface NormalizedRGBAColor {
   a: number // 0-1
 }
 
+export interface OklabColor {
+  l: number // 0-1
+  a: number
+  b: number
+  alpha: number // 0-1
+}
+
 /**
  * 解析颜色字符串为RGBA格式
  * 支持格式：#RGB, #RRGGBB, #RRGGBBAA, rgb(), rgba(), hsl(), hsla(), 命名颜色
@@ -114,7 +121,10 @@ function parseRgbColor(rgb: string): RGBAColor {
     r: Math.round(clamp(values[0] || 0, 0, 255)),
     g: Math.round(clamp(values[1] || 0, 0, 255)),
     b: Math.round(clamp(values[2] || 0, 0, 255)),
-    a: values.length > 3 ? Math.round(clamp(values[3] || 1, 0, 1) * 255) : 255,
+    a:
+      values.length > 3
+        ? Math.round(clamp(Number.isNaN(values[3]) ? 1 : values[3], 0, 1) * 255)
+        : 255,
   }
 }
 
@@ -129,7 +139,8 @@ function parseHslColor(hsl: string): RGBAColor {
   const h = parseFloat(values[0]) || 0
   const s = parseFloat(values[1]?.replace('%', '')) || 0
   const l = parseFloat(values[2]?.replace('%', '')) || 0
-  const a = values.length > 3 ? parseFloat(values[3]) || 1 : 1
+  const alpha = values.length > 3 ? parseFloat(values[3]) : 1
+  const a = Number.isNaN(alpha) ? 1 : alpha
 
   const rgb = hslToRgb(h, s, l)
   return { ...rgb, a: Math.round(clamp(a, 0, 1) * 255) }
@@ -432,6 +443,66 @@ export function lerpColor(color1: RGBAColor, color2: RGBAColor, t: number): RGBA
   }
 }
 
+/**
+ * 转换为 Oklab 感知均匀色彩空间
+ * @param color RGBA颜色对象（sRGB）
+ * @returns Oklab颜色对象
+ */
+export function rgbToOklab(color: RGBAColor): OklabColor {
+  const r = srgbToLinear(color.r / 255)
+  const g = srgbToLinear(color.g / 255)
+  const b = srgbToLinear(color.b / 255)
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+    alpha: color.a / 255,
+  }
+}
+
+/**
+ * 从 Oklab 转换回 sRGB，超出色域的分量被截断
+ * @param color Oklab颜色对象
+ * @returns RGBA颜色对象
+ */
+export function oklabToRgb(color: OklabColor): RGBAColor {
+  const l = (color.l + 0.3963377774 * color.a + 0.2158037573 * color.b) ** 3
+  const m = (color.l - 0.1055613458 * color.a - 0.0638541728 * color.b) ** 3
+  const s = (color.l - 0.0894841775 * color.a - 1.291485548 * color.b) ** 3
+
+  return denormalizeColor({
+    r: linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+    a: color.alpha,
+  })
+}
+
+/**
+ * 在 Oklab 空间中插值，中间色的明度与饱和度变化均匀，不会像 sRGB 插值那样发灰
+ * @param color1 起始颜色
+ * @param color2 结束颜色
+ * @param t 插值因子 (0-1)
+ * @returns 插值后的颜色
+ */
+export function lerpColorOklab(color1: RGBAColor, color2: RGBAColor, t: number): RGBAColor {
+  const factor = clamp(t, 0, 1)
+  const from = rgbToOklab(color1)
+  const to = rgbToOklab(color2)
+
+  return oklabToRgb({
+    l: lerp(from.l, to.l, factor),
+    a: lerp(from.a, to.a, factor),
+    b: lerp(from.b, to.b, factor),
+    alpha: lerp(from.alpha, to.alpha, factor),
+  })
+}
+
 /**
  * 颜色混合
  * @param baseColor 基础颜色
@@ -566,6 +637,14 @@ export function colorToCss(
 }
 
 // 辅助函数
+function srgbToLinear(value: number): number {
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+}
+
+function linearToSrgb(value: number): number {
+  return value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055
+}
+
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value))
 }
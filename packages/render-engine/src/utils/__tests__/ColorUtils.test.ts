@@ -0,0 +1,59 @@
+/**
+ * ColorUtils Oklab 转换与插值测试
+ */
+
+import { describe, expect, it } from 'vitest'
+import { lerpColor, lerpColorOklab, oklabToRgb, type RGBAColor, rgbToOklab } from '../ColorUtils'
+
+const rgba = (r: number, g: number, b: number, a = 255): RGBAColor => ({ r, g, b, a })
+
+describe('Oklab', () => {
+  it('should convert sRGB to the reference Oklab values', () => {
+    const red = rgbToOklab(rgba(255, 0, 0))
+    expect(red.l).toBeCloseTo(0.628, 3)
+    expect(red.a).toBeCloseTo(0.2249, 3)
+    expect(red.b).toBeCloseTo(0.1258, 3)
+    expect(red.alpha).toBe(1)
+
+    const white = rgbToOklab(rgba(255, 255, 255))
+    expect(white.l).toBeCloseTo(1, 4)
+    expect(white.a).toBeCloseTo(0, 4)
+    expect(white.b).toBeCloseTo(0, 4)
+  })
+
+  it('should round-trip sRGB colors through Oklab', () => {
+    const colors = [
+      rgba(0, 0, 0),
+      rgba(255, 255, 255),
+      rgba(255, 0, 0),
+      rgba(0, 255, 0),
+      rgba(0, 0, 255),
+      rgba(18, 52, 86, 128),
+      rgba(250, 128, 114, 0),
+    ]
+
+    for (const color of colors) {
+      expect(oklabToRgb(rgbToOklab(color))).toEqual(color)
+    }
+  })
+
+  it('should interpolate midpoints in perceptual space', () => {
+    // 感知上的中灰比 sRGB 中点更暗
+    expect(lerpColorOklab(rgba(0, 0, 0), rgba(255, 255, 255, 0), 0.5)).toEqual(
+      rgba(99, 99, 99, 128)
+    )
+    // 红蓝中点不像 sRGB 插值那样发暗
+    expect(lerpColorOklab(rgba(255, 0, 0), rgba(0, 0, 255), 0.5)).toEqual(rgba(140, 83, 162))
+    expect(lerpColor(rgba(255, 0, 0), rgba(0, 0, 255), 0.5)).toEqual(rgba(128, 0, 128))
+  })
+
+  it('should return the endpoints and clamp the factor', () => {
+    const from = rgba(255, 0, 0)
+    const to = rgba(0, 128, 255)
+
+    expect(lerpColorOklab(from, to, 0)).toEqual(from)
+    expect(lerpColorOklab(from, to, 1)).toEqual(to)
+    expect(lerpColorOklab(from, to, -1)).toEqual(from)
+    expect(lerpColorOklab(from, to, 2)).toEqual(to)
+  })
+})
@@ -1,6 +1,7 @@
 import type React from 'react'
 import { useState } from 'react'
 import Canvas from './components/Canvas/Canvas'
+import HistoryPanel from './components/HistoryPanel/HistoryPanel'
 import Inspector from './components/Inspector/Inspector'
 import LayersPanel from './components/LayersPanel/LayersPanel'
 import StatusBar from './components/StatusBar/StatusBar'
@@ -11,6 +12,7 @@ const App: React.FC = () => {
   const { theme } = useCanvasStore()
   const [showInspector, setShowInspector] = useState(true)
   const [showLayers, setShowLayers] = useState(true)
+  const [showHistory, setShowHistory] = useState(false)
 
   return (
     <div className={`h-screen flex flex-col ${theme === 'dark' ? 'dark' : ''}`}>
@@ -56,6 +58,17 @@ const App: React.FC = () => {
           >
             属性
           </button>
+          <button
+            type="button"
+            onClick={() => setShowHistory(!showHistory)}
+            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${
+              showHistory
+                ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300'
+                : 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'
+            }`}
+          >
+            历史
+          </button>
         </div>
       </header>
 
@@ -79,6 +92,13 @@ const App: React.FC = () => {
             <Inspector />
           </aside>
         )}
+
+        {/* 右侧历史记录面板 */}
+        {showHistory && (
+          <aside className="flex-shrink-0 w-56 bg-white border-l border-gray-200 dark:bg-gray-900 dark:border-gray-700">
+            <HistoryPanel />
+          </aside>
+        )}
       </div>
 
       {/* 底部状态栏 */}
@@ -1,13 +1,17 @@
 import type React from 'react'
 import { useEffect, useRef } from 'react'
+import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts'
 import { useCanvasStore } from '../../store/canvasStore'
 import { useSDKStore } from '../../store/sdkStore'
+import EyedropperLoupe from './EyedropperLoupe'
+import TextEditorInput from './TextEditorInput'
 
 const Canvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null)
 
   const { isInitialized, initialize, setTool } = useSDKStore()
   const { selectedTool } = useCanvasStore()
+  useKeyboardShortcuts()
 
   useEffect(() => {
     const canvas = canvasRef.current
@@ -46,6 +50,9 @@ const Canvas: React.FC = () => {
       image: 'image',
       eraser: 'eraser',
       eyedropper: 'eyedropper',
+      sticky: 'sticky',
+      link: 'link',
+      frame: 'frame',
     }
 
     const toolName = toolNameMap[selectedTool] || 'draw'
@@ -92,6 +99,8 @@ const Canvas: React.FC = () => {
         height={600}
         style={{ cursor: getCursor() }}
       />
+      {isInitialized && selectedTool === 'eyedropper' && <EyedropperLoupe />}
+      {isInitialized && selectedTool === 'text' && <TextEditorInput />}
     </div>
   )
 }
@@ -0,0 +1,74 @@
+import type { IEyedropperToolState } from '@sky-canvas/canvas-sdk'
+import { useMemo } from 'react'
+import { proxy, useSnapshot } from 'valtio'
+import { useSDKStore } from '../../store/sdkStore'
+
+const CELL_SIZE = 10
+const CURSOR_OFFSET = 20
+
+const emptyState = proxy<Partial<IEyedropperToolState>>({})
+
+/**
+ * 取色器放大镜：显示光标周围放大的像素网格、当前颜色与最近使用的颜色
+ */
+export function EyedropperLoupe() {
+  const { getToolManager } = useSDKStore()
+  const toolState = useMemo(() => {
+    const viewModel = getToolManager().getToolViewModel('eyedropper') as
+      | { state: IEyedropperToolState }
+      | undefined
+    return viewModel?.state ?? emptyState
+  }, [getToolManager])
+  const { loupe, recentColors } = useSnapshot(toolState)
+
+  if (!loupe) return null
+
+  const center = Math.floor(loupe.size / 2)
+  return (
+    <div
+      className="absolute pointer-events-none rounded-md shadow-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 p-1"
+      style={{ left: loupe.x + CURSOR_OFFSET, top: loupe.y + CURSOR_OFFSET }}
+    >
+      <div
+        className="grid"
+        style={{ gridTemplateColumns: `repeat(${loupe.size}, ${CELL_SIZE}px)` }}
+      >
+        {loupe.pixels.map((color, index) => {
+          const row = Math.floor(index / loupe.size)
+          const col = index % loupe.size
+          return (
+            <div
+              key={`${row}-${col}`}
+              style={{
+                width: CELL_SIZE,
+                height: CELL_SIZE,
+                background: color,
+                outline: row === center && col === center ? '1px solid #ef4444' : undefined,
+              }}
+            />
+          )
+        })}
+      </div>
+      <div className="flex items-center gap-1 mt-1 text-xs text-gray-700 dark:text-gray-300">
+        <span
+          className="w-3 h-3 rounded-sm border border-gray-300"
+          style={{ background: loupe.color }}
+        />
+        <span className="font-mono">{loupe.color}</span>
+      </div>
+      {recentColors && recentColors.length > 0 && (
+        <div className="flex gap-0.5 mt-1">
+          {recentColors.slice(0, 8).map((color) => (
+            <span
+              key={color}
+              className="w-3 h-3 rounded-sm border border-gray-300"
+              style={{ background: color }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default EyedropperLoupe
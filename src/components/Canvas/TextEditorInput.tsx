@@ -0,0 +1,65 @@
+import type { ITextToolState, ITextToolViewModel } from '@sky-canvas/canvas-sdk'
+import { useEffect, useMemo, useRef } from 'react'
+import { proxy, useSnapshot } from 'valtio'
+import { useSDKStore } from '../../store/sdkStore'
+
+const emptyState = proxy<Partial<ITextToolState>>({})
+
+/**
+ * 画布内文本编辑的隐藏输入框：跟随光标位置以便输入法候选框就近弹出，
+ * 字符与输入法组合内容转发给文本工具，编辑键由工具的 handleKeyDown 处理
+ */
+export function TextEditorInput() {
+  const { getToolManager } = useSDKStore()
+  const viewModel = useMemo(
+    () => getToolManager().getToolViewModel('text') as ITextToolViewModel | undefined,
+    [getToolManager]
+  )
+  const { isEditing, caretRect } = useSnapshot(viewModel?.state ?? emptyState)
+  const inputRef = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    if (isEditing) inputRef.current?.focus()
+  }, [isEditing])
+
+  if (!viewModel || !isEditing || !caretRect) return null
+
+  return (
+    <textarea
+      ref={inputRef}
+      aria-label="Text editor"
+      className="absolute resize-none overflow-hidden border-0 p-0 bg-transparent outline-none"
+      style={{
+        left: caretRect.x,
+        top: caretRect.y,
+        width: 1,
+        height: caretRect.height,
+        opacity: 0,
+        caretColor: 'transparent',
+      }}
+      onInput={(event) => {
+        const native = event.nativeEvent as InputEvent
+        if (native.isComposing) return
+        viewModel.insertText(event.currentTarget.value)
+        event.currentTarget.value = ''
+      }}
+      onCompositionStart={() => viewModel.startComposition()}
+      onCompositionUpdate={(event) => viewModel.updateComposition(event.data)}
+      onCompositionEnd={(event) => {
+        viewModel.endComposition(event.data)
+        event.currentTarget.value = ''
+      }}
+      onBlur={() => {
+        // 点击画布会让输入框失焦，焦点未移到其他控件时重新聚焦，提交由文本工具自行处理
+        requestAnimationFrame(() => {
+          const active = document.activeElement
+          if (!viewModel.state.isEditing) return
+          if (!active || active === document.body) inputRef.current?.focus()
+          else viewModel.commitText()
+        })
+      }}
+    />
+  )
+}
+
+export default TextEditorInput
@@ -0,0 +1,51 @@
+import { History } from 'lucide-react'
+import { useSDKStore } from '../../store/sdkStore'
+
+/**
+ * 历史记录面板：列出每一步撤销记录，点击任意一步直接跳转
+ */
+export function HistoryPanel() {
+  const { historyLabels, historyIndex, goToHistory } = useSDKStore()
+
+  const renderItem = (index: number, label: string) => {
+    const isCurrent = index === historyIndex
+    const isUndone = index > historyIndex
+    return (
+      <button
+        key={index}
+        type="button"
+        onClick={() => goToHistory(index)}
+        className={`
+          w-full px-3 py-1.5 text-left text-sm truncate border-l-2 transition-colors
+          ${
+            isCurrent
+              ? 'bg-blue-50 dark:bg-blue-900/30 border-l-blue-500 text-gray-800 dark:text-gray-200'
+              : 'border-l-transparent text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800/50'
+          }
+          ${isUndone ? 'opacity-50' : ''}
+        `}
+      >
+        {label}
+      </button>
+    )
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <span className="flex items-center gap-1.5 text-sm font-medium text-gray-700 dark:text-gray-300">
+          <History size={14} />
+          历史记录
+        </span>
+        <span className="text-xs text-gray-400">{historyLabels.length}</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {renderItem(-1, '初始状态')}
+        {historyLabels.map((label, index) => renderItem(index, label))}
+      </div>
+    </div>
+  )
+}
+
+export default HistoryPanel
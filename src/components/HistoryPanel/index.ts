@@ -0,0 +1 @@
+export { default, HistoryPanel } from './HistoryPanel'
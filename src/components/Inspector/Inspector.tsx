@@ -1,5 +1,11 @@
-import type { ShapeEntity } from '@sky-canvas/canvas-sdk'
-import { ChevronDown, ChevronRight } from 'lucide-react'
+import {
+  createGradientStop,
+  createShapeEffect,
+  type ShapeEffect,
+  type ShapeEntity,
+  type StylePaint,
+} from '@sky-canvas/canvas-sdk'
+import { ChevronDown, ChevronRight, Plus, X } from 'lucide-react'
 import type React from 'react'
 import { useCallback, useMemo, useState } from 'react'
 import { useSDKStore } from '../../store/sdkStore'
@@ -63,6 +69,396 @@ function NumberInput({ label, value, onChange, min, max, step = 1, unit }: Numbe
   )
 }
 
+type PaintKind = 'solid' | StylePaint['type']
+
+const PAINT_KIND_LABELS: Record<PaintKind, string> = {
+  solid: '纯色',
+  'linear-gradient': '线性渐变',
+  'radial-gradient': '径向渐变',
+  'conic-gradient': '锥形渐变',
+  pattern: '图案',
+}
+
+const inputClassName =
+  'px-1.5 py-0.5 text-xs border rounded bg-white dark:bg-gray-800 dark:border-gray-600'
+
+interface PaintEditorProps {
+  color: string
+  paint?: StylePaint
+  onColorChange: (value: string) => void
+  onPaintChange: (paint: StylePaint | undefined) => void
+}
+
+/**
+ * 填充/描边编辑：纯色、渐变（色标、角度）与图案（图片地址、图块尺寸、平铺方式）
+ */
+function PaintEditor({ color, paint, onColorChange, onPaintChange }: PaintEditorProps) {
+  const kind: PaintKind = paint?.type ?? 'solid'
+
+  const changeKind = (next: PaintKind) => {
+    if (next === kind) return
+    if (next === 'solid') {
+      onPaintChange(undefined)
+    } else if (next === 'pattern') {
+      onPaintChange({ type: 'pattern', src: '', width: 64, height: 64, repetition: 'repeat' })
+    } else {
+      // 渐变间切换保留色标，从纯色切换时以当前颜色为起点
+      const stops =
+        paint && paint.type !== 'pattern'
+          ? paint.stops
+          : [createGradientStop(0, color || '#000000'), createGradientStop(1, '#ffffff')]
+      onPaintChange({ type: next, stops, angle: paint?.type !== 'pattern' ? paint?.angle : 0 })
+    }
+  }
+
+  return (
+    <>
+      <div className="flex justify-between items-center py-1">
+        <span className="text-xs text-gray-500 dark:text-gray-400">类型</span>
+        <select
+          value={kind}
+          onChange={(e) => changeKind(e.target.value as PaintKind)}
+          className={`w-24 ${inputClassName}`}
+        >
+          {(Object.keys(PAINT_KIND_LABELS) as PaintKind[]).map((value) => (
+            <option key={value} value={value}>
+              {PAINT_KIND_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {!paint && <ColorInput label="颜色" value={color} onChange={onColorChange} />}
+
+      {paint && paint.type !== 'pattern' && (
+        <>
+          {paint.type !== 'radial-gradient' && (
+            <NumberInput
+              label="角度"
+              value={Math.round(((paint.angle ?? 0) * 180) / Math.PI)}
+              onChange={(v) => onPaintChange({ ...paint, angle: (v * Math.PI) / 180 })}
+              min={-360}
+              max={360}
+              unit="°"
+            />
+          )}
+          {paint.stops.map((stop, index) => (
+            <div key={stop.id} className="flex gap-1 items-center py-1">
+              <input
+                type="color"
+                value={stop.color}
+                onChange={(e) =>
+                  onPaintChange({
+                    ...paint,
+                    stops: paint.stops.map((s, i) =>
+                      i === index ? { ...s, color: e.target.value } : s
+                    ),
+                  })
+                }
+                className="w-6 h-6 rounded border cursor-pointer"
+              />
+              <input
+                type="number"
+                value={Math.round(stop.offset * 100)}
+                onChange={(e) =>
+                  onPaintChange({
+                    ...paint,
+                    stops: paint.stops.map((s, i) =>
+                      i === index
+                        ? {
+                            ...s,
+                            offset: Math.min(
+                              1,
+                              Math.max(0, (parseFloat(e.target.value) || 0) / 100)
+                            ),
+                          }
+                        : s
+                    ),
+                  })
+                }
+                min={0}
+                max={100}
+                className={`flex-1 text-right ${inputClassName}`}
+              />
+              <span className="w-4 text-xs text-gray-400">%</span>
+              <button
+                type="button"
+                disabled={paint.stops.length <= 2}
+                onClick={() =>
+                  onPaintChange({ ...paint, stops: paint.stops.filter((_, i) => i !== index) })
+                }
+                className="p-0.5 text-gray-400 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+                title="删除色标"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() =>
+              onPaintChange({
+                ...paint,
+                stops: [
+                  ...paint.stops,
+                  createGradientStop(1, paint.stops[paint.stops.length - 1]?.color ?? '#ffffff'),
+                ],
+              })
+            }
+            className="flex gap-1 items-center py-1 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+          >
+            <Plus size={12} />
+            添加色标
+          </button>
+        </>
+      )}
+
+      {paint?.type === 'pattern' && (
+        <>
+          <div className="flex justify-between items-center py-1">
+            <span className="text-xs text-gray-500 dark:text-gray-400">图片</span>
+            <input
+              type="text"
+              value={paint.src}
+              onChange={(e) => onPaintChange({ ...paint, src: e.target.value })}
+              className={`w-32 ${inputClassName}`}
+              placeholder="https://..."
+            />
+          </div>
+          <NumberInput
+            label="图块宽度"
+            value={paint.width}
+            onChange={(v) => onPaintChange({ ...paint, width: Math.max(1, v) })}
+            min={1}
+            unit="px"
+          />
+          <NumberInput
+            label="图块高度"
+            value={paint.height}
+            onChange={(v) => onPaintChange({ ...paint, height: Math.max(1, v) })}
+            min={1}
+            unit="px"
+          />
+          <div className="flex justify-between items-center py-1">
+            <span className="text-xs text-gray-500 dark:text-gray-400">平铺</span>
+            <select
+              value={paint.repetition ?? 'repeat'}
+              onChange={(e) =>
+                onPaintChange({
+                  ...paint,
+                  repetition: e.target.value as NonNullable<typeof paint.repetition>,
+                })
+              }
+              className={`w-24 ${inputClassName}`}
+            >
+              <option value="repeat">双向</option>
+              <option value="repeat-x">水平</option>
+              <option value="repeat-y">垂直</option>
+              <option value="no-repeat">不重复</option>
+            </select>
+          </div>
+        </>
+      )}
+    </>
+  )
+}
+
+const EFFECT_LABELS: Record<ShapeEffect['type'], string> = {
+  'drop-shadow': '投影',
+  'inner-shadow': '内阴影',
+  blur: '模糊',
+  glow: '发光',
+  brightness: '亮度',
+  contrast: '对比度',
+  saturation: '饱和度',
+  'hue-rotate': '色相',
+  grayscale: '灰度',
+}
+
+function createEffect(type: ShapeEffect['type']): ShapeEffect {
+  switch (type) {
+    case 'drop-shadow':
+    case 'inner-shadow':
+      return createShapeEffect({
+        type,
+        offsetX: 4,
+        offsetY: 4,
+        blur: 8,
+        color: '#000000',
+        opacity: 0.5,
+      })
+    case 'blur':
+      return createShapeEffect({ type, radius: 4 })
+    case 'glow':
+      return createShapeEffect({ type, color: '#ffcc00', blur: 10, strength: 1 })
+    case 'grayscale':
+      return createShapeEffect({ type, value: 1 })
+    default:
+      return createShapeEffect({ type, value: 0 })
+  }
+}
+
+interface EffectsEditorProps {
+  effects: ShapeEffect[]
+  onChange: (effects: ShapeEffect[] | undefined) => void
+}
+
+/**
+ * 效果列表：按顺序叠加，可添加、删除、临时停用并编辑参数
+ */
+function EffectsEditor({ effects, onChange }: EffectsEditorProps) {
+  const update = (index: number, effect: ShapeEffect) =>
+    onChange(effects.map((item, i) => (i === index ? effect : item)))
+  const remove = (index: number) => {
+    const next = effects.filter((_, i) => i !== index)
+    onChange(next.length > 0 ? next : undefined)
+  }
+
+  return (
+    <>
+      {effects.map((effect, index) => (
+        <div key={effect.id} className="py-1 border-b border-gray-100 dark:border-gray-800">
+          <div className="flex justify-between items-center py-1">
+            <label className="flex gap-1 items-center text-xs text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={effect.enabled !== false}
+                onChange={(e) => update(index, { ...effect, enabled: e.target.checked })}
+              />
+              {EFFECT_LABELS[effect.type]}
+            </label>
+            <button
+              type="button"
+              onClick={() => remove(index)}
+              className="p-0.5 text-gray-400 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+              title="删除效果"
+            >
+              <X size={12} />
+            </button>
+          </div>
+          {(effect.type === 'drop-shadow' || effect.type === 'inner-shadow') && (
+            <>
+              <NumberInput
+                label="X 偏移"
+                value={effect.offsetX}
+                onChange={(v) => update(index, { ...effect, offsetX: v })}
+                unit="px"
+              />
+              <NumberInput
+                label="Y 偏移"
+                value={effect.offsetY}
+                onChange={(v) => update(index, { ...effect, offsetY: v })}
+                unit="px"
+              />
+              <NumberInput
+                label="模糊"
+                value={effect.blur}
+                onChange={(v) => update(index, { ...effect, blur: Math.max(0, v) })}
+                min={0}
+                unit="px"
+              />
+              <ColorInput
+                label="颜色"
+                value={effect.color}
+                onChange={(v) => update(index, { ...effect, color: v })}
+              />
+              <NumberInput
+                label="不透明度"
+                value={effect.opacity ?? 1}
+                onChange={(v) => update(index, { ...effect, opacity: v })}
+                min={0}
+                max={1}
+                step={0.1}
+              />
+            </>
+          )}
+          {effect.type === 'blur' && (
+            <NumberInput
+              label="半径"
+              value={effect.radius}
+              onChange={(v) => update(index, { ...effect, radius: Math.max(0, v) })}
+              min={0}
+              unit="px"
+            />
+          )}
+          {effect.type === 'glow' && (
+            <>
+              <ColorInput
+                label="颜色"
+                value={effect.color}
+                onChange={(v) => update(index, { ...effect, color: v })}
+              />
+              <NumberInput
+                label="模糊"
+                value={effect.blur}
+                onChange={(v) => update(index, { ...effect, blur: Math.max(0, v) })}
+                min={0}
+                unit="px"
+              />
+              <NumberInput
+                label="强度"
+                value={effect.strength}
+                onChange={(v) => update(index, { ...effect, strength: Math.max(0, v) })}
+                min={0}
+                step={0.1}
+              />
+            </>
+          )}
+          {(effect.type === 'brightness' ||
+            effect.type === 'contrast' ||
+            effect.type === 'saturation') && (
+            <NumberInput
+              label="数值"
+              value={effect.value}
+              onChange={(v) => update(index, { ...effect, value: v })}
+              min={-100}
+              max={100}
+            />
+          )}
+          {effect.type === 'hue-rotate' && (
+            <NumberInput
+              label="角度"
+              value={effect.value}
+              onChange={(v) => update(index, { ...effect, value: v })}
+              min={-360}
+              max={360}
+              unit="°"
+            />
+          )}
+          {effect.type === 'grayscale' && (
+            <NumberInput
+              label="程度"
+              value={effect.value}
+              onChange={(v) => update(index, { ...effect, value: v })}
+              min={0}
+              max={1}
+              step={0.1}
+            />
+          )}
+        </div>
+      ))}
+      <div className="flex justify-between items-center py-1">
+        <span className="text-xs text-gray-500 dark:text-gray-400">添加</span>
+        <select
+          value=""
+          onChange={(e) =>
+            e.target.value &&
+            onChange([...effects, createEffect(e.target.value as ShapeEffect['type'])])
+          }
+          className={`w-24 ${inputClassName}`}
+        >
+          <option value="">选择效果</option>
+          {(Object.keys(EFFECT_LABELS) as ShapeEffect['type'][]).map((value) => (
+            <option key={value} value={value}>
+              {EFFECT_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+    </>
+  )
+}
+
 interface PropertyGroupProps {
   title: string
   children: React.ReactNode
@@ -151,7 +547,7 @@ export function Inspector() {
   )
 
   const updateStyle = useCallback(
-    (property: string, value: string | number) => {
+    (property: string, value: string | number | StylePaint | undefined) => {
       if (!selectedShape) return
       handleUpdateShape({
         style: {
@@ -251,10 +647,11 @@ export function Inspector() {
         )}
 
         <PropertyGroup title="填充">
-          <ColorInput
-            label="颜色"
-            value={selectedShape.style.fillColor || ''}
-            onChange={(v) => updateStyle('fillColor', v)}
+          <PaintEditor
+            color={selectedShape.style.fillColor || ''}
+            paint={selectedShape.style.fillPaint}
+            onColorChange={(v) => updateStyle('fillColor', v)}
+            onPaintChange={(paint) => updateStyle('fillPaint', paint)}
           />
           <NumberInput
             label="透明度"
@@ -267,10 +664,11 @@ export function Inspector() {
         </PropertyGroup>
 
         <PropertyGroup title="描边">
-          <ColorInput
-            label="颜色"
-            value={selectedShape.style.strokeColor || ''}
-            onChange={(v) => updateStyle('strokeColor', v)}
+          <PaintEditor
+            color={selectedShape.style.strokeColor || ''}
+            paint={selectedShape.style.strokePaint}
+            onColorChange={(v) => updateStyle('strokeColor', v)}
+            onPaintChange={(paint) => updateStyle('strokePaint', paint)}
           />
           <NumberInput
             label="宽度"
@@ -282,6 +680,13 @@ export function Inspector() {
           />
         </PropertyGroup>
 
+        <PropertyGroup title="效果">
+          <EffectsEditor
+            effects={selectedShape.effects ?? []}
+            onChange={(effects) => handleUpdateShape({ effects })}
+          />
+        </PropertyGroup>
+
         <PropertyGroup title="图层">
           <NumberInput
             label="层级"
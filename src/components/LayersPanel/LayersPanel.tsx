@@ -3,6 +3,7 @@ import { Eye, EyeOff, Lock, Trash2, Unlock } from 'lucide-react'
 import type React from 'react'
 import { useCallback, useMemo } from 'react'
 import { useSDKStore } from '../../store/sdkStore'
+import { SceneLayerList } from './SceneLayerList'
 
 const SHAPE_ICONS: Record<string, string> = {
   rectangle: '▢',
@@ -11,6 +12,9 @@ const SHAPE_ICONS: Record<string, string> = {
   text: 'T',
   path: '⌇',
   diamond: '◇',
+  sticky: '▤',
+  link: '⛓',
+  frame: '⌗',
 }
 
 interface LayerItemProps {
@@ -157,6 +161,8 @@ export function LayersPanel() {
 
   return (
     <div className="h-full flex flex-col">
+      <SceneLayerList />
+
       <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
         <span className="text-sm font-medium text-gray-700 dark:text-gray-300">图层</span>
         <span className="text-xs text-gray-400">{shapes.length}</span>
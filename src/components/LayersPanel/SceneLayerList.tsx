@@ -0,0 +1,180 @@
+import { BLEND_MODES, type BlendMode, type ILayerInfo } from '@sky-canvas/canvas-sdk'
+import { Eye, EyeOff, FolderPlus, Plus } from 'lucide-react'
+import { useMemo } from 'react'
+import { useSDKStore } from '../../store/sdkStore'
+
+const BLEND_MODE_LABELS: Record<BlendMode, string> = {
+  normal: '正常',
+  multiply: '正片叠底',
+  screen: '滤色',
+  overlay: '叠加',
+  darken: '变暗',
+  lighten: '变亮',
+  'color-dodge': '颜色减淡',
+  'color-burn': '颜色加深',
+  'hard-light': '强光',
+  'soft-light': '柔光',
+  difference: '差值',
+  exclusion: '排除',
+  hue: '色相',
+  saturation: '饱和度',
+  color: '颜色',
+  luminosity: '明度',
+}
+
+const inputClassName =
+  'px-1.5 py-0.5 text-xs border rounded bg-white dark:bg-gray-800 dark:border-gray-600'
+
+/**
+ * 按图层组展开为带缩进的列表，上层图层在前
+ */
+function flattenLayers(layers: ILayerInfo[]): Array<{ layer: ILayerInfo; depth: number }> {
+  const ids = new Set(layers.map((layer) => layer.id))
+  const result: Array<{ layer: ILayerInfo; depth: number }> = []
+  const visit = (parentId: string | undefined, depth: number) => {
+    for (const layer of layers) {
+      const isRoot = !layer.parentId || !ids.has(layer.parentId)
+      if (parentId ? layer.parentId !== parentId : !isRoot) continue
+      result.push({ layer, depth })
+      if (layer.isGroup) visit(layer.id, depth + 1)
+    }
+  }
+  visit(undefined, 0)
+  return result
+}
+
+/**
+ * 场景图层列表：可见性、不透明度、混合模式与图层组
+ */
+export function SceneLayerList() {
+  const {
+    layers,
+    activeLayerId,
+    createLayer,
+    createLayerGroup,
+    updateLayer,
+    setLayerParent,
+    setActiveLayer,
+  } = useSDKStore()
+
+  const rows = useMemo(() => flattenLayers(layers), [layers])
+  const activeLayer = layers.find((layer) => layer.id === activeLayerId) ?? null
+  const groups = layers.filter((layer) => layer.isGroup && layer.id !== activeLayerId)
+
+  return (
+    <div className="border-b border-gray-200 dark:border-gray-700">
+      <div className="px-3 py-2 flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">场景图层</span>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => createLayer()}
+            className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500"
+            title="新建图层"
+          >
+            <Plus size={14} />
+          </button>
+          <button
+            type="button"
+            onClick={() => createLayerGroup('', activeLayerId ? [activeLayerId] : [])}
+            className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500"
+            title="新建图层组"
+          >
+            <FolderPlus size={14} />
+          </button>
+        </div>
+      </div>
+
+      {rows.map(({ layer, depth }) => (
+        <div
+          key={layer.id}
+          className={`flex items-center pr-3 py-1 ${
+            layer.id === activeLayerId
+              ? 'bg-blue-50 dark:bg-blue-900/30'
+              : 'hover:bg-gray-50 dark:hover:bg-gray-800/50'
+          } ${!layer.visible ? 'opacity-50' : ''}`}
+          style={{ paddingLeft: 12 + depth * 12 }}
+        >
+          <button
+            type="button"
+            onClick={() => setActiveLayer(layer.id)}
+            className="flex-1 text-left text-sm truncate text-gray-700 dark:text-gray-300"
+          >
+            {layer.isGroup ? `▾ ${layer.name}` : layer.name}
+          </button>
+          {layer.blendMode !== 'normal' && (
+            <span className="text-xs text-gray-400 mr-1">{BLEND_MODE_LABELS[layer.blendMode]}</span>
+          )}
+          <button
+            type="button"
+            onClick={() => updateLayer(layer.id, { visible: !layer.visible })}
+            className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+            title={layer.visible ? '隐藏' : '显示'}
+          >
+            {layer.visible ? (
+              <Eye size={12} className="text-gray-500" />
+            ) : (
+              <EyeOff size={12} className="text-gray-300" />
+            )}
+          </button>
+        </div>
+      ))}
+
+      {activeLayer && (
+        <div className="px-3 py-2 space-y-1">
+          <div className="flex justify-between items-center">
+            <span className="text-xs text-gray-500 dark:text-gray-400">不透明度</span>
+            <div className="flex items-center gap-1">
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(activeLayer.opacity * 100)}
+                onChange={(e) =>
+                  updateLayer(activeLayer.id, { opacity: Number(e.target.value) / 100 })
+                }
+                className="w-24"
+              />
+              <span className="w-8 text-right text-xs text-gray-500">
+                {Math.round(activeLayer.opacity * 100)}%
+              </span>
+            </div>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-xs text-gray-500 dark:text-gray-400">混合模式</span>
+            <select
+              value={activeLayer.blendMode}
+              onChange={(e) =>
+                updateLayer(activeLayer.id, { blendMode: e.target.value as BlendMode })
+              }
+              className={`w-28 ${inputClassName}`}
+            >
+              {BLEND_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {BLEND_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-xs text-gray-500 dark:text-gray-400">所属组</span>
+            <select
+              value={activeLayer.parentId ?? ''}
+              onChange={(e) => setLayerParent(activeLayer.id, e.target.value || null)}
+              className={`w-28 ${inputClassName}`}
+            >
+              <option value="">无</option>
+              {groups.map((group) => (
+                <option key={group.id} value={group.id}>
+                  {group.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SceneLayerList
@@ -28,9 +28,14 @@ const { mockCanvasManager, mockToolManager, mockSDK } = vi.hoisted(() => {
     getAvailableTools: vi.fn(() => ['select', 'rectangle']),
   }
 
+  const mockAutosaveService = {
+    getRecoverableSession: vi.fn(() => Promise.resolve(null)),
+  }
+
   const mockSDK = {
     getCanvasManager: vi.fn(() => mockCanvasManager),
     getToolManager: vi.fn(() => mockToolManager),
+    getAutosaveService: vi.fn(() => mockAutosaveService),
     dispose: vi.fn(),
     on: vi.fn(),
     off: vi.fn(),
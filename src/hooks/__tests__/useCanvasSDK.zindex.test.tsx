@@ -44,6 +44,7 @@ describe('useCanvasSDK Z轴管理', () => {
     // 创建模拟的SDK
     mockSDK = {
       getCanvasManager: vi.fn(() => mockCanvasManager),
+      getAutosaveService: vi.fn(() => ({ getRecoverableSession: vi.fn(async () => null) })),
       on: vi.fn(),
       off: vi.fn(),
       dispose: vi.fn(),
@@ -1,25 +1,38 @@
 /**
  * useKeyboardShortcuts Hook
- * 管理画布应用的键盘快捷键
+ * 管理画布应用的键盘快捷键：命令注册到 SDK 的快捷键服务，统一处理和弦、when 条件与冲突，
+ * 用户键位表保存在 localStorage
  */
 
+import {
+  formatKeybinding,
+  type IKeybindingConflict,
+  type IResolvedKeybinding,
+  type IShortcutService,
+} from '@sky-canvas/canvas-sdk'
 import { useMemoizedFn } from 'ahooks'
-import { useCallback, useEffect, useRef } from 'react'
-import { useCanvas } from '../contexts/CanvasSDKContext'
-import { useDrawingTools } from './useDrawingTools'
+import { useEffect, useState } from 'react'
+import { type UIToolType, useCanvasStore } from '../store/canvasStore'
+import { useSDKStore } from '../store/sdkStore'
+
+const KEYMAP_STORAGE_KEY = 'sky-canvas:keybindings'
 
 /**
- * 快捷键配置
+ * 应用注册的命令
  */
-interface ShortcutConfig {
+interface ShortcutCommand {
+  id: string
   key: string
-  ctrlKey?: boolean
-  metaKey?: boolean
-  shiftKey?: boolean
-  altKey?: boolean
-  action: () => void
+  when?: string
   description: string
-  category: 'tool' | 'edit' | 'view' | 'layer'
+  action: () => void
+}
+
+/**
+ * 快捷键列表项，label 为当前平台的显示文本
+ */
+export interface ShortcutInfo extends IResolvedKeybinding {
+  label: string
 }
 
 /**
@@ -27,17 +40,23 @@ interface ShortcutConfig {
  */
 interface UseKeyboardShortcutsConfig {
   enabled?: boolean
-  preventDefaultForAll?: boolean
 }
 
 /**
  * useKeyboardShortcuts Hook 返回类型
  */
 interface UseKeyboardShortcutsResult {
-  shortcuts: ShortcutConfig[]
+  shortcuts: ShortcutInfo[]
+  conflicts: IKeybindingConflict[]
   isEnabled: boolean
   enable: () => void
   disable: () => void
+  /** 用 JSON 键位表覆盖快捷键，格式错误时抛出 KeybindingError */
+  setKeymap: (json: string) => void
+  getKeymap: () => string
+  setKeybinding: (command: string, key: string, when?: string) => void
+  resetKeybinding: (command: string) => void
+  resetKeymap: () => void
 }
 
 /**
@@ -47,157 +66,172 @@ interface UseKeyboardShortcutsResult {
 export function useKeyboardShortcuts(
   config: UseKeyboardShortcutsConfig = {}
 ): UseKeyboardShortcutsResult {
-  const { enabled: initialEnabled = true, preventDefaultForAll = false } = config
-
-  const [state, actions] = useCanvas()
-  const { setTool } = useDrawingTools()
-  const enabledRef = useRef(initialEnabled)
-
-  /**
-   * 启用快捷键
-   */
-  const enable = useCallback(() => {
-    enabledRef.current = true
-  }, [])
+  const { enabled: initialEnabled = true } = config
 
-  /**
-   * 禁用快捷键
-   */
-  const disable = useCallback(() => {
-    enabledRef.current = false
-  }, [])
+  const { sdk } = useSDKStore()
+  const { setSelectedTool } = useCanvasStore()
+  const [isEnabled, setIsEnabled] = useState(initialEnabled)
+  const [, setKeymapVersion] = useState(0)
 
-  /**
-   * 删除选中形状
-   */
-  const deleteSelected = useMemoizedFn(() => {
-    const selectedShapes = state.selectedShapes
-    selectedShapes.forEach((shape) => {
-      actions.removeShape(shape.id)
-    })
-  })
+  const shortcutService: IShortcutService | null = sdk?.getShortcutService() ?? null
 
   /**
    * 全选
    */
   const selectAll = useMemoizedFn(() => {
-    state.shapes.forEach((shape) => {
-      actions.selectShape(shape.id)
+    const { shapes, selectShape } = useSDKStore.getState()
+    shapes.forEach((shape) => {
+      selectShape(shape.id)
     })
   })
 
   /**
-   * 快捷键配置列表
+   * 应用命令列表，与 SDK 默认快捷键一起参与冲突检测
    */
-  const shortcuts: ShortcutConfig[] = [
-    // 工具快捷键
-    { key: 's', action: () => setTool('select'), description: '选择工具', category: 'tool' },
-    { key: 'r', action: () => setTool('rectangle'), description: '矩形工具', category: 'tool' },
-    { key: 'c', action: () => setTool('circle'), description: '圆形工具', category: 'tool' },
-    { key: 'e', action: () => setTool('ellipse'), description: '椭圆工具', category: 'tool' },
-    { key: 'l', action: () => setTool('line'), description: '线条工具', category: 'tool' },
-    { key: 'p', action: () => setTool('polygon'), description: '多边形工具', category: 'tool' },
-    { key: 'g', action: () => setTool('star'), description: '星形工具', category: 'tool' },
-    { key: 't', action: () => setTool('text'), description: '文本工具', category: 'tool' },
-    { key: 'd', action: () => setTool('diamond'), description: '菱形工具', category: 'tool' },
-    { key: 'h', action: () => setTool('hand'), description: '平移工具', category: 'tool' },
-    { key: 'i', action: () => setTool('image'), description: '图片工具', category: 'tool' },
-    { key: 'q', action: () => setTool('eraser'), description: '橡皮擦工具', category: 'tool' },
-    { key: 'y', action: () => setTool('eyedropper'), description: '取色器工具', category: 'tool' },
-
-    // 编辑快捷键
-    { key: 'z', ctrlKey: true, action: actions.undo, description: '撤销', category: 'edit' },
-    { key: 'z', metaKey: true, action: actions.undo, description: '撤销 (Mac)', category: 'edit' },
-    { key: 'y', ctrlKey: true, action: actions.redo, description: '重做', category: 'edit' },
-    {
-      key: 'z',
-      ctrlKey: true,
-      shiftKey: true,
-      action: actions.redo,
-      description: '重做',
-      category: 'edit',
-    },
-    {
-      key: 'z',
-      metaKey: true,
-      shiftKey: true,
-      action: actions.redo,
-      description: '重做 (Mac)',
-      category: 'edit',
-    },
-    { key: 'Delete', action: deleteSelected, description: '删除选中', category: 'edit' },
-    { key: 'Backspace', action: deleteSelected, description: '删除选中', category: 'edit' },
-    { key: 'a', ctrlKey: true, action: selectAll, description: '全选', category: 'edit' },
-    { key: 'a', metaKey: true, action: selectAll, description: '全选 (Mac)', category: 'edit' },
-    { key: 'Escape', action: actions.clearSelection, description: '取消选择', category: 'edit' },
-
-    // 图层快捷键
-    {
-      key: ']',
-      ctrlKey: true,
-      action: actions.bringToFront,
-      description: '置顶',
-      category: 'layer',
-    },
-    { key: '[', ctrlKey: true, action: actions.sendToBack, description: '置底', category: 'layer' },
-    { key: ']', action: actions.bringForward, description: '上移一层', category: 'layer' },
-    { key: '[', action: actions.sendBackward, description: '下移一层', category: 'layer' },
-  ]
+  const getCommands = useMemoizedFn((): ShortcutCommand[] => {
+    // 删除与取消选择由选择工具处理
+    const store = useSDKStore.getState()
+    return [
+      // 编辑快捷键
+      {
+        id: 'select-all',
+        key: 'mod+a',
+        when: '!textEditing',
+        description: '全选',
+        action: selectAll,
+      },
+
+      // 图层快捷键
+      {
+        id: 'bring-to-front',
+        key: 'mod+]',
+        when: 'hasSelection',
+        description: '置顶',
+        action: () => store.bringToFront(),
+      },
+      {
+        id: 'send-to-back',
+        key: 'mod+[',
+        when: 'hasSelection',
+        description: '置底',
+        action: () => store.sendToBack(),
+      },
+      {
+        id: 'bring-forward',
+        key: ']',
+        when: 'hasSelection',
+        description: '上移一层',
+        action: () => store.bringForward(),
+      },
+      {
+        id: 'send-backward',
+        key: '[',
+        when: 'hasSelection',
+        description: '下移一层',
+        action: () => store.sendBackward(),
+      },
+    ]
+  })
 
   /**
-   * 处理键盘事件
+   * 注册命令并加载保存的键位表
    */
-  const handleKeyDown = useMemoizedFn((event: KeyboardEvent) => {
-    if (!enabledRef.current || !state.isInitialized) return
-
-    // 忽略在输入框中的快捷键
-    const target = event.target as HTMLElement
-    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
-      return
+  useEffect(() => {
+    if (!shortcutService) return
+
+    const commands = getCommands()
+    for (const command of commands) {
+      shortcutService.register(
+        command.id,
+        { key: command.key, when: command.when, description: command.description },
+        () => command.action()
+      )
     }
 
-    // 查找匹配的快捷键
-    const matchedShortcut = shortcuts.find((shortcut) => {
-      if (shortcut.key.toLowerCase() !== event.key.toLowerCase()) return false
-      if (shortcut.ctrlKey && !event.ctrlKey) return false
-      if (shortcut.metaKey && !event.metaKey) return false
-      if (shortcut.shiftKey && !event.shiftKey) return false
-      if (shortcut.altKey && !event.altKey) return false
-
-      // 如果快捷键没有指定修饰键，则当前不应有修饰键
-      if (!shortcut.ctrlKey && !shortcut.metaKey && (event.ctrlKey || event.metaKey)) {
-        return false
+    // SDK 的工具快捷键改为经由工具栏切换，保持工具栏高亮与画布工具一致
+    const restores = Array.from(shortcutService.getRegisteredShortcuts().keys())
+      .filter((id) => id.startsWith('tool-'))
+      .map((id) =>
+        shortcutService.registerCommand(id, () => {
+          setSelectedTool(id.slice('tool-'.length) as UIToolType)
+        })
+      )
+
+    const saved = localStorage.getItem(KEYMAP_STORAGE_KEY)
+    if (saved) {
+      try {
+        shortcutService.setUserKeymap(saved)
+      } catch (error) {
+        console.warn('Ignoring invalid saved keymap:', error)
       }
+    }
 
-      return true
+    const stopListening = shortcutService.onDidChangeKeymap((keymap) => {
+      if (keymap.length > 0) {
+        localStorage.setItem(KEYMAP_STORAGE_KEY, JSON.stringify(keymap, null, 2))
+      } else {
+        localStorage.removeItem(KEYMAP_STORAGE_KEY)
+      }
+      setKeymapVersion((version) => version + 1)
     })
+    setKeymapVersion((version) => version + 1)
 
-    if (matchedShortcut) {
-      if (preventDefaultForAll) {
-        event.preventDefault()
-      }
-      matchedShortcut.action()
+    return () => {
+      stopListening()
+      for (const restore of restores) restore()
+      for (const command of commands) shortcutService.unregister(command.id)
     }
-  })
+  }, [shortcutService, getCommands, setSelectedTool])
 
   /**
-   * 绑定键盘事件
+   * 启用状态同步到快捷键服务
    */
   useEffect(() => {
-    if (!state.isInitialized) return
+    if (!shortcutService) return
+    if (isEnabled) shortcutService.enable()
+    else shortcutService.disable()
+  }, [shortcutService, isEnabled])
 
-    window.addEventListener('keydown', handleKeyDown)
+  const enable = useMemoizedFn(() => setIsEnabled(true))
+  const disable = useMemoizedFn(() => setIsEnabled(false))
 
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown)
-    }
-  }, [state.isInitialized, handleKeyDown])
+  const setKeymap = useMemoizedFn((json: string) => {
+    shortcutService?.setUserKeymap(json)
+  })
+
+  const getKeymap = useMemoizedFn(() =>
+    JSON.stringify(shortcutService?.getUserKeymap() ?? [], null, 2)
+  )
+
+  const setKeybinding = useMemoizedFn((command: string, key: string, when?: string) => {
+    shortcutService?.setKeybinding(command, key, when)
+  })
+
+  const resetKeybinding = useMemoizedFn((command: string) => {
+    shortcutService?.resetKeybinding(command)
+  })
+
+  const resetKeymap = useMemoizedFn(() => {
+    shortcutService?.resetKeymap()
+  })
+
+  const platform = shortcutService?.getPlatform() ?? 'other'
+  const shortcuts: ShortcutInfo[] = (shortcutService?.getKeybindings() ?? []).map((binding) => ({
+    ...binding,
+    label: formatKeybinding(binding.key, platform),
+  }))
 
   return {
     shortcuts,
-    isEnabled: enabledRef.current,
+    conflicts: shortcutService?.getConflicts() ?? [],
+    isEnabled,
     enable,
     disable,
+    setKeymap,
+    getKeymap,
+    setKeybinding,
+    resetKeybinding,
+    resetKeymap,
   }
 }
 
@@ -3,6 +3,7 @@ import {
   createCanvasSDK,
   type ICanvasManager,
   type ICanvasSDKConfig,
+  type ILayerInfo,
   type IShapeEntity,
   type IToolManager,
   type ShapeEntity,
@@ -14,8 +15,12 @@ interface SDKState {
   isInitialized: boolean
   shapes: IShapeEntity[]
   selectedShapes: ShapeEntity[]
+  layers: ILayerInfo[]
+  activeLayerId: string | null
   canUndo: boolean
   canRedo: boolean
+  historyLabels: string[]
+  historyIndex: number
 
   initialize: (canvas: HTMLCanvasElement, config?: ICanvasSDKConfig) => Promise<void>
   updateState: () => void
@@ -25,12 +30,18 @@ interface SDKState {
   addShape: (entity: ShapeEntity) => void
   removeShape: (id: string) => void
   updateShape: (id: string, updates: Partial<ShapeEntity>) => void
+  createLayer: (name?: string) => void
+  createLayerGroup: (name?: string, layerIds?: string[]) => void
+  updateLayer: (id: string, updates: Partial<ILayerInfo>) => void
+  setLayerParent: (id: string, parentId: string | null) => void
+  setActiveLayer: (id: string) => void
   selectShape: (id: string) => void
   deselectShape: (id: string) => void
   clearSelection: () => void
   hitTest: (point: { x: number; y: number }) => string | null
   undo: () => void
   redo: () => void
+  goToHistory: (index: number) => void
   setTool: (toolName: string) => boolean
   on: (eventName: string, callback: (...args: unknown[]) => void) => void
   off: (eventName: string, callback?: (...args: unknown[]) => void) => void
@@ -48,8 +59,12 @@ export const useSDKStore = create<SDKState>((set, get) => ({
   isInitialized: false,
   shapes: [],
   selectedShapes: [],
+  layers: [],
+  activeLayerId: null,
   canUndo: false,
   canRedo: false,
+  historyLabels: [],
+  historyIndex: -1,
 
   updateState: () => {
     const { sdk } = get()
@@ -61,12 +76,18 @@ export const useSDKStore = create<SDKState>((set, get) => ({
     const stats = manager.getStats()
     const shapes = manager.getShapesByZOrder?.() || []
     const selectedShapes = manager.getSelectedShapes?.() || []
+    const sceneManager = sdk.getSceneManager()
 
     set({
       shapes,
       selectedShapes,
+      // 复制图层对象，面板才能感知原地修改
+      layers: sceneManager.getAllLayers().map((layer) => ({ ...layer })),
+      activeLayerId: sceneManager.getActiveLayer()?.id ?? null,
       canUndo: stats?.history?.canUndo ?? false,
       canRedo: stats?.history?.canRedo ?? false,
+      historyLabels: stats?.history?.labels ?? [],
+      historyIndex: stats?.history?.currentIndex ?? -1,
     })
   },
 
@@ -105,6 +126,26 @@ export const useSDKStore = create<SDKState>((set, get) => ({
 
     set({ sdk, isInitialized: true })
     get().updateState()
+
+    // 上次关闭前有未保存的内容时询问是否恢复；存储不可用（如禁用 IndexedDB）时跳过，不影响初始化
+    const autosave = sdk.getAutosaveService()
+    try {
+      const session = await autosave.getRecoverableSession()
+      if (session) {
+        const savedAt = new Date(session.updatedAt).toLocaleString()
+        if (
+          window.confirm(
+            `检测到 ${savedAt} 未保存的画布（${session.shapeCount} 个图形），是否恢复？`
+          )
+        ) {
+          await autosave.recoverSession(session.id)
+        } else {
+          await autosave.discardSession(session.id)
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to recover autosave session:', error)
+    }
   },
 
   getCanvasManager: () => {
@@ -137,6 +178,42 @@ export const useSDKStore = create<SDKState>((set, get) => ({
     sdk.getCanvasManager().updateShape(id, updates)
   },
 
+  createLayer: (name?: string) => {
+    const { sdk } = get()
+    if (!sdk) return
+    const layer = sdk.getSceneManager().createLayer(name ?? '')
+    sdk.getSceneManager().setActiveLayer(layer.id)
+    get().updateState()
+  },
+
+  createLayerGroup: (name?: string, layerIds?: string[]) => {
+    const { sdk } = get()
+    if (!sdk) return
+    sdk.getSceneManager().createLayerGroup(name ?? '', layerIds)
+    get().updateState()
+  },
+
+  updateLayer: (id: string, updates: Partial<ILayerInfo>) => {
+    const { sdk } = get()
+    if (!sdk) return
+    sdk.getSceneManager().updateLayer(id, updates)
+    get().updateState()
+  },
+
+  setLayerParent: (id: string, parentId: string | null) => {
+    const { sdk } = get()
+    if (!sdk) return
+    sdk.getSceneManager().setLayerParent(id, parentId)
+    get().updateState()
+  },
+
+  setActiveLayer: (id: string) => {
+    const { sdk } = get()
+    if (!sdk) return
+    sdk.getSceneManager().setActiveLayer(id)
+    get().updateState()
+  },
+
   selectShape: (id: string) => {
     const { sdk } = get()
     if (!sdk) return
@@ -173,6 +250,12 @@ export const useSDKStore = create<SDKState>((set, get) => ({
     sdk.getCanvasManager().redo()
   },
 
+  goToHistory: (index: number) => {
+    const { sdk } = get()
+    if (!sdk) return
+    sdk.getCanvasManager().goToHistory(index)
+  },
+
   setTool: (toolName: string) => {
     const { sdk } = get()
     if (!sdk) return false
@@ -244,6 +327,15 @@ export const useSDKStore = create<SDKState>((set, get) => ({
     if (sdk) {
       sdk.dispose()
     }
-    set({ sdk: null, isInitialized: false, shapes: [], selectedShapes: [] })
+    set({
+      sdk: null,
+      isInitialized: false,
+      shapes: [],
+      selectedShapes: [],
+      layers: [],
+      activeLayerId: null,
+      historyLabels: [],
+      historyIndex: -1,
+    })
   },
 }))